@@ -52,11 +52,22 @@ class RNUnityBridgeModule(reactContext: ReactApplicationContext) :
         private const val EVENT_ON_UNITY_ERROR = "onUnityError"
         private const val EVENT_ON_CHARACTOR_READY = "onCharactorReady"
         private const val EVENT_ON_AVATAR_READY = "onAvatarReady"
+        private const val EVENT_ON_UNITY_EVENT = "onUnityEvent"
 
         // Timeout constants
         private const val AVATAR_TIMEOUT_MS: Long = 5000
         private const val CAPTURE_TIMEOUT_MS: Long = 5000
 
+        // 로그에 남길 파라미터 최대 길이 (Base64 이미지 등 수 MB 파라미터가 그대로 출력되지 않도록)
+        private const val MAX_LOGGED_PARAMETER_LENGTH = 200
+
+        private fun formatParameterForLog(parameter: String): String =
+            if (parameter.length > MAX_LOGGED_PARAMETER_LENGTH) {
+                "${parameter.take(MAX_LOGGED_PARAMETER_LENGTH)}… (${parameter.length} chars)"
+            } else {
+                parameter
+            }
+
         // 싱글톤 참조 (콜백에서 접근 가능하도록)
         @Volatile
         private var instance: WeakReference<RNUnityBridgeModule>? = null
@@ -132,7 +143,12 @@ class RNUnityBridgeModule(reactContext: ReactApplicationContext) :
      * RCTEventEmitter 패턴에 필요
      */
     private fun getSupportedEvents(): List<String> {
-        return listOf(EVENT_ON_UNITY_ERROR, EVENT_ON_CHARACTOR_READY, EVENT_ON_AVATAR_READY)
+        return listOf(
+            EVENT_ON_UNITY_ERROR,
+            EVENT_ON_CHARACTOR_READY,
+            EVENT_ON_AVATAR_READY,
+            EVENT_ON_UNITY_EVENT
+        )
     }
 
     /**
@@ -179,6 +195,8 @@ class RNUnityBridgeModule(reactContext: ReactApplicationContext) :
         val eventBody = Arguments.createMap().apply {
             putBoolean("ready", true)
             putString("timestamp", getISO8601Timestamp())
+            // Unity 빌드가 보고한 프로토콜 버전 (구버전 빌드는 없음 → JS에서 v1로 간주)
+            UnityHolder.protocolVersion?.let { putInt("protocolVersion", it) }
         }
 
         synchronized(eventsLock) {
@@ -258,6 +276,29 @@ class RNUnityBridgeModule(reactContext: ReactApplicationContext) :
         }
     }
 
+    /**
+     * Unity 프로토콜 이벤트 처리
+     * Unity에서 UnityNativeBridge.sendUnityEvent()를 통해 호출됨
+     *
+     * @param eventJson `{ type, data, timestamp }` 형태의 JSON 문자열
+     */
+    fun handleUnityEvent(eventJson: String) {
+        val eventBody = try {
+            convertJsonObjectToWritableMap(JSONObject(eventJson))
+        } catch (e: Exception) {
+            Log.e(TAG, "handleUnityEvent: invalid JSON - ${formatParameterForLog(eventJson)}", e)
+            return
+        }
+
+        synchronized(eventsLock) {
+            if (hasListeners) {
+                sendEvent(EVENT_ON_UNITY_EVENT, eventBody)
+            } else {
+                Log.w(TAG, "No listeners for onUnityEvent")
+            }
+        }
+    }
+
     /**
      * 대기 중인 이벤트 발송
      */
@@ -735,7 +776,7 @@ class RNUnityBridgeModule(reactContext: ReactApplicationContext) :
         parameter: String,
         promise: Promise
     ) {
-        Log.d(TAG, "sendUnityMessage: $objectName.$methodName($parameter)")
+        Log.d(TAG, "sendUnityMessage: $objectName.$methodName(${formatParameterForLog(parameter)})")
 
         try {
             UnityHolder.sendMessage(objectName, methodName, parameter)
@@ -820,150 +861,6 @@ class RNUnityBridgeModule(reactContext: ReactApplicationContext) :
         instance = null
     }
 
-    // MARK: - Shared Editor Methods (공유 에디터 메서드들)
-
-    /**
-     * Unity 캐릭터 표시/숨김 설정 (공유 에디터용)
-     */
-    @ReactMethod
-    fun setCharacterVisible(visible: Boolean, promise: Promise) {
-        Log.d(TAG, "setCharacterVisible: $visible")
-
-        try {
-            UnityHolder.sendMessage(
-                "Charactor",
-                "SetCharacterVisible",
-                if (visible) "true" else "false"
-            )
-            promise.resolve(null)
-        } catch (e: Exception) {
-            Log.e(TAG, "setCharacterVisible error: ${e.message}", e)
-            promise.reject("SET_CHARACTER_VISIBLE_ERROR", "Failed to set character visible", e)
-        }
-    }
-
-    /**
-     * 배경 설정 (배경 ID 기반)
-     * iOS의 setBackground와 동일한 기능
-     *
-     * @param backgroundId 배경 ID
-     * @param promise React Native Promise
-     */
-    @ReactMethod
-    fun setBackground(backgroundId: String, promise: Promise) {
-        Log.d(TAG, "setBackground: $backgroundId")
-
-        try {
-            UnityHolder.sendMessage("Background", "SetBackground", backgroundId)
-            promise.resolve(null)
-        } catch (e: Exception) {
-            Log.e(TAG, "setBackground error: ${e.message}", e)
-            promise.reject("SET_BACKGROUND_ERROR", "Failed to set background", e)
-        }
-    }
-
-    /**
-     * 배경색 설정
-     * iOS의 setBackgroundColor와 동일한 기능
-     *
-     * @param hexColor HEX 색상 코드 (예: "#FF0000")
-     * @param promise React Native Promise
-     */
-    @ReactMethod
-    fun setBackgroundColor(hexColor: String, promise: Promise) {
-        Log.d(TAG, "setBackgroundColor: $hexColor")
-
-        try {
-            UnityHolder.sendMessage("Background", "SetBackgroundColor", hexColor)
-            promise.resolve(null)
-        } catch (e: Exception) {
-            Log.e(TAG, "setBackgroundColor error: ${e.message}", e)
-            promise.reject("SET_BACKGROUND_COLOR_ERROR", "Failed to set background color", e)
-        }
-    }
-
-    /**
-     * 사진으로 배경 설정
-     * iOS의 setBackgroundFromPhoto와 동일한 기능
-     *
-     * @param base64Image Base64 인코딩된 이미지 데이터
-     * @param promise React Native Promise
-     */
-    @ReactMethod
-    fun setBackgroundFromPhoto(base64Image: String, promise: Promise) {
-        Log.d(TAG, "setBackgroundFromPhoto: (base64 image length: ${base64Image.length})")
-
-        try {
-            UnityHolder.sendMessage("Background", "SetBackgroundFromBase64", base64Image)
-            promise.resolve(null)
-        } catch (e: Exception) {
-            Log.e(TAG, "setBackgroundFromPhoto error: ${e.message}", e)
-            promise.reject("SET_BACKGROUND_FROM_PHOTO_ERROR", "Failed to set background from photo", e)
-        }
-    }
-
-    /**
-     * 캐릭터 위치 설정
-     * iOS의 setCharacterPosition과 동일한 기능
-     *
-     * @param x X 좌표
-     * @param y Y 좌표
-     * @param promise React Native Promise
-     */
-    @ReactMethod
-    fun setCharacterPosition(x: Double, y: Double, promise: Promise) {
-        Log.d(TAG, "setCharacterPosition: ($x, $y)")
-
-        try {
-            val json = """{"x":$x,"y":$y}"""
-            UnityHolder.sendMessage("Charactor", "SetCharacterPosition", json)
-            promise.resolve(null)
-        } catch (e: Exception) {
-            Log.e(TAG, "setCharacterPosition error: ${e.message}", e)
-            promise.reject("SET_CHARACTER_POSITION_ERROR", "Failed to set character position", e)
-        }
-    }
-
-    /**
-     * 캐릭터 스케일 설정
-     * iOS의 setCharacterScale과 동일한 기능
-     *
-     * @param scale 스케일 값
-     * @param promise React Native Promise
-     */
-    @ReactMethod
-    fun setCharacterScale(scale: Double, promise: Promise) {
-        Log.d(TAG, "setCharacterScale: $scale")
-
-        try {
-            UnityHolder.sendMessage("Charactor", "SetCharacterScale", scale.toString())
-            promise.resolve(null)
-        } catch (e: Exception) {
-            Log.e(TAG, "setCharacterScale error: ${e.message}", e)
-            promise.reject("SET_CHARACTER_SCALE_ERROR", "Failed to set character scale", e)
-        }
-    }
-
-    /**
-     * 캐릭터 회전 설정
-     * iOS의 setCharacterRotation과 동일한 기능
-     *
-     * @param rotation 회전 각도(degrees)
-     * @param promise React Native Promise
-     */
-    @ReactMethod
-    fun setCharacterRotation(rotation: Double, promise: Promise) {
-        Log.d(TAG, "setCharacterRotation: $rotation")
-
-        try {
-            UnityHolder.sendMessage("Charactor", "SetCharacterRotation", rotation.toString())
-            promise.resolve(null)
-        } catch (e: Exception) {
-            Log.e(TAG, "setCharacterRotation error: ${e.message}", e)
-            promise.reject("SET_CHARACTER_ROTATION_ERROR", "Failed to set character rotation", e)
-        }
-    }
-
     // MARK: - Unity Engine Methods (Unity 엔진 메서드들)
 
     /**
@@ -1062,6 +959,52 @@ class RNUnityBridgeModule(reactContext: ReactApplicationContext) :
         return jsonObject
     }
 
+    /**
+     * org.json.JSONObject를 WritableMap으로 변환
+     */
+    private fun convertJsonObjectToWritableMap(jsonObject: JSONObject): WritableMap {
+        val map = Arguments.createMap()
+        val keys = jsonObject.keys()
+
+        while (keys.hasNext()) {
+            val key = keys.next()
+            when (val value = jsonObject.get(key)) {
+                JSONObject.NULL -> map.putNull(key)
+                is Boolean -> map.putBoolean(key, value)
+                is Int -> map.putInt(key, value)
+                is Number -> map.putDouble(key, value.toDouble())
+                is String -> map.putString(key, value)
+                is JSONObject -> map.putMap(key, convertJsonObjectToWritableMap(value))
+                is JSONArray -> map.putArray(key, convertJsonArrayToWritableArray(value))
+                else -> map.putString(key, value.toString())
+            }
+        }
+
+        return map
+    }
+
+    /**
+     * JSONArray를 WritableArray로 변환
+     */
+    private fun convertJsonArrayToWritableArray(jsonArray: JSONArray): WritableArray {
+        val array = Arguments.createArray()
+
+        for (i in 0 until jsonArray.length()) {
+            when (val value = jsonArray.get(i)) {
+                JSONObject.NULL -> array.pushNull()
+                is Boolean -> array.pushBoolean(value)
+                is Int -> array.pushInt(value)
+                is Number -> array.pushDouble(value.toDouble())
+                is String -> array.pushString(value)
+                is JSONObject -> array.pushMap(convertJsonObjectToWritableMap(value))
+                is JSONArray -> array.pushArray(convertJsonArrayToWritableArray(value))
+                else -> array.pushString(value.toString())
+            }
+        }
+
+        return array
+    }
+
     /**
      * React Native로 이벤트 전송
      */
@@ -63,6 +63,10 @@ object UnityHolder {
     @Volatile
     private var _hasEverBeenReady: Boolean = false
 
+    /** Unity 빌드가 보고한 메시지 프로토콜 버전 (구버전 빌드는 null) */
+    @Volatile
+    private var _protocolVersion: Int? = null
+
     /** 메시지 큐 (GameObject Ready 전까지 메시지 저장) */
     private val messageQueue = mutableListOf<QueuedMessage>()
 
@@ -96,6 +100,10 @@ object UnityHolder {
     val isCharactorReady: Boolean
         get() = _isCharactorReady
 
+    /** Unity 메시지 프로토콜 버전 조회 (핸드셰이크) */
+    val protocolVersion: Int?
+        get() = _protocolVersion
+
     /** GameObject Ready 상태 조회 */
     val isGameObjectReady: Boolean
         get() = _isGameObjectReady
@@ -177,16 +185,22 @@ object UnityHolder {
      * UnityNativeBridge.notifyCharactorReady()를 통해 호출됨
      *
      * Main Thread에서 실행되어야 함
+     *
+     * @param protocolVersion Unity 빌드가 보고한 프로토콜 버전 (구버전 빌드는 null)
      */
-    fun notifyCharactorReady() {
-        Log.d(TAG, "notifyCharactorReady() called")
+    fun notifyCharactorReady(protocolVersion: Int? = null) {
+        Log.d(TAG, "notifyCharactorReady() called, protocolVersion: $protocolVersion")
 
         // Main Thread에서 실행 보장
         if (Looper.myLooper() != Looper.getMainLooper()) {
-            mainHandler.post { notifyCharactorReady() }
+            mainHandler.post { notifyCharactorReady(protocolVersion) }
             return
         }
 
+        if (protocolVersion != null) {
+            _protocolVersion = protocolVersion
+        }
+
         synchronized(queueLock) {
             _isCharactorReady = true
             _isGameObjectReady = true
@@ -47,6 +47,28 @@ object UnityNativeBridge {
         }
     }
 
+    /**
+     * Unity C#에서 호출되는 Charactor Ready 알림 (프로토콜 버전 포함)
+     * 메시지 프로토콜 핸드셰이크를 지원하는 빌드가 notifyCharactorReady() 대신 호출함
+     *
+     * iOS의 _notifyCharactorReadyWithVersion()과 동일한 역할
+     *
+     * @param protocolVersion Unity 빌드의 메시지 프로토콜 버전
+     */
+    @JvmStatic
+    fun notifyCharactorReadyWithVersion(protocolVersion: Int) {
+        Log.d(TAG, "notifyCharactorReadyWithVersion($protocolVersion) called from Unity C#")
+
+        mainHandler.post {
+            try {
+                UnityHolder.notifyCharactorReady(protocolVersion)
+                Log.d(TAG, "Successfully notified UnityHolder (protocolVersion: $protocolVersion)")
+            } catch (e: Exception) {
+                Log.e(TAG, "Error notifying UnityHolder: ${e.message}", e)
+            }
+        }
+    }
+
     /**
      * Unity C#에서 호출되는 Avatar Ready 알림
      * SetSprites() 완료 시 호출됨
@@ -88,6 +110,33 @@ object UnityNativeBridge {
         }
     }
 
+    /**
+     * Unity C#에서 호출되는 프로토콜 이벤트 전달
+     * `{ type, data, timestamp }` 형태의 JSON을 onUnityEvent로 React Native에 전달함
+     * 구조 검증은 JS(UnityEvents.ts)에서 수행
+     *
+     * iOS의 _sendUnityEvent()와 동일한 역할
+     *
+     * @param eventJson 이벤트 JSON 문자열
+     */
+    @JvmStatic
+    fun sendUnityEvent(eventJson: String) {
+        Log.d(TAG, "sendUnityEvent() called, length: ${eventJson.length}")
+
+        mainHandler.post {
+            try {
+                val module = RNUnityBridgeModule.getInstance()
+                if (module != null) {
+                    module.handleUnityEvent(eventJson)
+                } else {
+                    Log.w(TAG, "RNUnityBridgeModule instance not available, dropping Unity event")
+                }
+            } catch (e: Exception) {
+                Log.e(TAG, "Error forwarding Unity event: ${e.message}", e)
+            }
+        }
+    }
+
     /**
      * Unity에서 에러 발생 시 호출
      *
@@ -808,6 +808,7 @@ class UnityView(context: Context) : FrameLayout(context) {
             putString("message", message)
             putString("type", type)
             putString("timestamp", getISO8601Timestamp())
+            UnityHolder.protocolVersion?.let { putInt("protocolVersion", it) }
         }
         sendEvent("onUnityReady", event)
     }
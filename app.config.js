@@ -42,7 +42,8 @@ export default {
         NSLocationAlwaysAndWhenInUseUsageDescription: "RunTaeho는 백그라운드에서도 러닝을 중단 없이 기록하기 위해 위치 접근이 필요합니다. 앱이 백그라운드 상태에서도 러닝 경로, 이동 거리, 페이스가 정확하게 기록됩니다.",
         NSLocationAlwaysUsageDescription: "RunTaeho는 백그라운드에서도 러닝을 중단 없이 기록하기 위해 위치 접근이 필요합니다. 앱이 백그라운드 상태에서도 러닝 경로, 이동 거리, 페이스가 정확하게 기록됩니다.",
         NSMotionUsageDescription: "걸음 수 측정 및 러닝 페이스 분석을 위해 동작 및 피트니스 데이터를 사용합니다.",
-        UIBackgroundModes: ["location"],
+        NSBluetoothAlwaysUsageDescription: "러닝 중 블루투스 심박계의 심박수를 기록하기 위해 블루투스를 사용합니다.",
+        UIBackgroundModes: ["location", "audio", "bluetooth-central"],
         GIDClientID: process.env.EXPO_PUBLIC_GOOGLE_IOS_CLIENT_ID
       }
     },
@@ -63,7 +64,9 @@ export default {
         "ACCESS_BACKGROUND_LOCATION", // 백그라운드 위치 추적
         "ACTIVITY_RECOGNITION", // 동작 및 피트니스 (걸음 수)
         "FOREGROUND_SERVICE",
-        "FOREGROUND_SERVICE_LOCATION" // Foreground Service (위치)
+        "FOREGROUND_SERVICE_LOCATION", // Foreground Service (위치)
+        "BLUETOOTH_SCAN", // 심박계 검색 (Android 12+)
+        "BLUETOOTH_CONNECT" // 심박계 연결 (Android 12+)
       ],
       ...(googleMapsAndroidApiKey
         ? {
@@ -105,6 +108,14 @@ export default {
           motionPermission: "걸음 수 측정 및 러닝 페이스 분석을 위해 동작 및 피트니스 데이터를 사용합니다."
         }
       ],
+      [
+        "react-native-ble-plx",
+        {
+          isBackgroundEnabled: true,
+          modes: ["central"],
+          bluetoothAlwaysPermission: "러닝 중 블루투스 심박계의 심박수를 기록하기 위해 블루투스를 사용합니다."
+        }
+      ],
       [
         "expo-splash-screen",
         {
@@ -8,6 +8,7 @@ import { UpdateProvider } from '~/features/updates';
 import { ForceUpdateProvider } from '~/features/forceUpdate';
 import { GlobalUnityHost } from '~/features/unity/components/GlobalUnityHost';
 import { initializeSentry, Sentry } from '~/config/sentry';
+import { initializeNotificationHandler } from '~/config/notifications';
 import { ErrorBoundary } from '~/shared/components/ErrorBoundary';
 import { GREY } from '~/shared/styles';
 import { useShareEntryTransitionStore } from '~/features/share/stores/shareEntryTransitionStore';
@@ -15,6 +16,9 @@ import { useShareEntryTransitionStore } from '~/features/share/stores/shareEntry
 // Sentry 초기화
 initializeSentry();
 
+// 알림 표시 설정 (앱 전체에서 한 번만 등록)
+initializeNotificationHandler();
+
 // 🔧 개발 환경 전용: API 로깅 인터셉터 등록
 if (__DEV__) {
   void import('~/services/api/interceptors');
@@ -101,6 +105,18 @@ function RootLayout() {
                         headerShown: false,
                       }}
                     />
+                    <Stack.Screen
+                      name="workout"
+                      options={{
+                        headerShown: false,
+                      }}
+                    />
+                    <Stack.Screen
+                      name="ghost-pacer"
+                      options={{
+                        headerShown: false,
+                      }}
+                    />
                   </Stack>
                   {isShareEntryTransitionActive && (
                     <View
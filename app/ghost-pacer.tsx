@@ -0,0 +1,5 @@
+import { GhostPacerSetupView } from '~/features/ghost/views';
+
+export default function GhostPacerSetupScreen() {
+  return <GhostPacerSetupView />;
+}
@@ -0,0 +1,5 @@
+import { HeartRateSensorView } from '~/features/running/views';
+
+export default function HeartRateSensorScreen() {
+  return <HeartRateSensorView />;
+}
@@ -0,0 +1,5 @@
+import { HeartRateZoneSettingsView } from '~/features/running/views';
+
+export default function HeartRateZonesScreen() {
+  return <HeartRateZoneSettingsView />;
+}
@@ -0,0 +1,5 @@
+import { VoiceCoachingSettingsView } from '~/features/coaching/views';
+
+export default function VoiceCoachingSettingsScreen() {
+  return <VoiceCoachingSettingsView />;
+}
@@ -0,0 +1,14 @@
+/**
+ * Workout 라우트 레이아웃
+ */
+
+import { Stack } from 'expo-router/stack';
+
+export default function WorkoutLayout() {
+  return (
+    <Stack screenOptions={{ headerShown: false }}>
+      <Stack.Screen name="index" />
+      <Stack.Screen name="editor" />
+    </Stack>
+  );
+}
@@ -0,0 +1,7 @@
+import { useLocalSearchParams } from 'expo-router';
+import { WorkoutPlanEditorView } from '~/features/workout/views';
+
+export default function WorkoutPlanEditorScreen() {
+  const { id } = useLocalSearchParams<{ id?: string }>();
+  return <WorkoutPlanEditorView {...(id !== undefined && { planId: id })} />;
+}
@@ -0,0 +1,5 @@
+import { WorkoutPlanListView } from '~/features/workout/views';
+
+export default function WorkoutPlanListScreen() {
+  return <WorkoutPlanListView />;
+}
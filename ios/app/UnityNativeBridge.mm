@@ -31,6 +31,24 @@ extern "C" {
         });
     }
 
+    /// <summary>
+    /// Unity GameObject (Charactor) 준비 완료 알림 (프로토콜 버전 포함)
+    /// 메시지 프로토콜 핸드셰이크를 지원하는 빌드가 _notifyCharactorReady() 대신 호출함
+    /// </summary>
+    /// @param protocolVersion Unity 빌드의 메시지 프로토콜 버전
+    void _notifyCharactorReadyWithVersion(int protocolVersion) {
+        NSLog(@"[UnityNativeBridge] 🎉 Charactor GameObject Ready notification received from Unity! (protocolVersion: %d)", protocolVersion);
+
+        dispatch_async(dispatch_get_main_queue(), ^{
+            [[NSNotificationCenter defaultCenter]
+                postNotificationName:@"UnityCharactorReady"
+                              object:nil
+                            userInfo:@{ @"protocolVersion": @(protocolVersion) }];
+
+            NSLog(@"[UnityNativeBridge] ✅ NotificationCenter posted: UnityCharactorReady (protocolVersion: %d)", protocolVersion);
+        });
+    }
+
     /// <summary>
     /// Unity Avatar (SetSprites) 적용 완료 알림
     /// Unity CharactorManager.cs의 SetSprites() 완료 시 호출됨
@@ -50,6 +68,30 @@ extern "C" {
         });
     }
 
+    /// <summary>
+    /// Unity 프로토콜 이벤트 전달
+    /// { type, data, timestamp } 형태의 JSON을 RNUnityBridge의 onUnityEvent로 전달
+    /// 구조 검증은 JS(UnityEvents.ts)에서 수행
+    /// </summary>
+    /// @param eventJson 이벤트 JSON 문자열
+    void _sendUnityEvent(const char* eventJson) {
+        NSData *data = [[NSString stringWithUTF8String:eventJson] dataUsingEncoding:NSUTF8StringEncoding];
+        NSError *error = nil;
+        id body = data ? [NSJSONSerialization JSONObjectWithData:data options:0 error:&error] : nil;
+
+        if (![body isKindOfClass:[NSDictionary class]]) {
+            NSLog(@"[UnityNativeBridge] ⚠️ Invalid Unity event JSON: %@", error.localizedDescription);
+            return;
+        }
+
+        dispatch_async(dispatch_get_main_queue(), ^{
+            [[NSNotificationCenter defaultCenter]
+                postNotificationName:@"UnityProtocolEvent"
+                              object:nil
+                            userInfo:body];
+        });
+    }
+
     /// <summary>
     /// Unity 캐릭터 스크린샷 캡처 완료 알림
     /// Unity CharactorManager.cs의 CaptureCharacter() 완료 시 호출됨
@@ -0,0 +1,16 @@
+import * as Notifications from 'expo-notifications';
+
+/**
+ * 알림 표시 설정
+ * 앱 전체에서 한 번만 등록하며, 앱이 켜져 있을 때도 알림 배너를 보여준다.
+ */
+export const initializeNotificationHandler = () => {
+  Notifications.setNotificationHandler({
+    handleNotification: async () => ({
+      shouldShowBanner: true,
+      shouldShowList: true,
+      shouldPlaySound: false,
+      shouldSetBadge: true,
+    }),
+  });
+};
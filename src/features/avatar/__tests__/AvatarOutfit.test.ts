@@ -0,0 +1,127 @@
+import {
+  createOutfitPreset,
+  getUnownedOutfitItems,
+  getWishlistProgress,
+  isSameOutfit,
+  MAX_OUTFIT_PRESETS,
+  toAvatarOutfit,
+  toEquippedItemsMap,
+  validateOutfitPresetName,
+  type AvatarOutfit,
+} from '~/features/avatar/models';
+import type { Item } from '~/features/avatar/models/Item';
+import { useAvatarWardrobeStore } from '~/features/avatar/stores/avatarWardrobeStore';
+import { unityService } from '~/features/unity/services/UnityService';
+
+function createItem(id: number, itemTypeId: number, overrides: Partial<Item> = {}): Item {
+  return {
+    id,
+    itemType: { id: itemTypeId, name: itemTypeId === 1 ? '머리' : '의상' },
+    name: `Item_${id}`,
+    unityFilePath: `Assets/05.Resource/Item_${id}.png`,
+    filePath: `/assets/items/Item_${id}.png`,
+    point: 100,
+    createdAt: '2026-10-01T00:00:00.000Z',
+    ...overrides,
+  };
+}
+
+const HAIR = createItem(1, 1, { isOwned: true });
+const SHIRT = createItem(2, 2, { isOwned: false, point: 300 });
+
+describe('AvatarOutfit', () => {
+  it('converts between equipped maps and outfits', () => {
+    const outfit = toAvatarOutfit({ 1: HAIR, 2: SHIRT }, '#1A1A1A');
+
+    expect(outfit.items.map((item) => item.id)).toEqual([1, 2]);
+    expect(toEquippedItemsMap(outfit)).toEqual({ 1: HAIR, 2: SHIRT });
+    expect(getUnownedOutfitItems(outfit)).toEqual([SHIRT]);
+  });
+
+  it('compares outfits by item ids and hair color', () => {
+    const a: AvatarOutfit = { items: [HAIR, SHIRT], hairColor: '#1a1a1a' };
+
+    expect(isSameOutfit(a, { items: [SHIRT, HAIR], hairColor: '#1A1A1A' })).toBe(true);
+    expect(isSameOutfit(a, { items: [HAIR], hairColor: '#1A1A1A' })).toBe(false);
+  });
+
+  it('validates preset names', () => {
+    const preset = createOutfitPreset(' 출근룩 ', { items: [HAIR], hairColor: '#1A1A1A' }, new Date(0));
+
+    expect(preset).toMatchObject({ id: 'preset-0', name: '출근룩' });
+    expect(validateOutfitPresetName('  ', [])).not.toBeNull();
+    expect(validateOutfitPresetName('출근룩', [preset])).toBe('같은 이름의 프리셋이 있어요.');
+    expect(validateOutfitPresetName('주말룩', [preset])).toBeNull();
+
+    const full = Array.from({ length: MAX_OUTFIT_PRESETS }, (_, index) => ({
+      ...preset,
+      id: `preset-${index}`,
+      name: `룩 ${index}`,
+    }));
+    expect(validateOutfitPresetName('주말룩', full)).not.toBeNull();
+  });
+
+  it('reports the points still needed for a wishlist item', () => {
+    expect(getWishlistProgress(SHIRT, 120)).toEqual({ pointsNeeded: 180, progress: 0.4, isAffordable: false });
+    expect(getWishlistProgress(SHIRT, 500)).toEqual({ pointsNeeded: 0, progress: 1, isAffordable: true });
+  });
+});
+
+describe('avatarWardrobeStore', () => {
+  beforeEach(() => {
+    useAvatarWardrobeStore.getState().reset();
+  });
+
+  it('toggles wishlist items and drops purchased ones', () => {
+    const { toggleWishlist, removeFromWishlist } = useAvatarWardrobeStore.getState();
+
+    toggleWishlist({ ...SHIRT, status: 'NOT_OWNED' });
+    toggleWishlist(createItem(3, 2, { isOwned: false }));
+    expect(useAvatarWardrobeStore.getState().wishlist.map((entry) => entry.item.id)).toEqual([2, 3]);
+    expect(useAvatarWardrobeStore.getState().wishlist[0]?.item.status).toBeUndefined();
+
+    toggleWishlist(SHIRT);
+    expect(useAvatarWardrobeStore.getState().wishlist.map((entry) => entry.item.id)).toEqual([3]);
+
+    removeFromWishlist([3]);
+    expect(useAvatarWardrobeStore.getState().wishlist).toEqual([]);
+  });
+});
+
+describe('UnityService.captureOutfits', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('captures each outfit in turn and restores the preview', async () => {
+    const sync = jest.spyOn(unityService, 'syncAvatar').mockResolvedValue('applied');
+    jest
+      .spyOn(unityService, 'captureAvatar')
+      .mockResolvedValueOnce('left')
+      .mockResolvedValueOnce('right');
+
+    const left = { items: [HAIR], hairColor: '#1A1A1A' };
+    const right = { items: [HAIR, SHIRT], hairColor: '#FFFFFF' };
+
+    await expect(unityService.captureOutfits([left, right], right)).resolves.toEqual(['left', 'right']);
+    expect(sync.mock.calls.map(([items, hairColor]) => [items.length, hairColor])).toEqual([
+      [1, '#1A1A1A'],
+      [2, '#FFFFFF'],
+      [2, '#FFFFFF'],
+    ]);
+  });
+
+  it('restores the preview even when an outfit fails to apply', async () => {
+    const sync = jest
+      .spyOn(unityService, 'syncAvatar')
+      .mockResolvedValueOnce('failed')
+      .mockResolvedValue('applied');
+    const capture = jest.spyOn(unityService, 'captureAvatar');
+
+    const outfit = { items: [HAIR], hairColor: '#1A1A1A' };
+
+    await expect(unityService.captureOutfits([outfit], outfit)).rejects.toThrow();
+    expect(capture).not.toHaveBeenCalled();
+    expect(sync).toHaveBeenCalledTimes(2);
+  });
+});
@@ -23,8 +23,23 @@ export type {
   ItemCategory,
   HairColor,
   ItemStatusValue,
+  AvatarOutfit,
+  AvatarOutfitPreset,
+  WishlistEntry,
+  WishlistProgress,
+} from './models';
+export {
+  isItemType,
+  MAX_OUTFIT_PRESETS,
+  MAX_OUTFIT_PRESET_NAME_LENGTH,
+  createOutfitPreset,
+  getUnownedOutfitItems,
+  getWishlistProgress,
+  isSameOutfit,
+  toAvatarOutfit,
+  toEquippedItemsMap,
+  validateOutfitPresetName,
 } from './models';
-export { isItemType } from './models';
 
 // ===================================
 // Constants
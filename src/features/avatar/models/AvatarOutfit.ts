@@ -0,0 +1,131 @@
+/**
+ * Avatar Outfit 모델
+ * 코디 프리셋, 위시리스트, 코디 비교
+ */
+
+import type { EquippedItemsMap } from './Avatar';
+import type { Item } from './Item';
+
+// 저장할 수 있는 코디 프리셋 최대 개수
+export const MAX_OUTFIT_PRESETS = 10;
+
+// 프리셋 이름 최대 길이
+export const MAX_OUTFIT_PRESET_NAME_LENGTH = 12;
+
+/**
+ * 코디 (착용 아이템 + 헤어 색상)
+ */
+export interface AvatarOutfit {
+  readonly items: readonly Item[];
+  readonly hairColor: string;
+}
+
+/**
+ * 저장된 코디 프리셋
+ */
+export interface AvatarOutfitPreset extends AvatarOutfit {
+  readonly id: string;
+  readonly name: string;
+  readonly createdAt: string; // ISO
+}
+
+/**
+ * 위시리스트 항목 (담을 때의 아이템 정보)
+ */
+export interface WishlistEntry {
+  readonly item: Item;
+  readonly addedAt: string; // ISO
+}
+
+/**
+ * 위시리스트 진행 상태
+ */
+export interface WishlistProgress {
+  readonly pointsNeeded: number; // 0이면 바로 구매 가능
+  readonly progress: number; // 0~1
+  readonly isAffordable: boolean;
+}
+
+/**
+ * 장착 맵 → 코디
+ */
+export const toAvatarOutfit = (equippedItems: EquippedItemsMap, hairColor: string): AvatarOutfit => ({
+  items: Object.values(equippedItems).filter((item): item is Item => !!item),
+  hairColor,
+});
+
+/**
+ * 코디 → 장착 맵 (itemType.id 기준)
+ */
+export const toEquippedItemsMap = (outfit: AvatarOutfit): EquippedItemsMap => {
+  const map: EquippedItemsMap = {};
+  for (const item of outfit.items) {
+    map[item.itemType.id] = item;
+  }
+  return map;
+};
+
+/**
+ * 코디에 포함된 미보유 아이템
+ * 착용 중인 아이템은 isOwned가 비어 있을 수 있어 false인 경우만 미보유로 본다.
+ */
+export const getUnownedOutfitItems = (outfit: AvatarOutfit): Item[] =>
+  outfit.items.filter((item) => item.isOwned === false);
+
+/**
+ * 같은 코디인지 (아이템 ID + 헤어 색상)
+ */
+export const isSameOutfit = (a: AvatarOutfit, b: AvatarOutfit): boolean => {
+  const toKey = (outfit: AvatarOutfit) =>
+    `${outfit.items
+      .map((item) => item.id)
+      .sort((x, y) => x - y)
+      .join(',')}|${outfit.hairColor.toLowerCase()}`;
+  return toKey(a) === toKey(b);
+};
+
+/**
+ * 프리셋 이름 검증
+ */
+export const validateOutfitPresetName = (
+  name: string,
+  presets: readonly AvatarOutfitPreset[]
+): string | null => {
+  const trimmed = name.trim();
+  if (trimmed.length === 0) return '프리셋 이름을 입력해주세요.';
+  if (trimmed.length > MAX_OUTFIT_PRESET_NAME_LENGTH) {
+    return `프리셋 이름은 ${MAX_OUTFIT_PRESET_NAME_LENGTH}자 이하로 입력해주세요.`;
+  }
+  if (presets.some((preset) => preset.name === trimmed)) return '같은 이름의 프리셋이 있어요.';
+  if (presets.length >= MAX_OUTFIT_PRESETS) {
+    return `프리셋은 최대 ${MAX_OUTFIT_PRESETS}개까지 저장할 수 있어요.`;
+  }
+  return null;
+};
+
+/**
+ * 프리셋 생성
+ */
+export const createOutfitPreset = (
+  name: string,
+  outfit: AvatarOutfit,
+  now: Date = new Date()
+): AvatarOutfitPreset => ({
+  id: `preset-${now.getTime()}`,
+  name: name.trim(),
+  items: outfit.items.map((item) => ({ ...item, isOwned: true })),
+  hairColor: outfit.hairColor,
+  createdAt: now.toISOString(),
+});
+
+/**
+ * 위시리스트 아이템까지 남은 포인트
+ */
+export const getWishlistProgress = (item: Item, totalPoint: number): WishlistProgress => {
+  const pointsNeeded = Math.max(0, item.point - totalPoint);
+  return {
+    pointsNeeded,
+    progress: item.point > 0 ? Math.min(1, totalPoint / item.point) : 1,
+    isAffordable: pointsNeeded === 0,
+  };
+};
@@ -3,6 +3,7 @@
  */
 export * from './Avatar';
 export * from './Item';
+export * from './AvatarOutfit';
 export type { ItemCategory, HairColor } from './avatarConstants';
 export {
   HAIR_COLORS,
@@ -0,0 +1,68 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { create } from 'zustand';
+import { createJSONStorage, persist } from 'zustand/middleware';
+import type { AvatarOutfitPreset, WishlistEntry } from '../models/AvatarOutfit';
+import type { Item } from '../models/Item';
+
+/**
+ * Avatar Wardrobe Store (Zustand)
+ * 코디 프리셋과 위시리스트 (기기에 저장)
+ */
+interface AvatarWardrobeState {
+  presets: AvatarOutfitPreset[];
+  wishlist: WishlistEntry[];
+
+  // Actions
+  addPreset: (preset: AvatarOutfitPreset) => void;
+  removePreset: (presetId: string) => void;
+  toggleWishlist: (item: Item) => void;
+  removeFromWishlist: (itemIds: readonly number[]) => void;
+  reset: () => void;
+}
+
+const initialState = {
+  presets: [] as AvatarOutfitPreset[],
+  wishlist: [] as WishlistEntry[],
+};
+
+export const useAvatarWardrobeStore = create<AvatarWardrobeState>()(
+  persist(
+    (set) => ({
+      ...initialState,
+
+      addPreset: (preset) => set((state) => ({ presets: [...state.presets, preset] })),
+
+      removePreset: (presetId) =>
+        set((state) => ({ presets: state.presets.filter((preset) => preset.id !== presetId) })),
+
+      toggleWishlist: (item) =>
+        set((state) => {
+          if (state.wishlist.some((entry) => entry.item.id === item.id)) {
+            return { wishlist: state.wishlist.filter((entry) => entry.item.id !== item.id) };
+          }
+
+          // 착용 상태는 화면마다 다시 계산하므로 저장하지 않는다
+          const { status: _status, ...snapshot } = item;
+          return {
+            wishlist: [...state.wishlist, { item: snapshot, addedAt: new Date().toISOString() }],
+          };
+        }),
+
+      // 구매한 아이템은 위시리스트에서 뺀다
+      removeFromWishlist: (itemIds) =>
+        set((state) => ({
+          wishlist: state.wishlist.filter((entry) => !itemIds.includes(entry.item.id)),
+        })),
+
+      reset: () => set(initialState),
+    }),
+    {
+      name: 'avatar-wardrobe-storage', // AsyncStorage key
+      storage: createJSONStorage(() => AsyncStorage),
+      partialize: (state) => ({
+        presets: state.presets,
+        wishlist: state.wishlist,
+      }),
+    }
+  )
+);
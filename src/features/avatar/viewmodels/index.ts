@@ -5,3 +5,5 @@
  * 대신 useAvatarViewModel.ts를 사용하세요.
  */
 export * from './useAvatarViewModel';
+export * from './useOutfitComparison';
+export * from './usePurchaseForecast';
@@ -20,7 +20,18 @@ import {
   type ItemStatusValue,
   type EquippedItemsMap,
   type HairColor,
+  type AvatarOutfit,
+  type AvatarOutfitPreset,
+  type WishlistEntry,
+  type WishlistProgress,
+  createOutfitPreset,
+  getUnownedOutfitItems,
+  getWishlistProgress,
+  toAvatarOutfit,
+  toEquippedItemsMap,
+  validateOutfitPresetName,
 } from '~/features/avatar';
+import { useAvatarWardrobeStore } from '~/features/avatar/stores/avatarWardrobeStore';
 import { unityService } from '~/features/unity/services/UnityService';
 import { useUserStore } from '~/stores/user/userStore';
 
@@ -132,6 +143,19 @@ export interface AvatarViewModel {
   setShowInsufficientPointsAlert: (show: boolean) => void;
   selectHairColor: (color: HairColor) => void;
 
+  // Wardrobe (프리셋 / 위시리스트)
+  readonly currentOutfit: AvatarOutfit;
+  readonly pendingOutfit: AvatarOutfit;
+  readonly presets: readonly AvatarOutfitPreset[];
+  readonly canSavePreset: boolean;
+  readonly wishlist: readonly { entry: WishlistEntry; progress: WishlistProgress }[];
+  savePreset: (name: string) => string | null;
+  equipPreset: (preset: AvatarOutfitPreset) => Promise<void>;
+  deletePreset: (presetId: string) => void;
+  isWishlisted: (itemId: number) => boolean;
+  toggleWishlist: (item: Item) => void;
+  tryOnItem: (item: Item) => void;
+
   // Pagination
   fetchNextPage: () => void;
   hasNextPage: boolean | undefined;
@@ -152,6 +176,8 @@ export function useAvatarViewModel(): AvatarViewModel {
   const globalHairColor = useUserStore((state) => state.hairColor);
   const setEquippedItems = useUserStore((state) => state.setEquippedItems);
   const setGlobalHairColor = useUserStore((state) => state.setHairColor);
+  const presets = useAvatarWardrobeStore((state) => state.presets);
+  const wishlistEntries = useAvatarWardrobeStore((state) => state.wishlist);
 
   // 전역 equippedItems를 항상 Map으로 정규화해 사용
   const globalEquippedMap = useMemo<EquippedItemsMap>(() => normalizeEquippedMap(globalEquippedItems), [globalEquippedItems]);
@@ -261,6 +287,26 @@ export function useAvatarViewModel(): AvatarViewModel {
 
   const isLoading = purchaseMutation.isPending || updateEquippedMutation.isPending;
 
+  // 현재 착용 코디 / 입어보는 코디
+  const currentOutfit = useMemo(
+    () => toAvatarOutfit(globalEquippedMap, globalHairColor),
+    [globalEquippedMap, globalHairColor]
+  );
+  const pendingOutfit = useMemo(
+    () => toAvatarOutfit(pendingEquippedItems, pendingHairColor),
+    [pendingEquippedItems, pendingHairColor]
+  );
+
+  // 보유한 아이템으로만 이뤄진 코디만 프리셋으로 저장 (원탭 착용을 위해)
+  const canSavePreset =
+    pendingOutfit.items.length > 0 && getUnownedOutfitItems(pendingOutfit).length === 0;
+
+  // 위시리스트 + 남은 포인트
+  const wishlist = useMemo(
+    () => wishlistEntries.map((entry) => ({ entry, progress: getWishlistProgress(entry.item, totalPoint) })),
+    [wishlistEntries, totalPoint]
+  );
+
   // ===================================
   // Effects
   // ===================================
@@ -374,7 +420,10 @@ export function useAvatarViewModel(): AvatarViewModel {
       setEquippedItems(pendingEquippedItems);
       setGlobalHairColor(pendingHairColor);
 
-      // 4. 모달 닫기
+      // 4. 구매한 아이템은 위시리스트에서 제거
+      useAvatarWardrobeStore.getState().removeFromWishlist(itemsToPurchase.map((i) => i.id));
+
+      // 5. 모달 닫기
       setShowPurchaseModal(false);
 
       // TODO: 성공 토스트 표시
@@ -449,6 +498,82 @@ export function useAvatarViewModel(): AvatarViewModel {
 
   }, [globalEquippedItems, globalHairColor]);
 
+  /**
+   * 현재 입어보는 코디를 프리셋으로 저장
+   * @returns 저장하지 못한 이유 (성공 시 null)
+   */
+  const savePreset = useCallback(
+    (name: string): string | null => {
+      if (!canSavePreset) {
+        return '구매하지 않은 아이템이 있어 저장할 수 없어요.';
+      }
+
+      const error = validateOutfitPresetName(name, presets);
+      if (error) return error;
+
+      useAvatarWardrobeStore.getState().addPreset(createOutfitPreset(name, pendingOutfit));
+      return null;
+    },
+    [canSavePreset, pendingOutfit, presets]
+  );
+
+  /**
+   * 프리셋 원탭 착용
+   * Unity 프리뷰는 pending 상태 변경으로 AvatarPreview에서 동기화
+   */
+  const equipPreset = useCallback(
+    async (preset: AvatarOutfitPreset) => {
+      const equippedItems = toEquippedItemsMap(preset);
+      setPendingEquippedItems(equippedItems);
+      setPendingHairColor(preset.hairColor);
+
+      try {
+        await updateEquippedMutation.mutateAsync({
+          avatarId,
+          itemIds: toItemIds(equippedItems),
+          hairColor: preset.hairColor,
+        });
+
+        setEquippedItems(equippedItems);
+        setGlobalHairColor(preset.hairColor);
+        console.log(`✅ 프리셋 착용 완료: ${preset.name}`);
+      } catch (error) {
+        console.error('❌ 프리셋 착용 실패:', error);
+        // 실패 시 원래 착용 상태로 복원
+        setPendingEquippedItems(normalizeEquippedMap(globalEquippedItems));
+        setPendingHairColor(globalHairColor);
+      }
+    },
+    [avatarId, globalEquippedItems, globalHairColor, setEquippedItems, setGlobalHairColor, updateEquippedMutation]
+  );
+
+  const deletePreset = useCallback((presetId: string) => {
+    useAvatarWardrobeStore.getState().removePreset(presetId);
+  }, []);
+
+  const isWishlisted = useCallback(
+    (itemId: number) => wishlistEntries.some((entry) => entry.item.id === itemId),
+    [wishlistEntries]
+  );
+
+  const toggleWishlist = useCallback((item: Item) => {
+    useAvatarWardrobeStore.getState().toggleWishlist(item);
+  }, []);
+
+  /**
+   * 위시리스트 아이템 입어보기 (해당 카테고리로 이동 후 선택)
+   */
+  const tryOnItem = useCallback(
+    (item: Item) => {
+      const categoryIndex = categories.findIndex((category) => category.type === item.itemType.id);
+      if (categoryIndex >= 0) {
+        setSelectedCategoryIndex(categoryIndex);
+      }
+      selectItem(item);
+    },
+    [categories, selectItem]
+  );
+
   // ===================================
   // Return ViewModel
   // ===================================
@@ -486,6 +611,19 @@ export function useAvatarViewModel(): AvatarViewModel {
     setShowInsufficientPointsAlert,
     selectHairColor,
 
+    // Wardrobe
+    currentOutfit,
+    pendingOutfit,
+    presets,
+    canSavePreset,
+    wishlist,
+    savePreset,
+    equipPreset,
+    deletePreset,
+    isWishlisted,
+    toggleWishlist,
+    tryOnItem,
+
     // Pagination
     fetchNextPage,
     hasNextPage,
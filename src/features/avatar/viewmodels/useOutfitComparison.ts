@@ -0,0 +1,75 @@
+/**
+ * 코디 비교 Hook
+ *
+ * 두 코디를 Unity 캐릭터에 차례로 입혀 캡처한 뒤 나란히 보여준다.
+ * 캡처가 끝나면 프리뷰는 입어보던 코디로 되돌린다.
+ */
+
+import { useCallback, useRef, useState } from 'react';
+import type { AvatarOutfit } from '~/features/avatar';
+import { unityService } from '~/features/unity/services/UnityService';
+
+export interface OutfitComparisonSide {
+  readonly label: string;
+  readonly outfit: AvatarOutfit;
+  readonly imageUri: string | null;
+}
+
+export function useOutfitComparison() {
+  const [sides, setSides] = useState<readonly [OutfitComparisonSide, OutfitComparisonSide] | null>(null);
+  const [isCapturing, setIsCapturing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const requestIdRef = useRef(0);
+
+  /**
+   * 비교 시작
+   * @param restore 캡처 후 프리뷰에 다시 입힐 코디
+   */
+  const compare = useCallback(
+    async (
+      left: { label: string; outfit: AvatarOutfit },
+      right: { label: string; outfit: AvatarOutfit },
+      restore: AvatarOutfit
+    ) => {
+      const requestId = ++requestIdRef.current;
+      setSides([
+        { ...left, imageUri: null },
+        { ...right, imageUri: null },
+      ]);
+      setError(null);
+      setIsCapturing(true);
+
+      try {
+        const [leftImage, rightImage] = await unityService.captureOutfits(
+          [left.outfit, right.outfit],
+          restore
+        );
+        if (requestId !== requestIdRef.current) return;
+
+        setSides([
+          { ...left, imageUri: leftImage ? `data:image/png;base64,${leftImage}` : null },
+          { ...right, imageUri: rightImage ? `data:image/png;base64,${rightImage}` : null },
+        ]);
+      } catch (captureError) {
+        console.error('❌ [OutfitComparison] 코디 캡처 실패:', captureError);
+        if (requestId === requestIdRef.current) {
+          setError('코디를 불러오지 못했어요. 잠시 후 다시 시도해주세요.');
+        }
+      } finally {
+        if (requestId === requestIdRef.current) {
+          setIsCapturing(false);
+        }
+      }
+    },
+    []
+  );
+
+  const close = useCallback(() => {
+    requestIdRef.current += 1;
+    setSides(null);
+    setError(null);
+    setIsCapturing(false);
+  }, []);
+
+  return { sides, isCapturing, error, compare, close };
+}
@@ -0,0 +1,52 @@
+/**
+ * 구매 포인트 예측 Hook
+ *
+ * 구매 모달/포인트 부족 알림에 러닝으로 포인트를 모으는 예상 시점을 보여준다.
+ */
+
+import { useMemo } from 'react';
+import type { Item, WishlistEntry } from '~/features/avatar';
+import { getDistanceForPoints } from '~/features/point/models';
+import { usePointPlanner } from '~/features/point/viewmodels';
+import { useDistanceUnit } from '~/shared/hooks';
+
+export function usePurchaseForecast({
+  itemsToPurchase,
+  totalPurchasePrice,
+  remainingPoints,
+  wishlist,
+}: {
+  itemsToPurchase: readonly Item[];
+  totalPurchasePrice: number;
+  remainingPoints: number;
+  wishlist: readonly { entry: WishlistEntry }[];
+}) {
+  const { getForecastMessage, isLoading } = usePointPlanner();
+  const { formatDistance } = useDistanceUnit();
+
+  /**
+   * 구매 후 다음 위시리스트 목표까지 예측 (위시리스트가 없으면 쓴 포인트를 다시 모으는 거리)
+   */
+  const purchaseForecastMessage = useMemo(() => {
+    if (isLoading) return null;
+
+    const purchasingIds = new Set(itemsToPurchase.map((item) => item.id));
+    const nextGoal = wishlist.find(({ entry }) => !purchasingIds.has(entry.item.id))?.entry.item;
+    if (nextGoal) {
+      return `다음 목표 '${nextGoal.name}' · ${getForecastMessage(nextGoal.point, remainingPoints)}`;
+    }
+
+    const distance = formatDistance(getDistanceForPoints(totalPurchasePrice), { fractionDigits: 1 });
+    return `사용한 ${totalPurchasePrice.toLocaleString()}P는 ${distance} 달리면 다시 모을 수 있어요`;
+  }, [formatDistance, getForecastMessage, isLoading, itemsToPurchase, remainingPoints, totalPurchasePrice, wishlist]);
+
+  /**
+   * 선택한 아이템을 살 수 있는 시점 예측
+   */
+  const insufficientForecastMessage = useMemo(
+    () => (isLoading ? null : getForecastMessage(totalPurchasePrice)),
+    [getForecastMessage, isLoading, totalPurchasePrice]
+  );
+
+  return { purchaseForecastMessage, insufficientForecastMessage };
+}
@@ -2,10 +2,13 @@
  * 아바타 화면 (메인)
  */
 
-import React, { useCallback } from 'react';
+import React, { useCallback, useState } from 'react';
 import { View, ScrollView, StyleSheet } from 'react-native';
+import type { AvatarOutfitPreset, Item } from '../models';
 import { UNITY_PREVIEW } from '../models/avatarConstants';
 import { useAvatarViewModel } from '../viewmodels/useAvatarViewModel';
+import { useOutfitComparison } from '../viewmodels/useOutfitComparison';
+import { usePurchaseForecast } from '../viewmodels/usePurchaseForecast';
 import { AvatarHeader } from './components/AvatarHeader';
 import { AvatarPreview } from './components/AvatarPreview';
 import { BottomButtons } from './components/BottomButtons';
@@ -13,7 +16,11 @@ import { CategoryTabs } from './components/CategoryTabs';
 import { HairColorPicker } from './components/HairColorPicker';
 import { InsufficientPointsAlert } from './components/InsufficientPointsAlert';
 import { ItemsGrid } from './components/ItemsGrid';
+import { OutfitCompareModal } from './components/OutfitCompareModal';
+import { OutfitPresetsModal } from './components/OutfitPresetsModal';
+import { OutfitToolbar } from './components/OutfitToolbar';
 import { PurchaseModal } from './components/PurchaseModal';
+import { WishlistModal } from './components/WishlistModal';
 import { SafeAreaProvider, useSafeAreaInsets } from 'react-native-safe-area-context';
 import { GREY } from '~/shared/styles';
 
@@ -38,7 +45,11 @@ export const AvatarView: React.FC<AvatarViewProps> = ({ onClose }) => {
 const AvatarViewContent: React.FC<AvatarViewProps> = ({ onClose }) => {
   const viewModel = useAvatarViewModel();
   const insets = useSafeAreaInsets();
-  const { cancelChanges } = viewModel;
+  const comparison = useOutfitComparison();
+  const { purchaseForecastMessage, insufficientForecastMessage } = usePurchaseForecast(viewModel);
+  const { cancelChanges, currentOutfit, pendingOutfit, tryOnItem } = viewModel;
+  const { compare } = comparison;
+  const [activeSheet, setActiveSheet] = useState<'presets' | 'wishlist' | null>(null);
 
   // 뒤로가기 버튼 핸들러: Unity에 원래 상태 복원 후 화면 닫기
   const handleClose = useCallback(() => {
@@ -46,6 +57,36 @@ const AvatarViewContent: React.FC<AvatarViewProps> = ({ onClose }) => {
     onClose();
   }, [cancelChanges, onClose]);
 
+  // 착용 중인 코디와 입어보는 코디 비교
+  const handleCompareChanges = useCallback(() => {
+    void compare(
+      { label: '착용 중', outfit: currentOutfit },
+      { label: '입어보는 중', outfit: pendingOutfit },
+      pendingOutfit
+    );
+  }, [compare, currentOutfit, pendingOutfit]);
+
+  // 입어보는 코디와 프리셋 비교
+  const handleComparePreset = useCallback(
+    (preset: AvatarOutfitPreset) => {
+      setActiveSheet(null);
+      void compare(
+        { label: '입어보는 중', outfit: pendingOutfit },
+        { label: preset.name, outfit: preset },
+        pendingOutfit
+      );
+    },
+    [compare, pendingOutfit]
+  );
+
+  const handleTryOnWishlistItem = useCallback(
+    (item: Item) => {
+      setActiveSheet(null);
+      tryOnItem(item);
+    },
+    [tryOnItem]
+  );
+
   return (
     <View style={styles.container} testID="avatar-view-root">
       <View style={[styles.safeAreaInset, { height: insets.top }]} />
@@ -58,6 +99,15 @@ const AvatarViewContent: React.FC<AvatarViewProps> = ({ onClose }) => {
         <View style={styles.previewSideMask} />
       </View>
 
+      {/* Outfit Toolbar */}
+      <OutfitToolbar
+        wishlistCount={viewModel.wishlist.length}
+        canCompare={viewModel.hasChanges && !comparison.isCapturing}
+        onPressPresets={() => setActiveSheet('presets')}
+        onPressWishlist={() => setActiveSheet('wishlist')}
+        onPressCompare={handleCompareChanges}
+      />
+
       <ScrollView
         style={styles.scrollView}
         contentContainerStyle={styles.content}
@@ -84,6 +134,8 @@ const AvatarViewContent: React.FC<AvatarViewProps> = ({ onClose }) => {
           hairColor={viewModel.pendingHairColor}
           onSelectItem={viewModel.selectItem}
           isItemSelected={viewModel.isItemSelected}
+          isItemWishlisted={viewModel.isWishlisted}
+          onToggleWishlist={viewModel.toggleWishlist}
           onEndReached={() => {
             if (viewModel.hasNextPage && !viewModel.isLoading) {
               viewModel.fetchNextPage();
@@ -113,6 +165,44 @@ const AvatarViewContent: React.FC<AvatarViewProps> = ({ onClose }) => {
           onConfirm={viewModel.confirmPurchase}
           onCancel={() => viewModel.setShowPurchaseModal(false)}
           isLoading={viewModel.isLoading}
+          forecastMessage={purchaseForecastMessage}
+        />
+      )}
+
+      {/* Outfit Presets Modal */}
+      {activeSheet === 'presets' && (
+        <OutfitPresetsModal
+          presets={viewModel.presets}
+          canSavePreset={viewModel.canSavePreset}
+          isLoading={viewModel.isLoading}
+          onSave={viewModel.savePreset}
+          onEquip={(preset) => {
+            void viewModel.equipPreset(preset).then(() => setActiveSheet(null));
+          }}
+          onCompare={handleComparePreset}
+          onDelete={viewModel.deletePreset}
+          onClose={() => setActiveSheet(null)}
+        />
+      )}
+
+      {/* Wishlist Modal */}
+      {activeSheet === 'wishlist' && (
+        <WishlistModal
+          wishlist={viewModel.wishlist}
+          hairColor={viewModel.pendingHairColor}
+          onTryOn={handleTryOnWishlistItem}
+          onRemove={viewModel.toggleWishlist}
+          onClose={() => setActiveSheet(null)}
+        />
+      )}
+
+      {/* Outfit Compare Modal */}
+      {comparison.sides && (
+        <OutfitCompareModal
+          sides={comparison.sides}
+          isCapturing={comparison.isCapturing}
+          error={comparison.error}
+          onClose={comparison.close}
         />
       )}
 
@@ -120,6 +210,7 @@ const AvatarViewContent: React.FC<AvatarViewProps> = ({ onClose }) => {
       {viewModel.showInsufficientPointsAlert && (
         <InsufficientPointsAlert
           onClose={() => viewModel.setShowInsufficientPointsAlert(false)}
+          forecastMessage={insufficientForecastMessage}
         />
       )}
     </View>
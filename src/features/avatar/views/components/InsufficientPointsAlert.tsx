@@ -6,13 +6,14 @@
 import React from 'react';
 import { Modal, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
 import { ERROR_MESSAGES } from '~/features/avatar';
-import { GREY, RED } from '~/shared/styles';
+import { GREY, PRIMARY, RED } from '~/shared/styles';
 
 interface Props {
   onClose: () => void;
+  forecastMessage?: string | null;
 }
 
-export const InsufficientPointsAlert: React.FC<Props> = ({ onClose }) => {
+export const InsufficientPointsAlert: React.FC<Props> = ({ onClose, forecastMessage }) => {
   return (
     <Modal
       visible
@@ -37,6 +38,13 @@ export const InsufficientPointsAlert: React.FC<Props> = ({ onClose }) => {
               {ERROR_MESSAGES.INSUFFICIENT_POINTS_DETAIL}
             </Text>
 
+            {/* 러닝 포인트 예측 */}
+            {forecastMessage ? (
+              <Text style={styles.forecastText} testID="insufficient-points-forecast">
+                {forecastMessage}
+              </Text>
+            ) : null}
+
             {/* Confirm Button */}
             <TouchableOpacity
               style={styles.button}
@@ -76,6 +84,15 @@ const styles = StyleSheet.create({
     lineHeight: 24,
     marginBottom: 16,
   },
+  forecastText: {
+    fontSize: 12,
+    fontWeight: '500',
+    color: PRIMARY[700],
+    textAlign: 'center',
+    lineHeight: 18,
+    marginTop: -8,
+    marginBottom: 16,
+  },
   button: {
     width: 292,
     height: 48,
@@ -3,19 +3,22 @@
  * SRP: 개별 아이템 표시만 담당
  */
 
+import { Ionicons } from '@expo/vector-icons';
 import React from 'react';
 import { Dimensions, Image, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
 import type { Item } from '~/features/avatar';
 import { GRID_LAYOUT, ITEM_OPACITY, ItemStatus } from '~/features/avatar';
 import { resolveAvatarItemImage } from '~/features/avatar/utils/avatarItemImageResolver';
 import { Icon } from '~/shared/components/ui';
-import { GREY, PRIMARY } from '~/shared/styles';
+import { GREY, PRIMARY, RED } from '~/shared/styles';
 
 interface Props {
   item: Item;
   hairColor: string;
   isSelected: boolean;
   onPress: () => void;
+  isWishlisted?: boolean;
+  onToggleWishlist?: () => void;
 }
 
 const screenWidth = Dimensions.get('window').width;
@@ -23,7 +26,14 @@ const totalHorizontalPadding = GRID_LAYOUT.HORIZONTAL_PADDING * 2;
 const totalColumnSpacing = GRID_LAYOUT.ITEM_SPACING * (GRID_LAYOUT.NUM_COLUMNS - 1);
 const cardWidth = (screenWidth - totalHorizontalPadding - totalColumnSpacing) / GRID_LAYOUT.NUM_COLUMNS;
 
-export const AvatarItemCard: React.FC<Props> = ({ item, hairColor, isSelected, onPress }) => {
+export const AvatarItemCard: React.FC<Props> = ({
+  item,
+  hairColor,
+  isSelected,
+  onPress,
+  isWishlisted = false,
+  onToggleWishlist,
+}) => {
   const itemImage = resolveAvatarItemImage(item, hairColor);
   // 테두리 색상 결정
   const borderColor = isSelected? PRIMARY[500] : GREY[250];
@@ -67,6 +77,23 @@ export const AvatarItemCard: React.FC<Props> = ({ item, hairColor, isSelected, o
           </View>
         )}
       </View>
+
+      {/* 위시리스트 (미보유 아이템만) */}
+      {onToggleWishlist && item.status === ItemStatus.NOT_OWNED && (
+        <TouchableOpacity
+          style={styles.wishlistButton}
+          onPress={onToggleWishlist}
+          hitSlop={{ top: 6, bottom: 6, left: 6, right: 6 }}
+          testID={`avatar-item-wishlist-${item.id}`}
+          accessibilityState={{ selected: isWishlisted }}
+        >
+          <Ionicons
+            name={isWishlisted ? 'heart' : 'heart-outline'}
+            size={14}
+            color={isWishlisted ? RED[400] : GREY[500]}
+          />
+        </TouchableOpacity>
+      )}
     </TouchableOpacity>
   );
 };
@@ -103,6 +130,11 @@ const styles = StyleSheet.create({
     borderWidth: 1,
     gap: 2,
   },
+  wishlistButton: {
+    position: 'absolute',
+    top: 5,
+    left: 5,
+  },
   priceText: {
     fontSize: 12,
     fontWeight: '600',
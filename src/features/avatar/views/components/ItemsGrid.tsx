@@ -15,6 +15,8 @@ interface Props {
   onSelectItem: (item: Item) => void;
   isItemSelected: (itemId: number) => boolean;
   onEndReached: () => void;
+  isItemWishlisted?: (itemId: number) => boolean;
+  onToggleWishlist?: (item: Item) => void;
 }
 
 export const ItemsGrid: React.FC<Props> = ({
@@ -23,6 +25,8 @@ export const ItemsGrid: React.FC<Props> = ({
   onSelectItem,
   isItemSelected,
   onEndReached,
+  isItemWishlisted,
+  onToggleWishlist,
 }) => {
   return (
     <FlatList
@@ -35,6 +39,8 @@ export const ItemsGrid: React.FC<Props> = ({
           hairColor={hairColor}
           isSelected={isItemSelected(item.id)}
           onPress={() => onSelectItem(item)}
+          isWishlisted={isItemWishlisted?.(item.id) ?? false}
+          {...(onToggleWishlist && { onToggleWishlist: () => onToggleWishlist(item) })}
         />
       )}
       columnWrapperStyle={styles.row}
@@ -0,0 +1,132 @@
+/**
+ * 코디 비교 모달
+ * SRP: 두 코디 캡처 이미지를 나란히 보여주는 UI만 담당
+ */
+
+import React from 'react';
+import { ActivityIndicator, Image, Modal, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+import type { OutfitComparisonSide } from '~/features/avatar/viewmodels/useOutfitComparison';
+import { GREY, PRIMARY, RED } from '~/shared/styles';
+
+interface Props {
+  sides: readonly [OutfitComparisonSide, OutfitComparisonSide];
+  isCapturing: boolean;
+  error: string | null;
+  onClose: () => void;
+}
+
+export const OutfitCompareModal: React.FC<Props> = ({ sides, isCapturing, error, onClose }) => {
+  return (
+    <Modal visible transparent animationType="fade" onRequestClose={onClose}>
+      <TouchableOpacity style={styles.overlay} activeOpacity={1} onPress={onClose}>
+        <TouchableOpacity activeOpacity={1} onPress={(e) => e.stopPropagation()}>
+          <View style={styles.modal} testID="avatar-compare-modal">
+            <Text style={styles.title}>코디 비교</Text>
+
+            <View style={styles.sides}>
+              {sides.map((side, index) => (
+                <View key={index} style={styles.side} testID={`avatar-compare-side-${index}`}>
+                  <View style={styles.imageContainer}>
+                    {side.imageUri ? (
+                      <Image source={{ uri: side.imageUri }} style={styles.image} resizeMode="contain" />
+                    ) : isCapturing ? (
+                      <ActivityIndicator size="small" color={PRIMARY[600]} />
+                    ) : null}
+                  </View>
+                  <Text style={styles.sideLabel} numberOfLines={1}>
+                    {side.label}
+                  </Text>
+                  <Text style={styles.sideItems} numberOfLines={2}>
+                    {side.outfit.items.map((item) => item.name).join(' · ') || '착용한 아이템 없음'}
+                  </Text>
+                </View>
+              ))}
+            </View>
+
+            {error ? <Text style={styles.errorText}>{error}</Text> : null}
+
+            <TouchableOpacity style={styles.closeButton} onPress={onClose} activeOpacity={0.7}>
+              <Text style={styles.closeButtonText}>닫기</Text>
+            </TouchableOpacity>
+          </View>
+        </TouchableOpacity>
+      </TouchableOpacity>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  modal: {
+    width: 335,
+    backgroundColor: GREY[50],
+    borderRadius: 16,
+    paddingHorizontal: 20,
+    paddingTop: 24,
+    paddingBottom: 16,
+  },
+  title: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: GREY[900],
+    textAlign: 'center',
+    marginBottom: 16,
+  },
+  sides: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  side: {
+    flex: 1,
+    alignItems: 'center',
+    gap: 4,
+  },
+  imageContainer: {
+    width: '100%',
+    aspectRatio: 0.75,
+    borderRadius: 12,
+    backgroundColor: GREY.WHITE,
+    justifyContent: 'center',
+    alignItems: 'center',
+    overflow: 'hidden',
+  },
+  image: {
+    width: '100%',
+    height: '100%',
+  },
+  sideLabel: {
+    marginTop: 4,
+    fontSize: 14,
+    fontWeight: '600',
+    color: GREY[900],
+  },
+  sideItems: {
+    fontSize: 11,
+    color: GREY[500],
+    textAlign: 'center',
+  },
+  errorText: {
+    marginTop: 12,
+    fontSize: 12,
+    color: RED[400],
+    textAlign: 'center',
+  },
+  closeButton: {
+    marginTop: 16,
+    height: 44,
+    borderRadius: 8,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: GREY[100],
+  },
+  closeButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: GREY[800],
+  },
+});
@@ -0,0 +1,279 @@
+/**
+ * 코디 프리셋 모달
+ * SRP: 프리셋 저장/착용/삭제 UI만 담당
+ */
+
+import React, { useState } from 'react';
+import {
+  ActivityIndicator,
+  Modal,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+import type { AvatarOutfitPreset } from '~/features/avatar';
+import { MAX_OUTFIT_PRESET_NAME_LENGTH } from '~/features/avatar';
+import { GREY, PRIMARY, RED } from '~/shared/styles';
+
+interface Props {
+  presets: readonly AvatarOutfitPreset[];
+  canSavePreset: boolean;
+  isLoading: boolean;
+  onSave: (name: string) => string | null;
+  onEquip: (preset: AvatarOutfitPreset) => void;
+  onCompare: (preset: AvatarOutfitPreset) => void;
+  onDelete: (presetId: string) => void;
+  onClose: () => void;
+}
+
+export const OutfitPresetsModal: React.FC<Props> = ({
+  presets,
+  canSavePreset,
+  isLoading,
+  onSave,
+  onEquip,
+  onCompare,
+  onDelete,
+  onClose,
+}) => {
+  const [name, setName] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSave = () => {
+    const saveError = onSave(name);
+    setError(saveError);
+    if (!saveError) {
+      setName('');
+    }
+  };
+
+  return (
+    <Modal visible transparent animationType="fade" onRequestClose={onClose}>
+      <TouchableOpacity style={styles.overlay} activeOpacity={1} onPress={onClose}>
+        <TouchableOpacity activeOpacity={1} onPress={(e) => e.stopPropagation()}>
+          <View style={styles.modal} testID="avatar-outfit-presets-modal">
+            <Text style={styles.title}>코디 프리셋</Text>
+
+            {/* 현재 코디 저장 */}
+            <View style={styles.saveRow}>
+              <TextInput
+                style={styles.input}
+                value={name}
+                onChangeText={setName}
+                placeholder="프리셋 이름"
+                placeholderTextColor={GREY[400]}
+                maxLength={MAX_OUTFIT_PRESET_NAME_LENGTH}
+                editable={canSavePreset}
+                testID="avatar-preset-name-input"
+              />
+              <TouchableOpacity
+                style={[styles.saveButton, !canSavePreset && styles.saveButtonDisabled]}
+                onPress={handleSave}
+                disabled={!canSavePreset}
+                activeOpacity={0.7}
+                testID="avatar-preset-save-button"
+              >
+                <Text style={styles.saveButtonText}>저장</Text>
+              </TouchableOpacity>
+            </View>
+            {!canSavePreset ? (
+              <Text style={styles.helperText}>보유한 아이템으로만 된 코디를 저장할 수 있어요.</Text>
+            ) : null}
+            {error ? <Text style={styles.errorText}>{error}</Text> : null}
+
+            {/* 프리셋 목록 */}
+            <ScrollView style={styles.list} contentContainerStyle={styles.listContent}>
+              {presets.length === 0 ? (
+                <Text style={styles.emptyText}>저장한 코디가 없어요.</Text>
+              ) : (
+                presets.map((preset) => (
+                  <View key={preset.id} style={styles.presetRow} testID={`avatar-preset-${preset.id}`}>
+                    <View style={[styles.hairColorDot, { backgroundColor: preset.hairColor }]} />
+                    <View style={styles.presetInfo}>
+                      <Text style={styles.presetName}>{preset.name}</Text>
+                      <Text style={styles.presetItems} numberOfLines={1}>
+                        {preset.items.map((item) => item.name).join(' · ')}
+                      </Text>
+                    </View>
+                    <TouchableOpacity onPress={() => onCompare(preset)} style={styles.textButton}>
+                      <Text style={styles.textButtonLabel}>비교</Text>
+                    </TouchableOpacity>
+                    <TouchableOpacity
+                      onPress={() => onEquip(preset)}
+                      disabled={isLoading}
+                      style={styles.equipButton}
+                      testID={`avatar-preset-equip-${preset.id}`}
+                    >
+                      {isLoading ? (
+                        <ActivityIndicator size="small" color={GREY.WHITE} />
+                      ) : (
+                        <Text style={styles.equipButtonText}>착용</Text>
+                      )}
+                    </TouchableOpacity>
+                    <TouchableOpacity
+                      onPress={() => onDelete(preset.id)}
+                      style={styles.textButton}
+                      testID={`avatar-preset-delete-${preset.id}`}
+                    >
+                      <Text style={[styles.textButtonLabel, styles.deleteLabel]}>삭제</Text>
+                    </TouchableOpacity>
+                  </View>
+                ))
+              )}
+            </ScrollView>
+
+            <TouchableOpacity style={styles.closeButton} onPress={onClose} activeOpacity={0.7}>
+              <Text style={styles.closeButtonText}>닫기</Text>
+            </TouchableOpacity>
+          </View>
+        </TouchableOpacity>
+      </TouchableOpacity>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  modal: {
+    width: 335,
+    maxHeight: 520,
+    backgroundColor: GREY[50],
+    borderRadius: 16,
+    paddingHorizontal: 20,
+    paddingTop: 24,
+    paddingBottom: 16,
+  },
+  title: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: GREY[900],
+    textAlign: 'center',
+    marginBottom: 16,
+  },
+  saveRow: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  input: {
+    flex: 1,
+    height: 40,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: GREY[200],
+    backgroundColor: GREY.WHITE,
+    paddingHorizontal: 12,
+    fontSize: 14,
+    color: GREY[900],
+  },
+  saveButton: {
+    height: 40,
+    paddingHorizontal: 16,
+    borderRadius: 8,
+    justifyContent: 'center',
+    backgroundColor: PRIMARY[600],
+  },
+  saveButtonDisabled: {
+    backgroundColor: GREY[200],
+  },
+  saveButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: GREY.WHITE,
+  },
+  helperText: {
+    marginTop: 6,
+    fontSize: 12,
+    color: GREY[500],
+  },
+  errorText: {
+    marginTop: 6,
+    fontSize: 12,
+    color: RED[400],
+  },
+  list: {
+    marginTop: 16,
+  },
+  listContent: {
+    gap: 8,
+  },
+  emptyText: {
+    paddingVertical: 24,
+    textAlign: 'center',
+    fontSize: 14,
+    color: GREY[500],
+  },
+  presetRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    padding: 12,
+    borderRadius: 12,
+    backgroundColor: GREY.WHITE,
+  },
+  hairColorDot: {
+    width: 16,
+    height: 16,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: GREY[200],
+  },
+  presetInfo: {
+    flex: 1,
+    gap: 2,
+  },
+  presetName: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: GREY[900],
+  },
+  presetItems: {
+    fontSize: 11,
+    color: GREY[500],
+  },
+  textButton: {
+    paddingHorizontal: 4,
+    paddingVertical: 6,
+  },
+  textButtonLabel: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: GREY[700],
+  },
+  deleteLabel: {
+    color: RED[400],
+  },
+  equipButton: {
+    minWidth: 48,
+    alignItems: 'center',
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    borderRadius: 8,
+    backgroundColor: PRIMARY[600],
+  },
+  equipButtonText: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: GREY.WHITE,
+  },
+  closeButton: {
+    marginTop: 16,
+    height: 44,
+    borderRadius: 8,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: GREY[100],
+  },
+  closeButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: GREY[800],
+  },
+});
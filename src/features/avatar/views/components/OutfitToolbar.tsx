@@ -0,0 +1,100 @@
+/**
+ * 코디 도구 모음 (프리셋 / 위시리스트 / 비교)
+ * SRP: 코디 관련 모달 진입 버튼만 담당
+ */
+
+import { Ionicons } from '@expo/vector-icons';
+import React from 'react';
+import { StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+import { GREY } from '~/shared/styles';
+
+interface Props {
+  wishlistCount: number;
+  canCompare: boolean;
+  onPressPresets: () => void;
+  onPressWishlist: () => void;
+  onPressCompare: () => void;
+}
+
+export const OutfitToolbar: React.FC<Props> = ({
+  wishlistCount,
+  canCompare,
+  onPressPresets,
+  onPressWishlist,
+  onPressCompare,
+}) => {
+  return (
+    <View style={styles.container}>
+      <ToolbarButton
+        icon="shirt-outline"
+        label="프리셋"
+        onPress={onPressPresets}
+        testID="avatar-outfit-presets-button"
+      />
+      <ToolbarButton
+        icon="heart-outline"
+        label={wishlistCount > 0 ? `위시리스트 ${wishlistCount}` : '위시리스트'}
+        onPress={onPressWishlist}
+        testID="avatar-wishlist-button"
+      />
+      <ToolbarButton
+        icon="git-compare-outline"
+        label="비교하기"
+        onPress={onPressCompare}
+        disabled={!canCompare}
+        testID="avatar-compare-button"
+      />
+    </View>
+  );
+};
+
+interface ToolbarButtonProps {
+  icon: React.ComponentProps<typeof Ionicons>['name'];
+  label: string;
+  onPress: () => void;
+  disabled?: boolean;
+  testID: string;
+}
+
+const ToolbarButton: React.FC<ToolbarButtonProps> = ({ icon, label, onPress, disabled, testID }) => (
+  <TouchableOpacity
+    style={[styles.button, disabled && styles.buttonDisabled]}
+    onPress={onPress}
+    disabled={disabled}
+    activeOpacity={0.7}
+    testID={testID}
+  >
+    <Ionicons name={icon} size={14} color={disabled ? GREY[300] : GREY[700]} />
+    <Text style={[styles.label, disabled && styles.labelDisabled]}>{label}</Text>
+  </TouchableOpacity>
+);
+
+const styles = StyleSheet.create({
+  container: {
+    flexDirection: 'row',
+    gap: 8,
+    marginTop: 16,
+  },
+  button: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    paddingHorizontal: 12,
+    paddingVertical: 7,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: GREY[200],
+    backgroundColor: GREY.WHITE,
+  },
+  buttonDisabled: {
+    backgroundColor: GREY[50],
+  },
+  label: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: GREY[700],
+  },
+  labelDisabled: {
+    color: GREY[300],
+  },
+});
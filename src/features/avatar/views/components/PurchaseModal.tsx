@@ -28,6 +28,7 @@ interface Props {
   onConfirm: () => void;
   onCancel: () => void;
   isLoading: boolean;
+  forecastMessage?: string | null;
 }
 
 export const PurchaseModal: React.FC<Props> = ({
@@ -39,6 +40,7 @@ export const PurchaseModal: React.FC<Props> = ({
   onConfirm,
   onCancel,
   isLoading,
+  forecastMessage,
 }) => {
   function getItemImage(item: Item): ImageSourcePropType | undefined {
     return resolveAvatarItemImage(item, hairColor);
@@ -115,6 +117,13 @@ export const PurchaseModal: React.FC<Props> = ({
                   {remainingPoints.toLocaleString()} P
                 </Text>
               </View>
+
+              {/* 러닝 포인트 예측 */}
+              {forecastMessage ? (
+                <Text style={styles.forecastText} testID="purchase-forecast">
+                  {forecastMessage}
+                </Text>
+              ) : null}
             </View>
 
             {/* Buttons */}
@@ -258,6 +267,14 @@ const styles = StyleSheet.create({
   pointIncrease: {
     color: PRIMARY[500],
   },
+  forecastText: {
+    marginTop: 12,
+    fontSize: 12,
+    fontWeight: '500',
+    color: PRIMARY[700],
+    textAlign: 'center',
+    lineHeight: 18,
+  },
   buttonsContainer: {
     flexDirection: 'row',
     gap: 12,
@@ -0,0 +1,217 @@
+/**
+ * 위시리스트 모달
+ * SRP: 찜한 아이템과 남은 포인트 표시만 담당
+ */
+
+import React from 'react';
+import {
+  Image,
+  Modal,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+import type { Item, WishlistEntry, WishlistProgress } from '~/features/avatar';
+import { resolveAvatarItemImage } from '~/features/avatar/utils/avatarItemImageResolver';
+import { GREY, PRIMARY, RED } from '~/shared/styles';
+
+interface Props {
+  wishlist: readonly { entry: WishlistEntry; progress: WishlistProgress }[];
+  hairColor: string;
+  onTryOn: (item: Item) => void;
+  onRemove: (item: Item) => void;
+  onClose: () => void;
+}
+
+export const WishlistModal: React.FC<Props> = ({ wishlist, hairColor, onTryOn, onRemove, onClose }) => {
+  return (
+    <Modal visible transparent animationType="fade" onRequestClose={onClose}>
+      <TouchableOpacity style={styles.overlay} activeOpacity={1} onPress={onClose}>
+        <TouchableOpacity activeOpacity={1} onPress={(e) => e.stopPropagation()}>
+          <View style={styles.modal} testID="avatar-wishlist-modal">
+            <Text style={styles.title}>위시리스트</Text>
+
+            <ScrollView style={styles.list} contentContainerStyle={styles.listContent}>
+              {wishlist.length === 0 ? (
+                <Text style={styles.emptyText}>찜한 아이템이 없어요.{'\n'}아이템의 하트를 눌러 담아보세요.</Text>
+              ) : (
+                wishlist.map(({ entry, progress }) => {
+                  const image = resolveAvatarItemImage(entry.item, hairColor);
+                  return (
+                    <View key={entry.item.id} style={styles.row} testID={`avatar-wishlist-entry-${entry.item.id}`}>
+                      <View style={styles.imageContainer}>
+                        {image ? <Image source={image} style={styles.image} resizeMode="contain" /> : null}
+                      </View>
+                      <View style={styles.info}>
+                        <Text style={styles.itemName} numberOfLines={1}>
+                          {entry.item.name}
+                        </Text>
+                        <Text style={styles.itemPoint}>{entry.item.point.toLocaleString()} P</Text>
+                        <View style={styles.progressTrack}>
+                          <View style={[styles.progressFill, { width: `${progress.progress * 100}%` }]} />
+                        </View>
+                        <Text
+                          style={[styles.progressText, progress.isAffordable && styles.progressTextAffordable]}
+                          testID={`avatar-wishlist-progress-${entry.item.id}`}
+                        >
+                          {progress.isAffordable
+                            ? '지금 구매할 수 있어요'
+                            : `${progress.pointsNeeded.toLocaleString()} P 더 필요해요`}
+                        </Text>
+                      </View>
+                      <View style={styles.actions}>
+                        <TouchableOpacity
+                          style={styles.tryOnButton}
+                          onPress={() => onTryOn(entry.item)}
+                          activeOpacity={0.7}
+                          testID={`avatar-wishlist-try-on-${entry.item.id}`}
+                        >
+                          <Text style={styles.tryOnButtonText}>입어보기</Text>
+                        </TouchableOpacity>
+                        <TouchableOpacity
+                          onPress={() => onRemove(entry.item)}
+                          testID={`avatar-wishlist-remove-${entry.item.id}`}
+                        >
+                          <Text style={styles.removeText}>삭제</Text>
+                        </TouchableOpacity>
+                      </View>
+                    </View>
+                  );
+                })
+              )}
+            </ScrollView>
+
+            <TouchableOpacity style={styles.closeButton} onPress={onClose} activeOpacity={0.7}>
+              <Text style={styles.closeButtonText}>닫기</Text>
+            </TouchableOpacity>
+          </View>
+        </TouchableOpacity>
+      </TouchableOpacity>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  modal: {
+    width: 335,
+    maxHeight: 520,
+    backgroundColor: GREY[50],
+    borderRadius: 16,
+    paddingHorizontal: 20,
+    paddingTop: 24,
+    paddingBottom: 16,
+  },
+  title: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: GREY[900],
+    textAlign: 'center',
+    marginBottom: 16,
+  },
+  list: {
+    flexGrow: 0,
+  },
+  listContent: {
+    gap: 8,
+  },
+  emptyText: {
+    paddingVertical: 24,
+    textAlign: 'center',
+    fontSize: 14,
+    lineHeight: 20,
+    color: GREY[500],
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    padding: 12,
+    borderRadius: 12,
+    backgroundColor: GREY.WHITE,
+  },
+  imageContainer: {
+    width: 48,
+    height: 48,
+    borderRadius: 8,
+    backgroundColor: GREY[50],
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  image: {
+    width: 40,
+    height: 40,
+  },
+  info: {
+    flex: 1,
+    gap: 2,
+  },
+  itemName: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: GREY[900],
+  },
+  itemPoint: {
+    fontSize: 12,
+    color: GREY[700],
+  },
+  progressTrack: {
+    height: 4,
+    marginTop: 4,
+    borderRadius: 2,
+    backgroundColor: GREY[100],
+    overflow: 'hidden',
+  },
+  progressFill: {
+    height: '100%',
+    backgroundColor: PRIMARY[600],
+  },
+  progressText: {
+    marginTop: 2,
+    fontSize: 11,
+    color: GREY[500],
+  },
+  progressTextAffordable: {
+    color: PRIMARY[700],
+    fontWeight: '600',
+  },
+  actions: {
+    alignItems: 'center',
+    gap: 8,
+  },
+  tryOnButton: {
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    borderRadius: 8,
+    backgroundColor: PRIMARY[600],
+  },
+  tryOnButtonText: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: GREY.WHITE,
+  },
+  removeText: {
+    fontSize: 12,
+    color: RED[400],
+  },
+  closeButton: {
+    marginTop: 16,
+    height: 44,
+    borderRadius: 8,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: GREY[100],
+  },
+  closeButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: GREY[800],
+  },
+});
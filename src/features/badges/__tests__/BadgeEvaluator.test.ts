@@ -0,0 +1,132 @@
+import {
+  EMPTY_BADGE_METRICS,
+  calculateBadgeMetrics,
+  calculateLeagueBadgeMetrics,
+  calculateRunBadgeMetrics,
+  evaluateBadges,
+  findNewlyUnlockedBadges,
+  type BadgeEvaluationInput,
+  type LeagueResultEntry,
+} from '~/features/badges/models';
+import { LeagueResultStatus, LeagueTierType } from '~/features/league/models';
+
+const utcSeconds = (iso: string) => Date.parse(iso) / 1000;
+
+/**
+ * 러닝 기록 fixture (UTC 기준 시작 시각)
+ * - Asia/Seoul (UTC+9): 1/6 05:30, 1/7 06:00, 1/7 23:00, 1/9 01:00 → 새벽 2회, 최장 연속 2일
+ * - America/Los_Angeles (UTC-8): 1/5 12:30, 1/6 13:00, 1/7 06:00, 1/8 08:00 → 새벽 1회, 최장 연속 4일
+ */
+const RUN_HISTORY: BadgeEvaluationInput['records'] = [
+  { distance: 5000, startTimestamp: utcSeconds('2026-01-05T20:30:00Z') },
+  { distance: 6000, startTimestamp: utcSeconds('2026-01-06T21:00:00Z') },
+  { distance: 3000, startTimestamp: utcSeconds('2026-01-07T14:00:00Z') },
+  { distance: 2000, startTimestamp: utcSeconds('2026-01-08T16:00:00Z') },
+  // 서버에 저장되지 않는 짧은 러닝
+  { distance: 5, startTimestamp: utcSeconds('2026-01-09T20:30:00Z') },
+];
+
+const LEAGUE_HISTORY: LeagueResultEntry[] = [
+  {
+    resultStatus: LeagueResultStatus.PROMOTED,
+    previousTier: LeagueTierType.BRONZE,
+    currentTier: LeagueTierType.SILVER,
+  },
+  {
+    resultStatus: LeagueResultStatus.MAINTAINED,
+    previousTier: LeagueTierType.SILVER,
+    currentTier: LeagueTierType.SILVER,
+  },
+  {
+    resultStatus: LeagueResultStatus.PROMOTED,
+    previousTier: LeagueTierType.SILVER,
+    currentTier: LeagueTierType.GOLD,
+  },
+];
+
+const SHOES: BadgeEvaluationInput['shoes'] = [{ totalDistance: 120_000 }, { totalDistance: 40_000 }];
+
+const unlockedIds = (input: BadgeEvaluationInput) =>
+  evaluateBadges(calculateBadgeMetrics(input))
+    .filter(({ isUnlocked }) => isUnlocked)
+    .map(({ badge }) => badge.id);
+
+describe('BadgeEvaluator', () => {
+  it('computes run metrics on day boundaries of the given timezone', () => {
+    expect(calculateRunBadgeMetrics(RUN_HISTORY, 'Asia/Seoul')).toEqual({
+      runCount: 4,
+      totalDistance: 16_000,
+      longestStreakDays: 2,
+      earlyBirdRuns: 2,
+    });
+    expect(calculateRunBadgeMetrics(RUN_HISTORY, 'America/Los_Angeles')).toEqual({
+      runCount: 4,
+      totalDistance: 16_000,
+      longestStreakDays: 4,
+      earlyBirdRuns: 1,
+    });
+  });
+
+  it('uses the timezone each run started in before the given timezone', () => {
+    const records = RUN_HISTORY.map((record) => ({ ...record, timezone: 'America/Los_Angeles' }));
+
+    expect(calculateRunBadgeMetrics(records, 'Asia/Seoul')).toEqual(
+      calculateRunBadgeMetrics(RUN_HISTORY, 'America/Los_Angeles')
+    );
+  });
+
+  it('counts promotions and the highest tier reached from league results', () => {
+    expect(calculateLeagueBadgeMetrics(LEAGUE_HISTORY)).toEqual({ promotions: 2, highestTierOrder: 3 });
+    expect(calculateLeagueBadgeMetrics([])).toEqual({ promotions: 0, highestTierOrder: 0 });
+  });
+
+  it('unlocks the same badges for the same input', () => {
+    const input: BadgeEvaluationInput = {
+      records: RUN_HISTORY,
+      leagueResults: LEAGUE_HISTORY,
+      shoes: SHOES,
+      timeZone: 'America/Los_Angeles',
+    };
+
+    expect(unlockedIds(input)).toEqual([
+      'first-run',
+      'distance-10k',
+      'streak-3',
+      'early-bird-1',
+      'league-promotion',
+      'league-gold',
+      'shoe-100k',
+    ]);
+    expect(unlockedIds({ ...input, timeZone: 'Asia/Seoul' })).not.toContain('streak-3');
+    expect(unlockedIds({ records: [], leagueResults: [], shoes: [], timeZone: 'Asia/Seoul' })).toEqual([]);
+  });
+
+  it('reports capped progress toward locked badges', () => {
+    const progress = evaluateBadges({ ...EMPTY_BADGE_METRICS, totalDistance: 50_000 });
+    const byId = Object.fromEntries(progress.map((item) => [item.badge.id, item]));
+
+    expect(byId['distance-10k']).toMatchObject({ current: 50_000, ratio: 1, isUnlocked: true });
+    expect(byId['distance-100k']).toMatchObject({ current: 50_000, ratio: 0.5, isUnlocked: false });
+  });
+
+  it('celebrates only badges crossed by the new run', () => {
+    const timeZone = 'America/Los_Angeles';
+    const previousRecords = RUN_HISTORY.slice(0, 3);
+    const before = calculateBadgeMetrics({ records: previousRecords, leagueResults: [], shoes: [], timeZone });
+    const after = calculateBadgeMetrics({ records: RUN_HISTORY, leagueResults: [], shoes: [], timeZone });
+
+    // 3번째 러닝까지 이미 10km/3일 연속/새벽 러닝 달성 → 4번째 러닝으로 새로 얻는 배지 없음
+    expect(findNewlyUnlockedBadges(before, after)).toEqual([]);
+
+    const firstRun = calculateBadgeMetrics({
+      records: RUN_HISTORY.slice(0, 1),
+      leagueResults: [],
+      shoes: [],
+      timeZone: 'Asia/Seoul',
+    });
+    expect(findNewlyUnlockedBadges(EMPTY_BADGE_METRICS, firstRun).map(({ id }) => id)).toEqual([
+      'first-run',
+      'early-bird-1',
+    ]);
+  });
+});
@@ -0,0 +1,41 @@
+import { useBadgeStore } from '~/features/badges/stores/badgeStore';
+import { LeagueResultStatus, LeagueTierType } from '~/features/league/models';
+import { resetAllStores } from '~/test-utils/resetState';
+
+describe('badgeStore', () => {
+  beforeEach(() => {
+    resetAllStores();
+  });
+
+  it('keeps the first unlock time and reuses the result for the same run', () => {
+    const { recordFinishedRun } = useBadgeStore.getState();
+
+    expect(recordFinishedRun(1, ['first-run', 'early-bird-1'], 1000)).toEqual(['first-run', 'early-bird-1']);
+    expect(recordFinishedRun(1, ['distance-10k'], 2000)).toEqual(['first-run', 'early-bird-1']);
+    expect(recordFinishedRun(2, ['first-run', 'distance-10k'], 3000)).toEqual(['distance-10k']);
+
+    expect(useBadgeStore.getState().unlockedAt).toEqual({
+      'first-run': 1000,
+      'early-bird-1': 1000,
+      'distance-10k': 3000,
+    });
+  });
+
+  it('logs each league result once and unlocks league badges from the log', () => {
+    const promotedToGold = {
+      resultStatus: LeagueResultStatus.PROMOTED,
+      previousTier: LeagueTierType.SILVER,
+      currentTier: LeagueTierType.GOLD,
+    };
+    const { recordLeagueResult } = useBadgeStore.getState();
+
+    expect(recordLeagueResult('result-1', promotedToGold, 1000)).toEqual(['league-promotion', 'league-gold']);
+    expect(recordLeagueResult('result-1', promotedToGold, 2000)).toEqual(['league-promotion', 'league-gold']);
+    expect(useBadgeStore.getState().leagueResults).toHaveLength(1);
+
+    expect(recordLeagueResult('result-2', { ...promotedToGold, previousTier: LeagueTierType.GOLD }, 3000)).toEqual(
+      []
+    );
+    expect(useBadgeStore.getState().leagueResults).toHaveLength(2);
+  });
+});
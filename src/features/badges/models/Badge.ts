@@ -0,0 +1,222 @@
+/**
+ * Badge 카탈로그
+ * 러닝 기록/리그 결과/신발 누적 거리로 얻는 업적 배지 정의
+ */
+
+import type { Ionicons } from '@expo/vector-icons';
+
+export type BadgeCategory = 'FIRST_RUN' | 'DISTANCE' | 'STREAK' | 'EARLY_BIRD' | 'LEAGUE' | 'SHOES';
+
+/**
+ * 배지 달성 판정에 쓰는 지표
+ * - runCount: 러닝 횟수
+ * - totalDistance: 누적 거리 (m)
+ * - longestStreakDays: 가장 긴 연속 러닝 일수
+ * - earlyBirdRuns: 새벽 러닝 횟수
+ * - promotions: 리그 승급 횟수
+ * - highestTierOrder: 도달한 가장 높은 티어 순서 (TIER_INFO.order)
+ * - maxShoeDistance: 가장 많이 신은 신발의 누적 거리 (m)
+ */
+export type BadgeMetric =
+  | 'runCount'
+  | 'totalDistance'
+  | 'longestStreakDays'
+  | 'earlyBirdRuns'
+  | 'promotions'
+  | 'highestTierOrder'
+  | 'maxShoeDistance';
+
+export type BadgeId =
+  | 'first-run'
+  | 'distance-10k'
+  | 'distance-100k'
+  | 'distance-500k'
+  | 'distance-1000k'
+  | 'streak-3'
+  | 'streak-7'
+  | 'streak-30'
+  | 'early-bird-1'
+  | 'early-bird-10'
+  | 'league-promotion'
+  | 'league-gold'
+  | 'league-challenger'
+  | 'shoe-100k'
+  | 'shoe-300k'
+  | 'shoe-500k';
+
+export interface BadgeDefinition {
+  id: BadgeId;
+  category: BadgeCategory;
+  title: string;
+  description: string;
+  icon: keyof typeof Ionicons.glyphMap;
+  metric: BadgeMetric;
+  /** 지표가 이 값 이상이면 달성 */
+  goal: number;
+}
+
+// 새벽 러닝으로 인정하는 시작 시각 범위 [시작, 끝) (러닝 시작 당시 timezone 기준)
+export const EARLY_BIRD_START_HOUR = 4;
+export const EARLY_BIRD_END_HOUR = 7;
+
+export const BADGE_CATEGORY_LABELS: Record<BadgeCategory, string> = {
+  FIRST_RUN: '첫 러닝',
+  DISTANCE: '누적 거리',
+  STREAK: '연속 러닝',
+  EARLY_BIRD: '새벽 러닝',
+  LEAGUE: '리그',
+  SHOES: '신발',
+};
+
+/**
+ * 배지 카탈로그 (배지 벽에 이 순서대로 표시)
+ */
+export const BADGE_CATALOGUE: BadgeDefinition[] = [
+  {
+    id: 'first-run',
+    category: 'FIRST_RUN',
+    title: '첫걸음',
+    description: '첫 러닝 완료',
+    icon: 'footsteps',
+    metric: 'runCount',
+    goal: 1,
+  },
+  {
+    id: 'distance-10k',
+    category: 'DISTANCE',
+    title: '10km 러너',
+    description: '누적 10km 달리기',
+    icon: 'ribbon-outline',
+    metric: 'totalDistance',
+    goal: 10_000,
+  },
+  {
+    id: 'distance-100k',
+    category: 'DISTANCE',
+    title: '100km 러너',
+    description: '누적 100km 달리기',
+    icon: 'ribbon',
+    metric: 'totalDistance',
+    goal: 100_000,
+  },
+  {
+    id: 'distance-500k',
+    category: 'DISTANCE',
+    title: '500km 러너',
+    description: '누적 500km 달리기',
+    icon: 'medal-outline',
+    metric: 'totalDistance',
+    goal: 500_000,
+  },
+  {
+    id: 'distance-1000k',
+    category: 'DISTANCE',
+    title: '1000km 러너',
+    description: '누적 1000km 달리기',
+    icon: 'medal',
+    metric: 'totalDistance',
+    goal: 1_000_000,
+  },
+  {
+    id: 'streak-3',
+    category: 'STREAK',
+    title: '작심삼일 돌파',
+    description: '3일 연속 러닝',
+    icon: 'flame-outline',
+    metric: 'longestStreakDays',
+    goal: 3,
+  },
+  {
+    id: 'streak-7',
+    category: 'STREAK',
+    title: '일주일 개근',
+    description: '7일 연속 러닝',
+    icon: 'flame',
+    metric: 'longestStreakDays',
+    goal: 7,
+  },
+  {
+    id: 'streak-30',
+    category: 'STREAK',
+    title: '한 달 개근',
+    description: '30일 연속 러닝',
+    icon: 'bonfire',
+    metric: 'longestStreakDays',
+    goal: 30,
+  },
+  {
+    id: 'early-bird-1',
+    category: 'EARLY_BIRD',
+    title: '얼리버드',
+    description: '새벽 4~7시에 러닝 시작',
+    icon: 'sunny-outline',
+    metric: 'earlyBirdRuns',
+    goal: 1,
+  },
+  {
+    id: 'early-bird-10',
+    category: 'EARLY_BIRD',
+    title: '아침형 러너',
+    description: '새벽 러닝 10회',
+    icon: 'sunny',
+    metric: 'earlyBirdRuns',
+    goal: 10,
+  },
+  {
+    id: 'league-promotion',
+    category: 'LEAGUE',
+    title: '승급',
+    description: '리그 첫 승급',
+    icon: 'trending-up',
+    metric: 'promotions',
+    goal: 1,
+  },
+  {
+    id: 'league-gold',
+    category: 'LEAGUE',
+    title: '골드 리거',
+    description: 'GOLD 리그 도달',
+    icon: 'trophy-outline',
+    metric: 'highestTierOrder',
+    goal: 3,
+  },
+  {
+    id: 'league-challenger',
+    category: 'LEAGUE',
+    title: '챌린저',
+    description: 'CHALLENGER 리그 도달',
+    icon: 'trophy',
+    metric: 'highestTierOrder',
+    goal: 6,
+  },
+  {
+    id: 'shoe-100k',
+    category: 'SHOES',
+    title: '길들인 신발',
+    description: '신발 한 켤레로 100km',
+    icon: 'walk-outline',
+    metric: 'maxShoeDistance',
+    goal: 100_000,
+  },
+  {
+    id: 'shoe-300k',
+    category: 'SHOES',
+    title: '단짝 신발',
+    description: '신발 한 켤레로 300km',
+    icon: 'walk',
+    metric: 'maxShoeDistance',
+    goal: 300_000,
+  },
+  {
+    id: 'shoe-500k',
+    category: 'SHOES',
+    title: '닳도록 달린 신발',
+    description: '신발 한 켤레로 500km',
+    icon: 'star',
+    metric: 'maxShoeDistance',
+    goal: 500_000,
+  },
+];
+
+export const getBadgeDefinition = (id: BadgeId): BadgeDefinition | undefined =>
+  BADGE_CATALOGUE.find((badge) => badge.id === id);
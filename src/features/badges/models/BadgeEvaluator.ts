@@ -0,0 +1,133 @@
+/**
+ * Badge Evaluator (순수 함수)
+ * 러닝 기록/리그 결과/신발 누적 거리로 배지 지표를 계산하고 달성 여부를 판정
+ * - 날짜/시각은 러닝을 시작한 timezone 기준으로 계산해 기기 설정과 무관하게 같은 결과
+ *   (연속 기록 카드와 같은 기준, 기록에 timezone이 없으면 넘겨받은 timezone)
+ * - 새로 얻은 배지는 이전/이후 지표를 비교해 판정 (이미 얻었던 배지를 다시 축하하지 않음)
+ */
+
+import { LeagueResultStatus, TIER_INFO, type LeagueTierType } from '~/features/league/models';
+import type { RunningRecord } from '~/features/running/models';
+import type { Shoe } from '~/features/shoes/models';
+import { calculateLongestDailyStreak, getRecordTimeZone } from '~/features/statistics/models';
+import { getZonedDateParts } from '~/shared/utils/dateUtils';
+import {
+  BADGE_CATALOGUE,
+  EARLY_BIRD_END_HOUR,
+  EARLY_BIRD_START_HOUR,
+  type BadgeDefinition,
+  type BadgeMetric,
+} from './Badge';
+
+// 서버에 저장되지 않는 짧은 러닝(useRunningLifecycle 기준)은 세지 않는다.
+const MIN_RECORDED_DISTANCE_METERS = 10;
+
+/**
+ * 확인한 리그 결과 (서버는 미확인 결과만 내려주므로 기기에 쌓아 둔다)
+ */
+export interface LeagueResultEntry {
+  resultStatus: LeagueResultStatus;
+  previousTier: LeagueTierType;
+  currentTier: LeagueTierType;
+}
+
+export interface BadgeEvaluationInput {
+  records: Pick<RunningRecord, 'distance' | 'startTimestamp' | 'timezone'>[];
+  leagueResults: LeagueResultEntry[];
+  shoes: Pick<Shoe, 'totalDistance'>[];
+  /** 기록에 timezone이 없을 때 날짜/시각 판정 기준 timezone (IANA 이름) */
+  timeZone: string;
+}
+
+export type BadgeMetrics = Record<BadgeMetric, number>;
+
+export interface BadgeProgress {
+  badge: BadgeDefinition;
+  current: number;
+  /** 0~1 */
+  ratio: number;
+  isUnlocked: boolean;
+}
+
+export const EMPTY_BADGE_METRICS: BadgeMetrics = {
+  runCount: 0,
+  totalDistance: 0,
+  longestStreakDays: 0,
+  earlyBirdRuns: 0,
+  promotions: 0,
+  highestTierOrder: 0,
+  maxShoeDistance: 0,
+};
+
+/**
+ * 러닝 기록 지표 (횟수, 누적 거리, 연속 일수, 새벽 러닝)
+ */
+export const calculateRunBadgeMetrics = (
+  records: BadgeEvaluationInput['records'],
+  timeZone: string
+): Pick<BadgeMetrics, 'runCount' | 'totalDistance' | 'longestStreakDays' | 'earlyBirdRuns'> => {
+  const runs = records.filter((record) => record.distance >= MIN_RECORDED_DISTANCE_METERS);
+  const startParts = runs.map((record) =>
+    getZonedDateParts(record.startTimestamp, getRecordTimeZone(record, timeZone))
+  );
+
+  return {
+    runCount: runs.length,
+    totalDistance: runs.reduce((sum, record) => sum + record.distance, 0),
+    longestStreakDays: calculateLongestDailyStreak(startParts.map(({ dateKey }) => dateKey)),
+    earlyBirdRuns: startParts.filter(
+      ({ hour }) => hour >= EARLY_BIRD_START_HOUR && hour < EARLY_BIRD_END_HOUR
+    ).length,
+  };
+};
+
+/**
+ * 리그 지표 (승급 횟수, 도달한 가장 높은 티어)
+ */
+export const calculateLeagueBadgeMetrics = (
+  leagueResults: LeagueResultEntry[]
+): Pick<BadgeMetrics, 'promotions' | 'highestTierOrder'> => ({
+  promotions: leagueResults.filter(({ resultStatus }) => resultStatus === LeagueResultStatus.PROMOTED).length,
+  highestTierOrder: leagueResults.reduce(
+    (highest, { previousTier, currentTier }) =>
+      Math.max(highest, TIER_INFO[previousTier].order, TIER_INFO[currentTier].order),
+    0
+  ),
+});
+
+/**
+ * 신발 지표 (가장 많이 신은 신발의 누적 거리)
+ */
+export const calculateShoeBadgeMetrics = (
+  shoes: BadgeEvaluationInput['shoes']
+): Pick<BadgeMetrics, 'maxShoeDistance'> => ({
+  maxShoeDistance: shoes.reduce((max, shoe) => Math.max(max, shoe.totalDistance), 0),
+});
+
+export const calculateBadgeMetrics = (input: BadgeEvaluationInput): BadgeMetrics => ({
+  ...calculateRunBadgeMetrics(input.records, input.timeZone),
+  ...calculateLeagueBadgeMetrics(input.leagueResults),
+  ...calculateShoeBadgeMetrics(input.shoes),
+});
+
+/**
+ * 카탈로그 순서대로 배지별 진행도
+ */
+export const evaluateBadges = (metrics: BadgeMetrics): BadgeProgress[] =>
+  BADGE_CATALOGUE.map((badge) => {
+    const current = metrics[badge.metric];
+    return {
+      badge,
+      current,
+      ratio: Math.min(1, current / badge.goal),
+      isUnlocked: current >= badge.goal,
+    };
+  });
+
+/**
+ * 이전 지표에서는 못 얻었고 이후 지표에서 얻은 배지 (카탈로그 순서)
+ */
+export const findNewlyUnlockedBadges = (before: BadgeMetrics, after: BadgeMetrics): BadgeDefinition[] =>
+  BADGE_CATALOGUE.filter(
+    (badge) => before[badge.metric] < badge.goal && after[badge.metric] >= badge.goal
+  );
@@ -0,0 +1,5 @@
+/**
+ * Badge Models 통합 Export
+ */
+export * from './Badge';
+export * from './BadgeEvaluator';
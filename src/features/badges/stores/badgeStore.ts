@@ -0,0 +1,113 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { create } from 'zustand';
+import { createJSONStorage, persist } from 'zustand/middleware';
+import {
+  EMPTY_BADGE_METRICS,
+  calculateLeagueBadgeMetrics,
+  findNewlyUnlockedBadges,
+  type BadgeId,
+  type LeagueResultEntry,
+} from '../models';
+
+/**
+ * Badge Store (Zustand)
+ * - 배지별로 처음 얻은 시각 (배지 벽 표시용)
+ * - 확인한 리그 결과 기록 (서버는 아직 확인하지 않은 결과만 내려주므로 기기에 쌓음)
+ * - 러닝 완료/리그 결과 화면의 획득 판정 결과 (화면이 다시 그려져도 같은 결과 사용)
+ */
+interface BadgeState {
+  unlockedAt: Partial<Record<BadgeId, number>>;
+  leagueResults: LeagueResultEntry[];
+  lastRunResult: { recordId: number; badgeIds: BadgeId[] } | null;
+  lastLeagueResult: { resultKey: string; badgeIds: BadgeId[] } | null;
+
+  // Actions
+  syncUnlocked: (badgeIds: BadgeId[], nowMs?: number) => void;
+  recordFinishedRun: (recordId: number, badgeIds: BadgeId[], nowMs?: number) => BadgeId[];
+  recordLeagueResult: (resultKey: string, entry: LeagueResultEntry, nowMs?: number) => BadgeId[];
+  reset: () => void;
+}
+
+const initialState = {
+  unlockedAt: {} as Partial<Record<BadgeId, number>>,
+  leagueResults: [] as LeagueResultEntry[],
+  lastRunResult: null as { recordId: number; badgeIds: BadgeId[] } | null,
+  lastLeagueResult: null as { resultKey: string; badgeIds: BadgeId[] } | null,
+};
+
+/**
+ * 아직 얻지 않았던 배지에만 획득 시각 기록
+ */
+const withUnlocked = (
+  unlockedAt: Partial<Record<BadgeId, number>>,
+  badgeIds: BadgeId[],
+  nowMs: number
+): Partial<Record<BadgeId, number>> => {
+  const missing = badgeIds.filter((badgeId) => unlockedAt[badgeId] === undefined);
+  if (missing.length === 0) return unlockedAt;
+  return { ...unlockedAt, ...Object.fromEntries(missing.map((badgeId) => [badgeId, nowMs])) };
+};
+
+export const useBadgeStore = create<BadgeState>()(
+  persist(
+    (set, get) => ({
+      ...initialState,
+
+      syncUnlocked: (badgeIds, nowMs = Date.now()) =>
+        set((state) => {
+          const unlockedAt = withUnlocked(state.unlockedAt, badgeIds, nowMs);
+          // 바뀐 것이 없으면 참조를 유지해 구독 중인 화면이 다시 그려지지 않게 함
+          return unlockedAt === state.unlockedAt ? state : { unlockedAt };
+        }),
+
+      recordFinishedRun: (recordId, badgeIds, nowMs = Date.now()) => {
+        const { lastRunResult, unlockedAt } = get();
+        if (lastRunResult?.recordId === recordId) {
+          return lastRunResult.badgeIds;
+        }
+
+        const newBadgeIds = badgeIds.filter((badgeId) => unlockedAt[badgeId] === undefined);
+        set({
+          unlockedAt: withUnlocked(unlockedAt, newBadgeIds, nowMs),
+          lastRunResult: { recordId, badgeIds: newBadgeIds },
+        });
+        return newBadgeIds;
+      },
+
+      recordLeagueResult: (resultKey, entry, nowMs = Date.now()) => {
+        const { lastLeagueResult, leagueResults, unlockedAt } = get();
+        if (lastLeagueResult?.resultKey === resultKey) {
+          return lastLeagueResult.badgeIds;
+        }
+
+        // 리그 배지는 리그 결과만으로 판정되므로 나머지 지표는 비워 둔 채 비교
+        const nextLeagueResults = [...leagueResults, entry];
+        const newBadgeIds = findNewlyUnlockedBadges(
+          { ...EMPTY_BADGE_METRICS, ...calculateLeagueBadgeMetrics(leagueResults) },
+          { ...EMPTY_BADGE_METRICS, ...calculateLeagueBadgeMetrics(nextLeagueResults) }
+        )
+          .map(({ id }) => id)
+          .filter((badgeId) => unlockedAt[badgeId] === undefined);
+
+        set({
+          leagueResults: nextLeagueResults,
+          unlockedAt: withUnlocked(unlockedAt, newBadgeIds, nowMs),
+          lastLeagueResult: { resultKey, badgeIds: newBadgeIds },
+        });
+        return newBadgeIds;
+      },
+
+      reset: () => set(initialState),
+    }),
+    {
+      name: 'badge-storage', // AsyncStorage key
+      storage: createJSONStorage(() => AsyncStorage),
+      partialize: (state) => ({
+        unlockedAt: state.unlockedAt,
+        leagueResults: state.leagueResults,
+        lastRunResult: state.lastRunResult,
+        lastLeagueResult: state.lastLeagueResult,
+      }),
+    }
+  )
+);
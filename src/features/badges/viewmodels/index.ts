@@ -0,0 +1,6 @@
+/**
+ * Badges ViewModels 통합 Export
+ */
+export * from './useBadgeWallViewModel';
+export * from './useFinishedRunBadges';
+export * from './useLeagueResultBadges';
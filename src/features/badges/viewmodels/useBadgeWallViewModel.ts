@@ -0,0 +1,61 @@
+/**
+ * Badge Wall ViewModel
+ *
+ * 책임:
+ * - 전체 러닝 기록/신발 누적 거리/기기에 쌓인 리그 결과로 배지 진행도 계산
+ * - 달성한 배지의 획득 시각을 badgeStore에 기록 (처음 발견한 시각)
+ */
+
+import { useEffect, useMemo } from 'react';
+import { useGetAllShoes } from '~/features/shoes/services/shoeQueries';
+import { useGetAllRunningRecords } from '~/features/statistics/services';
+import { getDeviceTimezone } from '~/shared/utils/dateUtils';
+import { calculateBadgeMetrics, evaluateBadges, type BadgeProgress } from '../models';
+import { useBadgeStore } from '../stores/badgeStore';
+
+export interface BadgeWallItem extends BadgeProgress {
+  /** 획득 시각 (ms), 아직 얻지 못했으면 null */
+  unlockedAt: number | null;
+}
+
+export const useBadgeWallViewModel = () => {
+  const { data: records, isLoading: isLoadingRecords } = useGetAllRunningRecords();
+  const { data: shoes, isLoading: isLoadingShoes } = useGetAllShoes();
+  const leagueResults = useBadgeStore((state) => state.leagueResults);
+  const unlockedAt = useBadgeStore((state) => state.unlockedAt);
+
+  const progress = useMemo(() => {
+    if (!records) return null;
+    return evaluateBadges(
+      calculateBadgeMetrics({
+        records,
+        leagueResults,
+        shoes: shoes ?? [],
+        timeZone: getDeviceTimezone(),
+      })
+    );
+  }, [records, leagueResults, shoes]);
+
+  useEffect(() => {
+    if (!progress) return;
+    useBadgeStore
+      .getState()
+      .syncUnlocked(progress.filter(({ isUnlocked }) => isUnlocked).map(({ badge }) => badge.id));
+  }, [progress]);
+
+  const badges: BadgeWallItem[] = useMemo(
+    () =>
+      (progress ?? []).map((item) => ({
+        ...item,
+        unlockedAt: item.isUnlocked ? unlockedAt[item.badge.id] ?? null : null,
+      })),
+    [progress, unlockedAt]
+  );
+
+  return {
+    badges,
+    unlockedCount: badges.filter(({ isUnlocked }) => isUnlocked).length,
+    totalCount: badges.length,
+    isLoading: isLoadingRecords || isLoadingShoes,
+  };
+};
@@ -0,0 +1,74 @@
+/**
+ * Finished Run Badges Hook
+ *
+ * 러닝 완료 화면에서 방금 끝난 러닝으로 새로 얻은 배지를 판정
+ * - 이 러닝을 뺀 기록과 포함한 기록의 지표를 비교 (신발 배지는 배지 벽에서만 표시)
+ * - 판정 결과는 badgeStore에 남아 완료 화면이 다시 그려져도 같은 결과를 보여 줌
+ */
+
+import { useEffect, useRef } from 'react';
+import type { RunningRecord } from '~/features/running/models';
+import { useGetAllRunningRecords } from '~/features/statistics/services';
+import { getDeviceTimezone } from '~/shared/utils/dateUtils';
+import {
+  calculateBadgeMetrics,
+  findNewlyUnlockedBadges,
+  getBadgeDefinition,
+  type BadgeDefinition,
+} from '../models';
+import { useBadgeStore } from '../stores/badgeStore';
+
+// 서버에 저장되지 않는 짧은 러닝(useRunningLifecycle 기준)은 판정하지 않는다.
+const MIN_RECORDED_DISTANCE_METERS = 10;
+
+export interface UseFinishedRunBadgesProps {
+  /** 최종 거리/시간이 반영된 러닝 기록, 없으면 판정하지 않음 */
+  record: RunningRecord | null;
+}
+
+export const useFinishedRunBadges = ({ record }: UseFinishedRunBadgesProps): BadgeDefinition[] => {
+  const recordId = record?.id ?? null;
+  const { data: history } = useGetAllRunningRecords({ enabled: recordId !== null });
+  const isHistoryLoaded = history !== undefined;
+  const liveInputsRef = useRef({ record, history });
+
+  useEffect(() => {
+    liveInputsRef.current = { record, history };
+  }, [record, history]);
+
+  // 기록 ID가 정해지고 이전 기록을 불러온 뒤 한 번만 판정 (같은 ID는 store에서 이전 결과를 재사용)
+  useEffect(() => {
+    const { record: finishedRecord, history: records } = liveInputsRef.current;
+    if (
+      recordId === null ||
+      !isHistoryLoaded ||
+      !records ||
+      !finishedRecord ||
+      finishedRecord.distance < MIN_RECORDED_DISTANCE_METERS
+    ) {
+      return;
+    }
+
+    const { leagueResults, recordFinishedRun } = useBadgeStore.getState();
+    const previousRecords = records.filter(({ id }) => id !== finishedRecord.id);
+    const timeZone = getDeviceTimezone();
+    const newBadges = findNewlyUnlockedBadges(
+      calculateBadgeMetrics({ records: previousRecords, leagueResults, shoes: [], timeZone }),
+      calculateBadgeMetrics({
+        records: [...previousRecords, finishedRecord],
+        leagueResults,
+        shoes: [],
+        timeZone,
+      })
+    );
+
+    recordFinishedRun(
+      finishedRecord.id,
+      newBadges.map(({ id }) => id)
+    );
+  }, [recordId, isHistoryLoaded]);
+
+  const lastRunResult = useBadgeStore((state) => state.lastRunResult);
+  if (recordId === null || lastRunResult?.recordId !== recordId) return [];
+  return lastRunResult.badgeIds.flatMap((badgeId) => getBadgeDefinition(badgeId) ?? []);
+};
@@ -0,0 +1,36 @@
+/**
+ * League Result Badges Hook
+ *
+ * 리그 결과 화면에서 이번 결과로 새로 얻은 리그 배지를 판정
+ * - 결과를 badgeStore의 리그 기록에 쌓고, 같은 결과는 다시 쌓지 않음
+ */
+
+import { useEffect } from 'react';
+import type { LeagueResult } from '~/features/league/models';
+import { getBadgeDefinition, type BadgeDefinition } from '../models';
+import { useBadgeStore } from '../stores/badgeStore';
+
+/**
+ * 같은 결과 화면에 다시 들어와도 같은 키가 나오도록 결과 값으로 키 생성
+ */
+const getLeagueResultKey = (result: LeagueResult): string =>
+  JSON.stringify([
+    result.previousTier,
+    result.currentTier,
+    result.resultStatus,
+    result.finalRank,
+    result.totalDistance,
+  ]);
+
+export const useLeagueResultBadges = (result: LeagueResult): BadgeDefinition[] => {
+  const resultKey = getLeagueResultKey(result);
+  const { previousTier, currentTier, resultStatus } = result;
+
+  useEffect(() => {
+    useBadgeStore.getState().recordLeagueResult(resultKey, { resultStatus, previousTier, currentTier });
+  }, [resultKey, resultStatus, previousTier, currentTier]);
+
+  const lastLeagueResult = useBadgeStore((state) => state.lastLeagueResult);
+  if (lastLeagueResult?.resultKey !== resultKey) return [];
+  return lastLeagueResult.badgeIds.flatMap((badgeId) => getBadgeDefinition(badgeId) ?? []);
+};
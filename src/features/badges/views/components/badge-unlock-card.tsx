@@ -0,0 +1,77 @@
+import { Ionicons } from '@expo/vector-icons';
+import React from 'react';
+import { StyleSheet, View } from 'react-native';
+import { Text } from '~/shared/components/typography';
+import { GREY, PRIMARY } from '~/shared/styles';
+import type { BadgeDefinition } from '../../models';
+
+interface BadgeUnlockCardProps {
+  badges: BadgeDefinition[];
+}
+
+/**
+ * 새 배지 획득 축하 카드
+ * 러닝 완료/리그 결과 화면에서 이번에 얻은 배지를 표시
+ */
+export const BadgeUnlockCard: React.FC<BadgeUnlockCardProps> = ({ badges }) => {
+  if (badges.length === 0) return null;
+
+  return (
+    <View style={styles.container} testID="badge-unlock-card">
+      <View style={styles.header}>
+        <Ionicons name="ribbon" size={20} color={PRIMARY[900]} />
+        <Text style={styles.title}>새 배지 획득!</Text>
+      </View>
+
+      {badges.map((badge) => (
+        <View key={badge.id} style={styles.row} testID={`unlocked-badge-${badge.id}`}>
+          <Ionicons name={badge.icon} size={24} color={PRIMARY[900]} />
+          <View style={styles.textColumn}>
+            <Text style={styles.badgeTitle}>{badge.title}</Text>
+            <Text style={styles.description}>{badge.description}</Text>
+          </View>
+        </View>
+      ))}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    width: '100%',
+    padding: 16,
+    gap: 10,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: PRIMARY[300],
+    backgroundColor: PRIMARY[50],
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+  },
+  title: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: GREY[900],
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+  },
+  textColumn: {
+    flex: 1,
+  },
+  badgeTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: GREY[900],
+  },
+  description: {
+    fontSize: 12,
+    fontWeight: '500',
+    color: GREY[500],
+  },
+});
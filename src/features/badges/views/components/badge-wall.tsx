@@ -0,0 +1,141 @@
+import { Ionicons } from '@expo/vector-icons';
+import React from 'react';
+import { StyleSheet, View } from 'react-native';
+import { Text } from '~/shared/components/typography';
+import { useDistanceUnit } from '~/shared/hooks';
+import { GREY, PRIMARY } from '~/shared/styles';
+import { formatDateString } from '~/shared/utils/dateUtils';
+import type { BadgeMetric } from '../../models';
+import { useBadgeWallViewModel, type BadgeWallItem } from '../../viewmodels';
+
+const DISTANCE_METRICS: BadgeMetric[] = ['totalDistance', 'maxShoeDistance'];
+
+/**
+ * 진행도 문구 (거리 지표는 사용자 거리 단위, 티어 지표는 달성 여부만)
+ */
+const getProgressText = (
+  { badge, current }: BadgeWallItem,
+  formatDistance: ReturnType<typeof useDistanceUnit>['formatDistance']
+): string => {
+  if (badge.metric === 'highestTierOrder') return '미달성';
+  if (DISTANCE_METRICS.includes(badge.metric)) {
+    return `${formatDistance(current, { fractionDigits: 0, withUnit: false })} / ${formatDistance(badge.goal, { fractionDigits: 0 })}`;
+  }
+  return `${current} / ${badge.goal}`;
+};
+
+/**
+ * 배지 벽
+ * 카탈로그 전체를 격자로 표시, 달성한 배지는 획득 날짜, 아직이면 진행도
+ */
+export const BadgeWall: React.FC = () => {
+  const { formatDistance } = useDistanceUnit();
+  const { badges, unlockedCount, totalCount } = useBadgeWallViewModel();
+
+  if (badges.length === 0) return null;
+
+  return (
+    <View style={styles.container} testID="badge-wall">
+      <View style={styles.header}>
+        <Text style={styles.title}>배지</Text>
+        <Text style={styles.count}>
+          {unlockedCount} / {totalCount}
+        </Text>
+      </View>
+
+      <View style={styles.grid}>
+        {badges.map((item) => (
+          <View
+            key={item.badge.id}
+            style={[styles.cell, !item.isUnlocked && styles.cellLocked]}
+            testID={`badge-${item.badge.id}`}
+          >
+            <Ionicons
+              name={item.badge.icon}
+              size={28}
+              color={item.isUnlocked ? PRIMARY[900] : GREY[300]}
+            />
+            <Text style={styles.badgeTitle} numberOfLines={1}>
+              {item.badge.title}
+            </Text>
+            {item.isUnlocked ? (
+              <Text style={styles.caption}>
+                {item.unlockedAt !== null ? formatDateString(new Date(item.unlockedAt), 'YYYY-MM-DD') : '달성'}
+              </Text>
+            ) : (
+              <>
+                <View style={styles.progressTrack}>
+                  <View style={[styles.progressFill, { width: `${Math.round(item.ratio * 100)}%` }]} />
+                </View>
+                <Text style={styles.caption} numberOfLines={1}>
+                  {getProgressText(item, formatDistance)}
+                </Text>
+              </>
+            )}
+          </View>
+        ))}
+      </View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    marginHorizontal: 20,
+    marginBottom: 20,
+    padding: 16,
+    gap: 12,
+    borderRadius: 8,
+    backgroundColor: GREY.WHITE,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  title: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: GREY[900],
+  },
+  count: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: GREY[500],
+  },
+  grid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    rowGap: 16,
+  },
+  cell: {
+    width: '33.33%',
+    alignItems: 'center',
+    gap: 4,
+    paddingHorizontal: 4,
+  },
+  cellLocked: {
+    opacity: 0.7,
+  },
+  badgeTitle: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: GREY[900],
+  },
+  caption: {
+    fontSize: 11,
+    fontWeight: '500',
+    color: GREY[500],
+  },
+  progressTrack: {
+    width: '80%',
+    height: 4,
+    borderRadius: 2,
+    backgroundColor: GREY[100],
+    overflow: 'hidden',
+  },
+  progressFill: {
+    height: '100%',
+    backgroundColor: PRIMARY[600],
+  },
+});
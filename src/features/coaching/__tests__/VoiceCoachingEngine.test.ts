@@ -0,0 +1,148 @@
+import {
+  buildDistanceCue,
+  DEFAULT_VOICE_COACHING_SETTINGS,
+  formatSpokenDuration,
+  type VoiceCoachingSettings,
+} from '../models';
+import { DistanceUnit } from '~/stores/user/userStore';
+import { createVoiceCoachingState, evaluateVoiceCoaching } from '../services/VoiceCoachingEngine';
+
+const buildSettings = (overrides: Partial<VoiceCoachingSettings> = {}): VoiceCoachingSettings => ({
+  ...DEFAULT_VOICE_COACHING_SETTINGS,
+  ...overrides,
+});
+
+describe('VoiceCoachingEngine', () => {
+  it('announces each km split with split pace, average pace and elapsed time', () => {
+    let state = createVoiceCoachingState(buildSettings(), DistanceUnit.KILOMETER);
+
+    const beforeSplit = evaluateVoiceCoaching(state, { distance: 990, elapsedSec: 297, currentPaceSec: 300 });
+    expect(beforeSplit.cues).toEqual([]);
+    state = beforeSplit.state;
+
+    const firstSplit = evaluateVoiceCoaching(state, { distance: 1005, elapsedSec: 300, currentPaceSec: 300 });
+    expect(firstSplit.cues).toEqual([
+      '1킬로미터. 구간 페이스 5분. 평균 페이스 4분 59초. 경과 시간 5분.',
+    ]);
+    state = firstSplit.state;
+
+    const secondSplit = evaluateVoiceCoaching(state, { distance: 2000, elapsedSec: 630, currentPaceSec: 330 });
+    expect(secondSplit.cues[0]).toContain('2킬로미터. 구간 페이스 5분 30초');
+    expect(secondSplit.state.nextDistanceMilestone).toBe(3000);
+  });
+
+  it('announces only the latest milestone when several are crossed at once', () => {
+    const state = createVoiceCoachingState(
+      buildSettings({ distanceIntervalMeters: 500 }),
+      DistanceUnit.KILOMETER
+    );
+
+    const { state: next, cues } = evaluateVoiceCoaching(state, {
+      distance: 1720,
+      elapsedSec: 540,
+      currentPaceSec: null,
+    });
+
+    expect(cues).toHaveLength(1);
+    expect(cues[0]).toMatch(/^1\.5킬로미터\./);
+    expect(next.nextDistanceMilestone).toBe(2000);
+    expect(next.lastSplitDistance).toBe(1500);
+  });
+
+  it('never goes back when a stale smaller distance arrives', () => {
+    let state = createVoiceCoachingState(buildSettings(), DistanceUnit.KILOMETER);
+    state = evaluateVoiceCoaching(state, { distance: 1010, elapsedSec: 300, currentPaceSec: null }).state;
+
+    const { state: next, cues } = evaluateVoiceCoaching(state, {
+      distance: 980,
+      elapsedSec: 301,
+      currentPaceSec: null,
+    });
+
+    expect(cues).toEqual([]);
+    expect(next.lastDistance).toBe(1010);
+    expect(next.nextDistanceMilestone).toBe(2000);
+  });
+
+  it('announces time milestones with distance when enabled', () => {
+    const state = createVoiceCoachingState(
+      buildSettings({ timeIntervalSec: 300, metrics: ['distance', 'averagePace'], language: 'en' }),
+      DistanceUnit.KILOMETER
+    );
+
+    const { cues } = evaluateVoiceCoaching(state, { distance: 900, elapsedSec: 301, currentPaceSec: null });
+
+    expect(cues).toEqual(['Time 5 minutes. Distance 900 meters. Average pace 5 minutes 34 seconds per kilometer.']);
+  });
+
+  it('speaks distance, pace and pace deviation in miles when the user prefers miles', () => {
+    const state = createVoiceCoachingState(
+      buildSettings({ timeIntervalSec: 300, metrics: ['distance', 'averagePace'], language: 'en' }),
+      DistanceUnit.MILE
+    );
+
+    expect(
+      evaluateVoiceCoaching(state, { distance: 900, elapsedSec: 301, currentPaceSec: null }).cues
+    ).toEqual(['Time 5 minutes. Distance 0.56 miles. Average pace 8 minutes 58 seconds per mile.']);
+
+    const paceState = createVoiceCoachingState(
+      buildSettings({ targetPaceSecondsPerKm: 300 }),
+      DistanceUnit.MILE
+    );
+    expect(
+      evaluateVoiceCoaching(paceState, { distance: 200, elapsedSec: 60, currentPaceSec: 340 }).cues
+    ).toEqual(['목표 페이스보다 64초 느립니다. 조금 더 힘내세요.']);
+  });
+
+  it('checks target pace deviation once a minute after the first minute', () => {
+    let state = createVoiceCoachingState(
+      buildSettings({ targetPaceSecondsPerKm: 300 }),
+      DistanceUnit.KILOMETER
+    );
+
+    expect(evaluateVoiceCoaching(state, { distance: 150, elapsedSec: 30, currentPaceSec: 340 }).cues).toEqual([]);
+
+    const slow = evaluateVoiceCoaching(state, { distance: 200, elapsedSec: 60, currentPaceSec: 340 });
+    expect(slow.cues).toEqual(['목표 페이스보다 40초 느립니다. 조금 더 힘내세요.']);
+    state = slow.state;
+
+    expect(evaluateVoiceCoaching(state, { distance: 250, elapsedSec: 90, currentPaceSec: 340 }).cues).toEqual([]);
+
+    const onTarget = evaluateVoiceCoaching(state, { distance: 400, elapsedSec: 120, currentPaceSec: 310 });
+    expect(onTarget.cues).toEqual([]);
+    expect(onTarget.state.lastDeviationCheckSec).toBe(120);
+  });
+
+  it('skips pace deviation when no target pace is set', () => {
+    const state = createVoiceCoachingState(buildSettings(), DistanceUnit.KILOMETER);
+
+    const { cues, state: next } = evaluateVoiceCoaching(state, {
+      distance: 200,
+      elapsedSec: 120,
+      currentPaceSec: 500,
+    });
+
+    expect(cues).toEqual([]);
+    expect(next.lastDeviationCheckSec).toBe(0);
+  });
+});
+
+describe('CoachingMessages', () => {
+  it('spells durations for speech', () => {
+    expect(formatSpokenDuration(3903, 'ko')).toBe('1시간 5분 3초');
+    expect(formatSpokenDuration(61, 'en')).toBe('1 minute 1 second');
+    expect(formatSpokenDuration(0, 'ko')).toBe('0초');
+  });
+
+  it('omits metrics that have not been measured', () => {
+    const cue = buildDistanceCue(
+      { distance: 500, elapsedSec: 150, splitPaceSec: null, currentPaceSec: null, averagePaceSec: null },
+      500,
+      ['splitPace', 'currentPace', 'averagePace'],
+      'ko',
+      DistanceUnit.KILOMETER
+    );
+
+    expect(cue).toBe('500미터.');
+  });
+});
@@ -0,0 +1,65 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as Speech from 'expo-speech';
+import { DistanceUnit } from '~/stores/user/userStore';
+import { DEFAULT_VOICE_COACHING_SETTINGS } from '../models';
+import { voiceCoachingService } from '../services/VoiceCoachingService';
+
+jest.mock('expo-speech', () => ({
+  speak: jest.fn(),
+  stop: jest.fn(),
+}));
+
+const mockSpeak = Speech.speak as jest.Mock;
+const START_MS = 1_700_000_000_000;
+
+describe('VoiceCoachingService', () => {
+  beforeEach(async () => {
+    await voiceCoachingService.endSession();
+    jest.clearAllMocks();
+  });
+
+  it('speaks distance milestones using active time only', async () => {
+    await voiceCoachingService.startSession(DEFAULT_VOICE_COACHING_SETTINGS, DistanceUnit.KILOMETER, START_MS);
+    await voiceCoachingService.handleProgress({ distance: 600, currentPaceSec: 300, nowMs: START_MS + 180_000 });
+    await voiceCoachingService.pauseSession(START_MS + 180_000);
+    await voiceCoachingService.resumeSession(START_MS + 600_000);
+    await voiceCoachingService.handleProgress({ distance: 1000, currentPaceSec: 300, nowMs: START_MS + 720_000 });
+
+    expect(mockSpeak).toHaveBeenCalledTimes(1);
+    expect(mockSpeak).toHaveBeenCalledWith(
+      '1킬로미터. 구간 페이스 5분. 평균 페이스 5분. 경과 시간 5분.',
+      { language: 'ko-KR' }
+    );
+  });
+
+  it('persists the session after a cue so the background task can continue it', async () => {
+    await voiceCoachingService.startSession(DEFAULT_VOICE_COACHING_SETTINGS, DistanceUnit.KILOMETER, START_MS);
+    await voiceCoachingService.handleProgress({ distance: 1000, currentPaceSec: null, nowMs: START_MS + 300_000 });
+
+    const saved = JSON.parse((await AsyncStorage.getItem('@voice_coaching_session')) ?? 'null');
+    expect(saved.engine.nextDistanceMilestone).toBe(2000);
+  });
+
+  it('stays silent when coaching is disabled or no session is running', async () => {
+    await voiceCoachingService.startSession(
+      { ...DEFAULT_VOICE_COACHING_SETTINGS, enabled: false },
+      DistanceUnit.KILOMETER,
+      START_MS
+    );
+    await voiceCoachingService.handleProgress({ distance: 1000, currentPaceSec: 300, nowMs: START_MS + 300_000 });
+    await voiceCoachingService.speak('인터벌 1/5 시작');
+
+    expect(mockSpeak).not.toHaveBeenCalled();
+    expect(await AsyncStorage.getItem('@voice_coaching_session')).toBeNull();
+  });
+
+  it('uses the workout step target pace for deviation cues', async () => {
+    await voiceCoachingService.startSession(DEFAULT_VOICE_COACHING_SETTINGS, DistanceUnit.KILOMETER, START_MS);
+    await voiceCoachingService.setTargetPace(240);
+    await voiceCoachingService.handleProgress({ distance: 300, currentPaceSec: 270, nowMs: START_MS + 60_000 });
+
+    expect(mockSpeak).toHaveBeenLastCalledWith('목표 페이스보다 30초 느립니다. 조금 더 힘내세요.', {
+      language: 'ko-KR',
+    });
+  });
+});
@@ -0,0 +1,79 @@
+/**
+ * useVoiceCoaching Hook
+ *
+ * 러닝 상태 전환에 맞춰 음성 코칭 세션을 시작/일시정지/재개/종료하고
+ * foreground에서는 1초 tick마다 누적 거리를 전달
+ * (백그라운드에서는 BackgroundTaskService가 직접 전달)
+ */
+
+import { useEffect, useRef } from 'react';
+import { RunningState } from '~/stores/app/appStore';
+import { useUserStore } from '~/stores/user/userStore';
+import { voiceCoachingService } from '../services/VoiceCoachingService';
+import { useVoiceCoachingStore } from '../stores/voiceCoachingStore';
+
+export interface UseVoiceCoachingProps {
+  runningState: RunningState;
+  distance: number;
+  elapsedTime: number;
+  /** 순간 페이스 (초/km, 측정 전이면 0) */
+  instantPaceSeconds: number;
+}
+
+export const useVoiceCoaching = ({
+  runningState,
+  distance,
+  elapsedTime,
+  instantPaceSeconds,
+}: UseVoiceCoachingProps): void => {
+  const previousStateRef = useRef<RunningState>(runningState);
+  const liveInputsRef = useRef({ distance, instantPaceSeconds });
+
+  useEffect(() => {
+    liveInputsRef.current = { distance, instantPaceSeconds };
+  }, [distance, instantPaceSeconds]);
+
+  // 상태 전환 → 세션 제어
+  useEffect(() => {
+    const previousState = previousStateRef.current;
+    previousStateRef.current = runningState;
+    if (previousState === runningState) return;
+
+    if (runningState === RunningState.Running) {
+      if (previousState === RunningState.Paused) {
+        void voiceCoachingService.resumeSession();
+        return;
+      }
+
+      const { settings } = useVoiceCoachingStore.getState();
+      const { soundEnabled, distanceUnit } = useUserStore.getState().userPreferences;
+      void voiceCoachingService.startSession(
+        {
+          ...settings,
+          enabled: settings.enabled && soundEnabled,
+        },
+        distanceUnit
+      );
+      return;
+    }
+
+    if (runningState === RunningState.Paused) {
+      void voiceCoachingService.pauseSession();
+      return;
+    }
+
+    void voiceCoachingService.endSession();
+  }, [runningState]);
+
+  // 1초 tick → 진행 전달
+  useEffect(() => {
+    if (runningState !== RunningState.Running) return;
+
+    const { distance: currentDistance, instantPaceSeconds: currentPaceSeconds } =
+      liveInputsRef.current;
+    void voiceCoachingService.handleProgress({
+      distance: currentDistance,
+      currentPaceSec: currentPaceSeconds > 0 ? currentPaceSeconds : null,
+    });
+  }, [runningState, elapsedTime]);
+};
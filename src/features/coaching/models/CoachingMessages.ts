@@ -0,0 +1,182 @@
+import {
+  convertDistance,
+  convertPace,
+  METERS_PER_KILOMETER,
+} from '~/shared/utils/unitFormatters';
+import { DistanceUnit } from '~/stores/user/userStore';
+import type { VoiceCoachingLanguage, VoiceCoachingMetric } from './VoiceCoaching';
+
+/**
+ * 음성 안내 문구
+ * TTS가 자연스럽게 읽도록 숫자를 단위와 함께 풀어서 만든다 ("5:30/km" → "5분 30초")
+ * 거리와 페이스는 사용자 거리 단위(km, mile)로 읽는다.
+ */
+
+export interface CoachingCueValues {
+  distance: number; // 누적 거리 (미터)
+  elapsedSec: number;
+  /** 구간 페이스 (초/km) */
+  splitPaceSec: number | null;
+  /** 순간 페이스 (초/km) */
+  currentPaceSec: number | null;
+  /** 평균 페이스 (초/km) */
+  averagePaceSec: number | null;
+}
+
+const splitDuration = (totalSeconds: number) => {
+  const rounded = Math.max(0, Math.round(totalSeconds));
+  return {
+    hours: Math.floor(rounded / 3600),
+    minutes: Math.floor((rounded % 3600) / 60),
+    seconds: rounded % 60,
+  };
+};
+
+const plural = (value: number, unit: string) => `${value} ${unit}${value === 1 ? '' : 's'}`;
+
+/** 초 → "1시간 5분 3초" / "1 hour 5 minutes 3 seconds" */
+export const formatSpokenDuration = (totalSeconds: number, language: VoiceCoachingLanguage): string => {
+  const { hours, minutes, seconds } = splitDuration(totalSeconds);
+  const parts =
+    language === 'ko'
+      ? [hours > 0 && `${hours}시간`, minutes > 0 && `${minutes}분`, seconds > 0 && `${seconds}초`]
+      : [
+          hours > 0 && plural(hours, 'hour'),
+          minutes > 0 && plural(minutes, 'minute'),
+          seconds > 0 && plural(seconds, 'second'),
+        ];
+  const spoken = parts.filter((part): part is string => typeof part === 'string').join(' ');
+
+  if (spoken.length > 0) return spoken;
+  return language === 'ko' ? '0초' : '0 seconds';
+};
+
+const SPOKEN_UNIT_NAMES: Record<DistanceUnit, Record<VoiceCoachingLanguage, string>> = {
+  [DistanceUnit.KILOMETER]: { ko: '킬로미터', en: 'kilometer' },
+  [DistanceUnit.MILE]: { ko: '마일', en: 'mile' },
+};
+
+/** m → "1.5킬로미터" / "500미터" / "1.2 miles" (마일은 1마일 미만도 마일로) */
+export const formatSpokenDistance = (
+  meters: number,
+  language: VoiceCoachingLanguage,
+  unit: DistanceUnit
+): string => {
+  if (unit === DistanceUnit.KILOMETER && meters < METERS_PER_KILOMETER) {
+    const rounded = Math.round(meters);
+    return language === 'ko' ? `${rounded}미터` : plural(rounded, 'meter');
+  }
+
+  const value = Number(convertDistance(meters, unit).toFixed(2));
+  const unitName = SPOKEN_UNIT_NAMES[unit][language];
+  return language === 'ko' ? `${value}${unitName}` : `${value} ${unitName}${value === 1 ? '' : 's'}`;
+};
+
+/** 초/km → "5분 30초" / "5 minutes 30 seconds per kilometer" (마일이면 초/mi로 변환) */
+export const formatSpokenPace = (
+  secondsPerKm: number,
+  language: VoiceCoachingLanguage,
+  unit: DistanceUnit
+): string => {
+  const duration = formatSpokenDuration(convertPace(secondsPerKm, unit), language);
+  return language === 'ko' ? duration : `${duration} per ${SPOKEN_UNIT_NAMES[unit].en}`;
+};
+
+const LABELS: Record<VoiceCoachingLanguage, Record<VoiceCoachingMetric, string>> = {
+  ko: {
+    splitPace: '구간 페이스',
+    currentPace: '현재 페이스',
+    averagePace: '평균 페이스',
+    elapsedTime: '경과 시간',
+    distance: '거리',
+  },
+  en: {
+    splitPace: 'Split pace',
+    currentPace: 'Current pace',
+    averagePace: 'Average pace',
+    elapsedTime: 'Time',
+    distance: 'Distance',
+  },
+};
+
+/**
+ * 선택된 페이스 항목 문장 목록 (측정되지 않은 값은 생략)
+ */
+const buildPaceSentences = (
+  values: CoachingCueValues,
+  metrics: VoiceCoachingMetric[],
+  language: VoiceCoachingLanguage,
+  unit: DistanceUnit
+): string[] => {
+  const labels = LABELS[language];
+  const paces: [VoiceCoachingMetric, number | null][] = [
+    ['splitPace', values.splitPaceSec],
+    ['currentPace', values.currentPaceSec],
+    ['averagePace', values.averagePaceSec],
+  ];
+
+  return paces
+    .filter((entry): entry is [VoiceCoachingMetric, number] => metrics.includes(entry[0]) && entry[1] !== null)
+    .map(([metric, pace]) => `${labels[metric]} ${formatSpokenPace(pace, language, unit)}`);
+};
+
+const joinSentences = (sentences: string[]) => `${sentences.join('. ')}.`;
+
+/**
+ * 거리 마일스톤 안내 (예: "2킬로미터. 구간 페이스 5분 10초. 경과 시간 10분 40초.")
+ */
+export const buildDistanceCue = (
+  values: CoachingCueValues,
+  milestoneMeters: number,
+  metrics: VoiceCoachingMetric[],
+  language: VoiceCoachingLanguage,
+  unit: DistanceUnit
+): string => {
+  const sentences = [
+    formatSpokenDistance(milestoneMeters, language, unit),
+    ...buildPaceSentences(values, metrics, language, unit),
+  ];
+  if (metrics.includes('elapsedTime')) {
+    sentences.push(`${LABELS[language].elapsedTime} ${formatSpokenDuration(values.elapsedSec, language)}`);
+  }
+  return joinSentences(sentences);
+};
+
+/**
+ * 시간 마일스톤 안내 (예: "경과 시간 10분. 거리 1.85킬로미터. 평균 페이스 5분 24초.")
+ */
+export const buildTimeCue = (
+  values: CoachingCueValues,
+  milestoneSec: number,
+  metrics: VoiceCoachingMetric[],
+  language: VoiceCoachingLanguage,
+  unit: DistanceUnit
+): string => {
+  const sentences = [`${LABELS[language].elapsedTime} ${formatSpokenDuration(milestoneSec, language)}`];
+  if (metrics.includes('distance')) {
+    sentences.push(`${LABELS[language].distance} ${formatSpokenDistance(values.distance, language, unit)}`);
+  }
+  sentences.push(...buildPaceSentences({ ...values, splitPaceSec: null }, metrics, language, unit));
+  return joinSentences(sentences);
+};
+
+/**
+ * 목표 페이스 이탈 안내 (deltaSec: 초/km, 양수면 목표보다 느림)
+ * 차이는 사용자 거리 단위 기준 초로 읽는다.
+ */
+export const buildPaceDeviationCue = (
+  deltaSec: number,
+  language: VoiceCoachingLanguage,
+  unit: DistanceUnit
+): string => {
+  const seconds = Math.round(Math.abs(convertPace(deltaSec, unit)));
+  if (language === 'ko') {
+    return deltaSec > 0
+      ? `목표 페이스보다 ${seconds}초 느립니다. 조금 더 힘내세요.`
+      : `목표 페이스보다 ${seconds}초 빠릅니다. 속도를 조금 늦추세요.`;
+  }
+
+  return deltaSec > 0
+    ? `${plural(seconds, 'second')} slower than target pace. Pick it up a little.`
+    : `${plural(seconds, 'second')} faster than target pace. Ease off a little.`;
+};
@@ -0,0 +1,65 @@
+/**
+ * 러닝 음성 코칭 설정
+ * 화면을 보지 않고 달리는 러너에게 거리/시간 마일스톤마다 기록을 읽어 줌
+ */
+
+export type VoiceCoachingLanguage = 'ko' | 'en';
+
+/**
+ * 안내 항목
+ * - splitPace: 직전 마일스톤 이후 구간 페이스
+ * - currentPace: 순간 페이스
+ * - averagePace: 전체 평균 페이스
+ * - elapsedTime: 경과 시간 (거리 안내에 덧붙임)
+ * - distance: 누적 거리 (시간 안내에 덧붙임)
+ */
+export type VoiceCoachingMetric =
+  | 'splitPace'
+  | 'currentPace'
+  | 'averagePace'
+  | 'elapsedTime'
+  | 'distance';
+
+export interface VoiceCoachingSettings {
+  enabled: boolean;
+  /** 거리 안내 간격 (m) */
+  distanceIntervalMeters: number;
+  /** 시간 안내 간격 (초), 0이면 끔 */
+  timeIntervalSec: number;
+  metrics: VoiceCoachingMetric[];
+  language: VoiceCoachingLanguage;
+  /** 목표 페이스 (초/km), 없으면 이탈 안내를 하지 않음 */
+  targetPaceSecondsPerKm: number | null;
+  /** 목표 페이스 대비 이 값(초/km)보다 벗어나면 안내 */
+  paceDeviationThresholdSec: number;
+}
+
+export const VOICE_COACHING_METRICS: VoiceCoachingMetric[] = [
+  'splitPace',
+  'currentPace',
+  'averagePace',
+  'elapsedTime',
+  'distance',
+];
+
+export const DISTANCE_INTERVAL_OPTIONS = [500, 1000, 2000];
+export const TIME_INTERVAL_OPTIONS = [0, 300, 600, 900];
+
+export const DEFAULT_VOICE_COACHING_SETTINGS: VoiceCoachingSettings = {
+  enabled: true,
+  distanceIntervalMeters: 1000,
+  timeIntervalSec: 0,
+  metrics: ['splitPace', 'averagePace', 'elapsedTime'],
+  language: 'ko',
+  targetPaceSecondsPerKm: null,
+  paceDeviationThresholdSec: 15,
+};
+
+/**
+ * expo-speech 언어 코드
+ */
+export const SPEECH_LANGUAGE_CODES: Record<VoiceCoachingLanguage, string> = {
+  ko: 'ko-KR',
+  en: 'en-US',
+};
+
@@ -0,0 +1,5 @@
+/**
+ * Coaching Models 통합 Export
+ */
+export * from './VoiceCoaching';
+export * from './CoachingMessages';
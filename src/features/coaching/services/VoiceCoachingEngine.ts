@@ -0,0 +1,135 @@
+import type { DistanceUnit } from '~/stores/user/userStore';
+import {
+  buildDistanceCue,
+  buildPaceDeviationCue,
+  buildTimeCue,
+  type CoachingCueValues,
+  type VoiceCoachingSettings,
+} from '../models';
+
+/**
+ * 음성 코칭 엔진 (순수 함수)
+ * - 누적 거리/경과 시간 샘플로 거리·시간 마일스톤과 목표 페이스 이탈을 판정해 안내 문구를 만든다
+ * - 상태는 JSON으로 직렬화할 수 있어 백그라운드 task에서도 그대로 이어서 사용
+ */
+
+export interface VoiceCoachingState {
+  settings: VoiceCoachingSettings;
+  /** 안내 문구의 거리/페이스 단위 (세션 시작 시점의 사용자 설정) */
+  distanceUnit: DistanceUnit;
+  /** 이탈 판정에 쓰는 목표 페이스 (초/km), 워크아웃 단계가 설정 값을 덮어쓸 수 있음 */
+  targetPaceSecondsPerKm: number | null;
+  nextDistanceMilestone: number;
+  /** 다음 시간 안내 시점 (초), 시간 안내를 끈 경우 null */
+  nextTimeMilestoneSec: number | null;
+  lastSplitDistance: number;
+  lastSplitElapsedSec: number;
+  /** 지금까지 받은 최대 거리 (foreground 값이 늦게 들어와도 되돌아가지 않도록) */
+  lastDistance: number;
+  lastDeviationCheckSec: number;
+}
+
+export interface VoiceCoachingSample {
+  distance: number; // 누적 거리 (미터)
+  elapsedSec: number; // 일시정지를 뺀 경과 시간 (초)
+  /** 순간 페이스 (초/km), 측정 전이거나 정지 중이면 null */
+  currentPaceSec: number | null;
+}
+
+// 이 시간(초) 이후부터, 이 간격으로 목표 페이스 이탈을 확인
+const PACE_DEVIATION_START_SEC = 60;
+const PACE_DEVIATION_CHECK_INTERVAL_SEC = 60;
+// 평균 페이스는 이 거리(m) 이상부터 안내 (초반 노이즈 방지)
+const MIN_AVERAGE_PACE_DISTANCE_METERS = 50;
+
+export const createVoiceCoachingState = (
+  settings: VoiceCoachingSettings,
+  distanceUnit: DistanceUnit
+): VoiceCoachingState => ({
+  settings,
+  distanceUnit,
+  targetPaceSecondsPerKm: settings.targetPaceSecondsPerKm,
+  nextDistanceMilestone: settings.distanceIntervalMeters,
+  nextTimeMilestoneSec: settings.timeIntervalSec > 0 ? settings.timeIntervalSec : null,
+  lastSplitDistance: 0,
+  lastSplitElapsedSec: 0,
+  lastDistance: 0,
+  lastDeviationCheckSec: 0,
+});
+
+const calculatePace = (distance: number, durationSec: number): number | null =>
+  distance > 0 && durationSec > 0 ? durationSec / (distance / 1000) : null;
+
+/**
+ * 샘플 하나로 코칭 상태를 진행하고 읽어 줄 문구를 반환
+ * 한 번에 여러 마일스톤을 넘기면(백그라운드 복귀 등) 마지막 마일스톤만 안내
+ */
+export const evaluateVoiceCoaching = (
+  state: VoiceCoachingState,
+  sample: VoiceCoachingSample
+): { state: VoiceCoachingState; cues: string[] } => {
+  const { settings, distanceUnit } = state;
+  const distance = Math.max(sample.distance, state.lastDistance);
+  const { elapsedSec } = sample;
+  const cues: string[] = [];
+  let next: VoiceCoachingState = { ...state, lastDistance: distance };
+
+  const values: CoachingCueValues = {
+    distance,
+    elapsedSec,
+    splitPaceSec: null,
+    currentPaceSec: sample.currentPaceSec && sample.currentPaceSec > 0 ? sample.currentPaceSec : null,
+    averagePaceSec:
+      distance >= MIN_AVERAGE_PACE_DISTANCE_METERS ? calculatePace(distance, elapsedSec) : null,
+  };
+
+  if (distance >= next.nextDistanceMilestone) {
+    const interval = settings.distanceIntervalMeters;
+    const milestone = Math.floor(distance / interval) * interval;
+    const splitPaceSec = calculatePace(
+      milestone - next.lastSplitDistance,
+      elapsedSec - next.lastSplitElapsedSec
+    );
+
+    cues.push(
+      buildDistanceCue(
+        { ...values, splitPaceSec },
+        milestone,
+        settings.metrics,
+        settings.language,
+        distanceUnit
+      )
+    );
+    next = {
+      ...next,
+      nextDistanceMilestone: milestone + interval,
+      lastSplitDistance: milestone,
+      lastSplitElapsedSec: elapsedSec,
+    };
+  }
+
+  if (next.nextTimeMilestoneSec !== null && elapsedSec >= next.nextTimeMilestoneSec) {
+    const interval = settings.timeIntervalSec;
+    const milestone = Math.floor(elapsedSec / interval) * interval;
+
+    cues.push(buildTimeCue(values, milestone, settings.metrics, settings.language, distanceUnit));
+    next = { ...next, nextTimeMilestoneSec: milestone + interval };
+  }
+
+  // 마일스톤 안내와 겹치면 다음 확인 시점으로 미룸
+  if (
+    cues.length === 0 &&
+    next.targetPaceSecondsPerKm !== null &&
+    values.currentPaceSec !== null &&
+    elapsedSec >= PACE_DEVIATION_START_SEC &&
+    elapsedSec - next.lastDeviationCheckSec >= PACE_DEVIATION_CHECK_INTERVAL_SEC
+  ) {
+    const deltaSec = values.currentPaceSec - next.targetPaceSecondsPerKm;
+    if (Math.abs(deltaSec) > settings.paceDeviationThresholdSec) {
+      cues.push(buildPaceDeviationCue(deltaSec, settings.language, distanceUnit));
+    }
+    next = { ...next, lastDeviationCheckSec: elapsedSec };
+  }
+
+  return { state: next, cues };
+};
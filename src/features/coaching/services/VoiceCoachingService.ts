@@ -0,0 +1,263 @@
+/**
+ * Voice Coaching Service
+ * 러닝 중 음성 코칭 세션 관리 및 TTS 출력
+ *
+ * - foreground: RunningViewModel의 1초 tick(coordinator snapshot 거리)으로 진행
+ * - background: BackgroundTaskService의 위치 task가 누적 거리를 갱신할 때마다 진행
+ * - 세션(엔진 상태 + 경과 시간 시계)은 AsyncStorage에 저장해 JS 컨텍스트가 바뀌어도 이어서 안내
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as Speech from 'expo-speech';
+import type { DistanceUnit } from '~/stores/user/userStore';
+import {
+  buildDistanceCue,
+  SPEECH_LANGUAGE_CODES,
+  type VoiceCoachingSettings,
+} from '../models';
+import {
+  createVoiceCoachingState,
+  evaluateVoiceCoaching,
+  type VoiceCoachingState,
+} from './VoiceCoachingEngine';
+
+const STORAGE_KEY = '@voice_coaching_session';
+
+interface VoiceCoachingSession {
+  engine: VoiceCoachingState;
+  /** 일시정지 전까지 누적된 경과 시간 (초) */
+  accumulatedActiveSec: number;
+  /** 현재 달리고 있는 구간의 시작 시각, 일시정지 중이면 null */
+  activeSinceMs: number | null;
+}
+
+export interface VoiceCoachingProgress {
+  distance: number; // 누적 거리 (미터)
+  /** 순간 페이스 (초/km), 측정 전이면 null */
+  currentPaceSec: number | null;
+  nowMs?: number;
+}
+
+/**
+ * Voice Coaching Service
+ */
+export class VoiceCoachingService {
+  private static instance: VoiceCoachingService;
+  private session: VoiceCoachingSession | null = null;
+  private hasLoadedSession = false;
+  private queue: Promise<void> = Promise.resolve();
+
+  private constructor() {}
+
+  static getInstance(): VoiceCoachingService {
+    if (!VoiceCoachingService.instance) {
+      VoiceCoachingService.instance = new VoiceCoachingService();
+    }
+    return VoiceCoachingService.instance;
+  }
+
+  /**
+   * 러닝 시작 시 세션 생성 (설정이 꺼져 있으면 기존 세션만 정리)
+   */
+  startSession(
+    settings: VoiceCoachingSettings,
+    distanceUnit: DistanceUnit,
+    nowMs: number = Date.now()
+  ): Promise<void> {
+    return this.enqueue(async () => {
+      if (!settings.enabled) {
+        await this.clearSession();
+        return;
+      }
+
+      await this.saveSession({
+        engine: createVoiceCoachingState(settings, distanceUnit),
+        accumulatedActiveSec: 0,
+        activeSinceMs: nowMs,
+      });
+      console.log('[VoiceCoaching] Session started');
+    });
+  }
+
+  pauseSession(nowMs: number = Date.now()): Promise<void> {
+    return this.enqueue(async () => {
+      const session = await this.loadSession();
+      if (!session || session.activeSinceMs === null) return;
+
+      await this.saveSession({
+        ...session,
+        accumulatedActiveSec: this.getElapsedSec(session, nowMs),
+        activeSinceMs: null,
+      });
+    });
+  }
+
+  resumeSession(nowMs: number = Date.now()): Promise<void> {
+    return this.enqueue(async () => {
+      const session = await this.loadSession();
+      if (!session || session.activeSinceMs !== null) return;
+
+      await this.saveSession({ ...session, activeSinceMs: nowMs });
+    });
+  }
+
+  /**
+   * 목표 페이스 교체 (워크아웃 단계별 목표), null이면 이탈 안내 중지
+   */
+  setTargetPace(targetPaceSecondsPerKm: number | null): Promise<void> {
+    return this.enqueue(async () => {
+      const session = await this.loadSession();
+      if (!session) return;
+
+      await this.saveSession({
+        ...session,
+        engine: { ...session.engine, targetPaceSecondsPerKm },
+      });
+    });
+  }
+
+  /**
+   * 목표 페이스를 설정 값으로 되돌림
+   */
+  resetTargetPace(): Promise<void> {
+    return this.enqueue(async () => {
+      const session = await this.loadSession();
+      if (!session) return;
+
+      await this.saveSession({
+        ...session,
+        engine: {
+          ...session.engine,
+          targetPaceSecondsPerKm: session.engine.settings.targetPaceSecondsPerKm,
+        },
+      });
+    });
+  }
+
+  /**
+   * 누적 거리 갱신 → 마일스톤 판정 → 안내
+   */
+  handleProgress({ distance, currentPaceSec, nowMs = Date.now() }: VoiceCoachingProgress): Promise<void> {
+    return this.enqueue(async () => {
+      const session = await this.loadSession();
+      if (!session || session.activeSinceMs === null) return;
+
+      const { state, cues } = evaluateVoiceCoaching(session.engine, {
+        distance,
+        elapsedSec: this.getElapsedSec(session, nowMs),
+        currentPaceSec,
+      });
+      const nextSession = { ...session, engine: state };
+
+      cues.forEach((cue) => this.speakNow(cue, state.settings));
+
+      // 거리만 바뀐 경우는 메모리에만 반영 (1초마다 저장하지 않음)
+      if (cues.length > 0 || state.lastDeviationCheckSec !== session.engine.lastDeviationCheckSec) {
+        await this.saveSession(nextSession);
+      } else {
+        this.session = nextSession;
+      }
+    });
+  }
+
+  /**
+   * 코칭 세션이 진행 중일 때만 문구를 읽어 줌 (워크아웃 단계 전환 등)
+   */
+  speak(message: string): Promise<void> {
+    return this.enqueue(async () => {
+      const session = await this.loadSession();
+      if (!session) return;
+
+      this.speakNow(message, session.engine.settings);
+    });
+  }
+
+  /**
+   * 설정 화면 미리 듣기
+   */
+  preview(settings: VoiceCoachingSettings, distanceUnit: DistanceUnit): void {
+    Speech.stop();
+    this.speakNow(
+      buildDistanceCue(
+        {
+          distance: settings.distanceIntervalMeters,
+          elapsedSec: 330,
+          splitPaceSec: 330,
+          currentPaceSec: 320,
+          averagePaceSec: 330,
+        },
+        settings.distanceIntervalMeters,
+        settings.metrics,
+        settings.language,
+        distanceUnit
+      ),
+      settings
+    );
+  }
+
+  /**
+   * 러닝 종료/초기화 시 세션 정리
+   */
+  endSession(): Promise<void> {
+    return this.enqueue(async () => {
+      Speech.stop();
+      await this.clearSession();
+    });
+  }
+
+  private speakNow(message: string, settings: VoiceCoachingSettings): void {
+    Speech.speak(message, { language: SPEECH_LANGUAGE_CODES[settings.language] });
+  }
+
+  private getElapsedSec(session: VoiceCoachingSession, nowMs: number): number {
+    if (session.activeSinceMs === null) {
+      return session.accumulatedActiveSec;
+    }
+
+    return session.accumulatedActiveSec + Math.max(0, (nowMs - session.activeSinceMs) / 1000);
+  }
+
+  /**
+   * 백그라운드 task가 새 JS 컨텍스트에서 실행되면 저장된 세션을 한 번 읽어 옴
+   */
+  private async loadSession(): Promise<VoiceCoachingSession | null> {
+    if (this.hasLoadedSession) {
+      return this.session;
+    }
+
+    try {
+      const raw = await AsyncStorage.getItem(STORAGE_KEY);
+      this.session = raw ? (JSON.parse(raw) as VoiceCoachingSession) : null;
+    } catch (error) {
+      console.warn('[VoiceCoaching] Failed to load session:', error);
+      this.session = null;
+    }
+    this.hasLoadedSession = true;
+    return this.session;
+  }
+
+  private async saveSession(session: VoiceCoachingSession): Promise<void> {
+    this.session = session;
+    this.hasLoadedSession = true;
+    await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(session));
+  }
+
+  private async clearSession(): Promise<void> {
+    this.session = null;
+    this.hasLoadedSession = true;
+    await AsyncStorage.removeItem(STORAGE_KEY);
+  }
+
+  /**
+   * foreground tick과 백그라운드 task가 동시에 들어와도 순서대로 처리
+   */
+  private enqueue(task: () => Promise<void>): Promise<void> {
+    const run = this.queue.then(task).catch((error) => {
+      console.warn('[VoiceCoaching] Task failed:', error);
+    });
+    this.queue = run;
+    return run;
+  }
+}
+
+export const voiceCoachingService = VoiceCoachingService.getInstance();
@@ -0,0 +1,43 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { create } from 'zustand';
+import { createJSONStorage, persist } from 'zustand/middleware';
+import { DEFAULT_VOICE_COACHING_SETTINGS, type VoiceCoachingSettings } from '../models';
+
+/**
+ * Voice Coaching Store (Zustand)
+ * 음성 코칭 설정 (안내 간격, 항목, 언어, 목표 페이스)
+ * 실제 음성 출력 여부는 UserPreferences.soundEnabled와 함께 판단
+ */
+interface VoiceCoachingStoreState {
+  settings: VoiceCoachingSettings;
+
+  // Actions
+  updateSettings: (settings: Partial<VoiceCoachingSettings>) => void;
+  reset: () => void;
+}
+
+export const useVoiceCoachingStore = create<VoiceCoachingStoreState>()(
+  persist(
+    (set) => ({
+      settings: DEFAULT_VOICE_COACHING_SETTINGS,
+
+      updateSettings: (settings) =>
+        set((state) => ({ settings: { ...state.settings, ...settings } })),
+
+      reset: () => set({ settings: DEFAULT_VOICE_COACHING_SETTINGS }),
+    }),
+    {
+      name: 'voice-coaching-storage', // AsyncStorage key
+      storage: createJSONStorage(() => AsyncStorage),
+      partialize: (state) => ({ settings: state.settings }),
+      // 새로 추가된 설정 항목은 기본값으로 채움
+      merge: (persisted, current) => ({
+        ...current,
+        settings: {
+          ...current.settings,
+          ...(persisted as Partial<VoiceCoachingStoreState> | undefined)?.settings,
+        },
+      }),
+    }
+  )
+);
@@ -0,0 +1,366 @@
+import { Ionicons } from '@expo/vector-icons';
+import { router } from 'expo-router';
+import React, { useState } from 'react';
+import { ScrollView, StyleSheet, Switch, TextInput, TouchableOpacity, View } from 'react-native';
+import {
+  formatWorkoutDistance,
+  formatWorkoutPaceInput,
+  parseWorkoutPaceInput,
+} from '~/features/workout/models';
+import { TopScreenSafeAreaView } from '~/shared/components';
+import { Text } from '~/shared/components/typography';
+import { useDistanceUnit } from '~/shared/hooks';
+import { GREY, PRIMARY, RED } from '~/shared/styles';
+import { useUserStore } from '~/stores/user/userStore';
+import {
+  DISTANCE_INTERVAL_OPTIONS,
+  TIME_INTERVAL_OPTIONS,
+  VOICE_COACHING_METRICS,
+  type VoiceCoachingLanguage,
+  type VoiceCoachingMetric,
+} from '../models';
+import { voiceCoachingService } from '../services/VoiceCoachingService';
+import { useVoiceCoachingStore } from '../stores/voiceCoachingStore';
+
+const METRIC_LABELS: Record<VoiceCoachingMetric, string> = {
+  splitPace: '구간 페이스',
+  currentPace: '현재 페이스',
+  averagePace: '평균 페이스',
+  elapsedTime: '경과 시간',
+  distance: '누적 거리',
+};
+
+const LANGUAGE_LABELS: Record<VoiceCoachingLanguage, string> = {
+  ko: '한국어',
+  en: 'English',
+};
+
+const formatTimeOption = (seconds: number) => (seconds === 0 ? '끔' : `${seconds / 60}분`);
+
+/**
+ * 음성 코칭 설정 화면
+ * 안내 간격, 안내 항목, 언어, 목표 페이스
+ */
+export const VoiceCoachingSettingsView: React.FC = () => {
+  const settings = useVoiceCoachingStore((state) => state.settings);
+  const updateSettings = useVoiceCoachingStore((state) => state.updateSettings);
+  const soundEnabled = useUserStore((state) => state.userPreferences.soundEnabled);
+  const { unit, paceLabel, convertPace } = useDistanceUnit();
+
+  const [targetPace, setTargetPace] = useState(
+    settings.targetPaceSecondsPerKm !== null
+      ? formatWorkoutPaceInput(settings.targetPaceSecondsPerKm, unit)
+      : ''
+  );
+  const [targetPaceError, setTargetPaceError] = useState<string | null>(null);
+
+  const handleToggleMetric = (metric: VoiceCoachingMetric) => {
+    const metrics = settings.metrics.includes(metric)
+      ? settings.metrics.filter((item) => item !== metric)
+      : VOICE_COACHING_METRICS.filter((item) => item === metric || settings.metrics.includes(item));
+    updateSettings({ metrics });
+  };
+
+  // 입력을 마칠 때 저장, 비우면 목표 페이스 안내를 끔
+  const handleTargetPaceSubmit = () => {
+    if (targetPace.trim().length === 0) {
+      setTargetPaceError(null);
+      updateSettings({ targetPaceSecondsPerKm: null });
+      return;
+    }
+
+    const secondsPerKm = parseWorkoutPaceInput(targetPace, unit);
+    if (secondsPerKm === null || secondsPerKm <= 0) {
+      setTargetPaceError('목표 페이스는 분:초 형식으로 입력해주세요. (예: 5:30)');
+      return;
+    }
+
+    setTargetPaceError(null);
+    setTargetPace(formatWorkoutPaceInput(secondsPerKm, unit));
+    updateSettings({ targetPaceSecondsPerKm: secondsPerKm });
+  };
+
+  return (
+    <TopScreenSafeAreaView style={styles.container}>
+      {/* 헤더 */}
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => router.back()} style={styles.backButton}>
+          <Ionicons name="chevron-back" size={24} color={GREY[900]} />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>음성 코칭</Text>
+        <View style={styles.headerRight} />
+      </View>
+
+      <ScrollView contentContainerStyle={styles.content} keyboardShouldPersistTaps="handled">
+        <View style={styles.section}>
+          <View style={styles.sectionHeader}>
+            <Text style={styles.sectionTitle}>러닝 중 음성 안내</Text>
+            <Switch
+              testID="voice-coaching-enabled-switch"
+              value={settings.enabled}
+              onValueChange={(enabled) => updateSettings({ enabled })}
+              trackColor={{ false: GREY[200], true: PRIMARY[600] }}
+            />
+          </View>
+          {!soundEnabled ? (
+            <Text style={styles.helperText}>앱 소리 설정이 꺼져 있어 음성 안내가 재생되지 않습니다.</Text>
+          ) : null}
+        </View>
+
+        {settings.enabled ? (
+          <>
+            <View style={styles.section}>
+              <Text style={styles.sectionTitle}>거리 안내 간격</Text>
+              <View style={styles.chipRow}>
+                {DISTANCE_INTERVAL_OPTIONS.map((meters) => (
+                  <OptionChip
+                    key={meters}
+                    testID={`voice-coaching-distance-${meters}`}
+                    label={formatWorkoutDistance(meters, unit)}
+                    selected={settings.distanceIntervalMeters === meters}
+                    onPress={() => updateSettings({ distanceIntervalMeters: meters })}
+                  />
+                ))}
+              </View>
+            </View>
+
+            <View style={styles.section}>
+              <Text style={styles.sectionTitle}>시간 안내 간격</Text>
+              <View style={styles.chipRow}>
+                {TIME_INTERVAL_OPTIONS.map((seconds) => (
+                  <OptionChip
+                    key={seconds}
+                    testID={`voice-coaching-time-${seconds}`}
+                    label={formatTimeOption(seconds)}
+                    selected={settings.timeIntervalSec === seconds}
+                    onPress={() => updateSettings({ timeIntervalSec: seconds })}
+                  />
+                ))}
+              </View>
+            </View>
+
+            <View style={styles.section}>
+              <Text style={styles.sectionTitle}>안내 항목</Text>
+              <View style={styles.chipRow}>
+                {VOICE_COACHING_METRICS.map((metric) => (
+                  <OptionChip
+                    key={metric}
+                    testID={`voice-coaching-metric-${metric}`}
+                    label={METRIC_LABELS[metric]}
+                    selected={settings.metrics.includes(metric)}
+                    onPress={() => handleToggleMetric(metric)}
+                  />
+                ))}
+              </View>
+            </View>
+
+            <View style={styles.section}>
+              <Text style={styles.sectionTitle}>언어</Text>
+              <View style={styles.chipRow}>
+                {(Object.keys(LANGUAGE_LABELS) as VoiceCoachingLanguage[]).map((language) => (
+                  <OptionChip
+                    key={language}
+                    testID={`voice-coaching-language-${language}`}
+                    label={LANGUAGE_LABELS[language]}
+                    selected={settings.language === language}
+                    onPress={() => updateSettings({ language })}
+                  />
+                ))}
+              </View>
+            </View>
+
+            <View style={styles.section}>
+              <Text style={styles.sectionTitle}>목표 페이스 (분:초{paceLabel})</Text>
+              <TextInput
+                testID="voice-coaching-target-pace-input"
+                style={styles.input}
+                placeholder="없음"
+                placeholderTextColor={GREY[300]}
+                value={targetPace}
+                onChangeText={setTargetPace}
+                onEndEditing={handleTargetPaceSubmit}
+                onSubmitEditing={handleTargetPaceSubmit}
+                keyboardType="numbers-and-punctuation"
+                returnKeyType="done"
+              />
+              {targetPaceError ? <Text style={styles.errorText}>{targetPaceError}</Text> : null}
+              <Text style={styles.helperText}>
+                목표보다 {Math.round(convertPace(settings.paceDeviationThresholdSec))}초 이상 빠르거나 느리면 알려 드립니다.
+                워크아웃 중에는 단계별 목표 페이스를 따릅니다.
+              </Text>
+            </View>
+
+            <TouchableOpacity
+              testID="voice-coaching-preview-button"
+              style={styles.previewButton}
+              onPress={() => voiceCoachingService.preview(settings, unit)}
+              activeOpacity={0.7}
+            >
+              <Ionicons name="volume-high-outline" size={20} color={GREY.WHITE} />
+              <Text style={styles.previewButtonText}>미리 듣기</Text>
+            </TouchableOpacity>
+          </>
+        ) : null}
+      </ScrollView>
+    </TopScreenSafeAreaView>
+  );
+};
+
+// OptionChip Component
+interface OptionChipProps {
+  testID: string;
+  label: string;
+  selected: boolean;
+  onPress: () => void;
+}
+
+const OptionChip: React.FC<OptionChipProps> = ({ testID, label, selected, onPress }) => (
+  <TouchableOpacity
+    testID={testID}
+    style={[styles.chip, selected && styles.chipSelected]}
+    onPress={onPress}
+    accessibilityState={{ selected }}
+  >
+    <Text style={[styles.chipText, selected && styles.chipTextSelected]}>{label}</Text>
+  </TouchableOpacity>
+);
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: GREY[50],
+  },
+
+  // ===== 헤더 =====
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingVertical: 16,
+    height: 56,
+    backgroundColor: GREY[50],
+  },
+  backButton: {
+    width: 24,
+    height: 24,
+    justifyContent: 'center',
+    alignItems: 'flex-start',
+  },
+  headerTitle: {
+    fontSize: 16,
+    fontWeight: '500',
+    color: GREY[900],
+    fontFamily: 'Pretendard',
+    lineHeight: 24,
+  },
+  headerRight: {
+    width: 24,
+    height: 24,
+  },
+
+  // ===== 메인 컨텐츠 =====
+  content: {
+    paddingHorizontal: 20,
+    paddingTop: 12,
+    paddingBottom: 40,
+  },
+
+  // ===== 섹션 =====
+  section: {
+    marginBottom: 12,
+    padding: 14,
+    borderRadius: 8,
+    backgroundColor: GREY.WHITE,
+    gap: 10,
+  },
+  sectionHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  sectionTitle: {
+    fontSize: 14,
+    fontWeight: '700',
+    color: GREY[900],
+    fontFamily: 'Pretendard',
+    lineHeight: 20,
+  },
+  helperText: {
+    fontSize: 12,
+    fontWeight: '400',
+    color: GREY[500],
+    fontFamily: 'Pretendard',
+    lineHeight: 16,
+  },
+
+  // ===== 선택 칩 =====
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    height: 32,
+    paddingHorizontal: 12,
+    borderRadius: 6,
+    borderWidth: 1,
+    borderColor: GREY[200],
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  chipSelected: {
+    borderColor: PRIMARY[600],
+    backgroundColor: PRIMARY[50],
+  },
+  chipText: {
+    fontSize: 13,
+    fontWeight: '500',
+    color: GREY[600],
+  },
+  chipTextSelected: {
+    color: PRIMARY[900],
+    fontWeight: '700',
+  },
+
+  // ===== 입력 필드 =====
+  input: {
+    height: 48,
+    backgroundColor: GREY.WHITE,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: GREY[200],
+    paddingHorizontal: 16,
+    fontSize: 14,
+    fontWeight: '400',
+    color: GREY[900],
+    fontFamily: 'Pretendard',
+    lineHeight: 20,
+  },
+  errorText: {
+    fontSize: 12,
+    fontWeight: '400',
+    color: RED[400],
+    fontFamily: 'Pretendard',
+    lineHeight: 16,
+  },
+
+  // ===== 미리 듣기 버튼 =====
+  previewButton: {
+    height: 56,
+    flexDirection: 'row',
+    gap: 6,
+    backgroundColor: PRIMARY[600],
+    borderRadius: 8,
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginTop: 12,
+  },
+  previewButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: GREY.WHITE,
+    fontFamily: 'Pretendard',
+    lineHeight: 24,
+  },
+});
@@ -0,0 +1 @@
+export { VoiceCoachingSettingsView } from './VoiceCoachingSettingsView';
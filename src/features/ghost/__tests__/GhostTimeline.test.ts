@@ -0,0 +1,135 @@
+import {
+  calculateGhostGap,
+  createGhostTimelineFromSegments,
+  createPaceGhostTimeline,
+  extractFastestGhostTimeline,
+  formatGhostDistanceGap,
+  formatGhostTimeGap,
+  getGhostDistanceAt,
+  getGhostElapsedAt,
+  getGhostPacerLabel,
+  getGhostSpeedAt,
+  type GhostTimelineSegment,
+} from '~/features/ghost/models';
+import { DistanceUnit } from '~/stores/user/userStore';
+
+const createSegments = (durations: number[], distance = 100): GhostTimelineSegment[] =>
+  durations.map((durationSec, orderIndex) => ({ distance, durationSec, orderIndex }));
+
+describe('Ghost timeline', () => {
+  it('moves a target pace ghost at a constant speed', () => {
+    const timeline = createPaceGhostTimeline(300); // 5:00/km
+
+    expect(getGhostDistanceAt(timeline, 150)).toBeCloseTo(500);
+    expect(getGhostElapsedAt(timeline, 2000)).toBeCloseTo(600);
+    expect(getGhostSpeedAt(timeline, 10)).toBeCloseTo(12);
+  });
+
+  it('replays segments in order and interpolates inside a segment', () => {
+    const timeline = createGhostTimelineFromSegments([
+      { distance: 100, durationSec: 40, orderIndex: 1 },
+      { distance: 100, durationSec: 20, orderIndex: 0 },
+      { distance: 0, durationSec: 5, orderIndex: 2 },
+    ]);
+
+    expect(timeline).toEqual({
+      type: 'TRACK',
+      points: [
+        { elapsedSec: 0, distance: 0 },
+        { elapsedSec: 20, distance: 100 },
+        { elapsedSec: 60, distance: 200 },
+      ],
+    });
+    expect(getGhostDistanceAt(timeline, 10)).toBeCloseTo(50);
+    expect(getGhostDistanceAt(timeline, 40)).toBeCloseTo(150);
+    expect(getGhostElapsedAt(timeline, 150)).toBeCloseTo(40);
+    expect(getGhostSpeedAt(timeline, 30)).toBeCloseTo(9);
+  });
+
+  it('stops the ghost at the end of the recorded run', () => {
+    const timeline = createGhostTimelineFromSegments(createSegments([30, 30]));
+
+    expect(getGhostDistanceAt(timeline, 120)).toBe(200);
+    expect(getGhostSpeedAt(timeline, 120)).toBe(0);
+    expect(getGhostElapsedAt(timeline, 250)).toBeNull();
+  });
+
+  describe('calculateGhostGap', () => {
+    const timeline = createPaceGhostTimeline(300);
+
+    it('reports metres and seconds ahead of the ghost', () => {
+      // 60초에 고스트는 200m, 러너는 250m → 고스트는 75초에 250m 도착
+      const gap = calculateGhostGap(timeline, { elapsedSec: 60, distance: 250 });
+
+      expect(gap.ghostDistance).toBeCloseTo(200);
+      expect(gap.distanceGap).toBeCloseTo(50);
+      expect(gap.timeGap).toBeCloseTo(15);
+      expect(gap.status).toBe('AHEAD');
+      expect(formatGhostDistanceGap(gap)).toBe('50m 앞');
+      expect(formatGhostTimeGap(gap)).toBe('+0:15');
+    });
+
+    it('reports metres and seconds behind the ghost', () => {
+      const gap = calculateGhostGap(timeline, { elapsedSec: 120, distance: 300 });
+
+      expect(gap.distanceGap).toBeCloseTo(-100);
+      expect(gap.timeGap).toBeCloseTo(-30);
+      expect(gap.status).toBe('BEHIND');
+      expect(formatGhostDistanceGap(gap)).toBe('100m 뒤');
+      expect(formatGhostTimeGap(gap)).toBe('-0:30');
+    });
+
+    it('treats a gap within GPS noise as running side by side', () => {
+      const gap = calculateGhostGap(timeline, { elapsedSec: 60, distance: 201 });
+
+      expect(gap.status).toBe('EVEN');
+      expect(formatGhostDistanceGap(gap)).toBe('나란히');
+    });
+
+    it('drops the time gap once the runner passes the end of a replay', () => {
+      const replay = createGhostTimelineFromSegments(createSegments([30, 30]));
+      const gap = calculateGhostGap(replay, { elapsedSec: 90, distance: 260 });
+
+      expect(gap.isGhostFinished).toBe(true);
+      expect(gap.distanceGap).toBeCloseTo(60);
+      expect(gap.timeGap).toBeNull();
+      expect(formatGhostTimeGap(gap)).toBeNull();
+    });
+  });
+
+  describe('extractFastestGhostTimeline', () => {
+    it('keeps only the fastest window and restarts it from zero', () => {
+      // 100m 구간: 40초, 30초, 20초, 40초 → 가장 빠른 200m는 2~3번째 구간 (50초)
+      const timeline = createGhostTimelineFromSegments(createSegments([40, 30, 20, 40]));
+      const fastest = extractFastestGhostTimeline(timeline, 200);
+
+      expect(fastest).toEqual({
+        type: 'TRACK',
+        points: [
+          { elapsedSec: 0, distance: 0 },
+          { elapsedSec: 30, distance: 100 },
+          { elapsedSec: 50, distance: 200 },
+        ],
+      });
+    });
+
+    it('returns null when the run is shorter than the target distance', () => {
+      const timeline = createGhostTimelineFromSegments(createSegments([30]));
+
+      expect(extractFastestGhostTimeline(timeline, 1000)).toBeNull();
+      expect(extractFastestGhostTimeline(createPaceGhostTimeline(300), 1000)).toBeNull();
+    });
+  });
+
+  it('labels each ghost source', () => {
+    expect(getGhostPacerLabel({ type: 'TARGET_PACE', paceSecondsPerKm: 330 })).toBe(
+      '목표 페이스 5:30 /km'
+    );
+    expect(
+      getGhostPacerLabel(
+        { type: 'PERSONAL_RECORD', recordId: 1, effortKey: '5k', durationSec: 1450 },
+        DistanceUnit.KILOMETER
+      )
+    ).toBe('5km 최고 기록 24 분 10 초');
+  });
+});
@@ -0,0 +1,88 @@
+import { renderHook } from '@testing-library/react-native';
+import { useGhostPacer, type UseGhostPacerProps } from '~/features/ghost/hooks/useGhostPacer';
+import { createPaceGhostTimeline } from '~/features/ghost/models';
+import { useGhostPacerStore } from '~/features/ghost/stores/ghostPacerStore';
+import { RunningState } from '~/stores/app/appStore';
+import { resetAllStores } from '~/test-utils/resetState';
+
+const mockSpawnGhost = jest.fn();
+const mockSetGhostPosition = jest.fn();
+const mockDespawnGhost = jest.fn();
+
+jest.mock('~/features/unity/services/UnityService', () => ({
+  unityService: {
+    spawnGhost: (...args: unknown[]) => mockSpawnGhost(...args),
+    setGhostPosition: (...args: unknown[]) => mockSetGhostPosition(...args),
+    despawnGhost: (...args: unknown[]) => mockDespawnGhost(...args),
+  },
+}));
+
+const createProps = (overrides?: Partial<UseGhostPacerProps>): UseGhostPacerProps => ({
+  isUnityReady: true,
+  runningState: RunningState.Running,
+  distance: 0,
+  elapsedTime: 0,
+  ...overrides,
+});
+
+describe('useGhostPacer', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    resetAllStores();
+  });
+
+  it('stays idle without a selected ghost', () => {
+    const { result } = renderHook(() => useGhostPacer(createProps({ elapsedTime: 10 })));
+
+    expect(result.current).toEqual({ ghostPacerLabel: null, ghostGap: null });
+    expect(mockSpawnGhost).not.toHaveBeenCalled();
+  });
+
+  it('spawns, moves and despawns the ghost over the run', () => {
+    useGhostPacerStore.getState().selectGhost({
+      source: { type: 'TARGET_PACE', paceSecondsPerKm: 300 },
+      timeline: createPaceGhostTimeline(300),
+    });
+
+    const { result, rerender } = renderHook((props: UseGhostPacerProps) => useGhostPacer(props), {
+      initialProps: createProps(),
+    });
+
+    expect(result.current.ghostPacerLabel).toBe('목표 페이스 5:00 /km');
+    expect(mockSpawnGhost).toHaveBeenCalledTimes(1);
+
+    // 60초에 고스트는 200m, 러너는 170m → 고스트가 30m 앞
+    rerender(createProps({ distance: 170, elapsedTime: 60 }));
+    expect(result.current.ghostGap?.status).toBe('BEHIND');
+    expect(mockSetGhostPosition).toHaveBeenLastCalledWith(
+      expect.closeTo(30),
+      expect.closeTo(12)
+    );
+
+    // 일시정지 중에는 제자리에 멈춤
+    rerender(createProps({ runningState: RunningState.Paused, distance: 170, elapsedTime: 60 }));
+    expect(mockSetGhostPosition).toHaveBeenLastCalledWith(expect.closeTo(30), 0);
+    expect(mockSpawnGhost).toHaveBeenCalledTimes(1);
+
+    rerender(createProps({ runningState: RunningState.Finished, distance: 170, elapsedTime: 60 }));
+    expect(result.current).toEqual({ ghostPacerLabel: null, ghostGap: null });
+    expect(mockDespawnGhost).toHaveBeenCalledTimes(1);
+  });
+
+  it('spawns the ghost once Unity becomes ready mid-run', () => {
+    useGhostPacerStore.getState().selectGhost({
+      source: { type: 'TARGET_PACE', paceSecondsPerKm: 300 },
+      timeline: createPaceGhostTimeline(300),
+    });
+
+    const { result, rerender } = renderHook((props: UseGhostPacerProps) => useGhostPacer(props), {
+      initialProps: createProps({ isUnityReady: false }),
+    });
+
+    expect(result.current.ghostGap).not.toBeNull();
+    expect(mockSpawnGhost).not.toHaveBeenCalled();
+
+    rerender(createProps({ isUnityReady: true, elapsedTime: 1 }));
+    expect(mockSpawnGhost).toHaveBeenCalledTimes(1);
+  });
+});
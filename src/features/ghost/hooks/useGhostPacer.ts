@@ -0,0 +1,115 @@
+/**
+ * useGhostPacer Hook
+ *
+ * 선택된 고스트 페이서를 러닝과 함께 진행
+ *
+ * 책임:
+ * - Running 진입 시 선택된 고스트 타임라인 고정 (러닝 중 설정을 바꿔도 영향 없음)
+ * - 1초 tick마다 러너와의 거리/시간 차이 계산
+ * - Unity 고스트 캐릭터 생성/위치 갱신/제거 (일시정지 중에는 제자리에 멈춤)
+ */
+
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { unityService } from '~/features/unity/services/UnityService';
+import { RunningState } from '~/stores/app/appStore';
+import { useUserStore } from '~/stores/user/userStore';
+import {
+  calculateGhostGap,
+  getGhostPacerLabel,
+  getGhostSpeedAt,
+  type GhostGap,
+  type GhostPacerSelection,
+  type GhostPacerSource,
+} from '../models';
+import { useGhostPacerStore } from '../stores/ghostPacerStore';
+
+export interface UseGhostPacerProps {
+  isUnityReady: boolean;
+  runningState: RunningState;
+  distance: number;
+  elapsedTime: number;
+}
+
+export interface UseGhostPacerReturn {
+  ghostPacerLabel: string | null;
+  ghostGap: GhostGap | null;
+}
+
+export const useGhostPacer = ({
+  isUnityReady,
+  runningState,
+  distance,
+  elapsedTime,
+}: UseGhostPacerProps): UseGhostPacerReturn => {
+  const distanceUnit = useUserStore((state) => state.userPreferences.distanceUnit);
+  const activeRef = useRef<GhostPacerSelection | null>(null);
+  const isSpawnedRef = useRef(false);
+  const [activeSource, setActiveSource] = useState<GhostPacerSource | null>(null);
+  const [ghostGap, setGhostGap] = useState<GhostGap | null>(null);
+
+  const distanceRef = useRef(distance);
+
+  useEffect(() => {
+    distanceRef.current = distance;
+  }, [distance]);
+
+  // 1초 tick(elapsedTime)과 상태 전환에만 반응, 거리는 최신 값을 ref로 읽음
+  useEffect(() => {
+    const isActiveRun =
+      runningState === RunningState.Running || runningState === RunningState.Paused;
+
+    if (isActiveRun && !activeRef.current) {
+      const selection = useGhostPacerStore.getState().selection;
+      if (!selection) return;
+
+      activeRef.current = selection;
+      setActiveSource(selection.source);
+    }
+
+    const active = activeRef.current;
+    if (!isActiveRun || !active) {
+      activeRef.current = null;
+      setActiveSource(null);
+      setGhostGap(null);
+      if (isSpawnedRef.current) {
+        isSpawnedRef.current = false;
+        void unityService.despawnGhost();
+      }
+      return;
+    }
+
+    const gap = calculateGhostGap(active.timeline, {
+      elapsedSec: elapsedTime,
+      distance: distanceRef.current,
+    });
+    setGhostGap(gap);
+
+    if (!isUnityReady) return;
+    if (!isSpawnedRef.current) {
+      isSpawnedRef.current = true;
+      void unityService.spawnGhost();
+    }
+    void unityService.setGhostPosition(
+      -gap.distanceGap,
+      runningState === RunningState.Running ? getGhostSpeedAt(active.timeline, elapsedTime) : 0
+    );
+  }, [isUnityReady, runningState, elapsedTime]);
+
+  // 러닝 화면을 벗어나면 고스트 제거
+  useEffect(
+    () => () => {
+      if (isSpawnedRef.current) {
+        isSpawnedRef.current = false;
+        void unityService.despawnGhost();
+      }
+    },
+    []
+  );
+
+  const ghostPacerLabel = useMemo(
+    () => (activeSource ? getGhostPacerLabel(activeSource, distanceUnit) : null),
+    [activeSource, distanceUnit]
+  );
+
+  return { ghostPacerLabel, ghostGap };
+};
@@ -0,0 +1,78 @@
+/**
+ * Ghost Pacer
+ * 러닝 중 함께 달리는 고스트 캐릭터 설정과 표시 문자열
+ */
+
+import {
+  formatPersonalBestValue,
+  getPersonalBestLabel,
+  type BestEffortKey,
+} from '~/features/statistics/models';
+import { formatDistance, formatPace } from '~/shared/utils/unitFormatters';
+import { DistanceUnit } from '~/stores/user/userStore';
+import type { GhostGap, GhostTimeline } from './GhostTimeline';
+
+/**
+ * 고스트가 따라 달리는 대상
+ * - TARGET_PACE: 목표 페이스
+ * - REPLAY: 지난 러닝 전체 재생
+ * - PERSONAL_RECORD: 구간 최고 기록(1km/5km/…)을 세운 구간만 재생
+ */
+export type GhostPacerSource =
+  | { type: 'TARGET_PACE'; paceSecondsPerKm: number }
+  | { type: 'REPLAY'; recordId: number; startTimestamp: number; distance: number }
+  | { type: 'PERSONAL_RECORD'; recordId: number; effortKey: BestEffortKey; durationSec: number };
+
+/**
+ * 다음 러닝에 사용할 고스트
+ * 오프라인으로 시작해도 재생할 수 있도록 선택할 때 타임라인까지 만들어 저장한다.
+ */
+export interface GhostPacerSelection {
+  source: GhostPacerSource;
+  timeline: GhostTimeline;
+}
+
+export const DEFAULT_GHOST_PACE_SECONDS_PER_KM = 360;
+export const MIN_GHOST_PACE_SECONDS_PER_KM = 180;
+export const MAX_GHOST_PACE_SECONDS_PER_KM = 900;
+export const GHOST_PACE_STEP_SECONDS = 5;
+
+/**
+ * 고스트 이름 (예: "목표 페이스 6:00 /km", "10월 12일 러닝 5.02 km", "5km 최고 기록 24 분 10 초")
+ */
+export const getGhostPacerLabel = (
+  source: GhostPacerSource,
+  unit: DistanceUnit = DistanceUnit.KILOMETER
+): string => {
+  switch (source.type) {
+    case 'TARGET_PACE':
+      return `목표 페이스 ${formatPace(source.paceSecondsPerKm / 60, unit, { withUnit: true })}`;
+    case 'REPLAY': {
+      const date = new Date(source.startTimestamp * 1000);
+      return `${date.getMonth() + 1}월 ${date.getDate()}일 러닝 ${formatDistance(source.distance, unit)}`;
+    }
+    case 'PERSONAL_RECORD':
+      return `${getPersonalBestLabel(source.effortKey)} ${formatPersonalBestValue(source.effortKey, source.durationSec, unit)}`;
+  }
+};
+
+/**
+ * 고스트와의 거리 차이 (예: "12m 앞", "8m 뒤", "나란히")
+ */
+export const formatGhostDistanceGap = (gap: GhostGap): string => {
+  if (gap.status === 'EVEN') return '나란히';
+  const meters = Math.round(Math.abs(gap.distanceGap));
+  return gap.status === 'AHEAD' ? `${meters}m 앞` : `${meters}m 뒤`;
+};
+
+/**
+ * 고스트와의 시간 차이 (예: "+0:12", "-1:05"), 비교할 수 없으면 null
+ * 양수면 러너가 앞섬
+ */
+export const formatGhostTimeGap = (gap: GhostGap): string | null => {
+  if (gap.timeGap === null) return null;
+  const rounded = Math.round(gap.timeGap);
+  const seconds = Math.abs(rounded);
+  const sign = rounded > 0 ? '+' : rounded < 0 ? '-' : '';
+  return `${sign}${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+};
@@ -0,0 +1,244 @@
+/**
+ * Ghost Timeline
+ * 고스트 페이서가 러닝 시작 후 몇 초에 몇 m 지점에 있는지 계산하는 순수 모델
+ *
+ * - PACE: 목표 페이스로 끝없이 일정하게 달림
+ * - TRACK: 지난 러닝(또는 PR 구간)의 10m 세그먼트를 누적한 기록을 그대로 재생
+ *   기록이 끝나면 마지막 지점에 멈춰 선다 (isFinished)
+ */
+
+/**
+ * 누적 시간/거리 한 지점
+ */
+export interface GhostTimelinePoint {
+  elapsedSec: number;
+  distance: number; // 미터
+}
+
+export type GhostTimeline =
+  | { type: 'PACE'; paceSecondsPerKm: number }
+  | { type: 'TRACK'; points: GhostTimelinePoint[] };
+
+/**
+ * 타임라인 생성에 필요한 세그먼트 필드
+ * (로컬 RunningRecordItem, 서버 RunningRecordItemResponse 모두 사용 가능)
+ */
+export interface GhostTimelineSegment {
+  distance: number; // 미터
+  durationSec: number;
+  orderIndex: number;
+}
+
+/**
+ * 러너 대비 고스트 위치
+ * distanceGap/timeGap 모두 양수면 러너가 앞섬
+ */
+export interface GhostGap {
+  ghostDistance: number;
+  distanceGap: number; // 미터
+  /** 고스트가 러너 위치에 도착하는 시각 - 러너 경과 시간 (초), 고스트 기록보다 멀리 가면 null */
+  timeGap: number | null;
+  status: GhostGapStatus;
+  isGhostFinished: boolean;
+}
+
+export type GhostGapStatus = 'AHEAD' | 'EVEN' | 'BEHIND';
+
+// 이 거리 안이면 나란히 달리는 것으로 본다 (GPS 오차 수준)
+export const GHOST_EVEN_THRESHOLD_METERS = 2;
+
+// 부동소수점 누적 오차로 경계를 놓치지 않기 위한 허용치 (미터)
+const GHOST_TIMELINE_EPSILON = 1e-6;
+
+/**
+ * 목표 페이스 타임라인
+ */
+export const createPaceGhostTimeline = (paceSecondsPerKm: number): GhostTimeline => ({
+  type: 'PACE',
+  paceSecondsPerKm,
+});
+
+/**
+ * 세그먼트 → 누적 타임라인 (orderIndex 순, 거리 0 이하 세그먼트 제외)
+ */
+export const createGhostTimelineFromSegments = (
+  segments: readonly GhostTimelineSegment[]
+): GhostTimeline => {
+  const ordered = segments
+    .filter((segment) => Number.isFinite(segment.distance) && segment.distance > 0)
+    .sort((a, b) => a.orderIndex - b.orderIndex);
+
+  const points: GhostTimelinePoint[] = [{ elapsedSec: 0, distance: 0 }];
+  for (const segment of ordered) {
+    const last = points[points.length - 1]!;
+    const durationSec = Number.isFinite(segment.durationSec) ? Math.max(0, segment.durationSec) : 0;
+    points.push({
+      elapsedSec: last.elapsedSec + durationSec,
+      distance: last.distance + segment.distance,
+    });
+  }
+
+  return { type: 'TRACK', points };
+};
+
+/**
+ * 정렬된 points에서 from 값(시간 또는 거리)에 해당하는 나머지 값을 선형 보간
+ * from 값이 범위를 벗어나면 양 끝 값으로 고정
+ */
+const interpolate = (
+  points: readonly GhostTimelinePoint[],
+  value: number,
+  from: 'elapsedSec' | 'distance'
+): number => {
+  const to = from === 'distance' ? 'elapsedSec' : 'distance';
+  const first = points[0];
+  const last = points[points.length - 1];
+  if (!first || !last) return 0;
+  if (value <= first[from]) return first[to];
+  if (value >= last[from]) return last[to];
+
+  let low = 0;
+  let high = points.length - 1;
+  while (high - low > 1) {
+    const mid = Math.floor((low + high) / 2);
+    if (points[mid]![from] <= value) {
+      low = mid;
+    } else {
+      high = mid;
+    }
+  }
+
+  const start = points[low]!;
+  const end = points[high]!;
+  const span = end[from] - start[from];
+  const ratio = span > 0 ? (value - start[from]) / span : 0;
+  return start[to] + (end[to] - start[to]) * ratio;
+};
+
+/**
+ * TRACK의 전체 거리 (PACE는 끝이 없으므로 null)
+ */
+export const getGhostTotalDistance = (timeline: GhostTimeline): number | null =>
+  timeline.type === 'TRACK' ? (timeline.points[timeline.points.length - 1]?.distance ?? 0) : null;
+
+/**
+ * elapsedSec 시점의 고스트 누적 거리 (미터)
+ */
+export const getGhostDistanceAt = (timeline: GhostTimeline, elapsedSec: number): number => {
+  const time = Math.max(0, elapsedSec);
+  if (timeline.type === 'PACE') {
+    return timeline.paceSecondsPerKm > 0 ? (time / timeline.paceSecondsPerKm) * 1000 : 0;
+  }
+  return interpolate(timeline.points, time, 'elapsedSec');
+};
+
+/**
+ * 고스트가 distance 지점에 도착한 시각 (초), 기록이 그 전에 끝나면 null
+ */
+export const getGhostElapsedAt = (timeline: GhostTimeline, distance: number): number | null => {
+  const target = Math.max(0, distance);
+  if (timeline.type === 'PACE') {
+    return timeline.paceSecondsPerKm > 0 ? (target / 1000) * timeline.paceSecondsPerKm : null;
+  }
+
+  const total = getGhostTotalDistance(timeline) ?? 0;
+  if (target > total + GHOST_TIMELINE_EPSILON) return null;
+  return interpolate(timeline.points, target, 'distance');
+};
+
+/**
+ * elapsedSec 시점의 고스트 속도 (km/h, 멈춰 있으면 0)
+ * TRACK은 해당 시점이 속한 세그먼트의 평균 속도
+ */
+export const getGhostSpeedAt = (timeline: GhostTimeline, elapsedSec: number): number => {
+  if (timeline.type === 'PACE') {
+    return timeline.paceSecondsPerKm > 0 ? 3600 / timeline.paceSecondsPerKm : 0;
+  }
+
+  const { points } = timeline;
+  const index = points.findIndex((point) => point.elapsedSec > elapsedSec);
+  if (index <= 0) return 0;
+
+  const start = points[index - 1]!;
+  const end = points[index]!;
+  const durationSec = end.elapsedSec - start.elapsedSec;
+  return durationSec > 0 ? ((end.distance - start.distance) / durationSec) * 3.6 : 0;
+};
+
+/**
+ * 러너 위치(경과 시간, 누적 거리) 기준 고스트와의 차이
+ */
+export const calculateGhostGap = (
+  timeline: GhostTimeline,
+  runner: { elapsedSec: number; distance: number }
+): GhostGap => {
+  const ghostDistance = getGhostDistanceAt(timeline, runner.elapsedSec);
+  const distanceGap = runner.distance - ghostDistance;
+  const ghostElapsed = getGhostElapsedAt(timeline, runner.distance);
+  const totalDistance = getGhostTotalDistance(timeline);
+
+  return {
+    ghostDistance,
+    distanceGap,
+    timeGap: ghostElapsed !== null ? ghostElapsed - runner.elapsedSec : null,
+    status:
+      Math.abs(distanceGap) < GHOST_EVEN_THRESHOLD_METERS
+        ? 'EVEN'
+        : distanceGap > 0
+          ? 'AHEAD'
+          : 'BEHIND',
+    isGhostFinished:
+      totalDistance !== null && ghostDistance >= totalDistance - GHOST_TIMELINE_EPSILON,
+  };
+};
+
+/**
+ * targetMeters를 가장 빨리 달린 구간만 잘라 0m/0초부터 시작하는 타임라인으로 변환 (PR 재생용)
+ *
+ * 구간 시간은 창 위치에 대해 구간별 선형이므로 (calculateBestEffortDuration과 같은 방식)
+ * 창의 시작 또는 끝이 세그먼트 경계에 걸리는 경우만 비교한다.
+ * 기록이 targetMeters보다 짧으면 null
+ */
+export const extractFastestGhostTimeline = (
+  timeline: GhostTimeline,
+  targetMeters: number
+): GhostTimeline | null => {
+  if (timeline.type !== 'TRACK' || targetMeters <= 0) return null;
+
+  const { points } = timeline;
+  const totalDistance = getGhostTotalDistance(timeline) ?? 0;
+  if (totalDistance < targetMeters - GHOST_TIMELINE_EPSILON) return null;
+
+  const timeAt = (distance: number) => interpolate(points, distance, 'distance');
+  let bestStart = 0;
+  let bestDuration = Infinity;
+
+  const compare = (start: number) => {
+    const duration = timeAt(Math.min(start + targetMeters, totalDistance)) - timeAt(start);
+    if (duration < bestDuration) {
+      bestDuration = duration;
+      bestStart = start;
+    }
+  };
+
+  for (const { distance } of points) {
+    if (distance + targetMeters <= totalDistance + GHOST_TIMELINE_EPSILON) compare(distance);
+    if (distance - targetMeters >= -GHOST_TIMELINE_EPSILON) compare(Math.max(0, distance - targetMeters));
+  }
+
+  const bestEnd = Math.min(bestStart + targetMeters, totalDistance);
+  const startPoint = { elapsedSec: timeAt(bestStart), distance: bestStart };
+  const endPoint = { elapsedSec: timeAt(bestEnd), distance: bestEnd };
+  const inner = points.filter(
+    ({ distance }) =>
+      distance > bestStart + GHOST_TIMELINE_EPSILON && distance < bestEnd - GHOST_TIMELINE_EPSILON
+  );
+
+  return {
+    type: 'TRACK',
+    points: [startPoint, ...inner, endPoint].map((point) => ({
+      elapsedSec: point.elapsedSec - startPoint.elapsedSec,
+      distance: point.distance - startPoint.distance,
+    })),
+  };
+};
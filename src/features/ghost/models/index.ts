@@ -0,0 +1,5 @@
+/**
+ * Ghost Models 통합 Export
+ */
+export * from './GhostTimeline';
+export * from './GhostPacer';
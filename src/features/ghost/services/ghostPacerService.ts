@@ -0,0 +1,77 @@
+import type { RunningRecord } from '~/features/running/models';
+import { runningService } from '~/features/running/services/runningService';
+import {
+  BEST_EFFORT_DISTANCES,
+  type BestEffortKey,
+  type PersonalBestEntry,
+} from '~/features/statistics/models';
+import {
+  createGhostTimelineFromSegments,
+  createPaceGhostTimeline,
+  extractFastestGhostTimeline,
+  type GhostPacerSelection,
+} from '../models';
+
+/**
+ * 고스트 페이서 선택 생성
+ * 지난 러닝/PR은 세그먼트를 받아 재생할 타임라인까지 만든다.
+ */
+export const ghostPacerService = {
+  /**
+   * 목표 페이스 고스트
+   */
+  createPaceSelection: (paceSecondsPerKm: number): GhostPacerSelection => ({
+    source: { type: 'TARGET_PACE', paceSecondsPerKm },
+    timeline: createPaceGhostTimeline(paceSecondsPerKm),
+  }),
+
+  /**
+   * 지난 러닝 전체를 재생하는 고스트
+   */
+  loadReplaySelection: async (record: RunningRecord): Promise<GhostPacerSelection> => {
+    const items = await runningService.getRunningRecordItems(record.id);
+    const timeline = createGhostTimelineFromSegments(items);
+    if (timeline.type !== 'TRACK' || timeline.points.length < 2) {
+      throw new Error('재생할 구간 기록이 없습니다.');
+    }
+
+    return {
+      source: {
+        type: 'REPLAY',
+        recordId: record.id,
+        startTimestamp: record.startTimestamp,
+        distance: timeline.points[timeline.points.length - 1]!.distance,
+      },
+      timeline,
+    };
+  },
+
+  /**
+   * 구간 최고 기록을 세운 구간만 재생하는 고스트
+   */
+  loadPersonalRecordSelection: async (
+    effortKey: BestEffortKey,
+    entry: PersonalBestEntry
+  ): Promise<GhostPacerSelection> => {
+    const distance = BEST_EFFORT_DISTANCES.find(({ key }) => key === effortKey);
+    if (!distance) {
+      throw new Error(`Unknown best effort: ${effortKey}`);
+    }
+
+    const items = await runningService.getRunningRecordItems(entry.recordId);
+    const timeline = extractFastestGhostTimeline(createGhostTimelineFromSegments(items), distance.meters);
+    if (!timeline) {
+      throw new Error('재생할 구간 기록이 없습니다.');
+    }
+
+    return {
+      source: {
+        type: 'PERSONAL_RECORD',
+        recordId: entry.recordId,
+        effortKey,
+        durationSec: entry.value,
+      },
+      timeline,
+    };
+  },
+};
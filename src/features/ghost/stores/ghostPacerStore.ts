@@ -0,0 +1,46 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { create } from 'zustand';
+import { createJSONStorage, persist } from 'zustand/middleware';
+import { DEFAULT_GHOST_PACE_SECONDS_PER_KM, type GhostPacerSelection } from '../models';
+
+/**
+ * Ghost Pacer Store (Zustand)
+ * - 다음 러닝에 함께 달릴 고스트 (null이면 고스트 없이 달리기)
+ * - 목표 페이스 설정 화면이 마지막으로 고른 페이스를 기억
+ */
+interface GhostPacerState {
+  selection: GhostPacerSelection | null;
+  lastPaceSecondsPerKm: number;
+
+  // Actions
+  selectGhost: (selection: GhostPacerSelection | null) => void;
+  setLastPace: (paceSecondsPerKm: number) => void;
+  reset: () => void;
+}
+
+const initialState = {
+  selection: null as GhostPacerSelection | null,
+  lastPaceSecondsPerKm: DEFAULT_GHOST_PACE_SECONDS_PER_KM,
+};
+
+export const useGhostPacerStore = create<GhostPacerState>()(
+  persist(
+    (set) => ({
+      ...initialState,
+
+      selectGhost: (selection) => set({ selection }),
+
+      setLastPace: (paceSecondsPerKm) => set({ lastPaceSecondsPerKm: paceSecondsPerKm }),
+
+      reset: () => set(initialState),
+    }),
+    {
+      name: 'ghost-pacer-storage', // AsyncStorage key
+      storage: createJSONStorage(() => AsyncStorage),
+      partialize: (state) => ({
+        selection: state.selection,
+        lastPaceSecondsPerKm: state.lastPaceSecondsPerKm,
+      }),
+    }
+  )
+);
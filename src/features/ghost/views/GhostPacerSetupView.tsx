@@ -0,0 +1,322 @@
+import { Ionicons } from '@expo/vector-icons';
+import { router } from 'expo-router';
+import React, { useState } from 'react';
+import { ActivityIndicator, Alert, ScrollView, StyleSheet, TouchableOpacity, View } from 'react-native';
+import { formatDuration, type RunningRecord } from '~/features/running/models';
+import { useGetRunningRecords } from '~/features/running/services/runningQueries';
+import { BEST_EFFORT_DISTANCES, type BestEffortKey } from '~/features/statistics/models';
+import { usePersonalRecordStore } from '~/features/statistics/stores/personalRecordStore';
+import { TopScreenSafeAreaView } from '~/shared/components';
+import { Text } from '~/shared/components/typography';
+import { GREY, PRIMARY } from '~/shared/styles';
+import { formatPace } from '~/shared/utils/unitFormatters';
+import { useUserStore } from '~/stores/user/userStore';
+import {
+  GHOST_PACE_STEP_SECONDS,
+  MAX_GHOST_PACE_SECONDS_PER_KM,
+  MIN_GHOST_PACE_SECONDS_PER_KM,
+  getGhostPacerLabel,
+  type GhostPacerSelection,
+} from '../models';
+import { ghostPacerService } from '../services/ghostPacerService';
+import { useGhostPacerStore } from '../stores/ghostPacerStore';
+
+const RECENT_RECORD_COUNT = 10;
+
+/**
+ * 고스트 페이서 설정 화면
+ * 다음 러닝에 함께 달릴 고스트 선택: 목표 페이스 / 개인 기록 / 지난 러닝
+ */
+export const GhostPacerSetupView: React.FC = () => {
+  const distanceUnit = useUserStore((state) => state.userPreferences.distanceUnit);
+  const selection = useGhostPacerStore((state) => state.selection);
+  const lastPaceSecondsPerKm = useGhostPacerStore((state) => state.lastPaceSecondsPerKm);
+  const selectGhost = useGhostPacerStore((state) => state.selectGhost);
+  const setLastPace = useGhostPacerStore((state) => state.setLastPace);
+  const personalBests = usePersonalRecordStore((state) => state.personalBests);
+  const { data: recentRecords, isLoading: isLoadingRecords } = useGetRunningRecords({
+    size: RECENT_RECORD_COUNT,
+  });
+  const [loadingOptionId, setLoadingOptionId] = useState<string | null>(null);
+
+  const source = selection?.source ?? null;
+  const personalRecordOptions = BEST_EFFORT_DISTANCES.flatMap(({ key }) => {
+    const entry = personalBests?.bestEfforts[key];
+    return entry ? [{ key, entry }] : [];
+  });
+  const records = (recentRecords?.content ?? []).filter((record) => record.distance > 0);
+
+  const handleSelect = (next: GhostPacerSelection | null) => {
+    selectGhost(next);
+    router.back();
+  };
+
+  const handleLoad = async (optionId: string, load: () => Promise<GhostPacerSelection>) => {
+    if (loadingOptionId) return;
+
+    setLoadingOptionId(optionId);
+    try {
+      handleSelect(await load());
+    } catch (error) {
+      console.error('❌ [GhostPacerSetupView] 고스트 기록 불러오기 실패:', error);
+      Alert.alert('고스트 페이서', '기록을 불러오지 못했어요. 잠시 후 다시 시도해주세요.');
+    } finally {
+      setLoadingOptionId(null);
+    }
+  };
+
+  const handleChangePace = (delta: number) => {
+    setLastPace(
+      Math.max(
+        MIN_GHOST_PACE_SECONDS_PER_KM,
+        Math.min(MAX_GHOST_PACE_SECONDS_PER_KM, lastPaceSecondsPerKm + delta)
+      )
+    );
+  };
+
+  const handleSelectPersonalRecord = (key: BestEffortKey) => {
+    const entry = personalBests?.bestEfforts[key];
+    if (!entry) return;
+    void handleLoad(`pr-${key}`, () => ghostPacerService.loadPersonalRecordSelection(key, entry));
+  };
+
+  const handleSelectRecord = (record: RunningRecord) => {
+    void handleLoad(`record-${record.id}`, () => ghostPacerService.loadReplaySelection(record));
+  };
+
+  return (
+    <TopScreenSafeAreaView style={styles.container}>
+      {/* 헤더 */}
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => router.back()} style={styles.headerButton}>
+          <Ionicons name="chevron-back" size={24} color={GREY[900]} />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>고스트 페이서</Text>
+        <View style={styles.headerButton} />
+      </View>
+
+      <ScrollView contentContainerStyle={styles.content}>
+        <OptionRow
+          testID="ghost-option-none"
+          title="고스트 없이 달리기"
+          summary="혼자 달려요"
+          isSelected={source === null}
+          onPress={() => handleSelect(null)}
+        />
+
+        {/* 목표 페이스 */}
+        <Text style={styles.sectionTitle}>목표 페이스</Text>
+        <OptionRow
+          testID="ghost-option-pace"
+          title={formatPace(lastPaceSecondsPerKm / 60, distanceUnit, { withUnit: true })}
+          summary="이 페이스로 일정하게 달려요"
+          isSelected={source?.type === 'TARGET_PACE' && source.paceSecondsPerKm === lastPaceSecondsPerKm}
+          onPress={() => handleSelect(ghostPacerService.createPaceSelection(lastPaceSecondsPerKm))}
+          accessory={
+            <View style={styles.stepper}>
+              <TouchableOpacity
+                testID="ghost-pace-faster"
+                onPress={() => handleChangePace(-GHOST_PACE_STEP_SECONDS)}
+                disabled={lastPaceSecondsPerKm <= MIN_GHOST_PACE_SECONDS_PER_KM}
+                style={styles.stepperButton}
+              >
+                <Ionicons name="remove" size={18} color={GREY[900]} />
+              </TouchableOpacity>
+              <TouchableOpacity
+                testID="ghost-pace-slower"
+                onPress={() => handleChangePace(GHOST_PACE_STEP_SECONDS)}
+                disabled={lastPaceSecondsPerKm >= MAX_GHOST_PACE_SECONDS_PER_KM}
+                style={styles.stepperButton}
+              >
+                <Ionicons name="add" size={18} color={GREY[900]} />
+              </TouchableOpacity>
+            </View>
+          }
+        />
+
+        {/* 개인 기록 */}
+        <Text style={styles.sectionTitle}>개인 기록</Text>
+        {personalRecordOptions.map(({ key, entry }) => (
+          <OptionRow
+            key={key}
+            testID={`ghost-option-pr-${key}`}
+            title={getGhostPacerLabel(
+              { type: 'PERSONAL_RECORD', recordId: entry.recordId, effortKey: key, durationSec: entry.value },
+              distanceUnit
+            )}
+            summary="기록을 세운 구간을 그대로 재생해요"
+            isSelected={source?.type === 'PERSONAL_RECORD' && source.effortKey === key}
+            isLoading={loadingOptionId === `pr-${key}`}
+            onPress={() => handleSelectPersonalRecord(key)}
+          />
+        ))}
+        {personalRecordOptions.length === 0 ? (
+          <Text style={styles.emptyText}>통계 화면에서 개인 기록을 확인하면 여기에 표시돼요.</Text>
+        ) : null}
+
+        {/* 지난 러닝 */}
+        <Text style={styles.sectionTitle}>지난 러닝</Text>
+        {records.map((record) => (
+          <OptionRow
+            key={record.id}
+            testID={`ghost-option-record-${record.id}`}
+            title={getGhostPacerLabel(
+              {
+                type: 'REPLAY',
+                recordId: record.id,
+                startTimestamp: record.startTimestamp,
+                distance: record.distance,
+              },
+              distanceUnit
+            )}
+            summary={formatDuration(record.durationSec)}
+            isSelected={source?.type === 'REPLAY' && source.recordId === record.id}
+            isLoading={loadingOptionId === `record-${record.id}`}
+            onPress={() => handleSelectRecord(record)}
+          />
+        ))}
+        {isLoadingRecords ? <ActivityIndicator color={GREY[500]} style={styles.loading} /> : null}
+        {!isLoadingRecords && records.length === 0 ? (
+          <Text style={styles.emptyText}>아직 러닝 기록이 없어요.</Text>
+        ) : null}
+      </ScrollView>
+    </TopScreenSafeAreaView>
+  );
+};
+
+// OptionRow Component
+interface OptionRowProps {
+  testID: string;
+  title: string;
+  summary: string;
+  isSelected: boolean;
+  isLoading?: boolean;
+  onPress: () => void;
+  accessory?: React.ReactNode;
+}
+
+const OptionRow: React.FC<OptionRowProps> = ({
+  testID,
+  title,
+  summary,
+  isSelected,
+  isLoading = false,
+  onPress,
+  accessory,
+}) => {
+  return (
+    <TouchableOpacity
+      testID={testID}
+      style={[styles.row, isSelected && styles.rowSelected]}
+      onPress={onPress}
+      activeOpacity={0.7}
+    >
+      <Ionicons
+        name={isSelected ? 'radio-button-on' : 'radio-button-off'}
+        size={20}
+        color={isSelected ? PRIMARY[900] : GREY[400]}
+      />
+      <View style={styles.rowText}>
+        <Text style={styles.rowTitle}>{title}</Text>
+        <Text style={styles.rowSummary}>{summary}</Text>
+      </View>
+      {isLoading ? <ActivityIndicator color={GREY[500]} /> : accessory}
+    </TouchableOpacity>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: GREY[50],
+  },
+
+  // ===== 헤더 =====
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingVertical: 16,
+    height: 56,
+    backgroundColor: GREY[50],
+  },
+  headerButton: {
+    width: 24,
+    height: 24,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  headerTitle: {
+    fontSize: 16,
+    fontWeight: '500',
+    color: GREY[900],
+    fontFamily: 'Pretendard',
+    lineHeight: 24,
+  },
+
+  // ===== 목록 =====
+  content: {
+    paddingHorizontal: 16,
+    paddingTop: 12,
+    paddingBottom: 40,
+    gap: 8,
+  },
+  sectionTitle: {
+    marginTop: 12,
+    fontSize: 13,
+    fontWeight: '600',
+    color: GREY[700],
+    lineHeight: 18,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    padding: 14,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: GREY[100],
+    backgroundColor: GREY.WHITE,
+  },
+  rowSelected: {
+    borderColor: PRIMARY[600],
+    backgroundColor: PRIMARY[50],
+  },
+  rowText: {
+    flex: 1,
+    gap: 2,
+  },
+  rowTitle: {
+    fontSize: 15,
+    fontWeight: '700',
+    color: GREY[900],
+    lineHeight: 20,
+  },
+  rowSummary: {
+    fontSize: 12,
+    fontWeight: '400',
+    color: GREY[600],
+    lineHeight: 16,
+  },
+  stepper: {
+    flexDirection: 'row',
+    gap: 6,
+  },
+  stepperButton: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    backgroundColor: GREY[100],
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  loading: {
+    marginTop: 12,
+  },
+  emptyText: {
+    fontSize: 13,
+    color: GREY[500],
+    lineHeight: 18,
+  },
+});
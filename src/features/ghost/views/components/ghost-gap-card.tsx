@@ -0,0 +1,93 @@
+import { Ionicons } from '@expo/vector-icons';
+import React from 'react';
+import { StyleSheet, View } from 'react-native';
+import { Text } from '~/shared/components/typography';
+import { BLUE, GREY, PRIMARY, RED } from '~/shared/styles';
+import {
+  formatGhostDistanceGap,
+  formatGhostTimeGap,
+  type GhostGap,
+  type GhostGapStatus,
+} from '../../models';
+
+interface GhostGapCardProps {
+  label: string;
+  gap: GhostGap;
+}
+
+const STATUS_COLORS: Record<GhostGapStatus, string> = {
+  AHEAD: BLUE.DEFAULT,
+  EVEN: PRIMARY[900],
+  BEHIND: RED.DEFAULT,
+};
+
+/**
+ * 러닝 중 고스트 페이서와의 차이 카드
+ * 고스트 이름 / 앞뒤 거리 / 시간 차이
+ */
+export const GhostGapCard: React.FC<GhostGapCardProps> = ({ label, gap }) => {
+  const timeGap = formatGhostTimeGap(gap);
+
+  return (
+    <View testID="ghost-gap-card" style={styles.container}>
+      <View style={styles.row}>
+        <Ionicons name="people-outline" size={14} color={GREY[500]} />
+        <Text style={styles.label} numberOfLines={1}>
+          {label}
+        </Text>
+        {gap.isGhostFinished ? <Text style={styles.caption}>고스트 완주</Text> : null}
+      </View>
+
+      <View style={styles.row}>
+        <Text testID="ghost-gap-distance" style={[styles.distance, { color: STATUS_COLORS[gap.status] }]}>
+          {formatGhostDistanceGap(gap)}
+        </Text>
+        {timeGap !== null ? (
+          <Text testID="ghost-gap-time" style={styles.time}>
+            {timeGap}
+          </Text>
+        ) : null}
+      </View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    borderRadius: 8,
+    backgroundColor: GREY.WHITE,
+    paddingHorizontal: 14,
+    paddingVertical: 12,
+    gap: 4,
+  },
+  row: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    gap: 6,
+  },
+  label: {
+    flex: 1,
+    fontSize: 12,
+    lineHeight: 16,
+    fontWeight: '500',
+    color: GREY[500],
+  },
+  caption: {
+    fontSize: 12,
+    lineHeight: 16,
+    fontWeight: '500',
+    color: GREY[700],
+  },
+  distance: {
+    fontSize: 18,
+    lineHeight: 24,
+    fontWeight: '700',
+  },
+  time: {
+    fontSize: 18,
+    lineHeight: 24,
+    fontWeight: '700',
+    color: GREY[900],
+  },
+});
@@ -0,0 +1,62 @@
+import { Ionicons } from '@expo/vector-icons';
+import { router } from 'expo-router';
+import React from 'react';
+import { StyleSheet, TouchableOpacity } from 'react-native';
+import { Text } from '~/shared/components/typography';
+import { GREY, PRIMARY } from '~/shared/styles';
+import { useUserStore } from '~/stores/user/userStore';
+import { getGhostPacerLabel } from '../../models';
+import { useGhostPacerStore } from '../../stores/ghostPacerStore';
+
+/**
+ * 러닝 시작 전 고스트 페이서 선택 칩
+ * 선택된 고스트(없으면 "고스트 없음")를 보여주고 누르면 고스트 설정 화면으로 이동
+ */
+export const GhostPacerChip: React.FC = () => {
+  const source = useGhostPacerStore((state) => state.selection?.source ?? null);
+  const distanceUnit = useUserStore((state) => state.userPreferences.distanceUnit);
+
+  return (
+    <TouchableOpacity
+      testID="ghost-pacer-chip"
+      style={[styles.container, source && styles.selectedContainer]}
+      onPress={() => router.push('/ghost-pacer')}
+      activeOpacity={0.7}
+    >
+      <Ionicons name="people-outline" size={16} color={source ? PRIMARY[900] : GREY[700]} />
+      <Text style={[styles.label, source && styles.selectedLabel]} numberOfLines={1}>
+        {source ? getGhostPacerLabel(source, distanceUnit) : '고스트 없음'}
+      </Text>
+      <Ionicons name="chevron-forward" size={14} color={GREY[500]} />
+    </TouchableOpacity>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    maxWidth: 335,
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 20,
+    borderWidth: 1,
+    borderColor: GREY[200],
+    backgroundColor: GREY.WHITE,
+  },
+  selectedContainer: {
+    borderColor: PRIMARY[600],
+    backgroundColor: PRIMARY[50],
+  },
+  label: {
+    flexShrink: 1,
+    fontSize: 13,
+    lineHeight: 18,
+    fontWeight: '600',
+    color: GREY[700],
+  },
+  selectedLabel: {
+    color: PRIMARY[900],
+  },
+});
@@ -0,0 +1 @@
+export { GhostPacerSetupView } from './GhostPacerSetupView';
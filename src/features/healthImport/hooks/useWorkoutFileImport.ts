@@ -0,0 +1,53 @@
+import { useCallback, useState } from 'react';
+import { Alert } from 'react-native';
+import { workoutFileImportService } from '../services/workoutFileImportService';
+import type { WorkoutFileImportResult } from '../types';
+
+const buildResultMessage = (result: WorkoutFileImportResult): string => {
+  const lines = [`${result.importedCount}개의 러닝을 가져왔어요.`];
+
+  if (result.duplicateCount > 0) {
+    lines.push(`이미 가져온 러닝 ${result.duplicateCount}개는 건너뛰었어요.`);
+  }
+  if (result.awardedPoint > 0) {
+    lines.push(`${result.awardedPoint} 포인트를 받았어요.`);
+  }
+  if (result.failedFileNames.length > 0) {
+    lines.push(`읽을 수 없는 파일: ${result.failedFileNames.join(', ')}`);
+  }
+
+  return lines.join('\n');
+};
+
+/**
+ * GPX/TCX/FIT 파일에서 러닝 기록 가져오기
+ */
+export const useWorkoutFileImport = () => {
+  const [isImporting, setIsImporting] = useState(false);
+
+  const importFromFiles = useCallback(async () => {
+    if (isImporting) return;
+
+    try {
+      setIsImporting(true);
+      const result = await workoutFileImportService.pickAndImport();
+      if (!result) return;
+
+      Alert.alert('러닝 기록 가져오기', buildResultMessage(result), [{ text: '확인', style: 'default' }]);
+    } catch (error) {
+      console.warn('[HealthImport] 파일 가져오기 실패:', error);
+      Alert.alert(
+        '러닝 기록 가져오기 실패',
+        '파일을 가져오는 중 오류가 발생했습니다. 다시 시도해주세요.',
+        [{ text: '확인', style: 'default' }]
+      );
+    } finally {
+      setIsImporting(false);
+    }
+  }, [isImporting]);
+
+  return {
+    isImporting,
+    importFromFiles,
+  };
+};
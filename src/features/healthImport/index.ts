@@ -1,3 +1,4 @@
 export * from './native/HealthImportBridge';
 export * from './services/healthImportService';
 export * from './types';
+export * from './services/workoutFileImportService';
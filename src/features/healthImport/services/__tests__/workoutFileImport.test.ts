@@ -0,0 +1,258 @@
+import * as FileSystem from 'expo-file-system/legacy';
+import { apiClient } from '~/services/api/client';
+import { serializeTcx } from '~/features/running/services/export/TcxSerializer';
+import { parseFit } from '../fileImport/FitParser';
+import {
+  detectWorkoutFileFormat,
+  parseWorkoutFile,
+  toFileImportBatchRecord,
+} from '../fileImport/workoutFileImport';
+import { workoutFileImportService } from '../workoutFileImportService';
+
+jest.mock('react-native', () => ({
+  Platform: { OS: 'ios' },
+}));
+
+jest.mock('../../native/HealthImportBridge', () => ({
+  healthImportBridge: {},
+}));
+
+jest.mock('expo-document-picker', () => ({
+  getDocumentAsync: jest.fn(),
+}));
+
+jest.mock('expo-file-system/legacy', () => ({
+  EncodingType: { UTF8: 'utf8', Base64: 'base64' },
+  readAsStringAsync: jest.fn(),
+}));
+
+jest.mock('~/services/api/client', () => ({
+  apiClient: {
+    post: jest.fn(),
+  },
+}));
+
+const mockReadAsStringAsync = FileSystem.readAsStringAsync as jest.Mock;
+const mockApiClient = apiClient as jest.Mocked<typeof apiClient>;
+
+const START_TIMESTAMP = 1735689600; // 2025-01-01T00:00:00Z
+const FIT_START_TIMESTAMP = START_TIMESTAMP - 631065600;
+
+// [field number, size, base type]
+type FitFieldSpec = [number, number, number];
+
+const UINT8 = 0x02;
+const UINT16 = 0x84;
+const SINT32 = 0x85;
+const UINT32 = 0x86;
+const ENUM = 0x00;
+
+const RECORD_FIELDS: FitFieldSpec[] = [
+  [253, 4, UINT32],
+  [0, 4, SINT32],
+  [1, 4, SINT32],
+  [2, 2, UINT16],
+  [3, 1, UINT8],
+  [4, 1, UINT8],
+  [5, 4, UINT32],
+];
+const COMPRESSED_RECORD_FIELDS = RECORD_FIELDS.slice(1);
+const LAP_FIELDS: FitFieldSpec[] = [
+  [2, 4, UINT32],
+  [8, 4, UINT32],
+  [9, 4, UINT32],
+  [11, 2, UINT16],
+  [15, 1, UINT8],
+  [16, 1, UINT8],
+  [17, 1, UINT8],
+];
+const SESSION_FIELDS: FitFieldSpec[] = [
+  [2, 4, UINT32],
+  [5, 1, ENUM],
+  [8, 4, UINT32],
+  [9, 4, UINT32],
+  [11, 2, UINT16],
+  [16, 1, UINT8],
+  [18, 1, UINT8],
+];
+
+const fitDefinition = (
+  localType: number,
+  globalMessageNumber: number,
+  fields: FitFieldSpec[],
+  littleEndian = true
+): number[] => [
+  0x40 | localType,
+  0,
+  littleEndian ? 0 : 1,
+  ...(littleEndian
+    ? [globalMessageNumber & 0xff, globalMessageNumber >> 8]
+    : [globalMessageNumber >> 8, globalMessageNumber & 0xff]),
+  fields.length,
+  ...fields.flat(),
+];
+
+const fitData = (
+  header: number,
+  fields: FitFieldSpec[],
+  values: number[],
+  littleEndian = true
+): number[] => {
+  const size = fields.reduce((sum, [, fieldSize]) => sum + fieldSize, 0);
+  const view = new DataView(new ArrayBuffer(size));
+  let offset = 0;
+
+  fields.forEach(([, fieldSize, baseType], index) => {
+    const value = values[index] ?? 0;
+    if (fieldSize === 1) view.setUint8(offset, value);
+    if (fieldSize === 2) view.setUint16(offset, value, littleEndian);
+    if (fieldSize === 4 && baseType === SINT32) view.setInt32(offset, value, littleEndian);
+    if (fieldSize === 4 && baseType !== SINT32) view.setUint32(offset, value, littleEndian);
+    offset += fieldSize;
+  });
+
+  return [header, ...new Uint8Array(view.buffer)];
+};
+
+const buildFit = (messages: number[][]): Uint8Array => {
+  const data = messages.flat();
+  const dataSize = new Uint8Array(new Uint32Array([data.length]).buffer);
+  const header = [14, 0x10, 0x54, 0x08, ...dataSize, ...Buffer.from('.FIT'), 0, 0];
+  return new Uint8Array([...header, ...data, 0, 0]);
+};
+
+const semicircles = (degrees: number): number => Math.round((degrees * 2 ** 31) / 180);
+
+/**
+ * 10초 간격 포인트 4개 (마지막은 압축 타임스탬프), 55m 간격, 랩 1개
+ */
+const createRunningFit = (sport = 1): Uint8Array =>
+  buildFit([
+    fitDefinition(0, 20, RECORD_FIELDS),
+    fitDefinition(1, 20, COMPRESSED_RECORD_FIELDS),
+    ...[0, 1, 2].map((index) =>
+      fitData(0, RECORD_FIELDS, [
+        FIT_START_TIMESTAMP + index * 10,
+        semicircles(37.5665 + index * 0.0005),
+        semicircles(126.978),
+        (20 + 500) * 5,
+        140 + index,
+        85,
+        index * 5500,
+      ])
+    ),
+    fitData(0x80 | (1 << 5) | ((FIT_START_TIMESTAMP + 30) % 32), COMPRESSED_RECORD_FIELDS, [
+      semicircles(37.5665 + 3 * 0.0005),
+      semicircles(126.978),
+      (20 + 500) * 5,
+      143,
+      85,
+      16500,
+    ]),
+    fitDefinition(2, 19, LAP_FIELDS),
+    fitData(2, LAP_FIELDS, [FIT_START_TIMESTAMP, 30000, 16500, 12, 142, 143, 85]),
+    fitDefinition(3, 18, SESSION_FIELDS, false),
+    fitData(3, SESSION_FIELDS, [FIT_START_TIMESTAMP, sport, 30000, 16500, 12, 142, 85], false),
+  ]);
+
+const GPX = `<?xml version="1.0" encoding="UTF-8"?>
+<gpx version="1.1" creator="Watch" xmlns="http://www.topografix.com/GPX/1/1">
+  <trk>
+    <name>Morning Run</name>
+    <trkseg>
+      <trkpt lat="37.5665" lon="126.978"><ele>21</ele><time>2025-01-01T00:00:00Z</time></trkpt>
+      <trkpt lat="37.5670" lon="126.978"><time>2025-01-01T00:00:20Z</time></trkpt>
+    </trkseg>
+    <trkseg>
+      <trkpt lat="37.5680" lon="126.978"><time>2025-01-01T00:01:00Z</time></trkpt>
+      <trkpt lat="37.5685" lon="126.978"><time>2025-01-01T00:01:20Z</time></trkpt>
+    </trkseg>
+  </trk>
+</gpx>`;
+
+describe('workout file import', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockApiClient.post.mockResolvedValue({
+      data: { createdCount: 1, updatedCount: 0, duplicateCount: 0, awardedPoint: 5, leagueDistanceChanged: false },
+    });
+  });
+
+  it('decodes FIT records, laps and sessions including compressed timestamps and big endian definitions', () => {
+    const activity = parseFit(createRunningFit());
+
+    expect(activity).toMatchObject({
+      startTimestampMs: START_TIMESTAMP * 1000,
+      durationSec: 30,
+      distance: 165,
+      calories: 12,
+      averageHeartRate: 142,
+      averageCadence: 170,
+    });
+    expect(activity.laps).toHaveLength(1);
+    expect(activity.laps[0]!.points.map((point) => point.timestampMs)).toEqual(
+      [0, 10, 20, 30].map((offsetSec) => (START_TIMESTAMP + offsetSec) * 1000)
+    );
+    expect(activity.laps[0]!.points[3]).toMatchObject({ distance: 165, heartRate: 143, cadence: 170, altitude: 20 });
+    expect(activity.laps[0]!.points[1]!.latitude).toBeCloseTo(37.567, 6);
+  });
+
+  it('rejects FIT files that are not running activities or not FIT at all', () => {
+    expect(() => parseFit(createRunningFit(2))).toThrow('Unsupported FIT sport: 2');
+    expect(() => parseFit(new Uint8Array(20))).toThrow('Invalid FIT');
+  });
+
+  it('converts GPX segments into batch items with computed distance and speed', () => {
+    expect(detectWorkoutFileFormat('Morning.Run.GPX')).toBe('gpx');
+    expect(detectWorkoutFileFormat('notes.txt')).toBeNull();
+
+    const record = toFileImportBatchRecord(parseWorkoutFile('gpx', GPX));
+
+    expect(record).toMatchObject({
+      externalId: `file:running:${START_TIMESTAMP}`,
+      distance: 111,
+      durationSec: 40,
+      startTimestamp: START_TIMESTAMP,
+      endTimestamp: START_TIMESTAMP + 80,
+    });
+    expect(record.items.map((item) => item.orderIndex)).toEqual([0, 1]);
+    expect(record.items[1]).toMatchObject({ distance: 56, startTimestamp: START_TIMESTAMP + 60 });
+    expect(record.items[0]!.gpsPoints[0]).toMatchObject({ speed: 0, altitude: 21 });
+    expect(record.items[0]!.gpsPoints[1]!.speed).toBeCloseTo(2.78, 2);
+    expect(record.items[0]!.gpsPoints[1]!.altitude).toBe(0);
+  });
+
+  it('imports picked files once per run and reports unreadable files', async () => {
+    const tcx = serializeTcx(parseWorkoutFile('gpx', GPX));
+    const fitBase64 = Buffer.from(createRunningFit()).toString('base64');
+    const contents: Record<string, string> = {
+      'file:///run.gpx': GPX,
+      'file:///run.tcx': tcx,
+      'file:///run.fit': fitBase64,
+      'file:///broken.tcx': '<TrainingCenterDatabase />',
+    };
+    mockReadAsStringAsync.mockImplementation(async (uri: string) => contents[uri]);
+
+    const result = await workoutFileImportService.importFiles([
+      { name: 'run.gpx', uri: 'file:///run.gpx' },
+      { name: 'run.tcx', uri: 'file:///run.tcx' },
+      { name: 'run.fit', uri: 'file:///run.fit' },
+      { name: 'broken.tcx', uri: 'file:///broken.tcx' },
+      { name: 'notes.txt', uri: 'file:///notes.txt' },
+    ]);
+
+    expect(mockReadAsStringAsync).toHaveBeenCalledWith('file:///run.fit', { encoding: 'base64' });
+    expect(mockApiClient.post).toHaveBeenCalledTimes(1);
+    const [, request] = mockApiClient.post.mock.calls[0]!;
+    expect((request as { records: { externalId: string }[] }).records).toHaveLength(1);
+    expect((request as { records: { externalId: string }[] }).records[0]!.externalId).toBe(
+      `file:running:${START_TIMESTAMP}`
+    );
+    expect(result).toEqual({
+      importedCount: 1,
+      duplicateCount: 2,
+      awardedPoint: 5,
+      failedFileNames: ['broken.tcx', 'notes.txt'],
+    });
+  });
+});
@@ -0,0 +1,338 @@
+/**
+ * FIT (Garmin Flexible and Interoperable Data Transfer) 활동 파일 파서
+ * - record(20) / lap(19) / session(18) 메시지만 해석
+ * - 압축 타임스탬프 헤더, developer field, big/little endian 정의 지원
+ * - CRC는 검증하지 않는다 (잘린 파일도 읽을 수 있는 만큼 읽음)
+ */
+
+import type {
+  ExportActivity,
+  ExportLap,
+  ExportTrackPoint,
+} from '~/features/running/services/export/ExportActivity';
+
+const FIT_EPOCH_OFFSET_SEC = 631065600; // 1989-12-31T00:00:00Z
+const SEMICIRCLES_TO_DEGREES = 180 / 2 ** 31;
+const TIMESTAMP_FIELD = 253;
+
+const MESG_SESSION = 18;
+const MESG_LAP = 19;
+const MESG_RECORD = 20;
+const SPORT_RUNNING = 1;
+
+type FitFields = Map<number, number>;
+
+interface FitFieldDefinition {
+  number: number;
+  size: number;
+  baseType: number;
+}
+
+interface FitMessageDefinition {
+  globalMessageNumber: number;
+  littleEndian: boolean;
+  fields: FitFieldDefinition[];
+  developerFieldsSize: number;
+}
+
+interface FitMessage {
+  globalMessageNumber: number;
+  fields: FitFields;
+}
+
+/**
+ * base type 번호(하위 5bit)별 크기와 invalid 값
+ */
+const BASE_TYPES: Record<number, { size: number; invalid: number | null }> = {
+  0: { size: 1, invalid: 0xff }, // enum
+  1: { size: 1, invalid: 0x7f }, // sint8
+  2: { size: 1, invalid: 0xff }, // uint8
+  3: { size: 2, invalid: 0x7fff }, // sint16
+  4: { size: 2, invalid: 0xffff }, // uint16
+  5: { size: 4, invalid: 0x7fffffff }, // sint32
+  6: { size: 4, invalid: 0xffffffff }, // uint32
+  8: { size: 4, invalid: null }, // float32
+  9: { size: 8, invalid: null }, // float64
+  10: { size: 1, invalid: 0 }, // uint8z
+  11: { size: 2, invalid: 0 }, // uint16z
+  12: { size: 4, invalid: 0 }, // uint32z
+};
+
+const readFieldValue = (
+  view: DataView,
+  offset: number,
+  field: FitFieldDefinition,
+  littleEndian: boolean
+): number | null => {
+  const baseTypeId = field.baseType & 0x1f;
+  const baseType = BASE_TYPES[baseTypeId];
+
+  // 문자열/바이트/64bit 정수 및 배열 필드는 사용하지 않음
+  if (!baseType || field.size !== baseType.size) {
+    return null;
+  }
+
+  let value: number;
+  switch (baseTypeId) {
+    case 1:
+      value = view.getInt8(offset);
+      break;
+    case 3:
+      value = view.getInt16(offset, littleEndian);
+      break;
+    case 4:
+    case 11:
+      value = view.getUint16(offset, littleEndian);
+      break;
+    case 5:
+      value = view.getInt32(offset, littleEndian);
+      break;
+    case 6:
+    case 12:
+      value = view.getUint32(offset, littleEndian);
+      break;
+    case 8:
+      value = view.getFloat32(offset, littleEndian);
+      break;
+    case 9:
+      value = view.getFloat64(offset, littleEndian);
+      break;
+    default:
+      value = view.getUint8(offset);
+  }
+
+  if (baseType.invalid !== null && value === baseType.invalid) {
+    return null;
+  }
+  return Number.isFinite(value) ? value : null;
+};
+
+/**
+ * FIT 바이너리를 메시지 목록으로 디코딩
+ * @throws FIT 헤더가 아니거나 정의되지 않은 로컬 메시지를 만나면 Error
+ */
+const decodeFitMessages = (bytes: Uint8Array): FitMessage[] => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const headerSize = bytes[0] ?? 0;
+
+  if (
+    bytes.byteLength < 12 ||
+    (headerSize !== 12 && headerSize !== 14) ||
+    String.fromCharCode(...bytes.subarray(8, 12)) !== '.FIT'
+  ) {
+    throw new Error('Invalid FIT: missing file header');
+  }
+
+  const dataEnd = Math.min(headerSize + view.getUint32(4, true), bytes.byteLength);
+  const definitions = new Map<number, FitMessageDefinition>();
+  const messages: FitMessage[] = [];
+  let offset = headerSize;
+  let lastTimestamp: number | null = null;
+
+  while (offset < dataEnd) {
+    const recordHeader = view.getUint8(offset);
+    offset += 1;
+
+    const isCompressedTimestamp = (recordHeader & 0x80) !== 0;
+    const isDefinition = !isCompressedTimestamp && (recordHeader & 0x40) !== 0;
+    const localMessageType = isCompressedTimestamp ? (recordHeader >> 5) & 0x03 : recordHeader & 0x0f;
+
+    if (isDefinition) {
+      const hasDeveloperFields = (recordHeader & 0x20) !== 0;
+      const littleEndian = view.getUint8(offset + 1) === 0;
+      const globalMessageNumber = view.getUint16(offset + 2, littleEndian);
+      const fieldCount = view.getUint8(offset + 4);
+      offset += 5;
+
+      const fields: FitFieldDefinition[] = [];
+      for (let index = 0; index < fieldCount; index++) {
+        fields.push({
+          number: view.getUint8(offset),
+          size: view.getUint8(offset + 1),
+          baseType: view.getUint8(offset + 2),
+        });
+        offset += 3;
+      }
+
+      let developerFieldsSize = 0;
+      if (hasDeveloperFields) {
+        const developerFieldCount = view.getUint8(offset);
+        offset += 1;
+        for (let index = 0; index < developerFieldCount; index++) {
+          developerFieldsSize += view.getUint8(offset + 1);
+          offset += 3;
+        }
+      }
+
+      definitions.set(localMessageType, {
+        globalMessageNumber,
+        littleEndian,
+        fields,
+        developerFieldsSize,
+      });
+      continue;
+    }
+
+    const definition = definitions.get(localMessageType);
+    if (!definition) {
+      throw new Error(`Invalid FIT: data message for undefined local type ${localMessageType}`);
+    }
+
+    const fields: FitFields = new Map();
+    for (const field of definition.fields) {
+      if (offset + field.size > dataEnd) {
+        return messages;
+      }
+      const value = readFieldValue(view, offset, field, definition.littleEndian);
+      if (value !== null) {
+        fields.set(field.number, value);
+      }
+      offset += field.size;
+    }
+    offset += definition.developerFieldsSize;
+
+    if (isCompressedTimestamp && lastTimestamp !== null) {
+      // uint32 타임스탬프는 비트 연산 시 부호가 깨질 수 있어 나머지 연산으로 처리
+      const timeOffset = recordHeader & 0x1f;
+      const lastOffset = lastTimestamp % 0x20;
+      let timestamp = lastTimestamp - lastOffset + timeOffset;
+      if (timeOffset < lastOffset) {
+        timestamp += 0x20;
+      }
+      fields.set(TIMESTAMP_FIELD, timestamp);
+    }
+
+    const timestamp = fields.get(TIMESTAMP_FIELD);
+    if (timestamp !== undefined) {
+      lastTimestamp = timestamp;
+    }
+
+    messages.push({ globalMessageNumber: definition.globalMessageNumber, fields });
+  }
+
+  return messages;
+};
+
+const fitTimeToMs = (fitTimestamp: number): number => (fitTimestamp + FIT_EPOCH_OFFSET_SEC) * 1000;
+
+const scaled = (value: number | undefined, scale: number, offset = 0): number | null =>
+  value === undefined ? null : value / scale - offset;
+
+/** 러닝 케이던스는 strides/min 으로 기록되므로 spm 으로 변환 */
+const toSpm = (strideCadence: number | undefined): number | null =>
+  strideCadence !== undefined && strideCadence > 0 ? strideCadence * 2 : null;
+
+const toTrackPoint = (fields: FitFields): ExportTrackPoint | null => {
+  const timestamp = fields.get(TIMESTAMP_FIELD);
+  const latitude = fields.get(0);
+  const longitude = fields.get(1);
+
+  if (timestamp === undefined || latitude === undefined || longitude === undefined) {
+    return null;
+  }
+
+  const heartRate = fields.get(3);
+
+  return {
+    latitude: latitude * SEMICIRCLES_TO_DEGREES,
+    longitude: longitude * SEMICIRCLES_TO_DEGREES,
+    altitude: scaled(fields.get(78), 5, 500) ?? scaled(fields.get(2), 5, 500),
+    timestampMs: fitTimeToMs(timestamp),
+    distance: scaled(fields.get(5), 100) ?? 0,
+    heartRate: heartRate !== undefined && heartRate > 0 ? heartRate : null,
+    cadence: toSpm(fields.get(4)),
+  };
+};
+
+const toLap = (fields: FitFields, points: ExportTrackPoint[]): ExportLap => ({
+  startTimestampMs: fitTimeToMs(fields.get(2) ?? fields.get(TIMESTAMP_FIELD) ?? 0),
+  durationSec: scaled(fields.get(8), 1000) ?? scaled(fields.get(7), 1000) ?? 0,
+  distance: scaled(fields.get(9), 100) ?? 0,
+  calories: fields.get(11) ?? 0,
+  averageHeartRate: fields.get(15) ?? null,
+  maxHeartRate: fields.get(16) ?? null,
+  averageCadence: toSpm(fields.get(17)),
+  points,
+});
+
+/**
+ * FIT 활동 파일을 활동 모델로 변환
+ * @throws FIT 형식이 아니거나 러닝 이외의 종목이면 Error
+ */
+export const parseFit = (bytes: Uint8Array): ExportActivity => {
+  const messages = decodeFitMessages(bytes);
+  const session = messages.find((message) => message.globalMessageNumber === MESG_SESSION);
+  const sport = session?.fields.get(5);
+
+  if (sport !== undefined && sport !== SPORT_RUNNING) {
+    throw new Error(`Unsupported FIT sport: ${sport}`);
+  }
+
+  const points = messages
+    .filter((message) => message.globalMessageNumber === MESG_RECORD)
+    .map((message) => toTrackPoint(message.fields))
+    .filter((point): point is ExportTrackPoint => point !== null)
+    .sort((a, b) => a.timestampMs - b.timestampMs);
+
+  const lapMessages = messages
+    .filter((message) => message.globalMessageNumber === MESG_LAP)
+    .sort((a, b) => (a.fields.get(2) ?? 0) - (b.fields.get(2) ?? 0));
+
+  // 랩 시작 시각 기준으로 포인트를 다음 랩 시작 전까지 배정
+  const laps: ExportLap[] = lapMessages.map((message, index) => {
+    const lapStartMs = fitTimeToMs(message.fields.get(2) ?? 0);
+    const nextLapStart = lapMessages[index + 1]?.fields.get(2);
+    const lapEndMs = nextLapStart !== undefined ? fitTimeToMs(nextLapStart) : Infinity;
+    const lapPoints = points.filter(
+      (point) =>
+        (index === 0 || point.timestampMs >= lapStartMs) && point.timestampMs < lapEndMs
+    );
+    return toLap(message.fields, lapPoints);
+  });
+
+  const firstPoint = points[0];
+  const lastPoint = points[points.length - 1];
+  const sessionStart = session?.fields.get(2);
+  const startTimestampMs =
+    sessionStart !== undefined
+      ? fitTimeToMs(sessionStart)
+      : (laps[0]?.startTimestampMs ?? firstPoint?.timestampMs);
+
+  if (startTimestampMs === undefined) {
+    throw new Error('Invalid FIT: no activity data');
+  }
+
+  const pointDurationSec =
+    firstPoint && lastPoint ? (lastPoint.timestampMs - firstPoint.timestampMs) / 1000 : 0;
+  const durationSec =
+    (session && (scaled(session.fields.get(8), 1000) ?? scaled(session.fields.get(7), 1000))) ??
+    (laps.length > 0 ? laps.reduce((sum, lap) => sum + lap.durationSec, 0) : pointDurationSec);
+  const distance =
+    (session && scaled(session.fields.get(9), 100)) ??
+    (laps.length > 0 ? laps.reduce((sum, lap) => sum + lap.distance, 0) : (lastPoint?.distance ?? 0));
+
+  return {
+    name: '',
+    startTimestampMs,
+    durationSec,
+    distance,
+    calories: session?.fields.get(11) ?? laps.reduce((sum, lap) => sum + lap.calories, 0),
+    averageHeartRate: session?.fields.get(16) ?? null,
+    averageCadence: toSpm(session?.fields.get(18)),
+    laps:
+      laps.length > 0
+        ? laps
+        : [
+            {
+              startTimestampMs,
+              durationSec,
+              distance,
+              calories: session?.fields.get(11) ?? 0,
+              averageHeartRate: session?.fields.get(16) ?? null,
+              maxHeartRate: session?.fields.get(17) ?? null,
+              averageCadence: toSpm(session?.fields.get(18)),
+              points,
+            },
+          ],
+  };
+};
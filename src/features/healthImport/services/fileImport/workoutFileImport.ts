@@ -0,0 +1,217 @@
+/**
+ * 운동 파일(GPX/TCX/FIT) → Health 가져오기 배치 기록 변환
+ * - 파싱은 내보내기용 GPX/TCX 파서와 FitParser 재사용
+ * - externalId는 시작 시각 기반이라 같은 러닝을 다른 형식으로 다시 가져와도 중복 처리됨
+ */
+
+import type {
+  ExportActivity,
+  ExportLap,
+  ExportTrackPoint,
+} from '~/features/running/services/export/ExportActivity';
+import { parseGpx, type GpxTrack } from '~/features/running/services/export/GpxSerializer';
+import { parseTcx } from '~/features/running/services/export/TcxSerializer';
+import { calculateHaversineDistance } from '~/shared/utils/DistanceUtils';
+import type { HealthGpsPoint, HealthImportBatchItem, HealthImportBatchRecord } from '../../types';
+import { parseFit } from './FitParser';
+
+export type WorkoutFileFormat = 'gpx' | 'tcx' | 'fit';
+
+const FILE_EXTERNAL_ID_PREFIX = 'file:running:';
+const MAX_CADENCE = 255;
+
+/**
+ * 파일 확장자로 형식 판별 (지원하지 않으면 null)
+ */
+export const detectWorkoutFileFormat = (fileName: string): WorkoutFileFormat | null => {
+  const extension = fileName.split('.').pop()?.toLowerCase();
+  return extension === 'gpx' || extension === 'tcx' || extension === 'fit' ? extension : null;
+};
+
+const distanceBetween = (
+  from: Pick<ExportTrackPoint, 'latitude' | 'longitude'>,
+  to: Pick<ExportTrackPoint, 'latitude' | 'longitude'>
+): number =>
+  calculateHaversineDistance(from.latitude, from.longitude, to.latitude, to.longitude);
+
+const averageOf = (values: (number | null)[]): number | null => {
+  const valid = values.filter((value): value is number => value !== null && value > 0);
+  return valid.length > 0 ? Math.round(valid.reduce((sum, value) => sum + value, 0) / valid.length) : null;
+};
+
+const getDurationSec = (points: ExportTrackPoint[]): number => {
+  const first = points[0];
+  const last = points[points.length - 1];
+  return first && last ? (last.timestampMs - first.timestampMs) / 1000 : 0;
+};
+
+/**
+ * GPX 트랙을 활동으로 변환 (trkseg 하나를 랩 하나로, 거리는 좌표로 계산)
+ * 세그먼트 사이 이동 거리는 일시정지 구간으로 보고 합산하지 않음
+ */
+export const gpxTrackToActivity = (track: GpxTrack): ExportActivity => {
+  let totalDistance = 0;
+
+  const laps = track.segments.map((segment): ExportLap => {
+    const lapStartDistance = totalDistance;
+    const points = segment.map((point, index): ExportTrackPoint => {
+      const previous = segment[index - 1];
+      if (previous) {
+        totalDistance += distanceBetween(previous, point);
+      }
+      return { ...point, distance: totalDistance };
+    });
+    const heartRates = points.map((point) => point.heartRate).filter((value): value is number => value !== null);
+
+    return {
+      startTimestampMs: points[0]?.timestampMs ?? 0,
+      durationSec: getDurationSec(points),
+      distance: totalDistance - lapStartDistance,
+      calories: 0,
+      averageHeartRate: averageOf(heartRates),
+      maxHeartRate: heartRates.length > 0 ? Math.max(...heartRates) : null,
+      averageCadence: averageOf(points.map((point) => point.cadence)),
+      points,
+    };
+  });
+
+  const startTimestampMs = track.startTimestampMs ?? laps[0]?.startTimestampMs;
+  if (startTimestampMs === undefined) {
+    throw new Error('Invalid GPX: no track points found');
+  }
+
+  const allPoints = laps.flatMap((lap) => lap.points);
+
+  return {
+    name: track.name ?? '',
+    startTimestampMs,
+    durationSec: laps.reduce((sum, lap) => sum + lap.durationSec, 0),
+    distance: totalDistance,
+    calories: 0,
+    averageHeartRate: averageOf(allPoints.map((point) => point.heartRate)),
+    averageCadence: averageOf(allPoints.map((point) => point.cadence)),
+    laps,
+  };
+};
+
+/**
+ * 파일 내용을 형식에 맞게 파싱
+ * @throws 형식이 올바르지 않으면 각 파서의 Error
+ */
+export const parseWorkoutFile = (
+  format: WorkoutFileFormat,
+  content: string | Uint8Array
+): ExportActivity => {
+  if (format === 'fit') {
+    if (typeof content === 'string') {
+      throw new Error('Invalid FIT: binary content is required');
+    }
+    return parseFit(content);
+  }
+
+  if (typeof content !== 'string') {
+    throw new Error(`Invalid ${format.toUpperCase()}: text content is required`);
+  }
+  return format === 'gpx' ? gpxTrackToActivity(parseGpx(content)) : parseTcx(content);
+};
+
+const toSeconds = (timestampMs: number): number => Math.floor(timestampMs / 1000);
+
+const toNonNegativeInteger = (value: number | null | undefined): number =>
+  value != null && Number.isFinite(value) && value > 0 ? Math.round(value) : 0;
+
+const toCadence = (value: number | null | undefined): number =>
+  Math.min(toNonNegativeInteger(value), MAX_CADENCE);
+
+/**
+ * 트랙포인트를 Health GPS 포인트로 변환 (속도는 직전 포인트와의 거리/시간)
+ */
+const toGpsPoints = (points: ExportTrackPoint[]): HealthGpsPoint[] =>
+  points.map((point, index) => {
+    const previous = points[index - 1];
+    const elapsedSec = previous ? (point.timestampMs - previous.timestampMs) / 1000 : 0;
+
+    return {
+      latitude: point.latitude,
+      longitude: point.longitude,
+      timestampMs: point.timestampMs,
+      speed: previous && elapsedSec > 0 ? distanceBetween(previous, point) / elapsedSec : 0,
+      altitude: point.altitude ?? 0,
+    };
+  });
+
+const toBatchItem = (lap: ExportLap, orderIndex: number): HealthImportBatchItem => {
+  const heartRates = lap.points
+    .map((point) => point.heartRate)
+    .filter((value): value is number => value !== null && value > 0);
+  const averageHeartRate = lap.averageHeartRate ?? averageOf(heartRates);
+  const startTimestampMs = lap.points[0]?.timestampMs ?? lap.startTimestampMs;
+  const endTimestampMs = lap.points[lap.points.length - 1]?.timestampMs ?? startTimestampMs;
+
+  return {
+    distance: toNonNegativeInteger(lap.distance),
+    durationSec: toNonNegativeInteger(lap.durationSec),
+    cadence: toCadence(lap.averageCadence ?? averageOf(lap.points.map((point) => point.cadence))),
+    heartRate: toNonNegativeInteger(averageHeartRate),
+    minHeartRate: toNonNegativeInteger(heartRates.length > 0 ? Math.min(...heartRates) : averageHeartRate),
+    maxHeartRate: toNonNegativeInteger(
+      lap.maxHeartRate ?? (heartRates.length > 0 ? Math.max(...heartRates) : averageHeartRate)
+    ),
+    orderIndex,
+    startTimestamp: toSeconds(startTimestampMs),
+    endTimestamp: toSeconds(endTimestampMs),
+    gpsPoints: toGpsPoints(lap.points),
+  };
+};
+
+/**
+ * 파일 기록의 externalId (시작 시각 초 단위)
+ */
+export const createFileImportExternalId = (activity: ExportActivity): string =>
+  `${FILE_EXTERNAL_ID_PREFIX}${toSeconds(activity.startTimestampMs)}`;
+
+/**
+ * 활동을 배치 기록으로 변환 (GPS 포인트가 있는 랩만 세그먼트로 포함)
+ */
+export const toFileImportBatchRecord = (activity: ExportActivity): HealthImportBatchRecord => {
+  const startTimestamp = toSeconds(activity.startTimestampMs);
+  const durationSec = toNonNegativeInteger(activity.durationSec);
+  const allPoints = activity.laps.flatMap((lap) => lap.points);
+  const lastPoint = allPoints[allPoints.length - 1];
+
+  return {
+    externalId: createFileImportExternalId(activity),
+    distance: toNonNegativeInteger(activity.distance),
+    durationSec,
+    cadence: toCadence(activity.averageCadence ?? averageOf(allPoints.map((point) => point.cadence))),
+    heartRate: toNonNegativeInteger(
+      activity.averageHeartRate ?? averageOf(allPoints.map((point) => point.heartRate))
+    ),
+    calorie: toNonNegativeInteger(activity.calories),
+    startTimestamp,
+    endTimestamp: Math.max(startTimestamp + durationSec, lastPoint ? toSeconds(lastPoint.timestampMs) : 0),
+    items: activity.laps
+      .filter((lap) => lap.points.length > 0)
+      .map((lap, index) => toBatchItem(lap, index)),
+  };
+};
+
+/**
+ * 같은 externalId 기록은 처음 것만 남김
+ */
+export const dedupeBatchRecords = (
+  records: HealthImportBatchRecord[]
+): { records: HealthImportBatchRecord[]; duplicateCount: number } => {
+  const recordsByExternalId = new Map<string, HealthImportBatchRecord>();
+
+  records.forEach((record) => {
+    if (!recordsByExternalId.has(record.externalId)) {
+      recordsByExternalId.set(record.externalId, record);
+    }
+  });
+
+  return {
+    records: [...recordsByExternalId.values()],
+    duplicateCount: records.length - recordsByExternalId.size,
+  };
+};
@@ -138,19 +138,19 @@ const finalizeSync = async (): Promise<HealthImportSyncResult> => {
   return { importedCount: 0, duplicateCount: 0, awardedPoint: 0 };
 };
 
-const importWorkouts = async (
-  workouts: HealthRunningWorkout[]
+const importBatchRecords = async (
+  batchRecords: HealthImportBatchRecord[]
 ): Promise<HealthImportSyncResult> => {
   let importedCount = 0;
   let duplicateCount = 0;
   let awardedPoint = 0;
 
-  if (workouts.length === 0) {
+  if (batchRecords.length === 0) {
     return { importedCount: 0, duplicateCount: 0, awardedPoint: 0 };
   }
 
-  for (let index = 0; index < workouts.length; index += BATCH_SIZE) {
-    const records = workouts.slice(index, index + BATCH_SIZE).map(toBatchRecord);
+  for (let index = 0; index < batchRecords.length; index += BATCH_SIZE) {
+    const records = batchRecords.slice(index, index + BATCH_SIZE);
     if (records.length === 0) continue;
 
     logHealthImport('import batch request', summarizeBatchRecords(records));
@@ -173,6 +173,9 @@ const importWorkouts = async (
   return { importedCount, duplicateCount, awardedPoint };
 };
 
+const importWorkouts = (workouts: HealthRunningWorkout[]): Promise<HealthImportSyncResult> =>
+  importBatchRecords(workouts.map(toBatchRecord));
+
 export const healthImportService = {
   getConfiguration: async (): Promise<HealthImportConfiguration> => {
     const { data } = await apiClient.get<HealthImportConfiguration>(API_ENDPOINTS.USER.CONFIGURATION);
@@ -191,6 +194,13 @@ export const healthImportService = {
     return data;
   },
 
+  /**
+   * 이미 변환된 기록을 배치 단위로 가져오기 (파일 가져오기 등 Health 외 출처)
+   * 중복 판정은 서버가 externalId 기준으로 수행
+   */
+  importRecords: (records: HealthImportBatchRecord[]): Promise<HealthImportSyncResult> =>
+    importBatchRecords(records),
+
   sync: async (): Promise<HealthImportSyncResult> => {
     const configuration = await healthImportService.getConfiguration();
     logHealthImport('sync start', {
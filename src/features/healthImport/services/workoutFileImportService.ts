@@ -0,0 +1,105 @@
+import * as DocumentPicker from 'expo-document-picker';
+import * as FileSystem from 'expo-file-system/legacy';
+import type { HealthImportBatchRecord, WorkoutFileImportResult } from '../types';
+import {
+  dedupeBatchRecords,
+  detectWorkoutFileFormat,
+  parseWorkoutFile,
+  toFileImportBatchRecord,
+  type WorkoutFileFormat,
+} from './fileImport/workoutFileImport';
+import { healthImportService } from './healthImportService';
+
+export interface WorkoutFile {
+  name: string;
+  uri: string;
+}
+
+const base64ToBytes = (base64: string): Uint8Array => {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let index = 0; index < binary.length; index++) {
+    bytes[index] = binary.charCodeAt(index);
+  }
+  return bytes;
+};
+
+const readWorkoutFile = async (
+  file: WorkoutFile,
+  format: WorkoutFileFormat
+): Promise<string | Uint8Array> => {
+  if (format === 'fit') {
+    const base64 = await FileSystem.readAsStringAsync(file.uri, {
+      encoding: FileSystem.EncodingType.Base64,
+    });
+    return base64ToBytes(base64);
+  }
+
+  return FileSystem.readAsStringAsync(file.uri, { encoding: FileSystem.EncodingType.UTF8 });
+};
+
+/**
+ * 파일 하나를 배치 기록으로 변환 (지원하지 않거나 비어 있는 러닝이면 null)
+ */
+const toBatchRecord = async (file: WorkoutFile): Promise<HealthImportBatchRecord | null> => {
+  const format = detectWorkoutFileFormat(file.name);
+  if (!format) return null;
+
+  try {
+    const activity = parseWorkoutFile(format, await readWorkoutFile(file, format));
+    const record = toFileImportBatchRecord(activity);
+    return record.distance > 0 && record.durationSec > 0 ? record : null;
+  } catch (error) {
+    console.warn(`[WorkoutFileImport] Failed to parse ${file.name}:`, error);
+    return null;
+  }
+};
+
+export const workoutFileImportService = {
+  /**
+   * GPX/TCX/FIT 파일을 러닝 기록으로 가져오기
+   * 선택한 파일끼리의 중복은 업로드 전에 제거, 이미 가져온 기록은 서버가 externalId로 중복 처리
+   */
+  importFiles: async (files: WorkoutFile[]): Promise<WorkoutFileImportResult> => {
+    const failedFileNames: string[] = [];
+    const parsedRecords: HealthImportBatchRecord[] = [];
+
+    for (const file of files) {
+      const record = await toBatchRecord(file);
+      if (record) {
+        parsedRecords.push(record);
+      } else {
+        failedFileNames.push(file.name);
+      }
+    }
+
+    const { records, duplicateCount } = dedupeBatchRecords(parsedRecords);
+    const result = await healthImportService.importRecords(records);
+
+    return {
+      ...result,
+      duplicateCount: result.duplicateCount + duplicateCount,
+      failedFileNames,
+    };
+  },
+
+  /**
+   * 문서 선택기로 파일을 골라 가져오기 (취소하면 null)
+   */
+  pickAndImport: async (): Promise<WorkoutFileImportResult | null> => {
+    // 기기마다 GPX/TCX/FIT MIME 타입이 제각각이라 확장자로 판별
+    const result = await DocumentPicker.getDocumentAsync({
+      type: '*/*',
+      multiple: true,
+      copyToCacheDirectory: true,
+    });
+
+    if (result.canceled || result.assets.length === 0) {
+      return null;
+    }
+
+    return workoutFileImportService.importFiles(
+      result.assets.map((asset) => ({ name: asset.name, uri: asset.uri }))
+    );
+  },
+};
@@ -77,3 +77,7 @@ export interface HealthImportSyncResult {
   duplicateCount: number;
   awardedPoint: number;
 }
+
+export interface WorkoutFileImportResult extends HealthImportSyncResult {
+  failedFileNames: string[];
+}
@@ -3,6 +3,9 @@
  * 백엔드 API Response와 매핑되는 타입 정의
  */
 
+import { formatDistance as formatDistanceInUnit } from '~/shared/utils/unitFormatters';
+import { DistanceUnit } from '~/stores/user/userStore';
+
 /**
  * 리그 티어 타입
  * 백엔드 LeagueTierType enum과 동일
@@ -99,12 +102,12 @@ export interface LeagueProfile {
 }
 
 /**
- * 거리 포맷팅 헬퍼 (미터 -> km)
+ * 거리 포맷팅 헬퍼 (미터 -> 사용자 거리 단위, 소수점 1자리)
  */
-export const formatDistance = (meters: number): string => {
-  const km = meters / 1000;
-  return `${km.toFixed(1)} km`;
-};
+export const formatDistance = (
+  meters: number,
+  unit: DistanceUnit = DistanceUnit.KILOMETER
+): string => formatDistanceInUnit(meters, unit, { fractionDigits: 1 });
 
 /**
  * 티어 이름을 enum으로 변환
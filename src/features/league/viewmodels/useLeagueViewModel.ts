@@ -4,6 +4,7 @@
  */
 
 import { useCallback, useMemo } from 'react';
+import { useDistanceUnit } from '~/shared/hooks';
 import { useGetCurrentLeague, useJoinLeague } from '../services';
 import {
   formatDistance,
@@ -52,6 +53,7 @@ export const useLeagueViewModel = () => {
 
   // 리그 참가 뮤테이션
   const joinLeagueMutation = useJoinLeague();
+  const { unit: distanceUnit } = useDistanceUnit();
 
   // 포맷된 리그 데이터
   const formattedData = useMemo((): FormattedLeagueData | null => {
@@ -75,7 +77,7 @@ export const useLeagueViewModel = () => {
       tierType,
       myRank: currentLeague.myRank,
       totalParticipants: currentLeague.totalParticipants,
-      myDistanceFormatted: formatDistance(currentLeague.myDistance),
+      myDistanceFormatted: formatDistance(currentLeague.myDistance, distanceUnit),
       myDistanceMeters: currentLeague.myDistance,
       promotionStatus,
       promotionCutRank: currentLeague.promotionCutRank,
@@ -86,7 +88,7 @@ export const useLeagueViewModel = () => {
       participants: currentLeague.participants,
       myParticipant,
     };
-  }, [currentLeague]);
+  }, [currentLeague, distanceUnit]);
 
   // 새로고침 핸들러
   const handleRefresh = useCallback(async () => {
@@ -9,6 +9,7 @@ import {
 import { useConfirmResult } from '../services';
 import { LeagueResultCharacterView, RankingSection } from './components';
 import { PRIMARY, GREY } from '~/shared/styles';
+import { useDistanceUnit } from '~/shared/hooks';
 
 interface LeagueResultDetailViewProps {
   result: LeagueResult;
@@ -17,6 +18,7 @@ interface LeagueResultDetailViewProps {
 export const LeagueResultDetailView = ({ result }: LeagueResultDetailViewProps) => {
   // 결과 확인 완료 API (캐시 무효화 포함)
   const confirmMutation = useConfirmResult();
+  const { unit } = useDistanceUnit();
 
   // 확인 버튼 클릭
   const handleConfirm = () => {
@@ -36,7 +38,7 @@ export const LeagueResultDetailView = ({ result }: LeagueResultDetailViewProps)
   };
 
   // 거리 포맷팅
-  const distanceFormatted = formatDistance(result.totalDistance);
+  const distanceFormatted = formatDistance(result.totalDistance, unit);
 
   // 승급 시에만 보상 포인트 표시
   const showRewardPoints =
@@ -14,6 +14,8 @@ import {
   TIER_INFO,
   getResultMessage,
 } from '../models';
+import { useLeagueResultBadges } from '~/features/badges/viewmodels';
+import { BadgeUnlockCard } from '~/features/badges/views/components/badge-unlock-card';
 import { TIER_IMAGES } from '~/shared/constants/images';
 import { PRIMARY, GREY } from '~/shared/styles';
 
@@ -32,6 +34,9 @@ export const LeagueResultView = ({ result }: LeagueResultViewProps) => {
   // 상태별 메시지
   const message = getResultMessage(result.resultStatus, tierInfo.displayName);
 
+  // 이번 결과로 새로 얻은 리그 배지
+  const newBadges = useLeagueResultBadges(result);
+
   // 결과 확인 버튼 클릭
   const handleConfirm = () => {
     router.push({
@@ -62,6 +67,13 @@ export const LeagueResultView = ({ result }: LeagueResultViewProps) => {
           <Text style={styles.messageTitle}>{message.title}</Text>
           <Text style={styles.messageSubtitle}>{message.subtitle}</Text>
         </View>
+
+        {/* 새 배지 획득 축하 */}
+        {newBadges.length > 0 && (
+          <View style={styles.badgeContainer}>
+            <BadgeUnlockCard badges={newBadges} />
+          </View>
+        )}
       </View>
 
       {/* 결과 확인 버튼 */}
@@ -105,6 +117,10 @@ const styles = StyleSheet.create({
   messageContainer: {
     alignItems: 'center',
   },
+  badgeContainer: {
+    width: '100%',
+    marginTop: 24,
+  },
   messageTitle: {
     fontSize: 20,
     fontFamily: 'Pretendard-Bold',
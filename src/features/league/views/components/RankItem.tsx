@@ -6,6 +6,7 @@
 import { StyleSheet, Text, View } from 'react-native';
 import { Image } from 'expo-image';
 import { PRIMARY, GREY } from '~/shared/styles';
+import { useDistanceUnit } from '~/shared/hooks';
 import { formatDistance, type LeagueParticipant } from '../../models';
 import { buildFullImageUrl } from '~/features/user/models/UserDataDto';
 
@@ -16,9 +17,10 @@ interface RankItemProps {
 
 
 export const RankItem = ({ participant }: RankItemProps) => {
+  const { unit } = useDistanceUnit();
   const isMe = participant.isMe;
   const displayName = isMe ? '나' : (participant.nickname ?? '익명');
-  const distanceFormatted = formatDistance(participant.distance);
+  const distanceFormatted = formatDistance(participant.distance, unit);
   const fullImageUrl = buildFullImageUrl(participant?.profileImageUrl);
   const imageSource = fullImageUrl
     ? { uri: fullImageUrl }  // 전체 URL로 변환 후 사용
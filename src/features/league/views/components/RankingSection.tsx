@@ -13,6 +13,7 @@ import { Animated, Easing, FlatList, RefreshControl, StyleSheet, Text, View } fr
 import { LinearGradient } from 'expo-linear-gradient';
 import { useFocusEffect } from 'expo-router';
 import { GREY, PRIMARY } from '~/shared/styles';
+import { useDistanceUnit } from '~/shared/hooks';
 import type { LeagueParticipant } from '../../models';
 import { RankItem } from './RankItem';
 
@@ -33,6 +34,7 @@ export const RankingSection = ({
   onRefresh,
 }: RankingSectionProps) => {
   const [isAnimating, setIsAnimating] = useState(false);
+  const { formatDistance, distanceLabel } = useDistanceUnit();
   const [displayOrder, setDisplayOrder] = useState<LeagueParticipant[]>(() => [...participants]);
 
   // FlatList ref
@@ -241,7 +243,8 @@ export const RankingSection = ({
             <View style={styles.animatedAvatar} />
             <Text style={styles.animatedName}>나</Text>
             <Text style={styles.animatedDistance}>
-              {(participant.distance / 1000).toFixed(2)}km
+              {formatDistance(participant.distance, { withUnit: false })}
+              {distanceLabel}
             </Text>
           </View>
         </Animated.View>
@@ -281,7 +284,7 @@ export const RankingSection = ({
         }}
       />
     );
-  }, [isAnimating, myAnimatedY, myAnimatedScale, myCurrentRank, myInitialIndex, totalSteps, displacedAnimations]);
+  }, [isAnimating, myAnimatedY, myAnimatedScale, myCurrentRank, myInitialIndex, totalSteps, displacedAnimations, formatDistance, distanceLabel]);
 
   // keyExtractor
   const keyExtractor = useCallback((item: LeagueParticipant, index: number) => {
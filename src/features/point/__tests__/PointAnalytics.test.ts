@@ -0,0 +1,137 @@
+import {
+  formatPointDateRange,
+  getMonthDateRange,
+  getMonthlyPointTotals,
+  getPresetDateRange,
+  groupPointHistoriesByType,
+  POINT_HISTORY_TRUNCATED_MESSAGE,
+  serializePointHistoryCsv,
+  summarizePointHistories,
+  type PointHistory,
+} from '~/features/point/models';
+import { createPointHistoryExportFile } from '~/features/point/services/pointExportService';
+import { pointService } from '~/features/point/services/pointService';
+
+const toTimestamp = (value: string) => new Date(value).getTime() / 1000;
+
+const history = (id: number, point: number, pointType: string, createdAt: string): PointHistory => ({
+  id,
+  point,
+  pointType,
+  createdTimestamp: toTimestamp(createdAt),
+});
+
+const HISTORIES = [
+  history(5, 120, '러닝 보상', '2026-10-18T08:00:00'),
+  history(4, -300, '아이템 구매', '2026-10-02T21:00:00'),
+  history(3, 10, '출석 보너스', '2026-09-30T07:00:00'),
+  history(2, 80, '러닝 보상', '2026-09-12T07:00:00'),
+  history(1, -50, '아이템 구매', '2026-08-03T12:00:00'),
+];
+
+describe('PointAnalytics', () => {
+  it('builds preset and month ranges with an exclusive end date', () => {
+    const range = getPresetDateRange('3M', new Date('2026-10-19T15:00:00'));
+
+    expect(range.startDate).toEqual(new Date('2026-07-20T00:00:00'));
+    expect(range.endDate).toEqual(new Date('2026-10-20T00:00:00'));
+    expect(formatPointDateRange(range)).toBe('2026.07.20 ~ 2026.10.19');
+
+    expect(formatPointDateRange(getMonthDateRange(new Date(2026, 7, 15), new Date(2026, 8, 3)))).toBe(
+      '2026.08.01 ~ 2026.09.30'
+    );
+  });
+
+  it('summarizes and groups histories by point type', () => {
+    expect(summarizePointHistories(HISTORIES)).toEqual({ earned: 210, spent: 350, net: -140, count: 5 });
+    expect(groupPointHistoriesByType(HISTORIES)).toEqual([
+      { pointType: '아이템 구매', earned: 0, spent: 350, count: 2 },
+      { pointType: '러닝 보상', earned: 200, spent: 0, count: 2 },
+      { pointType: '출석 보너스', earned: 10, spent: 0, count: 1 },
+    ]);
+  });
+
+  it('totals every month of the range including empty ones', () => {
+    const range = getMonthDateRange(new Date(2026, 6, 1), new Date(2026, 9, 1));
+
+    expect(getMonthlyPointTotals(HISTORIES, range)).toEqual([
+      { month: '2026-07', earned: 0, spent: 0 },
+      { month: '2026-08', earned: 0, spent: 50 },
+      { month: '2026-09', earned: 90, spent: 0 },
+      { month: '2026-10', earned: 120, spent: 300 },
+    ]);
+  });
+
+  it('serializes histories to CSV with escaped fields', () => {
+    const csv = serializePointHistoryCsv([
+      history(7, 40, '이벤트 "가을, 러닝"', '2026-10-01T09:05:00'),
+      history(6, -300, '아이템 구매', '2026-09-30T18:00:00'),
+    ]);
+
+    expect(csv).toBe(
+      '\uFEFFID,일시,구분,유형,포인트\r\n' +
+        '7,2026.10.01 09:05,적립,"이벤트 ""가을, 러닝""",40\r\n' +
+        '6,2026.09.30 18:00,사용,아이템 구매,-300\r\n'
+    );
+  });
+
+  it('notes truncated exports in the last CSV row', () => {
+    const csv = serializePointHistoryCsv([history(6, -300, '아이템 구매', '2026-09-30T18:00:00')], {
+      truncated: true,
+    });
+
+    expect(csv.split('\r\n')).toEqual([
+      '\uFEFFID,일시,구분,유형,포인트',
+      '6,2026.09.30 18:00,사용,아이템 구매,-300',
+      `※ ${POINT_HISTORY_TRUNCATED_MESSAGE}`,
+      '',
+    ]);
+  });
+
+  it('names the export file after the range', () => {
+    const file = createPointHistoryExportFile(HISTORIES, getMonthDateRange(new Date(2026, 7, 1), new Date(2026, 9, 1)));
+
+    expect(file.fileName).toBe('runtaeho-points-20260801-20261031.csv');
+    expect(file.mimeType).toBe('text/csv');
+  });
+});
+
+describe('pointService.getPointHistoriesInRange', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('follows the cursor and drops histories after the range end', async () => {
+    const getPointHistories = jest
+      .spyOn(pointService, 'getPointHistories')
+      .mockResolvedValueOnce({ content: HISTORIES.slice(0, 3), cursor: 3, hasNext: true })
+      .mockResolvedValueOnce({ content: HISTORIES.slice(3), hasNext: false });
+
+    const { histories, truncated } = await pointService.getPointHistoriesInRange({
+      startCreatedTimestamp: toTimestamp('2026-08-01T00:00:00'),
+      endCreatedTimestamp: toTimestamp('2026-10-01T00:00:00'),
+    });
+
+    expect(histories.map((item) => item.id)).toEqual([3, 2, 1]);
+    expect(truncated).toBe(false);
+    expect(getPointHistories).toHaveBeenCalledTimes(2);
+    expect(getPointHistories).toHaveBeenLastCalledWith(
+      expect.objectContaining({ cursor: 3, startCreatedTimestamp: toTimestamp('2026-08-01T00:00:00') })
+    );
+  });
+
+  it('reports truncation when pages remain after the page limit', async () => {
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    const getPointHistories = jest
+      .spyOn(pointService, 'getPointHistories')
+      .mockResolvedValue({ content: HISTORIES.slice(0, 1), cursor: 5, hasNext: true });
+
+    const { truncated } = await pointService.getPointHistoriesInRange({
+      startCreatedTimestamp: toTimestamp('2026-08-01T00:00:00'),
+      endCreatedTimestamp: toTimestamp('2026-11-01T00:00:00'),
+    });
+
+    expect(truncated).toBe(true);
+    expect(getPointHistories).toHaveBeenCalledTimes(50);
+  });
+});
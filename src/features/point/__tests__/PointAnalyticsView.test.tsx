@@ -0,0 +1,88 @@
+import React from 'react';
+import { fireEvent, screen } from '@testing-library/react-native';
+import { PointAnalyticsView } from '~/features/point/views/PointAnalyticsView';
+import { pointService } from '~/features/point/services/pointService';
+import { renderWithProviders } from '~/test-utils/renderWithProviders';
+
+const mockExportAndSharePointHistory = jest.fn();
+
+jest.mock('~/features/point/services/pointExportService', () => ({
+  exportAndSharePointHistory: (...args: unknown[]) => mockExportAndSharePointHistory(...args),
+}));
+
+const nowSec = Math.floor(Date.now() / 1000);
+const DAY = 24 * 60 * 60;
+
+describe('PointAnalyticsView', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockExportAndSharePointHistory.mockResolvedValue({ success: true });
+    jest.spyOn(pointService, 'getPointHistoriesInRange').mockResolvedValue({
+      histories: [
+        { id: 3, point: 120, pointType: '러닝 보상', createdTimestamp: nowSec - DAY },
+        { id: 2, point: -300, pointType: '아이템 구매', createdTimestamp: nowSec - 2 * DAY },
+        { id: 1, point: 80, pointType: '러닝 보상', createdTimestamp: nowSec - 3 * DAY },
+      ],
+      truncated: false,
+    });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('shows the range summary and breakdown by point type', async () => {
+    renderWithProviders(<PointAnalyticsView onClose={jest.fn()} />);
+
+    expect(await screen.findByTestId('point-analytics-summary')).toHaveTextContent(/\+200P.*-300P.*합계 \(3건\).*-100P/);
+    expect(screen.getByTestId('point-breakdown-러닝 보상')).toHaveTextContent(/러닝 보상.*2건.*\+200P/);
+    expect(screen.getByTestId('point-breakdown-아이템 구매')).toHaveTextContent(/1건.*-300P/);
+  });
+
+  it('exports only the histories matching the selected point type', async () => {
+    renderWithProviders(<PointAnalyticsView onClose={jest.fn()} />);
+
+    fireEvent.press(await screen.findByTestId('point-breakdown-러닝 보상'));
+    expect(screen.queryByText('아이템 구매 내역')).not.toBeOnTheScreen();
+    expect(screen.getByText('러닝 보상 내역')).toBeOnTheScreen();
+
+    fireEvent.press(screen.getByTestId('point-analytics-export'));
+
+    expect(await screen.findByTestId('point-analytics-export')).toBeOnTheScreen();
+    expect(mockExportAndSharePointHistory).toHaveBeenCalledWith(
+      [expect.objectContaining({ id: 3 }), expect.objectContaining({ id: 1 })],
+      expect.objectContaining({ startDate: expect.any(Date), endDate: expect.any(Date) }),
+      { truncated: false }
+    );
+    expect(screen.queryByTestId('point-analytics-truncated')).not.toBeOnTheScreen();
+  });
+
+  it('warns in the view and the export when the range was truncated', async () => {
+    jest.mocked(pointService.getPointHistoriesInRange).mockResolvedValue({
+      histories: [{ id: 3, point: 120, pointType: '러닝 보상', createdTimestamp: nowSec - DAY }],
+      truncated: true,
+    });
+    renderWithProviders(<PointAnalyticsView onClose={jest.fn()} />);
+
+    expect(await screen.findByTestId('point-analytics-truncated')).toHaveTextContent(/일부 내역이 빠져/);
+
+    fireEvent.press(screen.getByTestId('point-analytics-export'));
+
+    expect(await screen.findByTestId('point-analytics-export')).toBeOnTheScreen();
+    expect(mockExportAndSharePointHistory).toHaveBeenCalledWith(
+      [expect.objectContaining({ id: 3 })],
+      expect.any(Object),
+      { truncated: true }
+    );
+  });
+
+  it('refetches with a new range when a preset is selected', async () => {
+    renderWithProviders(<PointAnalyticsView onClose={jest.fn()} />);
+    await screen.findByTestId('point-analytics-summary');
+
+    fireEvent.press(screen.getByTestId('point-range-1Y'));
+
+    await screen.findByTestId('point-analytics-summary');
+    expect(pointService.getPointHistoriesInRange).toHaveBeenCalledTimes(2);
+  });
+});
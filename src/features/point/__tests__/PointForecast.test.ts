@@ -0,0 +1,69 @@
+import {
+  estimateWeeklyPoints,
+  forecastPointGoal,
+  getEarnRatesByPointType,
+  getPointForecastMessage,
+  type PointHistory,
+} from '~/features/point/models';
+
+const NOW = new Date('2026-10-19T09:00:00');
+const DAY = 24 * 60 * 60;
+const nowSec = NOW.getTime() / 1000;
+
+const history = (id: number, point: number, pointType: string, daysAgo: number): PointHistory => ({
+  id,
+  point,
+  pointType,
+  createdTimestamp: nowSec - daysAgo * DAY,
+});
+
+const formatKm = (meters: number) => `${(meters / 1000).toFixed(1)} km`;
+
+describe('PointForecast', () => {
+  it('averages earned points per week by point type within the window', () => {
+    const rates = getEarnRatesByPointType(
+      [
+        history(1, 300, '러닝 보상', 2),
+        history(2, 500, '러닝 보상', 20),
+        history(3, 40, '출석 보너스', 3),
+        history(4, -700, '아이템 구매', 1),
+        history(5, 1000, '러닝 보상', 40), // 4주 이전
+      ],
+      NOW
+    );
+
+    expect(rates).toEqual([
+      { pointType: '러닝 보상', weeklyPoints: 200 },
+      { pointType: '출석 보너스', weeklyPoints: 10 },
+    ]);
+  });
+
+  it('adds only the non-running part of the history to the distance based estimate', () => {
+    const rates = [
+      { pointType: '러닝 보상', weeklyPoints: 200 },
+      { pointType: '출석 보너스', weeklyPoints: 10 },
+    ];
+
+    expect(estimateWeeklyPoints(20_000, rates)).toEqual({ runningPoints: 200, bonusPoints: 10, weeklyPoints: 210 });
+    // 최근 거리가 늘어 기록보다 많이 받을 것으로 예상되면 거리 기준을 따른다
+    expect(estimateWeeklyPoints(30_000, rates)).toEqual({ runningPoints: 300, bonusPoints: 0, weeklyPoints: 300 });
+  });
+
+  it('forecasts the date and distance needed to reach a goal', () => {
+    const forecast = forecastPointGoal({ targetPoint: 1500, currentPoint: 1200, weeklyPoints: 210, now: NOW });
+
+    expect(forecast).toMatchObject({ status: 'ESTIMATED', pointsNeeded: 300, distanceNeeded: 30_000, daysNeeded: 10 });
+    expect(getPointForecastMessage(forecast, formatKm)).toBe('30.0 km 더 달리면 모을 수 있어요 · 10월 29일쯤 예상');
+  });
+
+  it('handles goals already reached and users without recent earnings', () => {
+    expect(forecastPointGoal({ targetPoint: 500, currentPoint: 800, weeklyPoints: 0, now: NOW })).toEqual({
+      status: 'AFFORDABLE',
+      pointsNeeded: 0,
+    });
+
+    const forecast = forecastPointGoal({ targetPoint: 500, currentPoint: 450, weeklyPoints: 0, now: NOW });
+    expect(forecast).toEqual({ status: 'NO_DATA', pointsNeeded: 50, distanceNeeded: 5_000 });
+    expect(getPointForecastMessage(forecast, formatKm)).toBe('5.0 km 더 달리면 모을 수 있어요');
+  });
+});
@@ -1,5 +1,6 @@
 import React from 'react';
 import { act, fireEvent, screen } from '@testing-library/react-native';
+import { useAvatarWardrobeStore } from '~/features/avatar/stores/avatarWardrobeStore';
 import { PointFilter } from '~/features/point/models';
 import { PointHistoryView } from '~/features/point/views/PointHistoryView';
 import { renderWithProviders } from '~/test-utils/renderWithProviders';
@@ -9,9 +10,17 @@ const mockRefreshPointHistory = jest.fn();
 const mockLoadMoreHistories = jest.fn();
 
 const mockUsePointViewModel = jest.fn();
+const mockGetForecastMessage = jest.fn();
 
 jest.mock('~/features/point/viewmodels', () => ({
   usePointViewModel: () => mockUsePointViewModel(),
+  usePointPlanner: () => ({
+    averageWeeklyDistance: 20_000,
+    earnRates: [{ pointType: '러닝 보상', weeklyPoints: 200 }],
+    estimate: { runningPoints: 200, bonusPoints: 0, weeklyPoints: 200 },
+    getForecastMessage: (targetPoint: number) => mockGetForecastMessage(targetPoint),
+    isLoading: false,
+  }),
 }));
 
 const buildViewModelState = (overrides?: Record<string, unknown>) => ({
@@ -42,6 +51,8 @@ describe('PointHistoryView', () => {
     jest.clearAllMocks();
     mockRefreshPointHistory.mockResolvedValue(undefined);
     mockUsePointViewModel.mockReturnValue(buildViewModelState());
+    useAvatarWardrobeStore.getState().reset();
+    mockGetForecastMessage.mockReturnValue('3.0 km 더 달리면 모을 수 있어요 · 10월 27일쯤 예상');
   });
 
   it('renders current point card and point history item', () => {
@@ -132,6 +143,27 @@ describe('PointHistoryView', () => {
     expect(mockRefreshPointHistory).toHaveBeenCalledTimes(1);
   });
 
+  it('forecasts when wishlisted items can be bought', () => {
+    useAvatarWardrobeStore.getState().toggleWishlist({
+      id: 7,
+      itemType: { id: 2, name: '의상' },
+      name: '러닝 재킷',
+      unityFilePath: 'Assets/05.Resource/Item_7.png',
+      filePath: '/assets/items/Item_7.png',
+      point: 1500,
+      createdAt: '2026-10-01T00:00:00.000Z',
+    });
+
+    renderWithProviders(<PointHistoryView onClose={jest.fn()} />);
+
+    expect(screen.getByTestId('point-planner-summary')).toHaveTextContent(
+      '최근 4주 평균 주 20.0 km · 주 약 200P 적립'
+    );
+    expect(screen.getByText('러닝 재킷')).toBeOnTheScreen();
+    expect(screen.getByText('3.0 km 더 달리면 모을 수 있어요 · 10월 27일쯤 예상')).toBeOnTheScreen();
+    expect(mockGetForecastMessage).toHaveBeenCalledWith(1500);
+  });
+
   it('calls close handler when header back button is pressed', () => {
     const onClose = jest.fn();
     renderWithProviders(<PointHistoryView onClose={onClose} />);
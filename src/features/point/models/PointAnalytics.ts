@@ -0,0 +1,208 @@
+/**
+ * 포인트 내역 분석 모델
+ * 기간 필터, 포인트 타입별 합계, 월별 적립/사용 추이, CSV 내보내기
+ */
+
+import { formatDate, type PointHistory } from './Point';
+
+/**
+ * 기간 프리셋
+ */
+export type PointRangePreset = '1M' | '3M' | '6M' | '1Y';
+
+export const POINT_RANGE_PRESETS: readonly PointRangePreset[] = ['1M', '3M', '6M', '1Y'];
+
+export const POINT_RANGE_PRESET_LABELS: Record<PointRangePreset, string> = {
+  '1M': '1개월',
+  '3M': '3개월',
+  '6M': '6개월',
+  '1Y': '1년',
+};
+
+const PRESET_MONTHS: Record<PointRangePreset, number> = {
+  '1M': 1,
+  '3M': 3,
+  '6M': 6,
+  '1Y': 12,
+};
+
+/**
+ * 조회 기간 [startDate, endDate)
+ * 둘 다 자정 기준이며 endDate는 포함하지 않는다.
+ */
+export interface PointDateRange {
+  startDate: Date;
+  endDate: Date;
+}
+
+/**
+ * 기간 내 포인트 내역 조회 결과
+ * 서버는 최신순으로 주므로 조회 페이지 한도에 걸리면(truncated) 기간 초반 내역이 빠진다.
+ */
+export interface PointHistoryRangeResult {
+  histories: PointHistory[];
+  truncated: boolean;
+}
+
+export const POINT_HISTORY_TRUNCATED_MESSAGE =
+  '내역이 많아 기간 초반의 일부 내역이 빠져 있어요. 기간을 줄여 다시 조회해주세요.';
+
+/**
+ * 포인트 타입별 합계
+ */
+export interface PointTypeBreakdown {
+  pointType: string;
+  earned: number;
+  spent: number; // 양수
+  count: number;
+}
+
+/**
+ * 월별 적립/사용 합계
+ */
+export interface MonthlyPointTotal {
+  month: string; // YYYY-MM
+  earned: number;
+  spent: number; // 양수
+}
+
+/**
+ * 기간 요약
+ */
+export interface PointHistorySummary {
+  earned: number;
+  spent: number; // 양수
+  net: number;
+  count: number;
+}
+
+/**
+ * 프리셋 기간 (오늘 포함)
+ */
+export const getPresetDateRange = (preset: PointRangePreset, now: Date = new Date()): PointDateRange => {
+  const endDate = new Date(now.getFullYear(), now.getMonth(), now.getDate() + 1);
+  return {
+    startDate: new Date(now.getFullYear(), now.getMonth() - PRESET_MONTHS[preset], now.getDate() + 1),
+    endDate,
+  };
+};
+
+/**
+ * 월 단위 기간 (startMonth 1일 ~ endMonth 말일)
+ */
+export const getMonthDateRange = (startMonth: Date, endMonth: Date): PointDateRange => ({
+  startDate: new Date(startMonth.getFullYear(), startMonth.getMonth(), 1),
+  endDate: new Date(endMonth.getFullYear(), endMonth.getMonth() + 1, 1),
+});
+
+/**
+ * 기간 표시 (예: "2026.07.20 ~ 2026.10.19")
+ */
+export const formatPointDateRange = (range: PointDateRange): string => {
+  const format = (date: Date) => formatDate(date).slice(0, 10);
+  const lastDay = new Date(range.endDate.getFullYear(), range.endDate.getMonth(), range.endDate.getDate() - 1);
+  return `${format(range.startDate)} ~ ${format(lastDay)}`;
+};
+
+/**
+ * 기간 요약 (적립/사용/합계)
+ */
+export const summarizePointHistories = (histories: readonly PointHistory[]): PointHistorySummary => {
+  let earned = 0;
+  let spent = 0;
+  for (const history of histories) {
+    if (history.point > 0) earned += history.point;
+    else spent += -history.point;
+  }
+  return { earned, spent, net: earned - spent, count: histories.length };
+};
+
+/**
+ * 포인트 타입별 합계 (변동량이 큰 순)
+ */
+export const groupPointHistoriesByType = (histories: readonly PointHistory[]): PointTypeBreakdown[] => {
+  const groups = new Map<string, PointTypeBreakdown>();
+
+  for (const history of histories) {
+    const group = groups.get(history.pointType) ?? {
+      pointType: history.pointType,
+      earned: 0,
+      spent: 0,
+      count: 0,
+    };
+    if (history.point > 0) group.earned += history.point;
+    else group.spent += -history.point;
+    group.count += 1;
+    groups.set(history.pointType, group);
+  }
+
+  return Array.from(groups.values()).sort((a, b) => b.earned + b.spent - (a.earned + a.spent));
+};
+
+const toMonthKey = (date: Date): string =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
+
+/**
+ * 월별 적립/사용 합계 (기간 내 모든 월, 내역이 없는 월은 0)
+ */
+export const getMonthlyPointTotals = (
+  histories: readonly PointHistory[],
+  range: PointDateRange
+): MonthlyPointTotal[] => {
+  const totals = new Map<string, MonthlyPointTotal>();
+  const lastDay = new Date(range.endDate.getTime() - 1);
+
+  for (
+    let cursor = new Date(range.startDate.getFullYear(), range.startDate.getMonth(), 1);
+    cursor <= lastDay;
+    cursor = new Date(cursor.getFullYear(), cursor.getMonth() + 1, 1)
+  ) {
+    const month = toMonthKey(cursor);
+    totals.set(month, { month, earned: 0, spent: 0 });
+  }
+
+  for (const history of histories) {
+    const total = totals.get(toMonthKey(new Date(history.createdTimestamp * 1000)));
+    if (!total) continue;
+    if (history.point > 0) total.earned += history.point;
+    else total.spent += -history.point;
+  }
+
+  return Array.from(totals.values());
+};
+
+// ========== CSV ==========
+
+export const POINT_HISTORY_CSV_MIME_TYPE = 'text/csv';
+
+const POINT_HISTORY_CSV_HEADER = ['ID', '일시', '구분', '유형', '포인트'];
+
+const escapeCsvField = (value: string | number): string => {
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * 포인트 내역 CSV (엑셀에서 한글이 깨지지 않도록 BOM 포함)
+ * 일부 내역이 빠진 경우 마지막 행에 안내 문구 추가
+ */
+export const serializePointHistoryCsv = (
+  histories: readonly PointHistory[],
+  options: { truncated?: boolean } = {}
+): string => {
+  const rows: (string | number)[][] = histories.map((history) => [
+    history.id,
+    formatDate(new Date(history.createdTimestamp * 1000)),
+    history.point > 0 ? '적립' : '사용',
+    history.pointType,
+    history.point,
+  ]);
+
+  if (options.truncated) {
+    rows.push([`※ ${POINT_HISTORY_TRUNCATED_MESSAGE}`]);
+  }
+
+  return `\uFEFF${[POINT_HISTORY_CSV_HEADER, ...rows]
+    .map((row) => row.map(escapeCsvField).join(','))
+    .join('\r\n')}\r\n`;
+};
@@ -0,0 +1,155 @@
+/**
+ * 포인트 적립 예측 모델
+ * 러닝 거리와 최근 적립 기록으로 목표 포인트를 모으는 시점을 추정
+ */
+
+import type { PointHistory } from './Point';
+
+// 러닝 보상 기준 (100m당 1포인트)
+export const METERS_PER_RUNNING_POINT = 100;
+
+// 예측에 사용하는 최근 기간 (주)
+export const POINT_FORECAST_WINDOW_WEEKS = 4;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * 포인트 타입별 주간 적립량
+ */
+export interface PointEarnRate {
+  pointType: string;
+  weeklyPoints: number;
+}
+
+/**
+ * 주간 예상 적립 포인트
+ */
+export interface WeeklyPointEstimate {
+  runningPoints: number; // 평균 주간 거리 기반 러닝 보상
+  bonusPoints: number; // 러닝 보상 외 적립 (출석 보너스 등)
+  weeklyPoints: number;
+}
+
+/**
+ * 목표 포인트 예측 결과
+ * - AFFORDABLE: 이미 모음
+ * - ESTIMATED: 예상 날짜 계산 가능
+ * - NO_DATA: 최근 적립 기록이 없어 날짜를 계산할 수 없음 (필요 거리만 안내)
+ */
+export type PointForecast =
+  | { status: 'AFFORDABLE'; pointsNeeded: 0 }
+  | {
+      status: 'ESTIMATED';
+      pointsNeeded: number;
+      distanceNeeded: number; // 미터, 러닝만으로 모을 때
+      daysNeeded: number;
+      estimatedDate: Date;
+    }
+  | { status: 'NO_DATA'; pointsNeeded: number; distanceNeeded: number };
+
+/**
+ * 거리로 받을 수 있는 러닝 포인트
+ */
+export const getRunningPointsForDistance = (meters: number): number =>
+  Math.floor(Math.max(0, meters) / METERS_PER_RUNNING_POINT);
+
+/**
+ * 포인트를 모으는 데 필요한 러닝 거리 (미터)
+ */
+export const getDistanceForPoints = (points: number): number => Math.max(0, points) * METERS_PER_RUNNING_POINT;
+
+/**
+ * 최근 기간의 포인트 타입별 주간 적립량 (많은 순)
+ */
+export const getEarnRatesByPointType = (
+  histories: readonly PointHistory[],
+  now: Date = new Date(),
+  weeks: number = POINT_FORECAST_WINDOW_WEEKS
+): PointEarnRate[] => {
+  const windowStart = (now.getTime() - weeks * 7 * DAY_MS) / 1000;
+  const totals = new Map<string, number>();
+
+  for (const history of histories) {
+    if (history.point <= 0 || history.createdTimestamp < windowStart) continue;
+    totals.set(history.pointType, (totals.get(history.pointType) ?? 0) + history.point);
+  }
+
+  return Array.from(totals, ([pointType, total]) => ({ pointType, weeklyPoints: total / weeks })).sort(
+    (a, b) => b.weeklyPoints - a.weeklyPoints
+  );
+};
+
+/**
+ * 주간 예상 적립 포인트
+ * 적립 기록에는 러닝 보상도 포함되어 있으므로, 거리로 계산한 러닝 보상을 뺀 나머지만 추가 적립으로 본다.
+ */
+export const estimateWeeklyPoints = (
+  averageWeeklyDistance: number,
+  earnRates: readonly PointEarnRate[]
+): WeeklyPointEstimate => {
+  const runningPoints = getRunningPointsForDistance(averageWeeklyDistance);
+  const historicalPoints = earnRates.reduce((sum, rate) => sum + rate.weeklyPoints, 0);
+  const bonusPoints = Math.max(0, Math.round(historicalPoints - runningPoints));
+
+  return {
+    runningPoints,
+    bonusPoints,
+    weeklyPoints: runningPoints + bonusPoints,
+  };
+};
+
+/**
+ * 목표 포인트를 모으는 시점 예측
+ */
+export const forecastPointGoal = ({
+  targetPoint,
+  currentPoint,
+  weeklyPoints,
+  now = new Date(),
+}: {
+  targetPoint: number;
+  currentPoint: number;
+  weeklyPoints: number;
+  now?: Date;
+}): PointForecast => {
+  const pointsNeeded = Math.max(0, targetPoint - currentPoint);
+  if (pointsNeeded === 0) {
+    return { status: 'AFFORDABLE', pointsNeeded: 0 };
+  }
+
+  const distanceNeeded = getDistanceForPoints(pointsNeeded);
+  if (weeklyPoints <= 0) {
+    return { status: 'NO_DATA', pointsNeeded, distanceNeeded };
+  }
+
+  const daysNeeded = Math.ceil((pointsNeeded / weeklyPoints) * 7);
+  return {
+    status: 'ESTIMATED',
+    pointsNeeded,
+    distanceNeeded,
+    daysNeeded,
+    estimatedDate: new Date(now.getTime() + daysNeeded * DAY_MS),
+  };
+};
+
+/**
+ * 예측 결과 안내 문구
+ * @param formatDistance - 사용자 거리 단위를 적용한 포맷 함수 (useDistanceUnit)
+ */
+export const getPointForecastMessage = (
+  forecast: PointForecast,
+  formatDistance: (meters: number) => string
+): string => {
+  switch (forecast.status) {
+    case 'AFFORDABLE':
+      return '지금 구매할 수 있어요';
+    case 'ESTIMATED': {
+      const { estimatedDate } = forecast;
+      return `${formatDistance(forecast.distanceNeeded)} 더 달리면 모을 수 있어요 · ${
+        estimatedDate.getMonth() + 1
+      }월 ${estimatedDate.getDate()}일쯤 예상`;
+    }
+    case 'NO_DATA':
+      return `${formatDistance(forecast.distanceNeeded)} 더 달리면 모을 수 있어요`;
+  }
+};
@@ -1,4 +1,6 @@
 /**
  * Point Models 통합 Export
  */
-export * from './Point';
\ No newline at end of file
+export * from './Point';
+export * from './PointForecast';
+export * from './PointAnalytics';
@@ -2,4 +2,5 @@
  * Point Services 통합 Export
  */
 export * from './pointService';
-export * from './pointQueries';
\ No newline at end of file
+export * from './pointQueries';
+export * from './pointExportService';
@@ -0,0 +1,75 @@
+/**
+ * Point Export Service
+ * 포인트 내역을 CSV 파일로 만들어 OS 공유 시트로 전달 (고객 문의 대응용)
+ */
+
+import * as FileSystem from 'expo-file-system/legacy';
+import { shareFile } from '~/features/share/services/shareService';
+import type { ShareResult } from '~/features/share/models/types';
+import {
+  POINT_HISTORY_CSV_MIME_TYPE,
+  serializePointHistoryCsv,
+  type PointDateRange,
+  type PointHistory,
+} from '../models';
+
+export interface PointHistoryExportFile {
+  fileName: string;
+  mimeType: string;
+  content: string;
+}
+
+const formatFileDate = (date: Date): string =>
+  `${date.getFullYear()}${String(date.getMonth() + 1).padStart(2, '0')}${String(date.getDate()).padStart(2, '0')}`;
+
+/**
+ * 내보내기 파일 내용 생성 (순수 함수)
+ */
+export const createPointHistoryExportFile = (
+  histories: readonly PointHistory[],
+  range: PointDateRange,
+  options: { truncated?: boolean } = {}
+): PointHistoryExportFile => {
+  const lastDay = new Date(range.endDate.getFullYear(), range.endDate.getMonth(), range.endDate.getDate() - 1);
+
+  return {
+    fileName: `runtaeho-points-${formatFileDate(range.startDate)}-${formatFileDate(lastDay)}.csv`,
+    mimeType: POINT_HISTORY_CSV_MIME_TYPE,
+    content: serializePointHistoryCsv(histories, options),
+  };
+};
+
+/**
+ * CSV 파일을 캐시 디렉토리에 저장 후 공유 시트 호출
+ */
+export const exportAndSharePointHistory = async (
+  histories: readonly PointHistory[],
+  range: PointDateRange,
+  options: { truncated?: boolean } = {}
+): Promise<ShareResult> => {
+  try {
+    if (!FileSystem.cacheDirectory) {
+      throw new Error('File system cache directory is not available');
+    }
+
+    const exportFile = createPointHistoryExportFile(histories, range, options);
+    const fileUri = `${FileSystem.cacheDirectory}${exportFile.fileName}`;
+
+    await FileSystem.writeAsStringAsync(fileUri, exportFile.content, {
+      encoding: FileSystem.EncodingType.UTF8,
+    });
+
+    return await shareFile(fileUri, exportFile.mimeType, exportFile.fileName);
+  } catch (error: any) {
+    console.error('[PointExportService] Failed to export point history:', error);
+    return {
+      success: false,
+      message: error.message || '포인트 내역 내보내기에 실패했습니다.',
+    };
+  }
+};
+
+export const pointExportService = {
+  createPointHistoryExportFile,
+  exportAndSharePointHistory,
+} as const;
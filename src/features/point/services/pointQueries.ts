@@ -66,6 +66,23 @@ export const useGetRecentPointHistories = (
   });
 };
 
+/**
+ * 기간 내 포인트 히스토리 전체 조회 (분석/내보내기용)
+ */
+export const useGetPointHistoriesInRange = (
+  params: { startDate: Date; endDate: Date },
+  options?: { enabled?: boolean }
+) => {
+  const startCreatedTimestamp = Math.floor(params.startDate.getTime() / 1000);
+  const endCreatedTimestamp = Math.floor(params.endDate.getTime() / 1000);
+
+  return useQuery({
+    queryKey: queryKeys.point.rangeHistory(startCreatedTimestamp, endCreatedTimestamp),
+    queryFn: () => pointService.getPointHistoriesInRange({ startCreatedTimestamp, endCreatedTimestamp }),
+    ...options,
+  });
+};
+
 /**
  * 사용자 포인트 잔액 조회
  */
@@ -4,8 +4,12 @@
 
 import { apiClient } from '../../../services/api/client';
 import { API_ENDPOINTS } from '../../../services/api/config';
-import type { PointHistory, PointHistoryRequest } from '../models';
+import type { PointHistory, PointHistoryRangeResult, PointHistoryRequest } from '../models';
 import type { CursorResult } from '~/shared/utils/dto/CursorResult';
+
+// 기간 조회 시 최대 페이지 수 (100건 * 50페이지)
+const MAX_RANGE_PAGES = 50;
+
 /**
  * Point API Service
  */
@@ -28,6 +32,46 @@ export const pointService = {
     return data;
   },
 
+  /**
+   * 기간 내 포인트 히스토리 전체 조회
+   * 서버는 시작 시각만 지원하므로 커서를 따라 모두 받은 뒤 종료 시각은 클라이언트에서 자른다.
+   * 페이지 한도까지 받고도 다음 페이지가 남으면 truncated (최신순이라 기간 초반 내역이 빠짐)
+   */
+  getPointHistoriesInRange: async (params: {
+    startCreatedTimestamp: number;
+    endCreatedTimestamp: number;
+  }): Promise<PointHistoryRangeResult> => {
+    const histories: PointHistory[] = [];
+    let cursor: number | undefined;
+    let truncated = false;
+
+    for (let page = 0; page < MAX_RANGE_PAGES; page++) {
+      const result = await pointService.getPointHistories({
+        ...(cursor !== undefined && { cursor }),
+        startCreatedTimestamp: params.startCreatedTimestamp,
+        size: 100,
+      });
+      histories.push(...result.content);
+
+      if (!result.hasNext || result.cursor === undefined) break;
+      cursor = result.cursor;
+      truncated = page === MAX_RANGE_PAGES - 1;
+    }
+
+    if (truncated) {
+      console.warn(`[PointService] Range histories truncated after ${MAX_RANGE_PAGES} pages`);
+    }
+
+    return {
+      histories: histories.filter(
+        (history) =>
+          history.createdTimestamp >= params.startCreatedTimestamp &&
+          history.createdTimestamp < params.endCreatedTimestamp
+      ),
+      truncated,
+    };
+  },
+
   /**
    * 사용자 포인트 잔액 조회
    */
@@ -1,4 +1,6 @@
 /**
  * Point ViewModels 통합 Export
  */
-export * from './PointViewModel';
\ No newline at end of file
+export * from './PointViewModel';
+export * from './usePointPlanner';
+export * from './usePointAnalyticsViewModel';
@@ -0,0 +1,86 @@
+import { useCallback, useMemo } from 'react';
+import { useGetStatisticsSummary } from '~/features/statistics/services';
+import { Period } from '~/features/statistics/models';
+import { useDistanceUnit } from '~/shared/hooks';
+import { useUserStore } from '~/stores/user/userStore';
+import {
+  POINT_FORECAST_WINDOW_WEEKS,
+  estimateWeeklyPoints,
+  forecastPointGoal,
+  getEarnRatesByPointType,
+  getPointForecastMessage,
+  getThreeMonthsAgo,
+} from '../models';
+import { useGetRecentPointHistories } from '../services';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * 포인트 플래너 ViewModel
+ * 최근 평균 주간 러닝 거리와 포인트 타입별 적립 기록으로 목표 포인트를 모으는 시점을 예측
+ */
+export const usePointPlanner = (options?: { enabled?: boolean }) => {
+  const enabled = options?.enabled ?? true;
+  const totalPoint = useUserStore((state) => state.totalPoint);
+  const { formatDistance } = useDistanceUnit();
+
+  // Query Key가 렌더마다 바뀌지 않도록 날짜 단위로 고정
+  const { windowStart, windowEnd } = useMemo(() => {
+    const now = new Date();
+    const tomorrow = new Date(now.getFullYear(), now.getMonth(), now.getDate() + 1);
+    return {
+      windowStart: new Date(tomorrow.getTime() - POINT_FORECAST_WINDOW_WEEKS * 7 * DAY_MS),
+      windowEnd: tomorrow,
+    };
+  }, []);
+
+  const { data: summary, isLoading: isLoadingSummary } = useGetStatisticsSummary(
+    { startDateTime: windowStart, endDateTime: windowEnd, statisticType: Period.WEEK },
+    { enabled }
+  );
+
+  // 포인트 내역 화면과 같은 최근 3개월 쿼리를 공유
+  const { data: recentHistories, isLoading: isLoadingHistories } = useGetRecentPointHistories(
+    { startDate: getThreeMonthsAgo() },
+    { enabled }
+  );
+
+  const averageWeeklyDistance = (summary?.totalDistance ?? 0) / POINT_FORECAST_WINDOW_WEEKS;
+
+  const earnRates = useMemo(
+    () => getEarnRatesByPointType(recentHistories?.content ?? [], windowEnd),
+    [recentHistories, windowEnd]
+  );
+
+  const estimate = useMemo(
+    () => estimateWeeklyPoints(averageWeeklyDistance, earnRates),
+    [averageWeeklyDistance, earnRates]
+  );
+
+  /**
+   * 목표 포인트 예측
+   * @param currentPoint 기준 포인트 (기본: 보유 포인트, 구매 직후 예측 시 잔여 포인트)
+   */
+  const forecast = useCallback(
+    (targetPoint: number, currentPoint: number = totalPoint) =>
+      forecastPointGoal({ targetPoint, currentPoint, weeklyPoints: estimate.weeklyPoints }),
+    [estimate.weeklyPoints, totalPoint]
+  );
+
+  const getForecastMessage = useCallback(
+    (targetPoint: number, currentPoint?: number) =>
+      getPointForecastMessage(forecast(targetPoint, currentPoint), (meters) =>
+        formatDistance(meters, { fractionDigits: 1 })
+      ),
+    [forecast, formatDistance]
+  );
+
+  return {
+    averageWeeklyDistance,
+    earnRates,
+    estimate,
+    forecast,
+    getForecastMessage,
+    isLoading: isLoadingSummary || isLoadingHistories,
+  };
+};
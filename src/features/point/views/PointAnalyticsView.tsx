@@ -0,0 +1,566 @@
+import { Ionicons } from '@expo/vector-icons';
+import React, { useCallback } from 'react';
+import {
+  ActivityIndicator,
+  Alert,
+  FlatList,
+  ScrollView,
+  StyleSheet,
+  TouchableOpacity,
+  View,
+  type StyleProp,
+  type TextStyle,
+} from 'react-native';
+import { SafeAreaProvider } from 'react-native-safe-area-context';
+import { TopScreenSafeAreaView } from '~/shared/components';
+import { Text } from '~/shared/components/typography';
+import { GREY, PRIMARY, RED } from '~/shared/styles';
+import {
+  PointFilter,
+  PointFilterConfig,
+  POINT_HISTORY_TRUNCATED_MESSAGE,
+  formatPointChange,
+  formatPoints,
+  type MonthlyPointTotal,
+  type PointHistorySummary,
+  type PointHistoryViewModel,
+  type PointTypeBreakdown,
+} from '../models';
+import { usePointAnalyticsViewModel } from '../viewmodels';
+import { PointDateRangePicker } from './components/PointDateRangePicker';
+
+/**
+ * 포인트 분석 화면
+ * 기간별 적립/사용 요약, 월별 추이, 포인트 타입별 합계, 필터한 내역 CSV 내보내기
+ */
+interface PointAnalyticsViewProps {
+  onClose: () => void;
+}
+
+// 월별 막대 최대 높이
+const MONTH_BAR_MAX_HEIGHT = 80;
+
+export const PointAnalyticsView: React.FC<PointAnalyticsViewProps> = ({ onClose }) => {
+  const {
+    range,
+    selectedPreset,
+    selectedFilter,
+    selectedPointType,
+    summary,
+    breakdown,
+    monthlyTotals,
+    filteredHistories,
+    isTruncated,
+    isLoading,
+    isError,
+    isExporting,
+    selectPreset,
+    selectMonthRange,
+    selectFilter,
+    togglePointType,
+    exportCsv,
+    refetch,
+  } = usePointAnalyticsViewModel();
+
+  const handleExport = useCallback(async () => {
+    if (filteredHistories.length === 0) {
+      Alert.alert('내보낼 내역이 없어요', '기간이나 필터를 바꿔 다시 시도해주세요.');
+      return;
+    }
+
+    const result = await exportCsv();
+    if (!result.success && result.message && result.message !== '공유가 취소되었습니다.') {
+      Alert.alert('내보내기 실패', result.message);
+    }
+  }, [exportCsv, filteredHistories.length]);
+
+  const listHeader = (
+    <View style={styles.listHeader}>
+      <View style={styles.section}>
+        <PointDateRangePicker
+          range={range}
+          selectedPreset={selectedPreset}
+          onSelectPreset={selectPreset}
+          onSelectMonthRange={selectMonthRange}
+        />
+      </View>
+
+      {isLoading ? (
+        <View style={styles.centerState}>
+          <ActivityIndicator size="large" color={GREY[800]} />
+        </View>
+      ) : isError ? (
+        <View style={styles.centerState}>
+          <Text style={styles.captionText}>포인트 내역을 불러오지 못했어요.</Text>
+          <TouchableOpacity onPress={() => void refetch()} testID="point-analytics-retry">
+            <Text style={styles.retryText}>다시 시도</Text>
+          </TouchableOpacity>
+        </View>
+      ) : (
+        <>
+          {isTruncated && (
+            <View style={styles.truncatedNotice} testID="point-analytics-truncated">
+              <Ionicons name="alert-circle-outline" size={16} color={GREY[700]} />
+              <Text style={styles.truncatedText}>{POINT_HISTORY_TRUNCATED_MESSAGE}</Text>
+            </View>
+          )}
+
+          <SummaryCard summary={summary} />
+
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>월별 적립 · 사용</Text>
+            <MonthlyChart months={monthlyTotals} />
+          </View>
+
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>유형별 합계</Text>
+            <BreakdownList
+              breakdown={breakdown}
+              selectedPointType={selectedPointType}
+              onSelect={togglePointType}
+            />
+          </View>
+
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>
+              {selectedPointType ? `${selectedPointType} 내역` : '포인트 내역'}
+            </Text>
+            <FilterTabs selected={selectedFilter} onSelect={selectFilter} />
+          </View>
+        </>
+      )}
+    </View>
+  );
+
+  return (
+    <SafeAreaProvider>
+      <TopScreenSafeAreaView style={styles.container} testID="point-analytics-screen">
+        <View style={styles.header}>
+          <TouchableOpacity onPress={onClose} style={styles.headerButton} testID="point-analytics-close">
+            <Ionicons name="chevron-back" size={24} color={GREY[900]} />
+          </TouchableOpacity>
+          <Text style={styles.headerTitle}>포인트 분석</Text>
+          <TouchableOpacity
+            onPress={() => void handleExport()}
+            disabled={isLoading || isExporting}
+            style={[styles.headerButton, styles.headerButtonRight]}
+            accessibilityLabel="CSV 내보내기"
+            testID="point-analytics-export"
+          >
+            {isExporting ? (
+              <ActivityIndicator size="small" color={GREY[800]} />
+            ) : (
+              <Ionicons name="download-outline" size={22} color={GREY[900]} />
+            )}
+          </TouchableOpacity>
+        </View>
+
+        <FlatList
+          testID="point-analytics-list"
+          data={isLoading || isError ? [] : filteredHistories}
+          keyExtractor={(item) => `point-analytics-${item.id}`}
+          renderItem={({ item }) => <HistoryRow history={item} />}
+          ListHeaderComponent={listHeader}
+          ListEmptyComponent={
+            isLoading || isError ? null : (
+              <Text style={[styles.captionText, styles.emptyText]}>이 기간에 포인트 내역이 없어요.</Text>
+            )
+          }
+          contentContainerStyle={styles.listContent}
+          showsVerticalScrollIndicator={false}
+        />
+      </TopScreenSafeAreaView>
+    </SafeAreaProvider>
+  );
+};
+
+// ========== 내부 컴포넌트들 ==========
+
+/**
+ * 기간 요약 카드
+ */
+const SummaryCard: React.FC<{ summary: PointHistorySummary }> = ({ summary }) => (
+  <View style={styles.summaryCard} testID="point-analytics-summary">
+    <SummaryItem label="적립" value={`+${formatPoints(summary.earned)}`} valueStyle={styles.pointPositive} />
+    <SummaryItem label="사용" value={`-${formatPoints(summary.spent)}`} valueStyle={styles.pointNegative} />
+    <SummaryItem label={`합계 (${summary.count}건)`} value={formatPointChange(summary.net)} />
+  </View>
+);
+
+const SummaryItem: React.FC<{ label: string; value: string; valueStyle?: StyleProp<TextStyle> }> = ({
+  label,
+  value,
+  valueStyle,
+}) => (
+  <View style={styles.summaryItem}>
+    <Text style={styles.summaryLabel}>{label}</Text>
+    <Text style={[styles.summaryValue, valueStyle]}>{value}</Text>
+  </View>
+);
+
+/**
+ * 월별 적립/사용 막대 차트
+ */
+const MonthlyChart: React.FC<{ months: MonthlyPointTotal[] }> = ({ months }) => {
+  const maxValue = Math.max(1, ...months.map((month) => Math.max(month.earned, month.spent)));
+  const toHeight = (value: number) => (value > 0 ? Math.max(2, (value / maxValue) * MONTH_BAR_MAX_HEIGHT) : 0);
+
+  return (
+    <View>
+      <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.chart}>
+        {months.map(({ month, earned, spent }) => (
+          <View key={month} style={styles.chartColumn} testID={`point-month-${month}`}>
+            <View style={styles.chartBars}>
+              <View style={[styles.chartBar, styles.chartBarEarned, { height: toHeight(earned) }]} />
+              <View style={[styles.chartBar, styles.chartBarSpent, { height: toHeight(spent) }]} />
+            </View>
+            <Text style={styles.chartLabel}>{`${Number(month.slice(5))}월`}</Text>
+          </View>
+        ))}
+      </ScrollView>
+      <View style={styles.legend}>
+        <View style={[styles.legendDot, styles.chartBarEarned]} />
+        <Text style={styles.captionText}>적립</Text>
+        <View style={[styles.legendDot, styles.chartBarSpent]} />
+        <Text style={styles.captionText}>사용</Text>
+      </View>
+    </View>
+  );
+};
+
+/**
+ * 포인트 타입별 합계 (누르면 해당 타입 내역만 표시)
+ */
+interface BreakdownListProps {
+  breakdown: PointTypeBreakdown[];
+  selectedPointType: string | null;
+  onSelect: (pointType: string) => void;
+}
+
+const BreakdownList: React.FC<BreakdownListProps> = ({ breakdown, selectedPointType, onSelect }) => {
+  if (breakdown.length === 0) {
+    return <Text style={styles.captionText}>이 기간에 포인트 내역이 없어요.</Text>;
+  }
+
+  return (
+    <View style={styles.breakdownList}>
+      {breakdown.map((group) => {
+        const isSelected = selectedPointType === group.pointType;
+        return (
+          <TouchableOpacity
+            key={group.pointType}
+            style={[styles.breakdownRow, isSelected && styles.breakdownRowSelected]}
+            onPress={() => onSelect(group.pointType)}
+            accessibilityState={{ selected: isSelected }}
+            testID={`point-breakdown-${group.pointType}`}
+          >
+            <View style={styles.breakdownLeft}>
+              <Text style={styles.breakdownTitle}>{group.pointType}</Text>
+              <Text style={styles.captionText}>{`${group.count}건`}</Text>
+            </View>
+            <View style={styles.breakdownRight}>
+              {group.earned > 0 && (
+                <Text style={[styles.breakdownValue, styles.pointPositive]}>{`+${formatPoints(group.earned)}`}</Text>
+              )}
+              {group.spent > 0 && (
+                <Text style={[styles.breakdownValue, styles.pointNegative]}>{`-${formatPoints(group.spent)}`}</Text>
+              )}
+            </View>
+          </TouchableOpacity>
+        );
+      })}
+    </View>
+  );
+};
+
+/**
+ * 적립/사용 필터 탭
+ */
+interface FilterTabsProps {
+  selected: PointFilter;
+  onSelect: (filter: PointFilter) => void;
+}
+
+const FilterTabs: React.FC<FilterTabsProps> = ({ selected, onSelect }) => (
+  <View style={styles.filterTabs}>
+    {[PointFilter.ALL, PointFilter.EARNED, PointFilter.SPENT].map((filter) => {
+      const isSelected = selected === filter;
+      return (
+        <TouchableOpacity
+          key={filter}
+          style={[styles.filterTab, isSelected && styles.filterTabSelected]}
+          onPress={() => onSelect(filter)}
+          testID={`point-analytics-filter-${filter}`}
+        >
+          <Text style={[styles.filterTabText, isSelected && styles.filterTabTextSelected]}>
+            {PointFilterConfig[filter].displayName}
+          </Text>
+        </TouchableOpacity>
+      );
+    })}
+  </View>
+);
+
+/**
+ * 개별 내역
+ */
+const HistoryRow: React.FC<{ history: PointHistoryViewModel }> = ({ history }) => (
+  <View style={styles.historyRow}>
+    <View style={styles.historyLeft}>
+      <Text style={styles.historyTitle}>{history.title}</Text>
+      <Text style={styles.captionText}>{history.formattedDate}</Text>
+    </View>
+    <Text style={[styles.historyPoint, history.isPositive ? styles.pointPositive : styles.pointNegative]}>
+      {history.formattedPoint}
+    </Text>
+  </View>
+);
+
+// ========== 스타일 ==========
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: GREY.WHITE,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: GREY[100],
+  },
+  headerButton: {
+    width: 40,
+    height: 40,
+    justifyContent: 'center',
+    alignItems: 'flex-start',
+  },
+  headerButtonRight: {
+    alignItems: 'flex-end',
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: GREY[900],
+    fontFamily: 'Pretendard',
+  },
+  listContent: {
+    paddingHorizontal: 20,
+    paddingBottom: 40,
+  },
+  listHeader: {
+    paddingTop: 16,
+    gap: 24,
+    marginBottom: 8,
+  },
+  section: {
+    gap: 12,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: GREY[900],
+    fontFamily: 'Pretendard',
+  },
+  centerState: {
+    alignItems: 'center',
+    paddingVertical: 40,
+    gap: 8,
+  },
+  captionText: {
+    fontSize: 12,
+    fontWeight: '400',
+    color: GREY[500],
+    fontFamily: 'Pretendard',
+  },
+  retryText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: PRIMARY[700],
+    fontFamily: 'Pretendard',
+  },
+  emptyText: {
+    textAlign: 'center',
+    paddingVertical: 40,
+  },
+
+  // ===== 요약 =====
+  truncatedNotice: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    borderRadius: 8,
+    backgroundColor: GREY[50],
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+  },
+  truncatedText: {
+    flex: 1,
+    fontSize: 12,
+    fontWeight: '500',
+    color: GREY[700],
+    fontFamily: 'Pretendard',
+  },
+  summaryCard: {
+    flexDirection: 'row',
+    borderRadius: 12,
+    backgroundColor: GREY[50],
+    paddingVertical: 16,
+  },
+  summaryItem: {
+    flex: 1,
+    alignItems: 'center',
+    gap: 6,
+  },
+  summaryLabel: {
+    fontSize: 12,
+    fontWeight: '400',
+    color: GREY[500],
+    fontFamily: 'Pretendard',
+  },
+  summaryValue: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: GREY[900],
+    fontFamily: 'Pretendard',
+  },
+
+  // ===== 월별 차트 =====
+  chart: {
+    gap: 16,
+    paddingVertical: 4,
+  },
+  chartColumn: {
+    alignItems: 'center',
+    gap: 6,
+  },
+  chartBars: {
+    flexDirection: 'row',
+    alignItems: 'flex-end',
+    height: MONTH_BAR_MAX_HEIGHT,
+    gap: 3,
+  },
+  chartBar: {
+    width: 10,
+    borderTopLeftRadius: 3,
+    borderTopRightRadius: 3,
+  },
+  chartBarEarned: {
+    backgroundColor: PRIMARY[600],
+  },
+  chartBarSpent: {
+    backgroundColor: RED[400],
+  },
+  chartLabel: {
+    fontSize: 11,
+    fontWeight: '500',
+    color: GREY[700],
+    fontFamily: 'Pretendard',
+  },
+  legend: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    marginTop: 8,
+  },
+  legendDot: {
+    width: 8,
+    height: 8,
+    borderRadius: 4,
+  },
+
+  // ===== 유형별 합계 =====
+  breakdownList: {
+    gap: 8,
+  },
+  breakdownRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    padding: 12,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: GREY[100],
+  },
+  breakdownRowSelected: {
+    borderColor: PRIMARY[600],
+    backgroundColor: PRIMARY[50],
+  },
+  breakdownLeft: {
+    gap: 4,
+  },
+  breakdownTitle: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: GREY[800],
+    fontFamily: 'Pretendard',
+  },
+  breakdownRight: {
+    alignItems: 'flex-end',
+    gap: 2,
+  },
+  breakdownValue: {
+    fontSize: 14,
+    fontWeight: '600',
+    fontFamily: 'Pretendard',
+  },
+
+  // ===== 필터 탭 =====
+  filterTabs: {
+    flexDirection: 'row',
+    gap: 6,
+  },
+  filterTab: {
+    paddingHorizontal: 16,
+    paddingVertical: 6,
+    borderRadius: 13,
+    backgroundColor: GREY[50],
+  },
+  filterTabSelected: {
+    backgroundColor: GREY[900],
+  },
+  filterTabText: {
+    fontSize: 13,
+    fontWeight: '500',
+    color: GREY[800],
+    fontFamily: 'Pretendard',
+  },
+  filterTabTextSelected: {
+    color: GREY.WHITE,
+  },
+
+  // ===== 내역 =====
+  historyRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingVertical: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: GREY[50],
+  },
+  historyLeft: {
+    flex: 1,
+    gap: 6,
+  },
+  historyTitle: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: GREY[800],
+    fontFamily: 'Pretendard',
+  },
+  historyPoint: {
+    fontSize: 16,
+    fontWeight: '600',
+    fontFamily: 'Pretendard',
+    marginLeft: 12,
+  },
+  pointPositive: {
+    color: PRIMARY[700],
+  },
+  pointNegative: {
+    color: RED[400],
+  },
+});
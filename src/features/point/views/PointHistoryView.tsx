@@ -3,18 +3,30 @@ import React from 'react';
 import {
   ActivityIndicator,
   FlatList,
+  Modal,
   RefreshControl,
   StyleSheet,
   TouchableOpacity,
   View,
 } from 'react-native';
 import { SafeAreaProvider } from 'react-native-safe-area-context';
+import { useAvatarWardrobeStore } from '~/features/avatar/stores/avatarWardrobeStore';
 import { TopScreenSafeAreaView } from '~/shared/components';
+import { useDistanceUnit } from '~/shared/hooks';
 import { Text } from '~/shared/components/typography';
 import { Icon } from '~/shared/components/ui';
 import { GREY, PRIMARY, RED } from '~/shared/styles';
-import { PointFilter, PointFilterConfig, type PointHistoryViewModel } from '../models';
-import { usePointViewModel } from '../viewmodels';
+import {
+  POINT_FORECAST_WINDOW_WEEKS,
+  PointFilter,
+  PointFilterConfig,
+  type PointHistoryViewModel,
+} from '../models';
+import { usePointPlanner, usePointViewModel } from '../viewmodels';
+import { PointAnalyticsView } from './PointAnalyticsView';
+
+// 플래너에 보여줄 위시리스트 목표 개수
+const MAX_PLANNER_GOALS = 3;
 
 
 interface PointHistoryViewProps {
@@ -35,6 +47,7 @@ export const PointHistoryView: React.FC<PointHistoryViewProps> = ({ onClose }) =
   } = usePointViewModel();
 
   const [isRefreshing, setIsRefreshing] = React.useState(false);
+  const [showAnalyticsView, setShowAnalyticsView] = React.useState(false);
 
   console.log('📊 [PointHistoryView] 렌더링, 필터:', selectedFilter, '내역 개수:', filteredPointHistory.length);
 
@@ -57,11 +70,14 @@ export const PointHistoryView: React.FC<PointHistoryViewProps> = ({ onClose }) =
     <SafeAreaProvider>
     <TopScreenSafeAreaView style={styles.container} testID="point-history-screen">
       {/* 헤더 */}
-      <Header onClose={onClose} />
+      <Header onClose={onClose} onPressAnalytics={() => setShowAnalyticsView(true)} />
 
       {/* 현재 보유 포인트 */}
       <CurrentPointCard points={currentPoints} />
 
+      {/* 포인트 플래너 */}
+      <PointPlannerCard />
+
       {/* 포인트 내역 섹션 */}
       <View style={styles.historySection}>
         {/* 타이틀 + 필터 탭 */}
@@ -95,6 +111,18 @@ export const PointHistoryView: React.FC<PointHistoryViewProps> = ({ onClose }) =
           />
         )}
       </View>
+
+      {/* 포인트 분석 모달 */}
+      {showAnalyticsView && (
+        <Modal
+          visible={showAnalyticsView}
+          animationType="slide"
+          presentationStyle="fullScreen"
+          onRequestClose={() => setShowAnalyticsView(false)}
+        >
+          <PointAnalyticsView onClose={() => setShowAnalyticsView(false)} />
+        </Modal>
+      )}
     </TopScreenSafeAreaView>
     </SafeAreaProvider>
   );
@@ -104,20 +132,28 @@ export const PointHistoryView: React.FC<PointHistoryViewProps> = ({ onClose }) =
 
 /**
  * 헤더 컴포넌트
- * Figma: 뒤로가기 버튼 + "포인트" 타이틀
+ * Figma: 뒤로가기 버튼 + "포인트" 타이틀 + 분석 버튼
  */
 interface HeaderProps {
   onClose: () => void;
+  onPressAnalytics: () => void;
 }
 
-const Header: React.FC<HeaderProps> = ({ onClose }) => {
+const Header: React.FC<HeaderProps> = ({ onClose, onPressAnalytics }) => {
   return (
     <View style={styles.header}>
       <TouchableOpacity onPress={onClose} style={styles.backButton} testID="point-history-close">
         <Ionicons name="chevron-back" size={24} color={GREY[900]} />
       </TouchableOpacity>
       <Text style={styles.headerTitle}>포인트</Text>
-      <View style={styles.headerSpacer} />
+      <TouchableOpacity
+        onPress={onPressAnalytics}
+        style={[styles.backButton, styles.analyticsButton]}
+        accessibilityLabel="포인트 분석"
+        testID="point-analytics-button"
+      >
+        <Ionicons name="bar-chart-outline" size={22} color={GREY[900]} />
+      </TouchableOpacity>
     </View>
   );
 };
@@ -142,6 +178,61 @@ const CurrentPointCard: React.FC<CurrentPointCardProps> = ({ points }) => {
   );
 };
 
+/**
+ * 포인트 플래너 카드
+ * 최근 러닝 거리와 적립 기록으로 위시리스트 아이템을 살 수 있는 시점을 예측
+ */
+const PointPlannerCard: React.FC = () => {
+  const { averageWeeklyDistance, earnRates, estimate, getForecastMessage, isLoading } = usePointPlanner();
+  const wishlist = useAvatarWardrobeStore((state) => state.wishlist);
+  const { formatDistance } = useDistanceUnit();
+
+  if (isLoading) return null;
+
+  const goals = wishlist.slice(0, MAX_PLANNER_GOALS);
+
+  return (
+    <View style={styles.plannerCard} testID="point-planner-card">
+      <Text style={styles.plannerTitle}>포인트 플래너</Text>
+      <Text style={styles.plannerSummary} testID="point-planner-summary">
+        {`최근 ${POINT_FORECAST_WINDOW_WEEKS}주 평균 주 ${formatDistance(averageWeeklyDistance, {
+          fractionDigits: 1,
+        })} · 주 약 ${estimate.weeklyPoints.toLocaleString()}P 적립`}
+      </Text>
+
+      {earnRates.length > 0 && (
+        <View style={styles.plannerRates}>
+          {earnRates.map((rate) => (
+            <View key={rate.pointType} style={styles.plannerRateChip}>
+              <Text style={styles.plannerRateText}>
+                {`${rate.pointType} 주 ${Math.round(rate.weeklyPoints).toLocaleString()}P`}
+              </Text>
+            </View>
+          ))}
+        </View>
+      )}
+
+      {goals.length === 0 ? (
+        <Text style={styles.plannerEmpty}>
+          아바타 상점에서 아이템을 찜하면 언제 살 수 있는지 알려드려요.
+        </Text>
+      ) : (
+        goals.map(({ item }) => (
+          <View key={item.id} style={styles.plannerGoal} testID={`point-planner-goal-${item.id}`}>
+            <View style={styles.plannerGoalHeader}>
+              <Text style={styles.plannerGoalName} numberOfLines={1}>
+                {item.name}
+              </Text>
+              <Text style={styles.plannerGoalPoint}>{item.point.toLocaleString()} P</Text>
+            </View>
+            <Text style={styles.plannerGoalMessage}>{getForecastMessage(item.point)}</Text>
+          </View>
+        ))
+      )}
+    </View>
+  );
+};
+
 /**
  * 필터 탭 컴포넌트
  * Figma: 전체/적립/사용 탭
@@ -253,8 +344,8 @@ const styles = StyleSheet.create({
     color: GREY[900],
     fontFamily: 'Pretendard',
   },
-  headerSpacer: {
-    width: 40, // 뒤로가기 버튼과 대칭
+  analyticsButton: {
+    alignItems: 'flex-end',
   },
 
   // ===== 현재 보유 포인트 카드 =====
@@ -284,6 +375,81 @@ const styles = StyleSheet.create({
     fontFamily: 'Pretendard',
   },
 
+  // ===== 포인트 플래너 =====
+  plannerCard: {
+    backgroundColor: GREY.WHITE,
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    marginBottom: 8,
+    gap: 8,
+  },
+  plannerTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: GREY[900],
+    fontFamily: 'Pretendard',
+  },
+  plannerSummary: {
+    fontSize: 13,
+    fontWeight: '400',
+    color: GREY[700],
+    fontFamily: 'Pretendard',
+  },
+  plannerRates: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 6,
+  },
+  plannerRateChip: {
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 12,
+    backgroundColor: GREY[50],
+  },
+  plannerRateText: {
+    fontSize: 12,
+    fontWeight: '500',
+    color: GREY[700],
+    fontFamily: 'Pretendard',
+  },
+  plannerEmpty: {
+    fontSize: 12,
+    fontWeight: '400',
+    color: GREY[500],
+    fontFamily: 'Pretendard',
+  },
+  plannerGoal: {
+    paddingVertical: 8,
+    borderTopWidth: 1,
+    borderTopColor: GREY[50],
+    gap: 4,
+  },
+  plannerGoalHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  plannerGoalName: {
+    flex: 1,
+    fontSize: 14,
+    fontWeight: '500',
+    color: GREY[800],
+    fontFamily: 'Pretendard',
+  },
+  plannerGoalPoint: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: GREY[900],
+    fontFamily: 'Pretendard',
+    marginLeft: 12,
+  },
+  plannerGoalMessage: {
+    fontSize: 12,
+    fontWeight: '400',
+    color: PRIMARY[700],
+    fontFamily: 'Pretendard',
+  },
+
   // ===== 포인트 내역 섹션 =====
   historySection: {
     flex: 1,
@@ -0,0 +1,309 @@
+import { Ionicons } from '@expo/vector-icons';
+import React, { useState } from 'react';
+import { Modal, StyleSheet, TouchableOpacity, View } from 'react-native';
+import { Text } from '~/shared/components/typography';
+import { GREY, PRIMARY } from '~/shared/styles';
+import {
+  POINT_RANGE_PRESETS,
+  POINT_RANGE_PRESET_LABELS,
+  formatPointDateRange,
+  type PointDateRange,
+  type PointRangePreset,
+} from '../../models';
+
+/**
+ * 포인트 조회 기간 선택
+ * 프리셋(1개월/3개월/6개월/1년) 또는 월 단위 직접 설정
+ */
+interface PointDateRangePickerProps {
+  range: PointDateRange;
+  selectedPreset: PointRangePreset | null;
+  onSelectPreset: (preset: PointRangePreset) => void;
+  onSelectMonthRange: (startMonth: Date, endMonth: Date) => void;
+}
+
+export const PointDateRangePicker: React.FC<PointDateRangePickerProps> = ({
+  range,
+  selectedPreset,
+  onSelectPreset,
+  onSelectMonthRange,
+}) => {
+  const [isCustomModalVisible, setIsCustomModalVisible] = useState(false);
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.chipRow}>
+        {POINT_RANGE_PRESETS.map((preset) => (
+          <RangeChip
+            key={preset}
+            label={POINT_RANGE_PRESET_LABELS[preset]}
+            isSelected={selectedPreset === preset}
+            onPress={() => onSelectPreset(preset)}
+            testID={`point-range-${preset}`}
+          />
+        ))}
+        <RangeChip
+          label="직접 설정"
+          isSelected={selectedPreset === null}
+          onPress={() => setIsCustomModalVisible(true)}
+          testID="point-range-custom"
+        />
+      </View>
+      <Text style={styles.rangeLabel} testID="point-range-label">
+        {formatPointDateRange(range)}
+      </Text>
+
+      {isCustomModalVisible && (
+        <MonthRangeModal
+          initialRange={range}
+          onApply={(startMonth, endMonth) => {
+            setIsCustomModalVisible(false);
+            onSelectMonthRange(startMonth, endMonth);
+          }}
+          onClose={() => setIsCustomModalVisible(false)}
+        />
+      )}
+    </View>
+  );
+};
+
+// ========== 내부 컴포넌트들 ==========
+
+interface RangeChipProps {
+  label: string;
+  isSelected: boolean;
+  onPress: () => void;
+  testID: string;
+}
+
+const RangeChip: React.FC<RangeChipProps> = ({ label, isSelected, onPress, testID }) => (
+  <TouchableOpacity
+    style={[styles.chip, isSelected && styles.chipSelected]}
+    onPress={onPress}
+    accessibilityState={{ selected: isSelected }}
+    testID={testID}
+  >
+    <Text style={[styles.chipText, isSelected && styles.chipTextSelected]}>{label}</Text>
+  </TouchableOpacity>
+);
+
+const addMonths = (date: Date, months: number) => new Date(date.getFullYear(), date.getMonth() + months, 1);
+
+/**
+ * 월 단위 기간 설정 모달
+ */
+interface MonthRangeModalProps {
+  initialRange: PointDateRange;
+  onApply: (startMonth: Date, endMonth: Date) => void;
+  onClose: () => void;
+}
+
+const MonthRangeModal: React.FC<MonthRangeModalProps> = ({ initialRange, onApply, onClose }) => {
+  const now = new Date();
+  const currentMonth = new Date(now.getFullYear(), now.getMonth(), 1);
+  const [startMonth, setStartMonth] = useState(
+    () => new Date(initialRange.startDate.getFullYear(), initialRange.startDate.getMonth(), 1)
+  );
+  const [endMonth, setEndMonth] = useState(() => {
+    const lastDay = new Date(initialRange.endDate.getTime() - 1);
+    return new Date(lastDay.getFullYear(), lastDay.getMonth(), 1);
+  });
+
+  return (
+    <Modal visible transparent animationType="fade" onRequestClose={onClose}>
+      <TouchableOpacity style={styles.overlay} activeOpacity={1} onPress={onClose}>
+        <TouchableOpacity activeOpacity={1} onPress={(e) => e.stopPropagation()}>
+          <View style={styles.modal} testID="point-range-modal">
+            <Text style={styles.modalTitle}>기간 직접 설정</Text>
+
+            <MonthStepper
+              label="시작"
+              month={startMonth}
+              canDecrease
+              canIncrease={startMonth < endMonth}
+              onChange={(months) => setStartMonth((month) => addMonths(month, months))}
+              testID="point-range-start"
+            />
+            <MonthStepper
+              label="종료"
+              month={endMonth}
+              canDecrease={endMonth > startMonth}
+              canIncrease={endMonth < currentMonth}
+              onChange={(months) => setEndMonth((month) => addMonths(month, months))}
+              testID="point-range-end"
+            />
+
+            <View style={styles.modalButtons}>
+              <TouchableOpacity style={[styles.modalButton, styles.cancelButton]} onPress={onClose}>
+                <Text style={styles.cancelButtonText}>취소</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={[styles.modalButton, styles.applyButton]}
+                onPress={() => onApply(startMonth, endMonth)}
+                testID="point-range-apply"
+              >
+                <Text style={styles.applyButtonText}>적용</Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+        </TouchableOpacity>
+      </TouchableOpacity>
+    </Modal>
+  );
+};
+
+interface MonthStepperProps {
+  label: string;
+  month: Date;
+  canDecrease: boolean;
+  canIncrease: boolean;
+  onChange: (months: number) => void;
+  testID: string;
+}
+
+const MonthStepper: React.FC<MonthStepperProps> = ({
+  label,
+  month,
+  canDecrease,
+  canIncrease,
+  onChange,
+  testID,
+}) => (
+  <View style={styles.stepper}>
+    <Text style={styles.stepperLabel}>{label}</Text>
+    <View style={styles.stepperControls}>
+      <TouchableOpacity
+        onPress={() => onChange(-1)}
+        disabled={!canDecrease}
+        style={styles.stepperButton}
+        testID={`${testID}-prev`}
+      >
+        <Ionicons name="chevron-back" size={20} color={canDecrease ? GREY[900] : GREY[200]} />
+      </TouchableOpacity>
+      <Text style={styles.stepperValue} testID={`${testID}-value`}>
+        {`${month.getFullYear()}년 ${month.getMonth() + 1}월`}
+      </Text>
+      <TouchableOpacity
+        onPress={() => onChange(1)}
+        disabled={!canIncrease}
+        style={styles.stepperButton}
+        testID={`${testID}-next`}
+      >
+        <Ionicons name="chevron-forward" size={20} color={canIncrease ? GREY[900] : GREY[200]} />
+      </TouchableOpacity>
+    </View>
+  </View>
+);
+
+// ========== 스타일 ==========
+
+const styles = StyleSheet.create({
+  container: {
+    gap: 8,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 6,
+  },
+  chip: {
+    paddingHorizontal: 14,
+    paddingVertical: 6,
+    borderRadius: 13,
+    backgroundColor: GREY[50],
+  },
+  chipSelected: {
+    backgroundColor: GREY[900],
+  },
+  chipText: {
+    fontSize: 13,
+    fontWeight: '500',
+    color: GREY[800],
+    fontFamily: 'Pretendard',
+  },
+  chipTextSelected: {
+    color: GREY.WHITE,
+  },
+  rangeLabel: {
+    fontSize: 12,
+    fontWeight: '400',
+    color: GREY[500],
+    fontFamily: 'Pretendard',
+  },
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  modal: {
+    width: 320,
+    backgroundColor: GREY.WHITE,
+    borderRadius: 16,
+    padding: 20,
+    gap: 16,
+  },
+  modalTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: GREY[900],
+    fontFamily: 'Pretendard',
+    textAlign: 'center',
+  },
+  stepper: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  stepperLabel: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: GREY[700],
+    fontFamily: 'Pretendard',
+  },
+  stepperControls: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  stepperButton: {
+    padding: 4,
+  },
+  stepperValue: {
+    minWidth: 96,
+    textAlign: 'center',
+    fontSize: 15,
+    fontWeight: '600',
+    color: GREY[900],
+    fontFamily: 'Pretendard',
+  },
+  modalButtons: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  modalButton: {
+    flex: 1,
+    height: 44,
+    borderRadius: 8,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  cancelButton: {
+    backgroundColor: GREY[100],
+  },
+  cancelButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: GREY[800],
+    fontFamily: 'Pretendard',
+  },
+  applyButton: {
+    backgroundColor: PRIMARY[600],
+  },
+  applyButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: GREY.WHITE,
+    fontFamily: 'Pretendard',
+  },
+});
@@ -4,3 +4,4 @@
  */
 
 export { PointHistoryView } from './PointHistoryView';
+export { PointAnalyticsView } from './PointAnalyticsView';
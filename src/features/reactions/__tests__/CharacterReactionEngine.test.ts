@@ -0,0 +1,159 @@
+import { getRunHighlightLabel, resolveReactionGoalDistance } from '../models';
+import {
+  createCharacterReactionState,
+  evaluateCharacterReactions,
+  LONG_PAUSE_SEC,
+  REACTION_COOLDOWN_SEC,
+  type CharacterReactionConfig,
+} from '../services/CharacterReactionEngine';
+import { createWorkoutPlan } from '~/features/workout/models';
+import { DistanceUnit } from '~/stores/user/userStore';
+
+const buildConfig = (overrides: Partial<CharacterReactionConfig> = {}): CharacterReactionConfig => ({
+  splitDistanceMeters: 1000,
+  goalDistanceMeters: null,
+  prPaceSecondsPerKm: null,
+  ...overrides,
+});
+
+describe('CharacterReactionEngine', () => {
+  it('celebrates each km split once, keeping only the latest when several are crossed', () => {
+    let state = createCharacterReactionState(buildConfig());
+
+    const beforeSplit = evaluateCharacterReactions(state, { distance: 990, elapsedSec: 300, pausedSec: 0 });
+    expect(beforeSplit.reaction).toBeNull();
+    state = beforeSplit.state;
+
+    const firstSplit = evaluateCharacterReactions(state, { distance: 1004, elapsedSec: 303, pausedSec: 0 });
+    expect(firstSplit.reaction).toBe('CELEBRATE');
+    expect(firstSplit.highlights).toEqual([
+      { moment: 'SPLIT', reaction: 'CELEBRATE', value: 1000, distance: 1004, elapsedSec: 303, played: true },
+    ]);
+    state = firstSplit.state;
+
+    expect(evaluateCharacterReactions(state, { distance: 1010, elapsedSec: 305, pausedSec: 0 }).highlights).toEqual([]);
+
+    const jump = evaluateCharacterReactions(state, { distance: 3250, elapsedSec: 1000, pausedSec: 0 });
+    expect(jump.highlights.map(({ value }) => value)).toEqual([3000]);
+    expect(jump.state.nextSplitDistance).toBe(4000);
+  });
+
+  it('reacts once at the halfway point of the goal and when the average pace beats the PR', () => {
+    let state = createCharacterReactionState(
+      buildConfig({ goalDistanceMeters: 5000, prPaceSecondsPerKm: 300 })
+    );
+
+    // 1km를 5분 넘게 달려 PR 페이스는 아직 아님
+    state = evaluateCharacterReactions(state, { distance: 1000, elapsedSec: 310, pausedSec: 0 }).state;
+    state = evaluateCharacterReactions(state, { distance: 2000, elapsedSec: 620, pausedSec: 0 }).state;
+
+    const halfway = evaluateCharacterReactions(state, { distance: 2500, elapsedSec: 760, pausedSec: 0 });
+    expect(halfway.highlights.map(({ moment }) => moment)).toEqual(['GOAL_HALFWAY']);
+    expect(halfway.reaction).toBe('CELEBRATE');
+    state = halfway.state;
+
+    const prPace = evaluateCharacterReactions(state, { distance: 2800, elapsedSec: 830, pausedSec: 0 });
+    expect(prPace.highlights).toEqual([
+      expect.objectContaining({ moment: 'PR_PACE', reaction: 'VICTORY', played: true }),
+    ]);
+    expect(prPace.highlights[0]!.value).toBeCloseTo(296.43, 2);
+    state = prPace.state;
+
+    expect(
+      evaluateCharacterReactions(state, { distance: 3000, elapsedSec: 850, pausedSec: 0 }).highlights.map(
+        ({ moment }) => moment
+      )
+    ).toEqual(['SPLIT']);
+  });
+
+  it('rate-limits playback but still records every moment as a highlight', () => {
+    let state = createCharacterReactionState(buildConfig({ splitDistanceMeters: 100, goalDistanceMeters: 400 }));
+
+    // 같은 샘플에서 겹치면 우선순위가 높은 목표 절반만 재생
+    const overlap = evaluateCharacterReactions(state, { distance: 200, elapsedSec: 60, pausedSec: 0 });
+    expect(overlap.reaction).toBe('CELEBRATE');
+    expect(overlap.highlights.map(({ moment, played }) => [moment, played])).toEqual([
+      ['SPLIT', false],
+      ['GOAL_HALFWAY', true],
+    ]);
+    state = overlap.state;
+
+    const cooling = evaluateCharacterReactions(state, {
+      distance: 300,
+      elapsedSec: 60 + REACTION_COOLDOWN_SEC - 1,
+      pausedSec: 0,
+    });
+    expect(cooling.reaction).toBeNull();
+    expect(cooling.highlights).toEqual([expect.objectContaining({ moment: 'SPLIT', played: false })]);
+    state = cooling.state;
+
+    const afterCooldown = evaluateCharacterReactions(state, {
+      distance: 400,
+      elapsedSec: 60 + REACTION_COOLDOWN_SEC,
+      pausedSec: 0,
+    });
+    expect(afterCooldown.reaction).toBe('CELEBRATE');
+  });
+
+  it('offers a drink after a long pause but not after a short one', () => {
+    let state = createCharacterReactionState(buildConfig());
+
+    const shortPause = evaluateCharacterReactions(state, { distance: 400, elapsedSec: 120, pausedSec: 30 });
+    expect(shortPause.highlights).toEqual([]);
+    state = shortPause.state;
+
+    const longPause = evaluateCharacterReactions(state, {
+      distance: 420,
+      elapsedSec: 125,
+      pausedSec: 30 + LONG_PAUSE_SEC + 60,
+    });
+    expect(longPause.reaction).toBe('DRINK');
+    expect(longPause.highlights).toEqual([
+      expect.objectContaining({ moment: 'LONG_PAUSE', value: LONG_PAUSE_SEC + 60 }),
+    ]);
+    expect(getRunHighlightLabel(longPause.highlights[0]!)).toBe('휴식 3분 후 재출발');
+  });
+
+  it('takes the goal from a distance workout plan first, then from the ghost pacer', () => {
+    const distancePlan = createWorkoutPlan(
+      {
+        name: '5 x 400m',
+        warmup: { target: { type: 'distance', meters: 1000 }, targetPaceSecondsPerKm: null },
+        repeats: 5,
+        work: { target: { type: 'distance', meters: 400 }, targetPaceSecondsPerKm: 240 },
+        recovery: { target: { type: 'distance', meters: 200 }, targetPaceSecondsPerKm: null },
+        cooldown: null,
+      },
+      0
+    );
+    const timedPlan = createWorkoutPlan(
+      {
+        name: '30분',
+        warmup: null,
+        repeats: 1,
+        work: { target: { type: 'time', seconds: 1800 }, targetPaceSecondsPerKm: null },
+        recovery: null,
+        cooldown: null,
+      },
+      0
+    );
+    const personalRecordGhost = {
+      type: 'PERSONAL_RECORD' as const,
+      recordId: 1,
+      effortKey: '10k' as const,
+      durationSec: 3000,
+    };
+
+    expect(resolveReactionGoalDistance({ workoutPlan: distancePlan, ghostSource: personalRecordGhost })).toBe(3800);
+    expect(resolveReactionGoalDistance({ workoutPlan: timedPlan, ghostSource: personalRecordGhost })).toBe(10000);
+    expect(
+      resolveReactionGoalDistance({
+        workoutPlan: null,
+        ghostSource: { type: 'TARGET_PACE', paceSecondsPerKm: 360 },
+      })
+    ).toBeNull();
+    expect(getRunHighlightLabel({ moment: 'GOAL_HALFWAY', value: 5000 }, DistanceUnit.KILOMETER)).toBe(
+      '목표 10.00 km의 절반'
+    );
+  });
+});
@@ -0,0 +1,82 @@
+import { renderHook } from '@testing-library/react-native';
+import { createPaceGhostTimeline } from '~/features/ghost/models';
+import { useGhostPacerStore } from '~/features/ghost/stores/ghostPacerStore';
+import {
+  useCharacterReactions,
+  type UseCharacterReactionsProps,
+} from '~/features/reactions/hooks/useCharacterReactions';
+import { useRunHighlightStore } from '~/features/reactions/stores/runHighlightStore';
+import { RunningState } from '~/stores/app/appStore';
+import { resetAllStores } from '~/test-utils/resetState';
+
+const mockPlayReaction = jest.fn();
+
+jest.mock('~/features/unity/services/UnityService', () => ({
+  unityService: {
+    playReaction: (...args: unknown[]) => mockPlayReaction(...args),
+  },
+}));
+
+const createProps = (overrides?: Partial<UseCharacterReactionsProps>): UseCharacterReactionsProps => ({
+  isUnityReady: true,
+  runningState: RunningState.Running,
+  distance: 0,
+  elapsedTime: 0,
+  pausedDuration: 0,
+  ...overrides,
+});
+
+describe('useCharacterReactions', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    resetAllStores();
+  });
+
+  it('plays reactions over the run and keeps the highlights for the finished screen', () => {
+    useGhostPacerStore.getState().selectGhost({
+      source: { type: 'PERSONAL_RECORD', recordId: 1, effortKey: '5k', durationSec: 1500 },
+      timeline: createPaceGhostTimeline(300),
+    });
+
+    const { rerender } = renderHook((props: UseCharacterReactionsProps) => useCharacterReactions(props), {
+      initialProps: createProps(),
+    });
+
+    rerender(createProps({ distance: 1002, elapsedTime: 300 }));
+    expect(mockPlayReaction).toHaveBeenLastCalledWith('CELEBRATE');
+
+    // 일시정지 중에는 판정하지 않고, 긴 휴식 후 재출발하면 반응
+    rerender(createProps({ runningState: RunningState.Paused, distance: 1002, elapsedTime: 300 }));
+    rerender(createProps({ distance: 1010, elapsedTime: 301, pausedDuration: 180 }));
+    expect(mockPlayReaction).toHaveBeenLastCalledWith('DRINK');
+
+    // 목표(5km 고스트)의 절반 - 직전 반응 후 20초가 지나지 않았으면 기록만
+    rerender(createProps({ distance: 2510, elapsedTime: 310, pausedDuration: 180 }));
+    expect(mockPlayReaction).toHaveBeenCalledTimes(2);
+
+    rerender(createProps({ runningState: RunningState.Finished, distance: 2510, elapsedTime: 310 }));
+    expect(
+      useRunHighlightStore.getState().highlights.map(({ moment, played }) => [moment, played])
+    ).toEqual([
+      ['SPLIT', true],
+      ['LONG_PAUSE', true],
+      ['SPLIT', false],
+      ['GOAL_HALFWAY', false],
+    ]);
+  });
+
+  it('records highlights without playing them while Unity is not ready, and clears them on the next run', () => {
+    useRunHighlightStore.getState().addHighlights([
+      { moment: 'SPLIT', reaction: 'CELEBRATE', value: 1000, distance: 1000, elapsedSec: 300, played: true },
+    ]);
+
+    const { rerender } = renderHook((props: UseCharacterReactionsProps) => useCharacterReactions(props), {
+      initialProps: createProps({ isUnityReady: false }),
+    });
+    expect(useRunHighlightStore.getState().highlights).toEqual([]);
+
+    rerender(createProps({ isUnityReady: false, distance: 1001, elapsedTime: 280 }));
+    expect(mockPlayReaction).not.toHaveBeenCalled();
+    expect(useRunHighlightStore.getState().highlights).toHaveLength(1);
+  });
+});
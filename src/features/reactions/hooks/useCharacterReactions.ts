@@ -0,0 +1,101 @@
+/**
+ * useCharacterReactions Hook
+ *
+ * 러닝 중 특별한 순간에 Unity 캐릭터 반응 재생
+ *
+ * 책임:
+ * - Running 진입 시 구간 단위/목표 거리/최고 페이스 기준 고정 (러닝 중 설정을 바꿔도 영향 없음)
+ * - 1초 tick마다 tracking snapshot 거리로 반응 엔진 진행
+ * - 판정된 순간을 하이라이트로 기록 (완료 화면 다시 보기용)
+ */
+
+import { useEffect, useRef } from 'react';
+import { useGhostPacerStore } from '~/features/ghost/stores/ghostPacerStore';
+import { usePersonalRecordStore } from '~/features/statistics/stores/personalRecordStore';
+import { unityService } from '~/features/unity/services/UnityService';
+import { useWorkoutStore } from '~/features/workout/stores/workoutStore';
+import { getMetersPerUnit } from '~/shared/utils/unitFormatters';
+import { RunningState } from '~/stores/app/appStore';
+import { useUserStore } from '~/stores/user/userStore';
+import { resolveReactionGoalDistance } from '../models';
+import {
+  createCharacterReactionState,
+  evaluateCharacterReactions,
+  type CharacterReactionState,
+} from '../services/CharacterReactionEngine';
+import { useRunHighlightStore } from '../stores/runHighlightStore';
+
+export interface UseCharacterReactionsProps {
+  isUnityReady: boolean;
+  runningState: RunningState;
+  distance: number;
+  elapsedTime: number;
+  /** 누적 일시정지 시간 (초) */
+  pausedDuration: number;
+}
+
+const createRunReactionState = (): CharacterReactionState => {
+  const { plans, selectedPlanId } = useWorkoutStore.getState();
+  const ghostSelection = useGhostPacerStore.getState().selection;
+  const fastestPace = usePersonalRecordStore.getState().personalBests?.fastestPace ?? null;
+  const { distanceUnit } = useUserStore.getState().userPreferences;
+
+  return createCharacterReactionState({
+    splitDistanceMeters: getMetersPerUnit(distanceUnit),
+    goalDistanceMeters: resolveReactionGoalDistance({
+      workoutPlan: plans.find(({ id }) => id === selectedPlanId) ?? null,
+      ghostSource: ghostSelection?.source ?? null,
+    }),
+    prPaceSecondsPerKm: fastestPace ? fastestPace.value * 60 : null,
+  });
+};
+
+export const useCharacterReactions = ({
+  isUnityReady,
+  runningState,
+  distance,
+  elapsedTime,
+  pausedDuration,
+}: UseCharacterReactionsProps): void => {
+  const engineStateRef = useRef<CharacterReactionState | null>(null);
+  const liveInputsRef = useRef({ distance, pausedDuration, isUnityReady });
+
+  useEffect(() => {
+    liveInputsRef.current = { distance, pausedDuration, isUnityReady };
+  }, [distance, pausedDuration, isUnityReady]);
+
+  // 1초 tick(elapsedTime)과 상태 전환에만 반응, 나머지는 최신 값을 ref로 읽음
+  useEffect(() => {
+    const isActiveRun =
+      runningState === RunningState.Running || runningState === RunningState.Paused;
+
+    if (!isActiveRun) {
+      // 완료 화면에서 다시 볼 수 있도록 하이라이트는 다음 러닝 시작 전까지 유지
+      engineStateRef.current = null;
+      return;
+    }
+
+    if (!engineStateRef.current) {
+      engineStateRef.current = createRunReactionState();
+      useRunHighlightStore.getState().startRun();
+    }
+
+    if (runningState !== RunningState.Running) return;
+
+    const { distance: currentDistance, pausedDuration: currentPausedSec, isUnityReady: canPlay } =
+      liveInputsRef.current;
+    const { state, highlights, reaction } = evaluateCharacterReactions(engineStateRef.current, {
+      distance: currentDistance,
+      elapsedSec: elapsedTime,
+      pausedSec: currentPausedSec,
+    });
+    engineStateRef.current = state;
+
+    if (highlights.length > 0) {
+      useRunHighlightStore.getState().addHighlights(highlights);
+    }
+    if (reaction && canPlay) {
+      void unityService.playReaction(reaction);
+    }
+  }, [runningState, elapsedTime]);
+};
@@ -0,0 +1,74 @@
+/**
+ * useRunHighlightReplay Hook
+ *
+ * 완료 화면에서 이번 러닝의 하이라이트 반응을 Unity 캐릭터로 다시 재생
+ * - 하나만 재생하거나, 전체를 일정 간격으로 순서대로 재생
+ * - 재생 중인 하이라이트 index를 노출 (화면 강조용)
+ */
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { unityService } from '~/features/unity/services/UnityService';
+import type { RunHighlight } from '../models';
+import { useRunHighlightStore } from '../stores/runHighlightStore';
+
+// 전체 다시 보기에서 반응 사이 간격 (반응 애니메이션 1회 길이보다 길게)
+const REPLAY_INTERVAL_MS = 2000;
+
+export interface UseRunHighlightReplayReturn {
+  highlights: RunHighlight[];
+  replayingIndex: number | null;
+  replayHighlight: (index: number) => void;
+  replayAll: () => void;
+}
+
+export const useRunHighlightReplay = (): UseRunHighlightReplayReturn => {
+  const highlights = useRunHighlightStore((state) => state.highlights);
+  const [replayingIndex, setReplayingIndex] = useState<number | null>(null);
+  const timeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  const clearPending = useCallback(() => {
+    if (timeoutRef.current) {
+      clearTimeout(timeoutRef.current);
+      timeoutRef.current = null;
+    }
+  }, []);
+
+  useEffect(() => clearPending, [clearPending]);
+
+  const playFrom = useCallback(
+    (index: number, continueToEnd: boolean) => {
+      const highlight = highlights[index];
+      if (!highlight) {
+        setReplayingIndex(null);
+        return;
+      }
+
+      setReplayingIndex(index);
+      void unityService.playReaction(highlight.reaction);
+      timeoutRef.current = setTimeout(() => {
+        timeoutRef.current = null;
+        if (continueToEnd) {
+          playFrom(index + 1, true);
+        } else {
+          setReplayingIndex(null);
+        }
+      }, REPLAY_INTERVAL_MS);
+    },
+    [highlights]
+  );
+
+  const replayHighlight = useCallback(
+    (index: number) => {
+      clearPending();
+      playFrom(index, false);
+    },
+    [clearPending, playFrom]
+  );
+
+  const replayAll = useCallback(() => {
+    clearPending();
+    playFrom(0, true);
+  }, [clearPending, playFrom]);
+
+  return { highlights, replayingIndex, replayHighlight, replayAll };
+};
@@ -0,0 +1,64 @@
+/**
+ * Character Reaction
+ * 러닝 중 특별한 순간에 캐릭터가 보이는 반응과, 완료 화면에서 다시 보는 하이라이트
+ */
+
+import type { UnityReaction } from '~/features/unity/types/UnityTypes';
+import { formatDistance, formatPace } from '~/shared/utils/unitFormatters';
+import { DistanceUnit } from '~/stores/user/userStore';
+
+/**
+ * 반응을 일으키는 순간
+ * - SPLIT: 1km(마일 단위면 1mi) 통과
+ * - GOAL_HALFWAY: 목표 거리의 절반 통과
+ * - PR_PACE: 평균 페이스가 최고 페이스 기록보다 빨라짐
+ * - LONG_PAUSE: 긴 휴식 후 다시 출발
+ */
+export type ReactionMoment = 'SPLIT' | 'GOAL_HALFWAY' | 'PR_PACE' | 'LONG_PAUSE';
+
+export interface RunHighlight {
+  moment: ReactionMoment;
+  reaction: UnityReaction;
+  /** SPLIT/GOAL_HALFWAY: 통과 거리(m), PR_PACE: 평균 페이스(초/km), LONG_PAUSE: 휴식 시간(초) */
+  value: number;
+  distance: number; // 발생 시점 누적 거리 (미터)
+  elapsedSec: number; // 발생 시점 경과 시간 (초)
+  /** 쿨다운에 걸려 러닝 중에는 재생하지 않았으면 false */
+  played: boolean;
+}
+
+export const MOMENT_REACTIONS: Record<ReactionMoment, UnityReaction> = {
+  SPLIT: 'CELEBRATE',
+  GOAL_HALFWAY: 'CELEBRATE',
+  PR_PACE: 'VICTORY',
+  LONG_PAUSE: 'DRINK',
+};
+
+/**
+ * 같은 샘플에서 여러 순간이 겹치면 우선순위가 높은 반응만 재생
+ */
+export const MOMENT_PRIORITIES: Record<ReactionMoment, number> = {
+  SPLIT: 1,
+  LONG_PAUSE: 2,
+  GOAL_HALFWAY: 3,
+  PR_PACE: 4,
+};
+
+/**
+ * 하이라이트 문구 (예: "3.00 km 통과", "목표 10.00 km의 절반", "최고 페이스 경신 4:58 /km", "휴식 5분 후 재출발")
+ */
+export const getRunHighlightLabel = (
+  highlight: Pick<RunHighlight, 'moment' | 'value'>,
+  unit: DistanceUnit = DistanceUnit.KILOMETER
+): string => {
+  switch (highlight.moment) {
+    case 'SPLIT':
+      return `${formatDistance(highlight.value, unit)} 통과`;
+    case 'GOAL_HALFWAY':
+      return `목표 ${formatDistance(highlight.value * 2, unit)}의 절반`;
+    case 'PR_PACE':
+      return `최고 페이스 경신 ${formatPace(highlight.value / 60, unit, { withUnit: true })}`;
+    case 'LONG_PAUSE':
+      return `휴식 ${Math.round(highlight.value / 60)}분 후 재출발`;
+  }
+};
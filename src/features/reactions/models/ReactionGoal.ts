@@ -0,0 +1,48 @@
+/**
+ * Reaction Goal
+ * 목표 절반 반응에 쓰는 이번 러닝의 목표 거리
+ * 별도 목표 설정 없이, 러닝 시작 시 선택된 워크아웃 계획/고스트 페이서에서 가져온다.
+ */
+
+import type { GhostPacerSource } from '~/features/ghost/models';
+import { BEST_EFFORT_DISTANCES } from '~/features/statistics/models';
+import { expandWorkoutPlan, type WorkoutPlan } from '~/features/workout/models';
+
+/**
+ * 워크아웃 계획 전체 거리 (m), 시간 기준 단계가 하나라도 있으면 null
+ */
+const getWorkoutPlanDistance = (plan: WorkoutPlan): number | null => {
+  let total = 0;
+  for (const { target } of expandWorkoutPlan(plan)) {
+    if (target.type !== 'distance') return null;
+    total += target.meters;
+  }
+  return total > 0 ? total : null;
+};
+
+/**
+ * 고스트가 달리는 거리 (m), 목표 페이스 고스트는 끝이 없으므로 null
+ */
+const getGhostDistance = (source: GhostPacerSource): number | null => {
+  switch (source.type) {
+    case 'REPLAY':
+      return source.distance > 0 ? source.distance : null;
+    case 'PERSONAL_RECORD':
+      return BEST_EFFORT_DISTANCES.find(({ key }) => key === source.effortKey)?.meters ?? null;
+    case 'TARGET_PACE':
+      return null;
+  }
+};
+
+/**
+ * 목표 거리 (m), 워크아웃 계획이 고스트보다 우선하며 둘 다 없으면 null
+ */
+export const resolveReactionGoalDistance = ({
+  workoutPlan,
+  ghostSource,
+}: {
+  workoutPlan: WorkoutPlan | null;
+  ghostSource: GhostPacerSource | null;
+}): number | null =>
+  (workoutPlan ? getWorkoutPlanDistance(workoutPlan) : null) ??
+  (ghostSource ? getGhostDistance(ghostSource) : null);
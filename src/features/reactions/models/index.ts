@@ -0,0 +1,5 @@
+/**
+ * Reaction Models 통합 Export
+ */
+export * from './CharacterReaction';
+export * from './ReactionGoal';
@@ -0,0 +1,135 @@
+import { MIN_PACE_RECORD_DISTANCE_METERS } from '~/features/statistics/models';
+import type { UnityReaction } from '~/features/unity/types/UnityTypes';
+import {
+  MOMENT_PRIORITIES,
+  MOMENT_REACTIONS,
+  type ReactionMoment,
+  type RunHighlight,
+} from '../models';
+
+/**
+ * 캐릭터 반응 엔진 (순수 함수)
+ * - 누적 거리/경과 시간/누적 휴식 시간 샘플로 반응할 순간을 판정하고 하이라이트로 기록
+ * - 반응 재생은 쿨다운으로 제한, 쿨다운 중에 생긴 순간도 하이라이트에는 남긴다
+ */
+
+export interface CharacterReactionConfig {
+  splitDistanceMeters: number; // 구간 반응 간격 (1km 또는 1mi)
+  /** 목표 거리 (미터), 목표가 없으면 null */
+  goalDistanceMeters: number | null;
+  /** 최고 페이스 기록 (초/km), 기록이 없으면 null */
+  prPaceSecondsPerKm: number | null;
+}
+
+export interface CharacterReactionState {
+  config: CharacterReactionConfig;
+  nextSplitDistance: number;
+  halfwayReached: boolean;
+  prPaceReached: boolean;
+  /** 지금까지 받은 최대 거리 (foreground 값이 늦게 들어와도 되돌아가지 않도록) */
+  lastDistance: number;
+  lastPausedSec: number;
+  /** 마지막으로 반응을 재생한 시점 (일시정지를 포함한 러닝 시작 후 초), 아직 없으면 null */
+  lastPlayedAtSec: number | null;
+}
+
+export interface CharacterReactionSample {
+  distance: number; // 누적 거리 (미터)
+  elapsedSec: number; // 일시정지를 뺀 경과 시간 (초)
+  pausedSec: number; // 누적 일시정지 시간 (초)
+}
+
+// 반응 사이 최소 간격 (초, 일시정지 시간 포함)
+export const REACTION_COOLDOWN_SEC = 20;
+// 이 시간(초) 이상 쉬고 다시 달리면 휴식 반응
+export const LONG_PAUSE_SEC = 120;
+
+export const createCharacterReactionState = (
+  config: CharacterReactionConfig
+): CharacterReactionState => ({
+  config,
+  nextSplitDistance: config.splitDistanceMeters,
+  halfwayReached: config.goalDistanceMeters === null,
+  prPaceReached: config.prPaceSecondsPerKm === null,
+  lastDistance: 0,
+  lastPausedSec: 0,
+  lastPlayedAtSec: null,
+});
+
+/**
+ * 샘플 하나로 반응 상태를 진행
+ * 한 번에 여러 구간을 넘기면(백그라운드 복귀 등) 마지막 구간만 기록
+ * @returns 새로 기록할 하이라이트와 지금 재생할 반응 (없으면 null)
+ */
+export const evaluateCharacterReactions = (
+  state: CharacterReactionState,
+  sample: CharacterReactionSample
+): { state: CharacterReactionState; highlights: RunHighlight[]; reaction: UnityReaction | null } => {
+  const { config } = state;
+  const distance = Math.max(sample.distance, state.lastDistance);
+  const { elapsedSec } = sample;
+  const moments: { moment: ReactionMoment; value: number }[] = [];
+  let next: CharacterReactionState = {
+    ...state,
+    lastDistance: distance,
+    lastPausedSec: Math.max(sample.pausedSec, state.lastPausedSec),
+  };
+
+  if (sample.pausedSec - state.lastPausedSec >= LONG_PAUSE_SEC) {
+    moments.push({ moment: 'LONG_PAUSE', value: sample.pausedSec - state.lastPausedSec });
+  }
+
+  if (distance >= next.nextSplitDistance) {
+    const interval = config.splitDistanceMeters;
+    const milestone = Math.floor(distance / interval) * interval;
+    moments.push({ moment: 'SPLIT', value: milestone });
+    next = { ...next, nextSplitDistance: milestone + interval };
+  }
+
+  if (!next.halfwayReached && config.goalDistanceMeters !== null && distance >= config.goalDistanceMeters / 2) {
+    moments.push({ moment: 'GOAL_HALFWAY', value: config.goalDistanceMeters / 2 });
+    next = { ...next, halfwayReached: true };
+  }
+
+  if (
+    !next.prPaceReached &&
+    config.prPaceSecondsPerKm !== null &&
+    distance >= MIN_PACE_RECORD_DISTANCE_METERS &&
+    elapsedSec > 0
+  ) {
+    const averagePaceSec = elapsedSec / (distance / 1000);
+    if (averagePaceSec < config.prPaceSecondsPerKm) {
+      moments.push({ moment: 'PR_PACE', value: averagePaceSec });
+      next = { ...next, prPaceReached: true };
+    }
+  }
+
+  if (moments.length === 0) {
+    return { state: next, highlights: [], reaction: null };
+  }
+
+  const top = moments.reduce((best, candidate) =>
+    MOMENT_PRIORITIES[candidate.moment] > MOMENT_PRIORITIES[best.moment] ? candidate : best
+  );
+  const runClockSec = elapsedSec + sample.pausedSec;
+  const canPlay = next.lastPlayedAtSec === null || runClockSec - next.lastPlayedAtSec >= REACTION_COOLDOWN_SEC;
+
+  const highlights = moments.map(({ moment, value }) => ({
+    moment,
+    reaction: MOMENT_REACTIONS[moment],
+    value,
+    distance,
+    elapsedSec,
+    played: canPlay && moment === top.moment,
+  }));
+
+  if (!canPlay) {
+    return { state: next, highlights, reaction: null };
+  }
+
+  return {
+    state: { ...next, lastPlayedAtSec: runClockSec },
+    highlights,
+    reaction: MOMENT_REACTIONS[top.moment],
+  };
+};
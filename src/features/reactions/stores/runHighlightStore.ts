@@ -0,0 +1,31 @@
+import { create } from 'zustand';
+import type { RunHighlight } from '../models';
+
+/**
+ * Run Highlight Store (Zustand)
+ * - 진행 중(또는 방금 끝난) 러닝에서 캐릭터가 반응한 순간
+ * - 완료 화면이 다시 보기에 사용하며, 다음 러닝이 시작되면 비움
+ */
+interface RunHighlightState {
+  highlights: RunHighlight[];
+
+  // Actions
+  startRun: () => void;
+  addHighlights: (highlights: RunHighlight[]) => void;
+  reset: () => void;
+}
+
+const initialState = {
+  highlights: [] as RunHighlight[],
+};
+
+export const useRunHighlightStore = create<RunHighlightState>((set) => ({
+  ...initialState,
+
+  startRun: () => set({ highlights: [] }),
+
+  addHighlights: (highlights) =>
+    set((state) => ({ highlights: [...state.highlights, ...highlights] })),
+
+  reset: () => set(initialState),
+}));
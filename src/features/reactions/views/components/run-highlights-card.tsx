@@ -0,0 +1,102 @@
+import { Ionicons } from '@expo/vector-icons';
+import React from 'react';
+import { StyleSheet, TouchableOpacity, View } from 'react-native';
+import { formatDuration } from '~/features/running/models';
+import { Text } from '~/shared/components/typography';
+import { useDistanceUnit } from '~/shared/hooks';
+import { GREY, PRIMARY } from '~/shared/styles';
+import type { UnityReaction } from '~/features/unity/types/UnityTypes';
+import { useRunHighlightReplay } from '../../hooks/useRunHighlightReplay';
+import { getRunHighlightLabel } from '../../models';
+
+const REACTION_ICONS: Record<UnityReaction, keyof typeof Ionicons.glyphMap> = {
+  CELEBRATE: 'sparkles',
+  VICTORY: 'trophy',
+  TIRED: 'sad-outline',
+  DRINK: 'water',
+};
+
+/**
+ * 러닝 하이라이트 카드
+ * 러닝 중 캐릭터가 반응한 순간 목록, 누르면 캐릭터가 그 반응을 다시 재생
+ */
+export const RunHighlightsCard: React.FC = () => {
+  const { unit } = useDistanceUnit();
+  const { highlights, replayingIndex, replayHighlight, replayAll } = useRunHighlightReplay();
+
+  if (highlights.length === 0) return null;
+
+  return (
+    <View style={styles.container} testID="run-highlights-card">
+      <View style={styles.header}>
+        <Text style={styles.title}>오늘의 하이라이트</Text>
+        <TouchableOpacity onPress={replayAll} testID="run-highlights-replay-all">
+          <Text style={styles.replayAll}>전체 다시 보기</Text>
+        </TouchableOpacity>
+      </View>
+
+      {highlights.map((highlight, index) => (
+        <TouchableOpacity
+          key={`${highlight.moment}-${highlight.elapsedSec}-${index}`}
+          style={[styles.row, replayingIndex === index && styles.rowActive]}
+          onPress={() => replayHighlight(index)}
+          testID={`run-highlight-${index}`}
+        >
+          <Ionicons name={REACTION_ICONS[highlight.reaction]} size={18} color={PRIMARY[900]} />
+          <Text style={styles.label} numberOfLines={1}>
+            {getRunHighlightLabel(highlight, unit)}
+          </Text>
+          <Text style={styles.time}>{formatDuration(highlight.elapsedSec)}</Text>
+        </TouchableOpacity>
+      ))}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    width: '100%',
+    padding: 16,
+    gap: 6,
+    borderRadius: 8,
+    backgroundColor: GREY.WHITE,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: 4,
+  },
+  title: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: GREY[900],
+  },
+  replayAll: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: PRIMARY[900],
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    paddingVertical: 6,
+    paddingHorizontal: 8,
+    borderRadius: 6,
+  },
+  rowActive: {
+    backgroundColor: PRIMARY[50],
+  },
+  label: {
+    flex: 1,
+    fontSize: 14,
+    fontWeight: '600',
+    color: GREY[900],
+  },
+  time: {
+    fontSize: 12,
+    fontWeight: '500',
+    color: GREY[500],
+  },
+});
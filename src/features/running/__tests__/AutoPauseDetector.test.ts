@@ -0,0 +1,145 @@
+import {
+  AUTO_PAUSE_CONFIGS,
+  createInitialAutoPauseState,
+  evaluateAutoPause,
+  type AutoPauseDecision,
+} from '~/features/running/services/AutoPauseDetector';
+
+interface Tick {
+  /** GPS 속도 (m/s), undefined면 새 위치 신호 없음 */
+  speedMps?: number;
+  cadence?: number;
+}
+
+const START_MS = 1_740_000_000_000;
+const config = AUTO_PAUSE_CONFIGS.standard;
+
+const repeat = (tick: Tick, count: number): Tick[] => Array.from({ length: count }, () => tick);
+
+/**
+ * 1초 간격 tick을 순서대로 넣고, 결정에 따라 자동 일시정지 상태를 전환하며 결정 목록을 반환
+ */
+const simulate = (ticks: Tick[], initiallyPaused = false) => {
+  let state = createInitialAutoPauseState(initiallyPaused);
+  let isAutoPaused = initiallyPaused;
+  let lastSignal: { timestampMs: number; speedMps: number; accuracyMeters: number; distanceDeltaMeters: number } | undefined;
+  const decisions: (AutoPauseDecision & { tickIndex: number })[] = [];
+
+  ticks.forEach((tick, index) => {
+    const nowMs = START_MS + index * 1000;
+    if (tick.speedMps !== undefined) {
+      lastSignal = {
+        timestampMs: nowMs,
+        speedMps: tick.speedMps,
+        accuracyMeters: 5,
+        distanceDeltaMeters: tick.speedMps,
+      };
+    }
+
+    const result = evaluateAutoPause(
+      {
+        nowMs,
+        isAutoPaused,
+        ...(lastSignal && { paceSignal: lastSignal }),
+        ...(tick.cadence !== undefined && { cadence: tick.cadence }),
+      },
+      state,
+      config
+    );
+    state = result.nextState;
+
+    if (result.decision) {
+      decisions.push({ ...result.decision, tickIndex: index });
+      isAutoPaused = result.decision.type === 'pause';
+    }
+  });
+
+  return { decisions, isAutoPaused };
+};
+
+const running: Tick = { speedMps: 3, cadence: 170 };
+const standing: Tick = { speedMps: 0 };
+
+describe('AutoPauseDetector', () => {
+  it('pauses after standing still and backdates the pause to when the runner stopped', () => {
+    const { decisions, isAutoPaused } = simulate([...repeat(running, 10), ...repeat(standing, 20)]);
+
+    expect(isAutoPaused).toBe(true);
+    expect(decisions).toHaveLength(1);
+
+    const [pause] = decisions;
+    expect(pause?.type).toBe('pause');
+    // 감지 시점보다 이전(정지가 확정된 시점)으로 소급
+    expect(pause!.atMs).toBeLessThan(START_MS + pause!.tickIndex * 1000);
+    expect(pause!.atMs).toBeGreaterThanOrEqual(START_MS + 10 * 1000);
+  });
+
+  it('does not pause when location updates stop arriving (e.g. in a tunnel)', () => {
+    const { decisions } = simulate([...repeat(running, 10), ...repeat({}, 20)]);
+
+    expect(decisions).toHaveLength(0);
+  });
+
+  it('pauses from a measured low cadence when location updates stop arriving while standing', () => {
+    const { decisions } = simulate([...repeat(running, 10), ...repeat({ cadence: 0 }, 20)]);
+
+    expect(decisions.map(({ type }) => type)).toEqual(['pause']);
+  });
+
+  it('does not pause while the pedometer still reports running cadence', () => {
+    const { decisions } = simulate([...repeat(running, 10), ...repeat({ speedMps: 0, cadence: 165 }, 20)]);
+
+    expect(decisions).toHaveLength(0);
+  });
+
+  it('does not pause for a stop shorter than the dwell time', () => {
+    const { decisions } = simulate([
+      ...repeat(running, 10),
+      ...repeat(standing, 5),
+      ...repeat(running, 10),
+    ]);
+
+    expect(decisions).toHaveLength(0);
+  });
+
+  it('resumes after sustained movement and backdates the resume to when movement began', () => {
+    const { decisions, isAutoPaused } = simulate(
+      [...repeat(standing, 5), ...repeat(running, 10)],
+      true
+    );
+
+    expect(isAutoPaused).toBe(false);
+    expect(decisions.map(({ type }) => type)).toEqual(['resume']);
+    expect(decisions[0]!.atMs).toBeLessThan(START_MS + decisions[0]!.tickIndex * 1000);
+    expect(decisions[0]!.atMs).toBeGreaterThanOrEqual(START_MS + 5 * 1000);
+  });
+
+  it('resumes from cadence alone when GPS has not caught up yet', () => {
+    const { decisions } = simulate(
+      [...repeat(standing, 5), ...repeat({ cadence: 160 }, 5)],
+      true
+    );
+
+    expect(decisions.map(({ type }) => type)).toEqual(['resume']);
+  });
+
+  it('does not flap on brief GPS speed spikes while paused', () => {
+    const jittery = Array.from({ length: 30 }, (_, index): Tick =>
+      index % 3 === 0 ? { speedMps: 1.5 } : standing
+    );
+
+    const { decisions, isAutoPaused } = simulate(jittery, true);
+
+    expect(decisions).toHaveLength(0);
+    expect(isAutoPaused).toBe(true);
+  });
+
+  it('does not re-pause immediately after resuming', () => {
+    const { decisions } = simulate(
+      [...repeat(standing, 5), ...repeat(running, 6), ...repeat(standing, 3), ...repeat(running, 10)],
+      true
+    );
+
+    expect(decisions.map(({ type }) => type)).toEqual(['resume']);
+  });
+});
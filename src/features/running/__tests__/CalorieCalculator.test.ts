@@ -0,0 +1,117 @@
+import type { RunningRecord } from '~/features/running/models';
+import {
+  calculateRunningCalories,
+  recalculateRecordCalorie,
+} from '~/features/running/services/CalorieCalculator';
+import { calorieRecalculationService } from '~/features/running/services/CalorieRecalculationService';
+import {
+  EMPTY_PHYSIOLOGY_PROFILE,
+  resolvePhysiology,
+} from '~/features/user/models/PhysiologyProfile';
+
+const mockLoadRunningRecords = jest.fn();
+const mockUpdateRunningRecord = jest.fn();
+
+jest.mock('~/features/running/services/runningService', () => ({
+  runningService: {
+    loadRunningRecords: (...args: unknown[]) => mockLoadRunningRecords(...args),
+    updateRunningRecord: (...args: unknown[]) => mockUpdateRunningRecord(...args),
+  },
+}));
+
+const NOW = new Date('2026-06-01T00:00:00.000Z');
+
+const defaultPhysiology = resolvePhysiology(EMPTY_PHYSIOLOGY_PROFILE, NOW);
+
+const createRecord = (id: number, overrides?: Partial<RunningRecord>): RunningRecord => ({
+  id,
+  distance: 5000,
+  steps: 6000,
+  cadence: 170,
+  heartRate: null,
+  calorie: 0,
+  durationSec: 1800,
+  startTimestamp: 1735689600,
+  ...overrides,
+});
+
+describe('CalorieCalculator', () => {
+  it('keeps the previous 70kg / 30y / male assumptions for an empty profile', () => {
+    // MET 9.8 × 70kg × 0.5h
+    expect(
+      calculateRunningCalories({ distanceMeters: 5000, elapsedSeconds: 1800 }, defaultPhysiology)
+    ).toBeCloseTo(343, 5);
+
+    const keytel = calculateRunningCalories(
+      { distanceMeters: 5000, elapsedSeconds: 1800, heartRate: 150 },
+      defaultPhysiology
+    );
+    expect(keytel).toBeCloseTo(((-55.0969 + 0.6309 * 150 + 0.1988 * 70 + 0.2017 * 30) / 4.184) * 30, 5);
+  });
+
+  it('uses weight, age and sex from the physiology profile', () => {
+    const physiology = resolvePhysiology(
+      { ...EMPTY_PHYSIOLOGY_PROFILE, weightKg: 55, birthYear: 1986, sex: 'female' },
+      NOW
+    );
+
+    expect(
+      calculateRunningCalories({ distanceMeters: 5000, elapsedSeconds: 1800 }, physiology)
+    ).toBeCloseTo(9.8 * 55 * 0.5, 5);
+    expect(
+      calculateRunningCalories(
+        { distanceMeters: 5000, elapsedSeconds: 1800, heartRate: 150 },
+        physiology
+      )
+    ).toBeCloseTo(((-20.4022 + 0.4472 * 150 - 0.1263 * 55 + 0.074 * 40) / 4.184) * 30, 5);
+  });
+
+  it('returns undefined without distance and keeps the stored value for such records', () => {
+    expect(
+      calculateRunningCalories({ distanceMeters: 0, elapsedSeconds: 600 }, defaultPhysiology)
+    ).toBeUndefined();
+    expect(recalculateRecordCalorie(createRecord(1, { distance: 0, calorie: 12 }), defaultPhysiology)).toBe(12);
+  });
+});
+
+describe('CalorieRecalculationService', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockUpdateRunningRecord.mockResolvedValue(undefined);
+  });
+
+  it('updates only records whose calories change and continues past failures', async () => {
+    const physiology = resolvePhysiology({ ...EMPTY_PHYSIOLOGY_PROFILE, weightKg: 80 }, NOW);
+    const unchanged = createRecord(1);
+    unchanged.calorie = recalculateRecordCalorie(unchanged, physiology);
+    mockLoadRunningRecords.mockResolvedValue([
+      unchanged,
+      createRecord(2, { calorie: 343 }),
+      createRecord(3, { calorie: 200, heartRate: 155 }),
+    ]);
+    mockUpdateRunningRecord.mockRejectedValueOnce(new Error('network'));
+
+    const result = await calorieRecalculationService.recalculatePastRecords(physiology);
+
+    expect(result).toEqual({ total: 3, updated: 1, failed: 1 });
+    expect(mockUpdateRunningRecord).toHaveBeenCalledTimes(2);
+    expect(mockUpdateRunningRecord).toHaveBeenLastCalledWith(
+      expect.objectContaining({ id: 3, calorie: recalculateRecordCalorie(createRecord(3, { heartRate: 155 }), physiology) })
+    );
+  });
+
+  it('runs once more with the latest profile when asked again mid-run', async () => {
+    const first = resolvePhysiology({ ...EMPTY_PHYSIOLOGY_PROFILE, weightKg: 60 }, NOW);
+    const latest = resolvePhysiology({ ...EMPTY_PHYSIOLOGY_PROFILE, weightKg: 90 }, NOW);
+    mockLoadRunningRecords.mockResolvedValue([createRecord(1)]);
+
+    const firstRun = calorieRecalculationService.recalculatePastRecords(first);
+    const secondRun = calorieRecalculationService.recalculatePastRecords(latest);
+    await Promise.all([firstRun, secondRun]);
+
+    expect(mockLoadRunningRecords).toHaveBeenCalledTimes(2);
+    expect(mockUpdateRunningRecord).toHaveBeenLastCalledWith(
+      expect.objectContaining({ calorie: recalculateRecordCalorie(createRecord(1), latest) })
+    );
+  });
+});
@@ -1,6 +1,10 @@
 import * as Location from 'expo-location';
 import { DEFAULT_GPS_FILTER_CONFIG } from '~/features/running/services/gps/GpsFilter';
 import { getGpsCorrectionStrategy } from '~/features/running/services/gps/GpsCorrectionStrategy';
+import {
+  DEFAULT_GPS_SMOOTHING_CONFIG,
+  KALMAN_GPS_SMOOTHING_CONFIG,
+} from '~/features/running/services/gps/GpsKalmanSmoother';
 
 jest.mock('expo-location', () => ({
   __esModule: true,
@@ -39,6 +43,18 @@ describe('GpsCorrectionStrategy', () => {
     });
   });
 
+  it('opts into Kalman smoothing for iOS foreground and background only', () => {
+    (['foreground', 'background'] as const).forEach((source) => {
+      expect(getGpsCorrectionStrategy({ platform: 'ios', source }).getSmoothingConfig()).toEqual(
+        KALMAN_GPS_SMOOTHING_CONFIG
+      );
+      expect(
+        getGpsCorrectionStrategy({ platform: 'android', source }).getSmoothingConfig()
+      ).toEqual(DEFAULT_GPS_SMOOTHING_CONFIG);
+    });
+    expect(DEFAULT_GPS_SMOOTHING_CONFIG.mode).toBe('none');
+  });
+
   it('uses Android background collection options without changing iOS defaults', () => {
     const androidOptions = getGpsCorrectionStrategy({
       platform: 'android',
@@ -0,0 +1,183 @@
+import { calculateHaversineDistance } from '~/shared/utils/DistanceUtils';
+import {
+  createInitialGpsFilterState,
+  reduceGpsSample,
+  type GpsFilterState,
+  type GpsSample,
+} from '~/features/running/services/gps/GpsFilter';
+import { getGpsCorrectionStrategy } from '~/features/running/services/gps/GpsCorrectionStrategy';
+import {
+  DEFAULT_GPS_SMOOTHING_CONFIG,
+  createGpsKalmanState,
+  reduceSmoothedGpsSample,
+  stepGpsKalman,
+  type GpsSmoothingConfig,
+} from '~/features/running/services/gps/GpsKalmanSmoother';
+
+jest.mock('expo-location', () => ({
+  __esModule: true,
+  Accuracy: {
+    BestForNavigation: 'bestForNavigation',
+    High: 'high',
+  },
+}));
+
+const ORIGIN_LATITUDE = 37.5665;
+const ORIGIN_LONGITUDE = 126.978;
+const METERS_PER_DEGREE_LATITUDE = (Math.PI * 6371e3) / 180;
+const METERS_PER_DEGREE_LONGITUDE =
+  METERS_PER_DEGREE_LATITUDE * Math.cos((ORIGIN_LATITUDE * Math.PI) / 180);
+
+const RUNNING_SPEED_MPS = 3;
+const TRACE_SECONDS = 120;
+
+/**
+ * 결정적 의사난수 (-1 ~ 1)
+ */
+const createNoise = (seed: number) => {
+  let value = seed;
+  return () => {
+    value = (value * 1103515245 + 12345) % 2147483648;
+    return (value / 2147483648) * 2 - 1;
+  };
+};
+
+/**
+ * 동쪽으로 3m/s 직선 주행 + 좌우/앞뒤 2.5m GPS 잡음 (도심 지그재그 재현)
+ */
+const createZigZagTrace = (): GpsSample[] => {
+  const noise = createNoise(42);
+
+  return Array.from({ length: TRACE_SECONDS + 1 }, (_, second) => {
+    const eastMeters = second * RUNNING_SPEED_MPS + noise() * 2.5;
+    const northMeters = noise() * 2.5;
+
+    return {
+      latitude: ORIGIN_LATITUDE + northMeters / METERS_PER_DEGREE_LATITUDE,
+      longitude: ORIGIN_LONGITUDE + eastMeters / METERS_PER_DEGREE_LONGITUDE,
+      timestampMs: 1_700_000_000_000 + second * 1000,
+      speedMps: RUNNING_SPEED_MPS,
+      accuracyMeters: 8,
+    };
+  });
+};
+
+const replay = (
+  samples: GpsSample[],
+  smoothingConfig: GpsSmoothingConfig,
+  initialState: GpsFilterState = createInitialGpsFilterState()
+) => {
+  let state = initialState;
+  let distanceMeters = 0;
+  const path: GpsSample[] = [];
+
+  samples.forEach((sample) => {
+    const evaluation = reduceSmoothedGpsSample(state, sample, undefined, smoothingConfig);
+    state = evaluation.nextState;
+    if (evaluation.result.acceptedForDistance) {
+      distanceMeters += evaluation.result.distanceMeters;
+    }
+    if (evaluation.result.acceptedForPath) {
+      path.push(evaluation.smoothedSample);
+    }
+  });
+
+  return { state, distanceMeters, path };
+};
+
+const meanLateralOffsetMeters = (path: GpsSample[]): number =>
+  path.reduce(
+    (sum, sample) => sum + Math.abs(sample.latitude - ORIGIN_LATITUDE) * METERS_PER_DEGREE_LATITUDE,
+    0
+  ) / path.length;
+
+describe('GpsKalmanSmoother', () => {
+  const trueDistance = RUNNING_SPEED_MPS * TRACE_SECONDS;
+  const rawConfig = DEFAULT_GPS_SMOOTHING_CONFIG;
+  // 평가 대상: iOS foreground 전략의 스무딩 설정
+  const iosForegroundConfig = getGpsCorrectionStrategy({
+    platform: 'ios',
+    source: 'foreground',
+  }).getSmoothingConfig();
+
+  it('leaves smoothing disabled unless a strategy opts in', () => {
+    expect(rawConfig.mode).toBe('none');
+    expect(iosForegroundConfig.mode).toBe('kalman');
+  });
+
+  it('reduces zig-zag distance inflation and lateral path noise for the iOS foreground strategy', () => {
+    const trace = createZigZagTrace();
+    const raw = replay(trace, rawConfig);
+    const smoothed = replay(trace, iosForegroundConfig);
+
+    const rawError = Math.abs(raw.distanceMeters - trueDistance);
+    const smoothedError = Math.abs(smoothed.distanceMeters - trueDistance);
+
+    expect(smoothedError).toBeLessThan(rawError);
+    expect(smoothedError / trueDistance).toBeLessThan(0.05);
+    expect(meanLateralOffsetMeters(smoothed.path)).toBeLessThan(meanLateralOffsetMeters(raw.path));
+  });
+
+  it('keeps raw GpsFilter behaviour and state shape when smoothing is disabled', () => {
+    const trace = createZigZagTrace().slice(0, 10);
+    let rawState = createInitialGpsFilterState();
+    let state = createInitialGpsFilterState();
+
+    trace.forEach((sample) => {
+      const expected = reduceGpsSample(rawState, sample);
+      const actual = reduceSmoothedGpsSample(state, sample, undefined, rawConfig);
+      rawState = expected.nextState;
+      state = actual.nextState;
+
+      expect(actual.result).toEqual(expected.result);
+      expect(actual.smoothedSample).toBe(sample);
+    });
+    expect(state).not.toHaveProperty('smoothingState');
+  });
+
+  it('continues identically after the filter state is serialized for a tracking handoff', () => {
+    const trace = createZigZagTrace();
+    const uninterrupted = replay(trace, iosForegroundConfig);
+
+    const firstHalf = replay(trace.slice(0, 60), iosForegroundConfig);
+    const restoredState = createInitialGpsFilterState(JSON.parse(JSON.stringify(firstHalf.state)));
+    const secondHalf = replay(trace.slice(60), iosForegroundConfig, restoredState);
+
+    expect(restoredState.smoothingState).toEqual(firstHalf.state.smoothingState);
+    expect(firstHalf.distanceMeters + secondHalf.distanceMeters).toBeCloseTo(
+      uninterrupted.distanceMeters,
+      6
+    );
+    expect(secondHalf.state).toEqual(uninterrupted.state);
+  });
+
+  it('weights measurements by accuracy and restarts after a large relocation', () => {
+    const start: GpsSample = {
+      latitude: ORIGIN_LATITUDE,
+      longitude: ORIGIN_LONGITUDE,
+      timestampMs: 0,
+      accuracyMeters: 5,
+    };
+    const state = createGpsKalmanState(start);
+    const shifted = (meters: number, accuracyMeters: number): GpsSample => ({
+      latitude: ORIGIN_LATITUDE + meters / METERS_PER_DEGREE_LATITUDE,
+      longitude: ORIGIN_LONGITUDE,
+      timestampMs: 1000,
+      accuracyMeters,
+    });
+    const movedMeters = (sample: GpsSample) =>
+      calculateHaversineDistance(ORIGIN_LATITUDE, ORIGIN_LONGITUDE, sample.latitude, sample.longitude);
+
+    const precise = stepGpsKalman(state, shifted(10, 3));
+    const coarse = stepGpsKalman(state, shifted(10, 20));
+    const relocated = stepGpsKalman(state, shifted(200, 5));
+
+    expect(movedMeters(precise)).toBeGreaterThan(movedMeters(coarse));
+    expect(movedMeters(precise)).toBeLessThan(10);
+    expect(relocated).toEqual({
+      ...createGpsKalmanState(shifted(200, 5)),
+      anchorLatitude: ORIGIN_LATITUDE,
+      anchorLongitude: ORIGIN_LONGITUDE,
+    });
+  });
+});
@@ -0,0 +1,171 @@
+import { generateDummyLocations } from '~/features/share/utils/dummyGpsData';
+import type { RunningRecordItemResponse } from '~/features/running/services/runningService';
+import { replayGpsTrace } from '~/test-utils/gpsReplay/replayGpsTrace';
+import {
+  createStopAndGoTrace,
+  createStraightTrace,
+  createTraceFromLocations,
+  createTraceFromRecordItems,
+  createTunnelTrace,
+  createUTurnTrace,
+  resampleTrace,
+  type GpsTracePoint,
+} from '~/test-utils/gpsReplay/traces';
+import { resetAllStores } from '~/test-utils/resetState';
+import { calculateHaversineDistance } from '~/shared/utils/DistanceUtils';
+
+jest.mock('expo-location', () => require('~/test-utils/gpsReplay/nativeLocationHost').mockExpoLocation);
+jest.mock(
+  'expo-task-manager',
+  () => require('~/test-utils/gpsReplay/nativeLocationHost').mockExpoTaskManager
+);
+
+const pathDistance = (points: GpsTracePoint[]) =>
+  points.reduce((sum, point, index) => {
+    const previous = points[index - 1];
+    return previous
+      ? sum +
+          calculateHaversineDistance(previous.latitude, previous.longitude, point.latitude, point.longitude)
+      : sum;
+  }, 0);
+
+const relativeError = (actual: number, expected: number) => Math.abs(actual - expected) / expected;
+
+describe('GPS trace replay', () => {
+  beforeEach(() => {
+    resetAllStores();
+  });
+
+  it('replays a straight run through filter, pace fusion and 10m segments', async () => {
+    const trace = createStraightTrace(120);
+    const report = await replayGpsTrace(trace);
+
+    expect(relativeError(report.distanceMeters, trace.expectedDistanceMeters!)).toBeLessThan(0.05);
+    expect(report.pathPointCount).toBeGreaterThan(trace.points.length / 3);
+    expect(report.segmentCount).toBeGreaterThan(report.distanceMeters / 20);
+    expect(report.segmentCount).toBeLessThanOrEqual(report.distanceMeters / 10);
+    expect(report.segmentDistanceMeters).toBeCloseTo(report.distanceMeters, 6);
+    expect(report.pointsBySource).toEqual({ foreground: trace.points.length });
+
+    // 3m/s ≒ 333초/km, 초반 수렴 이후 구간만 비교
+    const settledPaces = report.paceSeries.slice(30).map((sample) => sample.secondsPerKm);
+    expect(Math.min(...settledPaces)).toBeGreaterThan(260);
+    expect(Math.max(...settledPaces)).toBeLessThan(400);
+  });
+
+  it('drops distance across a tunnel gap and reports the rejected exit samples', async () => {
+    const trace = createTunnelTrace();
+    const report = await replayGpsTrace(trace);
+
+    expect(report.rejectReasons.LOW_ACCURACY).toBeGreaterThanOrEqual(1);
+    expect(report.rejectReasons.TIME_GAP_TOO_LARGE).toBeGreaterThanOrEqual(1);
+    // 터널 40초(120m)는 거리에 반영하지 않음
+    expect(report.distanceMeters).toBeLessThan(trace.expectedDistanceMeters! - 100);
+    expect(report.distanceMeters).toBeGreaterThan(trace.expectedDistanceMeters! - 160);
+  });
+
+  it('does not auto-pause while GPS is lost in a tunnel', async () => {
+    const report = await replayGpsTrace(createTunnelTrace(), { autoPause: 'standard' });
+
+    expect(report.autoPauseDecisions).toEqual([]);
+  });
+
+  it('keeps the out-and-back distance of a U-turn', async () => {
+    const trace = createUTurnTrace();
+    const report = await replayGpsTrace(trace);
+
+    expect(relativeError(report.distanceMeters, trace.expectedDistanceMeters!)).toBeLessThan(0.1);
+  });
+
+  it('does not accumulate drift while waiting at lights', async () => {
+    const trace = createStopAndGoTrace();
+    const report = await replayGpsTrace(trace);
+
+    expect(relativeError(report.distanceMeters, trace.expectedDistanceMeters!)).toBeLessThan(0.1);
+    expect(report.paceSeries.some((sample) => sample.secondsPerKm === 0)).toBe(true);
+  });
+
+  it('replays dummy share data and recorded segment gps points', async () => {
+    const dummyTrace = resampleTrace(
+      createTraceFromLocations('dummy', generateDummyLocations(Date.UTC(2025, 0, 1, 1)))
+    );
+    const items: RunningRecordItemResponse[] = [1, 0].map((orderIndex) => ({
+      distance: 0,
+      durationSec: 0,
+      cadence: 0,
+      heartRate: 0,
+      minHeartRate: 0,
+      maxHeartRate: 0,
+      orderIndex,
+      startTimeStamp: 0,
+      endTimeStamp: 0,
+      gpsPoints: dummyTrace.points.slice(orderIndex * 300, orderIndex * 300 + 300).map((point) => ({
+        latitude: point.latitude,
+        longitude: point.longitude,
+        timestampMs: point.timestampMs,
+        speed: point.speedMps ?? 0,
+        altitude: point.altitude ?? 0,
+        accuracy: point.accuracyMeters ?? 5,
+      })),
+    }));
+    const recordedTrace = createTraceFromRecordItems('recorded', items);
+
+    const report = await replayGpsTrace(recordedTrace);
+
+    expect(recordedTrace.points.map((point) => point.timestampMs)).toEqual(
+      dummyTrace.points.slice(0, 600).map((point) => point.timestampMs)
+    );
+    expect(report.traceName).toBe('recorded');
+    expect(relativeError(report.distanceMeters, pathDistance(recordedTrace.points))).toBeLessThan(0.05);
+    expect(report.rejectReasons).not.toHaveProperty('TIME_GAP_TOO_LARGE');
+    expect(report.segmentCount).toBeGreaterThan(report.distanceMeters / 20);
+  });
+
+  it('auto-resumes a motion pause after going to the background and hands off to background tracking', async () => {
+    // 40초 주행 → 30초 정지(자동 일시정지 후 background 진입) → 40초 주행
+    const trace = createStopAndGoTrace({ cycles: 2, runSeconds: 40, stopSeconds: 30 });
+    const backgroundIndex = 60;
+    const runAgainIndex = 71;
+    const points = trace.points.slice(0, runAgainIndex + 40);
+    const stopAtMs = points[41]!.timestampMs;
+    const backgroundAtMs = points[backgroundIndex]!.timestampMs;
+
+    const report = await replayGpsTrace(
+      { ...trace, points },
+      {
+        autoPause: 'standard',
+        // background에서는 pedometer 업데이트가 오지 않으므로 재개는 GPS로만 감지
+        cadenceAt: (timestampMs) =>
+          timestampMs < backgroundAtMs ? (timestampMs < stopAtMs ? 170 : 0) : undefined,
+        handoffs: [{ atIndex: backgroundIndex, appState: 'background' }],
+      }
+    );
+
+    expect(report.autoPauseDecisions.map(({ type }) => type)).toEqual(['pause', 'resume']);
+    expect(report.autoPauseDecisions[1]!.atMs).toBeGreaterThanOrEqual(points[runAgainIndex]!.timestampMs);
+    // 재개 후에는 background task로 넘겨서 계속 기록
+    expect(report.pointsBySource.background).toBeGreaterThan(30);
+    // 정지 중 drift는 거리에 반영하지 않음
+    const movingDistanceMeters = 80 * 3;
+    expect(relativeError(report.distanceMeters, movingDistanceMeters)).toBeLessThan(0.1);
+  });
+
+  it('carries distance, path and filter state across foreground/background handoffs', async () => {
+    const trace = createStraightTrace(180);
+    const uninterrupted = await replayGpsTrace(trace);
+    const handedOff = await replayGpsTrace(trace, {
+      handoffs: [
+        { atIndex: 60, appState: 'background' },
+        { atIndex: 120, appState: 'active' },
+      ],
+    });
+
+    expect(handedOff.pointsBySource).toEqual({ foreground: 121, background: 60 });
+    // background task는 timeInterval 2초라 전달되는 샘플만 조금 달라짐
+    expect(relativeError(handedOff.distanceMeters, uninterrupted.distanceMeters)).toBeLessThan(0.01);
+    expect(Math.abs(handedOff.pathPointCount - uninterrupted.pathPointCount)).toBeLessThanOrEqual(2);
+    // background 진입 시 10m 미만 진행 중 세그먼트는 버려짐
+    expect(handedOff.segmentDistanceMeters).toBeLessThanOrEqual(handedOff.distanceMeters);
+    expect(handedOff.segmentDistanceMeters).toBeGreaterThan(handedOff.distanceMeters - 10);
+  });
+});
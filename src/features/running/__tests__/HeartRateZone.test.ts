@@ -0,0 +1,88 @@
+import {
+  DEFAULT_HEART_RATE_ZONE_SETTINGS,
+  calculateHeartRateZones,
+  getHeartRateZone,
+  getHeartRateZoneMethod,
+  validateHeartRateZoneBounds,
+} from '~/features/running/models/HeartRateZone';
+import {
+  EMPTY_PHYSIOLOGY_PROFILE,
+  resolvePhysiology,
+} from '~/features/user/models/PhysiologyProfile';
+
+const NOW = new Date('2026-06-01T00:00:00.000Z');
+
+describe('HeartRateZone', () => {
+  it('derives zones from estimated max heart rate when resting heart rate is unknown', () => {
+    // 1996년생 → 30세, 208 - 0.7 × 30 = 187
+    const physiology = resolvePhysiology({ ...EMPTY_PHYSIOLOGY_PROFILE, birthYear: 1996 }, NOW);
+    const zones = calculateHeartRateZones(physiology);
+
+    expect(getHeartRateZoneMethod(physiology)).toBe('maxHeartRate');
+    expect(zones.map(({ minBpm, maxBpm }) => [minBpm, maxBpm])).toEqual([
+      [94, 112],
+      [112, 131],
+      [131, 150],
+      [150, 168],
+      [168, 187],
+    ]);
+  });
+
+  it('uses heart-rate reserve when resting heart rate is set', () => {
+    const physiology = resolvePhysiology(
+      { ...EMPTY_PHYSIOLOGY_PROFILE, restingHeartRate: 50, maxHeartRate: 190 },
+      NOW
+    );
+    const zones = calculateHeartRateZones(physiology);
+
+    expect(getHeartRateZoneMethod(physiology)).toBe('heartRateReserve');
+    expect(zones[0]).toMatchObject({ minBpm: 120, maxBpm: 134 });
+    expect(zones[4]).toMatchObject({ minBpm: 176, maxBpm: 190 });
+  });
+
+  it('maps a heart rate to its zone', () => {
+    const zones = calculateHeartRateZones(
+      resolvePhysiology({ ...EMPTY_PHYSIOLOGY_PROFILE, maxHeartRate: 200 }, NOW)
+    );
+
+    expect(getHeartRateZone(90, zones)).toBeNull();
+    expect(getHeartRateZone(100, zones)).toBe(1);
+    expect(getHeartRateZone(150, zones)).toBe(3);
+    expect(getHeartRateZone(205, zones)).toBe(5);
+  });
+
+  it('applies custom zone bounds and the selected method', () => {
+    const physiology = resolvePhysiology(
+      { ...EMPTY_PHYSIOLOGY_PROFILE, restingHeartRate: 50, maxHeartRate: 190 },
+      NOW
+    );
+    const zones = calculateHeartRateZones(physiology, {
+      method: 'maxHeartRate',
+      lowerBounds: [55, 65, 75, 85, 92],
+    });
+
+    expect(zones.map(({ minBpm, maxBpm }) => [minBpm, maxBpm])).toEqual([
+      [105, 124],
+      [124, 143],
+      [143, 162],
+      [162, 175],
+      [175, 190],
+    ]);
+  });
+
+  it('falls back to max heart rate when reserve is selected without resting heart rate', () => {
+    const physiology = resolvePhysiology({ ...EMPTY_PHYSIOLOGY_PROFILE, maxHeartRate: 200 }, NOW);
+    const settings = { ...DEFAULT_HEART_RATE_ZONE_SETTINGS, method: 'heartRateReserve' as const };
+
+    expect(getHeartRateZoneMethod(physiology, settings.method)).toBe('maxHeartRate');
+    expect(calculateHeartRateZones(physiology, settings)[0]).toMatchObject({ minBpm: 100 });
+  });
+
+  it('rejects zone bounds that are out of range or not increasing', () => {
+    expect(validateHeartRateZoneBounds([50, 60, 70, 80, 90])).toBeNull();
+    expect(validateHeartRateZoneBounds([50, 60, 70, 80])).not.toBeNull();
+    expect(validateHeartRateZoneBounds([20, 60, 70, 80, 90])).not.toBeNull();
+    expect(validateHeartRateZoneBounds([50, 60, 60, 80, 90])).not.toBeNull();
+    expect(validateHeartRateZoneBounds([50, 60, NaN, 80, 90])).not.toBeNull();
+  });
+});
@@ -0,0 +1,81 @@
+import {
+  buildHeartRateHistogram,
+  calculateHeartRateChartPoints,
+  calculateHeartRateZones,
+  calculateTimeInZones,
+  getTimeInZoneRatios,
+  mergeHeartRateHistograms,
+} from '~/features/running/models';
+import type { RunningRecordItemResponse } from '~/features/running/services/runningService';
+import {
+  EMPTY_PHYSIOLOGY_PROFILE,
+  resolvePhysiology,
+} from '~/features/user/models/PhysiologyProfile';
+
+const createSegment = (
+  orderIndex: number,
+  durationSec: number,
+  heartRate: number,
+  distance: number = 100
+): RunningRecordItemResponse => ({
+  distance,
+  durationSec,
+  cadence: 170,
+  heartRate,
+  minHeartRate: heartRate,
+  maxHeartRate: heartRate,
+  orderIndex,
+  startTimeStamp: 0,
+  endTimeStamp: 0,
+});
+
+// 최대 심박수 200 → 1구간 100~120, 2구간 120~140, 3구간 140~160, 4구간 160~180, 5구간 180~200
+const ZONES = calculateHeartRateZones(
+  resolvePhysiology({ ...EMPTY_PHYSIOLOGY_PROFILE, maxHeartRate: 200 })
+);
+
+describe('HeartRateZoneAnalysis', () => {
+  it('accumulates segment time per bpm and skips segments without heart rate', () => {
+    const histogram = buildHeartRateHistogram([
+      createSegment(0, 30, 150),
+      createSegment(1, 20, 150.4),
+      createSegment(2, 25, 0),
+      createSegment(3, 10, 171),
+    ]);
+
+    expect(histogram).toEqual({ 150: 50, 171: 10 });
+  });
+
+  it('sums time in each zone and keeps time below zone 1 separate', () => {
+    const timeInZones = calculateTimeInZones({ 95: 60, 139: 120, 140: 60, 185: 60 }, ZONES);
+
+    expect(timeInZones).toEqual({
+      secondsByZone: { 1: 0, 2: 120, 3: 60, 4: 0, 5: 60 },
+      belowZoneSec: 60,
+      measuredSec: 300,
+    });
+    expect(getTimeInZoneRatios(timeInZones)[2]).toBeCloseTo(0.4);
+  });
+
+  it('merges histograms from several runs', () => {
+    expect(mergeHeartRateHistograms([{ 150: 30 }, { 150: 20, 160: 10 }, {}])).toEqual({
+      150: 50,
+      160: 10,
+    });
+    expect(getTimeInZoneRatios(calculateTimeInZones({}, ZONES))[3]).toBe(0);
+  });
+
+  it('builds chart points by distance and drops buckets without heart rate', () => {
+    const points = calculateHeartRateChartPoints([
+      createSegment(0, 30, 140, 200),
+      createSegment(1, 30, 0, 200),
+      createSegment(2, 30, 160, 100),
+      createSegment(3, 30, 170, 100),
+    ]);
+
+    expect(points).toEqual([
+      { distance: 200, heartRate: 140 },
+      { distance: 600, heartRate: 165 },
+    ]);
+  });
+});
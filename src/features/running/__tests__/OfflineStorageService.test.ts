@@ -0,0 +1,246 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import {
+  calculateRetryDelayMs,
+  MAX_UPLOAD_RETRY_COUNT,
+  offlineStorageService,
+} from '~/features/running/services/OfflineStorageService';
+import type { RunningRecord, RunningRecordItem } from '~/features/running/models';
+
+const createRecord = (id: number, overrides?: Partial<RunningRecord>): RunningRecord => ({
+  id,
+  distance: 5000,
+  steps: 6000,
+  cadence: 170,
+  heartRate: null,
+  calorie: 300,
+  durationSec: 1500,
+  startTimestamp: 1735689600,
+  ...overrides,
+});
+
+const createSegment = (orderIndex: number): RunningRecordItem => ({
+  id: orderIndex + 1,
+  distance: 10,
+  cadence: 170,
+  heartRate: null,
+  calories: 1,
+  orderIndex,
+  durationSec: 3,
+  startTimestamp: 1735689600 + orderIndex * 3,
+  isUploaded: false,
+});
+
+describe('OfflineStorageService provisional records', () => {
+  beforeEach(async () => {
+    await AsyncStorage.clear();
+  });
+
+  it('creates server records for provisional uploads and remaps queued segments', async () => {
+    await offlineStorageService.addPendingSegmentUpload(-1735689600000, [createSegment(0)]);
+    await offlineStorageService.addPendingUpload(-1735689600000, createRecord(-1735689600000), {
+      timezone: 'Asia/Seoul',
+    });
+    await offlineStorageService.addPendingUpload(55, createRecord(55));
+
+    const createFn = jest.fn().mockResolvedValue(901);
+    const result = await offlineStorageService.reconcileProvisionalUploads(createFn);
+
+    expect(result).toEqual({ success: 1, failed: 0 });
+    expect(createFn).toHaveBeenCalledTimes(1);
+    expect(createFn).toHaveBeenCalledWith(
+      expect.objectContaining({ runningRecordId: -1735689600000, timezone: 'Asia/Seoul' })
+    );
+
+    const pending = await offlineStorageService.getPendingUploads();
+    expect(pending.map((upload) => [upload.runningRecordId, upload.data.id])).toEqual([
+      [901, 901],
+      [55, 55],
+    ]);
+
+    const segments = await offlineStorageService.getPendingSegmentUploads();
+    expect(segments.map((upload) => upload.runningRecordId)).toEqual([901]);
+  });
+
+  it('keeps provisional uploads out of the segment and end uploads until reconciled', async () => {
+    await offlineStorageService.addPendingSegmentUpload(-10, [createSegment(0)]);
+    await offlineStorageService.addPendingUpload(-10, createRecord(-10));
+
+    const segmentUploadFn = jest.fn().mockResolvedValue(undefined);
+    const recordUploadFn = jest.fn().mockResolvedValue(undefined);
+
+    await expect(
+      offlineStorageService.retryAllPendingSegmentUploads(segmentUploadFn)
+    ).resolves.toEqual({ success: 0, failed: 0 });
+    await expect(
+      offlineStorageService.retryAllPendingUploads(recordUploadFn)
+    ).resolves.toEqual({ success: 0, failed: 0 });
+
+    expect(segmentUploadFn).not.toHaveBeenCalled();
+    expect(recordUploadFn).not.toHaveBeenCalled();
+    expect(await offlineStorageService.getPendingCount()).toBe(1);
+    expect(await offlineStorageService.getPendingSegmentCount()).toBe(1);
+  });
+
+  it('counts a failed server record creation as a retry', async () => {
+    await offlineStorageService.addPendingUpload(-10, createRecord(-10));
+
+    const result = await offlineStorageService.reconcileProvisionalUploads(
+      jest.fn().mockRejectedValue(new Error('Network Error'))
+    );
+
+    expect(result).toEqual({ success: 0, failed: 1 });
+    const [upload] = await offlineStorageService.getPendingUploads();
+    expect(upload).toMatchObject({ runningRecordId: -10, retryCount: 1, lastError: 'Network Error' });
+  });
+
+  it('does not create the server record again when remapping was interrupted', async () => {
+    await offlineStorageService.addPendingSegmentUpload(-10, [createSegment(0)]);
+    await offlineStorageService.addPendingUpload(-10, createRecord(-10));
+
+    const createFn = jest.fn().mockResolvedValue(901);
+    // 서버 기록 생성 직후 재매핑 저장이 실패 (앱 종료 등)
+    const remapSpy = jest
+      .spyOn(offlineStorageService, 'remapRunningRecordId')
+      .mockRejectedValueOnce(new Error('Storage full'));
+
+    await expect(offlineStorageService.reconcileProvisionalUploads(createFn)).resolves.toEqual({
+      success: 0,
+      failed: 1,
+    });
+
+    await expect(
+      offlineStorageService.reconcileProvisionalUploads(createFn, { ignoreBackoff: true })
+    ).resolves.toEqual({ success: 1, failed: 0 });
+    remapSpy.mockRestore();
+
+    expect(createFn).toHaveBeenCalledTimes(1);
+    const [upload] = await offlineStorageService.getPendingUploads();
+    expect(upload).toMatchObject({ runningRecordId: 901, data: { id: 901 } });
+    const [segmentUpload] = await offlineStorageService.getPendingSegmentUploads();
+    expect(segmentUpload?.runningRecordId).toBe(901);
+  });
+
+  it('moves the segments of a provisional run to the failed queue with its record', async () => {
+    await offlineStorageService.addPendingSegmentUpload(-10, [createSegment(0)]);
+    await offlineStorageService.addPendingUpload(-10, createRecord(-10));
+
+    const failingCreate = jest.fn().mockRejectedValue(new Error('500'));
+    for (let attempt = 0; attempt < MAX_UPLOAD_RETRY_COUNT; attempt++) {
+      await offlineStorageService.reconcileProvisionalUploads(failingCreate, {
+        ignoreBackoff: true,
+      });
+    }
+
+    expect(await offlineStorageService.getPendingCount()).toBe(0);
+    expect(await offlineStorageService.getPendingSegmentCount()).toBe(0);
+    await expect(offlineStorageService.getSyncSummary()).resolves.toMatchObject({
+      pendingRunCount: 0,
+      failedRunCount: 1,
+    });
+  });
+
+  it('updates the queued record data for a pending upload', async () => {
+    await offlineStorageService.addPendingUpload(-10, createRecord(-10));
+
+    await offlineStorageService.updatePendingUploadRecord(-10, { shoeId: 3 });
+
+    const [upload] = await offlineStorageService.getPendingUploads();
+    expect(upload?.data.shoeId).toBe(3);
+  });
+});
+
+describe('OfflineStorageService retry backoff and ordering', () => {
+  beforeEach(async () => {
+    await AsyncStorage.clear();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('doubles the retry delay per attempt up to the maximum', () => {
+    expect(calculateRetryDelayMs(1)).toBe(30 * 1000);
+    expect(calculateRetryDelayMs(2)).toBe(60 * 1000);
+    expect(calculateRetryDelayMs(4)).toBe(4 * 60 * 1000);
+    expect(calculateRetryDelayMs(20)).toBe(60 * 60 * 1000);
+  });
+
+  it('skips uploads until their backoff has elapsed unless backoff is ignored', async () => {
+    jest.spyOn(Date, 'now').mockReturnValue(1_000_000);
+    await offlineStorageService.addPendingUpload(55, createRecord(55));
+    await offlineStorageService.incrementRetryCount(
+      (await offlineStorageService.getPendingUploads())[0]!.id,
+      'timeout'
+    );
+
+    const uploadFn = jest.fn().mockResolvedValue(undefined);
+
+    await expect(
+      offlineStorageService.retryAllPendingUploads(uploadFn, { now: 1_000_000 + 29_000 })
+    ).resolves.toEqual({ success: 0, failed: 0 });
+    expect(uploadFn).not.toHaveBeenCalled();
+
+    await expect(
+      offlineStorageService.retryAllPendingUploads(uploadFn, { now: 1_000_000 + 30_000 })
+    ).resolves.toEqual({ success: 1, failed: 0 });
+  });
+
+  it('holds the end upload while segments of the same run are still pending', async () => {
+    await offlineStorageService.addPendingSegmentUpload(55, [createSegment(0)]);
+    await offlineStorageService.addPendingUpload(55, createRecord(55));
+    await offlineStorageService.addPendingUpload(56, createRecord(56));
+
+    const uploadFn = jest.fn().mockResolvedValue(undefined);
+    const result = await offlineStorageService.retryAllPendingUploads(uploadFn);
+
+    expect(result).toEqual({ success: 1, failed: 0 });
+    expect(uploadFn).toHaveBeenCalledWith(expect.objectContaining({ id: 56 }));
+  });
+
+  it('schedules the next attempt only from uploads that can be retried now', async () => {
+    jest.spyOn(Date, 'now').mockReturnValue(1_000_000);
+    await offlineStorageService.addPendingSegmentUpload(55, [createSegment(0)]);
+    await offlineStorageService.addPendingUpload(55, createRecord(55));
+    await offlineStorageService.addPendingSegmentUpload(-1, [createSegment(0)]);
+    const segmentUpload = (await offlineStorageService.getPendingSegmentUploads())[0]!;
+    await offlineStorageService.incrementSegmentRetryCount(segmentUpload.id, 'timeout');
+
+    // 세그먼트를 기다리는 종료 업로드와 임시 기록 세그먼트는 제외
+    await expect(offlineStorageService.getSyncSummary()).resolves.toEqual({
+      pendingRunCount: 2,
+      failedRunCount: 0,
+      nextAttemptAt: 1_000_000 + 30_000,
+    });
+  });
+
+  it('moves the whole run to the failed queue when segments exceed the retry limit', async () => {
+    await offlineStorageService.addPendingSegmentUpload(55, [createSegment(0)]);
+    await offlineStorageService.addPendingUpload(55, createRecord(55));
+
+    const failingUpload = jest.fn().mockRejectedValue(new Error('500'));
+    for (let attempt = 0; attempt < MAX_UPLOAD_RETRY_COUNT; attempt++) {
+      await offlineStorageService.retryAllPendingSegmentUploads(failingUpload, {
+        ignoreBackoff: true,
+      });
+    }
+
+    expect(await offlineStorageService.getPendingSegmentCount()).toBe(0);
+    expect(await offlineStorageService.getPendingCount()).toBe(0);
+    await expect(offlineStorageService.getSyncSummary()).resolves.toMatchObject({
+      pendingRunCount: 0,
+      failedRunCount: 1,
+    });
+
+    await expect(offlineStorageService.retryAllFailedUploads()).resolves.toBe(1);
+
+    const [segmentUpload] = await offlineStorageService.getPendingSegmentUploads();
+    const [recordUpload] = await offlineStorageService.getPendingUploads();
+    expect(segmentUpload).toMatchObject({ runningRecordId: 55, retryCount: 0 });
+    expect(segmentUpload?.nextAttemptAt).toBeUndefined();
+    expect(recordUpload).toMatchObject({ runningRecordId: 55, retryCount: 0 });
+    await expect(offlineStorageService.getSyncSummary()).resolves.toMatchObject({
+      pendingRunCount: 1,
+      failedRunCount: 0,
+    });
+  });
+});
@@ -0,0 +1,226 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import NetInfo, { type NetInfoState } from '@react-native-community/netinfo';
+import {
+  MAX_UPLOAD_RETRY_COUNT,
+  offlineStorageService,
+} from '~/features/running/services/OfflineStorageService';
+import { offlineSyncService } from '~/features/running/services/OfflineSyncService';
+import { useOfflineSyncStore } from '~/features/running/stores/offlineSyncStore';
+import { useWorkoutStore } from '~/features/workout/stores/workoutStore';
+import type { RunningRecord, RunningRecordItem } from '~/features/running/models';
+
+const mockStartRunning = jest.fn();
+const mockSaveRunningRecordItems = jest.fn();
+const mockEndRunning = jest.fn();
+const mockUpdateRunningRecordShoe = jest.fn();
+
+jest.mock('~/features/running/services/runningService', () => ({
+  runningService: {
+    startRunning: (...args: unknown[]) => mockStartRunning(...args),
+    saveRunningRecordItems: (...args: unknown[]) => mockSaveRunningRecordItems(...args),
+    endRunning: (...args: unknown[]) => mockEndRunning(...args),
+    updateRunningRecordShoe: (...args: unknown[]) => mockUpdateRunningRecordShoe(...args),
+  },
+}));
+
+const mockNetInfo = NetInfo as jest.Mocked<typeof NetInfo>;
+
+const networkState = (isConnected: boolean) =>
+  ({ isConnected, isInternetReachable: isConnected }) as NetInfoState;
+
+const createRecord = (id: number, overrides?: Partial<RunningRecord>): RunningRecord => ({
+  id,
+  distance: 5000,
+  steps: 6000,
+  cadence: 170,
+  heartRate: null,
+  calorie: 300,
+  durationSec: 1500,
+  startTimestamp: 1735689600,
+  ...overrides,
+});
+
+const createSegment = (orderIndex: number): RunningRecordItem => ({
+  id: orderIndex + 1,
+  distance: 10,
+  cadence: 170,
+  heartRate: null,
+  calories: 1,
+  orderIndex,
+  durationSec: 3,
+  startTimestamp: 1735689600 + orderIndex * 3,
+  isUploaded: false,
+  locations: [
+    {
+      latitude: 37.5,
+      longitude: 127,
+      altitude: 10,
+      accuracy: 5,
+      speed: 3,
+      timestamp: new Date(1735689600000),
+    },
+  ],
+});
+
+describe('OfflineSyncService', () => {
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    await AsyncStorage.clear();
+    useOfflineSyncStore.getState().reset();
+    useWorkoutStore.getState().reset();
+    mockNetInfo.fetch.mockResolvedValue(networkState(true));
+    mockNetInfo.addEventListener.mockReturnValue(jest.fn());
+    mockStartRunning.mockResolvedValue({ id: 901 });
+    mockSaveRunningRecordItems.mockResolvedValue(undefined);
+    mockEndRunning.mockResolvedValue({});
+    mockUpdateRunningRecordShoe.mockResolvedValue(undefined);
+  });
+
+  afterEach(() => {
+    offlineSyncService.stop();
+    jest.useRealTimers();
+  });
+
+  it('creates the server record, uploads segments and then ends the run', async () => {
+    await offlineStorageService.addPendingSegmentUpload(-1, [createSegment(0)]);
+    await offlineStorageService.addPendingUpload(-1, createRecord(-1, { shoeId: 3 }), {
+      timezone: 'Asia/Seoul',
+    });
+
+    const result = await offlineSyncService.sync();
+
+    expect(result).toEqual({
+      provisional: { success: 1, failed: 0 },
+      segments: { success: 1, failed: 0 },
+      records: { success: 1, failed: 0 },
+    });
+    expect(mockStartRunning).toHaveBeenCalledWith({
+      startTimestamp: 1735689600,
+      timezone: 'Asia/Seoul',
+    });
+    expect(mockSaveRunningRecordItems).toHaveBeenCalledWith(
+      expect.objectContaining({
+        runningRecordId: 901,
+        items: [
+          expect.objectContaining({
+            gpsPoints: [expect.objectContaining({ timestampMs: 1735689600000 })],
+          }),
+        ],
+      })
+    );
+    expect(mockEndRunning).toHaveBeenCalledWith(expect.objectContaining({ id: 901 }));
+    expect(mockSaveRunningRecordItems.mock.invocationCallOrder[0]).toBeLessThan(
+      mockEndRunning.mock.invocationCallOrder[0]!
+    );
+    expect(mockUpdateRunningRecordShoe).toHaveBeenCalledWith({ runningRecordId: 901, shoeId: 3 });
+    expect(useOfflineSyncStore.getState().pendingRunCount).toBe(0);
+  });
+
+  it('notifies reconcile subscribers so features move data keyed by the provisional id', async () => {
+    useWorkoutStore
+      .getState()
+      .saveRunRecord({ recordId: -1, planId: 'plan-1', planName: '인터벌', steps: [] });
+    const listener = jest.fn();
+    const failingListener = jest.fn(() => {
+      throw new Error('listener failed');
+    });
+    const unsubscribe = offlineSyncService.onProvisionalRecordReconciled(listener);
+    const unsubscribeFailing = offlineSyncService.onProvisionalRecordReconciled(failingListener);
+    await offlineStorageService.addPendingUpload(-1, createRecord(-1));
+
+    const result = await offlineSyncService.sync();
+    unsubscribe();
+    unsubscribeFailing();
+
+    expect(result?.provisional).toEqual({ success: 1, failed: 0 });
+    expect(listener).toHaveBeenCalledWith(-1, 901, expect.objectContaining({ runningRecordId: -1 }));
+    expect(useWorkoutStore.getState().runRecords).toEqual({
+      901: { recordId: 901, planId: 'plan-1', planName: '인터벌', steps: [] },
+    });
+
+    await offlineStorageService.addPendingUpload(-2, createRecord(-2));
+    await offlineSyncService.sync();
+
+    expect(listener).toHaveBeenCalledTimes(1);
+  });
+
+  it('does not spend retries while offline and keeps the pending count', async () => {
+    mockNetInfo.fetch.mockResolvedValue(networkState(false));
+    await offlineStorageService.addPendingUpload(55, createRecord(55));
+
+    await expect(offlineSyncService.sync()).resolves.toBeNull();
+
+    expect(mockEndRunning).not.toHaveBeenCalled();
+    const [upload] = await offlineStorageService.getPendingUploads();
+    expect(upload?.retryCount).toBe(0);
+    expect(useOfflineSyncStore.getState()).toMatchObject({ isConnected: false, pendingRunCount: 1 });
+  });
+
+  it('does not schedule retries while offline', async () => {
+    jest.useFakeTimers();
+    mockNetInfo.fetch.mockResolvedValue(networkState(false));
+    await offlineStorageService.addPendingUpload(55, createRecord(55));
+
+    await offlineSyncService.start();
+    await jest.advanceTimersByTimeAsync(60 * 60 * 1000);
+
+    expect(mockNetInfo.fetch).toHaveBeenCalledTimes(1);
+    expect(mockEndRunning).not.toHaveBeenCalled();
+  });
+
+  it('waits for the backoff of pending segments before ending a held run', async () => {
+    jest.useFakeTimers();
+    await offlineStorageService.addPendingSegmentUpload(55, [createSegment(0)]);
+    await offlineStorageService.addPendingUpload(55, createRecord(55));
+    // 서버 기록 생성 전 세그먼트는 재시도 예약 대상이 아님
+    await offlineStorageService.addPendingSegmentUpload(-1, [createSegment(0)]);
+    mockSaveRunningRecordItems.mockRejectedValueOnce(new Error('Network Error'));
+
+    await offlineSyncService.start();
+    await jest.advanceTimersByTimeAsync(29_000);
+
+    expect(mockNetInfo.fetch).toHaveBeenCalledTimes(1);
+    expect(mockEndRunning).not.toHaveBeenCalled();
+
+    await jest.advanceTimersByTimeAsync(1000);
+
+    expect(mockNetInfo.fetch).toHaveBeenCalledTimes(2);
+    expect(mockEndRunning).toHaveBeenCalledWith(expect.objectContaining({ id: 55 }));
+
+    await jest.advanceTimersByTimeAsync(60 * 60 * 1000);
+    expect(mockNetInfo.fetch).toHaveBeenCalledTimes(2);
+  });
+
+  it('syncs immediately when the network comes back, ignoring backoff', async () => {
+    await offlineStorageService.addPendingUpload(55, createRecord(55));
+    const [upload] = await offlineStorageService.getPendingUploads();
+    await offlineStorageService.incrementRetryCount(upload!.id, 'Network Error');
+
+    mockNetInfo.fetch.mockResolvedValueOnce(networkState(false));
+    await offlineSyncService.start();
+    const listener = mockNetInfo.addEventListener.mock.calls[0]![0];
+
+    listener(networkState(false));
+    listener(networkState(true));
+    await offlineSyncService.sync();
+
+    expect(mockEndRunning).toHaveBeenCalledTimes(1);
+    expect(await offlineStorageService.getPendingCount()).toBe(0);
+  });
+
+  it('moves failed runs back to the queue on manual retry', async () => {
+    await offlineStorageService.addPendingUpload(55, createRecord(55));
+    mockEndRunning.mockRejectedValue(new Error('500'));
+
+    for (let attempt = 0; attempt < MAX_UPLOAD_RETRY_COUNT; attempt++) {
+      await offlineSyncService.sync({ ignoreBackoff: true });
+    }
+    expect(useOfflineSyncStore.getState()).toMatchObject({ pendingRunCount: 0, failedRunCount: 1 });
+
+    mockEndRunning.mockResolvedValue({});
+    await offlineSyncService.retryFailed();
+
+    expect(useOfflineSyncStore.getState()).toMatchObject({ pendingRunCount: 0, failedRunCount: 0 });
+    expect(await offlineStorageService.getFailedCount()).toBe(0);
+  });
+});
@@ -0,0 +1,122 @@
+import type { RunningRecord } from '~/features/running/models';
+import type { RunningRecordItemResponse } from '~/features/running/services/runningService';
+import { buildExportActivity } from '~/features/running/services/export/ExportActivity';
+import { parseGpx, serializeGpx } from '~/features/running/services/export/GpxSerializer';
+import { parseTcx, serializeTcx } from '~/features/running/services/export/TcxSerializer';
+import { createRunningExportFile } from '~/features/running/services/export/runningExportService';
+
+const START_TIMESTAMP = 1735689600; // 2025-01-01T00:00:00Z
+
+const record: RunningRecord = {
+  id: 7,
+  distance: 1500,
+  steps: 1800,
+  cadence: 172,
+  heartRate: 152,
+  calorie: 90,
+  durationSec: 450,
+  startTimestamp: START_TIMESTAMP,
+};
+
+/**
+ * 500m 세그먼트 3개 (1km 랩 + 0.5km 랩), 세그먼트마다 GPS 포인트 2개
+ */
+const createItems = (): RunningRecordItemResponse[] =>
+  [0, 1, 2].map((orderIndex) => {
+    const startTimeStamp = START_TIMESTAMP + orderIndex * 150;
+    return {
+      distance: 500,
+      durationSec: 150,
+      cadence: orderIndex === 2 ? 0 : 170 + orderIndex * 4,
+      heartRate: 148 + orderIndex * 4,
+      minHeartRate: 140,
+      maxHeartRate: 160 + orderIndex,
+      orderIndex,
+      startTimeStamp,
+      endTimeStamp: startTimeStamp + 150,
+      gpsPoints: [0, 75].map((offsetSec, pointIndex) => ({
+        latitude: Number((37.5665 + orderIndex * 0.001 + pointIndex * 0.0005).toFixed(6)),
+        longitude: Number((126.978 + orderIndex * 0.001).toFixed(6)),
+        timestampMs: (startTimeStamp + offsetSec) * 1000,
+        speed: 3.3,
+        altitude: orderIndex === 1 ? Number.NaN : 20.5 + orderIndex,
+      })),
+    };
+  });
+
+describe('Running export', () => {
+  it('derives distance laps from segments with lap heart rate and cadence', () => {
+    const activity = buildExportActivity(record, createItems());
+
+    expect(activity.laps).toHaveLength(2);
+    expect(activity.laps[0]).toMatchObject({
+      startTimestampMs: START_TIMESTAMP * 1000,
+      durationSec: 300,
+      distance: 1000,
+      calories: 60,
+      averageHeartRate: 150,
+      maxHeartRate: 161,
+      averageCadence: 172,
+    });
+    expect(activity.laps[1]).toMatchObject({ distance: 500, calories: 30, averageCadence: null });
+    expect(activity.laps[0]!.points.map((point) => point.distance)).toEqual([0, 250, 500, 750]);
+    expect(activity.laps[0]!.points[2]!.altitude).toBeNull();
+  });
+
+  it('falls back to a single lap from record totals when there are no segments', () => {
+    const activity = buildExportActivity(record, []);
+
+    expect(activity.laps).toEqual([
+      expect.objectContaining({ distance: 1500, durationSec: 450, calories: 90, points: [] }),
+    ]);
+  });
+
+  it('round-trips GPX track points including heart rate and cadence extensions', () => {
+    const activity = buildExportActivity(record, createItems());
+    const gpx = serializeGpx(activity);
+
+    expect(gpx).toContain('<gpx version="1.1" creator="RunTaeho"');
+    expect(gpx).toContain('<gpxtpx:hr>148</gpxtpx:hr><gpxtpx:cad>85</gpxtpx:cad>');
+
+    const parsed = parseGpx(gpx);
+
+    expect(parsed.name).toBe(activity.name);
+    expect(parsed.startTimestampMs).toBe(activity.startTimestampMs);
+    expect(parsed.segments).toEqual(
+      activity.laps.map((lap) => lap.points.map(({ distance: _distance, ...point }) => point))
+    );
+  });
+
+  it('round-trips TCX laps and track points', () => {
+    const activity = buildExportActivity(record, createItems());
+    const tcx = serializeTcx(activity);
+
+    expect(tcx).toContain('<Activity Sport="Running">');
+    expect(tcx).toContain('<TriggerMethod>Distance</TriggerMethod>');
+    expect(tcx).toContain('<ns3:AvgRunCadence>86</ns3:AvgRunCadence>');
+
+    const parsed = parseTcx(tcx);
+
+    expect(parsed).toEqual(activity);
+  });
+
+  it('escapes activity names and rejects documents that are not GPX or TCX', () => {
+    const activity = { ...buildExportActivity(record, []), name: 'Run <& "Park">' };
+
+    expect(parseTcx(serializeTcx(activity)).name).toBe('Run <& "Park">');
+    expect(() => parseGpx(serializeTcx(activity))).toThrow('Invalid GPX');
+    expect(() => parseTcx('<gpx></gpx>')).toThrow('Invalid TCX');
+    expect(() => parseGpx('<gpx><trk></gpx>')).toThrow('Invalid XML');
+  });
+
+  it('names export files by start time and format', () => {
+    expect(createRunningExportFile(record, createItems(), 'gpx')).toMatchObject({
+      fileName: 'runtaeho-20250101-000000.gpx',
+      mimeType: 'application/gpx+xml',
+    });
+    expect(createRunningExportFile(record, createItems(), 'tcx')).toMatchObject({
+      fileName: 'runtaeho-20250101-000000.tcx',
+      mimeType: 'application/vnd.garmin.tcx+xml',
+    });
+  });
+});
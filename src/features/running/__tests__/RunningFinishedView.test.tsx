@@ -1,12 +1,15 @@
 import React from 'react';
 import { fireEvent, screen, waitFor } from '@testing-library/react-native';
 import { RunningFinishedView } from '~/features/running/views/running-finished';
+import { createEmptyPersonalBests } from '~/features/statistics/models';
+import { usePersonalRecordStore } from '~/features/statistics/stores/personalRecordStore';
 import { RunningState, useAppStore } from '~/stores/app/appStore';
 import { renderWithProviders } from '~/test-utils/renderWithProviders';
 import { resetAllStores } from '~/test-utils/resetState';
 
 const mockUseRunning = jest.fn();
 const mockUseShoeViewModel = jest.fn();
+const mockUseShoeSuggestion = jest.fn();
 const mockUpdateRunningRecord = jest.fn();
 const mockGetRunningRecordItems = jest.fn();
 const mockGetCurrentLeague = jest.fn();
@@ -32,6 +35,7 @@ jest.mock('~/features/running/contexts', () => ({
 
 jest.mock('~/features/shoes/viewmodels', () => ({
   useShoeViewModel: () => mockUseShoeViewModel(),
+  useShoeSuggestion: (options: unknown) => mockUseShoeSuggestion(options),
 }));
 
 jest.mock('~/features/running/services/runningService', () => ({
@@ -41,6 +45,10 @@ jest.mock('~/features/running/services/runningService', () => ({
   },
 }));
 
+jest.mock('~/features/badges/viewmodels', () => ({
+  useFinishedRunBadges: () => [],
+}));
+
 jest.mock('~/features/league/services/leagueService', () => ({
   leagueService: {
     getCurrentLeague: (...args: unknown[]) => mockGetCurrentLeague(...args),
@@ -50,6 +58,7 @@ jest.mock('~/features/league/services/leagueService', () => ({
 }));
 
 jest.mock('~/shared/hooks', () => ({
+  ...jest.requireActual('~/shared/hooks'),
   useBottomActionOffset: () => 0,
 }));
 
@@ -149,6 +158,11 @@ describe('RunningFinishedView', () => {
       mainShoe: { id: 11, brand: 'Nike', model: 'Pegasus', totalDistance: 1000, isMain: true, isEnabled: true },
       isLoadingShoes: false,
     });
+    mockUseShoeSuggestion.mockReturnValue({
+      suggestion: null,
+      suggestedShoe: null,
+      isLoadingSuggestion: false,
+    });
 
     mockUpdateRunningRecord.mockResolvedValue(undefined);
     mockGetRunningRecordItems.mockResolvedValue([]);
@@ -170,6 +184,26 @@ describe('RunningFinishedView', () => {
     });
   });
 
+  it('pre-selects the rotation shoe suggested for the actual run profile', async () => {
+    mockUseShoeSuggestion.mockReturnValue({
+      suggestion: { shoeId: 12, profile: 'LONG', reason: 'PROFILE_RULE' },
+      suggestedShoe: { id: 12, brand: 'Asics', model: 'Novablast', totalDistance: 0, isMain: false, isEnabled: true },
+      isLoadingSuggestion: false,
+    });
+
+    renderWithProviders(<RunningFinishedView />);
+
+    expect(mockUseShoeSuggestion).toHaveBeenCalledWith({ run: { distance: 2000, durationSec: 600 } });
+
+    fireEvent.press(screen.getByText('확인'));
+
+    await waitFor(() => {
+      expect(mockUpdateRunningRecord).toHaveBeenCalledWith(
+        expect.objectContaining({ id: 303, shoeId: 12 })
+      );
+    });
+  });
+
   it('begins the share entry transition before navigating to the share editor', async () => {
     renderWithProviders(<RunningFinishedView />);
 
@@ -247,4 +281,29 @@ describe('RunningFinishedView', () => {
       }));
     });
   });
+
+  it('celebrates personal records beaten by the finished run', async () => {
+    usePersonalRecordStore.setState({
+      personalBests: {
+        ...createEmptyPersonalBests(),
+        longestDistance: { recordId: 1, value: 1500, startTimestamp: 1735000000 },
+        longestDuration: { recordId: 2, value: 900, startTimestamp: 1735000000 },
+      },
+    });
+
+    renderWithProviders(<RunningFinishedView />);
+
+    expect(await screen.findByTestId('new-personal-record-longestDistance')).toHaveTextContent(
+      /2\.00 km.*이전 1\.50 km/
+    );
+    expect(screen.queryByTestId('new-personal-record-longestDuration')).toBeNull();
+    expect(usePersonalRecordStore.getState().personalBests?.longestDistance?.recordId).toBe(303);
+  });
+
+  it('does not celebrate without a personal record baseline', () => {
+    renderWithProviders(<RunningFinishedView />);
+
+    expect(screen.queryByTestId('personal-record-card')).toBeNull();
+    expect(usePersonalRecordStore.getState().personalBests?.longestDistance?.value).toBe(2000);
+  });
 });
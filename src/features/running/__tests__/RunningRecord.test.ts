@@ -1,7 +1,9 @@
 import {
   calculateAveragePace,
   calculateAverageSpeed,
+  createProvisionalRunningRecord,
   formatDuration,
+  isProvisionalRunningRecordId,
   formatRunningRecord,
   type RunningRecord,
 } from '~/features/running/models/RunningRecord';
@@ -33,4 +35,14 @@ describe('RunningRecord model helpers', () => {
     expect(formatted.cadence).toBe('172 spm');
     expect(formatted.heartRate).toBe('145 bpm');
   });
+
+  it('creates provisional records with a negative id until the server record exists', () => {
+    const record = createProvisionalRunningRecord(1735689600123);
+
+    expect(record.id).toBe(-1735689600123);
+    expect(record.startTimestamp).toBeCloseTo(1735689600.123, 3);
+    expect(record.timezone).toBe(Intl.DateTimeFormat().resolvedOptions().timeZone);
+    expect(isProvisionalRunningRecordId(record.id)).toBe(true);
+    expect(isProvisionalRunningRecordId(sampleRecord.id)).toBe(false);
+  });
 });
@@ -1,14 +1,16 @@
 import React from 'react';
-import { StyleSheet, type StyleProp, type ViewStyle } from 'react-native';
-import { screen } from '@testing-library/react-native';
+import { Alert, StyleSheet, type StyleProp, type ViewStyle } from 'react-native';
+import { fireEvent, screen, waitFor, within } from '@testing-library/react-native';
 import { RunningRecordDetailView } from '~/features/running/views/RunningRecordDetailView';
 import { renderWithProviders } from '~/test-utils/renderWithProviders';
+import { DistanceUnit, useUserStore } from '~/stores/user/userStore';
 
 const mockMapViewProps = jest.fn();
 const mockUseGetRunningRecord = jest.fn();
 const mockUseGetRunningRecordItems = jest.fn();
 const mockUseUpdateRunningRecordShoe = jest.fn();
 const mockUseShoeViewModel = jest.fn();
+const mockExportAndShareRunningRecord = jest.fn();
 
 interface TestNode {
   props: {
@@ -64,6 +66,10 @@ jest.mock('~/features/running/services/runningQueries', () => ({
     mockUseUpdateRunningRecordShoe(...args),
 }));
 
+jest.mock('~/features/running/services/export/runningExportService', () => ({
+  exportAndShareRunningRecord: (...args: unknown[]) => mockExportAndShareRunningRecord(...args),
+}));
+
 jest.mock('~/features/shoes/viewmodels', () => ({
   useShoeViewModel: () => mockUseShoeViewModel(),
 }));
@@ -75,6 +81,7 @@ jest.mock('~/features/running/views/shoe-selection-area', () => ({
 describe('RunningRecordDetailView', () => {
   beforeEach(() => {
     jest.clearAllMocks();
+    useUserStore.getState().updateUserPreferences({ distanceUnit: DistanceUnit.KILOMETER });
 
     mockUseGetRunningRecord.mockReturnValue({
       isLoading: false,
@@ -158,4 +165,123 @@ describe('RunningRecordDetailView', () => {
       userInterfaceStyle: 'light',
     }));
   });
+
+  it('renders km splits with the fastest and slowest rows highlighted', () => {
+    const createSegment = (orderIndex: number, durationSec: number, heartRate: number) => ({
+      distance: 1000,
+      durationSec,
+      cadence: 170,
+      heartRate,
+      minHeartRate: heartRate,
+      maxHeartRate: heartRate,
+      orderIndex,
+      startTimeStamp: 0,
+      endTimeStamp: 0,
+    });
+
+    mockUseGetRunningRecordItems.mockReturnValue({
+      isSuccess: true,
+      data: [
+        createSegment(0, 300, 140),
+        createSegment(1, 270, 150),
+        createSegment(2, 330, 160),
+      ],
+    });
+
+    renderWithProviders(<RunningRecordDetailView />);
+
+    expect(screen.getByText('구간 기록')).toBeTruthy();
+    expect(within(screen.getByTestId('split-row-2')).getByText('최고')).toBeTruthy();
+    expect(within(screen.getByTestId('split-row-2')).getAllByText('4:30')).toHaveLength(2);
+    expect(within(screen.getByTestId('split-row-3')).getByText('최저')).toBeTruthy();
+    expect(screen.getByTestId('split-pace-chart')).toBeTruthy();
+    expect(StyleSheet.flatten(screen.getByTestId('split-row-2').props.style)?.backgroundColor)
+      .toBe('#EEFEE9');
+  });
+
+  it('renders distance, pace and splits in miles when the mile unit is selected', () => {
+    useUserStore.getState().updateUserPreferences({ distanceUnit: DistanceUnit.MILE });
+    mockUseGetRunningRecordItems.mockReturnValue({
+      isSuccess: true,
+      data: [0, 1, 2].map((orderIndex) => ({
+        distance: 1000,
+        durationSec: 300,
+        cadence: 170,
+        heartRate: 0,
+        minHeartRate: 0,
+        maxHeartRate: 0,
+        orderIndex,
+        startTimeStamp: 0,
+        endTimeStamp: 0,
+      })),
+    });
+
+    renderWithProviders(<RunningRecordDetailView />);
+
+    expect(screen.getByText('3.11')).toBeTruthy();
+    expect(screen.getAllByText('mi')).toHaveLength(2); // 총 거리 + 구간 표 헤더
+    expect(screen.getByText('/mi')).toBeTruthy();
+    expect(within(screen.getByTestId('split-row-1')).getByText('8:02')).toBeTruthy();
+    expect(within(screen.getByTestId('split-row-2')).getByText('0.86')).toBeTruthy();
+  });
+
+  it('renders the heart-rate chart with time spent in each zone', () => {
+    const createSegment = (orderIndex: number, durationSec: number, heartRate: number) => ({
+      distance: 1000,
+      durationSec,
+      cadence: 170,
+      heartRate,
+      minHeartRate: heartRate,
+      maxHeartRate: heartRate,
+      orderIndex,
+      startTimeStamp: 0,
+      endTimeStamp: 0,
+    });
+
+    mockUseGetRunningRecordItems.mockReturnValue({
+      isSuccess: true,
+      data: [
+        createSegment(0, 300, 140),
+        createSegment(1, 270, 150),
+        createSegment(2, 330, 160),
+      ],
+    });
+
+    renderWithProviders(<RunningRecordDetailView />);
+
+    // 신체 정보가 없으면 30세 추정 최대 심박수(187) 기준: 3구간 131~150, 4구간 150~168
+    expect(screen.getByTestId('heart-rate-zone-chart')).toBeTruthy();
+    expect(within(screen.getByTestId('heart-rate-zone-row-3')).getByText('5:00')).toBeTruthy();
+    expect(within(screen.getByTestId('heart-rate-zone-row-4')).getByText('10:00')).toBeTruthy();
+    expect(within(screen.getByTestId('heart-rate-zone-row-4')).getByText('67%')).toBeTruthy();
+    expect(within(screen.getByTestId('heart-rate-zone-row-5')).getByText('0:00')).toBeTruthy();
+  });
+
+  it('hides the heart-rate chart when the run has no heart-rate data', () => {
+    renderWithProviders(<RunningRecordDetailView />);
+
+    expect(screen.queryByTestId('heart-rate-zone-chart')).toBeNull();
+  });
+
+  it('exports the run in the selected format from the header', async () => {
+    const alertSpy = jest.spyOn(Alert, 'alert');
+    mockExportAndShareRunningRecord.mockResolvedValue({ success: true });
+
+    renderWithProviders(<RunningRecordDetailView />);
+    fireEvent.press(screen.getByTestId('record-export-button'));
+
+    const buttons = alertSpy.mock.calls[0]![2]!;
+    expect(buttons.map((button) => button.text)).toEqual(['GPX', 'TCX', '취소']);
+
+    buttons[1]!.onPress!();
+
+    await waitFor(() => {
+      expect(mockExportAndShareRunningRecord).toHaveBeenCalledWith(
+        expect.objectContaining({ id: 101 }),
+        expect.arrayContaining([expect.objectContaining({ orderIndex: 0 })]),
+        'tcx'
+      );
+    });
+    alertSpy.mockRestore();
+  });
 });
@@ -0,0 +1,121 @@
+import {
+  calculatePaceChartPoints,
+  calculateRunningSplits,
+  findSplitExtremes,
+} from '~/features/running/models/RunningSplit';
+import type { RunningRecordItemResponse } from '~/features/running/services/runningService';
+
+const createItem = (
+  orderIndex: number,
+  overrides?: Partial<RunningRecordItemResponse>
+): RunningRecordItemResponse => ({
+  distance: 10,
+  durationSec: 3,
+  cadence: 170,
+  heartRate: 150,
+  minHeartRate: 140,
+  maxHeartRate: 160,
+  orderIndex,
+  startTimeStamp: 1700000000 + orderIndex * 3,
+  endTimeStamp: 1700000003 + orderIndex * 3,
+  ...overrides,
+});
+
+/**
+ * 10m 세그먼트를 distance 만큼 생성 (페이스는 secPerTenMeters로 고정)
+ */
+const createSegments = (
+  startOrderIndex: number,
+  distance: number,
+  secPerTenMeters: number,
+  overrides?: Partial<RunningRecordItemResponse>
+): RunningRecordItemResponse[] =>
+  Array.from({ length: Math.round(distance / 10) }, (_, offset) =>
+    createItem(startOrderIndex + offset, { durationSec: secPerTenMeters, ...overrides })
+  );
+
+describe('RunningSplit', () => {
+  it('rolls 10m segments up into full km splits and a trailing partial split', () => {
+    const items = [
+      ...createSegments(0, 1000, 3),
+      ...createSegments(100, 1000, 3.6),
+      ...createSegments(200, 350, 3),
+    ];
+
+    const splits = calculateRunningSplits(items);
+
+    expect(splits).toHaveLength(3);
+    expect(splits[0]).toMatchObject({ index: 1, isPartial: false, heartRate: 150, cadence: 170 });
+    expect(splits[0]!.distance).toBeCloseTo(1000, 5);
+    expect(splits[0]!.durationSec).toBeCloseTo(300, 5);
+    expect(splits[0]!.pace).toBeCloseTo(5, 5);
+    expect(splits[1]!.pace).toBeCloseTo(6, 5);
+    expect(splits[2]).toMatchObject({ index: 3, isPartial: true });
+    expect(splits[2]!.distance).toBeCloseTo(350, 5);
+  });
+
+  it('splits a segment that crosses a km boundary proportionally by distance', () => {
+    const items = [
+      createItem(0, { distance: 990, durationSec: 297 }),
+      createItem(1, { distance: 20, durationSec: 10 }),
+    ];
+
+    const splits = calculateRunningSplits(items);
+
+    expect(splits).toHaveLength(2);
+    expect(splits[0]!.durationSec).toBeCloseTo(302, 5);
+    expect(splits[1]!.distance).toBeCloseTo(10, 5);
+    expect(splits[1]!.durationSec).toBeCloseTo(5, 5);
+  });
+
+  it('sorts by orderIndex, ignores empty segments and treats zero sensor values as missing', () => {
+    const items = [
+      createItem(1, { distance: 500, durationSec: 150, heartRate: 0, cadence: 0 }),
+      createItem(0, { distance: 500, durationSec: 150, heartRate: 160, cadence: 0 }),
+      createItem(2, { distance: 0, durationSec: 0 }),
+    ];
+
+    const [split] = calculateRunningSplits(items);
+
+    expect(split).toMatchObject({ index: 1, heartRate: 160, cadence: null, isPartial: false });
+  });
+
+  it('drops a trailing partial split that is too short to have a meaningful pace', () => {
+    const items = [...createSegments(0, 1000, 3), createItem(100, { distance: 4, durationSec: 1 })];
+
+    expect(calculateRunningSplits(items)).toHaveLength(1);
+  });
+
+  it('finds the fastest and slowest full splits and ignores partial ones', () => {
+    const items = [
+      ...createSegments(0, 1000, 3),
+      ...createSegments(100, 1000, 2.7),
+      ...createSegments(200, 1000, 3.3),
+      ...createSegments(300, 200, 1),
+    ];
+
+    expect(findSplitExtremes(calculateRunningSplits(items))).toEqual({
+      fastestIndex: 2,
+      slowestIndex: 3,
+    });
+  });
+
+  it('does not highlight extremes with fewer than two full splits', () => {
+    const items = [...createSegments(0, 1000, 3), ...createSegments(100, 500, 5)];
+
+    expect(findSplitExtremes(calculateRunningSplits(items))).toEqual({
+      fastestIndex: null,
+      slowestIndex: null,
+    });
+  });
+
+  it('builds pace chart points at cumulative bucket distances', () => {
+    const items = [...createSegments(0, 400, 3), ...createSegments(40, 200, 6)];
+
+    const points = calculatePaceChartPoints(items, 200);
+
+    expect(points.map((point) => Math.round(point.distance))).toEqual([200, 400, 600]);
+    expect(points[0]!.pace).toBeCloseTo(5, 5);
+    expect(points[2]!.pace).toBeCloseTo(10, 5);
+  });
+});
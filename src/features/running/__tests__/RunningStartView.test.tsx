@@ -1,6 +1,8 @@
 import React from 'react';
-import { fireEvent, screen, waitFor } from '@testing-library/react-native';
+import { act, fireEvent, screen, waitFor } from '@testing-library/react-native';
 import { RunningStartView } from '~/features/running/views/running-start';
+import { useAutoPauseStore } from '~/features/running/stores/autoPauseStore';
+import { useOfflineSyncStore } from '~/features/running/stores/offlineSyncStore';
 import { RunningState, useAppStore } from '~/stores/app/appStore';
 import { useUserStore } from '~/stores/user/userStore';
 import { renderWithProviders } from '~/test-utils/renderWithProviders';
@@ -9,6 +11,7 @@ import { resetAllStores } from '~/test-utils/resetState';
 const mockCheckRequiredPermissions = jest.fn();
 const mockStartRunning = jest.fn();
 const mockPermissionRequestModal = jest.fn();
+const mockRetryFailed = jest.fn();
 
 jest.mock('~/services/PermissionManager', () => ({
   permissionManager: {
@@ -22,6 +25,14 @@ jest.mock('~/features/running/contexts', () => ({
   }),
 }));
 
+jest.mock('~/features/running/services/OfflineSyncService', () => ({
+  offlineSyncService: {
+    refreshStatus: jest.fn().mockResolvedValue(undefined),
+    retryFailed: () => mockRetryFailed(),
+    onProvisionalRecordReconciled: jest.fn(() => jest.fn()),
+  },
+}));
+
 jest.mock('~/features/permissions/views/PermissionRequestModal', () => ({
   PermissionRequestModal: ({ visible }: { visible: boolean }) => {
     const React = require('react');
@@ -122,4 +133,35 @@ describe('RunningStartView', () => {
       expect(useAppStore.getState().runningState).toBe(RunningState.Stopped);
     });
   });
+
+  it('RUN-SCREEN-005 shows runs waiting to sync and retries failed runs manually', async () => {
+    useOfflineSyncStore.getState().setCounts({ pendingRunCount: 2, failedRunCount: 0 });
+
+    renderWithProviders(<RunningStartView />);
+    expect(screen.getByText('2개의 러닝이 동기화를 기다리고 있어요')).toBeTruthy();
+    expect(screen.queryByTestId('offline-sync-retry')).toBeNull();
+
+    act(() => {
+      useOfflineSyncStore.getState().setCounts({ pendingRunCount: 0, failedRunCount: 1 });
+    });
+    expect(screen.getByText('동기화하지 못한 러닝 1개')).toBeTruthy();
+
+    fireEvent.press(screen.getByTestId('offline-sync-retry'));
+    expect(mockRetryFailed).toHaveBeenCalledTimes(1);
+  });
+
+  it('RUN-SCREEN-006 cycles the auto-pause mode from the start screen', () => {
+    renderWithProviders(<RunningStartView />);
+    expect(screen.getByText('자동 일시정지 끔')).toBeTruthy();
+
+    fireEvent.press(screen.getByTestId('auto-pause-chip'));
+    expect(useAutoPauseStore.getState().mode).toBe('standard');
+    expect(screen.getByText('자동 일시정지')).toBeTruthy();
+
+    fireEvent.press(screen.getByTestId('auto-pause-chip'));
+    expect(useAutoPauseStore.getState().mode).toBe('sensitive');
+
+    fireEvent.press(screen.getByTestId('auto-pause-chip'));
+    expect(useAutoPauseStore.getState().mode).toBe('off');
+  });
 });
@@ -54,6 +54,21 @@ describe('runningService', () => {
     dateNowSpy.mockRestore();
   });
 
+  it('starts running with an explicit start timestamp and timezone for deferred creation', async () => {
+    mockApiClient.post.mockResolvedValue({ data: { id: 120 } });
+
+    const record = await runningService.startRunning({
+      startTimestamp: 1735689600,
+      timezone: 'Europe/Berlin',
+    });
+
+    expect(record).toMatchObject({ id: 120, startTimestamp: 1735689600, timezone: 'Europe/Berlin' });
+    expect(mockApiClient.post).toHaveBeenCalledWith(API_ENDPOINTS.RUNNING.BASE, {
+      startTimestamp: 1735689600,
+      timezone: 'Europe/Berlin',
+    });
+  });
+
   it('maps getRunningRecords filters to API query params', async () => {
     const startDate = new Date('2025-01-01T00:00:00.000Z');
     const endDate = new Date('2025-01-02T00:00:00.000Z');
@@ -246,6 +246,50 @@ describe('useGpsTracking lifecycle', () => {
     });
   });
 
+  it('does not fold locations received while paused into segments after resuming', async () => {
+    const onDistanceUpdate = jest.fn();
+    const createLocation = (second: number): MockLocation => ({
+      latitude: 37.5 + second * 0.00001,
+      longitude: 127.0,
+      altitude: 10,
+      accuracy: 5,
+      speed: second < 10 ? 0 : 2.7,
+      timestamp: new Date(1_767_225_600_000 + second * 1000),
+    });
+    const driftLocations = [createLocation(1), createLocation(2)];
+    const resumedLocation = createLocation(10);
+    const { result } = renderHook(() => useGpsTracking(createProps({ onDistanceUpdate })));
+
+    act(() => {
+      mockSubscriptionListener?.(createSnapshot({ source: 'foreground', distance: 0 }));
+      useAppStore.getState().setRunningState(RunningState.Paused);
+    });
+
+    // 동작 감지 일시정지 중에도 GPS는 계속 들어옴
+    const pausedSnapshot = createSnapshot({ source: 'foreground', distance: 4, locations: driftLocations });
+    act(() => {
+      mockSubscriptionListener?.(pausedSnapshot);
+    });
+    mockGetSnapshot.mockReturnValue(pausedSnapshot);
+
+    act(() => {
+      result.current.resumeGpsTracking();
+      useAppStore.getState().setRunningState(RunningState.Running);
+    });
+    act(() => {
+      mockSubscriptionListener?.(
+        createSnapshot({
+          source: 'foreground',
+          distance: 7,
+          locations: [...driftLocations, resumedLocation],
+        })
+      );
+    });
+
+    expect(onDistanceUpdate).toHaveBeenCalledTimes(1);
+    expect(onDistanceUpdate).toHaveBeenCalledWith(3, [resumedLocation]);
+  });
+
   it('forwards app-state auto-pause results to the latest callback', async () => {
     const onAutoPause = jest.fn();
     mockHandleAppStateChange.mockResolvedValueOnce({
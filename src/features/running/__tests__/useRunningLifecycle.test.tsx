@@ -124,6 +124,8 @@ const buildHookProps = (overrides?: {
   const setStats = jest.fn();
   const initializeSegmentTracking = jest.fn();
   const finalizeCurrentSegment = jest.fn();
+  const excludeSegmentPausedTime = jest.fn();
+  const recordSegmentHeartRate = jest.fn();
   const resetSegments = jest.fn();
 
   const props = {
@@ -136,6 +138,8 @@ const buildHookProps = (overrides?: {
     setStats,
     initializeSegmentTracking,
     finalizeCurrentSegment,
+    excludeSegmentPausedTime,
+    recordSegmentHeartRate,
     resetSegments,
     distance: 0,
     elapsedTime: 120,
@@ -159,6 +163,8 @@ const buildHookProps = (overrides?: {
       setStats,
       initializeSegmentTracking,
       finalizeCurrentSegment,
+      excludeSegmentPausedTime,
+      recordSegmentHeartRate,
       resetSegments,
     },
   };
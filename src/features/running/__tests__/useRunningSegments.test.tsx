@@ -95,4 +95,62 @@ describe('useRunningSegments', () => {
     expect(result.current.segmentStartTimeRef.current).toBeNull();
     expect(result.current.segmentLocations).toHaveLength(0);
   });
+
+  it('RUN-SEG-004 excludes paused time overlapping the current segment from its duration', () => {
+    const dateNowSpy = jest.spyOn(Date, 'now').mockReturnValue(10_000);
+    const statsRef = createStatsRef();
+    const { result } = renderHook(() => useRunningSegments({ statsRef }));
+
+    act(() => {
+      result.current.initializeSegmentTracking();
+    });
+
+    // 세그먼트 시작 이전 부분(8초~10초)은 제외 대상이 아님
+    act(() => {
+      result.current.excludeSegmentPausedTime(8_000, 25_000);
+    });
+
+    dateNowSpy.mockReturnValue(40_000);
+    act(() => {
+      result.current.processDistanceUpdate(12, [createLocation()], 10);
+    });
+
+    expect(result.current.currentSegmentItems[0]?.durationSec).toBe(15);
+
+    dateNowSpy.mockRestore();
+  });
+
+  it('RUN-SEG-005 summarizes heart-rate samples per segment and starts fresh for the next one', () => {
+    const statsRef = createStatsRef();
+    const { result } = renderHook(() => useRunningSegments({ statsRef }));
+
+    act(() => {
+      result.current.initializeSegmentTracking();
+      [140, 152, 161].forEach((bpm) => result.current.recordSegmentHeartRate(bpm));
+    });
+
+    act(() => {
+      result.current.processDistanceUpdate(12, [createLocation()], 10);
+    });
+
+    expect(result.current.currentSegmentItems[0]).toMatchObject({
+      heartRate: 151,
+      minHeartRate: 140,
+      maxHeartRate: 161,
+    });
+
+    // 측정값이 없는 세그먼트는 통계 심박수로 대체
+    act(() => {
+      result.current.setSegmentDistance(5);
+    });
+    act(() => {
+      result.current.finalizeCurrentSegment();
+    });
+
+    expect(result.current.currentSegmentItems[1]).toMatchObject({
+      heartRate: 150,
+      minHeartRate: 150,
+      maxHeartRate: 150,
+    });
+  });
 });
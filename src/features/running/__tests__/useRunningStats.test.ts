@@ -1,10 +1,12 @@
 import { act, renderHook } from '@testing-library/react-native';
 import { useRunningStats } from '~/features/running/viewmodels/hooks/useRunningStats';
+import { useUserStore } from '~/stores/user/userStore';
 
 describe('useRunningStats', () => {
   beforeEach(() => {
     jest.useFakeTimers();
     jest.setSystemTime(new Date('2026-01-01T00:00:00.000Z'));
+    useUserStore.getState().logout();
   });
 
   afterEach(() => {
@@ -24,6 +26,24 @@ describe('useRunningStats', () => {
     expect(result.current.stats.speed).toBeCloseTo(12, 5);
   });
 
+  it('computes calories from the user physiology profile', () => {
+    const { result } = renderHook(() => useRunningStats());
+
+    act(() => {
+      result.current.updateStats(5000, 1800);
+    });
+    // 기본값 70kg, MET 9.8 × 0.5h
+    expect(result.current.stats.calories).toBeCloseTo(343, 5);
+
+    act(() => {
+      useUserStore.getState().updatePhysiologyProfile({ weightKg: 50 });
+    });
+    act(() => {
+      result.current.updateStats(5000, 1800);
+    });
+    expect(result.current.stats.calories).toBeCloseTo(245, 5);
+  });
+
   it('resets stats and elapsed time', () => {
     const { result } = renderHook(() => useRunningStats());
 
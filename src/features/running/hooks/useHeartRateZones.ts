@@ -0,0 +1,26 @@
+/**
+ * 심박 구간 Hook
+ *
+ * 사용자 신체 정보(최대/안정 시 심박수)와 구간 설정으로 5개 심박 구간 계산
+ * - 기록 상세 심박 차트, 통계 주간 구간 시간에서 같은 구간을 쓰도록 단일 진입점 제공
+ */
+
+import { useMemo } from 'react';
+import { resolvePhysiology } from '~/features/user/models/PhysiologyProfile';
+import { useUserStore } from '~/stores/user/userStore';
+import { calculateHeartRateZones, getHeartRateZoneMethod } from '../models/HeartRateZone';
+import { useHeartRateZoneStore } from '../stores/heartRateZoneStore';
+
+export const useHeartRateZones = () => {
+  const physiologyProfile = useUserStore((state) => state.physiologyProfile);
+  const settings = useHeartRateZoneStore((state) => state.settings);
+
+  return useMemo(() => {
+    const physiology = resolvePhysiology(physiologyProfile);
+    return {
+      zones: calculateHeartRateZones(physiology, settings),
+      method: getHeartRateZoneMethod(physiology, settings.method),
+      physiology,
+    };
+  }, [physiologyProfile, settings]);
+};
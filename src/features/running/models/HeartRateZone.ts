@@ -0,0 +1,133 @@
+import type { ResolvedPhysiology } from '~/features/user/models/PhysiologyProfile';
+
+/**
+ * 심박 구간 (Heart Rate Zone)
+ * - 여유 심박수(Karvonen) 기준: 안정 시 심박수 + (최대 - 안정 시) × 비율
+ * - 최대 심박수 기준: 최대 심박수 × 비율
+ */
+export type HeartRateZoneNumber = 1 | 2 | 3 | 4 | 5;
+
+export type HeartRateZoneMethod = 'maxHeartRate' | 'heartRateReserve';
+
+export interface HeartRateZone {
+  zone: HeartRateZoneNumber;
+  label: string;
+  minBpm: number; // 포함
+  maxBpm: number; // 미포함 (5구간은 최대 심박수)
+}
+
+/**
+ * 구간 계산 방식 설정
+ * - auto: 안정 시 심박수가 있으면 여유 심박수, 없으면 최대 심박수 기준
+ */
+export type HeartRateZoneMethodSetting = 'auto' | HeartRateZoneMethod;
+
+/**
+ * 사용자 심박 구간 설정
+ * lowerBounds: 1~5구간 하한 비율(%), 오름차순 (5구간 상한은 항상 100%)
+ */
+export interface HeartRateZoneSettings {
+  method: HeartRateZoneMethodSetting;
+  lowerBounds: number[];
+}
+
+export const HEART_RATE_ZONE_NUMBERS: readonly HeartRateZoneNumber[] = [1, 2, 3, 4, 5];
+
+export const DEFAULT_HEART_RATE_ZONE_SETTINGS: HeartRateZoneSettings = {
+  method: 'auto',
+  lowerBounds: [50, 60, 70, 80, 90],
+};
+
+export const HEART_RATE_ZONE_BOUND_LIMITS = { min: 30, max: 99 } as const;
+
+export const HEART_RATE_ZONE_LABELS: Record<HeartRateZoneNumber, string> = {
+  1: '회복',
+  2: '유산소',
+  3: '템포',
+  4: '역치',
+  5: '최대',
+};
+
+/**
+ * 구간별 표시 색상 (차트/구간 시간 막대 공통)
+ */
+export const HEART_RATE_ZONE_COLORS: Record<HeartRateZoneNumber, string> = {
+  1: '#91C9FF',
+  2: '#2B91FF',
+  3: '#21C427',
+  4: '#FFA726',
+  5: '#FF4032',
+};
+
+/**
+ * 신체 정보와 설정으로 구간 계산 방식 결정
+ * 여유 심박수 방식을 골랐어도 안정 시 심박수가 없으면 최대 심박수 기준으로 계산
+ */
+export const getHeartRateZoneMethod = (
+  physiology: ResolvedPhysiology,
+  method: HeartRateZoneMethodSetting = 'auto'
+): HeartRateZoneMethod => {
+  if (physiology.restingHeartRate === null) return 'maxHeartRate';
+  return method === 'auto' ? 'heartRateReserve' : method;
+};
+
+/**
+ * 구간 하한 설정 검증
+ * @returns 오류 메시지 (문제 없으면 null)
+ */
+export const validateHeartRateZoneBounds = (lowerBounds: readonly number[]): string | null => {
+  const { min, max } = HEART_RATE_ZONE_BOUND_LIMITS;
+
+  if (lowerBounds.length !== HEART_RATE_ZONE_NUMBERS.length) {
+    return '5개 구간의 기준을 모두 입력해주세요.';
+  }
+
+  if (lowerBounds.some((bound) => !Number.isInteger(bound) || bound < min || bound > max)) {
+    return `구간 기준은 ${min}~${max}% 사이의 정수로 입력해주세요.`;
+  }
+
+  for (let index = 1; index < lowerBounds.length; index += 1) {
+    if (lowerBounds[index]! <= lowerBounds[index - 1]!) {
+      return '높은 구간일수록 기준 비율이 커야 합니다.';
+    }
+  }
+
+  return null;
+};
+
+/**
+ * 5개 심박 구간 계산
+ */
+export const calculateHeartRateZones = (
+  physiology: ResolvedPhysiology,
+  settings: HeartRateZoneSettings = DEFAULT_HEART_RATE_ZONE_SETTINGS
+): HeartRateZone[] => {
+  const { maxHeartRate, restingHeartRate } = physiology;
+  const method = getHeartRateZoneMethod(physiology, settings.method);
+
+  const toBpm = (percent: number) =>
+    method === 'heartRateReserve' && restingHeartRate !== null
+      ? Math.round(restingHeartRate + ((maxHeartRate - restingHeartRate) * percent) / 100)
+      : Math.round((maxHeartRate * percent) / 100);
+
+  return HEART_RATE_ZONE_NUMBERS.map((zone, index) => ({
+    zone,
+    label: HEART_RATE_ZONE_LABELS[zone],
+    minBpm: toBpm(settings.lowerBounds[index]!),
+    maxBpm: toBpm(settings.lowerBounds[index + 1] ?? 100),
+  }));
+};
+
+/**
+ * 심박수가 속한 구간 (1구간 하한 미만이면 null)
+ */
+export const getHeartRateZone = (
+  bpm: number,
+  zones: HeartRateZone[]
+): HeartRateZoneNumber | null => {
+  for (let index = zones.length - 1; index >= 0; index -= 1) {
+    const zone = zones[index];
+    if (zone && bpm >= zone.minBpm) return zone.zone;
+  }
+  return null;
+};
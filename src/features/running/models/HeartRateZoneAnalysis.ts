@@ -0,0 +1,141 @@
+import type { RunningRecordItemResponse } from '../services/runningService';
+import {
+  getHeartRateZone,
+  HEART_RATE_ZONE_NUMBERS,
+  type HeartRateZone,
+  type HeartRateZoneNumber,
+} from './HeartRateZone';
+import { calculateRunningSplits, DEFAULT_PACE_CHART_BUCKET_METERS } from './RunningSplit';
+
+/**
+ * 심박수별 측정 시간 (bpm → 초)
+ *
+ * 구간 설정이 바뀌어도 세그먼트를 다시 받지 않고 구간별 시간을 계산할 수 있도록
+ * 기록 단위로는 구간이 아닌 심박수 분포를 보관한다.
+ */
+export type HeartRateHistogram = Record<number, number>;
+
+/**
+ * 구간별 머문 시간 (Time in Zone)
+ */
+export interface TimeInZones {
+  secondsByZone: Record<HeartRateZoneNumber, number>;
+  belowZoneSec: number; // 1구간 하한 미만
+  measuredSec: number; // 심박수가 측정된 전체 시간
+}
+
+/**
+ * 심박 차트 데이터 포인트
+ */
+export interface HeartRateChartPoint {
+  distance: number; // 구간 종료 지점까지의 누적 거리 (미터)
+  heartRate: number; // 평균 BPM
+}
+
+const createEmptySecondsByZone = (): Record<HeartRateZoneNumber, number> => ({
+  1: 0,
+  2: 0,
+  3: 0,
+  4: 0,
+  5: 0,
+});
+
+/**
+ * 세그먼트로 심박수 분포 생성
+ * 서버는 센서 데이터가 없을 때 0을 내려주므로 0은 미측정으로 취급
+ */
+export const buildHeartRateHistogram = (
+  items: RunningRecordItemResponse[]
+): HeartRateHistogram => {
+  const histogram: HeartRateHistogram = {};
+
+  for (const item of items) {
+    const durationSec = Number.isFinite(item.durationSec) ? Math.max(0, item.durationSec) : 0;
+    if (!Number.isFinite(item.heartRate) || item.heartRate <= 0 || durationSec === 0) continue;
+
+    const bpm = Math.round(item.heartRate);
+    histogram[bpm] = (histogram[bpm] ?? 0) + durationSec;
+  }
+
+  return histogram;
+};
+
+/**
+ * 여러 기록의 심박수 분포 합산
+ */
+export const mergeHeartRateHistograms = (
+  histograms: HeartRateHistogram[]
+): HeartRateHistogram => {
+  const merged: HeartRateHistogram = {};
+
+  for (const histogram of histograms) {
+    for (const [bpm, seconds] of Object.entries(histogram)) {
+      const key = Number(bpm);
+      merged[key] = (merged[key] ?? 0) + seconds;
+    }
+  }
+
+  return merged;
+};
+
+/**
+ * 심박수 분포를 구간별 시간으로 집계
+ */
+export const calculateTimeInZones = (
+  histogram: HeartRateHistogram,
+  zones: HeartRateZone[]
+): TimeInZones => {
+  const secondsByZone = createEmptySecondsByZone();
+  let belowZoneSec = 0;
+  let measuredSec = 0;
+
+  for (const [bpm, seconds] of Object.entries(histogram)) {
+    const zone = getHeartRateZone(Number(bpm), zones);
+    measuredSec += seconds;
+
+    if (zone === null) {
+      belowZoneSec += seconds;
+    } else {
+      secondsByZone[zone] += seconds;
+    }
+  }
+
+  return { secondsByZone, belowZoneSec, measuredSec };
+};
+
+/**
+ * 구간별 시간 비율 (측정 시간 대비 0~1)
+ */
+export const getTimeInZoneRatios = (
+  timeInZones: TimeInZones
+): Record<HeartRateZoneNumber, number> => {
+  const ratios = createEmptySecondsByZone();
+  if (timeInZones.measuredSec <= 0) return ratios;
+
+  for (const zone of HEART_RATE_ZONE_NUMBERS) {
+    ratios[zone] = timeInZones.secondsByZone[zone] / timeInZones.measuredSec;
+  }
+
+  return ratios;
+};
+
+/**
+ * 거리별 심박 차트 데이터 생성
+ * 페이스 차트와 같은 bucketDistance 단위로 집계하고, 심박수가 없는 구간은 제외
+ */
+export const calculateHeartRateChartPoints = (
+  items: RunningRecordItemResponse[],
+  bucketDistance: number = DEFAULT_PACE_CHART_BUCKET_METERS
+): HeartRateChartPoint[] => {
+  let cumulativeDistance = 0;
+  const points: HeartRateChartPoint[] = [];
+
+  for (const bucket of calculateRunningSplits(items, bucketDistance)) {
+    cumulativeDistance += bucket.distance;
+    if (bucket.heartRate !== null) {
+      points.push({ distance: cumulativeDistance, heartRate: bucket.heartRate });
+    }
+  }
+
+  return points;
+};
@@ -1,4 +1,7 @@
 import type { Shoe } from '~/features/shoes/models';
+import { getDeviceTimezone } from '~/shared/utils/dateUtils';
+import { formatDistance, formatPace, formatSpeed } from '~/shared/utils/unitFormatters';
+import { DistanceUnit } from '~/stores/user/userStore';
 
 export interface RunningRecord {
   id: number;
@@ -11,6 +14,7 @@ export interface RunningRecord {
   calorie: number;
   durationSec: number; // TimeInterval (seconds)
   startTimestamp: number; // Unix timestamp
+  timezone?: string; // 러닝 시작 시점 기기 timezone (러닝 시작 요청 때 전송, 서버 기록에 저장)
 }
 
 /**
@@ -29,6 +33,22 @@ export const createRunningRecord = (id: number): RunningRecord => ({
   startTimestamp: Date.now() / 1000, // Convert to seconds
 });
 
+/**
+ * 오프라인 시작용 임시 RunningRecord 생성
+ * 서버 ID를 받지 못한 경우 음수 임시 ID로 추적을 시작하고,
+ * 네트워크 복구 후 OfflineStorageService에서 서버 기록으로 재매핑한다.
+ */
+export const createProvisionalRunningRecord = (nowMs: number = Date.now()): RunningRecord => ({
+  ...createRunningRecord(-Math.floor(nowMs)),
+  startTimestamp: nowMs / 1000,
+  timezone: getDeviceTimezone(),
+});
+
+/**
+ * 서버에 아직 생성되지 않은 임시 기록 ID 여부
+ */
+export const isProvisionalRunningRecordId = (id: number): boolean => id < 0;
+
 /**
  * 완료된 러닝 기록 생성
  */
@@ -89,15 +109,16 @@ export const calculateAverageSpeed = (record: RunningRecord): number => {
 
 /**
  * 러닝 기록 포맷팅
- * 정책: null인 센서 데이터는 "--"로 표시
+ * 정책: null인 센서 데이터는 "--"로 표시, 거리/페이스/속도는 사용자 거리 단위로 표시
  */
-export const formatRunningRecord = (record: RunningRecord) => ({
-  distance: `${(record.distance / 1000).toFixed(2)} km`,
+export const formatRunningRecord = (
+  record: RunningRecord,
+  unit: DistanceUnit = DistanceUnit.KILOMETER
+) => ({
+  distance: formatDistance(record.distance, unit),
   duration: formatDuration(record.durationSec),
-  pace: `${Math.floor(calculateAveragePace(record))}:${String(
-    Math.floor((calculateAveragePace(record) % 1) * 60)
-  ).padStart(2, '0')} /km`,
-  speed: `${calculateAverageSpeed(record).toFixed(1)} km/h`,
+  pace: formatPace(calculateAveragePace(record), unit, { withUnit: true }),
+  speed: formatSpeed(calculateAverageSpeed(record), unit),
   calories: `${record.calorie} kcal`,
   cadence: record.cadence !== null ? `${record.cadence} spm` : '--',
   heartRate: record.heartRate !== null ? `${record.heartRate} bpm` : '--',
@@ -12,7 +12,9 @@ export interface RunningRecordItem {
   id: number;
   distance: number;
   cadence: number | null; // null 허용 (센서 데이터 없을 때)
-  heartRate: number | null; // null 허용 (센서 데이터 없을 때)
+  heartRate: number | null; // null 허용 (센서 데이터 없을 때), 세그먼트 평균
+  minHeartRate?: number | null; // 세그먼트 최저 심박수
+  maxHeartRate?: number | null; // 세그먼트 최고 심박수
   calories: number;
   orderIndex: number;
   durationSec: number; // TimeInterval (seconds)
@@ -31,6 +33,8 @@ export const createRunningRecordItem = (data: {
   distance: number;
   cadence: number | null; // null 허용
   heartRate: number | null; // null 허용
+  minHeartRate?: number | null; // 없으면 heartRate와 동일
+  maxHeartRate?: number | null; // 없으면 heartRate와 동일
   calories: number;
   orderIndex: number;
   durationSec: number;
@@ -41,6 +45,8 @@ export const createRunningRecordItem = (data: {
   distance: data.distance,
   cadence: data.cadence,
   heartRate: data.heartRate,
+  minHeartRate: data.minHeartRate ?? data.heartRate,
+  maxHeartRate: data.maxHeartRate ?? data.heartRate,
   calories: data.calories,
   orderIndex: data.orderIndex,
   durationSec: data.durationSec,
@@ -0,0 +1,192 @@
+import type { RunningRecordItemResponse } from '../services/runningService';
+
+/**
+ * km 구간 기록 (스플릿)
+ *
+ * 10m 세그먼트(RunningRecordItemResponse)를 일정 거리 단위로 묶은 결과
+ * - 마지막 구간은 기준 거리보다 짧을 수 있음 (isPartial)
+ * - 센서 데이터(heartRate, cadence)는 수집된 세그먼트가 없으면 null
+ */
+export interface RunningSplit {
+  index: number; // 1부터 시작하는 구간 번호
+  distance: number; // 미터
+  durationSec: number; // 초
+  pace: number; // 분/km
+  heartRate: number | null; // 평균 BPM
+  cadence: number | null; // 평균 spm
+  isPartial: boolean;
+}
+
+/**
+ * 가장 빠른/느린 구간 번호
+ * 비교할 완주 구간이 2개 미만이면 null
+ */
+export interface RunningSplitExtremes {
+  fastestIndex: number | null;
+  slowestIndex: number | null;
+}
+
+/**
+ * 페이스 차트 데이터 포인트
+ */
+export interface PaceChartPoint {
+  distance: number; // 구간 종료 지점까지의 누적 거리 (미터)
+  pace: number; // 분/km
+}
+
+export const DEFAULT_SPLIT_DISTANCE_METERS = 1000;
+export const DEFAULT_PACE_CHART_BUCKET_METERS = 200;
+
+// 마지막 부분 구간이 이보다 짧으면 페이스 노이즈가 커서 표시하지 않는다.
+const MIN_PARTIAL_SPLIT_METERS = 10;
+
+// 부동소수점 누적 오차로 경계를 놓치지 않기 위한 허용치 (미터)
+const SPLIT_BOUNDARY_EPSILON = 1e-6;
+
+interface SplitAccumulator {
+  distance: number;
+  durationSec: number;
+  heartRateSum: number;
+  heartRateDuration: number;
+  cadenceSum: number;
+  cadenceDuration: number;
+}
+
+const createAccumulator = (): SplitAccumulator => ({
+  distance: 0,
+  durationSec: 0,
+  heartRateSum: 0,
+  heartRateDuration: 0,
+  cadenceSum: 0,
+  cadenceDuration: 0,
+});
+
+// 서버는 센서 데이터가 없을 때 0을 내려주므로 0도 미수집으로 취급한다.
+const isSensorValue = (value: number | null | undefined): value is number =>
+  typeof value === 'number' && Number.isFinite(value) && value > 0;
+
+const addPortion = (
+  acc: SplitAccumulator,
+  item: RunningRecordItemResponse,
+  distance: number,
+  durationSec: number
+) => {
+  acc.distance += distance;
+  acc.durationSec += durationSec;
+
+  if (isSensorValue(item.heartRate)) {
+    acc.heartRateSum += item.heartRate * durationSec;
+    acc.heartRateDuration += durationSec;
+  }
+
+  if (isSensorValue(item.cadence)) {
+    acc.cadenceSum += item.cadence * durationSec;
+    acc.cadenceDuration += durationSec;
+  }
+};
+
+const toSplit = (
+  acc: SplitAccumulator,
+  index: number,
+  splitDistance: number
+): RunningSplit => ({
+  index,
+  distance: acc.distance,
+  durationSec: acc.durationSec,
+  pace: acc.distance > 0 ? (acc.durationSec / 60) / (acc.distance / 1000) : 0,
+  heartRate:
+    acc.heartRateDuration > 0 ? Math.round(acc.heartRateSum / acc.heartRateDuration) : null,
+  cadence: acc.cadenceDuration > 0 ? Math.round(acc.cadenceSum / acc.cadenceDuration) : null,
+  isPartial: acc.distance < splitDistance - SPLIT_BOUNDARY_EPSILON,
+});
+
+/**
+ * 세그먼트를 splitDistance 단위 구간으로 집계
+ *
+ * 구간 경계를 걸치는 세그먼트는 거리 비율로 시간을 나눠 양쪽 구간에 배분한다.
+ * 평균 심박/케이던스는 세그먼트 시간 가중 평균
+ */
+export const calculateRunningSplits = (
+  items: RunningRecordItemResponse[],
+  splitDistance: number = DEFAULT_SPLIT_DISTANCE_METERS
+): RunningSplit[] => {
+  if (splitDistance <= 0) {
+    return [];
+  }
+
+  const segments = items
+    .filter((item) => Number.isFinite(item.distance) && item.distance > 0)
+    .sort((a, b) => a.orderIndex - b.orderIndex);
+
+  const splits: RunningSplit[] = [];
+  let acc = createAccumulator();
+
+  for (const item of segments) {
+    const durationSec = Number.isFinite(item.durationSec) ? Math.max(0, item.durationSec) : 0;
+    let remainingDistance = item.distance;
+
+    while (remainingDistance > SPLIT_BOUNDARY_EPSILON) {
+      const capacity = splitDistance - acc.distance;
+      const portionDistance = Math.min(remainingDistance, capacity);
+      const portionDuration = durationSec * (portionDistance / item.distance);
+
+      addPortion(acc, item, portionDistance, portionDuration);
+      remainingDistance -= portionDistance;
+
+      if (acc.distance >= splitDistance - SPLIT_BOUNDARY_EPSILON) {
+        splits.push(toSplit(acc, splits.length + 1, splitDistance));
+        acc = createAccumulator();
+      }
+    }
+  }
+
+  if (acc.distance >= MIN_PARTIAL_SPLIT_METERS) {
+    splits.push(toSplit(acc, splits.length + 1, splitDistance));
+  }
+
+  return splits;
+};
+
+/**
+ * 가장 빠른/느린 구간 탐색
+ * 부분 구간은 페이스 편차가 커서 비교 대상에서 제외
+ */
+export const findSplitExtremes = (splits: RunningSplit[]): RunningSplitExtremes => {
+  const comparable = splits.filter((split) => !split.isPartial && split.pace > 0);
+
+  if (comparable.length < 2) {
+    return { fastestIndex: null, slowestIndex: null };
+  }
+
+  let fastest = comparable[0]!;
+  let slowest = comparable[0]!;
+
+  for (const split of comparable) {
+    if (split.pace < fastest.pace) fastest = split;
+    if (split.pace > slowest.pace) slowest = split;
+  }
+
+  if (fastest.index === slowest.index) {
+    return { fastestIndex: null, slowestIndex: null };
+  }
+
+  return { fastestIndex: fastest.index, slowestIndex: slowest.index };
+};
+
+/**
+ * 거리별 페이스 차트 데이터 생성
+ * km 스플릿보다 촘촘한 bucketDistance 단위로 집계
+ */
+export const calculatePaceChartPoints = (
+  items: RunningRecordItemResponse[],
+  bucketDistance: number = DEFAULT_PACE_CHART_BUCKET_METERS
+): PaceChartPoint[] => {
+  let cumulativeDistance = 0;
+
+  return calculateRunningSplits(items, bucketDistance)
+    .map((bucket) => {
+      cumulativeDistance += bucket.distance;
+      return { distance: cumulativeDistance, pace: bucket.pace };
+    })
+    .filter((point) => point.pace > 0);
+};
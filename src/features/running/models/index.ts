@@ -4,4 +4,7 @@
 export * from './Location';
 export * from './RunningRecord';
 export * from './RunningRecordItem';
-export * from './EndRunningRecord';
\ No newline at end of file
+export * from './EndRunningRecord';
+export * from './RunningSplit';
+export * from './HeartRateZone';
+export * from './HeartRateZoneAnalysis';
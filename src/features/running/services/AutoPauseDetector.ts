@@ -0,0 +1,169 @@
+/**
+ * Auto Pause Detector
+ *
+ * PaceFusion의 정지 판정(GPS 속도)과 Pedometer 케이던스를 합쳐
+ * 러닝 자동 일시정지/재개 시점을 판단하는 순수 함수
+ *
+ * 정책:
+ * - 일시정지: GPS가 정지로 판정하고 케이던스도 낮은 상태가 pauseDwellSeconds 이상 유지
+ * - 재개: GPS가 이동으로 판정하거나 케이던스가 충분히 높은 상태가 resumeDwellSeconds 이상 유지
+ * - 정지/이동 기준값을 분리하고 유지 시간을 요구해 신호 경계에서 반복 전환되지 않도록 함
+ * - 케이던스를 측정할 수 없으면 GPS 판정만 사용
+ * - 정지는 실제로 관측된 저속 GPS 샘플(또는 측정된 낮은 케이던스)로만 판정
+ *   (터널 등에서 GPS 신호가 끊겨 속도를 알 수 없는 구간을 정지로 오인하지 않도록 함)
+ */
+
+import type { PaceSignal } from '../viewmodels/hooks/types';
+import {
+  createInitialPaceFusionState,
+  DEFAULT_PACE_FUSION_CONFIG,
+  fuseInstantPace,
+  type PaceFusionState,
+} from './gps/PaceFusion';
+
+export type AutoPauseMode = 'off' | 'standard' | 'sensitive';
+
+export interface AutoPauseConfig {
+  /** 정지 상태가 이 시간 이상 유지되면 일시정지 */
+  pauseDwellSeconds: number;
+  /** 이동 상태가 이 시간 이상 유지되면 재개 */
+  resumeDwellSeconds: number;
+  /** 이 값 미만이면 케이던스상 멈춘 것으로 판단 (steps/min) */
+  maxStoppedCadence: number;
+  /** 이 값 이상이면 케이던스상 달리는 것으로 판단 (steps/min) */
+  minMovingCadence: number;
+  /** 이보다 오래된 GPS 신호는 무시 (정지/이동 판정 근거로 쓰지 않음) */
+  staleSignalSeconds: number;
+}
+
+export const AUTO_PAUSE_CONFIGS: Record<Exclude<AutoPauseMode, 'off'>, AutoPauseConfig> = {
+  standard: {
+    pauseDwellSeconds: 6,
+    resumeDwellSeconds: 3,
+    maxStoppedCadence: 40,
+    minMovingCadence: 120,
+    staleSignalSeconds: 5,
+  },
+  sensitive: {
+    pauseDwellSeconds: 3,
+    resumeDwellSeconds: 2,
+    maxStoppedCadence: 60,
+    minMovingCadence: 100,
+    staleSignalSeconds: 5,
+  },
+};
+
+export const AUTO_PAUSE_MODE_LABELS: Record<AutoPauseMode, string> = {
+  off: '자동 일시정지 끔',
+  standard: '자동 일시정지',
+  sensitive: '자동 일시정지 (민감)',
+};
+
+export interface AutoPauseDetectorState {
+  fusionState: PaceFusionState;
+  /** 정지 상태가 시작된 시각 (ms), 정지 중이 아니면 null */
+  stillSinceMs: number | null;
+  /** 이동 상태가 시작된 시각 (ms), 이동 중이 아니면 null */
+  movingSinceMs: number | null;
+}
+
+export interface AutoPauseInput {
+  nowMs: number;
+  /** 현재 자동 일시정지 상태인지 (라이프사이클 기준) */
+  isAutoPaused: boolean;
+  paceSignal?: PaceSignal;
+  /** 실측 케이던스 (steps/min), 측정되지 않았으면 undefined */
+  cadence?: number;
+}
+
+/**
+ * 전환 결정
+ * atMs는 정지/이동이 시작된 시각으로, 감지 지연 시간까지 일시정지 구간에 정확히 반영하기 위해 사용
+ */
+export interface AutoPauseDecision {
+  type: 'pause' | 'resume';
+  atMs: number;
+}
+
+export interface AutoPauseResult {
+  decision: AutoPauseDecision | null;
+  nextState: AutoPauseDetectorState;
+}
+
+/**
+ * 초기 상태
+ * 자동 일시정지 중에 시작하면 정지 상태에서 출발해 곧바로 재개되지 않도록 함
+ */
+export const createInitialAutoPauseState = (isAutoPaused: boolean = false): AutoPauseDetectorState => ({
+  fusionState: {
+    ...createInitialPaceFusionState(),
+    isStationary: isAutoPaused,
+  },
+  stillSinceMs: null,
+  movingSinceMs: null,
+});
+
+export const evaluateAutoPause = (
+  input: AutoPauseInput,
+  previousState: AutoPauseDetectorState,
+  config: AutoPauseConfig
+): AutoPauseResult => {
+  const paceSignal =
+    input.paceSignal &&
+    (input.nowMs - input.paceSignal.timestampMs) / 1000 <= config.staleSignalSeconds
+      ? input.paceSignal
+      : undefined;
+
+  const fused = fuseInstantPace(
+    {
+      distanceWindowSpeedMps: null,
+      nowMs: input.nowMs,
+      ...(paceSignal !== undefined && { paceSignal }),
+    },
+    previousState.fusionState
+  );
+
+  const { cadence } = input;
+  const hasLowSpeedSample =
+    typeof paceSignal?.speedMps === 'number' &&
+    paceSignal.speedMps < DEFAULT_PACE_FUSION_CONFIG.stationarySpeedMps;
+  const hasLowCadence = cadence !== undefined && cadence < config.maxStoppedCadence;
+  // GPS 신호가 없으면 속도를 알 수 없으므로 측정된 케이던스로만 정지 판정
+  const isStill = paceSignal
+    ? fused.isStationary && hasLowSpeedSample && (cadence === undefined || hasLowCadence)
+    : hasLowCadence;
+  const isMoving =
+    !fused.isStationary || (cadence !== undefined && cadence >= config.minMovingCadence);
+
+  let stillSinceMs = isStill ? (previousState.stillSinceMs ?? input.nowMs) : null;
+  let movingSinceMs = isMoving ? (previousState.movingSinceMs ?? input.nowMs) : null;
+  let decision: AutoPauseDecision | null = null;
+
+  if (
+    !input.isAutoPaused &&
+    stillSinceMs !== null &&
+    input.nowMs - stillSinceMs >= config.pauseDwellSeconds * 1000
+  ) {
+    decision = { type: 'pause', atMs: stillSinceMs };
+  } else if (
+    input.isAutoPaused &&
+    movingSinceMs !== null &&
+    input.nowMs - movingSinceMs >= config.resumeDwellSeconds * 1000
+  ) {
+    decision = { type: 'resume', atMs: movingSinceMs };
+  }
+
+  if (decision) {
+    stillSinceMs = null;
+    movingSinceMs = null;
+  }
+
+  return {
+    decision,
+    nextState: {
+      fusionState: fused.nextState,
+      stillSinceMs,
+      movingSinceMs,
+    },
+  };
+};
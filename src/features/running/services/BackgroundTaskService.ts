@@ -11,13 +11,14 @@ import * as TaskManager from 'expo-task-manager';
 import { Platform } from 'react-native';
 import {
   createInitialGpsFilterState,
-  reduceGpsSample,
   type GpsFilterResult,
   type GpsFilterState,
   type GpsRejectReason,
   type GpsSample,
 } from './gps/GpsFilter';
 import { getGpsCorrectionStrategy } from './gps/GpsCorrectionStrategy';
+import { reduceSmoothedGpsSample } from './gps/GpsKalmanSmoother';
+import { voiceCoachingService } from '~/features/coaching/services/VoiceCoachingService';
 import { RED } from '~/shared/styles';
 
 /**
@@ -234,6 +235,7 @@ export const processBackgroundLocationTask = async ({
         source: 'background',
       });
       const filterConfig = strategy.getFilterConfig();
+      const smoothingConfig = strategy.getSmoothingConfig();
       const filterSummary =
         Platform.OS === 'android' ? createBackgroundGpsFilterSummary() : null;
 
@@ -248,20 +250,20 @@ export const processBackgroundLocationTask = async ({
           }),
         };
 
+        const { result: filterResult, nextState, smoothedSample } = reduceSmoothedGpsSample(
+          gpsFilterState,
+          currentSample,
+          filterConfig,
+          smoothingConfig
+        );
         const newLocation: BackgroundLocationData = {
-          latitude: currentSample.latitude,
-          longitude: currentSample.longitude,
+          latitude: smoothedSample.latitude,
+          longitude: smoothedSample.longitude,
           timestamp: location.timestamp,
           speed: location.coords.speed || 0,
           altitude: location.coords.altitude || 0,
           accuracy: location.coords.accuracy || 0,
         };
-
-        const { result: filterResult, nextState } = reduceGpsSample(
-          gpsFilterState,
-          currentSample,
-          filterConfig
-        );
         gpsFilterState = nextState;
         if (filterSummary) {
           recordBackgroundGpsFilterResult(filterSummary, filterResult);
@@ -314,6 +316,13 @@ export const processBackgroundLocationTask = async ({
       if (filterSummary) {
         logAndroidBackgroundGpsFilterSummary(filterSummary);
       }
+
+      // 화면을 보지 않는 동안에도 음성 코칭 마일스톤 안내
+      const coachingSpeedMps = latestPaceSignal?.speedMps;
+      await voiceCoachingService.handleProgress({
+        distance: updatedSession.totalDistance,
+        currentPaceSec: coachingSpeedMps && coachingSpeedMps > 0 ? 1000 / coachingSpeedMps : null,
+      });
     } catch (err) {
       console.error('[BackgroundTask] Error processing locations:', err);
     }
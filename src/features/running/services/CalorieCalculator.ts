@@ -0,0 +1,73 @@
+/**
+ * Calorie Calculator
+ *
+ * 러닝 칼로리 계산 (순수 함수)
+ * 정책: 심박수 있으면 Keytel 공식, 없으면 MET 공식
+ * 체중/나이/성별은 사용자 신체 정보(없으면 기본값)를 사용
+ */
+
+import type { ResolvedPhysiology } from '~/features/user/models/PhysiologyProfile';
+import type { RunningRecord } from '../models/RunningRecord';
+
+const RUNNING_MET = 9.8; // 러닝 MET 값
+
+export interface CalorieInput {
+  distanceMeters: number;
+  elapsedSeconds: number;
+  heartRate?: number | null;
+}
+
+/**
+ * 칼로리 계산 (kcal)
+ * 이동 거리가 없으면 undefined
+ */
+export const calculateRunningCalories = (
+  { distanceMeters, elapsedSeconds, heartRate }: CalorieInput,
+  physiology: ResolvedPhysiology
+): number | undefined => {
+  if (distanceMeters <= 0) return undefined;
+
+  const { weightKg: weight, age, sex } = physiology;
+
+  if (heartRate) {
+    // Keytel 공식 (운동 칼로리 계산 - 심박수 기반), 분당 kJ → kcal
+    const minutes = elapsedSeconds / 60.0;
+
+    let calories: number;
+    if (sex === 'male') {
+      // 남성: ((-55.0969 + (0.6309 × HR) + (0.1988 × W) + (0.2017 × A)) / 4.184) × T
+      calories =
+        ((-55.0969 + 0.6309 * heartRate + 0.1988 * weight + 0.2017 * age) / 4.184) * minutes;
+    } else {
+      // 여성: ((-20.4022 + (0.4472 × HR) - (0.1263 × W) + (0.074 × A)) / 4.184) × T
+      calories =
+        ((-20.4022 + 0.4472 * heartRate - 0.1263 * weight + 0.074 * age) / 4.184) * minutes;
+    }
+
+    // 음수 방지
+    return Math.max(0, calories);
+  }
+
+  // MET 공식 (Fallback - 심박수 없을 때)
+  const hours = elapsedSeconds / 3600.0;
+  return RUNNING_MET * weight * hours;
+};
+
+/**
+ * 지난 기록의 칼로리 재계산 (반올림한 kcal)
+ * 거리가 없는 기록은 기존 값을 유지
+ */
+export const recalculateRecordCalorie = (
+  record: RunningRecord,
+  physiology: ResolvedPhysiology
+): number => {
+  const calories = calculateRunningCalories(
+    {
+      distanceMeters: record.distance,
+      elapsedSeconds: record.durationSec,
+      heartRate: record.heartRate,
+    },
+    physiology
+  );
+  return calories !== undefined ? Math.round(calories) : record.calorie;
+};
@@ -0,0 +1,91 @@
+/**
+ * Calorie Recalculation Service
+ * 신체 정보(체중/나이/성별)가 바뀌면 지난 러닝 기록의 칼로리를 다시 계산해 서버에 반영
+ *
+ * - 기록별로 저장된 거리/시간/평균 심박수로 재계산
+ * - 값이 달라진 기록만 업데이트하며, 일부 실패해도 나머지는 계속 진행
+ * - 진행 중 다시 요청되면 진행 중인 작업이 끝난 뒤 최신 신체 정보로 한 번 더 실행
+ */
+
+import type { ResolvedPhysiology } from '~/features/user/models/PhysiologyProfile';
+import { updateRunningRecord } from '../models/RunningRecord';
+import { recalculateRecordCalorie } from './CalorieCalculator';
+import { runningService } from './runningService';
+
+/**
+ * 재계산 결과
+ */
+export interface CalorieRecalculationResult {
+  total: number;
+  updated: number;
+  failed: number;
+}
+
+export class CalorieRecalculationService {
+  private static instance: CalorieRecalculationService;
+  private currentRun: Promise<CalorieRecalculationResult> | null = null;
+  private latestPhysiology: ResolvedPhysiology | null = null;
+  private rerunRequested = false;
+
+  private constructor() {}
+
+  static getInstance(): CalorieRecalculationService {
+    if (!CalorieRecalculationService.instance) {
+      CalorieRecalculationService.instance = new CalorieRecalculationService();
+    }
+    return CalorieRecalculationService.instance;
+  }
+
+  /**
+   * 지난 기록 칼로리 재계산
+   */
+  recalculatePastRecords(physiology: ResolvedPhysiology): Promise<CalorieRecalculationResult> {
+    this.latestPhysiology = physiology;
+
+    if (this.currentRun) {
+      this.rerunRequested = true;
+      return this.currentRun;
+    }
+
+    this.currentRun = this.runUntilSettled(physiology).finally(() => {
+      this.currentRun = null;
+    });
+    return this.currentRun;
+  }
+
+  private async runUntilSettled(physiology: ResolvedPhysiology): Promise<CalorieRecalculationResult> {
+    let result = await this.run(physiology);
+
+    while (this.rerunRequested && this.latestPhysiology) {
+      this.rerunRequested = false;
+      result = await this.run(this.latestPhysiology);
+    }
+
+    return result;
+  }
+
+  private async run(physiology: ResolvedPhysiology): Promise<CalorieRecalculationResult> {
+    const records = await runningService.loadRunningRecords({ startDate: new Date(0) });
+    const result: CalorieRecalculationResult = { total: records.length, updated: 0, failed: 0 };
+
+    for (const record of records) {
+      const calorie = recalculateRecordCalorie(record, physiology);
+      if (calorie === record.calorie) continue;
+
+      try {
+        await runningService.updateRunningRecord(updateRunningRecord(record, { calorie }));
+        result.updated += 1;
+      } catch (error) {
+        result.failed += 1;
+        console.warn(`[CalorieRecalculation] Failed to update record ${record.id}:`, error);
+      }
+    }
+
+    console.log(
+      `[CalorieRecalculation] ${result.updated}/${result.total} records updated (${result.failed} failed)`
+    );
+    return result;
+  }
+}
+
+export const calorieRecalculationService = CalorieRecalculationService.getInstance();
@@ -10,11 +10,11 @@ import { type Location, createLocationFromPosition } from '../models/Location';
 import {
   cloneGpsFilterState,
   createInitialGpsFilterState,
-  reduceGpsSample,
   type GpsFilterState,
   type GpsSample,
 } from './gps/GpsFilter';
 import { getGpsCorrectionStrategy } from './gps/GpsCorrectionStrategy';
+import { reduceSmoothedGpsSample } from './gps/GpsKalmanSmoother';
 
 /**
  * 위치 추적 설정
@@ -202,18 +202,20 @@ export class LocationService {
       ...(location.accuracy !== undefined && { accuracyMeters: location.accuracy }),
     };
 
-    const { result: filterResult, nextState } = reduceGpsSample(
+    const strategy = getGpsCorrectionStrategy({
+      platform: Platform.OS,
+      source: 'foreground',
+    });
+    const { result: filterResult, nextState, smoothedSample } = reduceSmoothedGpsSample(
       this.gpsFilterState,
       currentSample,
       {
-        ...getGpsCorrectionStrategy({
-          platform: Platform.OS,
-          source: 'foreground',
-        }).getFilterConfig(),
+        ...strategy.getFilterConfig(),
         maxAccuracyMeters: this.config.maximumAcceptableAccuracy,
         minDistanceMeters: this.config.minimumDistanceForUpdate,
         maxSpeedKmh: this.config.maximumReasonableSpeed,
-      }
+      },
+      strategy.getSmoothingConfig()
     );
 
     this.gpsFilterState = nextState;
@@ -233,9 +235,14 @@ export class LocationService {
     }
 
     if (filterResult.acceptedForPath) {
-      this.locations.push(location);
-      this.lastValidLocation = location;
-      this.locationCallbacks.forEach((callback) => callback(location));
+      const pathLocation: Location = {
+        ...location,
+        latitude: smoothedSample.latitude,
+        longitude: smoothedSample.longitude,
+      };
+      this.locations.push(pathLocation);
+      this.lastValidLocation = pathLocation;
+      this.locationCallbacks.forEach((callback) => callback(pathLocation));
     }
 
     if (filterResult.acceptedForDistance) {
@@ -5,6 +5,7 @@
 
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import type { RunningRecord } from '../models/RunningRecord';
+import { isProvisionalRunningRecordId } from '../models/RunningRecord';
 import type { RunningRecordItem } from '../models/RunningRecordItem';
 
 /**
@@ -14,19 +15,61 @@ const STORAGE_KEYS = {
   PENDING_UPLOADS: '@pending_running_uploads',
   PENDING_SEGMENT_UPLOADS: '@pending_segment_uploads', // 세그먼트 업로드 대기열
   FAILED_UPLOADS: '@failed_running_uploads',
+  FAILED_SEGMENT_UPLOADS: '@failed_segment_uploads', // 최대 재시도 초과 세그먼트 (수동 재시도 대상)
   OFFLINE_MODE: '@offline_mode',
 } as const;
 
+/**
+ * 재시도 백오프 설정
+ * 실패할 때마다 대기 시간을 2배로 늘리고, 최대 재시도 횟수를 넘으면 실패 목록으로 이동
+ */
+const RETRY_BASE_DELAY_MS = 30 * 1000;
+const RETRY_MAX_DELAY_MS = 60 * 60 * 1000;
+export const MAX_UPLOAD_RETRY_COUNT = 8;
+
+/**
+ * 재시도 횟수에 따른 다음 재시도까지의 대기 시간 (30초, 1분, 2분 ... 최대 1시간)
+ */
+export const calculateRetryDelayMs = (retryCount: number): number =>
+  Math.min(RETRY_BASE_DELAY_MS * 2 ** Math.max(0, retryCount - 1), RETRY_MAX_DELAY_MS);
+
+/**
+ * 동기화 대기 현황 (러닝 단위)
+ */
+export interface OfflineSyncSummary {
+  pendingRunCount: number;
+  failedRunCount: number;
+  /**
+   * 지금 바로 재시도할 수 있는 업로드 중 가장 빠른 재시도 시각 (ms), 즉시 가능하면 현재 이전 값
+   * 다른 업로드를 기다리는 업로드(세그먼트가 남은 종료, 서버 기록 생성 전 세그먼트)는 제외,
+   * 없으면 null
+   */
+  nextAttemptAt: number | null;
+}
+
+/**
+ * 재시도 옵션
+ * ignoreBackoff: 네트워크 복구/수동 재시도처럼 백오프 대기 시간을 무시할 때 사용
+ */
+export interface RetryOptions {
+  now?: number;
+  ignoreBackoff?: boolean;
+}
+
 /**
  * 대기 중인 업로드 데이터
+ * runningRecordId가 음수면 서버 기록 생성 전인 임시(오프라인 시작) 기록
  */
-interface PendingUpload {
+export interface PendingUpload {
   id: string; // UUID
   runningRecordId: number;
   data: RunningRecord;
   timestamp: number;
   retryCount: number;
   lastError?: string;
+  nextAttemptAt?: number; // 백오프 이후 재시도 가능 시각 (ms), 없으면 즉시
+  timezone?: string; // 임시 기록을 서버에 생성할 때 사용할 시작 당시 timezone
+  serverRecordId?: number; // 임시 기록으로 이미 생성한 서버 기록 ID (재매핑 전에 중단돼도 다시 생성하지 않음)
 }
 
 /**
@@ -39,14 +82,22 @@ interface PendingSegmentUpload {
   timestamp: number;
   retryCount: number;
   lastError?: string;
+  nextAttemptAt?: number; // 백오프 이후 재시도 가능 시각 (ms), 없으면 즉시
 }
 
+/**
+ * 백오프 대기 시간이 지나 재시도 가능한지 확인
+ */
+const isDue = (
+  upload: { nextAttemptAt?: number },
+  { now = Date.now(), ignoreBackoff = false }: RetryOptions = {}
+): boolean => ignoreBackoff || upload.nextAttemptAt === undefined || upload.nextAttemptAt <= now;
+
 /**
  * Offline Storage Service
  */
 export class OfflineStorageService {
   private static instance: OfflineStorageService;
-  private maxRetryCount = 3;
 
   private constructor() {}
 
@@ -69,7 +120,8 @@ export class OfflineStorageService {
    */
   async addPendingUpload(
     runningRecordId: number,
-    data: RunningRecord
+    data: RunningRecord,
+    options?: { timezone?: string }
   ): Promise<void> {
     try {
       const pending = await this.getPendingUploads();
@@ -80,6 +132,7 @@ export class OfflineStorageService {
         data,
         timestamp: Date.now(),
         retryCount: 0,
+        ...(options?.timezone !== undefined && { timezone: options.timezone }),
       };
 
       pending.push(newUpload);
@@ -141,12 +194,13 @@ export class OfflineStorageService {
       }
 
       upload.retryCount++;
+      upload.nextAttemptAt = Date.now() + calculateRetryDelayMs(upload.retryCount);
       if (errorMessage !== undefined) {
         upload.lastError = errorMessage;
       }
 
-      // 최대 재시도 횟수 초과 시 실패 목록으로 이동
-      if (upload.retryCount >= this.maxRetryCount) {
+      // 최대 재시도 횟수 초과 시 같은 러닝의 세그먼트와 함께 실패 목록으로 이동 (러닝 단위로 수동 재시도)
+      if (upload.retryCount >= MAX_UPLOAD_RETRY_COUNT) {
         await this.moveToFailed(upload);
         await this.removePendingUpload(uploadId);
       } else {
@@ -166,18 +220,28 @@ export class OfflineStorageService {
 
   /**
    * 실패한 업로드 목록으로 이동
+   * 같은 러닝의 대기 중인 세그먼트도 함께 옮겨 대기/실패에 동시에 집계되지 않도록 함
    */
   private async moveToFailed(upload: PendingUpload): Promise<void> {
     try {
-      const failedData = await AsyncStorage.getItem(STORAGE_KEYS.FAILED_UPLOADS);
-      const failed: PendingUpload[] = failedData ? JSON.parse(failedData) : [];
-
-      failed.push(upload);
-      await AsyncStorage.setItem(
-        STORAGE_KEYS.FAILED_UPLOADS,
-        JSON.stringify(failed)
+      const failed = await this.getFailedUploads();
+      const pendingSegments = await this.getPendingSegmentUploads();
+      const failedSegments = await this.getFailedSegmentUploads();
+      const runSegments = pendingSegments.filter(
+        item => item.runningRecordId === upload.runningRecordId
       );
 
+      await AsyncStorage.multiSet([
+        [STORAGE_KEYS.FAILED_UPLOADS, JSON.stringify([...failed, upload])],
+        [
+          STORAGE_KEYS.PENDING_SEGMENT_UPLOADS,
+          JSON.stringify(
+            pendingSegments.filter(item => item.runningRecordId !== upload.runningRecordId)
+          ),
+        ],
+        [STORAGE_KEYS.FAILED_SEGMENT_UPLOADS, JSON.stringify([...failedSegments, ...runSegments])],
+      ]);
+
       console.log(`[OfflineStorage] Moved to failed: ${upload.id}`);
     } catch (error) {
       console.error('[OfflineStorage] Failed to move to failed list:', error);
@@ -210,37 +274,97 @@ export class OfflineStorageService {
         return;
       }
 
-      // 재시도 카운트 초기화 후 대기열로 이동
-      upload.retryCount = 0;
-      delete upload.lastError;
+      await this.restoreFailedRuns([upload.runningRecordId]);
 
-      const pending = await this.getPendingUploads();
-      pending.push(upload);
+      console.log(`[OfflineStorage] Retrying failed upload: ${uploadId}`);
+    } catch (error) {
+      console.error('[OfflineStorage] Failed to retry upload:', error);
+    }
+  }
 
-      const filteredFailed = failed.filter(item => item.id !== uploadId);
+  /**
+   * 실패 목록 전체 재시도 (수동)
+   * @returns 대기열로 되돌린 러닝 수
+   */
+  async retryAllFailedUploads(): Promise<number> {
+    try {
+      const failed = await this.getFailedUploads();
+      const failedSegments = await this.getFailedSegmentUploads();
+      const runningRecordIds = [
+        ...new Set([...failed, ...failedSegments].map(item => item.runningRecordId)),
+      ];
 
-      await AsyncStorage.multiSet([
-        [STORAGE_KEYS.PENDING_UPLOADS, JSON.stringify(pending)],
-        [STORAGE_KEYS.FAILED_UPLOADS, JSON.stringify(filteredFailed)],
-      ]);
+      await this.restoreFailedRuns(runningRecordIds);
 
-      console.log(`[OfflineStorage] Retrying failed upload: ${uploadId}`);
+      console.log(`[OfflineStorage] Retrying ${runningRecordIds.length} failed runs`);
+      return runningRecordIds.length;
     } catch (error) {
-      console.error('[OfflineStorage] Failed to retry upload:', error);
+      console.error('[OfflineStorage] Failed to retry failed uploads:', error);
+      return 0;
     }
   }
 
+  /**
+   * 러닝 단위로 실패한 기록/세그먼트를 재시도 카운트 초기화 후 대기열로 이동
+   */
+  private async restoreFailedRuns(runningRecordIds: number[]): Promise<void> {
+    const targetIds = new Set(runningRecordIds);
+    const resetRetry = <T extends PendingUpload | PendingSegmentUpload>(item: T): T => {
+      const restored = { ...item, retryCount: 0 };
+      delete restored.lastError;
+      delete restored.nextAttemptAt;
+      return restored;
+    };
+
+    const failed = await this.getFailedUploads();
+    const failedSegments = await this.getFailedSegmentUploads();
+    const pending = await this.getPendingUploads();
+    const pendingSegments = await this.getPendingSegmentUploads();
+
+    const restored = failed.filter(item => targetIds.has(item.runningRecordId));
+    const restoredSegments = failedSegments.filter(item => targetIds.has(item.runningRecordId));
+
+    await AsyncStorage.multiSet([
+      [STORAGE_KEYS.PENDING_UPLOADS, JSON.stringify([...pending, ...restored.map(resetRetry)])],
+      [
+        STORAGE_KEYS.PENDING_SEGMENT_UPLOADS,
+        JSON.stringify([...pendingSegments, ...restoredSegments.map(resetRetry)]),
+      ],
+      [
+        STORAGE_KEYS.FAILED_UPLOADS,
+        JSON.stringify(failed.filter(item => !targetIds.has(item.runningRecordId))),
+      ],
+      [
+        STORAGE_KEYS.FAILED_SEGMENT_UPLOADS,
+        JSON.stringify(failedSegments.filter(item => !targetIds.has(item.runningRecordId))),
+      ],
+    ]);
+  }
+
   /**
    * 모든 대기 중인 업로드 재시도
+   * 같은 러닝의 세그먼트가 대기열에 남아 있으면 종료 업로드를 보류 (세그먼트 → 종료 순서 보장)
    */
   async retryAllPendingUploads(
-    uploadFn: (data: RunningRecord) => Promise<void>
+    uploadFn: (data: RunningRecord) => Promise<void>,
+    options?: RetryOptions
   ): Promise<{ success: number; failed: number }> {
     const pending = await this.getPendingUploads();
+    const pendingSegments = await this.getPendingSegmentUploads();
+    const runsWithPendingSegments = new Set(pendingSegments.map(item => item.runningRecordId));
     let successCount = 0;
     let failedCount = 0;
 
     for (const upload of pending) {
+      // 서버 기록이 아직 없는 임시 기록은 reconcileProvisionalUploads에서 처리
+      if (isProvisionalRunningRecordId(upload.runningRecordId)) {
+        continue;
+      }
+
+      if (!isDue(upload, options) || runsWithPendingSegments.has(upload.runningRecordId)) {
+        continue;
+      }
+
       try {
         await uploadFn(upload.data);
         await this.removePendingUpload(upload.id);
@@ -258,6 +382,120 @@ export class OfflineStorageService {
     return { success: successCount, failed: failedCount };
   }
 
+  /**
+   * ========================================
+   * 임시 기록(오프라인 시작) 재매핑 관련 메서드
+   * ========================================
+   */
+
+  /**
+   * 임시 기록을 서버 기록으로 생성하고 대기열의 ID를 재매핑
+   * 세그먼트/종료 업로드보다 먼저 호출해야 한다.
+   * 생성된 서버 ID는 재매핑 전에 먼저 저장해 두고, 이미 생성된 기록은 다시 생성하지 않는다.
+   * @param createFn 서버에 러닝 기록을 생성하고 서버 ID를 반환
+   * @param onReconciled 재매핑 완료 후 호출 (임시 ID에 연결된 다른 데이터 이동용)
+   */
+  async reconcileProvisionalUploads(
+    createFn: (upload: PendingUpload) => Promise<number>,
+    options?: RetryOptions,
+    onReconciled?: (fromId: number, toId: number, upload: PendingUpload) => void
+  ): Promise<{ success: number; failed: number }> {
+    const pending = await this.getPendingUploads();
+    let successCount = 0;
+    let failedCount = 0;
+
+    for (const upload of pending) {
+      if (!isProvisionalRunningRecordId(upload.runningRecordId) || !isDue(upload, options)) {
+        continue;
+      }
+
+      try {
+        let serverRecordId = upload.serverRecordId;
+        if (serverRecordId === undefined) {
+          serverRecordId = await createFn(upload);
+          await this.setPendingUploadServerRecordId(upload.id, serverRecordId);
+        }
+        await this.remapRunningRecordId(upload.runningRecordId, serverRecordId);
+        onReconciled?.(upload.runningRecordId, serverRecordId, upload);
+        successCount++;
+      } catch (error: any) {
+        await this.incrementRetryCount(upload.id, error.message);
+        failedCount++;
+      }
+    }
+
+    console.log(
+      `[OfflineStorage] Provisional reconcile completed: ${successCount} success, ${failedCount} failed`
+    );
+
+    return { success: successCount, failed: failedCount };
+  }
+
+  /**
+   * 임시 기록으로 생성된 서버 기록 ID 저장
+   */
+  private async setPendingUploadServerRecordId(
+    uploadId: string,
+    serverRecordId: number
+  ): Promise<void> {
+    const pending = await this.getPendingUploads();
+    await AsyncStorage.setItem(
+      STORAGE_KEYS.PENDING_UPLOADS,
+      JSON.stringify(
+        pending.map(item => (item.id === uploadId ? { ...item, serverRecordId } : item))
+      )
+    );
+  }
+
+  /**
+   * 임시 기록 ID를 서버 기록 ID로 교체 (대기/실패/세그먼트 대기열 전체)
+   */
+  async remapRunningRecordId(fromId: number, toId: number): Promise<void> {
+    const pending = await this.getPendingUploads();
+    const failed = await this.getFailedUploads();
+    const segments = await this.getPendingSegmentUploads();
+    const failedSegments = await this.getFailedSegmentUploads();
+
+    const remapUpload = (upload: PendingUpload): PendingUpload =>
+      upload.runningRecordId === fromId
+        ? { ...upload, runningRecordId: toId, data: { ...upload.data, id: toId } }
+        : upload;
+
+    const remapSegmentUpload = (upload: PendingSegmentUpload): PendingSegmentUpload =>
+      upload.runningRecordId === fromId ? { ...upload, runningRecordId: toId } : upload;
+
+    await AsyncStorage.multiSet([
+      [STORAGE_KEYS.PENDING_UPLOADS, JSON.stringify(pending.map(remapUpload))],
+      [STORAGE_KEYS.FAILED_UPLOADS, JSON.stringify(failed.map(remapUpload))],
+      [STORAGE_KEYS.PENDING_SEGMENT_UPLOADS, JSON.stringify(segments.map(remapSegmentUpload))],
+      [STORAGE_KEYS.FAILED_SEGMENT_UPLOADS, JSON.stringify(failedSegments.map(remapSegmentUpload))],
+    ]);
+
+    console.log(`[OfflineStorage] Remapped running record ${fromId} -> ${toId}`);
+  }
+
+  /**
+   * 대기 중인 업로드의 러닝 기록 데이터 갱신
+   * (예: 임시 기록 완료 화면에서 선택한 신발)
+   */
+  async updatePendingUploadRecord(
+    runningRecordId: number,
+    updates: Partial<Omit<RunningRecord, 'id'>>
+  ): Promise<void> {
+    try {
+      const pending = await this.getPendingUploads();
+      const updated = pending.map((upload) =>
+        upload.runningRecordId === runningRecordId
+          ? { ...upload, data: { ...upload.data, ...updates } }
+          : upload
+      );
+
+      await AsyncStorage.setItem(STORAGE_KEYS.PENDING_UPLOADS, JSON.stringify(updated));
+    } catch (error) {
+      console.error('[OfflineStorage] Failed to update pending upload record:', error);
+    }
+  }
+
   /**
    * 오프라인 모드 설정
    */
@@ -298,6 +536,38 @@ export class OfflineStorageService {
     return failed.length;
   }
 
+  /**
+   * 러닝 단위 동기화 대기 현황
+   * 기록/세그먼트 대기열을 runningRecordId 기준으로 묶어 집계
+   */
+  async getSyncSummary(): Promise<OfflineSyncSummary> {
+    const pending = await this.getPendingUploads();
+    const pendingSegments = await this.getPendingSegmentUploads();
+    const failed = await this.getFailedUploads();
+    const failedSegments = await this.getFailedSegmentUploads();
+
+    const pendingRunIds = new Set([...pending, ...pendingSegments].map(item => item.runningRecordId));
+    const failedRunIds = new Set([...failed, ...failedSegments].map(item => item.runningRecordId));
+
+    // 보류된 업로드는 기다리는 업로드가 끝나면 같은 동기화에서 함께 처리되므로 예약하지 않음
+    const runsWithPendingSegments = new Set(pendingSegments.map(item => item.runningRecordId));
+    const retryable = [
+      ...pending.filter(
+        item =>
+          isProvisionalRunningRecordId(item.runningRecordId) ||
+          !runsWithPendingSegments.has(item.runningRecordId)
+      ),
+      ...pendingSegments.filter(item => !isProvisionalRunningRecordId(item.runningRecordId)),
+    ];
+    const attemptTimes = retryable.map(item => item.nextAttemptAt ?? 0);
+
+    return {
+      pendingRunCount: pendingRunIds.size,
+      failedRunCount: failedRunIds.size,
+      nextAttemptAt: attemptTimes.length > 0 ? Math.min(...attemptTimes) : null,
+    };
+  }
+
   /**
    * 모든 오프라인 데이터 초기화
    */
@@ -307,6 +577,7 @@ export class OfflineStorageService {
         STORAGE_KEYS.PENDING_UPLOADS,
         STORAGE_KEYS.PENDING_SEGMENT_UPLOADS,
         STORAGE_KEYS.FAILED_UPLOADS,
+        STORAGE_KEYS.FAILED_SEGMENT_UPLOADS,
         STORAGE_KEYS.OFFLINE_MODE,
       ]);
       console.log('[OfflineStorage] Cleared all offline data');
@@ -384,17 +655,92 @@ export class OfflineStorageService {
     }
   }
 
+  /**
+   * 세그먼트 업로드 실패 시 재시도 카운트 증가
+   * 최대 재시도 초과 시 같은 러닝의 종료 업로드와 함께 실패 목록으로 이동 (러닝 단위로 수동 재시도)
+   */
+  async incrementSegmentRetryCount(uploadId: string, errorMessage?: string): Promise<void> {
+    try {
+      const pending = await this.getPendingSegmentUploads();
+      const upload = pending.find(item => item.id === uploadId);
+
+      if (!upload) {
+        console.warn(`[OfflineStorage] Segment upload not found: ${uploadId}`);
+        return;
+      }
+
+      upload.retryCount++;
+      upload.nextAttemptAt = Date.now() + calculateRetryDelayMs(upload.retryCount);
+      if (errorMessage !== undefined) {
+        upload.lastError = errorMessage;
+      }
+
+      if (upload.retryCount < MAX_UPLOAD_RETRY_COUNT) {
+        await AsyncStorage.setItem(
+          STORAGE_KEYS.PENDING_SEGMENT_UPLOADS,
+          JSON.stringify(pending)
+        );
+        return;
+      }
+
+      const failedSegments = await this.getFailedSegmentUploads();
+      const failed = await this.getFailedUploads();
+      const pendingUploads = await this.getPendingUploads();
+      const runUploads = pendingUploads.filter(
+        item => item.runningRecordId === upload.runningRecordId
+      );
+
+      await AsyncStorage.multiSet([
+        [
+          STORAGE_KEYS.PENDING_SEGMENT_UPLOADS,
+          JSON.stringify(pending.filter(item => item.id !== uploadId)),
+        ],
+        [STORAGE_KEYS.FAILED_SEGMENT_UPLOADS, JSON.stringify([...failedSegments, upload])],
+        [
+          STORAGE_KEYS.PENDING_UPLOADS,
+          JSON.stringify(
+            pendingUploads.filter(item => item.runningRecordId !== upload.runningRecordId)
+          ),
+        ],
+        [STORAGE_KEYS.FAILED_UPLOADS, JSON.stringify([...failed, ...runUploads])],
+      ]);
+
+      console.log(`[OfflineStorage] Moved segment upload to failed: ${uploadId}`);
+    } catch (error) {
+      console.error('[OfflineStorage] Failed to increment segment retry count:', error);
+    }
+  }
+
+  /**
+   * 실패한 세그먼트 업로드 목록 조회
+   */
+  async getFailedSegmentUploads(): Promise<PendingSegmentUpload[]> {
+    try {
+      const data = await AsyncStorage.getItem(STORAGE_KEYS.FAILED_SEGMENT_UPLOADS);
+      return data ? JSON.parse(data) : [];
+    } catch (error) {
+      console.error('[OfflineStorage] Failed to get failed segment uploads:', error);
+      return [];
+    }
+  }
+
   /**
    * 모든 대기 중인 세그먼트 업로드 재시도
    */
   async retryAllPendingSegmentUploads(
-    uploadFn: (runningRecordId: number, segments: RunningRecordItem[]) => Promise<void>
+    uploadFn: (runningRecordId: number, segments: RunningRecordItem[]) => Promise<void>,
+    options?: RetryOptions
   ): Promise<{ success: number; failed: number }> {
     const pending = await this.getPendingSegmentUploads();
     let successCount = 0;
     let failedCount = 0;
 
     for (const upload of pending) {
+      // 서버 기록이 아직 없는 임시 기록은 재매핑될 때까지 보류
+      if (isProvisionalRunningRecordId(upload.runningRecordId) || !isDue(upload, options)) {
+        continue;
+      }
+
       try {
         await uploadFn(upload.runningRecordId, upload.segments);
         await this.removePendingSegmentUpload(upload.id);
@@ -403,7 +749,7 @@ export class OfflineStorageService {
       } catch (error: any) {
         failedCount++;
         console.error(`[OfflineStorage] Segment upload failed: ${upload.id}`, error);
-        // TODO: 재시도 카운트 관리 (필요 시 추가)
+        await this.incrementSegmentRetryCount(upload.id, error.message);
       }
     }
 
@@ -0,0 +1,282 @@
+/**
+ * Offline Sync Service
+ * 오프라인 대기열(OfflineStorageService)을 네트워크 상태에 맞춰 자동 동기화
+ *
+ * - 네트워크 복구 시 즉시 동기화 (NetInfo)
+ * - 실패한 업로드는 업로드별 백오프 시각에 맞춰 재시도 예약
+ * - 동기화 순서: 임시 기록 생성 → 세그먼트 → 종료
+ */
+
+import NetInfo, { type NetInfoState } from '@react-native-community/netinfo';
+import { useOfflineSyncStore } from '../stores/offlineSyncStore';
+import type { RunningRecordItem } from '../models/RunningRecordItem';
+import {
+  offlineStorageService,
+  type PendingUpload,
+  type RetryOptions,
+} from './OfflineStorageService';
+import { runningService } from './runningService';
+
+/**
+ * 오프라인 동기화 결과
+ */
+export interface OfflineSyncResult {
+  provisional: { success: number; failed: number };
+  records: { success: number; failed: number };
+  segments: { success: number; failed: number };
+}
+
+/**
+ * 임시 기록이 서버 기록으로 재매핑된 뒤 호출되는 리스너
+ * 임시 ID에 연결된 기능별 데이터를 서버 ID로 옮길 때 사용
+ */
+export type ProvisionalRecordReconciledListener = (
+  fromId: number,
+  toId: number,
+  upload: PendingUpload
+) => void;
+
+/**
+ * 인터넷 사용 가능 여부 (도달 가능성을 아직 모르면 연결된 것으로 간주)
+ */
+const isOnline = (state: NetInfoState): boolean =>
+  state.isConnected === true && state.isInternetReachable !== false;
+
+/**
+ * Offline Sync Service
+ */
+export class OfflineSyncService {
+  private static instance: OfflineSyncService;
+  private unsubscribeNetInfo: (() => void) | null = null;
+  private retryTimer: ReturnType<typeof setTimeout> | null = null;
+  private currentSync: Promise<OfflineSyncResult | null> | null = null;
+  private lastOnline: boolean | null = null;
+  private reconciledListeners = new Set<ProvisionalRecordReconciledListener>();
+
+  private constructor() {}
+
+  static getInstance(): OfflineSyncService {
+    if (!OfflineSyncService.instance) {
+      OfflineSyncService.instance = new OfflineSyncService();
+    }
+    return OfflineSyncService.instance;
+  }
+
+  /**
+   * 자동 동기화 시작 (로그인 이후)
+   * 네트워크 상태를 구독하고 즉시 한 번 동기화한다.
+   */
+  async start(): Promise<OfflineSyncResult | null> {
+    if (!this.unsubscribeNetInfo) {
+      this.unsubscribeNetInfo = NetInfo.addEventListener(this.handleNetworkChange);
+      console.log('[OfflineSync] Network listener started');
+    }
+
+    return this.sync();
+  }
+
+  /**
+   * 자동 동기화 중지 (로그아웃 시)
+   */
+  stop(): void {
+    this.unsubscribeNetInfo?.();
+    this.unsubscribeNetInfo = null;
+    this.lastOnline = null;
+    this.clearRetryTimer();
+    console.log('[OfflineSync] Network listener stopped');
+  }
+
+  /**
+   * 임시 기록 재매핑 구독 (워크아웃 실행 기록, 구간 최고 기록 등 각 기능에서 등록)
+   * @returns 구독 해제 함수
+   */
+  onProvisionalRecordReconciled(listener: ProvisionalRecordReconciledListener): () => void {
+    this.reconciledListeners.add(listener);
+    return () => {
+      this.reconciledListeners.delete(listener);
+    };
+  }
+
+  /**
+   * 재매핑 리스너 호출 (리스너 오류가 대기열 재매핑을 실패로 만들지 않도록 개별 처리)
+   */
+  private notifyProvisionalRecordReconciled(
+    fromId: number,
+    toId: number,
+    upload: PendingUpload
+  ): void {
+    this.reconciledListeners.forEach((listener) => {
+      try {
+        listener(fromId, toId, upload);
+      } catch (error) {
+        console.error('[OfflineSync] Provisional reconcile listener failed:', error);
+      }
+    });
+  }
+
+  /**
+   * 오프라인 → 온라인 전환 시 백오프를 무시하고 즉시 동기화
+   */
+  private handleNetworkChange = (state: NetInfoState): void => {
+    const online = isOnline(state);
+    const wasOnline = this.lastOnline;
+    this.lastOnline = online;
+    useOfflineSyncStore.getState().setConnected(online);
+
+    if (online && wasOnline === false) {
+      console.log('[OfflineSync] Network restored, syncing offline data');
+      void this.sync({ ignoreBackoff: true });
+    }
+  };
+
+  /**
+   * 대기열 동기화 (동시에 한 번만 실행)
+   */
+  sync(options?: RetryOptions): Promise<OfflineSyncResult | null> {
+    if (!this.currentSync) {
+      this.currentSync = this.runSync(options).finally(() => {
+        this.currentSync = null;
+      });
+    }
+    return this.currentSync;
+  }
+
+  /**
+   * 실패 목록의 러닝을 대기열로 되돌리고 즉시 동기화 (수동 재시도)
+   */
+  async retryFailed(): Promise<OfflineSyncResult | null> {
+    await offlineStorageService.retryAllFailedUploads();
+    await this.refreshStatus();
+    return this.sync({ ignoreBackoff: true });
+  }
+
+  /**
+   * 대기 현황을 스토어에 반영하고 다음 재시도를 예약
+   * 오프라인이면 예약하지 않음 (네트워크 복구 시 NetInfo 구독에서 동기화)
+   */
+  async refreshStatus(): Promise<void> {
+    const summary = await offlineStorageService.getSyncSummary();
+    const { isConnected, setCounts } = useOfflineSyncStore.getState();
+    setCounts(summary);
+
+    this.clearRetryTimer();
+    if (summary.nextAttemptAt === null || !this.unsubscribeNetInfo || !isConnected) {
+      return;
+    }
+
+    const delay = Math.max(0, summary.nextAttemptAt - Date.now());
+    this.retryTimer = setTimeout(() => {
+      this.retryTimer = null;
+      void this.sync();
+    }, delay);
+  }
+
+  private clearRetryTimer(): void {
+    if (this.retryTimer) {
+      clearTimeout(this.retryTimer);
+      this.retryTimer = null;
+    }
+  }
+
+  private async runSync(options?: RetryOptions): Promise<OfflineSyncResult | null> {
+    const store = useOfflineSyncStore.getState();
+
+    try {
+      const networkState = await NetInfo.fetch();
+      const online = isOnline(networkState);
+      store.setConnected(online);
+
+      // 오프라인이면 재시도 횟수를 소모하지 않고 네트워크 복구를 기다림
+      if (!online) {
+        console.log('[OfflineSync] Offline, waiting for network');
+        await this.refreshStatus();
+        return null;
+      }
+
+      const pendingCount = await offlineStorageService.getPendingCount();
+      const pendingSegmentCount = await offlineStorageService.getPendingSegmentCount();
+
+      if (pendingCount === 0 && pendingSegmentCount === 0) {
+        await this.refreshStatus();
+        return null;
+      }
+
+      store.setSyncing(true);
+
+      // 1. 오프라인으로 시작한 임시 기록을 서버 기록으로 생성
+      const provisional = await offlineStorageService.reconcileProvisionalUploads(
+        async (upload) => {
+          const serverRecord = await runningService.startRunning({
+            startTimestamp: upload.data.startTimestamp,
+            ...(upload.timezone !== undefined && { timezone: upload.timezone }),
+          });
+          return serverRecord.id;
+        },
+        options,
+        (fromId, toId, upload) => this.notifyProvisionalRecordReconciled(fromId, toId, upload)
+      );
+
+      // 2. 세그먼트 업로드 (종료 요청보다 먼저)
+      const segments = await offlineStorageService.retryAllPendingSegmentUploads(
+        async (runningRecordId, pendingSegments) => {
+          await runningService.saveRunningRecordItems({
+            runningRecordId,
+            items: this.toRunningRecordItemRequests(pendingSegments),
+          });
+        },
+        options
+      );
+
+      // 3. 러닝 종료 (세그먼트가 남은 러닝은 다음 동기화로 보류)
+      const records = await offlineStorageService.retryAllPendingUploads(async (record) => {
+        await runningService.endRunning(record);
+
+        // 임시 기록 완료 화면에서 선택한 신발은 종료 후 연결
+        if (record.shoeId != null) {
+          await runningService.updateRunningRecordShoe({
+            runningRecordId: record.id,
+            shoeId: record.shoeId,
+          });
+        }
+      }, options);
+
+      const result: OfflineSyncResult = { provisional, segments, records };
+      console.log('[OfflineSync] Sync completed:', result);
+
+      store.setLastSyncedAt(new Date());
+      await this.refreshStatus();
+      return result;
+    } catch (error) {
+      console.error('[OfflineSync] Sync failed:', error);
+      return null;
+    } finally {
+      store.setSyncing(false);
+    }
+  }
+
+  private toRunningRecordItemRequests(segments: RunningRecordItem[]) {
+    return segments.map((segment) => ({
+      distance: segment.distance,
+      durationSec: segment.durationSec,
+      cadence: segment.cadence ?? 0,
+      heartRate: segment.heartRate ?? 0,
+      minHeartRate: segment.minHeartRate ?? segment.heartRate ?? 0,
+      maxHeartRate: segment.maxHeartRate ?? segment.heartRate ?? 0,
+      orderIndex: segment.orderIndex,
+      startTimeStamp: segment.startTimestamp,
+      endTimeStamp: segment.startTimestamp + segment.durationSec,
+      // AsyncStorage(JSON)에서 복원된 timestamp는 문자열
+      gpsPoints: (segment.locations ?? []).map((point) => ({
+        latitude: point.latitude,
+        longitude: point.longitude,
+        timestampMs: new Date(point.timestamp).getTime(),
+        speed: point.speed,
+        altitude: point.altitude,
+        ...(point.accuracy !== undefined && { accuracy: point.accuracy }),
+      })),
+    }));
+  }
+}
+
+// Singleton export
+export const offlineSyncService = OfflineSyncService.getInstance();
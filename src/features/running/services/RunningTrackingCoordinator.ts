@@ -107,6 +107,10 @@ export class RunningTrackingCoordinator {
   private foregroundDistanceBase = 0;
   private foregroundLocationsBase: Location[] = [];
   private foregroundLiveLocations: Location[] = [];
+  /** 마지막으로 받은 LocationService 누적 거리 (일시정지 중 증가분을 제외하기 위한 기준) */
+  private foregroundRawDistance = 0;
+  /** pauseSession()으로 위치 추적 자체를 멈췄는지 (동작 감지 일시정지는 추적을 유지) */
+  private isTrackingPaused = false;
 
   private readonly unsubscribeForegroundLocation: () => void;
   private readonly unsubscribeForegroundTracking: () => void;
@@ -134,6 +138,13 @@ export class RunningTrackingCoordinator {
     this.unsubscribeForegroundTracking = locationService.subscribeToTrackingData((trackingData) => {
       if (this.source !== 'foreground') return;
 
+      // 동작 감지 일시정지 중에도 GPS는 켜져 있으므로, 그동안의 증가분(정지 중 drift)은 거리에서 제외
+      const rawDistanceDelta = Math.max(0, trackingData.totalDistance - this.foregroundRawDistance);
+      this.foregroundRawDistance = trackingData.totalDistance;
+      if (this.runningState !== RunningState.Running) {
+        this.foregroundDistanceBase -= rawDistanceDelta;
+      }
+
       const totalDistance = this.foregroundDistanceBase + trackingData.totalDistance;
       const combinedLocations = this.getForegroundCombinedLocations();
       const currentLocation =
@@ -196,6 +207,7 @@ export class RunningTrackingCoordinator {
     this.currentRecordId = recordId;
     this.runningState = RunningState.Running;
     this.source = 'idle';
+    this.isTrackingPaused = false;
     this.foregroundDistanceBase = 0;
     this.foregroundLocationsBase = [];
     this.foregroundLiveLocations = [];
@@ -284,6 +296,7 @@ export class RunningTrackingCoordinator {
 
   pauseSession(): void {
     this.runningState = RunningState.Paused;
+    this.isTrackingPaused = true;
 
     if (this.source === 'foreground') {
       locationService.pauseTracking();
@@ -299,9 +312,17 @@ export class RunningTrackingCoordinator {
 
   resumeSession(): void {
     this.runningState = RunningState.Running;
+    this.isTrackingPaused = false;
 
     if (this.source === 'foreground') {
       locationService.resumeTracking();
+
+      // 동작 감지 일시정지 상태로 background에 들어갔다가 움직여서 재개된 경우
+      if (this.appState !== 'active') {
+        void this.startBackgroundSource().catch((error) => {
+          console.error('[RunningTrackingCoordinator] Failed to hand off to background source:', error);
+        });
+      }
       return;
     }
 
@@ -330,6 +351,7 @@ export class RunningTrackingCoordinator {
     this.currentRecordId = null;
     this.runningState = RunningState.Stopped;
     this.source = 'idle';
+    this.isTrackingPaused = false;
     this.foregroundDistanceBase = 0;
     this.foregroundLocationsBase = [];
     this.foregroundLiveLocations = [];
@@ -382,7 +404,13 @@ export class RunningTrackingCoordinator {
       }
     }
 
-    if (this.runningState === RunningState.Paused && this.source === 'foreground') {
+    // 동작 감지 일시정지는 움직임을 감지해 자동 재개해야 하므로 foreground GPS를 유지
+    // (재개되면 resumeSession()에서 background source로 넘김)
+    if (
+      this.runningState === RunningState.Paused &&
+      this.source === 'foreground' &&
+      this.isTrackingPaused
+    ) {
       locationService.stopTracking();
       this.source = 'idle';
       this.setSnapshot({
@@ -433,6 +461,7 @@ export class RunningTrackingCoordinator {
     this.foregroundDistanceBase = this.snapshot.distance;
     this.foregroundLocationsBase = [...this.snapshot.locations];
     this.foregroundLiveLocations = [];
+    this.foregroundRawDistance = 0;
 
     if (this.source === 'background') {
       await backgroundTaskService.deactivateBackgroundSession();
@@ -0,0 +1,193 @@
+/**
+ * GPX/TCX 내보내기 공통 활동 모델
+ * 러닝 기록 합계 + 10m 세그먼트(GPS 포인트 포함)를 랩/트랙포인트 구조로 변환
+ */
+
+import type { RunningRecord } from '../../models/RunningRecord';
+import type { RunningRecordItemResponse } from '../runningService';
+
+export interface ExportTrackPoint {
+  latitude: number;
+  longitude: number;
+  altitude: number | null;
+  timestampMs: number;
+  distance: number; // 누적 거리 (m)
+  heartRate: number | null;
+  cadence: number | null; // spm
+}
+
+export interface ExportLap {
+  startTimestampMs: number;
+  durationSec: number;
+  distance: number;
+  calories: number;
+  averageHeartRate: number | null;
+  maxHeartRate: number | null;
+  averageCadence: number | null; // spm
+  points: ExportTrackPoint[];
+}
+
+export interface ExportActivity {
+  name: string;
+  startTimestampMs: number;
+  durationSec: number;
+  distance: number;
+  calories: number;
+  averageHeartRate: number | null;
+  averageCadence: number | null; // spm
+  laps: ExportLap[];
+}
+
+export const DEFAULT_EXPORT_LAP_DISTANCE_METERS = 1000;
+
+/**
+ * 러닝 케이던스 변환
+ * GPX(gpxtpx:cad)/TCX(RunCadence)는 한쪽 발 기준 strides/min, 앱은 양발 spm
+ */
+export const spmToStridesPerMinute = (spm: number): number => Math.round(spm / 2);
+export const stridesPerMinuteToSpm = (stridesPerMinute: number): number => stridesPerMinute * 2;
+
+const LAP_EPSILON_METERS = 1e-6;
+
+/** 0 이하 센서 값은 측정 안 됨으로 취급 */
+const toSensorValue = (value: number | null | undefined): number | null =>
+  value != null && value > 0 ? value : null;
+
+const weightedAverage = (entries: { value: number | null; weight: number }[]): number | null => {
+  const valid = entries.filter(
+    (entry): entry is { value: number; weight: number } => entry.value !== null && entry.weight > 0
+  );
+  const totalWeight = valid.reduce((sum, entry) => sum + entry.weight, 0);
+
+  if (totalWeight <= 0) {
+    return null;
+  }
+
+  return Math.round(valid.reduce((sum, entry) => sum + entry.value * entry.weight, 0) / totalWeight);
+};
+
+/**
+ * 세그먼트의 GPS 포인트에 누적 거리/센서 값을 붙여 트랙포인트로 변환
+ * 누적 거리는 세그먼트 시간 내 비율로 보간
+ */
+const toTrackPoints = (
+  item: RunningRecordItemResponse,
+  distanceBeforeSegment: number
+): ExportTrackPoint[] => {
+  const segmentStartMs = item.startTimeStamp * 1000;
+  const segmentDurationMs = item.durationSec * 1000;
+
+  return [...(item.gpsPoints ?? [])]
+    .sort((a, b) => a.timestampMs - b.timestampMs)
+    .map((point) => {
+      const progress =
+        segmentDurationMs > 0
+          ? Math.min(Math.max((point.timestampMs - segmentStartMs) / segmentDurationMs, 0), 1)
+          : 1;
+
+      return {
+        latitude: point.latitude,
+        longitude: point.longitude,
+        altitude: Number.isFinite(point.altitude) ? point.altitude : null,
+        timestampMs: point.timestampMs,
+        distance: distanceBeforeSegment + item.distance * progress,
+        heartRate: toSensorValue(item.heartRate),
+        cadence: toSensorValue(item.cadence),
+      };
+    });
+};
+
+/**
+ * 러닝 기록과 세그먼트로 내보내기 활동 생성
+ * - 세그먼트를 순서대로 누적해 lapDistance 마다 랩을 나눈다 (세그먼트는 쪼개지 않음)
+ * - 칼로리는 기록 합계를 랩 거리 비율로 배분
+ * - 세그먼트가 없으면 기록 합계로 단일 랩 생성
+ */
+export const buildExportActivity = (
+  record: RunningRecord,
+  items: RunningRecordItemResponse[],
+  lapDistance: number = DEFAULT_EXPORT_LAP_DISTANCE_METERS
+): ExportActivity => {
+  const startTimestampMs = Math.round(record.startTimestamp * 1000);
+  const sortedItems = [...items]
+    .filter((item) => item.distance > 0 || item.durationSec > 0)
+    .sort((a, b) => a.orderIndex - b.orderIndex);
+
+  const lapGroups: RunningRecordItemResponse[][] = [];
+  let currentGroup: RunningRecordItemResponse[] = [];
+  let currentDistance = 0;
+
+  for (const item of sortedItems) {
+    currentGroup.push(item);
+    currentDistance += item.distance;
+
+    if (currentDistance >= lapDistance - LAP_EPSILON_METERS) {
+      lapGroups.push(currentGroup);
+      currentGroup = [];
+      currentDistance = 0;
+    }
+  }
+
+  if (currentGroup.length > 0) {
+    lapGroups.push(currentGroup);
+  }
+
+  const totalItemDistance = sortedItems.reduce((sum, item) => sum + item.distance, 0);
+  let distanceBeforeLap = 0;
+
+  const laps: ExportLap[] = lapGroups.map((group) => {
+    const lapDistanceMeters = group.reduce((sum, item) => sum + item.distance, 0);
+    let distanceBeforeSegment = distanceBeforeLap;
+    const points = group.flatMap((item) => {
+      const segmentPoints = toTrackPoints(item, distanceBeforeSegment);
+      distanceBeforeSegment += item.distance;
+      return segmentPoints;
+    });
+    distanceBeforeLap += lapDistanceMeters;
+
+    const maxHeartRates = group
+      .map((item) => toSensorValue(item.maxHeartRate) ?? toSensorValue(item.heartRate))
+      .filter((value): value is number => value !== null);
+
+    return {
+      startTimestampMs: group[0]!.startTimeStamp * 1000,
+      durationSec: group.reduce((sum, item) => sum + item.durationSec, 0),
+      distance: lapDistanceMeters,
+      calories:
+        totalItemDistance > 0 ? Math.round((record.calorie * lapDistanceMeters) / totalItemDistance) : 0,
+      averageHeartRate: weightedAverage(
+        group.map((item) => ({ value: toSensorValue(item.heartRate), weight: item.durationSec }))
+      ),
+      maxHeartRate: maxHeartRates.length > 0 ? Math.max(...maxHeartRates) : null,
+      averageCadence: weightedAverage(
+        group.map((item) => ({ value: toSensorValue(item.cadence), weight: item.durationSec }))
+      ),
+      points,
+    };
+  });
+
+  return {
+    name: `RunTaeho Run ${new Date(startTimestampMs).toISOString().slice(0, 10)}`,
+    startTimestampMs,
+    durationSec: record.durationSec,
+    distance: record.distance,
+    calories: record.calorie,
+    averageHeartRate: toSensorValue(record.heartRate),
+    averageCadence: toSensorValue(record.cadence),
+    laps:
+      laps.length > 0
+        ? laps
+        : [
+            {
+              startTimestampMs,
+              durationSec: record.durationSec,
+              distance: record.distance,
+              calories: record.calorie,
+              averageHeartRate: toSensorValue(record.heartRate),
+              maxHeartRate: null,
+              averageCadence: toSensorValue(record.cadence),
+              points: [],
+            },
+          ],
+  };
+};
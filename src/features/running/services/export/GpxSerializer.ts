@@ -0,0 +1,140 @@
+/**
+ * GPX 1.1 직렬화/파싱
+ * - 랩 하나를 trkseg 하나로 기록
+ * - 심박/케이던스는 Garmin TrackPointExtension v1 (gpxtpx:hr, gpxtpx:cad)
+ */
+
+import {
+  spmToStridesPerMinute,
+  stridesPerMinuteToSpm,
+  type ExportActivity,
+  type ExportTrackPoint,
+} from './ExportActivity';
+import { escapeXml, getChild, getChildText, getChildren, getDescendants, parseXml } from './xml';
+
+export const GPX_MIME_TYPE = 'application/gpx+xml';
+
+export type GpxTrackPoint = Omit<ExportTrackPoint, 'distance'>;
+
+export interface GpxTrack {
+  name: string | null;
+  startTimestampMs: number | null;
+  segments: GpxTrackPoint[][];
+}
+
+const serializeTrackPoint = (point: ExportTrackPoint): string => {
+  const extensionValues = [
+    ...(point.heartRate !== null ? [`<gpxtpx:hr>${Math.round(point.heartRate)}</gpxtpx:hr>`] : []),
+    ...(point.cadence !== null
+      ? [`<gpxtpx:cad>${spmToStridesPerMinute(point.cadence)}</gpxtpx:cad>`]
+      : []),
+  ];
+
+  return [
+    `      <trkpt lat="${point.latitude.toFixed(7)}" lon="${point.longitude.toFixed(7)}">`,
+    ...(point.altitude !== null ? [`        <ele>${point.altitude.toFixed(1)}</ele>`] : []),
+    `        <time>${new Date(point.timestampMs).toISOString()}</time>`,
+    ...(extensionValues.length > 0
+      ? [
+          '        <extensions>',
+          `          <gpxtpx:TrackPointExtension>${extensionValues.join('')}</gpxtpx:TrackPointExtension>`,
+          '        </extensions>',
+        ]
+      : []),
+    '      </trkpt>',
+  ].join('\n');
+};
+
+/**
+ * 활동을 GPX 1.1 문서로 직렬화
+ */
+export const serializeGpx = (activity: ExportActivity): string => {
+  const name = escapeXml(activity.name);
+  const segments = activity.laps
+    .filter((lap) => lap.points.length > 0)
+    .map((lap) => ['    <trkseg>', ...lap.points.map(serializeTrackPoint), '    </trkseg>'].join('\n'));
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<gpx version="1.1" creator="RunTaeho"',
+    '  xmlns="http://www.topografix.com/GPX/1/1"',
+    '  xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance"',
+    '  xmlns:gpxtpx="http://www.garmin.com/xmlschemas/TrackPointExtension/v1"',
+    '  xsi:schemaLocation="http://www.topografix.com/GPX/1/1 http://www.topografix.com/GPX/1/1/gpx.xsd http://www.garmin.com/xmlschemas/TrackPointExtension/v1 http://www.garmin.com/xmlschemas/TrackPointExtensionv1.xsd">',
+    '  <metadata>',
+    `    <name>${name}</name>`,
+    `    <time>${new Date(activity.startTimestampMs).toISOString()}</time>`,
+    '  </metadata>',
+    '  <trk>',
+    `    <name>${name}</name>`,
+    '    <type>running</type>',
+    ...segments,
+    '  </trk>',
+    '</gpx>',
+    '',
+  ].join('\n');
+};
+
+const parseOptionalNumber = (value: string | undefined): number | null => {
+  if (value === undefined || value === '') {
+    return null;
+  }
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : null;
+};
+
+/**
+ * GPX 문서를 트랙 세그먼트 목록으로 파싱 (trk가 여러 개면 모든 trkseg를 순서대로 합침)
+ * @throws GPX 루트가 아니면 Error
+ */
+export const parseGpx = (xml: string): GpxTrack => {
+  const root = parseXml(xml);
+  if (root.name !== 'gpx') {
+    throw new Error('Invalid GPX: missing <gpx> root element');
+  }
+
+  const metadata = getChild(root, 'metadata');
+  const firstTrack = getChild(root, 'trk');
+  const metadataTime = metadata ? getChildText(metadata, 'time') : undefined;
+
+  const segments = getChildren(root, 'trk')
+    .flatMap((track) => getChildren(track, 'trkseg'))
+    .map((segment) =>
+      getChildren(segment, 'trkpt')
+        .map((trackPoint): GpxTrackPoint | null => {
+          const latitude = parseOptionalNumber(trackPoint.attributes.lat);
+          const longitude = parseOptionalNumber(trackPoint.attributes.lon);
+          const time = getChildText(trackPoint, 'time');
+          const timestampMs = time ? Date.parse(time) : NaN;
+
+          if (latitude === null || longitude === null || !Number.isFinite(timestampMs)) {
+            return null;
+          }
+
+          const [heartRate] = getDescendants(trackPoint, 'hr');
+          const [cadence] = getDescendants(trackPoint, 'cad');
+          const strideCadence = parseOptionalNumber(cadence?.text);
+
+          return {
+            latitude,
+            longitude,
+            altitude: parseOptionalNumber(getChildText(trackPoint, 'ele')),
+            timestampMs,
+            heartRate: parseOptionalNumber(heartRate?.text),
+            cadence: strideCadence !== null ? stridesPerMinuteToSpm(strideCadence) : null,
+          };
+        })
+        .filter((point): point is GpxTrackPoint => point !== null)
+    )
+    .filter((segment) => segment.length > 0);
+
+  const name = (metadata && getChildText(metadata, 'name')) || (firstTrack && getChildText(firstTrack, 'name'));
+  const startTimestampMs = metadataTime ? Date.parse(metadataTime) : segments[0]?.[0]?.timestampMs;
+
+  return {
+    name: name || null,
+    startTimestampMs:
+      startTimestampMs !== undefined && Number.isFinite(startTimestampMs) ? startTimestampMs : null,
+    segments,
+  };
+};
@@ -0,0 +1,211 @@
+/**
+ * TCX (Garmin TrainingCenterDatabase v2) 직렬화/파싱
+ * - 랩 요약(시간/거리/칼로리/심박)과 트랙포인트를 기록
+ * - 케이던스는 ActivityExtension v2 (TPX RunCadence, LX AvgRunCadence)
+ */
+
+import {
+  spmToStridesPerMinute,
+  stridesPerMinuteToSpm,
+  type ExportActivity,
+  type ExportLap,
+  type ExportTrackPoint,
+} from './ExportActivity';
+import {
+  escapeXml,
+  getChild,
+  getChildText,
+  getChildren,
+  getDescendants,
+  parseXml,
+  type XmlElement,
+} from './xml';
+
+export const TCX_MIME_TYPE = 'application/vnd.garmin.tcx+xml';
+
+const formatNumber = (value: number, fractionDigits: number): string =>
+  String(Number(value.toFixed(fractionDigits)));
+
+const toIsoString = (timestampMs: number): string => new Date(timestampMs).toISOString();
+
+const serializeTrackPoint = (point: ExportTrackPoint): string =>
+  [
+    '          <Trackpoint>',
+    `            <Time>${toIsoString(point.timestampMs)}</Time>`,
+    '            <Position>',
+    `              <LatitudeDegrees>${point.latitude.toFixed(7)}</LatitudeDegrees>`,
+    `              <LongitudeDegrees>${point.longitude.toFixed(7)}</LongitudeDegrees>`,
+    '            </Position>',
+    ...(point.altitude !== null
+      ? [`            <AltitudeMeters>${formatNumber(point.altitude, 1)}</AltitudeMeters>`]
+      : []),
+    `            <DistanceMeters>${formatNumber(point.distance, 2)}</DistanceMeters>`,
+    ...(point.heartRate !== null
+      ? [`            <HeartRateBpm><Value>${Math.round(point.heartRate)}</Value></HeartRateBpm>`]
+      : []),
+    ...(point.cadence !== null
+      ? [
+          '            <Extensions>',
+          `              <ns3:TPX><ns3:RunCadence>${spmToStridesPerMinute(point.cadence)}</ns3:RunCadence></ns3:TPX>`,
+          '            </Extensions>',
+        ]
+      : []),
+    '          </Trackpoint>',
+  ].join('\n');
+
+const serializeLap = (lap: ExportLap, isLastLap: boolean): string =>
+  [
+    `      <Lap StartTime="${toIsoString(lap.startTimestampMs)}">`,
+    `        <TotalTimeSeconds>${formatNumber(lap.durationSec, 3)}</TotalTimeSeconds>`,
+    `        <DistanceMeters>${formatNumber(lap.distance, 2)}</DistanceMeters>`,
+    `        <Calories>${Math.max(0, Math.round(lap.calories))}</Calories>`,
+    ...(lap.averageHeartRate !== null
+      ? [`        <AverageHeartRateBpm><Value>${Math.round(lap.averageHeartRate)}</Value></AverageHeartRateBpm>`]
+      : []),
+    ...(lap.maxHeartRate !== null
+      ? [`        <MaximumHeartRateBpm><Value>${Math.round(lap.maxHeartRate)}</Value></MaximumHeartRateBpm>`]
+      : []),
+    '        <Intensity>Active</Intensity>',
+    // 마지막 랩은 거리 도달이 아닌 러닝 종료로 끝남
+    `        <TriggerMethod>${isLastLap ? 'Manual' : 'Distance'}</TriggerMethod>`,
+    ...(lap.points.length > 0
+      ? ['        <Track>', ...lap.points.map(serializeTrackPoint), '        </Track>']
+      : []),
+    ...(lap.averageCadence !== null
+      ? [
+          '        <Extensions>',
+          `          <ns3:LX><ns3:AvgRunCadence>${spmToStridesPerMinute(lap.averageCadence)}</ns3:AvgRunCadence></ns3:LX>`,
+          '        </Extensions>',
+        ]
+      : []),
+    '      </Lap>',
+  ].join('\n');
+
+/**
+ * 활동을 TCX 문서로 직렬화
+ */
+export const serializeTcx = (activity: ExportActivity): string =>
+  [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<TrainingCenterDatabase',
+    '  xmlns="http://www.garmin.com/xmlschemas/TrainingCenterDatabase/v2"',
+    '  xmlns:ns3="http://www.garmin.com/xmlschemas/ActivityExtension/v2"',
+    '  xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance"',
+    '  xsi:schemaLocation="http://www.garmin.com/xmlschemas/TrainingCenterDatabase/v2 http://www.garmin.com/xmlschemas/TrainingCenterDatabasev2.xsd">',
+    '  <Activities>',
+    '    <Activity Sport="Running">',
+    `      <Id>${toIsoString(activity.startTimestampMs)}</Id>`,
+    ...activity.laps.map((lap, index) => serializeLap(lap, index === activity.laps.length - 1)),
+    `      <Notes>${escapeXml(activity.name)}</Notes>`,
+    '    </Activity>',
+    '  </Activities>',
+    '</TrainingCenterDatabase>',
+    '',
+  ].join('\n');
+
+const parseOptionalNumber = (value: string | undefined): number | null => {
+  if (value === undefined || value === '') {
+    return null;
+  }
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : null;
+};
+
+const parseHeartRate = (element: XmlElement, name: string): number | null => {
+  const heartRate = getChild(element, name);
+  return heartRate ? parseOptionalNumber(getChildText(heartRate, 'Value')) : null;
+};
+
+const parseRunCadence = (element: XmlElement, name: string): number | null => {
+  const [cadence] = getDescendants(element, name);
+  const strideCadence = parseOptionalNumber(cadence?.text);
+  return strideCadence !== null ? stridesPerMinuteToSpm(strideCadence) : null;
+};
+
+const parseTrackPoint = (trackPoint: XmlElement): ExportTrackPoint | null => {
+  const position = getChild(trackPoint, 'Position');
+  const time = getChildText(trackPoint, 'Time');
+  const timestampMs = time ? Date.parse(time) : NaN;
+  const latitude = position ? parseOptionalNumber(getChildText(position, 'LatitudeDegrees')) : null;
+  const longitude = position ? parseOptionalNumber(getChildText(position, 'LongitudeDegrees')) : null;
+
+  // 위치 없는 트랙포인트(실내/신호 없음)는 경로로 복원할 수 없어 제외
+  if (latitude === null || longitude === null || !Number.isFinite(timestampMs)) {
+    return null;
+  }
+
+  return {
+    latitude,
+    longitude,
+    altitude: parseOptionalNumber(getChildText(trackPoint, 'AltitudeMeters')),
+    timestampMs,
+    distance: parseOptionalNumber(getChildText(trackPoint, 'DistanceMeters')) ?? 0,
+    heartRate: parseHeartRate(trackPoint, 'HeartRateBpm'),
+    cadence: parseRunCadence(trackPoint, 'RunCadence'),
+  };
+};
+
+const parseLap = (lap: XmlElement): ExportLap => {
+  const startTime = lap.attributes.StartTime;
+  const points = getChildren(lap, 'Track')
+    .flatMap((track) => getChildren(track, 'Trackpoint'))
+    .map(parseTrackPoint)
+    .filter((point): point is ExportTrackPoint => point !== null);
+
+  return {
+    startTimestampMs: startTime ? Date.parse(startTime) : (points[0]?.timestampMs ?? NaN),
+    durationSec: parseOptionalNumber(getChildText(lap, 'TotalTimeSeconds')) ?? 0,
+    distance: parseOptionalNumber(getChildText(lap, 'DistanceMeters')) ?? 0,
+    calories: parseOptionalNumber(getChildText(lap, 'Calories')) ?? 0,
+    averageHeartRate: parseHeartRate(lap, 'AverageHeartRateBpm'),
+    maxHeartRate: parseHeartRate(lap, 'MaximumHeartRateBpm'),
+    averageCadence: parseRunCadence(lap, 'AvgRunCadence'),
+    points,
+  };
+};
+
+const lapWeightedAverage = (laps: ExportLap[], pick: (lap: ExportLap) => number | null): number | null => {
+  const valid = laps.filter((lap) => pick(lap) !== null && lap.durationSec > 0);
+  const totalDuration = valid.reduce((sum, lap) => sum + lap.durationSec, 0);
+
+  if (totalDuration <= 0) {
+    return null;
+  }
+
+  return Math.round(valid.reduce((sum, lap) => sum + pick(lap)! * lap.durationSec, 0) / totalDuration);
+};
+
+/**
+ * TCX 문서의 첫 번째 활동을 파싱 (합계는 랩 합산)
+ * @throws TCX 루트/활동이 없으면 Error
+ */
+export const parseTcx = (xml: string): ExportActivity => {
+  const root = parseXml(xml);
+  if (root.name !== 'TrainingCenterDatabase') {
+    throw new Error('Invalid TCX: missing <TrainingCenterDatabase> root element');
+  }
+
+  const [activity] = getDescendants(root, 'Activity');
+  if (!activity) {
+    throw new Error('Invalid TCX: no <Activity> found');
+  }
+
+  const laps = getChildren(activity, 'Lap').map(parseLap);
+  const id = getChildText(activity, 'Id');
+  const startTimestampMs = id ? Date.parse(id) : (laps[0]?.startTimestampMs ?? NaN);
+
+  if (!Number.isFinite(startTimestampMs)) {
+    throw new Error('Invalid TCX: activity start time is missing');
+  }
+
+  return {
+    name: getChildText(activity, 'Notes') ?? '',
+    startTimestampMs,
+    durationSec: laps.reduce((sum, lap) => sum + lap.durationSec, 0),
+    distance: laps.reduce((sum, lap) => sum + lap.distance, 0),
+    calories: laps.reduce((sum, lap) => sum + lap.calories, 0),
+    averageHeartRate: lapWeightedAverage(laps, (lap) => lap.averageHeartRate),
+    averageCadence: lapWeightedAverage(laps, (lap) => lap.averageCadence),
+    laps,
+  };
+};
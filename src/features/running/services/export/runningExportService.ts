@@ -0,0 +1,75 @@
+/**
+ * Running Export Service
+ * 러닝 기록을 GPX/TCX 파일로 만들어 OS 공유 시트로 전달
+ */
+
+import * as FileSystem from 'expo-file-system/legacy';
+import { shareFile } from '~/features/share/services/shareService';
+import type { ShareResult } from '~/features/share/models/types';
+import type { RunningRecord } from '../../models/RunningRecord';
+import type { RunningRecordItemResponse } from '../runningService';
+import { buildExportActivity } from './ExportActivity';
+import { GPX_MIME_TYPE, serializeGpx } from './GpxSerializer';
+import { TCX_MIME_TYPE, serializeTcx } from './TcxSerializer';
+
+export type RunningExportFormat = 'gpx' | 'tcx';
+
+export interface RunningExportFile {
+  fileName: string;
+  mimeType: string;
+  content: string;
+}
+
+const formatFileDate = (timestampMs: number): string =>
+  new Date(timestampMs).toISOString().slice(0, 19).replace(/[-:]/g, '').replace('T', '-');
+
+/**
+ * 내보내기 파일 내용 생성 (순수 함수)
+ */
+export const createRunningExportFile = (
+  record: RunningRecord,
+  items: RunningRecordItemResponse[],
+  format: RunningExportFormat
+): RunningExportFile => {
+  const activity = buildExportActivity(record, items);
+  const fileName = `runtaeho-${formatFileDate(activity.startTimestampMs)}.${format}`;
+
+  return format === 'gpx'
+    ? { fileName, mimeType: GPX_MIME_TYPE, content: serializeGpx(activity) }
+    : { fileName, mimeType: TCX_MIME_TYPE, content: serializeTcx(activity) };
+};
+
+/**
+ * 내보내기 파일을 캐시 디렉토리에 저장 후 공유 시트 호출
+ */
+export const exportAndShareRunningRecord = async (
+  record: RunningRecord,
+  items: RunningRecordItemResponse[],
+  format: RunningExportFormat
+): Promise<ShareResult> => {
+  try {
+    if (!FileSystem.cacheDirectory) {
+      throw new Error('File system cache directory is not available');
+    }
+
+    const exportFile = createRunningExportFile(record, items, format);
+    const fileUri = `${FileSystem.cacheDirectory}${exportFile.fileName}`;
+
+    await FileSystem.writeAsStringAsync(fileUri, exportFile.content, {
+      encoding: FileSystem.EncodingType.UTF8,
+    });
+
+    return await shareFile(fileUri, exportFile.mimeType, exportFile.fileName);
+  } catch (error: any) {
+    console.error('[RunningExportService] Failed to export running record:', error);
+    return {
+      success: false,
+      message: error.message || '기록 내보내기에 실패했습니다.',
+    };
+  }
+};
+
+export const runningExportService = {
+  createRunningExportFile,
+  exportAndShareRunningRecord,
+} as const;
@@ -0,0 +1,137 @@
+/**
+ * GPX/TCX 직렬화용 최소 XML 유틸
+ * - 네임스페이스 prefix는 무시하고 local name으로 비교한다 (gpxtpx:hr → hr)
+ * - DTD, 처리 명령, 주석은 건너뛴다
+ */
+
+export interface XmlElement {
+  name: string;
+  attributes: Record<string, string>;
+  children: XmlElement[];
+  text: string;
+}
+
+const XML_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+};
+
+export const escapeXml = (value: string): string =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+
+const unescapeXml = (value: string): string =>
+  value.replace(/&(#x[0-9a-fA-F]+|#\d+|\w+);/g, (entity, code: string) => {
+    if (code.startsWith('#x')) {
+      return String.fromCodePoint(parseInt(code.slice(2), 16));
+    }
+    if (code.startsWith('#')) {
+      return String.fromCodePoint(parseInt(code.slice(1), 10));
+    }
+    return XML_ENTITIES[code] ?? entity;
+  });
+
+const localName = (qualifiedName: string): string => {
+  const separatorIndex = qualifiedName.indexOf(':');
+  return separatorIndex >= 0 ? qualifiedName.slice(separatorIndex + 1) : qualifiedName;
+};
+
+const parseAttributes = (source: string): Record<string, string> => {
+  const attributes: Record<string, string> = {};
+  const pattern = /([\w:.-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(source)) !== null) {
+    attributes[localName(match[1]!)] = unescapeXml(match[2] ?? match[3] ?? '');
+  }
+
+  return attributes;
+};
+
+/**
+ * XML 문자열을 요소 트리로 변환
+ * @throws 태그 짝이 맞지 않거나 루트 요소가 없으면 Error
+ */
+export const parseXml = (xml: string): XmlElement => {
+  const source = xml
+    .replace(/<!--[\s\S]*?-->/g, '')
+    .replace(/<\?[\s\S]*?\?>/g, '')
+    .replace(/<!DOCTYPE[\s\S]*?>/gi, '');
+  const tokenPattern = /<!\[CDATA\[([\s\S]*?)\]\]>|<(\/?)([\w:.-]+)([^>]*?)(\/?)>|([^<]+)/g;
+  const stack: XmlElement[] = [];
+  let root: XmlElement | null = null;
+  let match: RegExpExecArray | null;
+
+  while ((match = tokenPattern.exec(source)) !== null) {
+    const [, cdata, closingSlash, tagName, attributeSource, selfClosingSlash, text] = match;
+    const current = stack[stack.length - 1];
+
+    if (cdata !== undefined || text !== undefined) {
+      if (current) {
+        current.text += cdata ?? unescapeXml(text!);
+      }
+      continue;
+    }
+
+    const name = localName(tagName!);
+
+    if (closingSlash) {
+      const closed = stack.pop();
+      if (!closed || closed.name !== name) {
+        throw new Error(`Invalid XML: unexpected closing tag </${tagName}>`);
+      }
+      closed.text = closed.text.trim();
+      continue;
+    }
+
+    const element: XmlElement = {
+      name,
+      attributes: parseAttributes(attributeSource ?? ''),
+      children: [],
+      text: '',
+    };
+
+    if (current) {
+      current.children.push(element);
+    } else if (!root) {
+      root = element;
+    } else {
+      throw new Error('Invalid XML: multiple root elements');
+    }
+
+    if (!selfClosingSlash) {
+      stack.push(element);
+    }
+  }
+
+  if (!root || stack.length > 0) {
+    throw new Error('Invalid XML: document is incomplete');
+  }
+
+  return root;
+};
+
+export const getChild = (element: XmlElement, name: string): XmlElement | undefined =>
+  element.children.find((child) => child.name === name);
+
+export const getChildren = (element: XmlElement, name: string): XmlElement[] =>
+  element.children.filter((child) => child.name === name);
+
+export const getChildText = (element: XmlElement, name: string): string | undefined =>
+  getChild(element, name)?.text;
+
+/**
+ * 하위 트리 전체에서 이름이 일치하는 요소 (문서 순서)
+ */
+export const getDescendants = (element: XmlElement, name: string): XmlElement[] =>
+  element.children.flatMap((child) => [
+    ...(child.name === name ? [child] : []),
+    ...getDescendants(child, name),
+  ]);
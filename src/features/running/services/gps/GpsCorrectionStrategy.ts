@@ -1,11 +1,17 @@
 import * as Location from 'expo-location';
 import type { PlatformOSType } from 'react-native';
 import { DEFAULT_GPS_FILTER_CONFIG, type GpsFilterConfig } from './GpsFilter';
+import {
+  DEFAULT_GPS_SMOOTHING_CONFIG,
+  KALMAN_GPS_SMOOTHING_CONFIG,
+  type GpsSmoothingConfig,
+} from './GpsKalmanSmoother';
 
 export type GpsTrackingSource = 'foreground' | 'background';
 
 export interface GpsCorrectionStrategy {
   getFilterConfig: () => GpsFilterConfig;
+  getSmoothingConfig: () => GpsSmoothingConfig;
   getLocationOptions: () => Location.LocationTaskOptions;
 }
 
@@ -45,15 +51,19 @@ const ANDROID_BACKGROUND_LOCATION_OPTIONS: Location.LocationTaskOptions = {
 
 const cloneFilterConfig = (config: GpsFilterConfig): GpsFilterConfig => ({ ...config });
 
+const cloneSmoothingConfig = (config: GpsSmoothingConfig): GpsSmoothingConfig => ({ ...config });
+
 const cloneLocationOptions = (
   options: Location.LocationTaskOptions
 ): Location.LocationTaskOptions => ({ ...options });
 
 const createStrategy = (
   filterConfig: GpsFilterConfig,
-  locationOptions: Location.LocationTaskOptions
+  locationOptions: Location.LocationTaskOptions,
+  smoothingConfig: GpsSmoothingConfig = DEFAULT_GPS_SMOOTHING_CONFIG
 ): GpsCorrectionStrategy => ({
   getFilterConfig: () => cloneFilterConfig(filterConfig),
+  getSmoothingConfig: () => cloneSmoothingConfig(smoothingConfig),
   getLocationOptions: () => cloneLocationOptions(locationOptions),
 });
 
@@ -70,5 +80,10 @@ export const getGpsCorrectionStrategy = ({
       ? DEFAULT_BACKGROUND_LOCATION_OPTIONS
       : DEFAULT_FOREGROUND_LOCATION_OPTIONS;
 
-  return createStrategy(DEFAULT_GPS_FILTER_CONFIG, locationOptions);
+  // 칼만 스무딩은 iOS만 사용 (foreground/background 핸드오프 시 스무딩 상태가 이어지도록 두 source 모두)
+  // Android는 background 판정 기준이 달라 스무딩 없이 GpsFilter 판정만 사용
+  const smoothingConfig =
+    platform === 'ios' ? KALMAN_GPS_SMOOTHING_CONFIG : DEFAULT_GPS_SMOOTHING_CONFIG;
+
+  return createStrategy(DEFAULT_GPS_FILTER_CONFIG, locationOptions, smoothingConfig);
 };
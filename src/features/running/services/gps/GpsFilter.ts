@@ -1,4 +1,5 @@
 import { calculateHaversineDistance } from '~/shared/utils/DistanceUtils';
+import type { GpsKalmanState } from './GpsKalmanSmoother';
 
 export interface GpsSample {
   latitude: number;
@@ -42,6 +43,7 @@ export interface GpsFilterState {
   lastAcceptedSample: GpsSample | null;
   lastRawSample: GpsSample | null;
   pendingCandidate: GpsSample | null;
+  smoothingState?: GpsKalmanState | null;
 }
 
 export interface GpsFilterEvaluation {
@@ -67,6 +69,12 @@ const SENSOR_SPEED_MULTIPLIER = 2.5;
 const cloneSample = (sample: GpsSample | null): GpsSample | null =>
   sample ? { ...sample } : null;
 
+const cloneSmoothingState = (state: GpsKalmanState): GpsKalmanState => ({
+  ...state,
+  east: { ...state.east },
+  north: { ...state.north },
+});
+
 export const createInitialGpsFilterState = (
   seed: Partial<GpsFilterState> = {}
 ): GpsFilterState => {
@@ -77,6 +85,7 @@ export const createInitialGpsFilterState = (
     lastAcceptedSample,
     lastRawSample,
     pendingCandidate: cloneSample(seed.pendingCandidate ?? null),
+    ...(seed.smoothingState && { smoothingState: cloneSmoothingState(seed.smoothingState) }),
   };
 };
 
@@ -0,0 +1,298 @@
+import { calculateHaversineDistance } from '~/shared/utils/DistanceUtils';
+import {
+  DEFAULT_GPS_FILTER_CONFIG,
+  createInitialGpsFilterState,
+  reduceGpsSample,
+  type GpsFilterConfig,
+  type GpsFilterResult,
+  type GpsFilterState,
+  type GpsRejectReason,
+  type GpsSample,
+} from './GpsFilter';
+
+export type GpsSmoothingMode = 'none' | 'kalman';
+
+export interface GpsSmoothingConfig {
+  mode: GpsSmoothingMode;
+  accelerationNoiseMps2: number;
+  defaultAccuracyMeters: number;
+  initialVelocityVarianceMps2: number;
+  resetDistanceMeters: number;
+}
+
+/**
+ * 축(동/북) 하나의 등속 모델 상태
+ * 위치는 GpsKalmanState의 위경도로 관리하고, 여기에는 속도와 공분산(m 단위)만 보관
+ */
+export interface GpsKalmanAxisState {
+  velocityMps: number;
+  positionVariance: number;
+  positionVelocityCovariance: number;
+  velocityVariance: number;
+}
+
+/**
+ * 보정 위치(latitude/longitude)와 마지막으로 거리에 반영한 보정 위치(anchor)
+ * 최소 이동 거리 미만 샘플은 anchor를 유지해 다음 OK 샘플 거리에 합산
+ */
+export interface GpsKalmanState {
+  latitude: number;
+  longitude: number;
+  anchorLatitude: number;
+  anchorLongitude: number;
+  timestampMs: number;
+  east: GpsKalmanAxisState;
+  north: GpsKalmanAxisState;
+}
+
+export interface GpsSmoothingEvaluation {
+  result: GpsFilterResult;
+  nextState: GpsFilterState;
+  smoothedSample: GpsSample;
+}
+
+/**
+ * 기본값은 스무딩 없음 (GpsFilter 판정만 사용)
+ * 칼만 스무딩은 GpsCorrectionStrategy에서 KALMAN_GPS_SMOOTHING_CONFIG로 선택
+ */
+export const DEFAULT_GPS_SMOOTHING_CONFIG: GpsSmoothingConfig = {
+  mode: 'none',
+  accelerationNoiseMps2: 1.5,
+  defaultAccuracyMeters: 10,
+  initialVelocityVarianceMps2: 25,
+  resetDistanceMeters: 50,
+};
+
+export const KALMAN_GPS_SMOOTHING_CONFIG: GpsSmoothingConfig = {
+  ...DEFAULT_GPS_SMOOTHING_CONFIG,
+  mode: 'kalman',
+};
+
+const METERS_PER_DEGREE_LATITUDE = (Math.PI * 6371e3) / 180;
+const MIN_ACCURACY_METERS = 1;
+
+// 필터가 신뢰하지 않은 샘플은 스무딩 상태를 바꾸지 않음
+const UNTRUSTED_REASONS: GpsRejectReason[] = [
+  'INVALID_COORDINATE',
+  'INVALID_TIMESTAMP',
+  'LOW_ACCURACY',
+  'SPEED_TOO_FAST',
+  'JUMP_QUARANTINED',
+];
+
+const metersPerDegreeLongitude = (latitude: number): number =>
+  METERS_PER_DEGREE_LATITUDE * Math.max(Math.cos((latitude * Math.PI) / 180), 1e-6);
+
+const getMeasurementVariance = (sample: GpsSample, config: GpsSmoothingConfig): number => {
+  const accuracy =
+    typeof sample.accuracyMeters === 'number' && Number.isFinite(sample.accuracyMeters)
+      ? sample.accuracyMeters
+      : config.defaultAccuracyMeters;
+  return Math.max(accuracy, MIN_ACCURACY_METERS) ** 2;
+};
+
+const cloneAxis = (axis: GpsKalmanAxisState): GpsKalmanAxisState => ({ ...axis });
+
+const cloneGpsKalmanState = (state: GpsKalmanState): GpsKalmanState => ({
+  ...state,
+  east: cloneAxis(state.east),
+  north: cloneAxis(state.north),
+});
+
+export const createGpsKalmanState = (
+  sample: GpsSample,
+  config: GpsSmoothingConfig = DEFAULT_GPS_SMOOTHING_CONFIG
+): GpsKalmanState => {
+  const axis: GpsKalmanAxisState = {
+    velocityMps: 0,
+    positionVariance: getMeasurementVariance(sample, config),
+    positionVelocityCovariance: 0,
+    velocityVariance: config.initialVelocityVarianceMps2,
+  };
+
+  return {
+    latitude: sample.latitude,
+    longitude: sample.longitude,
+    anchorLatitude: sample.latitude,
+    anchorLongitude: sample.longitude,
+    timestampMs: sample.timestampMs,
+    east: axis,
+    north: { ...axis },
+  };
+};
+
+const predictAxis = (
+  axis: GpsKalmanAxisState,
+  deltaSeconds: number,
+  accelerationVariance: number
+): GpsKalmanAxisState => {
+  const dt = deltaSeconds;
+  const { positionVariance: p00, positionVelocityCovariance: p01, velocityVariance: p11 } = axis;
+
+  return {
+    velocityMps: axis.velocityMps,
+    positionVariance: p00 + 2 * dt * p01 + dt * dt * p11 + (accelerationVariance * dt ** 4) / 4,
+    positionVelocityCovariance: p01 + dt * p11 + (accelerationVariance * dt ** 3) / 2,
+    velocityVariance: p11 + accelerationVariance * dt * dt,
+  };
+};
+
+/**
+ * 위치 측정값으로 축 상태 보정
+ * @returns 보정된 축 상태와 위치 보정량(m)
+ */
+const updateAxis = (
+  axis: GpsKalmanAxisState,
+  innovationMeters: number,
+  measurementVariance: number
+): { axis: GpsKalmanAxisState; positionCorrectionMeters: number } => {
+  const innovationVariance = axis.positionVariance + measurementVariance;
+  const positionGain = axis.positionVariance / innovationVariance;
+  const velocityGain = axis.positionVelocityCovariance / innovationVariance;
+
+  return {
+    axis: {
+      velocityMps: axis.velocityMps + velocityGain * innovationMeters,
+      positionVariance: (1 - positionGain) * axis.positionVariance,
+      positionVelocityCovariance: (1 - positionGain) * axis.positionVelocityCovariance,
+      velocityVariance: axis.velocityVariance - velocityGain * axis.positionVelocityCovariance,
+    },
+    positionCorrectionMeters: positionGain * innovationMeters,
+  };
+};
+
+/**
+ * 등속 칼만 필터 한 스텝 (예측 → accuracyMeters 가중 보정)
+ * 예측 위치와 측정 위치가 resetDistanceMeters 이상 벌어지면 측정 위치로 재시작 (anchor는 유지)
+ */
+export const stepGpsKalman = (
+  state: GpsKalmanState,
+  sample: GpsSample,
+  config: GpsSmoothingConfig = DEFAULT_GPS_SMOOTHING_CONFIG
+): GpsKalmanState => {
+  const deltaSeconds = (sample.timestampMs - state.timestampMs) / 1000;
+  if (!Number.isFinite(deltaSeconds) || deltaSeconds < 0) {
+    return cloneGpsKalmanState(state);
+  }
+
+  const accelerationVariance = config.accelerationNoiseMps2 ** 2;
+  const east = predictAxis(state.east, deltaSeconds, accelerationVariance);
+  const north = predictAxis(state.north, deltaSeconds, accelerationVariance);
+  const predictedLatitude = state.latitude + (north.velocityMps * deltaSeconds) / METERS_PER_DEGREE_LATITUDE;
+  const lonScale = metersPerDegreeLongitude(predictedLatitude);
+  const predictedLongitude = state.longitude + (east.velocityMps * deltaSeconds) / lonScale;
+
+  const innovationNorth = (sample.latitude - predictedLatitude) * METERS_PER_DEGREE_LATITUDE;
+  const innovationEast = (sample.longitude - predictedLongitude) * lonScale;
+
+  if (Math.hypot(innovationNorth, innovationEast) > config.resetDistanceMeters) {
+    return {
+      ...createGpsKalmanState(sample, config),
+      anchorLatitude: state.anchorLatitude,
+      anchorLongitude: state.anchorLongitude,
+    };
+  }
+
+  const measurementVariance = getMeasurementVariance(sample, config);
+  const eastUpdate = updateAxis(east, innovationEast, measurementVariance);
+  const northUpdate = updateAxis(north, innovationNorth, measurementVariance);
+
+  return {
+    latitude: predictedLatitude + northUpdate.positionCorrectionMeters / METERS_PER_DEGREE_LATITUDE,
+    longitude: predictedLongitude + eastUpdate.positionCorrectionMeters / lonScale,
+    anchorLatitude: state.anchorLatitude,
+    anchorLongitude: state.anchorLongitude,
+    timestampMs: sample.timestampMs,
+    east: eastUpdate.axis,
+    north: northUpdate.axis,
+  };
+};
+
+const withPosition = (sample: GpsSample, state: GpsKalmanState): GpsSample => ({
+  ...sample,
+  latitude: state.latitude,
+  longitude: state.longitude,
+});
+
+const moveAnchor = (state: GpsKalmanState): GpsKalmanState => ({
+  ...state,
+  anchorLatitude: state.latitude,
+  anchorLongitude: state.longitude,
+});
+
+/**
+ * GpsFilter 판정 뒤에 스무딩 단계를 붙인 reducer
+ * - 필터가 신뢰한 샘플만 칼만 상태에 반영하고, 경로/거리는 보정된 위치 기준
+ * - 정지 판정은 anchor를 옮겨 drift를 버리고, 최소 거리 미만은 anchor를 유지해 누적
+ * - 스무딩 상태는 GpsFilterState.smoothingState에 함께 저장되어 핸드오프 시 이어짐
+ */
+export const reduceSmoothedGpsSample = (
+  state: GpsFilterState,
+  currentSample: GpsSample,
+  filterConfig: GpsFilterConfig = DEFAULT_GPS_FILTER_CONFIG,
+  smoothingConfig: GpsSmoothingConfig = DEFAULT_GPS_SMOOTHING_CONFIG
+): GpsSmoothingEvaluation => {
+  const { result, nextState } = reduceGpsSample(state, currentSample, filterConfig);
+
+  if (smoothingConfig.mode === 'none') {
+    return {
+      result,
+      nextState: createInitialGpsFilterState({ ...nextState, smoothingState: null }),
+      smoothedSample: currentSample,
+    };
+  }
+
+  const previousSmoothingState = state.smoothingState ?? null;
+
+  if (UNTRUSTED_REASONS.includes(result.reason)) {
+    return {
+      result,
+      nextState: createInitialGpsFilterState({ ...nextState, smoothingState: previousSmoothingState }),
+      smoothedSample: currentSample,
+    };
+  }
+
+  // 첫 샘플/긴 공백 뒤에는 측정 위치에서 다시 시작
+  if (
+    !previousSmoothingState ||
+    result.reason === 'NO_PREVIOUS_SAMPLE' ||
+    result.reason === 'TIME_GAP_TOO_LARGE'
+  ) {
+    return {
+      result,
+      nextState: createInitialGpsFilterState({
+        ...nextState,
+        smoothingState: createGpsKalmanState(currentSample, smoothingConfig),
+      }),
+      smoothedSample: currentSample,
+    };
+  }
+
+  const steppedState = stepGpsKalman(previousSmoothingState, currentSample, smoothingConfig);
+  const smoothedSample = withPosition(currentSample, steppedState);
+
+  if (!result.acceptedForDistance) {
+    return {
+      result,
+      nextState: createInitialGpsFilterState({
+        ...nextState,
+        smoothingState: result.reason === 'STATIONARY' ? moveAnchor(steppedState) : steppedState,
+      }),
+      smoothedSample,
+    };
+  }
+
+  return {
+    result: {
+      ...result,
+      distanceMeters: calculateHaversineDistance(
+        steppedState.anchorLatitude,
+        steppedState.anchorLongitude,
+        steppedState.latitude,
+        steppedState.longitude
+      ),
+    },
+    nextState: createInitialGpsFilterState({ ...nextState, smoothingState: moveAnchor(steppedState) }),
+    smoothedSample,
+  };
+};
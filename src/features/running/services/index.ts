@@ -6,4 +6,7 @@ export * from './runningQueries';
 export * from './LocationService';
 export * from './BackgroundTaskService';
 export * from './OfflineStorageService';
-export * from './sensors';
\ No newline at end of file
+export * from './OfflineSyncService';
+export * from './sensors';
+export * from './CalorieCalculator';
+export * from './CalorieRecalculationService';
@@ -5,6 +5,7 @@
 
 import { useInfiniteQuery, useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
 import type { RunningRecord } from '~/features/running/models';
+import type { ResolvedPhysiology } from '~/features/user/models/PhysiologyProfile';
 import type { CursorResult } from '~/shared/utils/dto/CursorResult';
 import { queryKeys } from '../../../services/queryClient';
 import {
@@ -12,6 +13,7 @@ import {
   type RunningRecordItemResponse,
   type UpdateRunningRecordShoeParams,
 } from './runningService';
+import { calorieRecalculationService } from './CalorieRecalculationService';
 import { useUserStore } from '~/stores/user/userStore';
 
 /**
@@ -89,6 +91,23 @@ export const useUpdateRunningRecordShoe = () => {
   });
 };
 
+/**
+ * 지난 러닝 기록 칼로리 재계산 (신체 정보 변경 시)
+ */
+export const useRecalculatePastCalories = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (physiology: ResolvedPhysiology) =>
+      calorieRecalculationService.recalculatePastRecords(physiology),
+    onSuccess: ({ updated }) => {
+      if (updated === 0) return;
+      queryClient.invalidateQueries({ queryKey: queryKeys.running.all });
+      queryClient.invalidateQueries({ queryKey: queryKeys.statistics.all });
+    },
+  });
+};
+
 /**
  * 러닝 기록 조회 (페이지네이션)
  * 기존: useGetRunningRecordsQuery()
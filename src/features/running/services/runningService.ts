@@ -9,6 +9,7 @@ import {
   type EndRunningRecord,
   type RunningRecord,
 } from '~/features/running/models';
+import { getDeviceTimezone } from '~/shared/utils/dateUtils';
 import type { CursorResult } from '~/shared/utils/dto/CursorResult';
 import { apiClient } from '../../../services/api/client';
 import { API_ENDPOINTS } from '../../../services/api/config';
@@ -52,6 +53,13 @@ interface RunningRecordItemsResponse {
   items: RunningRecordItemResponse[];
 }
 
+export interface StartRunningParams {
+  startTimestamp?: number; // Unix timestamp (초)
+  timezone?: string;
+}
+
+export { getDeviceTimezone };
+
 export interface UpdateRunningRecordShoeParams {
   runningRecordId: number;
   shoeId: number;
@@ -68,19 +76,27 @@ export const runningService = {
    * POST /api/v1/running
    * Request: { startTimestamp: number (s), timezone: string }
    * Response: { id: number }
+   *
+   * 오프라인으로 시작한 러닝을 나중에 서버 기록으로 만들 때는
+   * 실제 시작 시각과 시작 당시 timezone을 넘긴다.
    */
-  startRunning: async (): Promise<RunningRecord> => {
-    const timezone = Intl.DateTimeFormat().resolvedOptions().timeZone || 'Asia/Seoul';
+  startRunning: async (params?: StartRunningParams): Promise<RunningRecord> => {
+    const timezone = params?.timezone ?? getDeviceTimezone();
+    const startTimestamp = params?.startTimestamp ?? Date.now() / 1000; // seconds
 
     const { data } = await apiClient.post<{ id: number }>(
       API_ENDPOINTS.RUNNING.BASE,
       {
-        startTimestamp: (Date.now() / 1000), // seconds
+        startTimestamp,
         timezone,
       }
     );
 
-    return createRunningRecord(data.id);
+    return {
+      ...createRunningRecord(data.id),
+      timezone,
+      ...(params?.startTimestamp !== undefined && { startTimestamp: params.startTimestamp }),
+    };
   },
 
   /**
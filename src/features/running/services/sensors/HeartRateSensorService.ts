@@ -0,0 +1,441 @@
+/**
+ * Heart Rate Sensor Service
+ *
+ * Bluetooth LE 심박계 연동 (Heart Rate Profile, 0x180D)
+ * - 주변 심박계 검색 및 페어링 (페어링한 기기는 heartRateSensorStore에 저장)
+ * - 러닝 중 Heart Rate Measurement(0x2A37) 알림 구독
+ * - 러닝 중 연결이 끊기면 측정을 멈출 때까지 간격을 늘려 가며 재연결
+ */
+
+import { PermissionsAndroid, Platform } from 'react-native';
+import { BleManager, State, type Characteristic, type Subscription } from 'react-native-ble-plx';
+import { useHeartRateSensorStore, type HeartRateConnectionStatus } from '../../stores/heartRateSensorStore';
+import {
+  DataSource,
+  type CadenceData,
+  type HeartRateData,
+  type ISensorService,
+  type PermissionResult,
+} from './SensorTypes';
+
+export const HEART_RATE_SERVICE_UUID = '0000180d-0000-1000-8000-00805f9b34fb';
+export const HEART_RATE_MEASUREMENT_UUID = '00002a37-0000-1000-8000-00805f9b34fb';
+
+const CONNECT_TIMEOUT_MS = 10000;
+const HEART_RATE_STALE_MS = 5000;
+const RECONNECT_BASE_DELAY_MS = 1000;
+const RECONNECT_MAX_DELAY_MS = 30000;
+const MIN_VALID_HEART_RATE = 30;
+const MAX_VALID_HEART_RATE = 250;
+
+/**
+ * 검색된 심박계
+ */
+export interface HeartRatePeripheral {
+  id: string;
+  name: string;
+}
+
+/**
+ * Heart Rate Measurement 값 해석
+ * - flags bit0: 심박수 형식 (0: uint8, 1: uint16 little-endian)
+ * - flags bit2: 센서 접촉 감지 지원, bit1: 접촉 감지됨
+ * 접촉이 감지되지 않았거나 범위를 벗어난 값이면 null
+ */
+export const parseHeartRateMeasurement = (bytes: Uint8Array): number | null => {
+  const flags = bytes[0];
+  if (flags === undefined) return null;
+
+  const isUint16 = (flags & 0x01) !== 0;
+  const contactSupported = (flags & 0x04) !== 0;
+  const contactDetected = (flags & 0x02) !== 0;
+  if (contactSupported && !contactDetected) return null;
+
+  const low = bytes[1];
+  const high = bytes[2];
+  if (low === undefined || (isUint16 && high === undefined)) return null;
+
+  const bpm = isUint16 ? low | (high! << 8) : low;
+  return bpm >= MIN_VALID_HEART_RATE && bpm <= MAX_VALID_HEART_RATE ? bpm : null;
+};
+
+const decodeBase64 = (value: string): Uint8Array => {
+  const binary = atob(value);
+  return Uint8Array.from(binary, (char) => char.charCodeAt(0));
+};
+
+/**
+ * 심박계 서비스
+ *
+ * Singleton 패턴
+ * BleManager는 네이티브 모듈을 초기화하므로 처음 사용할 때 생성
+ */
+export class HeartRateSensorService implements ISensorService {
+  private static instance: HeartRateSensorService;
+
+  private manager: BleManager | null = null;
+
+  // 측정 세션 상태
+  private monitoringCallback: ((data: HeartRateData | undefined) => void) | null = null;
+  private monitoredDeviceId: string | null = null;
+  private sessionId = 0;
+  private measurementSubscription: Subscription | null = null;
+  private disconnectSubscription: Subscription | null = null;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private reconnectAttempt = 0;
+  private lastHeartRate: HeartRateData | null = null;
+
+  private constructor() {}
+
+  /**
+   * Singleton 인스턴스 반환
+   */
+  static getInstance(): HeartRateSensorService {
+    if (!HeartRateSensorService.instance) {
+      HeartRateSensorService.instance = new HeartRateSensorService();
+    }
+    return HeartRateSensorService.instance;
+  }
+
+  private getManager(): BleManager {
+    if (!this.manager) {
+      this.manager = new BleManager();
+    }
+    return this.manager;
+  }
+
+  /**
+   * 블루투스 사용 가능 여부 (켜져 있고 권한이 있는지)
+   */
+  async isAvailable(): Promise<boolean> {
+    try {
+      return (await this.getManager().state()) === State.PoweredOn;
+    } catch (error) {
+      console.error('[HeartRateSensorService] Availability check failed:', error);
+      return false;
+    }
+  }
+
+  /**
+   * 권한 확인
+   * Android 12+: BLUETOOTH_SCAN/CONNECT, 이전 버전: 위치 권한
+   * iOS: 블루투스 상태가 Unauthorized인지로 판단
+   */
+  async checkPermissions(): Promise<PermissionResult> {
+    try {
+      if (Platform.OS === 'android') {
+        const results = await Promise.all(
+          this.getAndroidPermissions().map((permission) => PermissionsAndroid.check(permission))
+        );
+        return { status: results.every(Boolean) ? 'granted' : 'undetermined' };
+      }
+
+      const state = await this.getManager().state();
+      return { status: state === State.Unauthorized ? 'denied' : 'granted' };
+    } catch (error) {
+      console.error('[HeartRateSensorService] Permission check failed:', error);
+      return { status: 'undetermined' };
+    }
+  }
+
+  /**
+   * 권한 요청
+   * iOS는 BleManager를 처음 사용할 때 시스템 권한 팝업이 표시됨
+   */
+  async requestPermissions(): Promise<PermissionResult> {
+    try {
+      if (Platform.OS === 'android') {
+        const results = await PermissionsAndroid.requestMultiple(this.getAndroidPermissions());
+        const statuses = Object.values(results);
+        const granted = statuses.every((result) => result === PermissionsAndroid.RESULTS.GRANTED);
+        return {
+          status: granted ? 'granted' : 'denied',
+          canAskAgain: !statuses.includes(PermissionsAndroid.RESULTS.NEVER_ASK_AGAIN),
+        };
+      }
+
+      return this.checkPermissions();
+    } catch (error) {
+      console.error('[HeartRateSensorService] Permission request failed:', error);
+      return { status: 'denied' };
+    }
+  }
+
+  private getAndroidPermissions() {
+    if (Platform.OS === 'android' && Number(Platform.Version) >= 31) {
+      return [
+        PermissionsAndroid.PERMISSIONS.BLUETOOTH_SCAN,
+        PermissionsAndroid.PERMISSIONS.BLUETOOTH_CONNECT,
+      ];
+    }
+    return [PermissionsAndroid.PERMISSIONS.ACCESS_FINE_LOCATION];
+  }
+
+  // ============================================
+  // Pairing
+  // ============================================
+
+  /**
+   * 심박계 검색 (Heart Rate 서비스를 광고하는 기기만)
+   * @returns 검색 중지 함수
+   */
+  scanForDevices(onDeviceFound: (peripheral: HeartRatePeripheral) => void): () => void {
+    const manager = this.getManager();
+    const foundIds = new Set<string>();
+
+    void manager
+      .startDeviceScan([HEART_RATE_SERVICE_UUID], { allowDuplicates: false }, (error, device) => {
+        if (error) {
+          console.error('[HeartRateSensorService] Scan failed:', error);
+          return;
+        }
+        if (!device || foundIds.has(device.id)) return;
+
+        foundIds.add(device.id);
+        onDeviceFound({
+          id: device.id,
+          name: device.name ?? device.localName ?? '심박계',
+        });
+      })
+      .catch((error: unknown) => {
+        console.error('[HeartRateSensorService] Failed to start scan:', error);
+      });
+
+    return () => {
+      void manager.stopDeviceScan().catch(() => undefined);
+    };
+  }
+
+  /**
+   * 페어링
+   * 한 번 연결해 Heart Rate 서비스를 확인한 뒤 기기를 기억하고 연결을 해제
+   * (러닝 중이면 측정 중인 연결을 유지)
+   */
+  async pairDevice(peripheral: HeartRatePeripheral): Promise<void> {
+    const manager = this.getManager();
+    const isMonitoredDevice = this.monitoredDeviceId === peripheral.id;
+
+    if (!isMonitoredDevice) {
+      await manager.connectToDevice(peripheral.id, { timeout: CONNECT_TIMEOUT_MS });
+      try {
+        await manager.discoverAllServicesAndCharacteristicsForDevice(peripheral.id);
+      } finally {
+        await manager.cancelDeviceConnection(peripheral.id).catch(() => undefined);
+      }
+    }
+
+    useHeartRateSensorStore.getState().rememberDevice(peripheral);
+    console.log(`[HeartRateSensorService] Paired ${peripheral.name} (${peripheral.id})`);
+  }
+
+  /**
+   * 기억한 기기 삭제 (측정 중인 기기면 측정도 중지)
+   */
+  async forgetDevice(deviceId: string): Promise<void> {
+    if (this.monitoredDeviceId === deviceId) {
+      await this.stopHeartRateMonitoring();
+    }
+    useHeartRateSensorStore.getState().forgetDevice(deviceId);
+  }
+
+  // ============================================
+  // Heart Rate Monitoring
+  // ============================================
+
+  /**
+   * 심박수 측정 시작
+   * 가장 최근에 사용한 기기에 연결하며, 연결은 기다리지 않고 백그라운드에서 진행
+   * 기억한 기기가 없으면 아무것도 하지 않음
+   */
+  async startHeartRateMonitoring(callback: (data: HeartRateData | undefined) => void): Promise<void> {
+    await this.stopHeartRateMonitoring();
+
+    const device = useHeartRateSensorStore.getState().devices[0];
+    if (!device) {
+      console.log('[HeartRateSensorService] No paired heart-rate sensor');
+      return;
+    }
+
+    this.sessionId += 1;
+    this.monitoringCallback = callback;
+    this.monitoredDeviceId = device.id;
+    this.reconnectAttempt = 0;
+    this.setStatus('connecting');
+
+    void this.connect(this.sessionId, device.id);
+  }
+
+  /**
+   * 심박수 측정 중지
+   */
+  async stopHeartRateMonitoring(): Promise<void> {
+    const deviceId = this.monitoredDeviceId;
+
+    this.sessionId += 1;
+    this.monitoringCallback = null;
+    this.monitoredDeviceId = null;
+    this.lastHeartRate = null;
+    this.clearReconnectTimer();
+    this.removeSubscriptions();
+    this.setStatus('idle');
+
+    if (deviceId && this.manager) {
+      await this.manager.cancelDeviceConnection(deviceId).catch(() => undefined);
+    }
+  }
+
+  private async connect(sessionId: number, deviceId: string): Promise<void> {
+    const manager = this.getManager();
+
+    try {
+      await manager.connectToDevice(deviceId, { timeout: CONNECT_TIMEOUT_MS });
+      await manager.discoverAllServicesAndCharacteristicsForDevice(deviceId);
+
+      // 연결하는 동안 측정이 중지/재시작되었으면 이 연결은 버림
+      if (sessionId !== this.sessionId) {
+        await manager.cancelDeviceConnection(deviceId).catch(() => undefined);
+        return;
+      }
+
+      this.removeSubscriptions();
+      this.disconnectSubscription = manager.onDeviceDisconnected(deviceId, () => {
+        this.handleDisconnect(sessionId, deviceId);
+      });
+      this.measurementSubscription = manager.monitorCharacteristicForDevice(
+        deviceId,
+        HEART_RATE_SERVICE_UUID,
+        HEART_RATE_MEASUREMENT_UUID,
+        (error, characteristic) => {
+          if (error) {
+            console.warn('[HeartRateSensorService] Measurement monitoring error:', error);
+            return;
+          }
+          this.handleMeasurement(sessionId, characteristic);
+        }
+      );
+
+      this.reconnectAttempt = 0;
+      this.setStatus('connected');
+      useHeartRateSensorStore.getState().markConnected(deviceId);
+      console.log(`[HeartRateSensorService] Connected to ${deviceId}`);
+    } catch (error) {
+      if (sessionId !== this.sessionId) return;
+      console.warn('[HeartRateSensorService] Connection failed:', error);
+      this.scheduleReconnect(sessionId, deviceId);
+    }
+  }
+
+  private handleMeasurement(sessionId: number, characteristic: Characteristic | null) {
+    if (sessionId !== this.sessionId || !characteristic?.value) return;
+
+    const bpm = parseHeartRateMeasurement(decodeBase64(characteristic.value));
+    if (bpm === null) {
+      // 피부 접촉이 끊기면 이전 심박수가 계속 표시되지 않도록 측정값 없음으로 알림
+      this.lastHeartRate = null;
+      this.monitoringCallback?.(undefined);
+      return;
+    }
+
+    this.lastHeartRate = {
+      bpm,
+      timestamp: Date.now(),
+      source: DataSource.BLE_HEART_RATE,
+    };
+    this.monitoringCallback?.(this.lastHeartRate);
+  }
+
+  private handleDisconnect(sessionId: number, deviceId: string) {
+    if (sessionId !== this.sessionId) return;
+
+    console.warn(`[HeartRateSensorService] Disconnected from ${deviceId}`);
+    this.removeSubscriptions();
+    this.lastHeartRate = null;
+    this.monitoringCallback?.(undefined);
+    this.scheduleReconnect(sessionId, deviceId);
+  }
+
+  /**
+   * 재연결 예약 (1초부터 두 배씩, 최대 30초 간격)
+   */
+  private scheduleReconnect(sessionId: number, deviceId: string) {
+    this.clearReconnectTimer();
+
+    const delayMs = Math.min(
+      RECONNECT_BASE_DELAY_MS * 2 ** this.reconnectAttempt,
+      RECONNECT_MAX_DELAY_MS
+    );
+    this.reconnectAttempt += 1;
+    this.setStatus('reconnecting');
+
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      if (sessionId !== this.sessionId) return;
+      void this.connect(sessionId, deviceId);
+    }, delayMs);
+  }
+
+  private clearReconnectTimer() {
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+  }
+
+  private removeSubscriptions() {
+    this.measurementSubscription?.remove();
+    this.measurementSubscription = null;
+    this.disconnectSubscription?.remove();
+    this.disconnectSubscription = null;
+  }
+
+  private setStatus(status: HeartRateConnectionStatus) {
+    useHeartRateSensorStore.getState().setConnectionStatus(status);
+  }
+
+  /**
+   * 케이던스는 심박계에서 제공하지 않음 (PedometerService 사용)
+   */
+  async startCadenceMonitoring(callback: (data: CadenceData | undefined) => void): Promise<void> {
+    callback(undefined);
+  }
+
+  async stopCadenceMonitoring(): Promise<void> {}
+
+  /**
+   * 현재 심박수 (5초 이상 갱신이 없으면 undefined)
+   */
+  async getCurrentHeartRate(): Promise<number | undefined> {
+    if (!this.lastHeartRate || Date.now() - this.lastHeartRate.timestamp > HEART_RATE_STALE_MS) {
+      return undefined;
+    }
+    return this.lastHeartRate.bpm;
+  }
+
+  async getCurrentCadence(): Promise<number | undefined> {
+    return undefined;
+  }
+
+  /**
+   * 칼로리는 useRunningStats에서 심박수(Keytel)/MET 공식으로 계산
+   */
+  async calculateCalories(): Promise<number | undefined> {
+    return undefined;
+  }
+
+  /**
+   * 상태 초기화 (테스트용)
+   */
+  reset(): void {
+    this.sessionId += 1;
+    this.monitoringCallback = null;
+    this.monitoredDeviceId = null;
+    this.lastHeartRate = null;
+    this.reconnectAttempt = 0;
+    this.clearReconnectTimer();
+    this.removeSubscriptions();
+    this.manager = null;
+  }
+}
+
+// Singleton 인스턴스 export
+export const heartRateSensorService = HeartRateSensorService.getInstance();
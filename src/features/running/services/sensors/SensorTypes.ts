@@ -10,6 +10,7 @@ export enum DataSource {
   WEARABLE_WATCH_OS = 'wearable_watch_os',      // Apple Watch
   WEARABLE_WEAR_OS = 'wearable_wear_os',        // Wear OS
   WEARABLE_GARMIN = 'wearable_garmin',          // Garmin
+  BLE_HEART_RATE = 'ble_heart_rate',            // Bluetooth LE 심박계 (Heart Rate Profile)
   PHONE_HEALTH_KIT = 'phone_health_kit',        // iOS HealthKit
   PHONE_GOOGLE_FIT = 'phone_google_fit',        // Android Google Fit
   PHONE_SENSORS = 'phone_sensors',              // 핸드폰 내장 센서 (가속도계 등)
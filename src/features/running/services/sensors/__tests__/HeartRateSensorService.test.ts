@@ -0,0 +1,165 @@
+import {
+  heartRateSensorService,
+  parseHeartRateMeasurement,
+} from '~/features/running/services/sensors/HeartRateSensorService';
+import { DataSource, type HeartRateData } from '~/features/running/services/sensors/SensorTypes';
+import { useHeartRateSensorStore } from '~/features/running/stores/heartRateSensorStore';
+import { fakeBleHost } from '~/test-utils/ble/fakeHeartRatePeripheral';
+
+const STRAP = { id: 'strap-1', name: 'HRM-Pro' };
+
+/**
+ * 연결 과정의 연속된 await를 모두 처리
+ */
+const flushAsync = async () => {
+  for (let i = 0; i < 10; i += 1) {
+    await Promise.resolve();
+  }
+};
+
+const startMonitoring = async () => {
+  const readings: (HeartRateData | undefined)[] = [];
+  await heartRateSensorService.startHeartRateMonitoring((data) => readings.push(data));
+  await flushAsync();
+  return readings;
+};
+
+describe('HeartRateSensorService', () => {
+  beforeEach(async () => {
+    await heartRateSensorService.stopHeartRateMonitoring();
+    heartRateSensorService.reset();
+    fakeBleHost.reset();
+    useHeartRateSensorStore.getState().reset();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  describe('parseHeartRateMeasurement', () => {
+    it('reads uint8 and uint16 heart-rate formats', () => {
+      expect(parseHeartRateMeasurement(Uint8Array.from([0x00, 148]))).toBe(148);
+      expect(parseHeartRateMeasurement(Uint8Array.from([0x01, 0xb4, 0x00]))).toBe(180);
+    });
+
+    it('drops readings without skin contact or outside the plausible range', () => {
+      expect(parseHeartRateMeasurement(Uint8Array.from([0x04, 150]))).toBeNull();
+      expect(parseHeartRateMeasurement(Uint8Array.from([0x06, 150]))).toBe(150);
+      expect(parseHeartRateMeasurement(Uint8Array.from([0x00, 0]))).toBeNull();
+      expect(parseHeartRateMeasurement(Uint8Array.from([0x01, 0xb4]))).toBeNull();
+    });
+  });
+
+  it('scans only heart-rate peripherals and remembers the paired strap', async () => {
+    const found: { id: string; name: string }[] = [];
+    const stopScan = heartRateSensorService.scanForDevices((peripheral) => found.push(peripheral));
+    await flushAsync();
+
+    fakeBleHost.addPeripheral(STRAP);
+    fakeBleHost.addPeripheral({ id: 'speaker', name: 'Speaker', serviceUUIDs: ['0000110b-0000-1000-8000-00805f9b34fb'] });
+
+    expect(found).toEqual([STRAP]);
+
+    stopScan();
+    await flushAsync();
+    expect(fakeBleHost.isScanning).toBe(false);
+
+    await heartRateSensorService.pairDevice(STRAP);
+
+    expect(useHeartRateSensorStore.getState().devices).toEqual([
+      expect.objectContaining({ id: STRAP.id, name: STRAP.name, lastConnectedAt: null }),
+    ]);
+    // 페어링 확인 후 연결은 해제
+    expect(fakeBleHost.isConnected(STRAP.id)).toBe(false);
+  });
+
+  it('does nothing when no strap has been paired', async () => {
+    const readings = await startMonitoring();
+
+    expect(fakeBleHost.connectAttempts).toEqual([]);
+    expect(readings).toEqual([]);
+    expect(useHeartRateSensorStore.getState().connectionStatus).toBe('idle');
+  });
+
+  it('streams heart rate from the most recently used strap', async () => {
+    fakeBleHost.addPeripheral(STRAP);
+    useHeartRateSensorStore.getState().rememberDevice(STRAP);
+
+    const readings = await startMonitoring();
+    expect(useHeartRateSensorStore.getState().connectionStatus).toBe('connected');
+
+    fakeBleHost.emitHeartRate(STRAP.id, 152);
+    fakeBleHost.emitHeartRate(STRAP.id, 154, { contactDetected: false });
+    expect(await heartRateSensorService.getCurrentHeartRate()).toBeUndefined();
+    fakeBleHost.emitHeartRate(STRAP.id, 201, { uint16: true });
+
+    expect(readings.map((reading) => reading?.bpm)).toEqual([152, undefined, 201]);
+    expect(readings[0]?.source).toBe(DataSource.BLE_HEART_RATE);
+    expect(await heartRateSensorService.getCurrentHeartRate()).toBe(201);
+    expect(useHeartRateSensorStore.getState().devices[0]?.lastConnectedAt).not.toBeNull();
+  });
+
+  it('reconnects with backoff after the strap drops mid-run', async () => {
+    jest.useFakeTimers();
+    fakeBleHost.addPeripheral(STRAP);
+    useHeartRateSensorStore.getState().rememberDevice(STRAP);
+
+    const readings = await startMonitoring();
+    fakeBleHost.emitHeartRate(STRAP.id, 150);
+
+    fakeBleHost.failConnections(1);
+    fakeBleHost.dropConnection(STRAP.id);
+
+    // 연결이 끊기면 심박수 없음으로 알림
+    expect(readings).toEqual([expect.objectContaining({ bpm: 150 }), undefined]);
+    expect(useHeartRateSensorStore.getState().connectionStatus).toBe('reconnecting');
+
+    // 1초 후 첫 재연결 실패, 2초 후 재시도 성공
+    jest.advanceTimersByTime(1000);
+    await flushAsync();
+    expect(fakeBleHost.connectAttempts).toHaveLength(2);
+    expect(fakeBleHost.isConnected(STRAP.id)).toBe(false);
+
+    jest.advanceTimersByTime(1999);
+    await flushAsync();
+    expect(fakeBleHost.connectAttempts).toHaveLength(2);
+
+    jest.advanceTimersByTime(1);
+    await flushAsync();
+    expect(fakeBleHost.isConnected(STRAP.id)).toBe(true);
+    expect(useHeartRateSensorStore.getState().connectionStatus).toBe('connected');
+
+    fakeBleHost.emitHeartRate(STRAP.id, 158);
+    expect(readings.at(-1)?.bpm).toBe(158);
+  });
+
+  it('stops reconnecting and disconnects when monitoring stops', async () => {
+    jest.useFakeTimers();
+    fakeBleHost.addPeripheral(STRAP);
+    useHeartRateSensorStore.getState().rememberDevice(STRAP);
+
+    const readings = await startMonitoring();
+    fakeBleHost.dropConnection(STRAP.id);
+
+    await heartRateSensorService.stopHeartRateMonitoring();
+    jest.advanceTimersByTime(60_000);
+    await flushAsync();
+
+    expect(fakeBleHost.connectAttempts).toHaveLength(1);
+    expect(useHeartRateSensorStore.getState().connectionStatus).toBe('idle');
+
+    fakeBleHost.emitHeartRate(STRAP.id, 150);
+    expect(readings).toEqual([undefined]);
+  });
+
+  it('forgets a strap and stops monitoring it', async () => {
+    fakeBleHost.addPeripheral(STRAP);
+    useHeartRateSensorStore.getState().rememberDevice(STRAP);
+    await startMonitoring();
+
+    await heartRateSensorService.forgetDevice(STRAP.id);
+
+    expect(useHeartRateSensorStore.getState().devices).toEqual([]);
+    expect(fakeBleHost.isConnected(STRAP.id)).toBe(false);
+  });
+});
@@ -4,3 +4,4 @@
 
 export * from './SensorTypes';
 export * from './PedometerService';
+export * from './HeartRateSensorService';
@@ -0,0 +1,35 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { create } from 'zustand';
+import { createJSONStorage, persist } from 'zustand/middleware';
+import type { AutoPauseMode } from '../services/AutoPauseDetector';
+
+/**
+ * Auto Pause Store (Zustand)
+ * 동작 감지 자동 일시정지 모드 (끔 / 기본 / 민감)
+ */
+interface AutoPauseState {
+  mode: AutoPauseMode;
+
+  // Actions
+  setMode: (mode: AutoPauseMode) => void;
+  reset: () => void;
+}
+
+const DEFAULT_AUTO_PAUSE_MODE: AutoPauseMode = 'off';
+
+export const useAutoPauseStore = create<AutoPauseState>()(
+  persist(
+    (set) => ({
+      mode: DEFAULT_AUTO_PAUSE_MODE,
+
+      setMode: (mode) => set({ mode }),
+
+      reset: () => set({ mode: DEFAULT_AUTO_PAUSE_MODE }),
+    }),
+    {
+      name: 'auto-pause-storage', // AsyncStorage key
+      storage: createJSONStorage(() => AsyncStorage),
+      partialize: (state) => ({ mode: state.mode }),
+    }
+  )
+);
@@ -0,0 +1,88 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { create } from 'zustand';
+import { createJSONStorage, persist } from 'zustand/middleware';
+
+/**
+ * 심박계 연결 상태
+ * - idle: 측정 중이 아님
+ * - connecting: 러닝 시작 후 첫 연결 시도 중
+ * - connected: 심박수 수신 중
+ * - reconnecting: 러닝 중 연결이 끊겨 재연결 대기/시도 중
+ */
+export type HeartRateConnectionStatus = 'idle' | 'connecting' | 'connected' | 'reconnecting';
+
+/**
+ * 페어링한 심박계
+ */
+export interface PairedHeartRateDevice {
+  id: string;
+  name: string;
+  pairedAt: number; // 밀리초
+  lastConnectedAt: number | null; // 밀리초
+}
+
+/**
+ * Heart Rate Sensor Store (Zustand)
+ * - 페어링한 심박계 목록 (최근 사용 순, 러닝 시작 시 첫 번째 기기에 연결)
+ * - 현재 연결 상태 (저장하지 않음)
+ */
+interface HeartRateSensorState {
+  devices: PairedHeartRateDevice[];
+  connectionStatus: HeartRateConnectionStatus;
+
+  // Actions
+  rememberDevice: (device: { id: string; name: string }) => void;
+  markConnected: (deviceId: string) => void;
+  forgetDevice: (deviceId: string) => void;
+  setConnectionStatus: (status: HeartRateConnectionStatus) => void;
+  reset: () => void;
+}
+
+const initialState = {
+  devices: [] as PairedHeartRateDevice[],
+  connectionStatus: 'idle' as HeartRateConnectionStatus,
+};
+
+export const useHeartRateSensorStore = create<HeartRateSensorState>()(
+  persist(
+    (set) => ({
+      ...initialState,
+
+      rememberDevice: ({ id, name }) =>
+        set((state) => {
+          const existing = state.devices.find((device) => device.id === id);
+          const device: PairedHeartRateDevice = {
+            id,
+            name,
+            pairedAt: existing?.pairedAt ?? Date.now(),
+            lastConnectedAt: existing?.lastConnectedAt ?? null,
+          };
+          return { devices: [device, ...state.devices.filter((item) => item.id !== id)] };
+        }),
+
+      markConnected: (deviceId) =>
+        set((state) => {
+          const device = state.devices.find((item) => item.id === deviceId);
+          if (!device) return state;
+          return {
+            devices: [
+              { ...device, lastConnectedAt: Date.now() },
+              ...state.devices.filter((item) => item.id !== deviceId),
+            ],
+          };
+        }),
+
+      forgetDevice: (deviceId) =>
+        set((state) => ({ devices: state.devices.filter((device) => device.id !== deviceId) })),
+
+      setConnectionStatus: (connectionStatus) => set({ connectionStatus }),
+
+      reset: () => set(initialState),
+    }),
+    {
+      name: 'heart-rate-sensor-storage', // AsyncStorage key
+      storage: createJSONStorage(() => AsyncStorage),
+      partialize: (state) => ({ devices: state.devices }),
+    }
+  )
+);
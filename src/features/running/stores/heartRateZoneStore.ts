@@ -0,0 +1,37 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { create } from 'zustand';
+import { createJSONStorage, persist } from 'zustand/middleware';
+import {
+  DEFAULT_HEART_RATE_ZONE_SETTINGS,
+  type HeartRateZoneSettings,
+} from '../models/HeartRateZone';
+
+/**
+ * Heart Rate Zone Store (Zustand)
+ * 심박 구간 계산 방식과 구간별 기준 비율
+ */
+interface HeartRateZoneState {
+  settings: HeartRateZoneSettings;
+
+  // Actions
+  updateSettings: (settings: Partial<HeartRateZoneSettings>) => void;
+  reset: () => void;
+}
+
+export const useHeartRateZoneStore = create<HeartRateZoneState>()(
+  persist(
+    (set) => ({
+      settings: DEFAULT_HEART_RATE_ZONE_SETTINGS,
+
+      updateSettings: (settings) =>
+        set((state) => ({ settings: { ...state.settings, ...settings } })),
+
+      reset: () => set({ settings: DEFAULT_HEART_RATE_ZONE_SETTINGS }),
+    }),
+    {
+      name: 'heart-rate-zone-storage', // AsyncStorage key
+      storage: createJSONStorage(() => AsyncStorage),
+      partialize: (state) => ({ settings: state.settings }),
+    }
+  )
+);
@@ -0,0 +1,43 @@
+import { create } from 'zustand';
+
+interface OfflineSyncState {
+  /** 동기화 대기 중인 러닝 수 (자동 재시도 대상) */
+  pendingRunCount: number;
+  /** 최대 재시도를 넘겨 수동 재시도가 필요한 러닝 수 */
+  failedRunCount: number;
+  /** 동기화 진행 중 여부 */
+  isSyncing: boolean;
+  /** 네트워크 연결 여부 (NetInfo 기준) */
+  isConnected: boolean;
+  /** 마지막 동기화 완료 시간 */
+  lastSyncedAt: Date | null;
+
+  // Actions
+  setCounts: (counts: { pendingRunCount: number; failedRunCount: number }) => void;
+  setSyncing: (isSyncing: boolean) => void;
+  setConnected: (isConnected: boolean) => void;
+  setLastSyncedAt: (date: Date | null) => void;
+  reset: () => void;
+}
+
+const initialState = {
+  pendingRunCount: 0,
+  failedRunCount: 0,
+  isSyncing: false,
+  isConnected: true,
+  lastSyncedAt: null,
+};
+
+export const useOfflineSyncStore = create<OfflineSyncState>((set) => ({
+  ...initialState,
+
+  setCounts: ({ pendingRunCount, failedRunCount }) => set({ pendingRunCount, failedRunCount }),
+
+  setSyncing: (isSyncing) => set({ isSyncing }),
+
+  setConnected: (isConnected) => set({ isConnected }),
+
+  setLastSyncedAt: (date) => set({ lastSyncedAt: date }),
+
+  reset: () => set(initialState),
+}));
@@ -10,12 +10,22 @@
  * - useGpsTracking: GPS 추적 (포그라운드/백그라운드)
  * - useUnityCharacterControl: Unity 캐릭터 속도 제어
  * - useRunningLifecycle: 러닝 라이프사이클 (시작/일시정지/재개/종료)
+ * - useAutoPause: 동작 감지 자동 일시정지/재개
+ * - useVoiceCoaching: 거리/시간 마일스톤 음성 안내
+ * - useWorkoutRuntime: 선택된 워크아웃 계획의 단계 진행
+ * - useGhostPacer: 선택된 고스트 페이서와의 차이 계산 및 Unity 고스트 제어
+ * - useCharacterReactions: 구간/목표 절반/PR 페이스/긴 휴식 순간의 캐릭터 반응
  *
  * NOTE: 기존 API 100% 호환 유지
  */
 
 import { useCallback, useEffect, useRef } from 'react';
+import { useVoiceCoaching } from '~/features/coaching/hooks/useVoiceCoaching';
+import { useGhostPacer } from '~/features/ghost/hooks/useGhostPacer';
+import { useCharacterReactions } from '~/features/reactions/hooks/useCharacterReactions';
+import { useWorkoutRuntime } from '~/features/workout/hooks/useWorkoutRuntime';
 import { RunningState } from '~/stores/app/appStore';
+import { useUserStore } from '~/stores/user/userStore';
 import { formatRunningRecord } from '../models';
 
 // Import hooks
@@ -25,6 +35,7 @@ import {
   useGpsTracking,
   useUnityCharacterControl,
   useRunningLifecycle,
+  useAutoPause,
 } from './hooks';
 
 /**
@@ -33,6 +44,7 @@ import {
  */
 export const useRunningViewModel = (isUnityReady: boolean = false) => {
   const autoPauseHandlerRef = useRef<(() => void) | null>(null);
+  const distanceUnit = useUserStore((state) => state.userPreferences.distanceUnit);
 
   // ============================================
   // 1. Stats Hook - 통계 계산 및 포맷팅
@@ -60,6 +72,8 @@ export const useRunningViewModel = (isUnityReady: boolean = false) => {
     segmentStartTimeRef,
     createSegment,
     finalizeCurrentSegment,
+    excludeSegmentPausedTime,
+    recordSegmentHeartRate,
     initializeSegmentTracking,
     resetSegments,
     setSegmentDistance,
@@ -104,6 +118,9 @@ export const useRunningViewModel = (isUnityReady: boolean = false) => {
     currentRecord,
     startTime,
     pausedDuration,
+    pauseStartTime,
+    pauseReason,
+    pausedIntervals,
     sensorHeartRate,
     sensorCadence,
     isStarting,
@@ -111,7 +128,9 @@ export const useRunningViewModel = (isUnityReady: boolean = false) => {
     startRunning,
     pauseRunning,
     applyAutoPause,
+    applyMotionPause,
     resumeRunning,
+    applyMotionResume,
     endRunning,
     updateCurrentRecord,
     resetRunning: resetLifecycle,
@@ -128,6 +147,8 @@ export const useRunningViewModel = (isUnityReady: boolean = false) => {
     setStats,
     initializeSegmentTracking,
     finalizeCurrentSegment,
+    excludeSegmentPausedTime,
+    recordSegmentHeartRate,
     resetSegments,
     distance,
     elapsedTime,
@@ -138,7 +159,18 @@ export const useRunningViewModel = (isUnityReady: boolean = false) => {
   autoPauseHandlerRef.current = applyAutoPause;
 
   // ============================================
-  // 5. Unity Character Control Hook
+  // 5. Auto Pause Hook - 동작 감지 자동 일시정지/재개
+  // ============================================
+  useAutoPause({
+    runningState,
+    pauseReason,
+    latestPaceSignal,
+    onAutoPause: applyMotionPause,
+    onAutoResume: applyMotionResume,
+  });
+
+  // ============================================
+  // 6. Unity Character Control Hook
   // ============================================
   useUnityCharacterControl({
     isUnityReady,
@@ -146,6 +178,49 @@ export const useRunningViewModel = (isUnityReady: boolean = false) => {
     speed: stats.speed,
   });
 
+  // ============================================
+  // 7. Voice Coaching Hook - 음성 코칭
+  // ============================================
+  // 워크아웃 단계 안내/목표 페이스보다 코칭 세션이 먼저 시작되도록 useWorkoutRuntime보다 앞에 둠
+  useVoiceCoaching({
+    runningState,
+    distance,
+    elapsedTime,
+    instantPaceSeconds: stats.instantPace.totalSeconds,
+  });
+
+  // ============================================
+  // 8. Workout Runtime Hook - 인터벌 단계 진행
+  // ============================================
+  const { workoutPlanName, workoutProgress, workoutAnnouncement } = useWorkoutRuntime({
+    runningState,
+    recordId: currentRecord?.id ?? null,
+    distance,
+    elapsedTime,
+    instantPaceSeconds: stats.instantPace.totalSeconds,
+  });
+
+  // ============================================
+  // 9. Ghost Pacer Hook - 고스트 페이서
+  // ============================================
+  const { ghostPacerLabel, ghostGap } = useGhostPacer({
+    isUnityReady,
+    runningState,
+    distance,
+    elapsedTime,
+  });
+
+  // ============================================
+  // 10. Character Reactions Hook - 캐릭터 반응
+  // ============================================
+  useCharacterReactions({
+    isUnityReady,
+    runningState,
+    distance,
+    elapsedTime,
+    pausedDuration,
+  });
+
   const liveStatsInputsRef = useRef({
     distance,
     sensorHeartRate,
@@ -169,6 +244,14 @@ export const useRunningViewModel = (isUnityReady: boolean = false) => {
   useEffect(() => {
     let timeout: ReturnType<typeof setTimeout> | null = null;
 
+    // 일시정지 중에는 일시정지 시작 시점 기준으로 시간 고정
+    // (동작 감지 일시정지는 멈춰 선 시점으로 소급되므로 감지 대기 시간도 제외됨)
+    if (runningState === RunningState.Paused && startTime && pauseStartTime !== null) {
+      const totalElapsed = Math.floor((pauseStartTime - startTime) / 1000);
+      setElapsedTime(Math.max(0, totalElapsed - pausedDuration));
+      return;
+    }
+
     if (runningState !== RunningState.Running || !startTime) {
       return;
     }
@@ -210,7 +293,7 @@ export const useRunningViewModel = (isUnityReady: boolean = false) => {
         clearTimeout(timeout);
       }
     };
-  }, [runningState, startTime, pausedDuration, updateStats, setElapsedTime]);
+  }, [runningState, startTime, pausedDuration, pauseStartTime, updateStats, setElapsedTime]);
 
   // ============================================
   // Combined Reset
@@ -234,6 +317,13 @@ export const useRunningViewModel = (isUnityReady: boolean = false) => {
     trackingData,
     useBackgroundMode,
     currentSegmentItems,
+    workoutPlanName,
+    workoutProgress,
+    workoutAnnouncement,
+    ghostPacerLabel,
+    ghostGap,
+    pauseReason,
+    pausedIntervals,
 
     // Loading states
     isStarting,
@@ -255,6 +345,7 @@ export const useRunningViewModel = (isUnityReady: boolean = false) => {
     // Computed values
     isRunning: runningState === RunningState.Running,
     isPaused: runningState === RunningState.Paused,
+    isAutoPaused: runningState === RunningState.Paused && pauseReason === 'motion',
     isCompleted: runningState === RunningState.Finished,
     gpsAccuracy: trackingData?.accuracy || 0,
     currentSpeed: trackingData?.currentSpeed || 0,
@@ -266,7 +357,7 @@ export const useRunningViewModel = (isUnityReady: boolean = false) => {
           durationSec: elapsedTime,
           heartRate: stats.bpm ?? 0,
           calorie: stats.calories !== undefined ? Math.round(stats.calories) : 0,
-        })
+        }, distanceUnit)
       : null,
   };
 };
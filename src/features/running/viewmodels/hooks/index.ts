@@ -11,12 +11,15 @@ export type {
   RunningStats,
   PaceSnapshot,
   PedometerData,
+  PausedInterval,
+  RunningPauseReason,
   UseRunningSegmentsReturn,
   UseRunningStatsReturn,
   UseGpsTrackingProps,
   UseGpsTrackingReturn,
   UseUnityCharacterControlProps,
   UseUnityCharacterControlReturn,
+  UseAutoPauseProps,
   UseRunningLifecycleProps,
   UseRunningLifecycleReturn,
   UseRunningViewModelReturn,
@@ -30,3 +33,4 @@ export { useRunningStats } from './useRunningStats';
 export { useGpsTracking } from './useGpsTracking';
 export { useUnityCharacterControl } from './useUnityCharacterControl';
 export { useRunningLifecycle } from './useRunningLifecycle';
+export { useAutoPause } from './useAutoPause';
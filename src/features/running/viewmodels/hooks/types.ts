@@ -55,6 +55,23 @@ export interface PaceSignal {
   distanceDeltaMeters?: number;
 }
 
+/**
+ * 일시정지 사유
+ * - manual: 사용자가 일시정지 버튼을 누름
+ * - tracking: 백그라운드 위치 추적 시작 실패로 자동 일시정지
+ * - motion: 멈춰 선 것을 감지해 자동 일시정지 (움직이면 자동 재개)
+ */
+export type RunningPauseReason = 'manual' | 'tracking' | 'motion';
+
+/**
+ * 일시정지 구간 (러닝 시간/세그먼트 페이스에서 제외)
+ */
+export interface PausedInterval {
+  startedAt: number; // 밀리초
+  endedAt: number; // 밀리초
+  reason: RunningPauseReason;
+}
+
 /**
  * 기본 RunningStats 초기값
  */
@@ -97,6 +114,8 @@ export interface UseRunningSegmentsReturn {
   createSegment: (distance: number, locations: Location[], startTime: number) => void;
   finalizeCurrentSegment: () => void;
   initializeSegmentTracking: () => void;
+  excludeSegmentPausedTime: (pauseStartedAt: number, pauseEndedAt: number) => void;
+  recordSegmentHeartRate: (bpm: number) => void;
   processDistanceUpdate: (
     distanceDelta: number,
     newLocations: Location[],
@@ -182,6 +201,17 @@ export interface UseUnityCharacterControlProps {
  */
 export type UseUnityCharacterControlReturn = Record<string, never>;
 
+/**
+ * useAutoPause hook props
+ */
+export interface UseAutoPauseProps {
+  runningState: RunningState;
+  pauseReason: RunningPauseReason | null;
+  latestPaceSignal: PaceSignal | null;
+  onAutoPause: (pausedAt: number) => void;
+  onAutoResume: (resumedAt: number) => void;
+}
+
 /**
  * useRunningLifecycle hook props
  */
@@ -205,6 +235,8 @@ export interface UseRunningLifecycleProps {
   // Segment actions
   initializeSegmentTracking: () => void;
   finalizeCurrentSegment: () => void;
+  excludeSegmentPausedTime: (pauseStartedAt: number, pauseEndedAt: number) => void;
+  recordSegmentHeartRate: (bpm: number) => void;
   resetSegments: () => void;
 
   // Current values (for final record creation)
@@ -231,6 +263,9 @@ export interface UseRunningLifecycleReturn {
   currentRecord: RunningRecord | null;
   startTime: number | null;
   pausedDuration: number;
+  pauseStartTime: number | null;
+  pauseReason: RunningPauseReason | null;
+  pausedIntervals: PausedInterval[];
 
   // Sensor state (타이머 업데이트에서 사용)
   sensorHeartRate: number | undefined;
@@ -245,7 +280,9 @@ export interface UseRunningLifecycleReturn {
   startRunning: () => Promise<RunningRecord>;
   pauseRunning: () => void;
   applyAutoPause: () => void;
+  applyMotionPause: (pausedAt: number) => void;
   resumeRunning: () => void;
+  applyMotionResume: (resumedAt: number) => void;
   endRunning: () => Promise<EndRunningRecord | null>;
   updateCurrentRecord: () => Promise<void>;
   resetRunning: () => void;
@@ -0,0 +1,76 @@
+/**
+ * useAutoPause Hook
+ *
+ * 동작 감지 자동 일시정지/재개를 담당하는 hook
+ *
+ * 책임:
+ * - 설정된 모드(끔/기본/민감)에 따라 1초마다 GPS 신호와 케이던스로 정지/이동 판정
+ * - 러닝 중 멈춰 서면 onAutoPause, 동작 감지로 일시정지된 상태에서 움직이면 onAutoResume 호출
+ *
+ * NOTE: 수동 일시정지나 추적 실패로 인한 일시정지는 자동 재개하지 않음
+ */
+
+import { useEffect, useRef } from 'react';
+import { RunningState } from '~/stores/app/appStore';
+import {
+  AUTO_PAUSE_CONFIGS,
+  createInitialAutoPauseState,
+  evaluateAutoPause,
+} from '../../services/AutoPauseDetector';
+import { pedometerService } from '../../services/sensors/PedometerService';
+import { useAutoPauseStore } from '../../stores/autoPauseStore';
+import type { UseAutoPauseProps } from './types';
+
+const AUTO_PAUSE_TICK_MS = 1000;
+
+export const useAutoPause = ({
+  runningState,
+  pauseReason,
+  latestPaceSignal,
+  onAutoPause,
+  onAutoResume,
+}: UseAutoPauseProps): void => {
+  const mode = useAutoPauseStore((state) => state.mode);
+  const liveInputsRef = useRef({ latestPaceSignal, onAutoPause, onAutoResume });
+
+  useEffect(() => {
+    liveInputsRef.current = { latestPaceSignal, onAutoPause, onAutoResume };
+  }, [latestPaceSignal, onAutoPause, onAutoResume]);
+
+  const isAutoPaused = runningState === RunningState.Paused && pauseReason === 'motion';
+  const isActive = mode !== 'off' && (runningState === RunningState.Running || isAutoPaused);
+
+  // 상태가 바뀔 때마다 판정 상태를 새로 시작해 이전 구간의 정지/이동 시간이 이어지지 않도록 함
+  useEffect(() => {
+    if (!isActive) return;
+
+    const config = AUTO_PAUSE_CONFIGS[mode];
+    let detectorState = createInitialAutoPauseState(isAutoPaused);
+
+    const interval = setInterval(() => {
+      const { latestPaceSignal: paceSignal, onAutoPause: pause, onAutoResume: resume } =
+        liveInputsRef.current;
+      const cadenceSnapshot = pedometerService.getCadenceSnapshot();
+
+      const { decision, nextState } = evaluateAutoPause(
+        {
+          nowMs: Date.now(),
+          isAutoPaused,
+          ...(paceSignal && { paceSignal }),
+          ...(cadenceSnapshot.isMeasured && { cadence: cadenceSnapshot.cadence }),
+        },
+        detectorState,
+        config
+      );
+      detectorState = nextState;
+
+      if (decision?.type === 'pause') {
+        pause(decision.atMs);
+      } else if (decision?.type === 'resume') {
+        resume(decision.atMs);
+      }
+    }, AUTO_PAUSE_TICK_MS);
+
+    return () => clearInterval(interval);
+  }, [isActive, isAutoPaused, mode]);
+};
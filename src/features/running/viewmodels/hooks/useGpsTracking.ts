@@ -165,7 +165,15 @@ export const useGpsTracking = ({
   }, []);
 
   const resumeGpsTracking = useCallback(() => {
-    coordinatorRef.current?.resumeSession();
+    const coordinator = coordinatorRef.current;
+    if (!coordinator) return;
+
+    // 일시정지 중 들어온 위치(동작 감지 일시정지 중 drift)는 재개 후 세그먼트에 반영하지 않음
+    const pausedSnapshot = coordinator.getSnapshot();
+    previousDistanceRef.current = pausedSnapshot.distance;
+    lastProcessedLocationCountRef.current = pausedSnapshot.locations.length;
+
+    coordinator.resumeSession();
     console.log('[useGpsTracking] Tracking session resumed');
   }, []);
 
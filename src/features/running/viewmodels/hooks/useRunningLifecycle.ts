@@ -6,23 +6,41 @@
  *
  * 책임:
  * - 러닝 시작/일시정지/재개/종료
+ * - 일시정지 구간 기록 (러닝 시간/세그먼트 페이스에서 제외)
  * - 타이머 관리
  * - Pedometer 시작/중지
  * - API 호출 (React Query mutations)
  * - 오프라인 저장 지원
  */
 
+import { isAxiosError } from 'axios';
 import { useCallback, useEffect, useRef, useState } from 'react';
 import type { RunningRecord, EndRunningRecord } from '../../models';
-import { updateRunningRecord } from '../../models';
+import {
+  createProvisionalRunningRecord,
+  isProvisionalRunningRecordId,
+  updateRunningRecord,
+} from '../../models';
 import { useStartRunning, useEndRunning, useUpdateRunningRecord } from '../../services';
 import { runningService } from '../../services/runningService';
+import { heartRateSensorService } from '../../services/sensors/HeartRateSensorService';
 import { pedometerService, type PedometerData } from '../../services/sensors/PedometerService';
 import { offlineStorageService } from '../../services/OfflineStorageService';
+import { offlineSyncService } from '../../services/OfflineSyncService';
 import { backgroundTaskService } from '../../services/BackgroundTaskService';
 import { useAppStore, RunningState } from '~/stores/app/appStore';
 import { permissionManager } from '~/services/PermissionManager';
-import type { UseRunningLifecycleProps, UseRunningLifecycleReturn } from './types';
+import type {
+  PausedInterval,
+  RunningPauseReason,
+  UseRunningLifecycleProps,
+  UseRunningLifecycleReturn,
+} from './types';
+
+/**
+ * 서버 응답 없이 실패한 요청 (오프라인, 타임아웃)
+ */
+const isNetworkFailure = (error: unknown): boolean => isAxiosError(error) && !error.response;
 
 export const useRunningLifecycle = ({
   statsRef: _statsRef,
@@ -37,6 +55,8 @@ export const useRunningLifecycle = ({
   setStats,
   initializeSegmentTracking,
   finalizeCurrentSegment,
+  excludeSegmentPausedTime,
+  recordSegmentHeartRate,
   resetSegments,
   distance,
   elapsedTime,
@@ -51,7 +71,11 @@ export const useRunningLifecycle = ({
   const [currentRecord, setCurrentRecord] = useState<RunningRecord | null>(null);
   const [startTime, setStartTime] = useState<number | null>(null);
   const [pausedDuration, setPausedDuration] = useState<number>(0);
+  const [pauseStartTime, setPauseStartTime] = useState<number | null>(null);
+  const [pauseReason, setPauseReason] = useState<RunningPauseReason | null>(null);
+  const [pausedIntervals, setPausedIntervals] = useState<PausedInterval[]>([]);
   const pauseStartTimeRef = useRef<number | null>(null);
+  const pauseReasonRef = useRef<RunningPauseReason | null>(null);
 
   // Sensor state
   const [sensorHeartRate, setSensorHeartRate] = useState<number | undefined>(undefined);
@@ -63,6 +87,18 @@ export const useRunningLifecycle = ({
   const { mutateAsync: endRunningMutation, isPending: isEnding } = useEndRunning();
   const { mutateAsync: updateRecordMutation } = useUpdateRunningRecord();
 
+  /**
+   * 일시정지 상태/구간 초기화
+   */
+  const resetPauseState = useCallback(() => {
+    setPausedDuration(0);
+    setPauseStartTime(null);
+    setPauseReason(null);
+    setPausedIntervals([]);
+    pauseStartTimeRef.current = null;
+    pauseReasonRef.current = null;
+  }, []);
+
   /**
    * 러닝 시작
    */
@@ -75,18 +111,36 @@ export const useRunningLifecycle = ({
         );
       }
 
-      const record = await startRunningMutation();
+      // 네트워크 문제로 서버 기록 생성에 실패하면 임시 ID로 추적을 시작하고
+      // 종료 시 오프라인 대기열에 저장해 네트워크 복구 후 서버 기록으로 재매핑한다.
+      // 서버가 응답한 오류(인증 만료, 5xx 등)는 그대로 시작 실패로 처리
+      const record = await startRunningMutation().catch((startError: unknown) => {
+        if (!isNetworkFailure(startError)) {
+          throw startError;
+        }
+        console.warn(
+          '[useRunningLifecycle] Start API unreachable, starting with provisional record:',
+          startError
+        );
+        return createProvisionalRunningRecord();
+      });
       setCurrentRecord(record);
       setStartTime(Date.now());
-      setPausedDuration(0);
-      pauseStartTimeRef.current = null;
+      resetPauseState();
       setRunningState(RunningState.Running);
 
       await startGpsTracking(record.id);
 
       setSensorHeartRate(undefined);
       setSensorCadence(undefined);
-      console.log('[useRunningLifecycle] Heart-rate monitoring skipped (not implemented)');
+
+      // 페어링한 심박계가 있으면 연결 (연결은 기다리지 않으며, 끊기면 러닝 중 재연결)
+      await heartRateSensorService.startHeartRateMonitoring((data) => {
+        setSensorHeartRate(data?.bpm);
+        if (data && pauseStartTimeRef.current === null) {
+          recordSegmentHeartRate(data.bpm);
+        }
+      });
 
       await pedometerService.startTracking((data) => {
         setPedometerData(data);
@@ -109,28 +163,36 @@ export const useRunningLifecycle = ({
 
       resetGpsTracking();
       pedometerService.stopTracking();
+      void heartRateSensorService.stopHeartRateMonitoring();
       setCurrentRecord(null);
       setStartTime(null);
-      setPausedDuration(0);
-      pauseStartTimeRef.current = null;
+      resetPauseState();
       setRunningState(RunningState.Stopped);
       throw error;
     }
   }, [
+    resetPauseState,
     startRunningMutation,
     startGpsTracking,
     resetGpsTracking,
     resetStats,
     initializeSegmentTracking,
+    recordSegmentHeartRate,
     paceSnapshotsRef,
     setRunningState,
   ]);
 
+  /**
+   * 일시정지 전환
+   * @param pausedAt 일시정지 시작 시각 (동작 감지 시 멈춰 선 시점으로 소급)
+   */
   const applyPauseTransition = useCallback(
-    (reason: 'manual' | 'auto') => {
+    (reason: RunningPauseReason, pausedAt: number = Date.now()) => {
       if (pauseStartTimeRef.current === null) {
-        const now = Date.now();
-        pauseStartTimeRef.current = now;
+        pauseStartTimeRef.current = pausedAt;
+        pauseReasonRef.current = reason;
+        setPauseStartTime(pausedAt);
+        setPauseReason(reason);
       }
 
       setRunningState(RunningState.Paused);
@@ -139,6 +201,34 @@ export const useRunningLifecycle = ({
     [setRunningState]
   );
 
+  /**
+   * 진행 중인 일시정지 구간을 닫고 누적 일시정지 시간/세그먼트 시간에 반영
+   */
+  const closePausedInterval = useCallback(
+    (endedAt: number) => {
+      const startedAt = pauseStartTimeRef.current;
+      if (startedAt === null) return;
+
+      const interval: PausedInterval = {
+        startedAt,
+        endedAt: Math.max(startedAt, endedAt),
+        reason: pauseReasonRef.current ?? 'manual',
+      };
+      const pauseDuration = Math.floor((interval.endedAt - interval.startedAt) / 1000);
+
+      setPausedDuration((prev) => prev + pauseDuration);
+      setPausedIntervals((prev) => [...prev, interval]);
+      excludeSegmentPausedTime(interval.startedAt, interval.endedAt);
+
+      pauseStartTimeRef.current = null;
+      pauseReasonRef.current = null;
+      setPauseStartTime(null);
+      setPauseReason(null);
+      console.log(`[useRunningLifecycle] Paused for ${pauseDuration}s (${interval.reason})`);
+    },
+    [excludeSegmentPausedTime]
+  );
+
   /**
    * 러닝 일시정지
    */
@@ -148,26 +238,49 @@ export const useRunningLifecycle = ({
   }, [applyPauseTransition, pauseGpsTracking]);
 
   const applyAutoPause = useCallback(() => {
-    applyPauseTransition('auto');
+    applyPauseTransition('tracking');
   }, [applyPauseTransition]);
 
+  /**
+   * 동작 감지 자동 일시정지
+   * 자동 재개를 감지해야 하므로 GPS 추적은 멈추지 않음
+   */
+  const applyMotionPause = useCallback(
+    (pausedAt: number) => {
+      if (useAppStore.getState().runningState !== RunningState.Running) return;
+      applyPauseTransition('motion', Math.min(pausedAt, Date.now()));
+    },
+    [applyPauseTransition]
+  );
+
   /**
    * 러닝 재개
    */
   const resumeRunning = useCallback(() => {
-    const pauseStartedAt = pauseStartTimeRef.current;
-    if (pauseStartedAt !== null) {
-      const now = Date.now();
-      const pauseDuration = Math.floor((now - pauseStartedAt) / 1000);
-      setPausedDuration((prev) => prev + pauseDuration);
-      pauseStartTimeRef.current = null;
-      console.log(`[useRunningLifecycle] Paused for ${pauseDuration}s before resume`);
+    if (pauseStartTimeRef.current !== null) {
+      closePausedInterval(Date.now());
     }
 
     resumeGpsTracking();
     setRunningState(RunningState.Running);
     console.log('[useRunningLifecycle] Running resumed');
-  }, [resumeGpsTracking, setRunningState]);
+  }, [closePausedInterval, resumeGpsTracking, setRunningState]);
+
+  /**
+   * 동작 감지 자동 재개
+   * 동작 감지로 일시정지된 경우에만 재개 (수동 일시정지는 유지)
+   */
+  const applyMotionResume = useCallback(
+    (resumedAt: number) => {
+      if (pauseReasonRef.current !== 'motion') return;
+
+      closePausedInterval(Math.min(resumedAt, Date.now()));
+      resumeGpsTracking();
+      setRunningState(RunningState.Running);
+      console.log('[useRunningLifecycle] Running resumed (motion)');
+    },
+    [closePausedInterval, resumeGpsTracking, setRunningState]
+  );
 
   /**
    * 러닝 종료
@@ -176,7 +289,10 @@ export const useRunningLifecycle = ({
     if (!currentRecord) return null;
 
     try {
-      // 0. 마지막 세그먼트 저장
+      // 0. 일시정지 중 종료하면 남은 일시정지 구간을 닫은 뒤 마지막 세그먼트 저장
+      if (pauseStartTimeRef.current !== null) {
+        closePausedInterval(Date.now());
+      }
       finalizeCurrentSegment();
 
       // 1. GPS 추적 중지
@@ -191,6 +307,9 @@ export const useRunningLifecycle = ({
         `[useRunningLifecycle] Pedometer stopped - Steps: ${finalSteps}, Cadence: ${finalCadence}, Measured: ${cadenceSnapshot.isMeasured}`
       );
 
+      // 3. 심박계 연결 해제
+      await heartRateSensorService.stopHeartRateMonitoring();
+
       console.log(`[useRunningLifecycle] Final stats:`, {
         distance: finalDistance,
         duration: elapsedTime,
@@ -200,7 +319,7 @@ export const useRunningLifecycle = ({
         calories: stats.calories ? Math.round(stats.calories) : undefined,
       });
 
-      // 3. 최종 기록 업데이트
+      // 4. 최종 기록 업데이트
       const finalRecord = updateRunningRecord(currentRecord, {
         distance: Math.round(finalDistance),
         steps: finalSteps > 0 ? finalSteps : null,
@@ -212,7 +331,7 @@ export const useRunningLifecycle = ({
 
       setCurrentRecord(finalRecord);
 
-      // 4. 10m 미만이면 API 호출 없이 완료 화면으로 전환
+      // 5. 10m 미만이면 API 호출 없이 완료 화면으로 전환
       if (finalDistance < 10) {
         console.log('[useRunningLifecycle] 거리 10m 미만, API 호출 스킵');
         setRunningState(RunningState.Finished);
@@ -220,13 +339,30 @@ export const useRunningLifecycle = ({
         return null;
       }
 
-      // 5. 백엔드 API: 러닝 종료
+      // 6. 임시 기록: 서버 기록이 없으므로 세그먼트와 종료 데이터를 함께 대기열에 저장
+      if (isProvisionalRunningRecordId(currentRecord.id)) {
+        const segmentsToStore = segmentItemsRef.current;
+        if (segmentsToStore.length > 0) {
+          await offlineStorageService.addPendingSegmentUpload(currentRecord.id, segmentsToStore);
+        }
+        // 종료 시점이 아닌 시작 시점의 timezone으로 서버 기록 생성
+        await offlineStorageService.addPendingUpload(currentRecord.id, finalRecord, {
+          ...(currentRecord.timezone !== undefined && { timezone: currentRecord.timezone }),
+        });
+        void offlineSyncService.refreshStatus();
+        setRunningState(RunningState.Finished);
+        await backgroundTaskService.clearBackgroundData();
+        console.log('[useRunningLifecycle] Provisional running saved offline for later sync');
+        return null;
+      }
+
+      // 7. 백엔드 API: 러닝 종료
       try {
         const endRecord = await endRunningMutation(finalRecord);
         setRunningState(RunningState.Finished);
         console.log('[useRunningLifecycle] Running completed, data sent to server');
 
-        // 5. 세그먼트 비동기 업로드
+        // 8. 세그먼트 비동기 업로드
         const segmentsToUpload = segmentItemsRef.current;
         if (segmentsToUpload.length > 0) {
           const itemsForServer = segmentsToUpload.map((segment) => ({
@@ -234,8 +370,8 @@ export const useRunningLifecycle = ({
             durationSec: segment.durationSec,
             cadence: segment.cadence ?? 0,
             heartRate: segment.heartRate ?? 0,
-            minHeartRate: segment.heartRate ?? 0,
-            maxHeartRate: segment.heartRate ?? 0,
+            minHeartRate: segment.minHeartRate ?? segment.heartRate ?? 0,
+            maxHeartRate: segment.maxHeartRate ?? segment.heartRate ?? 0,
             orderIndex: segment.orderIndex,
             startTimeStamp: segment.startTimestamp,
             endTimeStamp: segment.startTimestamp + segment.durationSec,
@@ -273,6 +409,7 @@ export const useRunningLifecycle = ({
                 console.log(
                   `[useRunningLifecycle] ${segmentsToUpload.length} segments saved offline`
                 );
+                void offlineSyncService.refreshStatus();
               } catch (offlineError) {
                 console.error(
                   '[useRunningLifecycle] Segment offline save failed:',
@@ -294,16 +431,23 @@ export const useRunningLifecycle = ({
           '[useRunningLifecycle] API failed, saving offline:',
           errorMessage
         );
+        // 종료 요청보다 세그먼트가 먼저 업로드되도록 함께 대기열에 저장
+        const segmentsToStore = segmentItemsRef.current;
+        if (segmentsToStore.length > 0) {
+          await offlineStorageService.addPendingSegmentUpload(currentRecord.id, segmentsToStore);
+        }
         await offlineStorageService.addPendingUpload(currentRecord.id, finalRecord);
+        void offlineSyncService.refreshStatus();
         setRunningState(RunningState.Finished);
         return null;
       }
     } catch (error) {
       console.error('[useRunningLifecycle] Failed to end running:', error);
 
-      // 에러 발생 시에도 GPS 추적 중지
+      // 에러 발생 시에도 GPS 추적 및 센서 중지
       resetGpsTracking();
       pedometerService.stopTracking();
+      void heartRateSensorService.stopHeartRateMonitoring();
 
       throw error;
     }
@@ -312,6 +456,7 @@ export const useRunningLifecycle = ({
     stats,
     elapsedTime,
     currentSegmentItems,
+    closePausedInterval,
     finalizeCurrentSegment,
     stopGpsTracking,
     resetGpsTracking,
@@ -324,7 +469,7 @@ export const useRunningLifecycle = ({
    * 러닝 기록 업데이트
    */
   const updateCurrentRecord = useCallback(async () => {
-    if (!currentRecord) return;
+    if (!currentRecord || isProvisionalRunningRecordId(currentRecord.id)) return;
 
     try {
       const updatedRecord = updateRunningRecord(currentRecord, {
@@ -349,8 +494,8 @@ export const useRunningLifecycle = ({
     setRunningState(RunningState.Stopped);
     setCurrentRecord(null);
     setStartTime(null);
-    setPausedDuration(0);
-    pauseStartTimeRef.current = null;
+    resetPauseState();
+    void heartRateSensorService.stopHeartRateMonitoring();
     setSensorHeartRate(undefined);
     setSensorCadence(undefined);
     setPedometerData(null);
@@ -360,7 +505,7 @@ export const useRunningLifecycle = ({
     paceSnapshotsRef.current = [];
 
     console.log('[useRunningLifecycle] Running reset');
-  }, [setRunningState, resetStats, resetSegments, paceSnapshotsRef]);
+  }, [setRunningState, resetPauseState, resetStats, resetSegments, paceSnapshotsRef]);
 
   /**
    * Pedometer 데이터로 케이던스 업데이트
@@ -383,6 +528,9 @@ export const useRunningLifecycle = ({
     currentRecord,
     startTime,
     pausedDuration,
+    pauseStartTime,
+    pauseReason,
+    pausedIntervals,
 
     // Sensor state (타이머 업데이트에서 사용)
     sensorHeartRate,
@@ -397,7 +545,9 @@ export const useRunningLifecycle = ({
     startRunning,
     pauseRunning,
     applyAutoPause,
+    applyMotionPause,
     resumeRunning,
+    applyMotionResume,
     endRunning,
     updateCurrentRecord,
     resetRunning,
@@ -8,6 +8,8 @@
  * - 세그먼트 생성 (10m마다)
  * - 최종 세그먼트 저장 (러닝 종료 시)
  * - 세그먼트 추적 초기화/리셋
+ * - 일시정지 구간을 세그먼트 시간에서 제외
+ * - 세그먼트별 심박수 평균/최저/최고 집계
  */
 
 import { useCallback, useEffect, useRef, useState } from 'react';
@@ -19,6 +21,24 @@ interface UseRunningSegmentsProps {
   statsRef: React.MutableRefObject<RunningStats>;
 }
 
+/**
+ * 세그먼트 심박수 집계
+ * 심박계 측정값이 없으면 현재 통계의 심박수(웨어러블/계산값)로 대체
+ */
+const summarizeHeartRate = (samples: number[], fallbackBpm: number | undefined) => {
+  if (samples.length === 0) {
+    const bpm = fallbackBpm ?? null;
+    return { heartRate: bpm, minHeartRate: bpm, maxHeartRate: bpm };
+  }
+
+  const sum = samples.reduce((acc, bpm) => acc + bpm, 0);
+  return {
+    heartRate: Math.round(sum / samples.length),
+    minHeartRate: Math.min(...samples),
+    maxHeartRate: Math.max(...samples),
+  };
+};
+
 export const useRunningSegments = ({
   statsRef,
 }: UseRunningSegmentsProps): UseRunningSegmentsReturn => {
@@ -32,6 +52,10 @@ export const useRunningSegments = ({
   // Refs for synchronous access in callbacks (closure stale value 방지)
   const segmentItemsRef = useRef<RunningRecordItem[]>(currentSegmentItems);
   const segmentStartTimeRef = useRef<number | null>(segmentStartTime);
+  // 현재 세그먼트 진행 중 일시정지된 시간 (ms), 세그먼트 페이스 계산에서 제외
+  const segmentPausedMsRef = useRef<number>(0);
+  // 현재 세그먼트 진행 중 수신한 심박수 측정값 (bpm)
+  const segmentHeartRatesRef = useRef<number[]>([]);
 
   // Sync refs with state
   useEffect(() => {
@@ -49,8 +73,11 @@ export const useRunningSegments = ({
   const createSegment = useCallback(
     (distance: number, locations: Location[], startTime: number) => {
       const now = Date.now();
-      const segmentDuration = (now - startTime) / 1000; // seconds
+      const segmentDuration = Math.max(0, now - startTime - segmentPausedMsRef.current) / 1000; // seconds
       const currentStats = statsRef.current;
+      const heartRateSummary = summarizeHeartRate(segmentHeartRatesRef.current, currentStats.bpm);
+      segmentPausedMsRef.current = 0;
+      segmentHeartRatesRef.current = [];
 
       // Race condition 방지: segmentIdCounter 읽기 + 증가를 원자적으로 처리
       setSegmentIdCounter((currentId) => {
@@ -65,7 +92,7 @@ export const useRunningSegments = ({
             id: segmentId,
             distance: distance,
             cadence: currentStats.cadence ?? null,
-            heartRate: currentStats.bpm ?? null,
+            ...heartRateSummary,
             calories: segmentCalories,
             orderIndex: segmentId - 1,
             durationSec: segmentDuration,
@@ -100,9 +127,13 @@ export const useRunningSegments = ({
 
     if (segmentDistance > 0 && currentSegmentStartTime !== null) {
       const now = Date.now();
-      const segmentDuration = (now - currentSegmentStartTime) / 1000;
+      const segmentDuration =
+        Math.max(0, now - currentSegmentStartTime - segmentPausedMsRef.current) / 1000;
       const currentStats = statsRef.current;
       const currentItems = segmentItemsRef.current;
+      const heartRateSummary = summarizeHeartRate(segmentHeartRatesRef.current, currentStats.bpm);
+      segmentPausedMsRef.current = 0;
+      segmentHeartRatesRef.current = [];
 
       const segmentId = currentItems.length + 1;
       const segmentCalories = Math.round(
@@ -113,7 +144,7 @@ export const useRunningSegments = ({
         id: segmentId,
         distance: segmentDistance,
         cadence: currentStats.cadence ?? null,
-        heartRate: currentStats.bpm ?? null,
+        ...heartRateSummary,
         calories: segmentCalories,
         orderIndex: segmentId - 1,
         durationSec: segmentDuration,
@@ -142,6 +173,8 @@ export const useRunningSegments = ({
     const now = Date.now();
     setSegmentStartTime(now);
     segmentStartTimeRef.current = now;
+    segmentPausedMsRef.current = 0;
+    segmentHeartRatesRef.current = [];
     setSegmentDistance(0);
     setSegmentLocations([]);
     setCurrentSegmentItems([]);
@@ -150,6 +183,27 @@ export const useRunningSegments = ({
     console.log('[useRunningSegments] Segment tracking initialized');
   }, []);
 
+  /**
+   * 일시정지 구간 제외
+   * 현재 세그먼트 시작 이후에 겹치는 일시정지 시간만 누적
+   */
+  const excludeSegmentPausedTime = useCallback((pauseStartedAt: number, pauseEndedAt: number) => {
+    const currentSegmentStartTime = segmentStartTimeRef.current;
+    if (currentSegmentStartTime === null) return;
+
+    const pausedMs = pauseEndedAt - Math.max(pauseStartedAt, currentSegmentStartTime);
+    if (pausedMs > 0) {
+      segmentPausedMsRef.current += pausedMs;
+    }
+  }, []);
+
+  /**
+   * 심박수 측정값 기록 (현재 세그먼트의 평균/최저/최고 계산용)
+   */
+  const recordSegmentHeartRate = useCallback((bpm: number) => {
+    segmentHeartRatesRef.current.push(bpm);
+  }, []);
+
   /**
    * 거리 업데이트 처리 및 세그먼트 생성 여부 판단
    * @returns true if a new segment was created
@@ -183,6 +237,8 @@ export const useRunningSegments = ({
     segmentItemsRef.current = [];
     setSegmentStartTime(null);
     segmentStartTimeRef.current = null;
+    segmentPausedMsRef.current = 0;
+    segmentHeartRatesRef.current = [];
     setSegmentDistance(0);
     setSegmentLocations([]);
     setSegmentIdCounter(1);
@@ -203,6 +259,8 @@ export const useRunningSegments = ({
     createSegment,
     finalizeCurrentSegment,
     initializeSegmentTracking,
+    excludeSegmentPausedTime,
+    recordSegmentHeartRate,
     processDistanceUpdate,
     resetSegments,
     setSegmentDistance,
@@ -13,6 +13,9 @@
  */
 
 import { useCallback, useEffect, useRef, useState } from 'react';
+import { resolvePhysiology } from '~/features/user/models/PhysiologyProfile';
+import { convertPace } from '~/shared/utils/unitFormatters';
+import { useUserStore } from '~/stores/user/userStore';
 import type {
   RunningStats,
   PaceData,
@@ -26,6 +29,7 @@ import {
   createInitialPaceFusionState,
   fuseInstantPace,
 } from '../../services/gps/PaceFusion';
+import { calculateRunningCalories } from '../../services/CalorieCalculator';
 
 const INSTANT_PACE_WINDOW_MS = 10000; // 10초 윈도우
 
@@ -33,6 +37,8 @@ export const useRunningStats = (): UseRunningStatsReturn => {
   // State
   const [stats, setStats] = useState<RunningStats>(DEFAULT_RUNNING_STATS);
   const [elapsedTime, setElapsedTime] = useState<number>(0);
+  const physiologyProfile = useUserStore((state) => state.physiologyProfile);
+  const distanceUnit = useUserStore((state) => state.userPreferences.distanceUnit);
 
   // Refs
   const statsRef = useRef<RunningStats>(stats);
@@ -87,47 +93,19 @@ export const useRunningStats = (): UseRunningStatsReturn => {
 
   /**
    * 칼로리 계산
-   * 정책: 심박수 있으면 Keytel 공식, 없으면 MET 공식
+   * 정책: 심박수 있으면 Keytel 공식, 없으면 MET 공식 (사용자 신체 정보 반영)
    */
   const calculateCalories = useCallback(
     (
       distanceMeters: number,
       elapsedSeconds: number,
       heartRate?: number
-    ): number | undefined => {
-      if (distanceMeters <= 0) return undefined;
-
-      if (heartRate) {
-        // Keytel 공식 (운동 칼로리 계산 - 심박수 기반)
-        const weight = 70.0; // TODO: 사용자 실제 체중 사용
-        const age = 30; // TODO: 사용자 실제 나이 사용
-        const gender = 'male' as const; // TODO: 사용자 성별 사용
-        const minutes = elapsedSeconds / 60.0;
-
-        let calories: number;
-        if (gender === 'male') {
-          // 남성: ((-55.0969 + (0.6309 × HR) + (0.1988 × W) + (0.2017 × A)) / 4.184) × 60 × T
-          calories =
-            ((-55.0969 + 0.6309 * heartRate + 0.1988 * weight + 0.2017 * age) / 4.184) *
-            minutes;
-        } else {
-          // 여성: ((-20.4022 + (0.4472 × HR) - (0.1263 × W) + (0.074 × A)) / 4.184) × 60 × T
-          calories =
-            ((-20.4022 + 0.4472 * heartRate - 0.1263 * weight + 0.074 * age) / 4.184) *
-            minutes;
-        }
-
-        // 음수 방지
-        return Math.max(0, calories);
-      }
-
-      // MET 공식 (Fallback - 심박수 없을 때)
-      const weight = 70.0;
-      const hours = elapsedSeconds / 3600.0;
-      const met = 9.8; // 러닝 MET 값
-      return met * weight * hours;
-    },
-    []
+    ): number | undefined =>
+      calculateRunningCalories(
+        { distanceMeters, elapsedSeconds, ...(heartRate !== undefined && { heartRate }) },
+        resolvePhysiology(physiologyProfile)
+      ),
+    [physiologyProfile]
   );
 
   /**
@@ -210,10 +188,14 @@ export const useRunningStats = (): UseRunningStatsReturn => {
 
   /**
    * 페이스 포맷팅 (MM:SS)
+   * 입력은 분/km 페이스, 표시는 사용자 거리 단위 기준
    */
   const formatPace = useCallback((minutes: number, seconds: number): string => {
-    return `${String(minutes).padStart(2, '0')}:${String(seconds).padStart(2, '0')}`;
-  }, []);
+    const totalSeconds = Math.round(convertPace(minutes + seconds / 60, distanceUnit) * 60);
+    const unitMinutes = Math.floor(totalSeconds / 60);
+    const unitSeconds = totalSeconds % 60;
+    return `${String(unitMinutes).padStart(2, '0')}:${String(unitSeconds).padStart(2, '0')}`;
+  }, [distanceUnit]);
 
   return {
     // State
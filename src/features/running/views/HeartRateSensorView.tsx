@@ -0,0 +1,294 @@
+import { Ionicons } from '@expo/vector-icons';
+import { router } from 'expo-router';
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { ActivityIndicator, Alert, ScrollView, StyleSheet, TouchableOpacity, View } from 'react-native';
+import { TopScreenSafeAreaView } from '~/shared/components';
+import { Text } from '~/shared/components/typography';
+import { GREY, PRIMARY, RED } from '~/shared/styles';
+import {
+  heartRateSensorService,
+  type HeartRatePeripheral,
+} from '../services/sensors/HeartRateSensorService';
+import {
+  useHeartRateSensorStore,
+  type HeartRateConnectionStatus,
+} from '../stores/heartRateSensorStore';
+
+const SCAN_DURATION_MS = 15000;
+
+const CONNECTION_STATUS_LABELS: Record<HeartRateConnectionStatus, string> = {
+  idle: '러닝을 시작하면 자동으로 연결됩니다.',
+  connecting: '연결 중...',
+  connected: '연결됨',
+  reconnecting: '연결이 끊겨 다시 연결하는 중...',
+};
+
+/**
+ * 심박계 연결 화면
+ * 주변 심박계 검색/페어링, 페어링한 기기 관리
+ */
+export const HeartRateSensorView: React.FC = () => {
+  const devices = useHeartRateSensorStore((state) => state.devices);
+  const connectionStatus = useHeartRateSensorStore((state) => state.connectionStatus);
+
+  const [isScanning, setIsScanning] = useState(false);
+  const [foundDevices, setFoundDevices] = useState<HeartRatePeripheral[]>([]);
+  const [pairingId, setPairingId] = useState<string | null>(null);
+  const stopScanRef = useRef<(() => void) | null>(null);
+  const scanTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  const stopScan = useCallback(() => {
+    if (scanTimerRef.current) {
+      clearTimeout(scanTimerRef.current);
+      scanTimerRef.current = null;
+    }
+    stopScanRef.current?.();
+    stopScanRef.current = null;
+    setIsScanning(false);
+  }, []);
+
+  // 화면을 벗어나면 검색 중지
+  useEffect(() => stopScan, [stopScan]);
+
+  const handleScan = async () => {
+    const permission = await heartRateSensorService.requestPermissions();
+    if (permission.status !== 'granted' || !(await heartRateSensorService.isAvailable())) {
+      Alert.alert('블루투스를 사용할 수 없습니다', '블루투스를 켜고 권한을 허용해주세요.');
+      return;
+    }
+
+    stopScan();
+    setFoundDevices([]);
+    setIsScanning(true);
+    stopScanRef.current = heartRateSensorService.scanForDevices((peripheral) => {
+      setFoundDevices((prev) => [...prev, peripheral]);
+    });
+    scanTimerRef.current = setTimeout(stopScan, SCAN_DURATION_MS);
+  };
+
+  const handlePair = async (peripheral: HeartRatePeripheral) => {
+    if (pairingId) return;
+
+    stopScan();
+    setPairingId(peripheral.id);
+    try {
+      await heartRateSensorService.pairDevice(peripheral);
+      setFoundDevices((prev) => prev.filter((device) => device.id !== peripheral.id));
+    } catch (error) {
+      console.error('[HeartRateSensorView] 페어링 실패:', error);
+      Alert.alert('연결 실패', '심박계를 착용한 상태로 가까이에서 다시 시도해주세요.');
+    } finally {
+      setPairingId(null);
+    }
+  };
+
+  const handleForget = (deviceId: string) => {
+    void heartRateSensorService.forgetDevice(deviceId);
+  };
+
+  const pairedIds = new Set(devices.map((device) => device.id));
+  const unpairedDevices = foundDevices.filter((device) => !pairedIds.has(device.id));
+
+  return (
+    <TopScreenSafeAreaView style={styles.container}>
+      {/* 헤더 */}
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => router.back()} style={styles.backButton}>
+          <Ionicons name="chevron-back" size={24} color={GREY[900]} />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>심박계 연결</Text>
+        <View style={styles.headerRight} />
+      </View>
+
+      <ScrollView contentContainerStyle={styles.content}>
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>내 심박계</Text>
+          {devices.length === 0 ? (
+            <Text style={styles.helperText}>페어링한 심박계가 없습니다.</Text>
+          ) : (
+            devices.map((device, index) => (
+              <View key={device.id} style={styles.deviceRow} testID={`heart-rate-device-${device.id}`}>
+                <View style={styles.deviceInfo}>
+                  <Text style={styles.deviceName}>{device.name}</Text>
+                  {index === 0 ? (
+                    <Text style={styles.helperText} testID="heart-rate-connection-status">
+                      {CONNECTION_STATUS_LABELS[connectionStatus]}
+                    </Text>
+                  ) : null}
+                </View>
+                <TouchableOpacity
+                  testID={`heart-rate-forget-${device.id}`}
+                  onPress={() => handleForget(device.id)}
+                  activeOpacity={0.7}
+                >
+                  <Text style={styles.forgetText}>삭제</Text>
+                </TouchableOpacity>
+              </View>
+            ))
+          )}
+          {devices.length > 1 ? (
+            <Text style={styles.helperText}>러닝을 시작하면 가장 최근에 사용한 심박계에 연결합니다.</Text>
+          ) : null}
+        </View>
+
+        <View style={styles.section}>
+          <View style={styles.sectionHeader}>
+            <Text style={styles.sectionTitle}>주변 심박계</Text>
+            {isScanning ? <ActivityIndicator size="small" color={GREY[300]} /> : null}
+          </View>
+          {unpairedDevices.map((device) => (
+            <TouchableOpacity
+              key={device.id}
+              testID={`heart-rate-found-${device.id}`}
+              style={styles.deviceRow}
+              onPress={() => void handlePair(device)}
+              disabled={pairingId !== null}
+              activeOpacity={0.7}
+            >
+              <Text style={styles.deviceName}>{device.name}</Text>
+              {pairingId === device.id ? (
+                <ActivityIndicator size="small" color={PRIMARY[600]} />
+              ) : (
+                <Text style={styles.pairText}>연결</Text>
+              )}
+            </TouchableOpacity>
+          ))}
+          {!isScanning && unpairedDevices.length === 0 ? (
+            <Text style={styles.helperText}>
+              심박계를 착용하고 검색을 눌러주세요. 다른 앱에 연결되어 있으면 검색되지 않을 수 있습니다.
+            </Text>
+          ) : null}
+        </View>
+
+        <TouchableOpacity
+          testID="heart-rate-scan-button"
+          style={styles.scanButton}
+          onPress={() => void handleScan()}
+          disabled={isScanning}
+          activeOpacity={0.7}
+        >
+          <Ionicons name="bluetooth" size={20} color={GREY.WHITE} />
+          <Text style={styles.scanButtonText}>{isScanning ? '검색 중...' : '심박계 검색'}</Text>
+        </TouchableOpacity>
+      </ScrollView>
+    </TopScreenSafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: GREY[50],
+  },
+
+  // ===== 헤더 =====
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingVertical: 16,
+    height: 56,
+    backgroundColor: GREY[50],
+  },
+  backButton: {
+    width: 24,
+    height: 24,
+    justifyContent: 'center',
+    alignItems: 'flex-start',
+  },
+  headerTitle: {
+    fontSize: 16,
+    fontWeight: '500',
+    color: GREY[900],
+    fontFamily: 'Pretendard',
+    lineHeight: 24,
+  },
+  headerRight: {
+    width: 24,
+    height: 24,
+  },
+
+  // ===== 메인 컨텐츠 =====
+  content: {
+    paddingHorizontal: 20,
+    paddingTop: 12,
+    paddingBottom: 40,
+  },
+
+  // ===== 섹션 =====
+  section: {
+    marginBottom: 12,
+    padding: 14,
+    borderRadius: 8,
+    backgroundColor: GREY.WHITE,
+    gap: 10,
+  },
+  sectionHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  sectionTitle: {
+    fontSize: 14,
+    fontWeight: '700',
+    color: GREY[900],
+    fontFamily: 'Pretendard',
+    lineHeight: 20,
+  },
+  helperText: {
+    fontSize: 12,
+    fontWeight: '400',
+    color: GREY[500],
+    fontFamily: 'Pretendard',
+    lineHeight: 16,
+  },
+
+  // ===== 기기 목록 =====
+  deviceRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    minHeight: 40,
+  },
+  deviceInfo: {
+    flex: 1,
+    gap: 2,
+  },
+  deviceName: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: GREY[900],
+    fontFamily: 'Pretendard',
+    lineHeight: 20,
+  },
+  pairText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: PRIMARY[600],
+  },
+  forgetText: {
+    fontSize: 13,
+    fontWeight: '500',
+    color: RED[400],
+  },
+
+  // ===== 검색 버튼 =====
+  scanButton: {
+    height: 56,
+    flexDirection: 'row',
+    gap: 6,
+    backgroundColor: PRIMARY[600],
+    borderRadius: 8,
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginTop: 12,
+  },
+  scanButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: GREY.WHITE,
+    fontFamily: 'Pretendard',
+    lineHeight: 24,
+  },
+});
@@ -0,0 +1,335 @@
+import { Ionicons } from '@expo/vector-icons';
+import { router } from 'expo-router';
+import React, { useMemo, useState } from 'react';
+import { Alert, ScrollView, StyleSheet, TextInput, TouchableOpacity, View } from 'react-native';
+import { TopScreenSafeAreaView } from '~/shared/components';
+import { Text } from '~/shared/components/typography';
+import { GREY, PRIMARY, RED } from '~/shared/styles';
+import { useUserStore } from '~/stores/user/userStore';
+import { resolvePhysiology } from '~/features/user/models/PhysiologyProfile';
+import {
+  DEFAULT_HEART_RATE_ZONE_SETTINGS,
+  HEART_RATE_ZONE_COLORS,
+  HEART_RATE_ZONE_LABELS,
+  HEART_RATE_ZONE_NUMBERS,
+  calculateHeartRateZones,
+  validateHeartRateZoneBounds,
+  type HeartRateZoneMethodSetting,
+  type HeartRateZoneSettings,
+} from '../models/HeartRateZone';
+import { useHeartRateZoneStore } from '../stores/heartRateZoneStore';
+
+const METHOD_OPTIONS: { value: HeartRateZoneMethodSetting; label: string }[] = [
+  { value: 'auto', label: '자동' },
+  { value: 'maxHeartRate', label: '최대 심박수' },
+  { value: 'heartRateReserve', label: '여유 심박수' },
+];
+
+const toBoundTexts = (settings: HeartRateZoneSettings) =>
+  settings.lowerBounds.map((bound) => String(bound));
+
+/**
+ * 심박 구간 설정 화면
+ * 구간 계산 방식과 구간별 하한 비율(%) 설정, 현재 신체 정보 기준 bpm 미리보기
+ */
+export const HeartRateZoneSettingsView: React.FC = () => {
+  const settings = useHeartRateZoneStore((state) => state.settings);
+  const updateSettings = useHeartRateZoneStore((state) => state.updateSettings);
+  const physiologyProfile = useUserStore((state) => state.physiologyProfile);
+
+  const [method, setMethod] = useState<HeartRateZoneMethodSetting>(settings.method);
+  const [boundTexts, setBoundTexts] = useState<string[]>(toBoundTexts(settings));
+
+  const physiology = useMemo(() => resolvePhysiology(physiologyProfile), [physiologyProfile]);
+  const lowerBounds = useMemo(
+    () => boundTexts.map((text) => (text.trim() ? Number(text) : NaN)),
+    [boundTexts]
+  );
+  const validationError = validateHeartRateZoneBounds(lowerBounds);
+
+  // 입력 중인 설정 기준 미리보기 (입력이 올바를 때만)
+  const previewZones = useMemo(() => {
+    if (validationError !== null) return null;
+    return calculateHeartRateZones(physiology, { method, lowerBounds });
+  }, [lowerBounds, method, physiology, validationError]);
+
+  const hasChanges =
+    method !== settings.method || boundTexts.join(',') !== toBoundTexts(settings).join(',');
+
+  const handleChangeBound = (index: number, text: string) => {
+    setBoundTexts((prev) => prev.map((value, i) => (i === index ? text : value)));
+  };
+
+  const handleResetDefaults = () => {
+    setMethod(DEFAULT_HEART_RATE_ZONE_SETTINGS.method);
+    setBoundTexts(toBoundTexts(DEFAULT_HEART_RATE_ZONE_SETTINGS));
+  };
+
+  const handleSave = () => {
+    if (validationError !== null) {
+      Alert.alert('입력 확인', validationError);
+      return;
+    }
+
+    updateSettings({ method, lowerBounds });
+    router.back();
+  };
+
+  return (
+    <TopScreenSafeAreaView style={styles.container}>
+      {/* 헤더 */}
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => router.back()} style={styles.backButton}>
+          <Ionicons name="chevron-back" size={24} color={GREY[900]} />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>심박 구간</Text>
+        <View style={styles.headerRight} />
+      </View>
+
+      <ScrollView contentContainerStyle={styles.content} keyboardShouldPersistTaps="handled">
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>계산 방식</Text>
+          <View style={styles.chipRow}>
+            {METHOD_OPTIONS.map((option) => {
+              const isSelected = option.value === method;
+              return (
+                <TouchableOpacity
+                  key={option.value}
+                  testID={`heart-rate-zone-method-${option.value}`}
+                  style={[styles.chip, isSelected && styles.chipSelected]}
+                  onPress={() => setMethod(option.value)}
+                  activeOpacity={0.7}
+                >
+                  <Text style={[styles.chipText, isSelected && styles.chipTextSelected]}>
+                    {option.label}
+                  </Text>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+          <Text style={styles.helperText}>
+            최대 심박수 {physiology.maxHeartRate}bpm
+            {physiology.isMaxHeartRateEstimated ? ' (나이로 추정)' : ''}
+            {physiology.restingHeartRate !== null
+              ? ` · 안정 시 심박수 ${physiology.restingHeartRate}bpm`
+              : ''}
+          </Text>
+          {method !== 'maxHeartRate' && physiology.restingHeartRate === null ? (
+            <Text style={styles.helperText} testID="heart-rate-zone-reserve-fallback">
+              안정 시 심박수를 입력하지 않아 최대 심박수 기준으로 계산합니다. 프로필 편집에서
+              입력할 수 있습니다.
+            </Text>
+          ) : null}
+        </View>
+
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>구간 기준</Text>
+          {HEART_RATE_ZONE_NUMBERS.map((zone, index) => (
+            <View key={zone} style={styles.zoneRow}>
+              <View style={[styles.zoneDot, { backgroundColor: HEART_RATE_ZONE_COLORS[zone] }]} />
+              <Text style={styles.zoneLabel}>
+                Z{zone} {HEART_RATE_ZONE_LABELS[zone]}
+              </Text>
+              <TextInput
+                testID={`heart-rate-zone-bound-${zone}`}
+                style={styles.boundInput}
+                value={boundTexts[index]}
+                onChangeText={(text) => handleChangeBound(index, text)}
+                keyboardType="number-pad"
+                maxLength={2}
+              />
+              <Text style={styles.percentText}>% 이상</Text>
+              <Text style={styles.zoneRange}>
+                {previewZones
+                  ? `${previewZones[index]!.minBpm}–${previewZones[index]!.maxBpm} bpm`
+                  : '-'}
+              </Text>
+            </View>
+          ))}
+          {validationError !== null ? (
+            <Text style={styles.errorText} testID="heart-rate-zone-error">
+              {validationError}
+            </Text>
+          ) : null}
+          <TouchableOpacity onPress={handleResetDefaults} activeOpacity={0.7}>
+            <Text style={styles.resetText}>기본값으로 되돌리기</Text>
+          </TouchableOpacity>
+        </View>
+
+        <TouchableOpacity
+          testID="heart-rate-zone-save-button"
+          style={[styles.saveButton, !hasChanges && styles.saveButtonDisabled]}
+          onPress={handleSave}
+          disabled={!hasChanges}
+          activeOpacity={0.7}
+        >
+          <Text style={styles.saveButtonText}>저장</Text>
+        </TouchableOpacity>
+      </ScrollView>
+    </TopScreenSafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: GREY[50],
+  },
+
+  // ===== 헤더 =====
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingVertical: 16,
+    height: 56,
+    backgroundColor: GREY[50],
+  },
+  backButton: {
+    width: 24,
+    height: 24,
+    justifyContent: 'center',
+    alignItems: 'flex-start',
+  },
+  headerTitle: {
+    fontSize: 16,
+    fontWeight: '500',
+    color: GREY[900],
+    fontFamily: 'Pretendard',
+    lineHeight: 24,
+  },
+  headerRight: {
+    width: 24,
+    height: 24,
+  },
+
+  // ===== 메인 컨텐츠 =====
+  content: {
+    paddingHorizontal: 20,
+    paddingTop: 12,
+    paddingBottom: 40,
+  },
+
+  // ===== 섹션 =====
+  section: {
+    marginBottom: 12,
+    padding: 14,
+    borderRadius: 8,
+    backgroundColor: GREY.WHITE,
+    gap: 10,
+  },
+  sectionTitle: {
+    fontSize: 14,
+    fontWeight: '700',
+    color: GREY[900],
+    fontFamily: 'Pretendard',
+    lineHeight: 20,
+  },
+  helperText: {
+    fontSize: 12,
+    fontWeight: '400',
+    color: GREY[500],
+    fontFamily: 'Pretendard',
+    lineHeight: 16,
+  },
+  errorText: {
+    fontSize: 12,
+    fontWeight: '500',
+    color: RED[400],
+    lineHeight: 16,
+  },
+
+  // ===== 계산 방식 =====
+  chipRow: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: GREY[200],
+    backgroundColor: GREY.WHITE,
+  },
+  chipSelected: {
+    borderColor: PRIMARY[600],
+    backgroundColor: PRIMARY[50],
+  },
+  chipText: {
+    fontSize: 13,
+    fontWeight: '500',
+    color: GREY[700],
+  },
+  chipTextSelected: {
+    color: PRIMARY[900],
+    fontWeight: '600',
+  },
+
+  // ===== 구간 기준 =====
+  zoneRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    minHeight: 40,
+  },
+  zoneDot: {
+    width: 8,
+    height: 8,
+    borderRadius: 4,
+  },
+  zoneLabel: {
+    width: 64,
+    fontSize: 13,
+    fontWeight: '500',
+    color: GREY[900],
+  },
+  boundInput: {
+    width: 44,
+    height: 36,
+    borderRadius: 6,
+    borderWidth: 1,
+    borderColor: GREY[200],
+    textAlign: 'center',
+    fontSize: 14,
+    color: GREY[900],
+  },
+  percentText: {
+    fontSize: 12,
+    color: GREY[500],
+  },
+  zoneRange: {
+    flex: 1,
+    textAlign: 'right',
+    fontSize: 13,
+    fontWeight: '500',
+    color: GREY[700],
+  },
+  resetText: {
+    fontSize: 13,
+    fontWeight: '500',
+    color: GREY[500],
+    textDecorationLine: 'underline',
+  },
+
+  // ===== 저장 버튼 =====
+  saveButton: {
+    height: 56,
+    backgroundColor: PRIMARY[600],
+    borderRadius: 8,
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginTop: 12,
+  },
+  saveButtonDisabled: {
+    backgroundColor: GREY[200],
+  },
+  saveButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: GREY.WHITE,
+    fontFamily: 'Pretendard',
+    lineHeight: 24,
+  },
+});
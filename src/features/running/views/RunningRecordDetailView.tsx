@@ -3,6 +3,7 @@ import { router, useLocalSearchParams } from 'expo-router';
 import React, { useCallback, useEffect, useMemo, useState } from 'react';
 import {
   ActivityIndicator,
+  Alert,
   Modal,
   Platform,
   ScrollView,
@@ -22,24 +23,42 @@ import { Text } from '~/shared/components/typography';
 import { Icon } from '~/shared/components/ui';
 import { GREY, PRIMARY } from '~/shared/styles';
 import { formatRecordDate } from '~/shared/utils/dateUtils';
-import { formatPaceForUI } from '~/shared/utils/formatters';
+import { useDistanceUnit } from '~/shared/hooks';
 import { useShareStore } from '~/features/share/stores/shareStore';
 import { useShareEntryTransitionStore } from '~/features/share/stores/shareEntryTransitionStore';
 import type { Shoe } from '~/features/shoes/models';
 import { useShoeViewModel } from '~/features/shoes/viewmodels';
+import { useWorkoutStore } from '~/features/workout/stores/workoutStore';
+import { WorkoutIntervalTable } from '~/features/workout/views/components/workout-interval-table';
 import {
   getRouteCoordinates,
   getRouteRegion,
   runningRecordItemsToLocations,
 } from '~/features/share/utils/routeLocations';
 import type { Location, RunningRecord } from '../models';
-import { calculateAveragePace } from '../models';
+import {
+  buildHeartRateHistogram,
+  calculateAveragePace,
+  calculateHeartRateChartPoints,
+  calculatePaceChartPoints,
+  calculateRunningSplits,
+  calculateTimeInZones,
+  findSplitExtremes,
+} from '../models';
+import { useHeartRateZones } from '../hooks/useHeartRateZones';
 import {
   useGetRunningRecord,
   useGetRunningRecordItems,
   useUpdateRunningRecordShoe,
 } from '../services/runningQueries';
+import {
+  exportAndShareRunningRecord,
+  type RunningExportFormat,
+} from '../services/export/runningExportService';
 import { ShoeSnapCarousel } from './shoe-selection-area';
+import { HeartRateZoneChart } from './components/heart-rate-zone-chart';
+import { SplitPaceChart } from './components/split-pace-chart';
+import { SplitTable } from './components/split-table';
 
 const HEADER_BAR_HEIGHT = 52;
 const MAP_HERO_HEIGHT = 350;
@@ -83,6 +102,9 @@ export const RunningRecordDetailView: React.FC = () => {
 
   const recordQuery = useGetRunningRecord(recordId, { enabled: isValidRecordId });
   const itemsQuery = useGetRunningRecordItems(recordId, { enabled: isValidRecordId });
+  const workoutRecord = useWorkoutStore((state) => state.runRecords[recordId] ?? null);
+  const { zones: heartRateZones } = useHeartRateZones();
+  const { metersPerUnit, formatPace } = useDistanceUnit();
   const {
     shoes,
     isLoadingShoes,
@@ -107,6 +129,37 @@ export const RunningRecordDetailView: React.FC = () => {
     return runningRecordItemsToLocations(itemsQuery.data);
   }, [itemsQuery.data, itemsQuery.isSuccess]);
 
+  const splitAnalysis = useMemo(() => {
+    if (!itemsQuery.isSuccess) {
+      return null;
+    }
+
+    // 스플릿은 사용자 거리 단위(1km / 1mi) 기준으로 나눈다
+    const splits = calculateRunningSplits(itemsQuery.data, metersPerUnit);
+    return {
+      splits,
+      extremes: findSplitExtremes(splits),
+      pacePoints: calculatePaceChartPoints(itemsQuery.data),
+    };
+  }, [itemsQuery.data, itemsQuery.isSuccess, metersPerUnit]);
+
+  // 심박수가 측정된 기록만 구간 분석
+  const heartRateAnalysis = useMemo(() => {
+    if (!itemsQuery.isSuccess) {
+      return null;
+    }
+
+    const timeInZones = calculateTimeInZones(
+      buildHeartRateHistogram(itemsQuery.data),
+      heartRateZones
+    );
+    if (timeInZones.measuredSec <= 0) {
+      return null;
+    }
+
+    return { timeInZones, points: calculateHeartRateChartPoints(itemsQuery.data) };
+  }, [itemsQuery.data, itemsQuery.isSuccess, heartRateZones]);
+
   const showFailure = !isValidRecordId || recordQuery.isError;
   const record = recordQuery.data;
   const showMap = itemsQuery.isSuccess && routeLocations.length >= 2 && !mapRenderFailed;
@@ -165,7 +218,7 @@ export const RunningRecordDetailView: React.FC = () => {
     setShareData({
       distance: record.distance,
       durationSec: record.durationSec,
-      pace: formatPaceForUI(calculateAveragePace(record)),
+      pace: formatPace(calculateAveragePace(record)),
       startTimestamp: new Date(record.startTimestamp * 1000).toISOString(),
       earnedPoints: Math.floor(record.distance / 100),
       locations: routeLocations,
@@ -173,7 +226,26 @@ export const RunningRecordDetailView: React.FC = () => {
 
     beginEntryTransition();
     router.push('/share/editor' as any);
-  }, [record, routeLocations]);
+  }, [formatPace, record, routeLocations]);
+
+  const handleExport = useCallback(() => {
+    if (!record) {
+      return;
+    }
+
+    const exportAs = async (format: RunningExportFormat) => {
+      const result = await exportAndShareRunningRecord(record, itemsQuery.data ?? [], format);
+      if (!result.success && result.message && result.message !== '공유가 취소되었습니다.') {
+        Alert.alert('내보내기 실패', result.message);
+      }
+    };
+
+    Alert.alert('기록 내보내기', '다른 앱에서 사용할 파일 형식을 선택해주세요.', [
+      { text: 'GPX', onPress: () => void exportAs('gpx') },
+      { text: 'TCX', onPress: () => void exportAs('tcx') },
+      { text: '취소', style: 'cancel' },
+    ]);
+  }, [itemsQuery.data, record]);
 
   if (recordQuery.isLoading && !record) {
     return (
@@ -215,6 +287,7 @@ export const RunningRecordDetailView: React.FC = () => {
           topInset={insets.top}
           onBack={() => router.back()}
           onShare={handleShare}
+          onExport={handleExport}
         />
         <ScrollView
           style={styles.scrollView}
@@ -228,6 +301,24 @@ export const RunningRecordDetailView: React.FC = () => {
             <Text style={styles.dateText}>{formatRecordDate(record.startTimestamp)}</Text>
             <RecordHero record={record} variant="route" />
             <StatsGrid record={record} variant="route" />
+            {splitAnalysis ? (
+              <>
+                <SplitTable splits={splitAnalysis.splits} extremes={splitAnalysis.extremes} />
+                <SplitPaceChart
+                  points={splitAnalysis.pacePoints}
+                  splits={splitAnalysis.splits}
+                  extremes={splitAnalysis.extremes}
+                />
+              </>
+            ) : null}
+            {heartRateAnalysis ? (
+              <HeartRateZoneChart
+                points={heartRateAnalysis.points}
+                zones={heartRateZones}
+                timeInZones={heartRateAnalysis.timeInZones}
+              />
+            ) : null}
+            {workoutRecord ? <WorkoutIntervalTable record={workoutRecord} /> : null}
             <ConnectedShoeCard
               record={record}
               variant="route"
@@ -260,6 +351,7 @@ export const RunningRecordDetailView: React.FC = () => {
         topInset={insets.top}
         onBack={() => router.back()}
         onShare={handleShare}
+        onExport={handleExport}
       />
       <ScrollView
         style={styles.scrollView}
@@ -269,6 +361,24 @@ export const RunningRecordDetailView: React.FC = () => {
         <Text style={styles.dateText}>{formatRecordDate(record.startTimestamp)}</Text>
         <RecordHero record={record} variant="noMap" />
         <StatsGrid record={record} variant="noMap" />
+        {splitAnalysis ? (
+          <>
+            <SplitTable splits={splitAnalysis.splits} extremes={splitAnalysis.extremes} />
+            <SplitPaceChart
+              points={splitAnalysis.pacePoints}
+              splits={splitAnalysis.splits}
+              extremes={splitAnalysis.extremes}
+            />
+          </>
+        ) : null}
+        {heartRateAnalysis ? (
+          <HeartRateZoneChart
+            points={heartRateAnalysis.points}
+            zones={heartRateZones}
+            timeInZones={heartRateAnalysis.timeInZones}
+          />
+        ) : null}
+        {workoutRecord ? <WorkoutIntervalTable record={workoutRecord} /> : null}
         <ConnectedShoeCard
           record={record}
           variant="noMap"
@@ -298,9 +408,10 @@ interface HeaderProps {
   topInset: number;
   onBack: () => void;
   onShare?: () => void;
+  onExport?: () => void;
 }
 
-const Header: React.FC<HeaderProps> = ({ title, topInset, onBack, onShare }) => (
+const Header: React.FC<HeaderProps> = ({ title, topInset, onBack, onShare, onExport }) => (
   <View
     style={[
       styles.header,
@@ -310,7 +421,18 @@ const Header: React.FC<HeaderProps> = ({ title, topInset, onBack, onShare }) =>
     <TouchableOpacity onPress={onBack} style={styles.headerButton} activeOpacity={0.7}>
       <Ionicons name="chevron-back" size={28} color={GREY[900]} />
     </TouchableOpacity>
+    {onExport ? <View style={styles.headerButton} /> : null}
     <Text style={styles.headerTitle}>{title}</Text>
+    {onExport ? (
+      <TouchableOpacity
+        onPress={onExport}
+        style={styles.headerButton}
+        activeOpacity={0.7}
+        testID="record-export-button"
+      >
+        <Ionicons name="download-outline" size={24} color={GREY[900]} />
+      </TouchableOpacity>
+    ) : null}
     {onShare ? (
       <TouchableOpacity onPress={onShare} style={styles.headerButton} activeOpacity={0.7}>
         <Ionicons name="share-social-outline" size={24} color={GREY[900]} />
@@ -327,11 +449,15 @@ interface RecordHeroProps {
 }
 
 const RecordHero: React.FC<RecordHeroProps> = ({ record, variant }) => {
+  const { formatDistance, distanceLabel } = useDistanceUnit();
+
   return (
     <View style={[styles.recordHero, variant === 'route' ? styles.recordHeroRoute : styles.recordHeroNoMap]}>
       <View style={styles.distanceRow}>
-        <Text style={styles.distanceValue}>{(record.distance / 1000).toFixed(2)}</Text>
-        <Text style={styles.distanceUnit}>km</Text>
+        <Text style={styles.distanceValue}>
+          {formatDistance(record.distance, { withUnit: false })}
+        </Text>
+        <Text style={styles.distanceUnit}>{distanceLabel}</Text>
       </View>
       <Text style={styles.distanceCaption}>오늘의 러닝 거리</Text>
     </View>
@@ -346,6 +472,7 @@ interface StatsGridProps {
 const StatsGrid: React.FC<StatsGridProps> = ({ record, variant }) => {
   const heartRate = formatSensorValue(record.heartRate);
   const cadence = formatSensorValue(record.cadence);
+  const { formatPace, paceLabel } = useDistanceUnit();
 
   return (
     <View style={[styles.statsGrid, variant === 'route' ? styles.statsGridRoute : styles.statsGridNoMap]}>
@@ -353,8 +480,8 @@ const StatsGrid: React.FC<StatsGridProps> = ({ record, variant }) => {
         <MetricCard label="총 시간" value={formatDurationMetric(record.durationSec)} />
         <MetricCard
           label="평균 페이스"
-          value={formatPaceMetric(calculateAveragePace(record))}
-          unit="/km"
+          value={formatPaceMetric(formatPace(calculateAveragePace(record)))}
+          unit={paceLabel}
           unitPlacement="below"
         />
         <MetricCard label="칼로리" value={`${record.calorie}`} unit="kcal" />
@@ -390,6 +517,7 @@ const ConnectedShoeCard: React.FC<ConnectedShoeCardProps> = ({
 }) => {
   const connectedShoe = record.connectedShoe ?? null;
   const isConnected = connectedShoe !== null;
+  const { formatDistance } = useDistanceUnit();
 
   return (
     <View
@@ -416,7 +544,7 @@ const ConnectedShoeCard: React.FC<ConnectedShoeCardProps> = ({
               {connectedShoe.model}
             </Text>
             <Text style={styles.connectedShoeDistance}>
-              누적 거리 {(connectedShoe.totalDistance / 1000).toFixed(1)}km
+              누적 거리 {formatDistance(connectedShoe.totalDistance, { fractionDigits: 1 })}
             </Text>
           </>
         ) : (
@@ -613,8 +741,7 @@ const formatDurationMetric = (seconds: number): string => {
   return `${minutes}:${String(secs).padStart(2, '0')}`;
 };
 
-const formatPaceMetric = (paceMinPerKm: number): string => {
-  const pace = formatPaceForUI(paceMinPerKm);
+const formatPaceMetric = (pace: string): string => {
   const [minutes, seconds = '00'] = pace.split(':');
 
   return `${minutes}'${seconds}"`;
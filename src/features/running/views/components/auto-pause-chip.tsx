@@ -0,0 +1,67 @@
+import { Ionicons } from '@expo/vector-icons';
+import React from 'react';
+import { StyleSheet, TouchableOpacity } from 'react-native';
+import { Text } from '~/shared/components/typography';
+import { GREY, PRIMARY } from '~/shared/styles';
+import { AUTO_PAUSE_MODE_LABELS, type AutoPauseMode } from '../../services/AutoPauseDetector';
+import { useAutoPauseStore } from '../../stores/autoPauseStore';
+
+const NEXT_AUTO_PAUSE_MODE: Record<AutoPauseMode, AutoPauseMode> = {
+  off: 'standard',
+  standard: 'sensitive',
+  sensitive: 'off',
+};
+
+/**
+ * 러닝 시작 전 자동 일시정지 모드 칩
+ * 누를 때마다 끔 → 기본 → 민감 순서로 전환
+ */
+export const AutoPauseChip: React.FC = () => {
+  const mode = useAutoPauseStore((state) => state.mode);
+  const setMode = useAutoPauseStore((state) => state.setMode);
+  const isEnabled = mode !== 'off';
+
+  return (
+    <TouchableOpacity
+      testID="auto-pause-chip"
+      style={[styles.container, isEnabled && styles.enabledContainer]}
+      onPress={() => setMode(NEXT_AUTO_PAUSE_MODE[mode])}
+      activeOpacity={0.7}
+      accessibilityRole="button"
+    >
+      <Ionicons name="pause-circle-outline" size={16} color={isEnabled ? PRIMARY[900] : GREY[700]} />
+      <Text style={[styles.label, isEnabled && styles.enabledLabel]} numberOfLines={1}>
+        {AUTO_PAUSE_MODE_LABELS[mode]}
+      </Text>
+    </TouchableOpacity>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    maxWidth: 335,
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 20,
+    borderWidth: 1,
+    borderColor: GREY[200],
+    backgroundColor: GREY.WHITE,
+  },
+  enabledContainer: {
+    borderColor: PRIMARY[600],
+    backgroundColor: PRIMARY[50],
+  },
+  label: {
+    flexShrink: 1,
+    fontSize: 13,
+    lineHeight: 18,
+    fontWeight: '600',
+    color: GREY[700],
+  },
+  enabledLabel: {
+    color: PRIMARY[900],
+  },
+});
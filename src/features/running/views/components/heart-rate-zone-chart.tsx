@@ -0,0 +1,240 @@
+import React, { useMemo } from 'react';
+import { Dimensions, StyleSheet, View } from 'react-native';
+import Svg, { Line, Rect, Text as SvgText } from 'react-native-svg';
+import { Text } from '~/shared/components/typography';
+import { useDistanceUnit } from '~/shared/hooks';
+import { GREY } from '~/shared/styles';
+import type { HeartRateChartPoint, HeartRateZone, TimeInZones } from '../../models';
+import {
+  HEART_RATE_ZONE_COLORS,
+  getHeartRateZone,
+  getTimeInZoneRatios,
+} from '../../models';
+
+interface HeartRateZoneChartProps {
+  points: HeartRateChartPoint[];
+  zones: HeartRateZone[];
+  timeInZones: TimeInZones;
+}
+
+const SCREEN_WIDTH = Dimensions.get('window').width;
+const CARD_HORIZONTAL_MARGIN = 16;
+const CARD_HORIZONTAL_PADDING = 14;
+const CHART_WIDTH = SCREEN_WIDTH - (CARD_HORIZONTAL_MARGIN + CARD_HORIZONTAL_PADDING) * 2;
+const CHART_HEIGHT = 180;
+const CHART_PADDING = { top: 12, right: 8, bottom: 24, left: 36 };
+const ZONE_BAND_OPACITY = 0.12;
+
+/**
+ * 거리별 심박 차트 + 구간별 시간
+ * - 배경 띠와 선 색상은 심박 구간 색상
+ * - 아래에 구간별 머문 시간과 비율 표시
+ */
+export const HeartRateZoneChart: React.FC<HeartRateZoneChartProps> = ({
+  points,
+  zones,
+  timeInZones,
+}) => {
+  const chartInnerWidth = CHART_WIDTH - CHART_PADDING.left - CHART_PADDING.right;
+  const chartInnerHeight = CHART_HEIGHT - CHART_PADDING.top - CHART_PADDING.bottom;
+  const { metersPerUnit, distanceLabel } = useDistanceUnit();
+
+  const totalDistance = points.at(-1)?.distance ?? 0;
+
+  // 심박수 범위 - 측정값과 구간 경계가 모두 보이도록 여유를 둔다
+  const bpmRange = useMemo(() => {
+    if (points.length === 0) {
+      return { min: 0, max: 1 };
+    }
+
+    const heartRates = points.map((point) => point.heartRate);
+    const min = Math.min(...heartRates);
+    const max = Math.max(...heartRates);
+
+    return { min: Math.max(0, Math.floor(min - 5)), max: Math.ceil(max + 5) };
+  }, [points]);
+
+  const ratios = useMemo(() => getTimeInZoneRatios(timeInZones), [timeInZones]);
+
+  const getX = (distance: number) =>
+    CHART_PADDING.left + (totalDistance > 0 ? distance / totalDistance : 0) * chartInnerWidth;
+
+  const getY = (bpm: number) => {
+    const clamped = Math.min(Math.max(bpm, bpmRange.min), bpmRange.max);
+    return (
+      CHART_PADDING.top +
+      (1 - (clamped - bpmRange.min) / (bpmRange.max - bpmRange.min)) * chartInnerHeight
+    );
+  };
+
+  if (points.length < 2 || totalDistance <= 0) {
+    return null;
+  }
+
+  // 차트 범위와 겹치는 구간만 배경 띠로 표시 (5구간은 위쪽 끝까지)
+  const visibleBands = zones.filter(
+    (zone) => zone.minBpm < bpmRange.max && (zone.zone === 5 || zone.maxBpm > bpmRange.min)
+  );
+
+  const unitLabels: number[] = [];
+  const fullUnits = Math.floor(totalDistance / metersPerUnit);
+  const stride = Math.max(1, Math.ceil(fullUnits / 6));
+  for (let count = stride; count <= fullUnits; count += stride) {
+    unitLabels.push(count);
+  }
+
+  return (
+    <View style={styles.container} testID="heart-rate-zone-chart">
+      <Text style={styles.title}>심박 구간</Text>
+      <Svg width={CHART_WIDTH} height={CHART_HEIGHT}>
+        {visibleBands.map((zone) => {
+          const top = getY(zone.zone === 5 ? bpmRange.max : zone.maxBpm);
+          const bottom = getY(zone.minBpm);
+          return (
+            <React.Fragment key={`band-${zone.zone}`}>
+              <Rect
+                x={CHART_PADDING.left}
+                y={top}
+                width={chartInnerWidth}
+                height={bottom - top}
+                fill={HEART_RATE_ZONE_COLORS[zone.zone]}
+                fillOpacity={ZONE_BAND_OPACITY}
+              />
+              {zone.minBpm >= bpmRange.min ? (
+                <SvgText x={0} y={bottom + 4} fontSize={10} fontWeight="500" fill={GREY[300]}>
+                  {`${zone.minBpm}`}
+                </SvgText>
+              ) : null}
+            </React.Fragment>
+          );
+        })}
+
+        {/* 선분마다 도착 지점 심박수의 구간 색상 */}
+        {points.slice(1).map((point, index) => {
+          const previous = points[index]!;
+          const zone = getHeartRateZone(point.heartRate, zones);
+          return (
+            <Line
+              key={`line-${index}`}
+              x1={getX(previous.distance)}
+              y1={getY(previous.heartRate)}
+              x2={getX(point.distance)}
+              y2={getY(point.heartRate)}
+              stroke={zone ? HEART_RATE_ZONE_COLORS[zone] : GREY[400]}
+              strokeWidth={2}
+              strokeLinecap="round"
+            />
+          );
+        })}
+
+        {unitLabels.map((count) => (
+          <SvgText
+            key={`x-${count}`}
+            x={getX(count * metersPerUnit)}
+            y={CHART_HEIGHT - 6}
+            fontSize={10}
+            fontWeight="500"
+            fill={GREY[300]}
+            textAnchor="middle"
+          >
+            {`${count}${distanceLabel}`}
+          </SvgText>
+        ))}
+      </Svg>
+
+      <View style={styles.zoneList}>
+        {[...zones].reverse().map((zone) => (
+          <View key={zone.zone} style={styles.zoneRow} testID={`heart-rate-zone-row-${zone.zone}`}>
+            <Text style={styles.zoneLabel}>
+              Z{zone.zone} {zone.label}
+            </Text>
+            <View style={styles.zoneBarTrack}>
+              <View
+                style={[
+                  styles.zoneBar,
+                  {
+                    width: `${ratios[zone.zone] * 100}%`,
+                    backgroundColor: HEART_RATE_ZONE_COLORS[zone.zone],
+                  },
+                ]}
+              />
+            </View>
+            <Text style={styles.zoneTime}>
+              {formatZoneDuration(timeInZones.secondsByZone[zone.zone])}
+            </Text>
+            <Text style={styles.zonePercent}>{Math.round(ratios[zone.zone] * 100)}%</Text>
+          </View>
+        ))}
+      </View>
+    </View>
+  );
+};
+
+const formatZoneDuration = (seconds: number): string => {
+  const rounded = Math.round(seconds);
+  const minutes = Math.floor(rounded / 60);
+  const secs = rounded % 60;
+
+  return `${minutes}:${String(secs).padStart(2, '0')}`;
+};
+
+const styles = StyleSheet.create({
+  container: {
+    marginHorizontal: CARD_HORIZONTAL_MARGIN,
+    marginTop: 20,
+    borderRadius: 8,
+    backgroundColor: GREY.WHITE,
+    paddingHorizontal: CARD_HORIZONTAL_PADDING,
+    paddingVertical: 16,
+  },
+  title: {
+    marginBottom: 10,
+    fontSize: 16,
+    lineHeight: 22,
+    fontWeight: '700',
+    color: '#102318',
+  },
+  zoneList: {
+    marginTop: 12,
+    gap: 8,
+  },
+  zoneRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  zoneLabel: {
+    width: 64,
+    fontSize: 12,
+    lineHeight: 16,
+    fontWeight: '500',
+    color: GREY[700],
+  },
+  zoneBarTrack: {
+    flex: 1,
+    height: 8,
+    borderRadius: 4,
+    backgroundColor: GREY[100],
+    overflow: 'hidden',
+  },
+  zoneBar: {
+    height: 8,
+    borderRadius: 4,
+  },
+  zoneTime: {
+    width: 44,
+    textAlign: 'right',
+    fontSize: 12,
+    lineHeight: 16,
+    fontWeight: '600',
+    color: GREY[900],
+  },
+  zonePercent: {
+    width: 32,
+    textAlign: 'right',
+    fontSize: 12,
+    lineHeight: 16,
+    fontWeight: '500',
+    color: GREY[500],
+  },
+});
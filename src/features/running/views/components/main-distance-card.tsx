@@ -6,6 +6,7 @@ import {
 } from 'react-native';
 import { Text } from '~/shared/components/typography';
 import { useRunning } from '~/features/running/contexts';
+import { useDistanceUnit } from '~/shared/hooks';
 
 interface MainDistanceCardProps {
   distanceMeters?: number;
@@ -13,21 +14,22 @@ interface MainDistanceCardProps {
 
 /**
  * 현재 누적 거리 카드
- * "현재 누적 거리" + "00.0 km"
+ * "현재 누적 거리" + "00.0 km" (거리 단위 설정에 따라 mi)
  */
 export const MainDistanceCard: React.FC<MainDistanceCardProps> = ({ distanceMeters }) => {
   const { distance } = useRunning();
+  const { formatDistance, distanceLabel } = useDistanceUnit();
   const resolvedDistance = distanceMeters ?? distance;
 
-  // 내부 데이터는 1m 단위를 유지하고, UI 표시는 0.01km 단위로만 반올림한다.
-  const distanceKm = (Math.max(0, resolvedDistance) / 1000).toFixed(2);
+  // 내부 데이터는 1m 단위를 유지하고, UI 표시는 0.01 단위로만 반올림한다.
+  const distanceText = formatDistance(resolvedDistance, { withUnit: false });
 
   return (
     <View style={styles.container}>
       <Text style={styles.label}>현재 누적 거리</Text>
       <View style={styles.distanceContainer}>
-        <Text style={styles.distanceValue}>{distanceKm}</Text>
-        <Text style={styles.distanceUnit}>km</Text>
+        <Text style={styles.distanceValue}>{distanceText}</Text>
+        <Text style={styles.distanceUnit}>{distanceLabel}</Text>
       </View>
     </View>
   );
@@ -0,0 +1,86 @@
+import React, { useEffect } from 'react';
+import { ActivityIndicator, StyleSheet, TouchableOpacity, View } from 'react-native';
+import { Text } from '~/shared/components/typography';
+import { GREY, PRIMARY, RED } from '~/shared/styles';
+import { useOfflineSync } from '../../hooks/useOfflineSync';
+
+/**
+ * 오프라인 동기화 대기 표시
+ * - 대기 중인 러닝 수 표시 (자동 재시도 중)
+ * - 재시도 한도를 넘긴 러닝이 있으면 수동 재시도 버튼 노출
+ */
+export const OfflineSyncIndicator: React.FC = () => {
+  const { pendingRunCount, failedRunCount, isSyncing, retryFailedUploads, refreshSyncStatus } =
+    useOfflineSync();
+
+  useEffect(() => {
+    void refreshSyncStatus();
+  }, [refreshSyncStatus]);
+
+  if (pendingRunCount === 0 && failedRunCount === 0) {
+    return null;
+  }
+
+  const hasFailed = failedRunCount > 0;
+
+  return (
+    <View style={[styles.container, hasFailed && styles.failedContainer]} testID="offline-sync-indicator">
+      <Text style={[styles.message, hasFailed && styles.failedMessage]}>
+        {hasFailed
+          ? `동기화하지 못한 러닝 ${failedRunCount}개`
+          : `${pendingRunCount}개의 러닝이 동기화를 기다리고 있어요`}
+      </Text>
+      {isSyncing ? (
+        <ActivityIndicator size="small" color={PRIMARY[600]} />
+      ) : (
+        hasFailed && (
+          <TouchableOpacity
+            style={styles.retryButton}
+            onPress={() => void retryFailedUploads()}
+            testID="offline-sync-retry"
+          >
+            <Text style={styles.retryText}>다시 시도</Text>
+          </TouchableOpacity>
+        )
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    width: 335,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    gap: 8,
+    paddingHorizontal: 14,
+    paddingVertical: 10,
+    borderRadius: 8,
+    backgroundColor: PRIMARY[50],
+  },
+  failedContainer: {
+    backgroundColor: RED[50],
+  },
+  message: {
+    flex: 1,
+    fontSize: 13,
+    fontWeight: '600',
+    lineHeight: 18,
+    color: PRIMARY[600],
+  },
+  failedMessage: {
+    color: RED.DEFAULT,
+  },
+  retryButton: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    backgroundColor: GREY.WHITE,
+  },
+  retryText: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: RED.DEFAULT,
+  },
+});
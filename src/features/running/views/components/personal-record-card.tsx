@@ -0,0 +1,94 @@
+import React from 'react';
+import { StyleSheet, View } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { Text } from '~/shared/components/typography';
+import { useDistanceUnit } from '~/shared/hooks';
+import { GREY, PRIMARY } from '~/shared/styles';
+import {
+  formatPersonalBestValue,
+  getPersonalBestLabel,
+  type NewPersonalBest,
+} from '~/features/statistics/models';
+
+interface PersonalRecordCardProps {
+  newBests: NewPersonalBest[];
+}
+
+/**
+ * 새 개인 기록 축하 카드
+ * 이번 러닝이 갱신한 기록과 이전 기록을 함께 표시
+ */
+export const PersonalRecordCard: React.FC<PersonalRecordCardProps> = ({ newBests }) => {
+  const { unit } = useDistanceUnit();
+
+  if (newBests.length === 0) return null;
+
+  return (
+    <View style={styles.container} testID="personal-record-card">
+      <View style={styles.header}>
+        <Ionicons name="trophy" size={20} color={PRIMARY[900]} />
+        <Text style={styles.title}>새 개인 기록 달성!</Text>
+      </View>
+
+      {newBests.map((best) => (
+        <View key={best.kind} style={styles.row} testID={`new-personal-record-${best.kind}`}>
+          <Text style={styles.label}>{getPersonalBestLabel(best.kind)}</Text>
+          <View style={styles.valueColumn}>
+            <Text style={styles.value}>{formatPersonalBestValue(best.kind, best.value, unit)}</Text>
+            <Text style={styles.previous}>
+              {best.previousValue !== null
+                ? `이전 ${formatPersonalBestValue(best.kind, best.previousValue, unit)}`
+                : '첫 기록'}
+            </Text>
+          </View>
+        </View>
+      ))}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    width: '100%',
+    padding: 16,
+    gap: 10,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: PRIMARY[300],
+    backgroundColor: PRIMARY[50],
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+  },
+  title: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: PRIMARY[900],
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: GREY[900],
+  },
+  valueColumn: {
+    alignItems: 'flex-end',
+    gap: 2,
+  },
+  value: {
+    fontSize: 14,
+    fontWeight: '700',
+    color: GREY[900],
+  },
+  previous: {
+    fontSize: 11,
+    fontWeight: '500',
+    color: GREY[500],
+  },
+});
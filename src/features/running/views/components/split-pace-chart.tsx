@@ -0,0 +1,176 @@
+import React, { useMemo } from 'react';
+import { Dimensions, StyleSheet, View } from 'react-native';
+import Svg, { Line, Path, Rect, Text as SvgText } from 'react-native-svg';
+import { Text } from '~/shared/components/typography';
+import { GREY, PRIMARY, RED } from '~/shared/styles';
+import { useDistanceUnit } from '~/shared/hooks';
+import type { PaceChartPoint, RunningSplit, RunningSplitExtremes } from '../../models';
+
+interface SplitPaceChartProps {
+  points: PaceChartPoint[];
+  splits: RunningSplit[];
+  extremes: RunningSplitExtremes;
+}
+
+const SCREEN_WIDTH = Dimensions.get('window').width;
+const CARD_HORIZONTAL_MARGIN = 16;
+const CARD_HORIZONTAL_PADDING = 14;
+const CHART_WIDTH = SCREEN_WIDTH - (CARD_HORIZONTAL_MARGIN + CARD_HORIZONTAL_PADDING) * 2;
+const CHART_HEIGHT = 180;
+const CHART_PADDING = { top: 12, right: 8, bottom: 24, left: 36 };
+const Y_AXIS_STEPS = 3;
+
+/**
+ * 거리별 페이스 차트
+ * - Y축은 빠른 페이스가 위로 가도록 반전
+ * - 가장 빠른/느린 거리 단위 구간은 배경 띠로 강조
+ */
+export const SplitPaceChart: React.FC<SplitPaceChartProps> = ({ points, splits, extremes }) => {
+  const chartInnerWidth = CHART_WIDTH - CHART_PADDING.left - CHART_PADDING.right;
+  const chartInnerHeight = CHART_HEIGHT - CHART_PADDING.top - CHART_PADDING.bottom;
+  const { metersPerUnit, distanceLabel, formatPace } = useDistanceUnit();
+
+  const totalDistance = useMemo(
+    () => splits.reduce((sum, split) => sum + split.distance, 0),
+    [splits]
+  );
+
+  // 페이스 범위 (분/km) - 위아래로 여유를 둔다
+  const paceRange = useMemo(() => {
+    if (points.length === 0) {
+      return { min: 0, max: 1 };
+    }
+
+    const paces = points.map((point) => point.pace);
+    const min = Math.min(...paces);
+    const max = Math.max(...paces);
+    const margin = Math.max((max - min) * 0.1, 0.25);
+
+    return { min: Math.max(0, min - margin), max: max + margin };
+  }, [points]);
+
+  const getX = (distance: number) =>
+    CHART_PADDING.left + (totalDistance > 0 ? distance / totalDistance : 0) * chartInnerWidth;
+
+  const getY = (pace: number) =>
+    CHART_PADDING.top +
+    ((pace - paceRange.min) / (paceRange.max - paceRange.min)) * chartInnerHeight;
+
+  const yAxisLabels = useMemo(() => {
+    const step = (paceRange.max - paceRange.min) / Y_AXIS_STEPS;
+    return Array.from({ length: Y_AXIS_STEPS + 1 }, (_, index) => paceRange.min + step * index);
+  }, [paceRange]);
+
+  const unitLabels = useMemo(() => {
+    const fullUnits = Math.floor(totalDistance / metersPerUnit);
+    const stride = Math.max(1, Math.ceil(fullUnits / 6));
+    const labels: number[] = [];
+
+    for (let count = stride; count <= fullUnits; count += stride) {
+      labels.push(count);
+    }
+
+    return labels;
+  }, [totalDistance, metersPerUnit]);
+
+  if (points.length < 2 || totalDistance <= 0) {
+    return null;
+  }
+
+  const linePath = points
+    .map((point, index) => `${index === 0 ? 'M' : 'L'} ${getX(point.distance)},${getY(point.pace)}`)
+    .join(' ');
+
+  const renderSplitBand = (index: number | null, color: string) => {
+    if (index === null) {
+      return null;
+    }
+
+    const startDistance = (index - 1) * metersPerUnit;
+    const endDistance = Math.min(index * metersPerUnit, totalDistance);
+
+    return (
+      <Rect
+        key={`band-${index}`}
+        x={getX(startDistance)}
+        y={CHART_PADDING.top}
+        width={getX(endDistance) - getX(startDistance)}
+        height={chartInnerHeight}
+        fill={color}
+      />
+    );
+  };
+
+  return (
+    <View style={styles.container} testID="split-pace-chart">
+      <Text style={styles.title}>페이스 변화</Text>
+      <Svg width={CHART_WIDTH} height={CHART_HEIGHT}>
+        {renderSplitBand(extremes.fastestIndex, PRIMARY[50])}
+        {renderSplitBand(extremes.slowestIndex, RED[50])}
+
+        {yAxisLabels.map((pace, index) => (
+          <React.Fragment key={`y-${index}`}>
+            <Line
+              x1={CHART_PADDING.left}
+              y1={getY(pace)}
+              x2={CHART_WIDTH - CHART_PADDING.right}
+              y2={getY(pace)}
+              stroke={GREY[100]}
+              strokeWidth={1}
+            />
+            <SvgText
+              x={0}
+              y={getY(pace) + 4}
+              fontSize={10}
+              fontWeight="500"
+              fill={GREY[300]}
+            >
+              {formatPace(pace)}
+            </SvgText>
+          </React.Fragment>
+        ))}
+
+        <Path
+          d={linePath}
+          stroke={PRIMARY[900]}
+          strokeWidth={2}
+          strokeLinejoin="round"
+          strokeLinecap="round"
+          fill="none"
+        />
+
+        {unitLabels.map((count) => (
+          <SvgText
+            key={`x-${count}`}
+            x={getX(count * metersPerUnit)}
+            y={CHART_HEIGHT - 6}
+            fontSize={10}
+            fontWeight="500"
+            fill={GREY[300]}
+            textAnchor="middle"
+          >
+            {`${count}${distanceLabel}`}
+          </SvgText>
+        ))}
+      </Svg>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    marginHorizontal: CARD_HORIZONTAL_MARGIN,
+    marginTop: 20,
+    borderRadius: 8,
+    backgroundColor: GREY.WHITE,
+    paddingHorizontal: CARD_HORIZONTAL_PADDING,
+    paddingVertical: 16,
+  },
+  title: {
+    marginBottom: 10,
+    fontSize: 16,
+    lineHeight: 22,
+    fontWeight: '700',
+    color: '#102318',
+  },
+});
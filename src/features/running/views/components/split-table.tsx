@@ -0,0 +1,163 @@
+import React from 'react';
+import { StyleSheet, View } from 'react-native';
+import { Text } from '~/shared/components/typography';
+import { GREY, PRIMARY, RED } from '~/shared/styles';
+import { useDistanceUnit } from '~/shared/hooks';
+import type { RunningSplit, RunningSplitExtremes } from '../../models';
+
+interface SplitTableProps {
+  splits: RunningSplit[];
+  extremes: RunningSplitExtremes;
+}
+
+/**
+ * 거리 단위(km / mi) 구간 기록 표
+ * 구간 / 페이스 / 시간 / 심박 / 케이던스
+ * 가장 빠른 구간과 가장 느린 구간은 행 배경으로 강조
+ */
+export const SplitTable: React.FC<SplitTableProps> = ({ splits, extremes }) => {
+  const { distanceLabel, convertDistance, formatPace } = useDistanceUnit();
+
+  if (splits.length === 0) {
+    return null;
+  }
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.title}>구간 기록</Text>
+      <View style={[styles.row, styles.headerRow]}>
+        <Text style={[styles.headerCell, styles.indexCell]}>{distanceLabel}</Text>
+        <Text style={[styles.headerCell, styles.paceCell]}>페이스</Text>
+        <Text style={styles.headerCell}>시간</Text>
+        <Text style={styles.headerCell}>심박</Text>
+        <Text style={styles.headerCell}>케이던스</Text>
+      </View>
+      {splits.map((split) => {
+        const isFastest = split.index === extremes.fastestIndex;
+        const isSlowest = split.index === extremes.slowestIndex;
+
+        return (
+          <View
+            key={`split-${split.index}`}
+            testID={`split-row-${split.index}`}
+            style={[
+              styles.row,
+              isFastest && styles.fastestRow,
+              isSlowest && styles.slowestRow,
+            ]}
+          >
+            <Text style={[styles.cell, styles.indexCell]}>{formatSplitLabel(split, convertDistance)}</Text>
+            <View style={[styles.paceCell, styles.paceCellContent]}>
+              <Text style={[styles.cell, styles.paceValue]}>
+                {formatPace(split.pace)}
+              </Text>
+              {isFastest ? <Text style={styles.fastestBadge}>최고</Text> : null}
+              {isSlowest ? <Text style={styles.slowestBadge}>최저</Text> : null}
+            </View>
+            <Text style={styles.cell}>{formatSplitDuration(split.durationSec)}</Text>
+            <Text style={styles.cell}>{split.heartRate ?? '--'}</Text>
+            <Text style={styles.cell}>{split.cadence ?? '--'}</Text>
+          </View>
+        );
+      })}
+    </View>
+  );
+};
+
+const formatSplitLabel = (
+  split: RunningSplit,
+  convertDistance: (meters: number) => number
+): string => {
+  if (!split.isPartial) {
+    return `${split.index}`;
+  }
+
+  return convertDistance(split.distance).toFixed(2);
+};
+
+const formatSplitDuration = (seconds: number): string => {
+  const rounded = Math.round(seconds);
+  const minutes = Math.floor(rounded / 60);
+  const secs = rounded % 60;
+
+  return `${minutes}:${String(secs).padStart(2, '0')}`;
+};
+
+const styles = StyleSheet.create({
+  container: {
+    marginHorizontal: 16,
+    marginTop: 20,
+    borderRadius: 8,
+    backgroundColor: GREY.WHITE,
+    paddingHorizontal: 14,
+    paddingVertical: 16,
+  },
+  title: {
+    marginBottom: 10,
+    fontSize: 16,
+    lineHeight: 22,
+    fontWeight: '700',
+    color: '#102318',
+  },
+  row: {
+    height: 36,
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderRadius: 6,
+    paddingHorizontal: 6,
+  },
+  headerRow: {
+    height: 28,
+  },
+  fastestRow: {
+    backgroundColor: PRIMARY[50],
+  },
+  slowestRow: {
+    backgroundColor: RED[50],
+  },
+  headerCell: {
+    flex: 1,
+    fontSize: 12,
+    lineHeight: 16,
+    fontWeight: '500',
+    color: '#657067',
+    textAlign: 'center',
+  },
+  cell: {
+    flex: 1,
+    fontSize: 14,
+    lineHeight: 18,
+    fontWeight: '600',
+    color: GREY[900],
+    textAlign: 'center',
+  },
+  indexCell: {
+    flex: 0.8,
+    textAlign: 'left',
+  },
+  paceCell: {
+    flex: 1.4,
+  },
+  paceCellContent: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 4,
+  },
+  paceValue: {
+    flex: 0,
+    fontWeight: '800',
+  },
+  fastestBadge: {
+    fontSize: 10,
+    lineHeight: 12,
+    fontWeight: '700',
+    color: PRIMARY[900],
+  },
+  slowestBadge: {
+    fontSize: 10,
+    lineHeight: 12,
+    fontWeight: '700',
+    color: RED.DEFAULT,
+  },
+});
@@ -5,3 +5,5 @@ export * from './running-active';
 export * from './running-finished';
 export * from './running-paused';
 export * from './running-start';
+export * from './HeartRateSensorView';
+export * from './HeartRateZoneSettingsView';
@@ -6,6 +6,8 @@ import { PauseButton } from './components/pause-button';
 import { StopButton } from './components/stop-button';
 import { MainDistanceCard } from './components/main-distance-card';
 import { useBottomActionOffset } from '~/shared/hooks';
+import { WorkoutStepProgressCard } from '~/features/workout/views/components/workout-step-progress-card';
+import { GhostGapCard } from '~/features/ghost/views/components/ghost-gap-card';
 import { useRunning } from '../contexts';
 
 /**
@@ -14,7 +16,8 @@ import { useRunning } from '../contexts';
  */
 export const RunningActiveView: React.FC = () => {
   const setRunningState = useAppStore((state) => state.setRunningState);
-  const { pauseRunning, endRunning } = useRunning();
+  const { pauseRunning, endRunning, workoutPlanName, workoutProgress, ghostPacerLabel, ghostGap } =
+    useRunning();
   const buttonBottom = useBottomActionOffset(42);
 
   const handlePauseRunning = () => {
@@ -50,6 +53,14 @@ export const RunningActiveView: React.FC = () => {
         <StatsView paceType="instant" />
       </View>
 
+      {/* 워크아웃 현재 단계 (계획을 선택한 경우) */}
+      {workoutPlanName && workoutProgress ? (
+        <WorkoutStepProgressCard planName={workoutPlanName} progress={workoutProgress} />
+      ) : null}
+
+      {/* 고스트 페이서와의 차이 (고스트를 선택한 경우) */}
+      {ghostPacerLabel && ghostGap ? <GhostGapCard label={ghostPacerLabel} gap={ghostGap} /> : null}
+
       {/* 현재 누적 거리 - Figma 디자인 */}
       <MainDistanceCard />
 
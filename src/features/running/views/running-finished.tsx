@@ -10,10 +10,17 @@ import { CompleteButton } from './components/complete-button';
 import { ShareButton } from './components/share-button';
 import { PointInfoBar } from './components/point-info-bar';
 import { AddShoeCard } from './components/add-shoe-card';
+import { PersonalRecordCard } from './components/personal-record-card';
 import { useRunning } from '../contexts';
 import { runningService } from '../services/runningService';
-import { type Location, type RunningRecord } from '../models';
-import { useShoeViewModel } from '~/features/shoes/viewmodels';
+import { offlineStorageService } from '../services/OfflineStorageService';
+import { isProvisionalRunningRecordId, type Location, type RunningRecord } from '../models';
+import { shoeAlertService } from '~/features/shoes/services';
+import { useShoeSuggestion, useShoeViewModel } from '~/features/shoes/viewmodels';
+import { useFinishedRunPersonalBests } from '~/features/statistics/viewmodels';
+import { RunHighlightsCard } from '~/features/reactions/views/components/run-highlights-card';
+import { useFinishedRunBadges } from '~/features/badges/viewmodels';
+import { BadgeUnlockCard } from '~/features/badges/views/components/badge-unlock-card';
 import { leagueService } from '~/features/league/services/leagueService';
 import { useShareStore } from '~/features/share/stores/shareStore';
 import { useShareEntryTransitionStore } from '~/features/share/stores/shareEntryTransitionStore';
@@ -95,6 +102,30 @@ export const RunningFinishedView: React.FC = () => {
     };
   }, [buildPaceText, currentRecord, distance, elapsedTime, stats.bpm]);
 
+  // 새 개인 기록 판정 (최종 거리/시간 반영)
+  const finishedRecord = useMemo<RunningRecord | null>(() => {
+    if (!currentRecord) return null;
+    return {
+      ...currentRecord,
+      distance: finalSummary.distanceMeters,
+      durationSec: finalSummary.durationSec,
+    };
+  }, [currentRecord, finalSummary.distanceMeters, finalSummary.durationSec]);
+
+  // 로테이션을 쓰면 실제 러닝 유형에 맞는 신발을 미리 선택
+  const { suggestion: shoeSuggestion, isLoadingSuggestion } = useShoeSuggestion({
+    run: { distance: finalSummary.distanceMeters, durationSec: finalSummary.durationSec },
+  });
+  const defaultShoeId = shoeSuggestion?.shoeId ?? mainShoe?.id;
+
+  const newPersonalBests = useFinishedRunPersonalBests({
+    record: finishedRecord,
+    segments: currentSegmentItems,
+  });
+
+  // 이번 러닝으로 새로 얻은 배지
+  const newBadges = useFinishedRunBadges({ record: finishedRecord });
+
   // 신발 추가 후 자동으로 React Query가 신발 목록을 갱신하고,
   // 첫 신발이므로 자동으로 메인 설정되어 ShoeSelectionArea가 표시됩니다.
 
@@ -103,7 +134,7 @@ export const RunningFinishedView: React.FC = () => {
   };
 
   const getLocationsFromServer = async (): Promise<Location[]> => {
-    if (!currentRecord) return [];
+    if (!currentRecord || isProvisionalRunningRecordId(currentRecord.id)) return [];
 
     try {
       const items = await runningService.getRunningRecordItems(currentRecord.id);
@@ -153,6 +184,13 @@ export const RunningFinishedView: React.FC = () => {
     router.push('/share/editor' as any);
   };
 
+  // 이번 러닝으로 신발 마일리지 알림 기준을 넘었는지 확인 (실패해도 완료 처리는 계속)
+  const checkShoeMileageAlerts = (shoeId: number | null | undefined) => {
+    if (shoeId == null) return;
+    const usedShoe = shoes.find((shoe) => shoe.id === shoeId) ?? null;
+    void shoeAlertService.checkAfterRun(usedShoe, finalSummary.distanceMeters);
+  };
+
   const handleComplete = async () => {
     console.log('🏁 [RunningFinishedView] 러닝 완료 확인 버튼 눌러짐');
 
@@ -178,7 +216,25 @@ export const RunningFinishedView: React.FC = () => {
       // 선택된 신발이 있으면 runningRecord 업데이트
       console.log(`👟 [RunningFinishedView] 선택된 신발 ID: ${selectedShoeId}로 업데이트 중...`);
 
-      const newShoeId = selectedShoeId ?? mainShoe?.id ?? currentRecord.shoeId;
+      const newShoeId = selectedShoeId ?? defaultShoeId ?? currentRecord.shoeId;
+
+      // 오프라인으로 시작한 임시 기록은 서버 기록이 없으므로
+      // 선택한 신발만 대기열에 반영하고 동기화 시 연결한다.
+      if (isProvisionalRunningRecordId(currentRecord.id)) {
+        if (newShoeId != null) {
+          await offlineStorageService.updatePendingUploadRecord(currentRecord.id, {
+            shoeId: newShoeId,
+          });
+        }
+        checkShoeMileageAlerts(newShoeId);
+
+        resetRunning();
+        setRunningState(RunningState.Stopped);
+        console.log('✅ [RunningFinishedView] 임시 기록 완료 처리 (동기화 대기)');
+        router.replace('/(tabs)/league');
+        return;
+      }
+
       const updatedRecord: RunningRecord = {
         ...currentRecord,
         ...(newShoeId != null && { shoeId: newShoeId }),
@@ -186,6 +242,7 @@ export const RunningFinishedView: React.FC = () => {
 
       await runningService.updateRunningRecord(updatedRecord);
       console.log('✅ [RunningFinishedView] 신발 정보 업데이트 완료');
+      checkShoeMileageAlerts(newShoeId);
 
       // 리그 거리 업데이트 (순위 애니메이션을 위한 처리)
       try {
@@ -262,15 +319,24 @@ export const RunningFinishedView: React.FC = () => {
         {/* 메인 거리 카드 */}
         <MainDistanceCard distanceMeters={finalSummary.distanceMeters} />
 
+        {/* 새 개인 기록 축하 */}
+        <PersonalRecordCard newBests={newPersonalBests} />
+
+        {/* 새 배지 획득 축하 */}
+        <BadgeUnlockCard badges={newBadges} />
+
+        {/* 러닝 중 캐릭터 반응 하이라이트 - 누르면 다시 재생 */}
+        <RunHighlightsCard />
+
         {/* 신발 선택 영역 - 조건부 렌더링 */}
-        {isLoadingShoes ? (
+        {isLoadingShoes || isLoadingSuggestion ? (
           <View style={styles.loadingContainer}>
             <ActivityIndicator size="small" color={GREY[800]} />
           </View>
         ) : hasShoe ? (
           <ShoeSelectionArea
             onShoeSelect={handleShoeSelect}
-            initialSelectedShoeId={selectedShoeId ?? mainShoe?.id ?? currentRecord?.shoeId ?? null}
+            initialSelectedShoeId={selectedShoeId ?? defaultShoeId ?? currentRecord?.shoeId ?? null}
           />
         ) : (
           <AddShoeCard />
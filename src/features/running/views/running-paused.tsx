@@ -1,5 +1,7 @@
 import React from 'react';
 import { View, StyleSheet } from 'react-native';
+import { Text } from '~/shared/components/typography';
+import { GREY, PRIMARY } from '~/shared/styles';
 import { useAppStore, RunningState } from '~/stores/app/appStore';
 import { StatsView } from './stats-view';
 import { MainDistanceCard } from './components/main-distance-card';
@@ -14,7 +16,7 @@ import { useRunning } from '../contexts';
  */
 export const RunningPausedView: React.FC = () => {
   const setRunningState = useAppStore((state) => state.setRunningState);
-  const { resumeRunning, endRunning } = useRunning();
+  const { resumeRunning, endRunning, isAutoPaused } = useRunning();
   const buttonBottom = useBottomActionOffset(42);
 
   const handleStopRunning = async () => {
@@ -50,6 +52,13 @@ export const RunningPausedView: React.FC = () => {
         <StatsView />
       </View>
 
+      {/* 동작 감지 자동 일시정지 안내 */}
+      {isAutoPaused ? (
+        <View testID="running-auto-paused-banner" style={styles.autoPausedBanner}>
+          <Text style={styles.autoPausedText}>자동 일시정지됨 · 다시 달리면 자동으로 재개돼요</Text>
+        </View>
+      ) : null}
+
       {/* 현재 누적 거리 - Figma 디자인 */}
       <MainDistanceCard />
 
@@ -77,6 +86,19 @@ const styles = StyleSheet.create({
   statsSection: {
     marginBottom: 16,
   },
+  autoPausedBanner: {
+    alignSelf: 'center',
+    marginBottom: 12,
+    paddingHorizontal: 14,
+    paddingVertical: 6,
+    borderRadius: 16,
+    backgroundColor: PRIMARY[50],
+  },
+  autoPausedText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: GREY[900],
+  },
   buttonContainer: {
     position: 'absolute',
     left: 58,
@@ -2,9 +2,15 @@ import React, { useEffect, useState } from 'react';
 import { View, StyleSheet } from 'react-native';
 import { useUserStore, useAppStore, RunningState } from '~/stores';
 import { StartButton } from './components/start-button';
+import { OfflineSyncIndicator } from './components/offline-sync-indicator';
+import { AutoPauseChip } from './components/auto-pause-chip';
 import { useRunning } from '../contexts';
 import { permissionManager } from '~/services/PermissionManager';
 import { PermissionRequestModal } from '~/features/permissions/views/PermissionRequestModal';
+import { WorkoutPlanChip } from '~/features/workout/views/components/workout-plan-chip';
+import { selectSelectedWorkoutPlan, useWorkoutStore } from '~/features/workout/stores/workoutStore';
+import { ShoeSuggestionChip } from '~/features/shoes/views/components/shoe-suggestion-chip';
+import { GhostPacerChip } from '~/features/ghost/views/components/ghost-pacer-chip';
 
 /**
  * 러닝 시작 화면
@@ -12,6 +18,8 @@ import { PermissionRequestModal } from '~/features/permissions/views/PermissionR
 export const RunningStartView: React.FC = () => {
   const setRunningState = useAppStore((state) => state.setRunningState);
   const haveRunningRecord = useUserStore((state) => state.haveRunningRecord);
+  // 워크아웃을 골랐으면 스피드 러닝용 신발을 추천
+  const hasWorkoutPlan = useWorkoutStore((state) => selectSelectedWorkoutPlan(state) !== null);
 
   const { startRunning } = useRunning();
   const [showPermissionModal, setShowPermissionModal] = useState(false);
@@ -48,6 +56,11 @@ export const RunningStartView: React.FC = () => {
 
   return (
     <View style={styles.container}>
+      <OfflineSyncIndicator />
+      <WorkoutPlanChip />
+      <GhostPacerChip />
+      <ShoeSuggestionChip profile={hasWorkoutPlan ? 'SPEED' : 'EASY'} />
+      <AutoPauseChip />
       <StartButton
         onPress={handleStartRunning}
         haveRunningRecord={haveRunningRecord}
@@ -1,5 +1,6 @@
 import React, { useState, useRef, useEffect, useMemo, useCallback } from 'react';
 import { PRIMARY, GREY } from '~/shared/styles';
+import { useDistanceUnit } from '~/shared/hooks';
 import {
   View,
   StyleSheet,
@@ -186,6 +187,8 @@ export const ShoeSelectionCard: React.FC<ShoeSelectionCardProps> = ({
   isMain,
   onPress,
 }) => {
+  const { formatDistance } = useDistanceUnit();
+
   return (
     <TouchableOpacity onPress={onPress} activeOpacity={0.8}>
       <View style={[styles.shoeCard, isActive && styles.shoeCardActive]}>
@@ -211,9 +214,9 @@ export const ShoeSelectionCard: React.FC<ShoeSelectionCardProps> = ({
           {/* 모델명 */}
           <Text style={styles.shoeModel}>{shoe.model}</Text>
 
-          {/* 누적 거리 (meters → km 변환) */}
+          {/* 누적 거리 (meters → 사용자 거리 단위 변환) */}
           <Text style={styles.shoeDistance}>
-            누적 거리 {(shoe.totalDistance / 1000).toFixed(1)}km
+            누적 거리 {formatDistance(shoe.totalDistance, { fractionDigits: 1 })}
           </Text>
         </View>
       </View>
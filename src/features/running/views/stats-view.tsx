@@ -29,7 +29,7 @@ interface StatsViewProps {
  * 정책: 센서 데이터 없으면 "--" 표시
  */
 export const StatsView: React.FC<StatsViewProps> = ({ paceType = 'average' }) => {
-  const { elapsedTime, stats } = useRunning();
+  const { elapsedTime, stats, formatPace } = useRunning();
 
   // 러닝 시간 포맷팅 (MM:SS)
   const formatElapsedTime = (seconds: number): string => {
@@ -48,7 +48,7 @@ export const StatsView: React.FC<StatsViewProps> = ({ paceType = 'average' }) =>
   // 순간 페이스가 0인 경우 (아직 계산 안됨) "--" 표시
   const pace = paceData.totalSeconds === 0
     ? '--:--'
-    : `${String(paceData.minutes).padStart(2, '0')}:${String(paceData.seconds).padStart(2, '0')}`;
+    : formatPace(paceData.minutes, paceData.seconds);
   const runningTime = formatElapsedTime(elapsedTime);
 
   return (
@@ -11,7 +11,7 @@ export * from './views/components';
 export { useShareEditor } from './viewmodels/useShareEditor';
 
 // Services
-export { captureAndShare, captureViewAsImage, shareImage, shareService } from './services/shareService';
+export { captureAndShare, captureViewAsImage, shareFile, shareImage, shareService } from './services/shareService';
 
 // Stores
 export { useShareStore } from './stores/shareStore';
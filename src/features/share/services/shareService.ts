@@ -206,6 +206,16 @@ export const shareImage = async (
   imageUri: string,
   title: string = 'RunTaeho 러닝 기록',
   message: string = '오늘도 달렸어요!'
+): Promise<ShareResult> => shareFile(imageUri, 'image/png', title, message);
+
+/**
+ * 파일 공유 (이미지 외 GPX/TCX 등 내보내기 파일 포함)
+ */
+export const shareFile = async (
+  fileUri: string,
+  mimeType: string,
+  title: string,
+  message?: string
 ): Promise<ShareResult> => {
   await ensureShareDependenciesLoaded();
 
@@ -216,9 +226,9 @@ export const shareImage = async (
   try {
     const result = await Share.open({
       title,
-      message,
-      url: imageUri,
-      type: 'image/png',
+      ...(message !== undefined && { message }),
+      url: fileUri,
+      type: mimeType,
       failOnCancel: false,
     });
 
@@ -270,5 +280,6 @@ export const captureAndShare = async (
 export const shareService = {
   captureViewAsImage,
   shareImage,
+  shareFile,
   captureAndShare,
 } as const;
@@ -0,0 +1,87 @@
+import { act, renderHook, waitFor } from '@testing-library/react-native';
+import type { Item } from '~/features/avatar';
+import { DEFAULT_BACKGROUND, DEFAULT_POSE, INITIAL_CHARACTER_TRANSFORM } from '~/features/share/constants/shareOptions';
+import { useShareUnitySync } from '~/features/share/viewmodels/useShareUnitySync';
+import { createUser } from '~/features/user/models/User';
+import { useUnityStore } from '~/stores/unity/unityStore';
+import { useUserStore } from '~/stores/user/userStore';
+import { mockUnityHost } from '~/test-utils/unity/mockUnityHost';
+
+jest.mock('~/features/unity/bridge/nativeUnityBridge', () =>
+  require('~/test-utils/unity/mockUnityHost').mockNativeUnityBridge
+);
+
+const HAIR: Item = {
+  id: 1,
+  itemType: { id: 1, name: '머리' },
+  name: 'Hair_1.png',
+  unityFilePath: 'Sprites/',
+  filePath: '/assets/items/Hair_1.png',
+  point: 100,
+  createdAt: '2026-10-01T00:00:00.000Z',
+};
+
+const renderShareUnitySync = () =>
+  renderHook(() =>
+    useShareUnitySync({
+      selectedBackground: DEFAULT_BACKGROUND,
+      selectedPose: DEFAULT_POSE,
+      characterTransform: INITIAL_CHARACTER_TRANSFORM,
+      avatarVisible: true,
+      animationTime: 0,
+    })
+  );
+
+describe('useShareUnitySync with mock Unity host', () => {
+  beforeEach(() => {
+    mockUnityHost.reset();
+    useUnityStore.getState().resetUnityState();
+    useUserStore.setState({
+      currentUser: createUser({ id: 1, nickname: '러너' }),
+      equippedItems: { 1: HAIR },
+      hairColor: '#112233',
+    });
+  });
+
+  it('applies the avatar and editor state, forwards edits, and restores running defaults on exit', async () => {
+    mockUnityHost.boot({ protocolVersion: 2 });
+
+    const { result, unmount } = renderShareUnitySync();
+
+    await waitFor(() => {
+      expect(mockUnityHost.messages('SetCharacterVisible')).toHaveLength(1);
+    });
+    expect(mockUnityHost.messages().map((message) => message.methodName)).toEqual([
+      'SetSprites',
+      'SetBackground',
+      'SetPoseForSlider',
+      'SetAnimationNormalizedTime',
+      'SetCharacterPosition',
+      'SetCharacterScale',
+      'SetCharacterRotation',
+      'SetCharacterVisible',
+    ]);
+    expect(mockUnityHost.messages('SetBackground')[0]).toEqual({
+      objectName: 'Background',
+      methodName: 'SetBackground',
+      parameter: 'river',
+    });
+
+    await act(async () => {
+      result.current.syncCharacterScale(4);
+      result.current.syncCharacterVisibility(false);
+    });
+
+    expect(mockUnityHost.messages('SetCharacterScale').at(-1)?.parameter).toBe('2.5');
+    expect(mockUnityHost.messages('SetCharacterVisible').at(-1)?.parameter).toBe('false');
+
+    unmount();
+
+    await waitFor(() => {
+      expect(mockUnityHost.messages('SetSpeed')).toEqual([
+        { objectName: 'Charactor', methodName: 'SetSpeed', parameter: '0' },
+      ]);
+    });
+    expect(mockUnityHost.messages('SetCharacterVisible').at(-1)?.parameter).toBe('true');
+  });
+});
@@ -1,6 +1,7 @@
 import { useCallback, useState } from 'react';
 import type { RefObject } from 'react';
 import type { View } from 'react-native';
+import { useDistanceUnit } from '~/shared/hooks';
 import type { ShareResult, ShareRunningData } from '../models/types';
 import { captureAndShare, type ViewBounds } from '../services/shareService';
 
@@ -20,6 +21,7 @@ export const useShareCaptureActions = ({
   runningData,
 }: UseShareCaptureActionsOptions): UseShareCaptureActionsValue => {
   const [isCapturing, setIsCapturing] = useState(false);
+  const { formatDistance } = useDistanceUnit();
 
   const runCaptureAction = useCallback(async <T>(action: () => Promise<T>): Promise<T> => {
     setIsCapturing(true);
@@ -42,8 +44,7 @@ export const useShareCaptureActions = ({
       };
     }
 
-    const distanceKm = (runningData.distance / 1000).toFixed(2);
-    const message = `오늘 ${distanceKm}km 달렸어요! #RunTaeho #러닝`;
+    const message = `오늘 ${formatDistance(runningData.distance)} 달렸어요! #RunTaeho #러닝`;
 
     return runCaptureAction(() =>
       captureAndShare(
@@ -53,7 +54,7 @@ export const useShareCaptureActions = ({
         exportStageBounds
       )
     );
-  }, [runCaptureAction, runningData.distance]);
+  }, [runCaptureAction, runningData.distance, formatDistance]);
 
   return {
     isCapturing,
@@ -25,6 +25,7 @@ import { DEFAULT_GESTURE_HIT_SLOP, SCALE_RANGES } from '../../constants/shareOpt
 import { DraggableStat } from './DraggableStat';
 import { DraggableRouteMap } from './DraggableRouteMap';
 import { PRIMARY } from '~/shared/styles';
+import { useDistanceUnit } from '~/shared/hooks';
 
 const { width: SCREEN_WIDTH } = Dimensions.get('window');
 const CANVAS_PADDING = 16;
@@ -356,21 +357,24 @@ export const SharePreviewCanvas = forwardRef<View, SharePreviewCanvasProps>(
 
     const combinedGesture = Gesture.Simultaneous(panGesture, pinchGesture, rotationGesture);
 
+    const { formatDistance, distanceLabel } = useDistanceUnit();
+
     const formattedStats = useMemo(() => {
-      const distanceKm = (runningData.distance / 1000).toFixed(2);
+      // runningData.pace는 이미 사용자 거리 단위 기준 페이스 문자열
+      const distanceValue = formatDistance(runningData.distance, { withUnit: false });
       const minutes = Math.floor(runningData.durationSec / 60);
       const seconds = runningData.durationSec % 60;
       const durationStr = `${String(minutes).padStart(2, '0')}:${String(seconds).padStart(2, '0')}`;
       const paceFormatted = runningData.pace.replace(':', "'") + '"';
 
       return {
-        distance: { value: distanceKm, label: 'km' },
+        distance: { value: distanceValue, label: distanceLabel },
         time: { value: durationStr, label: '시간' },
         pace: { value: paceFormatted, label: '평균 페이스' },
         points: { value: `+${runningData.earnedPoints}`, label: 'P' },
         map: { value: '', label: '' },
       };
-    }, [runningData]);
+    }, [runningData, formatDistance, distanceLabel]);
 
     const createStatTransformHandler = (type: StatType) => (transform: ElementTransform) => {
       onStatTransformChange(type, transform);
@@ -0,0 +1,166 @@
+import * as Notifications from 'expo-notifications';
+import { createRunningRecord, type RunningRecord } from '~/features/running/models';
+import {
+  calculateShoeAnalytics,
+  createShoe,
+  createShoeAlertMessage,
+  createShoeRetirementSummary,
+  findCrossedShoeThresholds,
+  getShoeAlertThresholds,
+} from '~/features/shoes/models';
+import { shoeAlertService } from '~/features/shoes/services';
+import { useShoeLifecycleStore } from '~/features/shoes/stores/shoeLifecycleStore';
+import { resetAllStores } from '~/test-utils/resetState';
+import { useUserStore } from '~/stores/user/userStore';
+
+jest.mock('expo-notifications', () => ({
+  getPermissionsAsync: jest.fn(),
+  requestPermissionsAsync: jest.fn(),
+  scheduleNotificationAsync: jest.fn(),
+  setBadgeCountAsync: jest.fn(),
+}));
+
+const mockedNotifications = jest.mocked(Notifications);
+
+// 2026-03-10, 2026-03-24, 2026-04-02 (KST/UTC 모두 같은 월)
+const MARCH_10 = Date.UTC(2026, 2, 10, 3) / 1000;
+const MARCH_24 = Date.UTC(2026, 2, 24, 3) / 1000;
+const APRIL_2 = Date.UTC(2026, 3, 2, 3) / 1000;
+
+const record = (id: number, overrides: Partial<RunningRecord>): RunningRecord => ({
+  ...createRunningRecord(id),
+  ...overrides,
+});
+
+const enabledShoe = (totalDistance: number) =>
+  createShoe(7, 'Nike', 'Pegasus 41', totalDistance, 500_000, true, true);
+
+describe('ShoeLifecycle model', () => {
+  it('merges the custom threshold into the default thresholds', () => {
+    expect(getShoeAlertThresholds()).toEqual([80, 100]);
+    expect(getShoeAlertThresholds(50)).toEqual([50, 80, 100]);
+    expect(getShoeAlertThresholds(100)).toEqual([80, 100]);
+  });
+
+  it('finds thresholds crossed since the last alert', () => {
+    const shoe = enabledShoe(420_000);
+
+    expect(findCrossedShoeThresholds(shoe, [50, 80, 100])).toEqual([50, 80]);
+    expect(findCrossedShoeThresholds(shoe, [50, 80, 100], [50])).toEqual([80]);
+    expect(findCrossedShoeThresholds({ ...shoe, targetDistance: undefined }, [80])).toEqual([]);
+    expect(findCrossedShoeThresholds({ ...shoe, isEnabled: false }, [80])).toEqual([]);
+  });
+
+  it('switches the alert copy to a replacement message at 100%', () => {
+    expect(createShoeAlertMessage('Nike Pegasus 41', 80).title).toBe('신발 마일리지 알림');
+    expect(createShoeAlertMessage('Nike Pegasus 41', 100).title).toBe('신발 교체 시기예요');
+  });
+
+  it('analyzes only the records linked to the shoe', () => {
+    const records = [
+      record(1, { shoeId: 7, distance: 10_000, durationSec: 3_000, startTimestamp: MARCH_10 }),
+      record(2, {
+        connectedShoe: enabledShoe(0),
+        distance: 5_000,
+        durationSec: 1_500,
+        startTimestamp: MARCH_24,
+      }),
+      record(3, { shoeId: 7, distance: 15_000, durationSec: 4_500, startTimestamp: APRIL_2 }),
+      record(4, { shoeId: 8, distance: 42_195, durationSec: 12_000, startTimestamp: APRIL_2 }),
+    ];
+
+    const analytics = calculateShoeAnalytics(records, 7);
+
+    expect(analytics.runCount).toBe(3);
+    expect(analytics.totalDistance).toBe(30_000);
+    expect(analytics.averagePace).toBeCloseTo(5);
+    expect(analytics.monthlyMileage).toEqual([
+      { month: '2026-03', distance: 15_000, runCount: 2 },
+      { month: '2026-04', distance: 15_000, runCount: 1 },
+    ]);
+    expect(analytics.firstRunAt).toBe(MARCH_10);
+    expect(analytics.lastRunAt).toBe(APRIL_2);
+  });
+
+  it('summarizes a retired shoe with its server mileage and linked runs', () => {
+    const shoe = enabledShoe(612_000);
+    const analytics = calculateShoeAnalytics(
+      [record(1, { shoeId: 7, distance: 10_000, durationSec: 3_300, startTimestamp: MARCH_10 })],
+      7
+    );
+
+    expect(createShoeRetirementSummary(shoe, analytics, new Date('2026-10-01T00:00:00Z'))).toEqual({
+      shoeId: 7,
+      displayName: 'Nike Pegasus 41',
+      totalDistance: 612_000,
+      targetDistance: 500_000,
+      runCount: 1,
+      averagePace: 5.5,
+      firstRunAt: MARCH_10,
+      lastRunAt: MARCH_10,
+      retiredAt: '2026-10-01T00:00:00.000Z',
+    });
+  });
+});
+
+describe('shoeAlertService', () => {
+  beforeEach(() => {
+    resetAllStores();
+    jest.clearAllMocks();
+    mockedNotifications.getPermissionsAsync.mockResolvedValue({
+      granted: true,
+      canAskAgain: true,
+    } as Notifications.NotificationPermissionsStatus);
+  });
+
+  it('notifies once per shoe when a run crosses a threshold and badges the alert', async () => {
+    const alerts = await shoeAlertService.checkAfterRun(enabledShoe(395_000), 10_000);
+
+    expect(alerts).toEqual([expect.objectContaining({ shoeId: 7, threshold: 80 })]);
+    expect(mockedNotifications.scheduleNotificationAsync).toHaveBeenCalledTimes(1);
+    expect(mockedNotifications.scheduleNotificationAsync).toHaveBeenCalledWith({
+      content: expect.objectContaining({ title: '신발 마일리지 알림' }),
+      trigger: null,
+    });
+    expect(mockedNotifications.setBadgeCountAsync).toHaveBeenLastCalledWith(1);
+    expect(useShoeLifecycleStore.getState().unseenAlerts).toHaveLength(1);
+  });
+
+  it('does not repeat a threshold that was already notified', async () => {
+    await shoeAlertService.checkAfterRun(enabledShoe(395_000), 10_000);
+    jest.clearAllMocks();
+
+    const alerts = await shoeAlertService.checkAfterRun(enabledShoe(405_000), 10_000);
+
+    expect(alerts).toEqual([]);
+    expect(mockedNotifications.scheduleNotificationAsync).not.toHaveBeenCalled();
+  });
+
+  it('uses the custom threshold and reports the highest crossed one', async () => {
+    useShoeLifecycleStore.getState().setCustomThreshold(7, 120);
+
+    const alerts = await shoeAlertService.checkAfterRun(enabledShoe(590_000), 20_000);
+
+    expect(alerts).toEqual([expect.objectContaining({ threshold: 120 })]);
+    expect(useShoeLifecycleStore.getState().notifiedThresholdsByShoeId[7]).toEqual([80, 100, 120]);
+  });
+
+  it('keeps the in-app badge but skips notifications when they are turned off', async () => {
+    useUserStore.getState().updateUserPreferences({ notificationsEnabled: false });
+
+    const alerts = await shoeAlertService.checkAfterRun(enabledShoe(395_000), 10_000);
+
+    expect(alerts).toHaveLength(1);
+    expect(mockedNotifications.scheduleNotificationAsync).not.toHaveBeenCalled();
+    expect(useShoeLifecycleStore.getState().unseenAlerts).toHaveLength(1);
+  });
+
+  it('alerts again after the target distance is reset', async () => {
+    await shoeAlertService.checkAfterRun(enabledShoe(395_000), 10_000);
+    useShoeLifecycleStore.getState().resetShoeAlerts(7);
+
+    const alerts = await shoeAlertService.checkAfterRun(enabledShoe(395_000), 10_000);
+
+    expect(alerts).toHaveLength(1);
+  });
+});
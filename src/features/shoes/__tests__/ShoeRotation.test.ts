@@ -0,0 +1,134 @@
+import { createRunningRecord, type RunningRecord } from '~/features/running/models';
+import {
+  classifyRunProfile,
+  createShoe,
+  getReferencePace,
+  getShoeUsage,
+  suggestShoe,
+  type ShoeRotationRules,
+} from '~/features/shoes/models';
+
+const NOW = new Date('2026-10-19T09:00:00Z');
+const DAY = 24 * 60 * 60;
+const nowSec = NOW.getTime() / 1000;
+
+const record = (id: number, shoeId: number, daysAgo: number, overrides: Partial<RunningRecord> = {}) => ({
+  ...createRunningRecord(id),
+  shoeId,
+  distance: 10_000,
+  durationSec: 3_000,
+  startTimestamp: nowSec - daysAgo * DAY,
+  ...overrides,
+});
+
+const PEGASUS = createShoe(1, 'Nike', 'Pegasus 41', 200_000, 600_000, true, true);
+const NOVABLAST = createShoe(2, 'Asics', 'Novablast 5', 100_000, 600_000, false, true);
+const ENDORPHIN = createShoe(3, 'Saucony', 'Endorphin Speed', 50_000, 500_000, false, true);
+const SHOES = [PEGASUS, NOVABLAST, ENDORPHIN];
+
+const NO_RULES: ShoeRotationRules = { profileShoeIds: {}, alternateShoeIds: [] };
+
+describe('ShoeRotation', () => {
+  describe('classifyRunProfile', () => {
+    it('treats long distances as long runs regardless of pace', () => {
+      expect(classifyRunProfile({ distance: 21_097, durationSec: 7_200 }, 5)).toBe('LONG');
+    });
+
+    it('flags runs clearly faster than the usual pace as speed runs', () => {
+      expect(classifyRunProfile({ distance: 8_000, durationSec: 2_160 }, 5)).toBe('SPEED'); // 4:30
+      expect(classifyRunProfile({ distance: 8_000, durationSec: 2_300 }, 5)).toBe('EASY'); // 4:47
+      expect(classifyRunProfile({ distance: 8_000, durationSec: 2_160 }, null)).toBe('EASY');
+    });
+
+    it('uses the most recent records as the reference pace', () => {
+      const records = [
+        record(1, 1, 1, { durationSec: 3_000 }),
+        ...Array.from({ length: 10 }, (_, index) => record(index + 2, 1, 30 + index, { durationSec: 3_600 })),
+      ];
+
+      // 최근 10개: 5:00 1회 + 6:00 9회
+      expect(getReferencePace(records)).toBeCloseTo(5.9);
+      expect(getReferencePace([])).toBeNull();
+    });
+  });
+
+  it('counts recent runs and the last run per shoe', () => {
+    const usage = getShoeUsage([record(1, 1, 2), record(2, 1, 20), record(3, 2, 5)], NOW);
+
+    expect(usage.get(1)).toEqual({ lastRunAt: nowSec - 2 * DAY, recentRunCount: 1 });
+    expect(usage.get(2)).toEqual({ lastRunAt: nowSec - 5 * DAY, recentRunCount: 1 });
+    expect(usage.get(3)).toBeUndefined();
+  });
+
+  describe('suggestShoe', () => {
+    it('does not suggest with fewer than two enabled shoes', () => {
+      expect(
+        suggestShoe({
+          shoes: [PEGASUS, { ...NOVABLAST, isEnabled: false }],
+          rules: NO_RULES,
+          profile: 'EASY',
+          records: [],
+          now: NOW,
+        })
+      ).toBeNull();
+    });
+
+    it('prefers the shoe assigned to the run profile', () => {
+      expect(
+        suggestShoe({
+          shoes: SHOES,
+          rules: { profileShoeIds: { LONG: 2 }, alternateShoeIds: [1, 3] },
+          profile: 'LONG',
+          records: [record(1, 2, 1)],
+          now: NOW,
+        })
+      ).toEqual({ shoeId: 2, profile: 'LONG', reason: 'PROFILE_RULE' });
+    });
+
+    it('alternates to the shoe that has rested the longest', () => {
+      expect(
+        suggestShoe({
+          shoes: SHOES,
+          rules: { profileShoeIds: { LONG: 2 }, alternateShoeIds: [1, 3] },
+          profile: 'EASY',
+          records: [record(1, 1, 4), record(2, 3, 1)],
+          now: NOW,
+        })
+      ).toEqual({ shoeId: 1, profile: 'EASY', reason: 'ALTERNATE' });
+    });
+
+    it('skips an alternate shoe that has reached its target distance', () => {
+      expect(
+        suggestShoe({
+          shoes: [{ ...PEGASUS, totalDistance: 600_000 }, NOVABLAST, ENDORPHIN],
+          rules: { profileShoeIds: {}, alternateShoeIds: [1, 3] },
+          profile: 'EASY',
+          records: [record(1, 1, 10), record(2, 3, 1)],
+          now: NOW,
+        })
+      ).toEqual({ shoeId: 3, profile: 'EASY', reason: 'ALTERNATE' });
+    });
+
+    it('falls back to the least used shoe with the most distance left', () => {
+      expect(
+        suggestShoe({
+          shoes: SHOES,
+          rules: NO_RULES,
+          profile: 'EASY',
+          records: [record(1, 1, 1), record(2, 1, 3), record(3, 2, 2)],
+          now: NOW,
+        })
+      ).toEqual({ shoeId: 3, profile: 'EASY', reason: 'USAGE' });
+
+      expect(
+        suggestShoe({
+          shoes: [PEGASUS, NOVABLAST],
+          rules: NO_RULES,
+          profile: 'EASY',
+          records: [],
+          now: NOW,
+        })
+      ).toEqual({ shoeId: 2, profile: 'EASY', reason: 'USAGE' });
+    });
+  });
+});
@@ -2,6 +2,9 @@
  * Shoe 모델
  */
 
+import { formatDistance, getDistanceUnitLabel } from '~/shared/utils/unitFormatters';
+import { DistanceUnit } from '~/stores/user/userStore';
+
 /**
  * 신발 기본 모델
  */
@@ -95,9 +98,12 @@ export const createShoe = (
  * 신발 뷰모델 생성
  * Swift ShoeViewModel init 메서드 대응
  */
-export const createShoeViewModel = (shoe: Shoe): ShoeViewModel => {
+export const createShoeViewModel = (
+  shoe: Shoe,
+  unit: DistanceUnit = DistanceUnit.KILOMETER
+): ShoeViewModel => {
   const displayName = `${shoe.brand} ${shoe.model}`;
-  const formattedDistance = `총 누적 거리 ${(shoe.totalDistance / 1000).toFixed(2)}km`;
+  const formattedDistance = `총 누적 거리 ${formatShoeDistance(shoe.totalDistance, unit)}`;
   const isAchieved = !shoe.isEnabled;
 
   // 진행률 계산
@@ -189,10 +195,10 @@ export const validateShoe = (shoe: Partial<Shoe>): {
 /**
  * 신발 포맷팅 헬퍼 함수들
  */
-export const formatShoeDistance = (distanceInMeters: number): string => {
-  const km = distanceInMeters / 1000;
-  return `${km.toFixed(2)}km`;
-};
+export const formatShoeDistance = (
+  distanceInMeters: number,
+  unit: DistanceUnit = DistanceUnit.KILOMETER
+): string => formatDistance(distanceInMeters, unit, { withUnit: false }) + getDistanceUnitLabel(unit);
 
 export const formatShoeProgress = (current: number, target?: number): string => {
   if (!target || target === 0) return '목표 없음';
@@ -201,11 +207,15 @@ export const formatShoeProgress = (current: number, target?: number): string =>
   return `${percentage.toFixed(1)}%`;
 };
 
-export const formatRemainingDistance = (current: number, target?: number): string => {
+export const formatRemainingDistance = (
+  current: number,
+  target?: number,
+  unit: DistanceUnit = DistanceUnit.KILOMETER
+): string => {
   if (!target || target === 0) return '목표 없음';
 
   const remaining = Math.max(target - current, 0);
-  return remaining > 0 ? `${formatShoeDistance(remaining)} 남음` : '목표 달성!';
+  return remaining > 0 ? `${formatShoeDistance(remaining, unit)} 남음` : '목표 달성!';
 };
 
 /**
@@ -0,0 +1,187 @@
+/**
+ * Shoe Lifecycle 모델
+ * 마일리지 알림 기준, 신발별 러닝 분석, 은퇴 요약
+ */
+
+import type { RunningRecord } from '~/features/running/models';
+import type { Shoe } from './Shoe';
+
+/**
+ * 기본 알림 기준 (목표 거리 대비 %)
+ */
+export const DEFAULT_SHOE_ALERT_THRESHOLDS = [80, 100] as const;
+
+/**
+ * 신발별로 추가할 수 있는 사용자 지정 알림 기준 (%)
+ */
+export const CUSTOM_SHOE_ALERT_THRESHOLD_OPTIONS = [50, 60, 70, 90, 120, 150] as const;
+
+// 신발 분석 화면에서 보여줄 최근 월 수
+export const SHOE_MONTHLY_MILEAGE_MONTHS = 6;
+
+/**
+ * 마일리지 알림 (기준을 넘은 시점에 생성)
+ */
+export interface ShoeMileageAlert {
+  shoeId: number;
+  threshold: number; // %
+  displayName: string;
+  createdAt: string; // ISO
+}
+
+/**
+ * 월별 마일리지
+ */
+export interface ShoeMonthlyMileage {
+  month: string; // YYYY-MM
+  distance: number; // 미터
+  runCount: number;
+}
+
+/**
+ * 신발별 러닝 분석
+ */
+export interface ShoeAnalytics {
+  runCount: number;
+  totalDistance: number; // 미터 (연결된 기록 합계)
+  totalDurationSec: number;
+  averagePace: number; // 분/km, 기록이 없으면 0
+  monthlyMileage: ShoeMonthlyMileage[]; // 오래된 월부터
+  firstRunAt: number | null; // Unix timestamp (초)
+  lastRunAt: number | null;
+}
+
+/**
+ * 은퇴 요약 (신발을 은퇴시킨 시점의 기록)
+ */
+export interface ShoeRetirementSummary {
+  shoeId: number;
+  displayName: string;
+  totalDistance: number; // 미터 (서버 누적 거리)
+  targetDistance: number | null;
+  runCount: number;
+  averagePace: number; // 분/km
+  firstRunAt: number | null;
+  lastRunAt: number | null;
+  retiredAt: string; // ISO
+}
+
+/**
+ * 알림 기준 목록 (기본 + 사용자 지정, 오름차순)
+ */
+export const getShoeAlertThresholds = (customThreshold: number | null = null): number[] => {
+  const thresholds = new Set<number>(DEFAULT_SHOE_ALERT_THRESHOLDS);
+  if (customThreshold !== null) {
+    thresholds.add(customThreshold);
+  }
+  return [...thresholds].sort((a, b) => a - b);
+};
+
+/**
+ * 목표 거리 대비 사용률 (%), 목표가 없으면 null
+ */
+export const getShoeMileagePercentage = (
+  shoe: Pick<Shoe, 'totalDistance' | 'targetDistance'>
+): number | null => {
+  if (!shoe.targetDistance || shoe.targetDistance <= 0) return null;
+  return (shoe.totalDistance / shoe.targetDistance) * 100;
+};
+
+/**
+ * 새로 넘은 알림 기준
+ * 이미 알린 기준은 제외하고, 목표 거리가 없거나 보관된 신발은 알리지 않는다.
+ */
+export const findCrossedShoeThresholds = (
+  shoe: Pick<Shoe, 'totalDistance' | 'targetDistance' | 'isEnabled'>,
+  thresholds: number[],
+  notifiedThresholds: number[] = []
+): number[] => {
+  const percentage = getShoeMileagePercentage(shoe);
+  if (percentage === null || !shoe.isEnabled) return [];
+
+  return thresholds.filter(
+    (threshold) => percentage >= threshold && !notifiedThresholds.includes(threshold)
+  );
+};
+
+/**
+ * 알림 문구
+ */
+export const createShoeAlertMessage = (
+  displayName: string,
+  threshold: number
+): { title: string; body: string } => {
+  if (threshold >= 100) {
+    return {
+      title: '신발 교체 시기예요',
+      body: `${displayName}이(가) 목표 거리의 ${threshold}%를 달렸어요. 은퇴를 고려해보세요.`,
+    };
+  }
+
+  return {
+    title: '신발 마일리지 알림',
+    body: `${displayName}이(가) 목표 거리의 ${threshold}%에 도달했어요.`,
+  };
+};
+
+const toMonthKey = (timestamp: number): string => {
+  const date = new Date(timestamp * 1000);
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
+};
+
+/**
+ * 신발에 연결된 러닝 기록 분석
+ */
+export const calculateShoeAnalytics = (records: RunningRecord[], shoeId: number): ShoeAnalytics => {
+  const shoeRecords = records.filter(
+    (record) => (record.shoeId ?? record.connectedShoe?.id ?? null) === shoeId
+  );
+
+  const monthly = new Map<string, ShoeMonthlyMileage>();
+  let totalDistance = 0;
+  let totalDurationSec = 0;
+  let firstRunAt: number | null = null;
+  let lastRunAt: number | null = null;
+
+  for (const record of shoeRecords) {
+    totalDistance += record.distance;
+    totalDurationSec += record.durationSec;
+    firstRunAt = firstRunAt === null ? record.startTimestamp : Math.min(firstRunAt, record.startTimestamp);
+    lastRunAt = lastRunAt === null ? record.startTimestamp : Math.max(lastRunAt, record.startTimestamp);
+
+    const month = toMonthKey(record.startTimestamp);
+    const entry = monthly.get(month) ?? { month, distance: 0, runCount: 0 };
+    entry.distance += record.distance;
+    entry.runCount += 1;
+    monthly.set(month, entry);
+  }
+
+  return {
+    runCount: shoeRecords.length,
+    totalDistance,
+    totalDurationSec,
+    averagePace: totalDistance > 0 ? totalDurationSec / 60 / (totalDistance / 1000) : 0,
+    monthlyMileage: [...monthly.values()].sort((a, b) => a.month.localeCompare(b.month)),
+    firstRunAt,
+    lastRunAt,
+  };
+};
+
+/**
+ * 은퇴 요약 생성
+ */
+export const createShoeRetirementSummary = (
+  shoe: Pick<Shoe, 'id' | 'brand' | 'model' | 'totalDistance' | 'targetDistance'>,
+  analytics: ShoeAnalytics,
+  retiredAt: Date = new Date()
+): ShoeRetirementSummary => ({
+  shoeId: shoe.id,
+  displayName: `${shoe.brand} ${shoe.model}`,
+  totalDistance: shoe.totalDistance,
+  targetDistance: shoe.targetDistance ?? null,
+  runCount: analytics.runCount,
+  averagePace: analytics.averagePace,
+  firstRunAt: analytics.firstRunAt,
+  lastRunAt: analytics.lastRunAt,
+  retiredAt: retiredAt.toISOString(),
+});
@@ -0,0 +1,213 @@
+/**
+ * Shoe Rotation 모델
+ * 러닝 유형별 신발, 번갈아 신기 규칙과 러닝 시작/완료 시 신발 추천
+ */
+
+import type { RunningRecord } from '~/features/running/models';
+import type { Shoe } from './Shoe';
+
+/**
+ * 러닝 유형
+ * - LONG: 장거리 (LONG_RUN_DISTANCE 이상)
+ * - SPEED: 평소보다 빠른 페이스 또는 워크아웃
+ * - EASY: 그 외 일반 러닝
+ */
+export type RunProfile = 'LONG' | 'SPEED' | 'EASY';
+
+export const RUN_PROFILES: RunProfile[] = ['LONG', 'SPEED', 'EASY'];
+
+export const RUN_PROFILE_LABELS: Record<RunProfile, string> = {
+  LONG: '장거리',
+  SPEED: '스피드',
+  EASY: '일반',
+};
+
+// 장거리 러닝 기준 (미터)
+export const LONG_RUN_DISTANCE = 15_000;
+
+// 평소 페이스 대비 이 비율 이하로 빠르면 스피드 러닝
+export const SPEED_RUN_PACE_RATIO = 0.93;
+
+// 평소 페이스 계산에 쓰는 최근 기록 수
+export const REFERENCE_PACE_RECORD_COUNT = 10;
+
+// "최근 사용량"으로 보는 기간 (일)
+export const RECENT_SHOE_USAGE_DAYS = 14;
+
+/**
+ * 로테이션 규칙
+ */
+export interface ShoeRotationRules {
+  profileShoeIds: Partial<Record<RunProfile, number>>;
+  alternateShoeIds: number[];
+}
+
+export type ShoeSuggestionReason = 'PROFILE_RULE' | 'ALTERNATE' | 'USAGE';
+
+/**
+ * 신발 추천 결과
+ */
+export interface ShoeSuggestion {
+  shoeId: number;
+  profile: RunProfile;
+  reason: ShoeSuggestionReason;
+}
+
+/**
+ * 신발별 사용 기록
+ */
+export interface ShoeUsage {
+  lastRunAt: number | null; // Unix timestamp (초)
+  recentRunCount: number;
+}
+
+const getRecordShoeId = (record: RunningRecord): number | null =>
+  record.shoeId ?? record.connectedShoe?.id ?? null;
+
+const getPace = (distance: number, durationSec: number): number | null =>
+  distance > 0 && durationSec > 0 ? durationSec / 60 / (distance / 1000) : null;
+
+/**
+ * 최근 기록의 평균 페이스 (분/km), 기록이 없으면 null
+ */
+export const getReferencePace = (records: RunningRecord[]): number | null => {
+  const recent = [...records]
+    .filter((record) => record.distance > 0 && record.durationSec > 0)
+    .sort((a, b) => b.startTimestamp - a.startTimestamp)
+    .slice(0, REFERENCE_PACE_RECORD_COUNT);
+
+  const distance = recent.reduce((sum, record) => sum + record.distance, 0);
+  const durationSec = recent.reduce((sum, record) => sum + record.durationSec, 0);
+  return getPace(distance, durationSec);
+};
+
+/**
+ * 실제 러닝 결과로 러닝 유형 판정
+ */
+export const classifyRunProfile = (
+  run: { distance: number; durationSec: number },
+  referencePace: number | null
+): RunProfile => {
+  if (run.distance >= LONG_RUN_DISTANCE) return 'LONG';
+
+  const pace = getPace(run.distance, run.durationSec);
+  if (pace !== null && referencePace !== null && pace <= referencePace * SPEED_RUN_PACE_RATIO) {
+    return 'SPEED';
+  }
+
+  return 'EASY';
+};
+
+/**
+ * 신발별 마지막 사용 시점과 최근 러닝 수
+ */
+export const getShoeUsage = (
+  records: RunningRecord[],
+  now: Date = new Date()
+): Map<number, ShoeUsage> => {
+  const recentSince = now.getTime() / 1000 - RECENT_SHOE_USAGE_DAYS * 24 * 60 * 60;
+  const usage = new Map<number, ShoeUsage>();
+
+  for (const record of records) {
+    const shoeId = getRecordShoeId(record);
+    if (shoeId === null) continue;
+
+    const entry = usage.get(shoeId) ?? { lastRunAt: null, recentRunCount: 0 };
+    entry.lastRunAt =
+      entry.lastRunAt === null ? record.startTimestamp : Math.max(entry.lastRunAt, record.startTimestamp);
+    if (record.startTimestamp >= recentSince) {
+      entry.recentRunCount += 1;
+    }
+    usage.set(shoeId, entry);
+  }
+
+  return usage;
+};
+
+/**
+ * 목표 거리까지 남은 거리 (목표가 없으면 무한대로 취급)
+ */
+const getRemainingDistance = (shoe: Shoe): number =>
+  shoe.targetDistance ? shoe.targetDistance - shoe.totalDistance : Number.POSITIVE_INFINITY;
+
+/**
+ * 목표 거리를 다 채운 신발은 다른 신발이 있으면 후보에서 뺀다
+ */
+const excludeWornOut = (shoes: Shoe[]): Shoe[] => {
+  const fresh = shoes.filter((shoe) => getRemainingDistance(shoe) > 0);
+  return fresh.length > 0 ? fresh : shoes;
+};
+
+/**
+ * 덜 신은 순서 (최근 러닝 수 → 마지막 사용 시점 → 남은 거리)
+ */
+const compareByUsage =
+  (usage: Map<number, ShoeUsage>) =>
+  (a: Shoe, b: Shoe): number => {
+    const usageA = usage.get(a.id);
+    const usageB = usage.get(b.id);
+
+    const recentDiff = (usageA?.recentRunCount ?? 0) - (usageB?.recentRunCount ?? 0);
+    if (recentDiff !== 0) return recentDiff;
+
+    const lastDiff = (usageA?.lastRunAt ?? 0) - (usageB?.lastRunAt ?? 0);
+    if (lastDiff !== 0) return lastDiff;
+
+    return getRemainingDistance(b) - getRemainingDistance(a);
+  };
+
+/**
+ * 신발 추천
+ * 1. 러닝 유형에 지정된 신발
+ * 2. 번갈아 신기 그룹에서 가장 오래 쉰 신발
+ * 3. 보유 신발 중 최근에 덜 신고 남은 거리가 많은 신발
+ * 활성화된 신발이 2켤레 미만이면 추천하지 않는다.
+ */
+export const suggestShoe = ({
+  shoes,
+  rules,
+  profile,
+  records,
+  now = new Date(),
+}: {
+  shoes: Shoe[];
+  rules: ShoeRotationRules;
+  profile: RunProfile;
+  records: RunningRecord[];
+  now?: Date;
+}): ShoeSuggestion | null => {
+  const enabledShoes = shoes.filter((shoe) => shoe.isEnabled);
+  if (enabledShoes.length < 2) return null;
+
+  const profileShoeId = rules.profileShoeIds[profile];
+  if (profileShoeId !== undefined && enabledShoes.some((shoe) => shoe.id === profileShoeId)) {
+    return { shoeId: profileShoeId, profile, reason: 'PROFILE_RULE' };
+  }
+
+  const usage = getShoeUsage(records, now);
+  const alternateShoes = enabledShoes.filter((shoe) => rules.alternateShoeIds.includes(shoe.id));
+  if (alternateShoes.length >= 2) {
+    const [next] = excludeWornOut(alternateShoes).sort((a, b) => {
+      const lastDiff = (usage.get(a.id)?.lastRunAt ?? 0) - (usage.get(b.id)?.lastRunAt ?? 0);
+      return lastDiff !== 0 ? lastDiff : getRemainingDistance(b) - getRemainingDistance(a);
+    });
+    if (next) return { shoeId: next.id, profile, reason: 'ALTERNATE' };
+  }
+
+  const [leastUsed] = excludeWornOut(enabledShoes).sort(compareByUsage(usage));
+  return leastUsed ? { shoeId: leastUsed.id, profile, reason: 'USAGE' } : null;
+};
+
+/**
+ * 추천 이유 문구
+ */
+export const getShoeSuggestionReasonText = (suggestion: ShoeSuggestion): string => {
+  switch (suggestion.reason) {
+    case 'PROFILE_RULE':
+      return `${RUN_PROFILE_LABELS[suggestion.profile]} 러닝용 신발`;
+    case 'ALTERNATE':
+      return '번갈아 신을 차례';
+    case 'USAGE':
+      return '최근에 덜 신은 신발';
+  }
+};
@@ -1,4 +1,6 @@
 /**
  * Shoes Models 통합 Export
  */
-export * from './Shoe';
\ No newline at end of file
+export * from './Shoe';
+export * from './ShoeLifecycle';
+export * from './ShoeRotation';
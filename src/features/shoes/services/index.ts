@@ -2,4 +2,5 @@
  * Shoes Services 통합 Export
  */
 export * from './shoeService';
-export * from './shoeQueries';
\ No newline at end of file
+export * from './shoeQueries';
+export * from './shoeAlertService';
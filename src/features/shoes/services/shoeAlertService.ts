@@ -0,0 +1,106 @@
+/**
+ * Shoe Alert Service
+ * 러닝 후 신발 마일리지가 알림 기준을 넘으면 로컬 알림을 보내고 앱 배지를 갱신
+ */
+
+import * as Notifications from 'expo-notifications';
+import { useUserStore } from '~/stores/user/userStore';
+import {
+  createShoeAlertMessage,
+  findCrossedShoeThresholds,
+  getShoeAlertThresholds,
+  type Shoe,
+  type ShoeMileageAlert,
+} from '../models';
+import { useShoeLifecycleStore } from '../stores/shoeLifecycleStore';
+
+const ensureNotificationPermission = async (): Promise<boolean> => {
+  const current = await Notifications.getPermissionsAsync();
+  if (current.granted) return true;
+  if (!current.canAskAgain) return false;
+
+  const requested = await Notifications.requestPermissionsAsync();
+  return requested.granted;
+};
+
+export const shoeAlertService = {
+  /**
+   * 신발 목록의 마일리지 알림 확인
+   * 새로 넘은 기준이 있는 신발마다 가장 높은 기준으로 알림 1개를 보낸다.
+   */
+  checkMileageAlerts: async (shoes: Shoe[]): Promise<ShoeMileageAlert[]> => {
+    const { customThresholdByShoeId, notifiedThresholdsByShoeId, recordAlert } =
+      useShoeLifecycleStore.getState();
+    const alerts: ShoeMileageAlert[] = [];
+
+    for (const shoe of shoes) {
+      const crossed = findCrossedShoeThresholds(
+        shoe,
+        getShoeAlertThresholds(customThresholdByShoeId[shoe.id] ?? null),
+        notifiedThresholdsByShoeId[shoe.id]
+      );
+      if (crossed.length === 0) continue;
+
+      const alert: ShoeMileageAlert = {
+        shoeId: shoe.id,
+        threshold: Math.max(...crossed),
+        displayName: `${shoe.brand} ${shoe.model}`,
+        createdAt: new Date().toISOString(),
+      };
+      recordAlert(alert, crossed);
+      alerts.push(alert);
+    }
+
+    if (alerts.length === 0) return alerts;
+
+    try {
+      await shoeAlertService.notify(alerts);
+    } catch (error) {
+      console.warn('[ShoeAlertService] 알림 전송 실패:', error);
+    }
+
+    return alerts;
+  },
+
+  /**
+   * 러닝 완료 후 확인
+   * 완료 화면의 신발 정보는 이번 러닝 거리가 반영되기 전이므로 더해서 계산한다.
+   */
+  checkAfterRun: async (shoe: Shoe | null, runDistance: number): Promise<ShoeMileageAlert[]> => {
+    if (!shoe || runDistance <= 0) return [];
+
+    return shoeAlertService.checkMileageAlerts([
+      { ...shoe, totalDistance: shoe.totalDistance + runDistance },
+    ]);
+  },
+
+  /**
+   * 로컬 알림 전송 + 배지 갱신 (알림 설정이 꺼져 있으면 배지만 앱 안에 남는다)
+   */
+  notify: async (alerts: ShoeMileageAlert[]): Promise<void> => {
+    if (!useUserStore.getState().userPreferences.notificationsEnabled) return;
+
+    if (!(await ensureNotificationPermission())) return;
+
+    for (const alert of alerts) {
+      const { title, body } = createShoeAlertMessage(alert.displayName, alert.threshold);
+      await Notifications.scheduleNotificationAsync({
+        content: { title, body, data: { shoeId: alert.shoeId, threshold: alert.threshold } },
+        trigger: null,
+      });
+    }
+
+    await shoeAlertService.syncBadgeCount();
+  },
+
+  /**
+   * 앱 아이콘 배지를 확인하지 않은 신발 알림 수로 맞춘다
+   */
+  syncBadgeCount: async (): Promise<void> => {
+    try {
+      await Notifications.setBadgeCountAsync(useShoeLifecycleStore.getState().unseenAlerts.length);
+    } catch (error) {
+      console.warn('[ShoeAlertService] 배지 갱신 실패:', error);
+    }
+  },
+};
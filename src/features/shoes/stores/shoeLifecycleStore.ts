@@ -0,0 +1,101 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { create } from 'zustand';
+import { createJSONStorage, persist } from 'zustand/middleware';
+import type { ShoeMileageAlert, ShoeRetirementSummary } from '../models/ShoeLifecycle';
+
+/**
+ * Shoe Lifecycle Store (Zustand)
+ * 신발별 사용자 지정 알림 기준, 이미 보낸 알림, 확인하지 않은 알림(배지), 은퇴 요약
+ * 서버 신발 모델에는 없는 정보라 기기에 저장한다.
+ */
+interface ShoeLifecycleState {
+  customThresholdByShoeId: Record<number, number>;
+  notifiedThresholdsByShoeId: Record<number, number[]>;
+  unseenAlerts: ShoeMileageAlert[];
+  retirementSummaries: Record<number, ShoeRetirementSummary>;
+
+  // Actions
+  setCustomThreshold: (shoeId: number, threshold: number | null) => void;
+  recordAlert: (alert: ShoeMileageAlert, crossedThresholds: number[]) => void;
+  markAlertsSeen: (shoeId?: number) => void;
+  resetShoeAlerts: (shoeId: number) => void;
+  archiveRetirement: (summary: ShoeRetirementSummary) => void;
+  reset: () => void;
+}
+
+const initialState = {
+  customThresholdByShoeId: {} as Record<number, number>,
+  notifiedThresholdsByShoeId: {} as Record<number, number[]>,
+  unseenAlerts: [] as ShoeMileageAlert[],
+  retirementSummaries: {} as Record<number, ShoeRetirementSummary>,
+};
+
+const omitShoe = <T>(record: Record<number, T>, shoeId: number): Record<number, T> => {
+  const { [shoeId]: _omitted, ...rest } = record;
+  return rest;
+};
+
+export const useShoeLifecycleStore = create<ShoeLifecycleState>()(
+  persist(
+    (set) => ({
+      ...initialState,
+
+      setCustomThreshold: (shoeId, threshold) =>
+        set((state) => ({
+          customThresholdByShoeId:
+            threshold === null
+              ? omitShoe(state.customThresholdByShoeId, shoeId)
+              : { ...state.customThresholdByShoeId, [shoeId]: threshold },
+        })),
+
+      // 넘은 기준은 다시 알리지 않도록 기록하고, 배지에는 신발별 최신 알림만 남긴다
+      recordAlert: (alert, crossedThresholds) =>
+        set((state) => ({
+          notifiedThresholdsByShoeId: {
+            ...state.notifiedThresholdsByShoeId,
+            [alert.shoeId]: [
+              ...(state.notifiedThresholdsByShoeId[alert.shoeId] ?? []),
+              ...crossedThresholds,
+            ],
+          },
+          unseenAlerts: [
+            ...state.unseenAlerts.filter((unseen) => unseen.shoeId !== alert.shoeId),
+            alert,
+          ],
+        })),
+
+      markAlertsSeen: (shoeId) =>
+        set((state) => ({
+          unseenAlerts:
+            shoeId === undefined
+              ? []
+              : state.unseenAlerts.filter((alert) => alert.shoeId !== shoeId),
+        })),
+
+      // 목표 거리가 바뀌면 기준을 다시 넘을 수 있도록 초기화
+      resetShoeAlerts: (shoeId) =>
+        set((state) => ({
+          notifiedThresholdsByShoeId: omitShoe(state.notifiedThresholdsByShoeId, shoeId),
+          unseenAlerts: state.unseenAlerts.filter((alert) => alert.shoeId !== shoeId),
+        })),
+
+      archiveRetirement: (summary) =>
+        set((state) => ({
+          retirementSummaries: { ...state.retirementSummaries, [summary.shoeId]: summary },
+          unseenAlerts: state.unseenAlerts.filter((alert) => alert.shoeId !== summary.shoeId),
+        })),
+
+      reset: () => set(initialState),
+    }),
+    {
+      name: 'shoe-lifecycle-storage', // AsyncStorage key
+      storage: createJSONStorage(() => AsyncStorage),
+      partialize: (state) => ({
+        customThresholdByShoeId: state.customThresholdByShoeId,
+        notifiedThresholdsByShoeId: state.notifiedThresholdsByShoeId,
+        unseenAlerts: state.unseenAlerts,
+        retirementSummaries: state.retirementSummaries,
+      }),
+    }
+  )
+);
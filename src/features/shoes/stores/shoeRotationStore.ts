@@ -0,0 +1,58 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { create } from 'zustand';
+import { createJSONStorage, persist } from 'zustand/middleware';
+import type { RunProfile, ShoeRotationRules } from '../models/ShoeRotation';
+
+/**
+ * Shoe Rotation Store (Zustand)
+ * 러닝 유형별 신발과 번갈아 신을 신발 그룹 (기기에 저장)
+ */
+interface ShoeRotationState extends ShoeRotationRules {
+  isRotationEnabled: boolean;
+
+  // Actions
+  setRotationEnabled: (enabled: boolean) => void;
+  setProfileShoe: (profile: RunProfile, shoeId: number | null) => void;
+  toggleAlternateShoe: (shoeId: number) => void;
+  reset: () => void;
+}
+
+const initialState = {
+  isRotationEnabled: false,
+  profileShoeIds: {} as Partial<Record<RunProfile, number>>,
+  alternateShoeIds: [] as number[],
+};
+
+export const useShoeRotationStore = create<ShoeRotationState>()(
+  persist(
+    (set) => ({
+      ...initialState,
+
+      setRotationEnabled: (enabled) => set({ isRotationEnabled: enabled }),
+
+      setProfileShoe: (profile, shoeId) =>
+        set((state) => {
+          const { [profile]: _previous, ...rest } = state.profileShoeIds;
+          return { profileShoeIds: shoeId === null ? rest : { ...rest, [profile]: shoeId } };
+        }),
+
+      toggleAlternateShoe: (shoeId) =>
+        set((state) => ({
+          alternateShoeIds: state.alternateShoeIds.includes(shoeId)
+            ? state.alternateShoeIds.filter((id) => id !== shoeId)
+            : [...state.alternateShoeIds, shoeId],
+        })),
+
+      reset: () => set(initialState),
+    }),
+    {
+      name: 'shoe-rotation-storage', // AsyncStorage key
+      storage: createJSONStorage(() => AsyncStorage),
+      partialize: (state) => ({
+        isRotationEnabled: state.isRotationEnabled,
+        profileShoeIds: state.profileShoeIds,
+        alternateShoeIds: state.alternateShoeIds,
+      }),
+    }
+  )
+);
@@ -1,4 +1,5 @@
 import { useCallback, useMemo, useState } from 'react';
+import { useDistanceUnit } from '~/shared/hooks';
 import { useInfiniteShoes, useAddShoe, usePatchShoe, useUpdateToMain } from '../services';
 import {
   type Shoe,
@@ -15,6 +16,8 @@ import {
  * Swift ShoeViewModel을 React Hook으로 마이그레이션
  */
 export const useShoeViewModel = () => {
+  const { unit: distanceUnit } = useDistanceUnit();
+
   // 필터 상태
   const [shoeFilters, setShoeFilters] = useState<{
     isEnabled?: boolean;
@@ -178,15 +181,15 @@ export const useShoeViewModel = () => {
    * 신발 뷰모델 목록
    */
   const shoeViewModels = useMemo(() => {
-    return filteredShoes.map(createShoeViewModel);
-  }, [filteredShoes]);
+    return filteredShoes.map((shoe) => createShoeViewModel(shoe, distanceUnit));
+  }, [filteredShoes, distanceUnit]);
 
   /**
    * 메인 신발 뷰모델
    */
   const mainShoeViewModel = useMemo(() => {
-    return mainShoe ? createShoeViewModel(mainShoe) : null;
-  }, [mainShoe]);
+    return mainShoe ? createShoeViewModel(mainShoe, distanceUnit) : null;
+  }, [mainShoe, distanceUnit]);
 
   /**
    * 더 많은 신발 로드 (무한 스크롤)
@@ -1,4 +1,6 @@
 /**
  * Shoes ViewModels 통합 Export
  */
-export * from './ShoeViewModel';
\ No newline at end of file
+export * from './ShoeViewModel';
+export * from './useShoeLifecycleViewModel';
+export * from './useShoeRotationViewModel';
@@ -0,0 +1,90 @@
+import { useCallback, useMemo } from 'react';
+import { useGetAllRunningRecords } from '~/features/statistics/services';
+import {
+  SHOE_MONTHLY_MILEAGE_MONTHS,
+  calculateShoeAnalytics,
+  createPatchShoeDto,
+  createShoeRetirementSummary,
+  getShoeAlertThresholds,
+  getShoeMileagePercentage,
+  type ShoeRetirementSummary,
+  type ShoeViewModel,
+} from '../models';
+import { shoeAlertService, usePatchShoe } from '../services';
+import { useShoeLifecycleStore } from '../stores/shoeLifecycleStore';
+
+/**
+ * Shoe Lifecycle ViewModel
+ *
+ * 책임:
+ * - 신발에 연결된 러닝 기록 분석 (러닝 수, 평균 페이스, 월별 마일리지)
+ * - 신발별 알림 기준 설정과 미확인 알림 처리
+ * - 은퇴 처리 (isEnabled false + 은퇴 요약 보관)
+ */
+export const useShoeLifecycleViewModel = (shoe: ShoeViewModel) => {
+  const { data: records, isLoading: isLoadingRecords } = useGetAllRunningRecords();
+  const { mutateAsync: patchShoe, isPending: isRetiring } = usePatchShoe();
+  const customThreshold = useShoeLifecycleStore(
+    (state) => state.customThresholdByShoeId[shoe.id] ?? null
+  );
+  const unseenAlert = useShoeLifecycleStore(
+    (state) => state.unseenAlerts.find((alert) => alert.shoeId === shoe.id) ?? null
+  );
+  const retirementSummary = useShoeLifecycleStore(
+    (state) => state.retirementSummaries[shoe.id] ?? null
+  );
+
+  const analytics = useMemo(
+    () => calculateShoeAnalytics(records ?? [], shoe.id),
+    [records, shoe.id]
+  );
+
+  const recentMonthlyMileage = useMemo(
+    () => analytics.monthlyMileage.slice(-SHOE_MONTHLY_MILEAGE_MONTHS),
+    [analytics]
+  );
+
+  const alertThresholds = useMemo(() => getShoeAlertThresholds(customThreshold), [customThreshold]);
+
+  const setCustomThreshold = useCallback(
+    (threshold: number | null) => {
+      useShoeLifecycleStore.getState().setCustomThreshold(shoe.id, threshold);
+    },
+    [shoe.id]
+  );
+
+  /**
+   * 상세 화면 진입 시 이 신발의 알림 배지 정리
+   */
+  const markAlertSeen = useCallback(() => {
+    useShoeLifecycleStore.getState().markAlertsSeen(shoe.id);
+    void shoeAlertService.syncBadgeCount();
+  }, [shoe.id]);
+
+  /**
+   * 신발 은퇴: 보관 처리 후 요약을 기기에 남긴다
+   */
+  const retireShoe = useCallback(async (): Promise<ShoeRetirementSummary> => {
+    await patchShoe(createPatchShoeDto(shoe.id, { isMain: false, isEnabled: false }));
+
+    const summary = createShoeRetirementSummary(shoe, analytics);
+    useShoeLifecycleStore.getState().archiveRetirement(summary);
+    void shoeAlertService.syncBadgeCount();
+    return summary;
+  }, [analytics, patchShoe, shoe]);
+
+  return {
+    analytics,
+    recentMonthlyMileage,
+    isLoadingRecords,
+    mileagePercentage: getShoeMileagePercentage(shoe),
+    alertThresholds,
+    customThreshold,
+    setCustomThreshold,
+    unseenAlert,
+    markAlertSeen,
+    retirementSummary,
+    retireShoe,
+    isRetiring,
+  };
+};
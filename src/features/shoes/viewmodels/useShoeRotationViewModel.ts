@@ -0,0 +1,100 @@
+import { useMemo } from 'react';
+import { useGetAllRunningRecords } from '~/features/statistics/services';
+import {
+  classifyRunProfile,
+  getReferencePace,
+  suggestShoe,
+  type RunProfile,
+  type Shoe,
+  type ShoeSuggestion,
+} from '../models';
+import { useShoeRotationStore } from '../stores/shoeRotationStore';
+import { useShoeViewModel } from './ShoeViewModel';
+
+/**
+ * Shoe Rotation ViewModel
+ *
+ * 책임:
+ * - 로테이션 설정 화면 상태 (사용 여부, 러닝 유형별 신발, 번갈아 신기 그룹)
+ */
+export const useShoeRotationViewModel = () => {
+  const { shoes, isLoadingShoes } = useShoeViewModel();
+  const isRotationEnabled = useShoeRotationStore((state) => state.isRotationEnabled);
+  const profileShoeIds = useShoeRotationStore((state) => state.profileShoeIds);
+  const alternateShoeIds = useShoeRotationStore((state) => state.alternateShoeIds);
+  const setRotationEnabled = useShoeRotationStore((state) => state.setRotationEnabled);
+  const setProfileShoe = useShoeRotationStore((state) => state.setProfileShoe);
+  const toggleAlternateShoe = useShoeRotationStore((state) => state.toggleAlternateShoe);
+
+  const enabledShoes = useMemo(() => shoes.filter((shoe) => shoe.isEnabled), [shoes]);
+
+  return {
+    enabledShoes,
+    isLoadingShoes,
+    isRotationEnabled,
+    profileShoeIds,
+    alternateShoeIds,
+    setRotationEnabled,
+    setProfileShoe,
+    toggleAlternateShoe,
+  };
+};
+
+/**
+ * 신발 추천
+ * - 러닝 시작: 예정된 러닝 유형(profile)으로 추천
+ * - 러닝 완료: 실제 거리/시간(run)으로 유형을 판정해 추천
+ * 로테이션을 켜지 않았으면 기록을 불러오지 않고 추천도 하지 않는다.
+ */
+export const useShoeSuggestion = (
+  options: { profile: RunProfile } | { run: { distance: number; durationSec: number } }
+): {
+  suggestion: ShoeSuggestion | null;
+  suggestedShoe: Shoe | null;
+  isLoadingSuggestion: boolean;
+} => {
+  const { shoes, isLoadingShoes } = useShoeViewModel();
+  const isRotationEnabled = useShoeRotationStore((state) => state.isRotationEnabled);
+  const profileShoeIds = useShoeRotationStore((state) => state.profileShoeIds);
+  const alternateShoeIds = useShoeRotationStore((state) => state.alternateShoeIds);
+  const { data: records, isLoading: isLoadingRecords } = useGetAllRunningRecords({
+    enabled: isRotationEnabled,
+  });
+
+  const plannedProfile = 'profile' in options ? options.profile : null;
+  const runDistance = 'run' in options ? options.run.distance : null;
+  const runDurationSec = 'run' in options ? options.run.durationSec : null;
+
+  const suggestion = useMemo(() => {
+    if (!isRotationEnabled || !records) return null;
+
+    const profile =
+      plannedProfile ??
+      classifyRunProfile(
+        { distance: runDistance ?? 0, durationSec: runDurationSec ?? 0 },
+        getReferencePace(records)
+      );
+
+    return suggestShoe({
+      shoes,
+      rules: { profileShoeIds, alternateShoeIds },
+      profile,
+      records,
+    });
+  }, [
+    alternateShoeIds,
+    isRotationEnabled,
+    plannedProfile,
+    profileShoeIds,
+    records,
+    runDistance,
+    runDurationSec,
+    shoes,
+  ]);
+
+  return {
+    suggestion,
+    suggestedShoe: suggestion ? (shoes.find((shoe) => shoe.id === suggestion.shoeId) ?? null) : null,
+    isLoadingSuggestion: isRotationEnabled && (isLoadingShoes || isLoadingRecords),
+  };
+};
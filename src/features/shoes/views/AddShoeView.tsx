@@ -11,6 +11,7 @@ import {
 import { SafeAreaProvider } from 'react-native-safe-area-context';
 import { TopScreenSafeAreaView } from '~/shared/components';
 import { Text } from '~/shared/components/typography';
+import { useDistanceUnit } from '~/shared/hooks';
 import { GREY, PRIMARY, RED } from '~/shared/styles';
 import { createAddShoeDto } from '../models';
 import { shoeService } from '../services';
@@ -24,6 +25,7 @@ interface AddShoeViewProps {
 }
 
 export const AddShoeView: React.FC<AddShoeViewProps> = ({ onClose, onSuccess }) => {
+  const { distanceLabel, convertDistanceToMeters } = useDistanceUnit();
   const [brand, setBrand] = useState('');
   const [model, setModel] = useState('');
   const [targetDistance, setTargetDistance] = useState('');
@@ -72,7 +74,7 @@ export const AddShoeView: React.FC<AddShoeViewProps> = ({ onClose, onSuccess })
       const dto = createAddShoeDto(
         brand.trim(),
         model.trim(),
-        parseInt(targetDistance) * 1000, // km to meters
+        Math.round(convertDistanceToMeters(parseInt(targetDistance))),
         false
       );
 
@@ -119,7 +121,7 @@ export const AddShoeView: React.FC<AddShoeViewProps> = ({ onClose, onSuccess })
 
             {/* 목표 거리 입력 */}
             <InputField
-              label="목표 거리 (km)"
+              label={`목표 거리 (${distanceLabel})`}
               placeholder="목표 거리를 입력해주세요."
               value={targetDistance}
               onChangeText={handleTargetDistanceChange}
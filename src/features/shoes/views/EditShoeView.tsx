@@ -11,10 +11,12 @@ import {
 import { SafeAreaProvider } from 'react-native-safe-area-context';
 import { TopScreenSafeAreaView } from '~/shared/components';
 import { Text } from '~/shared/components/typography';
+import { useDistanceUnit } from '~/shared/hooks';
 import { GREY, PRIMARY, RED } from '~/shared/styles';
 import type { ShoeViewModel } from '../models';
 import { createPatchShoeDto } from '../models';
-import { shoeService } from '../services';
+import { shoeAlertService, shoeService } from '../services';
+import { useShoeLifecycleStore } from '../stores/shoeLifecycleStore';
 
 /**
  * 신발 수정 화면
@@ -31,11 +33,14 @@ export const EditShoeView: React.FC<EditShoeViewProps> = ({
   onClose,
   onSuccess,
 }) => {
+  const { distanceLabel, convertDistance, convertDistanceToMeters } = useDistanceUnit();
+  // 목표 거리는 사용자 거리 단위의 정수로 입력받는다
+  const initialTargetDistance = shoe.targetDistance
+    ? String(Math.round(convertDistance(shoe.targetDistance)))
+    : '';
   const [brand, setBrand] = useState(shoe.brand);
   const [model, setModel] = useState(shoe.model);
-  const [targetDistance, setTargetDistance] = useState(
-    shoe.targetDistance ? String(shoe.targetDistance / 1000) : ''
-  );
+  const [targetDistance, setTargetDistance] = useState(initialTargetDistance);
   const [targetDistanceError, setTargetDistanceError] = useState('');
   const [isSubmitting, setIsSubmitting] = useState(false);
 
@@ -45,11 +50,10 @@ export const EditShoeView: React.FC<EditShoeViewProps> = ({
   useEffect(() => {
     const brandChanged = brand !== shoe.brand;
     const modelChanged = model !== shoe.model;
-    const targetDistanceChanged =
-      targetDistance !== (shoe.targetDistance ? String(shoe.targetDistance / 1000) : '');
+    const targetDistanceChanged = targetDistance !== initialTargetDistance;
 
     setHasChanges(brandChanged || modelChanged || targetDistanceChanged);
-  }, [brand, model, targetDistance, shoe]);
+  }, [brand, model, targetDistance, shoe, initialTargetDistance]);
 
   // 브랜드 입력 처리
   const handleBrandChange = (text: string) => {
@@ -94,12 +98,18 @@ export const EditShoeView: React.FC<EditShoeViewProps> = ({
       const dto = createPatchShoeDto(shoe.id, {
         brand: brand.trim(),
         model: model.trim(),
-        targetDistance: parseInt(targetDistance) * 1000, // km to meters
+        targetDistance: Math.round(convertDistanceToMeters(parseInt(targetDistance))),
       });
 
       await shoeService.patchShoe(dto);
       console.log('✅ [EditShoeView] 신발 수정 완료');
 
+      // 목표 거리가 바뀌면 마일리지 알림을 새 기준으로 다시 받는다
+      if (targetDistance !== initialTargetDistance) {
+        useShoeLifecycleStore.getState().resetShoeAlerts(shoe.id);
+        void shoeAlertService.syncBadgeCount();
+      }
+
       // 성공 콜백 호출
       onSuccess?.();
       onClose?.();
@@ -140,7 +150,7 @@ export const EditShoeView: React.FC<EditShoeViewProps> = ({
 
           {/* 목표 거리 입력 */}
           <InputField
-            label="목표 거리 (km)"
+            label={`목표 거리 (${distanceLabel})`}
             placeholder="목표 거리를 입력해주세요."
             value={targetDistance}
             onChangeText={handleTargetDistanceChange}
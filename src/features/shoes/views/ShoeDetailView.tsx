@@ -0,0 +1,602 @@
+import { Ionicons } from '@expo/vector-icons';
+import React, { useEffect, useState } from 'react';
+import { Modal, ScrollView, StyleSheet, TouchableOpacity, View } from 'react-native';
+import { SafeAreaProvider } from 'react-native-safe-area-context';
+import { TopScreenSafeAreaView } from '~/shared/components';
+import { Text } from '~/shared/components/typography';
+import { useDistanceUnit } from '~/shared/hooks';
+import { GREY, PRIMARY, RED } from '~/shared/styles';
+import { formatKoreanDate } from '~/shared/utils/dateUtils';
+import {
+  CUSTOM_SHOE_ALERT_THRESHOLD_OPTIONS,
+  type ShoeMonthlyMileage,
+  type ShoeRetirementSummary,
+  type ShoeViewModel,
+} from '../models';
+import { useShoeLifecycleViewModel } from '../viewmodels';
+
+/**
+ * 신발 상세 화면
+ * 마일리지 진행률과 알림 기준, 연결된 러닝 분석, 은퇴 처리
+ */
+interface ShoeDetailViewProps {
+  shoe: ShoeViewModel;
+  onClose: () => void;
+  onEdit: () => void;
+  onRetired?: () => void;
+}
+
+export const ShoeDetailView: React.FC<ShoeDetailViewProps> = ({
+  shoe,
+  onClose,
+  onEdit,
+  onRetired,
+}) => {
+  const {
+    analytics,
+    recentMonthlyMileage,
+    mileagePercentage,
+    alertThresholds,
+    customThreshold,
+    setCustomThreshold,
+    markAlertSeen,
+    retireShoe,
+    isRetiring,
+  } = useShoeLifecycleViewModel(shoe);
+  const { formatDistance, formatPace, paceLabel } = useDistanceUnit();
+  const [showRetireModal, setShowRetireModal] = useState(false);
+  const [retiredSummary, setRetiredSummary] = useState<ShoeRetirementSummary | null>(null);
+
+  // 상세 화면을 열면 이 신발의 알림은 확인한 것으로 처리
+  useEffect(() => {
+    markAlertSeen();
+  }, [markAlertSeen]);
+
+  const handleRetire = async () => {
+    try {
+      const summary = await retireShoe();
+      setShowRetireModal(false);
+      setRetiredSummary(summary);
+    } catch (error) {
+      console.error('❌ [ShoeDetailView] 신발 은퇴 실패:', error);
+    }
+  };
+
+  const handleCloseSummary = () => {
+    setRetiredSummary(null);
+    onRetired?.();
+    onClose();
+  };
+
+  return (
+    <SafeAreaProvider>
+      <TopScreenSafeAreaView style={styles.container} testID="shoe-detail-screen">
+        <View style={styles.header}>
+          <TouchableOpacity onPress={onClose} style={styles.headerButton}>
+            <Ionicons name="chevron-back" size={24} color={GREY[900]} />
+          </TouchableOpacity>
+          <Text style={styles.headerTitle}>신발 상세</Text>
+          <TouchableOpacity onPress={onEdit} style={styles.headerButton} testID="shoe-detail-edit">
+            <Text style={styles.headerAction}>수정</Text>
+          </TouchableOpacity>
+        </View>
+
+        <ScrollView contentContainerStyle={styles.content} showsVerticalScrollIndicator={false}>
+          {/* 마일리지 */}
+          <View style={styles.card}>
+            <Text style={styles.brand}>{shoe.brand}</Text>
+            <Text style={styles.model}>{shoe.model}</Text>
+            <Text style={styles.distance}>{shoe.formattedDistance}</Text>
+            {mileagePercentage !== null ? (
+              <>
+                <View style={styles.progressTrack}>
+                  <View
+                    style={[
+                      styles.progressFill,
+                      mileagePercentage >= 100 && styles.progressFillOver,
+                      { width: `${Math.min(mileagePercentage, 100)}%` },
+                    ]}
+                  />
+                </View>
+                <Text style={styles.caption} testID="shoe-detail-progress">
+                  목표 거리의 {Math.floor(mileagePercentage)}% 사용
+                </Text>
+              </>
+            ) : (
+              <Text style={styles.caption}>목표 거리를 설정하면 교체 알림을 받을 수 있어요.</Text>
+            )}
+          </View>
+
+          {/* 알림 기준 */}
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>교체 알림</Text>
+            <Text style={styles.caption}>
+              러닝 후 {alertThresholds.map((threshold) => `${threshold}%`).join(' · ')}를 넘으면
+              알려드려요.
+            </Text>
+            <View style={styles.chipRow}>
+              <ThresholdChip
+                label="추가 안 함"
+                isSelected={customThreshold === null}
+                onPress={() => setCustomThreshold(null)}
+                testID="shoe-threshold-none"
+              />
+              {CUSTOM_SHOE_ALERT_THRESHOLD_OPTIONS.map((threshold) => (
+                <ThresholdChip
+                  key={threshold}
+                  label={`${threshold}%`}
+                  isSelected={customThreshold === threshold}
+                  onPress={() => setCustomThreshold(threshold)}
+                  testID={`shoe-threshold-${threshold}`}
+                />
+              ))}
+            </View>
+          </View>
+
+          {/* 러닝 분석 */}
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>이 신발로 달린 기록</Text>
+            <View style={styles.statRow}>
+              <StatItem label="러닝" value={`${analytics.runCount}회`} testID="shoe-stat-runs" />
+              <StatItem
+                label="평균 페이스"
+                value={
+                  analytics.averagePace > 0
+                    ? `${formatPace(analytics.averagePace)}"${paceLabel}`
+                    : '--'
+                }
+                testID="shoe-stat-pace"
+              />
+              <StatItem
+                label="기록 거리"
+                value={formatDistance(analytics.totalDistance, { fractionDigits: 1 })}
+              />
+            </View>
+            <MonthlyMileageChart months={recentMonthlyMileage} />
+          </View>
+
+          <TouchableOpacity
+            style={styles.retireButton}
+            onPress={() => setShowRetireModal(true)}
+            activeOpacity={0.8}
+            testID="shoe-retire-button"
+          >
+            <Text style={styles.retireButtonText}>신발 은퇴시키기</Text>
+          </TouchableOpacity>
+        </ScrollView>
+
+        <Modal
+          visible={showRetireModal}
+          transparent
+          animationType="fade"
+          onRequestClose={() => setShowRetireModal(false)}
+        >
+          <View style={styles.modalOverlay}>
+            <View style={styles.modalContainer}>
+              <Text style={styles.modalMessage}>
+                {shoe.displayName} 를{'\n'}은퇴시킬까요? 은퇴한 신발은 보관함으로 이동해요.
+              </Text>
+              <View style={styles.modalButtons}>
+                <TouchableOpacity
+                  style={[styles.modalButton, styles.modalButtonCancel]}
+                  onPress={() => setShowRetireModal(false)}
+                >
+                  <Text style={styles.modalButtonCancelText}>취소</Text>
+                </TouchableOpacity>
+                <TouchableOpacity
+                  style={styles.modalButton}
+                  onPress={handleRetire}
+                  disabled={isRetiring}
+                  testID="shoe-retire-confirm"
+                >
+                  <Text style={styles.modalButtonText}>은퇴</Text>
+                </TouchableOpacity>
+              </View>
+            </View>
+          </View>
+        </Modal>
+
+        <Modal
+          visible={retiredSummary !== null}
+          transparent
+          animationType="fade"
+          onRequestClose={handleCloseSummary}
+        >
+          <View style={styles.modalOverlay}>
+            <View style={styles.modalContainer} testID="shoe-retirement-summary">
+              {retiredSummary ? <ShoeRetirementSummaryContent summary={retiredSummary} /> : null}
+              <TouchableOpacity style={styles.modalButton} onPress={handleCloseSummary}>
+                <Text style={styles.modalButtonText}>확인</Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+        </Modal>
+      </TopScreenSafeAreaView>
+    </SafeAreaProvider>
+  );
+};
+
+// ========== 내부 컴포넌트들 ==========
+
+interface ThresholdChipProps {
+  label: string;
+  isSelected: boolean;
+  onPress: () => void;
+  testID: string;
+}
+
+const ThresholdChip: React.FC<ThresholdChipProps> = ({ label, isSelected, onPress, testID }) => (
+  <TouchableOpacity
+    style={[styles.chip, isSelected && styles.chipSelected]}
+    onPress={onPress}
+    activeOpacity={0.7}
+    accessibilityState={{ selected: isSelected }}
+    testID={testID}
+  >
+    <Text style={[styles.chipText, isSelected && styles.chipTextSelected]}>{label}</Text>
+  </TouchableOpacity>
+);
+
+const StatItem: React.FC<{ label: string; value: string; testID?: string }> = ({
+  label,
+  value,
+  testID,
+}) => (
+  <View style={styles.statItem}>
+    <Text style={styles.statLabel}>{label}</Text>
+    <Text style={styles.statValue} testID={testID}>
+      {value}
+    </Text>
+  </View>
+);
+
+/**
+ * 월별 마일리지 막대 (최근 월만)
+ */
+const MonthlyMileageChart: React.FC<{ months: ShoeMonthlyMileage[] }> = ({ months }) => {
+  const { formatDistance } = useDistanceUnit();
+
+  if (months.length === 0) {
+    return <Text style={styles.caption}>아직 이 신발로 달린 기록이 없어요.</Text>;
+  }
+
+  const maxDistance = Math.max(...months.map((month) => month.distance));
+
+  return (
+    <View style={styles.monthList}>
+      {months.map(({ month, distance, runCount }) => (
+        <View key={month} style={styles.monthRow} testID={`shoe-month-${month}`}>
+          <Text style={styles.monthLabel}>{`${Number(month.slice(5))}월`}</Text>
+          <View style={styles.monthTrack}>
+            <View
+              style={[
+                styles.monthFill,
+                { width: `${maxDistance > 0 ? (distance / maxDistance) * 100 : 0}%` },
+              ]}
+            />
+          </View>
+          <Text style={styles.monthValue}>
+            {formatDistance(distance, { fractionDigits: 1 })} · {runCount}회
+          </Text>
+        </View>
+      ))}
+    </View>
+  );
+};
+
+/**
+ * 은퇴 요약 (은퇴 직후 모달과 보관함에서 함께 사용)
+ */
+export const ShoeRetirementSummaryContent: React.FC<{ summary: ShoeRetirementSummary }> = ({
+  summary,
+}) => {
+  const { formatDistance, formatPace, paceLabel } = useDistanceUnit();
+  const period =
+    summary.firstRunAt !== null && summary.lastRunAt !== null
+      ? `${formatKoreanDate(new Date(summary.firstRunAt * 1000))} ~ ${formatKoreanDate(
+          new Date(summary.lastRunAt * 1000)
+        )}`
+      : null;
+
+  return (
+    <View style={styles.summary}>
+      <Text style={styles.summaryTitle}>수고했어요, {summary.displayName}</Text>
+      <Text style={styles.summaryLine}>
+        총 {formatDistance(summary.totalDistance, { fractionDigits: 1 })} · {summary.runCount}회 러닝
+      </Text>
+      {summary.averagePace > 0 ? (
+        <Text style={styles.summaryLine}>
+          {`평균 페이스 ${formatPace(summary.averagePace)}"${paceLabel}`}
+        </Text>
+      ) : null}
+      {period ? <Text style={styles.summaryCaption}>{period}</Text> : null}
+    </View>
+  );
+};
+
+// ========== 스타일 ==========
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: GREY[50],
+  },
+
+  // ===== 헤더 =====
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingVertical: 16,
+    height: 56,
+  },
+  headerButton: {
+    minWidth: 32,
+    height: 24,
+    justifyContent: 'center',
+  },
+  headerTitle: {
+    fontSize: 16,
+    fontWeight: '500',
+    color: GREY[900],
+    fontFamily: 'Pretendard',
+    lineHeight: 24,
+  },
+  headerAction: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: GREY[700],
+    fontFamily: 'Pretendard',
+    textAlign: 'right',
+  },
+
+  content: {
+    paddingHorizontal: 20,
+    paddingTop: 8,
+    paddingBottom: 40,
+    gap: 24,
+  },
+
+  // ===== 마일리지 =====
+  card: {
+    backgroundColor: GREY.WHITE,
+    borderRadius: 8,
+    padding: 16,
+    gap: 6,
+  },
+  brand: {
+    fontSize: 10,
+    fontWeight: '600',
+    color: GREY[500],
+    fontFamily: 'Pretendard',
+    letterSpacing: 0.4,
+  },
+  model: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: GREY[900],
+    fontFamily: 'Pretendard',
+  },
+  distance: {
+    fontSize: 12,
+    fontWeight: '500',
+    color: GREY[500],
+    fontFamily: 'Pretendard',
+  },
+  progressTrack: {
+    height: 8,
+    borderRadius: 4,
+    backgroundColor: GREY[100],
+    overflow: 'hidden',
+    marginTop: 6,
+  },
+  progressFill: {
+    height: '100%',
+    borderRadius: 4,
+    backgroundColor: PRIMARY[600],
+  },
+  progressFillOver: {
+    backgroundColor: RED[400],
+  },
+  caption: {
+    fontSize: 12,
+    fontWeight: '400',
+    color: GREY[500],
+    fontFamily: 'Pretendard',
+    lineHeight: 18,
+  },
+
+  // ===== 섹션 =====
+  section: {
+    gap: 10,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: GREY[900],
+    fontFamily: 'Pretendard',
+    lineHeight: 24,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: GREY[200],
+    backgroundColor: GREY.WHITE,
+  },
+  chipSelected: {
+    borderColor: PRIMARY[600],
+    backgroundColor: PRIMARY[50],
+  },
+  chipText: {
+    fontSize: 13,
+    fontWeight: '500',
+    color: GREY[700],
+  },
+  chipTextSelected: {
+    color: PRIMARY[900],
+    fontWeight: '600',
+  },
+
+  // ===== 러닝 분석 =====
+  statRow: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  statItem: {
+    flex: 1,
+    backgroundColor: GREY.WHITE,
+    borderRadius: 8,
+    paddingVertical: 12,
+    alignItems: 'center',
+    gap: 4,
+  },
+  statLabel: {
+    fontSize: 11,
+    fontWeight: '500',
+    color: GREY[500],
+    fontFamily: 'Pretendard',
+  },
+  statValue: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: GREY[900],
+    fontFamily: 'Pretendard',
+  },
+  monthList: {
+    backgroundColor: GREY.WHITE,
+    borderRadius: 8,
+    paddingHorizontal: 14,
+    paddingVertical: 12,
+    gap: 10,
+  },
+  monthRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+  },
+  monthLabel: {
+    width: 32,
+    fontSize: 12,
+    fontWeight: '500',
+    color: GREY[700],
+  },
+  monthTrack: {
+    flex: 1,
+    height: 8,
+    borderRadius: 4,
+    backgroundColor: GREY[100],
+    overflow: 'hidden',
+  },
+  monthFill: {
+    height: '100%',
+    borderRadius: 4,
+    backgroundColor: PRIMARY[600],
+  },
+  monthValue: {
+    width: 96,
+    textAlign: 'right',
+    fontSize: 12,
+    fontWeight: '600',
+    color: GREY[900],
+  },
+
+  // ===== 은퇴 =====
+  retireButton: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    borderRadius: 8,
+    paddingVertical: 14,
+    backgroundColor: GREY[100],
+  },
+  retireButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: RED[400],
+    fontFamily: 'Pretendard',
+  },
+  summary: {
+    alignItems: 'center',
+    gap: 6,
+    paddingVertical: 8,
+  },
+  summaryTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: GREY[900],
+    fontFamily: 'Pretendard',
+    textAlign: 'center',
+  },
+  summaryLine: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: GREY[700],
+    fontFamily: 'Pretendard',
+  },
+  summaryCaption: {
+    fontSize: 12,
+    fontWeight: '400',
+    color: GREY[500],
+    fontFamily: 'Pretendard',
+  },
+
+  // ===== 모달 =====
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  modalContainer: {
+    backgroundColor: GREY.WHITE,
+    borderRadius: 16,
+    padding: 20,
+    marginHorizontal: 26,
+    width: 324,
+    gap: 16,
+  },
+  modalMessage: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: GREY[900],
+    fontFamily: 'Pretendard',
+    textAlign: 'center',
+    lineHeight: 24,
+    paddingVertical: 12,
+  },
+  modalButtons: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  modalButton: {
+    flex: 1,
+    alignItems: 'center',
+    borderRadius: 8,
+    backgroundColor: PRIMARY[600],
+    justifyContent: 'center',
+    paddingHorizontal: 16,
+    paddingVertical: 14,
+  },
+  modalButtonCancel: {
+    backgroundColor: GREY[50],
+  },
+  modalButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: GREY.WHITE,
+    fontFamily: 'Pretendard',
+  },
+  modalButtonCancelText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: GREY[800],
+    fontFamily: 'Pretendard',
+  },
+});
@@ -0,0 +1,246 @@
+import { Ionicons } from '@expo/vector-icons';
+import React from 'react';
+import { ScrollView, StyleSheet, Switch, TouchableOpacity, View } from 'react-native';
+import { SafeAreaProvider } from 'react-native-safe-area-context';
+import { TopScreenSafeAreaView } from '~/shared/components';
+import { Text } from '~/shared/components/typography';
+import { useDistanceUnit } from '~/shared/hooks';
+import { GREY, PRIMARY } from '~/shared/styles';
+import { LONG_RUN_DISTANCE, RUN_PROFILES, RUN_PROFILE_LABELS, type RunProfile } from '../models';
+import { useShoeRotationViewModel } from '../viewmodels';
+
+/**
+ * 신발 로테이션 설정 화면
+ * 러닝 유형별 신발과 번갈아 신을 신발을 정하면 러닝 시작/완료 시 신발을 추천
+ */
+interface ShoeRotationViewProps {
+  onClose: () => void;
+}
+
+const PROFILE_DESCRIPTIONS: Record<Exclude<RunProfile, 'LONG'>, string> = {
+  SPEED: '워크아웃 또는 평소보다 빠른 페이스',
+  EASY: '그 외 일반 러닝',
+};
+
+export const ShoeRotationView: React.FC<ShoeRotationViewProps> = ({ onClose }) => {
+  const {
+    enabledShoes,
+    isRotationEnabled,
+    profileShoeIds,
+    alternateShoeIds,
+    setRotationEnabled,
+    setProfileShoe,
+    toggleAlternateShoe,
+  } = useShoeRotationViewModel();
+  const { formatDistance } = useDistanceUnit();
+
+  // 장거리 기준은 사용자 거리 단위로 표시
+  const getProfileDescription = (profile: RunProfile): string =>
+    profile === 'LONG'
+      ? `${formatDistance(LONG_RUN_DISTANCE, { fractionDigits: 1 })} 이상 달린 러닝`
+      : PROFILE_DESCRIPTIONS[profile];
+
+  return (
+    <SafeAreaProvider>
+      <TopScreenSafeAreaView style={styles.container} testID="shoe-rotation-screen">
+        <View style={styles.header}>
+          <TouchableOpacity onPress={onClose} style={styles.backButton}>
+            <Ionicons name="chevron-back" size={24} color={GREY[900]} />
+          </TouchableOpacity>
+          <Text style={styles.headerTitle}>신발 로테이션</Text>
+          <View style={styles.backButton} />
+        </View>
+
+        <ScrollView contentContainerStyle={styles.content} showsVerticalScrollIndicator={false}>
+          <View style={styles.section}>
+            <View style={styles.sectionHeader}>
+              <Text style={styles.sectionTitle}>신발 추천 받기</Text>
+              <Switch
+                testID="shoe-rotation-enabled-switch"
+                value={isRotationEnabled}
+                onValueChange={setRotationEnabled}
+                trackColor={{ false: GREY[200], true: PRIMARY[600] }}
+              />
+            </View>
+            <Text style={styles.helperText}>
+              러닝을 시작할 때 신을 신발을 추천하고, 러닝이 끝나면 러닝 유형에 맞는 신발을 미리
+              골라둬요.
+            </Text>
+          </View>
+
+          {isRotationEnabled ? (
+            enabledShoes.length < 2 ? (
+              <Text style={styles.helperText}>신발이 2켤레 이상 있어야 로테이션을 쓸 수 있어요.</Text>
+            ) : (
+              <>
+                <View style={styles.section}>
+                  <Text style={styles.sectionTitle}>러닝 유형별 신발</Text>
+                  {RUN_PROFILES.map((profile) => (
+                    <View key={profile} style={styles.profileRow}>
+                      <Text style={styles.profileLabel}>{RUN_PROFILE_LABELS[profile]}</Text>
+                      <Text style={styles.helperText}>{getProfileDescription(profile)}</Text>
+                      <View style={styles.chipRow}>
+                        <ShoeChip
+                          label="지정 안 함"
+                          isSelected={profileShoeIds[profile] === undefined}
+                          onPress={() => setProfileShoe(profile, null)}
+                          testID={`shoe-rotation-${profile}-none`}
+                        />
+                        {enabledShoes.map((shoe) => (
+                          <ShoeChip
+                            key={shoe.id}
+                            label={`${shoe.brand} ${shoe.model}`}
+                            isSelected={profileShoeIds[profile] === shoe.id}
+                            onPress={() => setProfileShoe(profile, shoe.id)}
+                            testID={`shoe-rotation-${profile}-${shoe.id}`}
+                          />
+                        ))}
+                      </View>
+                    </View>
+                  ))}
+                </View>
+
+                <View style={styles.section}>
+                  <Text style={styles.sectionTitle}>번갈아 신기</Text>
+                  <Text style={styles.helperText}>
+                    지정한 신발이 없는 러닝에는 고른 신발 중 가장 오래 쉰 신발을 추천해요.
+                  </Text>
+                  <View style={styles.chipRow}>
+                    {enabledShoes.map((shoe) => (
+                      <ShoeChip
+                        key={shoe.id}
+                        label={`${shoe.brand} ${shoe.model}`}
+                        isSelected={alternateShoeIds.includes(shoe.id)}
+                        onPress={() => toggleAlternateShoe(shoe.id)}
+                        testID={`shoe-rotation-alternate-${shoe.id}`}
+                      />
+                    ))}
+                  </View>
+                </View>
+              </>
+            )
+          ) : null}
+        </ScrollView>
+      </TopScreenSafeAreaView>
+    </SafeAreaProvider>
+  );
+};
+
+// ========== 내부 컴포넌트들 ==========
+
+interface ShoeChipProps {
+  label: string;
+  isSelected: boolean;
+  onPress: () => void;
+  testID: string;
+}
+
+const ShoeChip: React.FC<ShoeChipProps> = ({ label, isSelected, onPress, testID }) => (
+  <TouchableOpacity
+    style={[styles.chip, isSelected && styles.chipSelected]}
+    onPress={onPress}
+    activeOpacity={0.7}
+    accessibilityState={{ selected: isSelected }}
+    testID={testID}
+  >
+    <Text style={[styles.chipText, isSelected && styles.chipTextSelected]} numberOfLines={1}>
+      {label}
+    </Text>
+  </TouchableOpacity>
+);
+
+// ========== 스타일 ==========
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: GREY[50],
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingVertical: 16,
+    height: 56,
+  },
+  backButton: {
+    width: 24,
+    height: 24,
+  },
+  headerTitle: {
+    fontSize: 16,
+    fontWeight: '500',
+    color: GREY[900],
+    fontFamily: 'Pretendard',
+    lineHeight: 24,
+  },
+  content: {
+    paddingHorizontal: 20,
+    paddingTop: 8,
+    paddingBottom: 40,
+    gap: 28,
+  },
+  section: {
+    gap: 10,
+  },
+  sectionHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: GREY[900],
+    fontFamily: 'Pretendard',
+    lineHeight: 24,
+  },
+  helperText: {
+    fontSize: 12,
+    fontWeight: '400',
+    color: GREY[500],
+    fontFamily: 'Pretendard',
+    lineHeight: 18,
+  },
+  profileRow: {
+    backgroundColor: GREY.WHITE,
+    borderRadius: 8,
+    padding: 14,
+    gap: 6,
+  },
+  profileLabel: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: GREY[900],
+    fontFamily: 'Pretendard',
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginTop: 4,
+  },
+  chip: {
+    maxWidth: 200,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: GREY[200],
+    backgroundColor: GREY.WHITE,
+  },
+  chipSelected: {
+    borderColor: PRIMARY[600],
+    backgroundColor: PRIMARY[50],
+  },
+  chipText: {
+    fontSize: 13,
+    fontWeight: '500',
+    color: GREY[700],
+  },
+  chipTextSelected: {
+    color: PRIMARY[900],
+    fontWeight: '600',
+  },
+});
@@ -13,11 +13,15 @@ import { SwipeListView } from 'react-native-swipe-list-view';
 import { TopScreenSafeAreaView } from '~/shared/components';
 import { Text } from '~/shared/components/typography';
 import { Icon } from '~/shared/components/ui';
+import { useDistanceUnit } from '~/shared/hooks';
 import { GREY, PRIMARY, RED } from '~/shared/styles';
 import type { ShoeViewModel } from '../models';
+import { useShoeLifecycleStore } from '../stores/shoeLifecycleStore';
 import { useShoeViewModel } from '../viewmodels';
 import { AddShoeView } from './AddShoeView';
 import { EditShoeView } from './EditShoeView';
+import { ShoeDetailView } from './ShoeDetailView';
+import { ShoeRotationView } from './ShoeRotationView';
 import { StoredShoesListView } from './StoredShoesListView';
 
 /**
@@ -47,6 +51,8 @@ export const ShoesListView: React.FC<ShoesListViewProps> = ({ onClose }) => {
   const [showStoredShoesView, setShowStoredShoesView] = useState(false);
   const [showAddShoeView, setShowAddShoeView] = useState(false);
   const [showEditShoeView, setShowEditShoeView] = useState(false);
+  const [showShoeDetailView, setShowShoeDetailView] = useState(false);
+  const [showRotationView, setShowRotationView] = useState(false);
 
   console.log('👟 [ShoesListView] 렌더링, 신발 개수:', shoeViewModels.length);
 
@@ -111,9 +117,15 @@ export const ShoesListView: React.FC<ShoesListViewProps> = ({ onClose }) => {
     }
   };
 
-  // 신발 선택 (수정 화면)
+  // 신발 선택 (상세 화면)
   const handleSelectShoe = (shoe: ShoeViewModel) => {
     setSelectedShoe(shoe);
+    setShowShoeDetailView(true);
+  };
+
+  // 상세 화면에서 수정 화면으로 전환
+  const handleEditFromDetail = () => {
+    setShowShoeDetailView(false);
     setShowEditShoeView(true);
   };
 
@@ -137,10 +149,16 @@ export const ShoesListView: React.FC<ShoesListViewProps> = ({ onClose }) => {
           ListHeaderComponent={
             <>
               {/* 대표 신발 카드 */}
-              {mainShoeViewModel && <MainShoeCard shoe={mainShoeViewModel} />}
+              {mainShoeViewModel && (
+                <MainShoeCard
+                  shoe={mainShoeViewModel}
+                  onPress={() => handleSelectShoe(mainShoeViewModel)}
+                />
+              )}
 
               {/* 섹션 헤더 */}
               <SectionHeader
+                onRotationPress={() => setShowRotationView(true)}
                 onManageStoragePress={() => setShowStoredShoesView(true)}
               />
             </>
@@ -197,6 +215,18 @@ export const ShoesListView: React.FC<ShoesListViewProps> = ({ onClose }) => {
         </Modal>
       )}
 
+      {/* 신발 로테이션 설정 모달 */}
+      {showRotationView && (
+        <Modal
+          visible={showRotationView}
+          animationType="slide"
+          presentationStyle="fullScreen"
+          onRequestClose={() => setShowRotationView(false)}
+        >
+          <ShoeRotationView onClose={() => setShowRotationView(false)} />
+        </Modal>
+      )}
+
       {/* 신발 추가 모달 */}
       {showAddShoeView && (
         <Modal
@@ -214,6 +244,25 @@ export const ShoesListView: React.FC<ShoesListViewProps> = ({ onClose }) => {
         </Modal>
       )}
 
+      {/* 신발 상세 모달 */}
+      {showShoeDetailView && selectedShoe && (
+        <Modal
+          visible={showShoeDetailView}
+          animationType="slide"
+          presentationStyle="fullScreen"
+          onRequestClose={() => setShowShoeDetailView(false)}
+        >
+          <ShoeDetailView
+            shoe={selectedShoe}
+            onClose={() => setShowShoeDetailView(false)}
+            onEdit={handleEditFromDetail}
+            onRetired={() => {
+              refreshShoes();
+            }}
+          />
+        </Modal>
+      )}
+
       {/* 신발 수정 모달 */}
       {showEditShoeView && selectedShoe && (
         <Modal
@@ -271,11 +320,14 @@ const Header: React.FC<HeaderProps> = ({ onClose, onAddPress }) => {
  */
 interface MainShoeCardProps {
   shoe: ShoeViewModel;
+  onPress: () => void;
 }
 
-const MainShoeCard: React.FC<MainShoeCardProps> = ({ shoe }) => {
+const MainShoeCard: React.FC<MainShoeCardProps> = ({ shoe, onPress }) => {
+  const { formatDistance, distanceLabel } = useDistanceUnit();
+
   return (
-    <View style={styles.mainShoeCard}>
+    <TouchableOpacity style={styles.mainShoeCard} onPress={onPress} activeOpacity={0.8}>
       {/* 이미지 영역 */}
       <View style={styles.mainShoeImageContainer}>
         <Icon name="shoe" size={41} />
@@ -289,29 +341,59 @@ const MainShoeCard: React.FC<MainShoeCardProps> = ({ shoe }) => {
         <View style={styles.mainShoeDistance}>
           <Text style={styles.mainShoeDistanceLabel}>누적 거리</Text>
           <Text style={styles.mainShoeDistanceValue}>
-            {(shoe.totalDistance / 1000).toFixed(1)}km
+            {formatDistance(shoe.totalDistance, { fractionDigits: 1, withUnit: false })}
+            {distanceLabel}
           </Text>
         </View>
+        <View style={styles.mainShoeBadgeRow}>
+          <ShoeAlertBadge shoeId={shoe.id} />
+        </View>
       </View>
+    </TouchableOpacity>
+  );
+};
+
+/**
+ * 마일리지 알림 배지 (확인하지 않은 알림이 있을 때만)
+ */
+const ShoeAlertBadge: React.FC<{ shoeId: number }> = ({ shoeId }) => {
+  const alert = useShoeLifecycleStore(
+    (state) => state.unseenAlerts.find((unseen) => unseen.shoeId === shoeId) ?? null
+  );
+
+  if (!alert) return null;
+
+  return (
+    <View
+      style={[styles.alertBadge, alert.threshold >= 100 && styles.alertBadgeOver]}
+      testID={`shoe-alert-badge-${shoeId}`}
+    >
+      <Text style={styles.alertBadgeText}>{alert.threshold}%</Text>
     </View>
   );
 };
 
 /**
  * 섹션 헤더
- * Figma: "보유 신발 목록" + "보관 신발 관리"
+ * Figma: "보유 신발 목록" + "보관 신발 관리" (+ 로테이션 설정)
  */
 interface SectionHeaderProps {
+  onRotationPress: () => void;
   onManageStoragePress: () => void;
 }
 
-const SectionHeader: React.FC<SectionHeaderProps> = ({ onManageStoragePress }) => {
+const SectionHeader: React.FC<SectionHeaderProps> = ({ onRotationPress, onManageStoragePress }) => {
   return (
     <View style={styles.sectionHeader}>
       <Text style={styles.sectionTitle}>보유 신발 목록</Text>
-      <TouchableOpacity onPress={onManageStoragePress}>
-        <Text style={styles.sectionLink}>보관 신발 관리</Text>
-      </TouchableOpacity>
+      <View style={styles.sectionLinks}>
+        <TouchableOpacity onPress={onRotationPress} testID="shoes-rotation-link">
+          <Text style={styles.sectionLink}>로테이션</Text>
+        </TouchableOpacity>
+        <TouchableOpacity onPress={onManageStoragePress}>
+          <Text style={styles.sectionLink}>보관 신발 관리</Text>
+        </TouchableOpacity>
+      </View>
     </View>
   );
 };
@@ -325,6 +407,8 @@ interface ShoeCardProps {
 }
 
 const ShoeCard: React.FC<ShoeCardProps> = ({ shoe, onPress }) => {
+  const { formatDistance, distanceLabel } = useDistanceUnit();
+
   return (
     <TouchableOpacity style={styles.shoeItemContent} onPress={onPress} activeOpacity={1.0}>
       <View style={styles.shoeItemImageContainer}>
@@ -335,10 +419,12 @@ const ShoeCard: React.FC<ShoeCardProps> = ({ shoe, onPress }) => {
         <View style={styles.shoeItemDistance}>
           <Text style={styles.shoeItemDistanceLabel}>누적 거리</Text>
           <Text style={styles.shoeItemDistanceValue}>
-            {(shoe.totalDistance / 1000).toFixed(1)}km
+            {formatDistance(shoe.totalDistance, { fractionDigits: 1, withUnit: false })}
+            {distanceLabel}
           </Text>
         </View>
       </View>
+      <ShoeAlertBadge shoeId={shoe.id} />
     </TouchableOpacity>
   );
 };
@@ -556,6 +642,9 @@ const styles = StyleSheet.create({
     justifyContent: 'center',
     gap: 4,
   },
+  mainShoeBadgeRow: {
+    flexDirection: 'row',
+  },
   mainShoeBrand: {
     fontSize: 10,
     fontWeight: '600',
@@ -610,6 +699,10 @@ const styles = StyleSheet.create({
     fontFamily: 'Pretendard',
     lineHeight: 24,
   },
+  sectionLinks: {
+    flexDirection: 'row',
+    gap: 12,
+  },
   sectionLink: {
     fontSize: 12,
     fontWeight: '500',
@@ -630,6 +723,22 @@ const styles = StyleSheet.create({
     marginHorizontal: 20,
     borderRadius: 8,
   },
+  alertBadge: {
+    alignSelf: 'center',
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+    borderRadius: 10,
+    backgroundColor: PRIMARY[600],
+  },
+  alertBadgeOver: {
+    backgroundColor: RED[400],
+  },
+  alertBadgeText: {
+    fontSize: 11,
+    fontWeight: '600',
+    color: GREY.WHITE,
+    fontFamily: 'Pretendard',
+  },
   hiddenActionsContainer: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -13,8 +13,11 @@ import { SwipeListView } from 'react-native-swipe-list-view';
 import { TopScreenSafeAreaView } from '~/shared/components';
 import { Text } from '~/shared/components/typography';
 import { Icon } from '~/shared/components/ui';
+import { useDistanceUnit } from '~/shared/hooks';
 import { GREY, PRIMARY, RED } from '~/shared/styles';
+import { formatKoreanDate } from '~/shared/utils/dateUtils';
 import type { ShoeViewModel } from '../models';
+import { useShoeLifecycleStore } from '../stores/shoeLifecycleStore';
 import { useShoeViewModel } from '../viewmodels';
 
 /**
@@ -175,6 +178,12 @@ interface ShoeCardProps {
 }
 
 const ShoeCard: React.FC<ShoeCardProps> = ({ shoe }) => {
+  const { formatDistance, distanceLabel } = useDistanceUnit();
+  // 은퇴시킨 신발이면 은퇴 당시 요약을 함께 표시
+  const retirementSummary = useShoeLifecycleStore(
+    (state) => state.retirementSummaries[shoe.id] ?? null
+  );
+
   return (
     <View style={styles.shoeItemContent}>
       <View style={styles.shoeItemImageContainer}>
@@ -185,8 +194,15 @@ const ShoeCard: React.FC<ShoeCardProps> = ({ shoe }) => {
         <View style={styles.shoeItemDistance}>
           <Text style={styles.shoeItemDistanceLabel}>누적 거리</Text>
           <Text style={styles.shoeItemDistanceValue}>
-            {(shoe.totalDistance / 1000).toFixed(1)}km
+            {formatDistance(shoe.totalDistance, { fractionDigits: 1, withUnit: false })}
+            {distanceLabel}
           </Text>
+          {retirementSummary && (
+            <Text style={styles.shoeItemRetirement} testID={`stored-shoe-retirement-${shoe.id}`}>
+              · {formatKoreanDate(new Date(retirementSummary.retiredAt))} 은퇴 ·{' '}
+              {retirementSummary.runCount}회 러닝
+            </Text>
+          )}
         </View>
       </View>
     </View>
@@ -436,6 +452,14 @@ const styles = StyleSheet.create({
     lineHeight: 14,
     letterSpacing: 0.4,
   },
+  shoeItemRetirement: {
+    fontSize: 10,
+    fontWeight: '500',
+    color: GREY[500],
+    fontFamily: 'Pretendard',
+    lineHeight: 14,
+    letterSpacing: 0.4,
+  },
 
   // ===== 액션 버튼 =====
   actionButtonDelete: {
@@ -0,0 +1,91 @@
+import { Ionicons } from '@expo/vector-icons';
+import React, { useState } from 'react';
+import { Modal, StyleSheet, TouchableOpacity } from 'react-native';
+import { Text } from '~/shared/components/typography';
+import { GREY, PRIMARY } from '~/shared/styles';
+import { getShoeSuggestionReasonText, type RunProfile } from '../../models';
+import { useShoeRotationStore } from '../../stores/shoeRotationStore';
+import { useShoeSuggestion } from '../../viewmodels';
+import { ShoeRotationView } from '../ShoeRotationView';
+
+/**
+ * 러닝 시작 전 추천 신발 칩
+ * 로테이션을 켠 경우에만 보이고, 누르면 로테이션 설정 화면을 연다
+ */
+interface ShoeSuggestionChipProps {
+  profile: RunProfile;
+}
+
+export const ShoeSuggestionChip: React.FC<ShoeSuggestionChipProps> = ({ profile }) => {
+  const isRotationEnabled = useShoeRotationStore((state) => state.isRotationEnabled);
+
+  // 로테이션을 쓰지 않으면 신발/기록 조회 없이 숨김
+  if (!isRotationEnabled) return null;
+
+  return <SuggestionChip profile={profile} />;
+};
+
+const SuggestionChip: React.FC<ShoeSuggestionChipProps> = ({ profile }) => {
+  const { suggestion, suggestedShoe } = useShoeSuggestion({ profile });
+  const [showRotationView, setShowRotationView] = useState(false);
+
+  if (!suggestion || !suggestedShoe) return null;
+
+  return (
+    <>
+      <TouchableOpacity
+        testID="shoe-suggestion-chip"
+        style={styles.container}
+        onPress={() => setShowRotationView(true)}
+        activeOpacity={0.7}
+      >
+        <Ionicons name="footsteps-outline" size={16} color={PRIMARY[900]} />
+        <Text style={styles.label} numberOfLines={1}>
+          {`${suggestedShoe.brand} ${suggestedShoe.model}`}
+        </Text>
+        <Text style={styles.reason} numberOfLines={1}>
+          {getShoeSuggestionReasonText(suggestion)}
+        </Text>
+      </TouchableOpacity>
+
+      {showRotationView && (
+        <Modal
+          visible={showRotationView}
+          animationType="slide"
+          presentationStyle="fullScreen"
+          onRequestClose={() => setShowRotationView(false)}
+        >
+          <ShoeRotationView onClose={() => setShowRotationView(false)} />
+        </Modal>
+      )}
+    </>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    maxWidth: 335,
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 20,
+    borderWidth: 1,
+    borderColor: PRIMARY[600],
+    backgroundColor: PRIMARY[50],
+  },
+  label: {
+    flexShrink: 1,
+    fontSize: 13,
+    lineHeight: 18,
+    fontWeight: '600',
+    color: PRIMARY[900],
+  },
+  reason: {
+    fontSize: 12,
+    lineHeight: 18,
+    fontWeight: '500',
+    color: GREY[600],
+  },
+});
@@ -5,3 +5,6 @@
 export { ShoesListView } from './ShoesListView';
 export { AddShoeView } from './AddShoeView';
 export { EditShoeView } from './EditShoeView';
+export { ShoeDetailView, ShoeRetirementSummaryContent } from './ShoeDetailView';
+export { ShoeRotationView } from './ShoeRotationView';
+export { ShoeSuggestionChip } from './components/shoe-suggestion-chip';
@@ -1,14 +1,23 @@
 import { act, fireEvent, screen, waitFor } from '@testing-library/react-native';
 import { ScrollView, StyleSheet } from 'react-native';
-import { Period } from '~/features/statistics/models';
+import { calculateHeartRateZones } from '~/features/running/models';
+import { Period, buildRunCalendarMonth, createEmptyPersonalBests } from '~/features/statistics/models';
+import { EMPTY_PHYSIOLOGY_PROFILE, resolvePhysiology } from '~/features/user/models/PhysiologyProfile';
 import { StatisticsView } from '~/features/statistics/views/StatisticsView';
 import { renderWithProviders } from '~/test-utils/renderWithProviders';
 
 const mockUseStatisticsViewModel = jest.fn();
+const mockUsePersonalRecordsViewModel = jest.fn();
+const mockUseWeeklyHeartRateZonesViewModel = jest.fn();
+const mockUseRunStreakViewModel = jest.fn();
 const mockRunningRecordList = jest.fn();
 
 jest.mock('~/features/statistics/viewmodels', () => ({
   useStatisticsViewModel: (...args: unknown[]) => mockUseStatisticsViewModel(...args),
+  usePersonalRecordsViewModel: (...args: unknown[]) => mockUsePersonalRecordsViewModel(...args),
+  useWeeklyHeartRateZonesViewModel: (...args: unknown[]) =>
+    mockUseWeeklyHeartRateZonesViewModel(...args),
+  useRunStreakViewModel: () => mockUseRunStreakViewModel(),
 }));
 
 jest.mock('~/features/statistics/views/components/StatisticsErrorBoundary', () => ({
@@ -72,10 +81,46 @@ const createViewModelResult = (overrides: Record<string, unknown> = {}) => ({
   ...overrides,
 });
 
+const createPersonalRecordsResult = (overrides: Record<string, unknown> = {}) => ({
+  personalBests: null,
+  trends: null,
+  hasRecords: false,
+  isLoading: false,
+  handleRefresh: jest.fn().mockResolvedValue(undefined),
+  ...overrides,
+});
+
+const createWeeklyHeartRateZonesResult = (overrides: Record<string, unknown> = {}) => ({
+  weeks: [],
+  zones: [],
+  hasHeartRateData: false,
+  ...overrides,
+});
+
+const createRunStreakResult = (overrides: Record<string, unknown> = {}) => ({
+  streaks: { daily: { current: 0, best: 0 }, weekly: { current: 0, best: 0 } },
+  calendar: buildRunCalendarMonth({}, 2026, 2),
+  restDaysAllowed: 0,
+  weeklyGoalRunDays: 3,
+  setRestDaysAllowed: jest.fn(),
+  setWeeklyGoalRunDays: jest.fn(),
+  goToPreviousMonth: jest.fn(),
+  goToNextMonth: jest.fn(),
+  canGoToNextMonth: false,
+  hasRecords: false,
+  isLoading: false,
+  ...overrides,
+});
+
 describe('StatisticsView', () => {
   beforeEach(() => {
     jest.clearAllMocks();
     mockUseStatisticsViewModel.mockImplementation(() => createViewModelResult());
+    mockUsePersonalRecordsViewModel.mockImplementation(() => createPersonalRecordsResult());
+    mockUseWeeklyHeartRateZonesViewModel.mockImplementation(() =>
+      createWeeklyHeartRateZonesResult()
+    );
+    mockUseRunStreakViewModel.mockImplementation(() => createRunStreakResult());
   });
 
   it('STAT-SCREEN-001 renders empty-state summary values when there is no valid data', () => {
@@ -193,4 +238,102 @@ describe('StatisticsView', () => {
       expect(latestCallDate.getTime()).toBeGreaterThan(firstCallDate.getTime());
     });
   });
+
+  it('shows period-over-period trends and personal records when records exist', () => {
+    mockUseStatisticsViewModel.mockImplementation(() =>
+      createViewModelResult({
+        hasValidData: true,
+        formattedSummary: { runCount: 4, totalDistance: 20000, averagePace: 5.5 },
+      })
+    );
+    mockUsePersonalRecordsViewModel.mockImplementation(() =>
+      createPersonalRecordsResult({
+        hasRecords: true,
+        trends: { runCountTrend: 33.3, distanceTrend: -12.4, paceTrend: -4.2, durationTrend: 0, caloriesTrend: 0 },
+        personalBests: {
+          ...createEmptyPersonalBests(),
+          longestDistance: { recordId: 7, value: 21100, startTimestamp: 1767225600 },
+          bestEfforts: {
+            ...createEmptyPersonalBests().bestEfforts,
+            '5k': { recordId: 7, value: 1490, startTimestamp: 1767225600 },
+          },
+        },
+      })
+    );
+
+    renderWithProviders(<StatisticsView />);
+
+    expect(screen.getByTestId('trend-run-count')).toHaveTextContent('▲ 33%');
+    expect(screen.getByTestId('trend-distance')).toHaveTextContent('▼ 12%');
+    expect(screen.getByTestId('trend-pace')).toHaveTextContent('▼ 4%');
+    expect(screen.getByTestId('personal-record-longestDistance')).toHaveTextContent(/21\.10 km/);
+    expect(screen.getByTestId('best-effort-5k')).toHaveTextContent(/24 분 50 초/);
+    expect(screen.getByTestId('best-effort-10k')).toHaveTextContent('10km--');
+  });
+
+  it('shows weekly time in heart-rate zones only when heart rate was measured', () => {
+    const { unmount } = renderWithProviders(<StatisticsView />);
+    expect(screen.queryByTestId('weekly-heart-rate-zones-card')).toBeNull();
+    unmount();
+
+    const zones = calculateHeartRateZones(
+      resolvePhysiology({ ...EMPTY_PHYSIOLOGY_PROFILE, maxHeartRate: 200 })
+    );
+    mockUseWeeklyHeartRateZonesViewModel.mockImplementation(() =>
+      createWeeklyHeartRateZonesResult({
+        hasHeartRateData: true,
+        zones,
+        weeks: [
+          {
+            weekStart: new Date(2026, 1, 2),
+            timeInZones: {
+              secondsByZone: { 1: 0, 2: 1800, 3: 1500, 4: 300, 5: 0 },
+              belowZoneSec: 0,
+              measuredSec: 3600,
+            },
+          },
+          {
+            weekStart: new Date(2026, 1, 9),
+            timeInZones: {
+              secondsByZone: { 1: 0, 2: 0, 3: 0, 4: 0, 5: 0 },
+              belowZoneSec: 0,
+              measuredSec: 0,
+            },
+          },
+        ],
+      })
+    );
+
+    renderWithProviders(<StatisticsView />);
+
+    expect(screen.getByTestId('weekly-heart-rate-zones-card')).toBeTruthy();
+    expect(screen.getByTestId('weekly-heart-rate-zones-2-2')).toHaveTextContent('2/2~1시간 0분');
+    expect(screen.getByTestId('weekly-heart-rate-zones-2-9')).toHaveTextContent('2/9~-');
+  });
+
+  it('shows current/best streaks and the run calendar when records exist', () => {
+    const { unmount } = renderWithProviders(<StatisticsView />);
+    expect(screen.queryByTestId('run-streak-card')).toBeNull();
+    unmount();
+
+    const setRestDaysAllowed = jest.fn();
+    mockUseRunStreakViewModel.mockImplementation(() =>
+      createRunStreakResult({
+        hasRecords: true,
+        streaks: { daily: { current: 3, best: 5 }, weekly: { current: 2, best: 4 } },
+        calendar: buildRunCalendarMonth({ '2026-02-03': { runCount: 1, distance: 6000 } }, 2026, 2),
+        setRestDaysAllowed,
+      })
+    );
+
+    renderWithProviders(<StatisticsView />);
+
+    expect(screen.getByTestId('run-streak-daily-current')).toHaveTextContent('3일');
+    expect(screen.getByText('최고 5일')).toBeTruthy();
+    expect(screen.getByTestId('run-streak-weekly-current')).toHaveTextContent('2주');
+    expect(screen.getByText('2026년 2월 · 1일')).toBeTruthy();
+
+    fireEvent.press(screen.getByTestId('run-streak-rest-days-1'));
+    expect(setRestDaysAllowed).toHaveBeenCalledWith(1);
+  });
 });
@@ -0,0 +1,121 @@
+import type { RunningRecord } from '~/features/running/models';
+import {
+  applyRunToPersonalBests,
+  buildPersonalBests,
+  calculateBestEffortDuration,
+  calculateBestEfforts,
+  createEmptyBestEfforts,
+  createEmptyPersonalBests,
+  type BestEffortSegment,
+} from '~/features/statistics/models';
+
+const createRecord = (overrides?: Partial<RunningRecord>): RunningRecord => ({
+  id: 1,
+  distance: 5000,
+  steps: 6000,
+  cadence: 170,
+  heartRate: 150,
+  calorie: 300,
+  durationSec: 1500,
+  startTimestamp: 1767225600,
+  ...overrides,
+});
+
+/**
+ * 10m 세그먼트 생성 (paces: 구간별 [거리(m), 10m당 초])
+ */
+const createSegments = (paces: [number, number][]): BestEffortSegment[] => {
+  const segments: BestEffortSegment[] = [];
+  for (const [distance, secondsPer10m] of paces) {
+    for (let covered = 0; covered < distance; covered += 10) {
+      segments.push({ distance: 10, durationSec: secondsPer10m, orderIndex: segments.length });
+    }
+  }
+  return segments;
+};
+
+describe('best efforts', () => {
+  it('finds the fastest window anywhere in the run', () => {
+    // 1km 6분 페이스 → 1km 4분 페이스 → 1km 6분 페이스
+    const segments = createSegments([
+      [1000, 3.6],
+      [1000, 2.4],
+      [1000, 3.6],
+    ]);
+
+    expect(calculateBestEffortDuration(segments, 1000)).toBe(240);
+    expect(calculateBestEffortDuration(segments, 1500)).toBe(420);
+    expect(calculateBestEffortDuration(segments, 5000)).toBeNull();
+  });
+
+  it('interpolates inside a segment and ignores empty or out-of-order segments', () => {
+    const segments: BestEffortSegment[] = [
+      { distance: 600, durationSec: 180, orderIndex: 1 },
+      { distance: 0, durationSec: 30, orderIndex: 2 },
+      { distance: 600, durationSec: 240, orderIndex: 0 },
+    ];
+
+    // 빠른 600m(180초) + 느린 구간 400m(160초)
+    expect(calculateBestEffortDuration(segments, 1000)).toBe(340);
+  });
+
+  it('computes every standard distance at once', () => {
+    const efforts = calculateBestEfforts(createSegments([[5000, 3]]));
+
+    expect(efforts).toEqual({ '1k': 300, '5k': 1500, '10k': null, half: null });
+  });
+});
+
+describe('personal bests', () => {
+  it('builds records with ids and ignores short runs for fastest pace', () => {
+    const records = [
+      createRecord({ id: 1, distance: 10000, durationSec: 3300, calorie: 700 }),
+      createRecord({ id: 2, distance: 5000, durationSec: 1400, calorie: 350 }),
+      createRecord({ id: 3, distance: 300, durationSec: 60, calorie: 20 }),
+    ];
+
+    const personalBests = buildPersonalBests(records, {
+      1: { '1k': 310, '5k': 1620, '10k': 3300, half: null },
+      2: { '1k': 270, '5k': 1400, '10k': null, half: null },
+    });
+
+    expect(personalBests.longestDistance).toEqual({ recordId: 1, value: 10000, startTimestamp: 1767225600 });
+    expect(personalBests.fastestPace?.recordId).toBe(2);
+    expect(personalBests.mostCalories?.recordId).toBe(1);
+    expect(personalBests.bestEfforts['1k']?.recordId).toBe(2);
+    expect(personalBests.bestEfforts['10k']).toEqual({ recordId: 1, value: 3300, startTimestamp: 1767225600 });
+    expect(personalBests.bestEfforts.half).toBeNull();
+  });
+
+  it('reports only the records a new run improves', () => {
+    const previous = buildPersonalBests(
+      [createRecord({ id: 1, distance: 10000, durationSec: 3300, calorie: 700 })],
+      { 1: { '1k': 310, '5k': 1620, '10k': 3300, half: null } }
+    );
+
+    const { personalBests, newBests } = applyRunToPersonalBests(
+      previous,
+      createRecord({ id: 9, distance: 5000, durationSec: 1450, calorie: 400 }),
+      { ...createEmptyBestEfforts(), '1k': 280, '5k': 1450 }
+    );
+
+    expect(newBests).toEqual([
+      { kind: 'fastestPace', value: 1450 / 60 / 5, previousValue: 5.5 },
+      { kind: '1k', value: 280, previousValue: 310 },
+      { kind: '5k', value: 1450, previousValue: 1620 },
+    ]);
+    expect(personalBests.bestEfforts['1k']?.recordId).toBe(9);
+    expect(personalBests.longestDistance?.recordId).toBe(1);
+  });
+
+  it('treats a first effort at a distance as a new record', () => {
+    const { newBests } = applyRunToPersonalBests(
+      createEmptyPersonalBests(),
+      createRecord({ id: 2, distance: 800, durationSec: 240, calorie: 0 }),
+      createEmptyBestEfforts()
+    );
+
+    expect(newBests.map(({ kind }) => kind)).toEqual(['longestDistance', 'longestDuration']);
+    expect(newBests[0]?.previousValue).toBeNull();
+  });
+});
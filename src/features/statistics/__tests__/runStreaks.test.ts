@@ -0,0 +1,86 @@
+import {
+  buildRunCalendarMonth,
+  calculateDailyStreaks,
+  calculateRunStreaks,
+  calculateWeeklyStreaks,
+  summarizeRunDays,
+} from '~/features/statistics/models';
+
+const utcSeconds = (iso: string) => Date.parse(iso) / 1000;
+
+// 2026-01-05가 월요일: 12/29~1/4 주에 3일, 1/5~1/11 주에 3일
+const RUN_DAYS = ['2026-01-01', '2026-01-02', '2026-01-03', '2026-01-05', '2026-01-06', '2026-01-09'];
+
+describe('runStreaks', () => {
+  it('groups runs by the day in the timezone each run started in', () => {
+    const records = [
+      { distance: 5000, startTimestamp: utcSeconds('2026-01-05T16:00:00Z'), timezone: 'Asia/Seoul' },
+      {
+        distance: 3000,
+        startTimestamp: utcSeconds('2026-01-05T16:00:00Z'),
+        timezone: 'America/Los_Angeles',
+      },
+      // timezone 없는 기록은 기준 timezone
+      { distance: 4000, startTimestamp: utcSeconds('2026-01-05T20:00:00Z') },
+      // 서버에 저장되지 않는 짧은 러닝
+      { distance: 5, startTimestamp: utcSeconds('2026-01-07T00:00:00Z') },
+    ];
+
+    expect(summarizeRunDays(records, 'Asia/Seoul')).toEqual({
+      '2026-01-06': { runCount: 2, distance: 9000 },
+      '2026-01-05': { runCount: 1, distance: 3000 },
+    });
+  });
+
+  it('keeps daily streaks alive across allowed rest days', () => {
+    expect(calculateDailyStreaks(RUN_DAYS, '2026-01-10', 0)).toEqual({ current: 1, best: 3 });
+    expect(calculateDailyStreaks(RUN_DAYS, '2026-01-10', 1)).toEqual({ current: 1, best: 5 });
+    expect(calculateDailyStreaks(RUN_DAYS, '2026-01-10', 2)).toEqual({ current: 6, best: 6 });
+  });
+
+  it('breaks the current daily streak once rest exceeds the allowance', () => {
+    expect(calculateDailyStreaks(RUN_DAYS, '2026-01-11', 0)).toEqual({ current: 0, best: 3 });
+    expect(calculateDailyStreaks(RUN_DAYS, '2026-01-12', 2)).toEqual({ current: 6, best: 6 });
+    expect(calculateDailyStreaks([], '2026-01-12', 2)).toEqual({ current: 0, best: 0 });
+  });
+
+  it('counts consecutive Monday-start weeks meeting the run-day goal', () => {
+    expect(calculateWeeklyStreaks(RUN_DAYS, '2026-01-10', 3)).toEqual({ current: 2, best: 2 });
+    // 이번 주는 진행 중이라 아직 목표를 못 채워도 지난주까지의 연속 유지
+    expect(calculateWeeklyStreaks(RUN_DAYS, '2026-01-14', 3)).toEqual({ current: 2, best: 2 });
+    expect(calculateWeeklyStreaks(RUN_DAYS, '2026-01-20', 3)).toEqual({ current: 0, best: 2 });
+    expect(calculateWeeklyStreaks(RUN_DAYS, '2026-01-10', 4)).toEqual({ current: 0, best: 0 });
+  });
+
+  it('combines daily and weekly streaks from run days', () => {
+    const runDays = Object.fromEntries(RUN_DAYS.map((dateKey) => [dateKey, { runCount: 1, distance: 5000 }]));
+
+    expect(
+      calculateRunStreaks(runDays, '2026-01-10', { restDaysAllowed: 1, weeklyGoalRunDays: 3 })
+    ).toEqual({
+      daily: { current: 1, best: 5 },
+      weekly: { current: 2, best: 2 },
+    });
+  });
+
+  it('builds a Monday-start month calendar with distance levels', () => {
+    const calendar = buildRunCalendarMonth(
+      {
+        '2026-02-01': { runCount: 1, distance: 3000 },
+        '2026-02-10': { runCount: 2, distance: 6000 },
+        '2026-02-28': { runCount: 1, distance: 12_000 },
+        '2026-03-01': { runCount: 1, distance: 5000 },
+      },
+      2026,
+      2
+    );
+
+    // 2026-02-01은 일요일
+    expect(calendar.leadingBlankDays).toBe(6);
+    expect(calendar.days).toHaveLength(28);
+    expect(calendar.days[0]).toEqual({ dateKey: '2026-02-01', day: 1, runCount: 1, distance: 3000, level: 1 });
+    expect(calendar.days[9]).toMatchObject({ runCount: 2, level: 2 });
+    expect(calendar.days[27]).toMatchObject({ level: 3 });
+    expect(calendar.days.filter(({ level }) => level === 0)).toHaveLength(25);
+  });
+});
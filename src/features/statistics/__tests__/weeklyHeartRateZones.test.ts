@@ -0,0 +1,77 @@
+import type { RunningRecord } from '~/features/running/models';
+import { calculateHeartRateZones } from '~/features/running/models';
+import {
+  calculateWeeklyTimeInZones,
+  getWeekStartsInRange,
+} from '~/features/statistics/models';
+import {
+  EMPTY_PHYSIOLOGY_PROFILE,
+  resolvePhysiology,
+} from '~/features/user/models/PhysiologyProfile';
+
+const createRecord = (id: number, startDate: Date): RunningRecord => ({
+  id,
+  distance: 5000,
+  steps: 6000,
+  cadence: 170,
+  heartRate: 150,
+  calorie: 300,
+  durationSec: 1500,
+  startTimestamp: startDate.getTime() / 1000,
+});
+
+// 최대 심박수 200 → 3구간 140~160, 4구간 160~180
+const ZONES = calculateHeartRateZones(
+  resolvePhysiology({ ...EMPTY_PHYSIOLOGY_PROFILE, maxHeartRate: 200 })
+);
+
+describe('weekly heart rate zones', () => {
+  it('lists Monday-based weeks overlapping the period up to today', () => {
+    const weekStarts = getWeekStartsInRange(
+      new Date(2026, 5, 1),
+      new Date(2026, 5, 30, 23, 59, 59),
+      new Date(2026, 5, 17, 12)
+    );
+
+    expect(weekStarts.map((date) => [date.getMonth() + 1, date.getDate()])).toEqual([
+      [6, 1],
+      [6, 8],
+      [6, 15],
+    ]);
+  });
+
+  it('keeps only the most recent weeks of a long period', () => {
+    const weekStarts = getWeekStartsInRange(
+      new Date(2025, 0, 1),
+      new Date(2025, 11, 31, 23, 59, 59),
+      new Date(2026, 5, 1)
+    );
+
+    expect(weekStarts).toHaveLength(6);
+    expect(weekStarts.at(-1)).toEqual(new Date(2025, 11, 29));
+  });
+
+  it('sums cached heart-rate histograms of runs within each week', () => {
+    const records = [
+      createRecord(1, new Date(2026, 5, 1, 7)),
+      createRecord(2, new Date(2026, 5, 7, 20)),
+      createRecord(3, new Date(2026, 5, 8, 7)),
+      createRecord(4, new Date(2026, 5, 9, 7)),
+    ];
+    const histograms = {
+      1: { 150: 600 },
+      2: { 150: 300, 170: 300 },
+      3: {},
+      // 4번 기록은 아직 분포를 받지 못함
+    };
+
+    const weeks = calculateWeeklyTimeInZones(records, histograms, ZONES, [
+      new Date(2026, 5, 1),
+      new Date(2026, 5, 8),
+    ]);
+
+    expect(weeks[0]?.timeInZones.secondsByZone).toEqual({ 1: 0, 2: 0, 3: 900, 4: 300, 5: 0 });
+    expect(weeks[0]?.timeInZones.measuredSec).toBe(1200);
+    expect(weeks[1]?.timeInZones.measuredSec).toBe(0);
+  });
+});
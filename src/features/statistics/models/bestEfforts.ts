@@ -0,0 +1,123 @@
+/**
+ * Best Efforts
+ * 10m 세그먼트로 러닝 중 가장 빨랐던 1km / 5km / 10km / 하프 마라톤 기록 계산
+ */
+
+export type BestEffortKey = '1k' | '5k' | '10k' | 'half';
+
+export interface BestEffortDistance {
+  key: BestEffortKey;
+  meters: number;
+  label: string;
+}
+
+export const BEST_EFFORT_DISTANCES: BestEffortDistance[] = [
+  { key: '1k', meters: 1000, label: '1km' },
+  { key: '5k', meters: 5000, label: '5km' },
+  { key: '10k', meters: 10000, label: '10km' },
+  { key: 'half', meters: 21097.5, label: '하프 마라톤' },
+];
+
+/**
+ * 구간별 최고 기록 (초), 해당 거리를 달리지 않았으면 null
+ */
+export type BestEffortDurations = Record<BestEffortKey, number | null>;
+
+/**
+ * 계산에 필요한 세그먼트 필드
+ * (로컬 RunningRecordItem, 서버 RunningRecordItemResponse 모두 사용 가능)
+ */
+export interface BestEffortSegment {
+  distance: number; // 미터
+  durationSec: number;
+  orderIndex: number;
+}
+
+// 부동소수점 누적 오차로 거리를 놓치지 않기 위한 허용치 (미터)
+const BEST_EFFORT_EPSILON = 1e-6;
+
+export const createEmptyBestEfforts = (): BestEffortDurations => ({
+  '1k': null,
+  '5k': null,
+  '10k': null,
+  half: null,
+});
+
+/**
+ * 누적 거리 → 누적 시간 (세그먼트 안에서는 일정한 속도로 보고 선형 보간)
+ */
+const createTimeAtDistance = (cumulativeDistances: number[], cumulativeDurations: number[]) => {
+  return (distance: number): number => {
+    let low = 0;
+    let high = cumulativeDistances.length - 1;
+
+    while (high - low > 1) {
+      const mid = Math.floor((low + high) / 2);
+      if (cumulativeDistances[mid]! <= distance) {
+        low = mid;
+      } else {
+        high = mid;
+      }
+    }
+
+    const startDistance = cumulativeDistances[low]!;
+    const endDistance = cumulativeDistances[high]!;
+    const startDuration = cumulativeDurations[low]!;
+    const endDuration = cumulativeDurations[high]!;
+    if (endDistance <= startDistance) return startDuration;
+
+    const ratio = Math.min(1, Math.max(0, (distance - startDistance) / (endDistance - startDistance)));
+    return startDuration + (endDuration - startDuration) * ratio;
+  };
+};
+
+/**
+ * targetMeters를 가장 빨리 달린 시간 (초)
+ *
+ * 구간 시간은 창 위치에 대해 구간별 선형이므로,
+ * 창의 시작 또는 끝이 세그먼트 경계에 걸리는 경우만 비교하면 최소값을 찾을 수 있다.
+ */
+export const calculateBestEffortDuration = (
+  segments: BestEffortSegment[],
+  targetMeters: number
+): number | null => {
+  const ordered = segments
+    .filter((segment) => Number.isFinite(segment.distance) && segment.distance > 0)
+    .sort((a, b) => a.orderIndex - b.orderIndex);
+
+  const cumulativeDistances = [0];
+  const cumulativeDurations = [0];
+  for (const segment of ordered) {
+    const durationSec = Number.isFinite(segment.durationSec) ? Math.max(0, segment.durationSec) : 0;
+    cumulativeDistances.push(cumulativeDistances[cumulativeDistances.length - 1]! + segment.distance);
+    cumulativeDurations.push(cumulativeDurations[cumulativeDurations.length - 1]! + durationSec);
+  }
+
+  const totalDistance = cumulativeDistances[cumulativeDistances.length - 1]!;
+  if (targetMeters <= 0 || totalDistance < targetMeters - BEST_EFFORT_EPSILON) {
+    return null;
+  }
+
+  const timeAt = createTimeAtDistance(cumulativeDistances, cumulativeDurations);
+  let best = Infinity;
+
+  for (const boundary of cumulativeDistances) {
+    if (boundary + targetMeters <= totalDistance + BEST_EFFORT_EPSILON) {
+      best = Math.min(best, timeAt(Math.min(boundary + targetMeters, totalDistance)) - timeAt(boundary));
+    }
+    if (boundary - targetMeters >= -BEST_EFFORT_EPSILON) {
+      best = Math.min(best, timeAt(boundary) - timeAt(Math.max(0, boundary - targetMeters)));
+    }
+  }
+
+  return Number.isFinite(best) && best > 0 ? Math.round(best) : null;
+};
+
+/**
+ * 모든 기준 거리의 최고 기록 계산
+ */
+export const calculateBestEfforts = (segments: BestEffortSegment[]): BestEffortDurations =>
+  BEST_EFFORT_DISTANCES.reduce((efforts, { key, meters }) => {
+    efforts[key] = calculateBestEffortDuration(segments, meters);
+    return efforts;
+  }, createEmptyBestEfforts());
@@ -10,3 +10,13 @@ export * from './dateHelpers';
 
 // Calculator Functions
 export * from './statisticsCalculator';
+
+// Personal Records
+export * from './bestEfforts';
+export * from './personalBests';
+
+// Heart Rate Zones
+export * from './weeklyHeartRateZones';
+
+// Streaks & Calendar
+export * from './runStreaks';
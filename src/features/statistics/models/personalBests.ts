@@ -0,0 +1,190 @@
+/**
+ * Personal Bests
+ * calculatePersonalRecords 결과와 구간 최고 기록을 기록 ID 기준으로 정리하고,
+ * 새 러닝이 갱신한 개인 기록(PR)을 판정
+ */
+
+import { formatDuration, type RunningRecord } from '../../running/models';
+import { formatDistance, formatPace, getPaceUnitLabel } from '~/shared/utils/unitFormatters';
+import { calculatePace } from '~/shared/utils/paceUtils';
+import { DistanceUnit } from '~/stores/user/userStore';
+import {
+  BEST_EFFORT_DISTANCES,
+  type BestEffortDurations,
+  type BestEffortKey,
+} from './bestEfforts';
+import { calculatePersonalRecords } from './statisticsCalculator';
+
+// 이보다 짧은 러닝은 페이스 편차가 커서 최고 페이스 기록에서 제외
+export const MIN_PACE_RECORD_DISTANCE_METERS = 1000;
+
+export type RecordMetricKind = 'longestDistance' | 'longestDuration' | 'fastestPace' | 'mostCalories';
+export type PersonalBestKind = RecordMetricKind | BestEffortKey;
+
+export interface PersonalBestEntry {
+  recordId: number;
+  /** 거리(m), 시간(초), 페이스(분/km), 칼로리(kcal), 구간 기록(초) */
+  value: number;
+  startTimestamp: number;
+}
+
+export interface PersonalBests {
+  longestDistance: PersonalBestEntry | null;
+  longestDuration: PersonalBestEntry | null;
+  fastestPace: PersonalBestEntry | null;
+  mostCalories: PersonalBestEntry | null;
+  bestEfforts: Record<BestEffortKey, PersonalBestEntry | null>;
+}
+
+/**
+ * 새로 갱신된 개인 기록
+ */
+export interface NewPersonalBest {
+  kind: PersonalBestKind;
+  value: number;
+  /** 이전 기록 값, 처음 세운 기록이면 null */
+  previousValue: number | null;
+}
+
+export const RECORD_METRIC_LABELS: Record<RecordMetricKind, string> = {
+  longestDistance: '최장 거리',
+  longestDuration: '최장 시간',
+  fastestPace: '최고 페이스',
+  mostCalories: '최다 칼로리',
+};
+
+export const getPersonalBestLabel = (kind: PersonalBestKind): string => {
+  if (kind in RECORD_METRIC_LABELS) {
+    return RECORD_METRIC_LABELS[kind as RecordMetricKind];
+  }
+
+  const distance = BEST_EFFORT_DISTANCES.find(({ key }) => key === kind);
+  return `${distance?.label ?? kind} 최고 기록`;
+};
+
+/**
+ * 기록 값 표시 문자열 (예: "12.34 km", "25 분 03 초", "4:58\"/km", "512 kcal")
+ */
+export const formatPersonalBestValue = (
+  kind: PersonalBestKind,
+  value: number,
+  unit: DistanceUnit = DistanceUnit.KILOMETER
+): string => {
+  switch (kind) {
+    case 'longestDistance':
+      return formatDistance(value, unit);
+    case 'fastestPace':
+      return `${formatPace(value, unit)}"${getPaceUnitLabel(unit)}`;
+    case 'mostCalories':
+      return `${Math.round(value)} kcal`;
+    default:
+      return formatDuration(value);
+  }
+};
+
+export const createEmptyPersonalBests = (): PersonalBests => ({
+  longestDistance: null,
+  longestDuration: null,
+  fastestPace: null,
+  mostCalories: null,
+  bestEfforts: { '1k': null, '5k': null, '10k': null, half: null },
+});
+
+const toEntry = (pr: { record: RunningRecord | null; value: number }): PersonalBestEntry | null =>
+  pr.record && pr.value > 0
+    ? { recordId: pr.record.id, value: pr.value, startTimestamp: pr.record.startTimestamp }
+    : null;
+
+/**
+ * 전체 러닝 기록 + 기록별 구간 최고 기록 → 개인 기록
+ */
+export const buildPersonalBests = (
+  records: RunningRecord[],
+  bestEffortsByRecordId: Record<number, BestEffortDurations>
+): PersonalBests => {
+  const personalRecords = calculatePersonalRecords(records);
+  const { fastestPace } = calculatePersonalRecords(
+    records.filter((record) => record.distance >= MIN_PACE_RECORD_DISTANCE_METERS)
+  );
+
+  const bestEfforts = createEmptyPersonalBests().bestEfforts;
+  for (const record of records) {
+    const efforts = bestEffortsByRecordId[record.id];
+    if (!efforts) continue;
+
+    for (const { key } of BEST_EFFORT_DISTANCES) {
+      const duration = efforts[key];
+      const current = bestEfforts[key];
+      if (duration !== null && (current === null || duration < current.value)) {
+        bestEfforts[key] = { recordId: record.id, value: duration, startTimestamp: record.startTimestamp };
+      }
+    }
+  }
+
+  return {
+    longestDistance: toEntry(personalRecords.longestDistance),
+    longestDuration: toEntry(personalRecords.longestDuration),
+    fastestPace: toEntry(fastestPace),
+    mostCalories: toEntry(personalRecords.mostCalories),
+    bestEfforts,
+  };
+};
+
+/**
+ * 방금 끝난 러닝을 기존 개인 기록에 반영하고 갱신된 항목 반환
+ * - 거리/시간/칼로리는 클수록, 페이스/구간 기록은 작을수록 좋은 기록
+ */
+export const applyRunToPersonalBests = (
+  previous: PersonalBests,
+  record: RunningRecord,
+  bestEfforts: BestEffortDurations
+): { personalBests: PersonalBests; newBests: NewPersonalBest[] } => {
+  const next: PersonalBests = { ...previous, bestEfforts: { ...previous.bestEfforts } };
+  const newBests: NewPersonalBest[] = [];
+
+  const consider = (
+    kind: PersonalBestKind,
+    current: PersonalBestEntry | null,
+    value: number | null,
+    isBetter: (value: number, previousValue: number) => boolean,
+    assign: (entry: PersonalBestEntry) => void
+  ) => {
+    if (value === null || !Number.isFinite(value) || value <= 0) return;
+    if (current !== null && !isBetter(value, current.value)) return;
+
+    assign({ recordId: record.id, value, startTimestamp: record.startTimestamp });
+    newBests.push({ kind, value, previousValue: current?.value ?? null });
+  };
+
+  const larger = (value: number, previousValue: number) => value > previousValue;
+  const smaller = (value: number, previousValue: number) => value < previousValue;
+
+  consider('longestDistance', previous.longestDistance, record.distance, larger, (entry) => {
+    next.longestDistance = entry;
+  });
+  consider('longestDuration', previous.longestDuration, record.durationSec, larger, (entry) => {
+    next.longestDuration = entry;
+  });
+  consider(
+    'fastestPace',
+    previous.fastestPace,
+    record.distance >= MIN_PACE_RECORD_DISTANCE_METERS
+      ? calculatePace(record.distance, record.durationSec)
+      : null,
+    smaller,
+    (entry) => {
+      next.fastestPace = entry;
+    }
+  );
+  consider('mostCalories', previous.mostCalories, record.calorie, larger, (entry) => {
+    next.mostCalories = entry;
+  });
+
+  for (const { key } of BEST_EFFORT_DISTANCES) {
+    consider(key, previous.bestEfforts[key], bestEfforts[key], smaller, (entry) => {
+      next.bestEfforts[key] = entry;
+    });
+  }
+
+  return { personalBests: next, newBests };
+};
@@ -0,0 +1,219 @@
+/**
+ * Run Streaks
+ * 러닝한 날/주 연속 기록과 월별 러닝 달력 계산 (순수 함수)
+ * - 날짜는 러닝을 시작한 timezone 기준 'YYYY-MM-DD'로 묶어 기기 timezone과 무관하게 같은 결과
+ *   (서버 기록의 timezone, 없으면 넘겨받은 기준 timezone)
+ * - 일 연속: 러닝한 날 사이 쉰 날이 허용 일수 이하면 이어진 것으로 봄 (러닝한 날 수로 셈)
+ * - 주 연속: 월요일 시작 주에 러닝한 날 수가 목표 이상인 주가 이어진 수
+ */
+
+import { getZonedDateParts } from '~/shared/utils/dateUtils';
+import type { RunningRecord } from '../../running/models';
+
+// 서버에 저장되지 않는 짧은 러닝(useRunningLifecycle 기준)은 세지 않는다.
+const MIN_RECORDED_DISTANCE_METERS = 10;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DAYS_PER_WEEK = 7;
+// 1970-01-01(목)부터 첫 월요일(1970-01-05)까지의 일수
+const FIRST_MONDAY_DAY_NUMBER = 4;
+
+// 달력 색 단계 기준 거리 (미터)
+const CALENDAR_LEVEL_DISTANCES = [5_000, 10_000];
+
+export const MAX_REST_DAYS_ALLOWED = 2;
+export const DEFAULT_WEEKLY_GOAL_RUN_DAYS = 3;
+
+export interface StreakSummary {
+  current: number;
+  best: number;
+}
+
+export interface RunStreaks {
+  /** 연속 러닝 일수 (러닝한 날 수) */
+  daily: StreakSummary;
+  /** 목표를 채운 연속 주 수 */
+  weekly: StreakSummary;
+}
+
+export interface RunStreakOptions {
+  /** 연속이 끊기지 않는 최대 휴식 일수 */
+  restDaysAllowed: number;
+  /** 주간 목표 러닝 일수 */
+  weeklyGoalRunDays: number;
+}
+
+export interface RunDaySummary {
+  runCount: number;
+  distance: number; // 미터
+}
+
+export interface RunCalendarDay extends RunDaySummary {
+  dateKey: string;
+  day: number;
+  /** 0: 러닝 없음, 1: 5km 미만, 2: 10km 미만, 3: 10km 이상 */
+  level: 0 | 1 | 2 | 3;
+}
+
+export interface RunCalendarMonth {
+  year: number;
+  month: number; // 1~12
+  /** 1일 앞의 빈 칸 수 (월요일 시작) */
+  leadingBlankDays: number;
+  days: RunCalendarDay[];
+}
+
+type StreakRecord = Pick<RunningRecord, 'distance' | 'startTimestamp' | 'timezone'>;
+
+/**
+ * 'YYYY-MM-DD' → 1970-01-01부터의 일수
+ */
+const toDayNumber = (dateKey: string): number => Math.round(Date.parse(`${dateKey}T00:00:00Z`) / DAY_MS);
+
+const toWeekNumber = (dayNumber: number): number =>
+  Math.floor((dayNumber - FIRST_MONDAY_DAY_NUMBER) / DAYS_PER_WEEK);
+
+/**
+ * 연속된 값끼리 묶은 길이 목록 (values는 오름차순, 간격이 maxGap 이하면 이어짐)
+ */
+const splitChains = (values: number[], maxGap: number): { last: number; length: number }[] => {
+  const chains: { last: number; length: number }[] = [];
+  values.forEach((value) => {
+    const chain = chains[chains.length - 1];
+    if (chain && value - chain.last <= maxGap) {
+      chain.last = value;
+      chain.length += 1;
+    } else {
+      chains.push({ last: value, length: 1 });
+    }
+  });
+  return chains;
+};
+
+/**
+ * 기록을 시작한 timezone (연속 기록과 배지가 같은 날짜 기준을 쓰도록 공용)
+ * @param fallbackTimeZone - 기록에 timezone이 없을 때 기준 (IANA 이름)
+ */
+export const getRecordTimeZone = (
+  record: Pick<RunningRecord, 'timezone'>,
+  fallbackTimeZone: string
+): string => record.timezone ?? fallbackTimeZone;
+
+/**
+ * 날짜별 러닝 횟수/거리
+ * @param fallbackTimeZone - 기록에 timezone이 없을 때 기준 (IANA 이름)
+ */
+export const summarizeRunDays = (
+  records: StreakRecord[],
+  fallbackTimeZone: string
+): Record<string, RunDaySummary> =>
+  records
+    .filter((record) => record.distance >= MIN_RECORDED_DISTANCE_METERS)
+    .reduce<Record<string, RunDaySummary>>((days, record) => {
+      const { dateKey } = getZonedDateParts(
+        record.startTimestamp,
+        getRecordTimeZone(record, fallbackTimeZone)
+      );
+      const day = days[dateKey] ?? { runCount: 0, distance: 0 };
+      days[dateKey] = { runCount: day.runCount + 1, distance: day.distance + record.distance };
+      return days;
+    }, {});
+
+/**
+ * 가장 긴 연속 러닝 일수
+ */
+export const calculateLongestDailyStreak = (dateKeys: string[], restDaysAllowed = 0): number => {
+  const days = [...new Set(dateKeys)].map(toDayNumber).sort((a, b) => a - b);
+  return Math.max(0, ...splitChains(days, restDaysAllowed + 1).map(({ length }) => length));
+};
+
+/**
+ * 일 연속 (현재/최고)
+ * 마지막 러닝 뒤로 오늘까지 쉰 날이 허용 일수 이하면 현재 연속이 이어지는 중
+ */
+export const calculateDailyStreaks = (
+  dateKeys: string[],
+  todayKey: string,
+  restDaysAllowed: number
+): StreakSummary => {
+  const days = [...new Set(dateKeys)].map(toDayNumber).sort((a, b) => a - b);
+  const chains = splitChains(days, restDaysAllowed + 1);
+  const lastChain = chains[chains.length - 1];
+  const isCurrentAlive = lastChain !== undefined && toDayNumber(todayKey) - lastChain.last <= restDaysAllowed + 1;
+
+  return {
+    current: isCurrentAlive ? lastChain.length : 0,
+    best: Math.max(0, ...chains.map(({ length }) => length)),
+  };
+};
+
+/**
+ * 주 연속 (현재/최고)
+ * 이번 주는 아직 진행 중이므로 목표를 못 채웠어도 지난주까지의 연속을 현재 연속으로 봄
+ */
+export const calculateWeeklyStreaks = (
+  dateKeys: string[],
+  todayKey: string,
+  weeklyGoalRunDays: number
+): StreakSummary => {
+  const runDaysByWeek = new Map<number, number>();
+  new Set(dateKeys).forEach((dateKey) => {
+    const week = toWeekNumber(toDayNumber(dateKey));
+    runDaysByWeek.set(week, (runDaysByWeek.get(week) ?? 0) + 1);
+  });
+
+  const goalWeeks = [...runDaysByWeek.entries()]
+    .filter(([, runDays]) => runDays >= weeklyGoalRunDays)
+    .map(([week]) => week)
+    .sort((a, b) => a - b);
+  const chains = splitChains(goalWeeks, 1);
+  const lastChain = chains[chains.length - 1];
+  const isCurrentAlive = lastChain !== undefined && toWeekNumber(toDayNumber(todayKey)) - lastChain.last <= 1;
+
+  return {
+    current: isCurrentAlive ? lastChain.length : 0,
+    best: Math.max(0, ...chains.map(({ length }) => length)),
+  };
+};
+
+export const calculateRunStreaks = (
+  runDays: Record<string, RunDaySummary>,
+  todayKey: string,
+  { restDaysAllowed, weeklyGoalRunDays }: RunStreakOptions
+): RunStreaks => {
+  const dateKeys = Object.keys(runDays);
+  return {
+    daily: calculateDailyStreaks(dateKeys, todayKey, restDaysAllowed),
+    weekly: calculateWeeklyStreaks(dateKeys, todayKey, weeklyGoalRunDays),
+  };
+};
+
+const getCalendarLevel = (distance: number): RunCalendarDay['level'] => {
+  if (distance <= 0) return 0;
+  const reached = CALENDAR_LEVEL_DISTANCES.filter((threshold) => distance >= threshold).length;
+  return (reached + 1) as RunCalendarDay['level'];
+};
+
+/**
+ * 월별 러닝 달력
+ */
+export const buildRunCalendarMonth = (
+  runDays: Record<string, RunDaySummary>,
+  year: number,
+  month: number
+): RunCalendarMonth => {
+  const daysInMonth = new Date(Date.UTC(year, month, 0)).getUTCDate();
+  const monthPrefix = `${year}-${String(month).padStart(2, '0')}`;
+  const firstDayNumber = toDayNumber(`${monthPrefix}-01`);
+
+  return {
+    year,
+    month,
+    leadingBlankDays:
+      (((firstDayNumber - FIRST_MONDAY_DAY_NUMBER) % DAYS_PER_WEEK) + DAYS_PER_WEEK) % DAYS_PER_WEEK,
+    days: Array.from({ length: daysInMonth }, (_, index) => {
+      const dateKey = `${monthPrefix}-${String(index + 1).padStart(2, '0')}`;
+      const summary = runDays[dateKey] ?? { runCount: 0, distance: 0 };
+      return { dateKey, day: index + 1, ...summary, level: getCalendarLevel(summary.distance) };
+    }),
+  };
+};
@@ -0,0 +1,79 @@
+/**
+ * Weekly Heart Rate Zones
+ * 기록별 심박수 분포를 주(월요일 시작) 단위로 합산해 구간별 시간 계산
+ */
+
+import {
+  calculateTimeInZones,
+  mergeHeartRateHistograms,
+  type HeartRateHistogram,
+  type HeartRateZone,
+  type RunningRecord,
+  type TimeInZones,
+} from '../../running/models';
+import { getStartOfWeek } from './dateHelpers';
+
+export interface WeeklyTimeInZones {
+  weekStart: Date;
+  timeInZones: TimeInZones;
+}
+
+// 연 단위 조회에서도 카드가 길어지지 않도록 최근 주만 표시
+export const MAX_WEEKLY_ZONE_ROWS = 6;
+
+const DAYS_PER_WEEK = 7;
+
+const addWeeks = (date: Date, weeks: number): Date => {
+  const next = new Date(date);
+  next.setDate(next.getDate() + weeks * DAYS_PER_WEEK);
+  return next;
+};
+
+/**
+ * 기간과 겹치는 주 목록 (미래 주는 제외, 최근 maxWeeks개)
+ */
+export const getWeekStartsInRange = (
+  startDate: Date,
+  endDate: Date,
+  now: Date = new Date(),
+  maxWeeks: number = MAX_WEEKLY_ZONE_ROWS
+): Date[] => {
+  const lastDate = endDate.getTime() < now.getTime() ? endDate : now;
+  const weekStarts: Date[] = [];
+
+  for (
+    let weekStart = getStartOfWeek(startDate);
+    weekStart.getTime() <= lastDate.getTime();
+    weekStart = addWeeks(weekStart, 1)
+  ) {
+    weekStarts.push(weekStart);
+  }
+
+  return weekStarts.slice(-maxWeeks);
+};
+
+/**
+ * 주별 구간 시간 계산
+ * 주에 걸친 기간 경계와 관계없이 주 전체(월~일) 기록을 합산하며,
+ * 심박수 분포가 아직 없는 기록은 제외
+ */
+export const calculateWeeklyTimeInZones = (
+  records: RunningRecord[],
+  histogramsByRecordId: Record<number, HeartRateHistogram>,
+  zones: HeartRateZone[],
+  weekStarts: Date[]
+): WeeklyTimeInZones[] =>
+  weekStarts.map((weekStart) => {
+    const start = weekStart.getTime() / 1000;
+    const end = addWeeks(weekStart, 1).getTime() / 1000;
+
+    const histograms = records
+      .filter((record) => record.startTimestamp >= start && record.startTimestamp < end)
+      .map((record) => histogramsByRecordId[record.id])
+      .filter((histogram): histogram is HeartRateHistogram => histogram !== undefined);
+
+    return {
+      weekStart,
+      timeInZones: calculateTimeInZones(mergeHeartRateHistograms(histograms), zones),
+    };
+  });
@@ -5,6 +5,8 @@
 
 import { useQuery, keepPreviousData } from '@tanstack/react-query';
 import { queryKeys } from '../../../services/queryClient';
+import type { RunningRecord } from '../../running/models';
+import { runningService } from '../../running/services/runningService';
 import type {
   Period,
   StatisticsSummary,
@@ -43,3 +45,14 @@ export const useGetStatisticsSummary = (
     placeholderData: keepPreviousData,
   });
 };
+
+/**
+ * 전체 러닝 기록 조회 (개인 기록/트렌드 계산용)
+ */
+export const useGetAllRunningRecords = (options?: { enabled?: boolean }) => {
+  return useQuery<RunningRecord[]>({
+    queryKey: queryKeys.statistics.records,
+    queryFn: () => runningService.loadRunningRecords({ startDate: new Date(0) }),
+    enabled: options?.enabled ?? true,
+  });
+};
@@ -0,0 +1,41 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { create } from 'zustand';
+import { createJSONStorage, persist } from 'zustand/middleware';
+import type { HeartRateHistogram } from '../../running/models';
+
+/**
+ * Heart Rate Histogram Store (Zustand)
+ * 기록별 심박수 분포 캐시 (주간 심박 구간 시간을 계산할 때 세그먼트를 다시 받지 않도록 기기에 저장)
+ * 구간 설정이 바뀌어도 분포는 그대로 쓸 수 있다.
+ */
+interface HeartRateHistogramState {
+  histogramsByRecordId: Record<number, HeartRateHistogram>;
+
+  // Actions
+  setHistogram: (recordId: number, histogram: HeartRateHistogram) => void;
+  reset: () => void;
+}
+
+const initialState = {
+  histogramsByRecordId: {} as Record<number, HeartRateHistogram>,
+};
+
+export const useHeartRateHistogramStore = create<HeartRateHistogramState>()(
+  persist(
+    (set) => ({
+      ...initialState,
+
+      setHistogram: (recordId, histogram) =>
+        set((state) => ({
+          histogramsByRecordId: { ...state.histogramsByRecordId, [recordId]: histogram },
+        })),
+
+      reset: () => set(initialState),
+    }),
+    {
+      name: 'heart-rate-histogram-storage', // AsyncStorage key
+      storage: createJSONStorage(() => AsyncStorage),
+      partialize: (state) => ({ histogramsByRecordId: state.histogramsByRecordId }),
+    }
+  )
+);
@@ -0,0 +1,109 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { create } from 'zustand';
+import { createJSONStorage, persist } from 'zustand/middleware';
+import type { RunningRecord } from '../../running/models';
+import { offlineSyncService } from '../../running/services/OfflineSyncService';
+import {
+  applyRunToPersonalBests,
+  createEmptyPersonalBests,
+  type BestEffortDurations,
+  type NewPersonalBest,
+  type PersonalBests,
+} from '../models';
+
+/**
+ * Personal Record Store (Zustand)
+ * - 기록별 구간 최고 기록 캐시 (세그먼트를 다시 받지 않도록 기기에 저장)
+ * - 러닝 종료 시 PR 판정에 쓰는 개인 기록 기준값
+ *   통계 화면에서 서버 기록으로 다시 계산할 때마다 갱신되며, 한 번도 계산되지 않았으면 null
+ */
+interface PersonalRecordState {
+  bestEffortsByRecordId: Record<number, BestEffortDurations>;
+  personalBests: PersonalBests | null;
+  /** 마지막으로 끝난 러닝의 PR 판정 결과 (완료 화면이 다시 그려져도 같은 결과 사용) */
+  lastRunResult: { recordId: number; newBests: NewPersonalBest[] } | null;
+
+  // Actions
+  setBestEfforts: (recordId: number, efforts: BestEffortDurations) => void;
+  syncPersonalBests: (personalBests: PersonalBests, recordIds: number[]) => void;
+  recordFinishedRun: (record: RunningRecord, efforts: BestEffortDurations) => NewPersonalBest[];
+  remapRecordId: (fromRecordId: number, toRecordId: number) => void;
+  reset: () => void;
+}
+
+const initialState = {
+  bestEffortsByRecordId: {} as Record<number, BestEffortDurations>,
+  personalBests: null as PersonalBests | null,
+  lastRunResult: null as { recordId: number; newBests: NewPersonalBest[] } | null,
+};
+
+export const usePersonalRecordStore = create<PersonalRecordState>()(
+  persist(
+    (set, get) => ({
+      ...initialState,
+
+      setBestEfforts: (recordId, efforts) =>
+        set((state) => ({
+          bestEffortsByRecordId: { ...state.bestEffortsByRecordId, [recordId]: efforts },
+        })),
+
+      syncPersonalBests: (personalBests, recordIds) =>
+        set((state) => {
+          // 삭제된 기록의 캐시 정리 (동기화 대기 중인 임시 기록은 유지)
+          const validIds = new Set(recordIds);
+          const entries = Object.entries(state.bestEffortsByRecordId);
+          const validEntries = entries.filter(
+            ([recordId]) => validIds.has(Number(recordId)) || Number(recordId) < 0
+          );
+          // 정리할 항목이 없으면 참조를 유지해 구독 중인 계산이 다시 돌지 않게 함
+          if (validEntries.length === entries.length) {
+            return { personalBests };
+          }
+          return { personalBests, bestEffortsByRecordId: Object.fromEntries(validEntries) };
+        }),
+
+      recordFinishedRun: (record, efforts) => {
+        const { lastRunResult, personalBests } = get();
+        if (lastRunResult?.recordId === record.id) {
+          return lastRunResult.newBests;
+        }
+
+        // 기준값이 없으면 이번 러닝을 기준으로만 삼고 축하하지 않음
+        const result = applyRunToPersonalBests(personalBests ?? createEmptyPersonalBests(), record, efforts);
+        const newBests = personalBests ? result.newBests : [];
+
+        set((state) => ({
+          bestEffortsByRecordId: { ...state.bestEffortsByRecordId, [record.id]: efforts },
+          personalBests: result.personalBests,
+          lastRunResult: { recordId: record.id, newBests },
+        }));
+        return newBests;
+      },
+
+      remapRecordId: (fromRecordId, toRecordId) =>
+        set((state) => {
+          const efforts = state.bestEffortsByRecordId[fromRecordId];
+          if (!efforts) return state;
+
+          const { [fromRecordId]: _removed, ...rest } = state.bestEffortsByRecordId;
+          return { bestEffortsByRecordId: { ...rest, [toRecordId]: efforts } };
+        }),
+
+      reset: () => set(initialState),
+    }),
+    {
+      name: 'personal-record-storage', // AsyncStorage key
+      storage: createJSONStorage(() => AsyncStorage),
+      partialize: (state) => ({
+        bestEffortsByRecordId: state.bestEffortsByRecordId,
+        personalBests: state.personalBests,
+        lastRunResult: state.lastRunResult,
+      }),
+    }
+  )
+);
+
+// 오프라인으로 시작한 러닝이 서버 기록으로 생성되면 구간 최고 기록도 서버 ID로 이동
+offlineSyncService.onProvisionalRecordReconciled((fromId, toId) => {
+  usePersonalRecordStore.getState().remapRecordId(fromId, toId);
+});
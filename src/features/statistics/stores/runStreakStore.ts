@@ -0,0 +1,48 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { create } from 'zustand';
+import { createJSONStorage, persist } from 'zustand/middleware';
+import { DEFAULT_WEEKLY_GOAL_RUN_DAYS, MAX_REST_DAYS_ALLOWED } from '../models/runStreaks';
+
+/**
+ * Run Streak Store (Zustand)
+ * - 연속 기록 설정 (휴식 허용 일수, 주간 목표 러닝 일수)
+ */
+interface RunStreakState {
+  restDaysAllowed: number;
+  weeklyGoalRunDays: number;
+
+  // Actions
+  setRestDaysAllowed: (days: number) => void;
+  setWeeklyGoalRunDays: (days: number) => void;
+  reset: () => void;
+}
+
+const initialState = {
+  restDaysAllowed: 0,
+  weeklyGoalRunDays: DEFAULT_WEEKLY_GOAL_RUN_DAYS,
+};
+
+export const useRunStreakStore = create<RunStreakState>()(
+  persist(
+    (set) => ({
+      ...initialState,
+
+      setRestDaysAllowed: (days) =>
+        set({ restDaysAllowed: Math.min(MAX_REST_DAYS_ALLOWED, Math.max(0, Math.round(days))) }),
+
+      setWeeklyGoalRunDays: (days) =>
+        set({ weeklyGoalRunDays: Math.min(7, Math.max(1, Math.round(days))) }),
+
+      reset: () => set(initialState),
+    }),
+    {
+      name: 'run-streak-storage', // AsyncStorage key
+      storage: createJSONStorage(() => AsyncStorage),
+      partialize: (state) => ({
+        restDaysAllowed: state.restDaysAllowed,
+        weeklyGoalRunDays: state.weeklyGoalRunDays,
+      }),
+    }
+  )
+);
+
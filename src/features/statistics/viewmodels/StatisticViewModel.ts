@@ -11,11 +11,12 @@ import {
   getEndOfPeriod,
 } from '../models';
 import { useGetStatisticsSummary } from '../services';
+import { useDistanceUnit } from '~/shared/hooks';
 
 /**
  * Period에 따라 시작/종료 날짜 계산
  */
-const calculateDateRange = (period: Period, referenceDate: Date = new Date()): { startDateTime: Date; endDateTime: Date } => {
+export const calculateDateRange = (period: Period, referenceDate: Date = new Date()): { startDateTime: Date; endDateTime: Date } => {
   // 기간의 종료일 계산 (월: 월말, 주: 주 마지막 날, 연: 12/31)
   const endDateTime = getEndOfPeriod(referenceDate, period);
 
@@ -179,18 +180,20 @@ export const useStatisticsViewModel = (
     return [];
   }, [nextSummary]);
 
+  const { formatDistance, formatPace } = useDistanceUnit();
+
   // 통계 요약 정보 포맷팅
   const formattedSummary = useMemo(() => {
     if (!finalStats) return null;
 
     return {
       ...finalStats,
-      totalDistanceFormatted: `${(finalStats.totalDistance / 1000).toFixed(2)}km`,
+      totalDistanceFormatted: formatDistance(finalStats.totalDistance),
       totalDurationFormatted: `${Math.floor(finalStats.totalDuration / 3600)}시간 ${Math.floor((finalStats.totalDuration % 3600) / 60)}분`,
-      averagePaceFormatted: `${finalStats.averagePace.toFixed(2)}분/km`,
+      averagePaceFormatted: formatPace(finalStats.averagePace, { withUnit: true }),
       totalCaloriesFormatted: `${finalStats.totalCalories}kcal`,
     };
-  }, [finalStats]);
+  }, [finalStats, formatDistance, formatPace]);
 
   // 차트 데이터 포맷팅
   const formattedChartData = useMemo(() => {
@@ -202,11 +205,11 @@ export const useStatisticsViewModel = (
         month: 'short',
         day: 'numeric',
       }),
-      formattedDistance: `${(point.distance / 1000).toFixed(1)}km`,
+      formattedDistance: formatDistance(point.distance, { fractionDigits: 1 }),
       formattedDuration: `${Math.floor(point.durationSec / 60)}분`,
-      formattedPace: `${((point.paceSec * 1000) / 60).toFixed(2)}분/km`, // 초/미터 → 분/km
+      formattedPace: formatPace((point.paceSec * 1000) / 60, { withUnit: true }), // 초/미터 → 분/km
     }));
-  }, [chartData]);
+  }, [chartData, formatDistance, formatPace]);
 
   // 새로고침 핸들러
   const handleRefresh = useCallback(async () => {
@@ -4,3 +4,7 @@
  */
 export * from './StatisticViewModel';
 export * from './useRunningRecordList';
+export * from './usePersonalRecordsViewModel';
+export * from './useFinishedRunPersonalBests';
+export * from './useWeeklyHeartRateZonesViewModel';
+export * from './useRunStreakViewModel';
@@ -0,0 +1,52 @@
+/**
+ * Finished Run Personal Bests Hook
+ *
+ * 러닝 완료 화면에서 방금 끝난 러닝이 갱신한 개인 기록(PR)을 판정
+ * - 구간 최고 기록은 러닝 중 저장한 10m 세그먼트로 계산
+ * - 판정 결과는 personalRecordStore에 남아 완료 화면이 다시 그려져도 같은 결과를 보여 줌
+ */
+
+import { useEffect, useRef } from 'react';
+import type { RunningRecord } from '../../running/models';
+import {
+  calculateBestEfforts,
+  type BestEffortSegment,
+  type NewPersonalBest,
+} from '../models';
+import { usePersonalRecordStore } from '../stores/personalRecordStore';
+
+// 서버에 저장되지 않는 짧은 러닝(useRunningLifecycle 기준)은 판정하지 않는다.
+const MIN_RECORDED_DISTANCE_METERS = 10;
+
+export interface UseFinishedRunPersonalBestsProps {
+  /** 최종 거리/시간이 반영된 러닝 기록, 없으면 판정하지 않음 */
+  record: RunningRecord | null;
+  segments: BestEffortSegment[];
+}
+
+export const useFinishedRunPersonalBests = ({
+  record,
+  segments,
+}: UseFinishedRunPersonalBestsProps): NewPersonalBest[] => {
+  const recordId = record?.id ?? null;
+  const liveInputsRef = useRef({ record, segments });
+
+  useEffect(() => {
+    liveInputsRef.current = { record, segments };
+  }, [record, segments]);
+
+  // 기록 ID가 정해질 때 한 번만 판정 (같은 ID는 store에서 이전 결과를 재사용)
+  useEffect(() => {
+    const { record: finishedRecord, segments: finishedSegments } = liveInputsRef.current;
+    if (recordId === null || !finishedRecord || finishedRecord.distance < MIN_RECORDED_DISTANCE_METERS) {
+      return;
+    }
+
+    usePersonalRecordStore
+      .getState()
+      .recordFinishedRun(finishedRecord, calculateBestEfforts(finishedSegments));
+  }, [recordId]);
+
+  const lastRunResult = usePersonalRecordStore((state) => state.lastRunResult);
+  return recordId !== null && lastRunResult?.recordId === recordId ? lastRunResult.newBests : [];
+};
@@ -0,0 +1,127 @@
+/**
+ * Personal Records ViewModel
+ *
+ * 책임:
+ * - 전체 러닝 기록으로 개인 기록(최장 거리/시간, 최고 페이스, 최다 칼로리) 계산
+ * - 구간 최고 기록(1km/5km/10km/하프)이 없는 기록은 세그먼트를 받아 계산 후 캐시
+ * - 선택한 기간과 직전 기간 비교 트렌드
+ * - 계산한 개인 기록을 러닝 종료 시 PR 판정 기준값으로 저장
+ */
+
+import { useCallback, useEffect, useMemo } from 'react';
+import type { RunningRecord } from '../../running/models';
+import { runningService } from '../../running/services/runningService';
+import {
+  BEST_EFFORT_DISTANCES,
+  Period,
+  PeriodDirection,
+  buildPersonalBests,
+  calculateBestEfforts,
+  calculateNextReferenceDate,
+  calculateTrends,
+  createEmptyBestEfforts,
+} from '../models';
+import { useGetAllRunningRecords } from '../services';
+import { usePersonalRecordStore } from '../stores/personalRecordStore';
+import { calculateDateRange } from './StatisticViewModel';
+
+export type StatisticsTrends = ReturnType<typeof calculateTrends>;
+
+const filterRecordsInRange = (records: RunningRecord[], startDate: Date, endDate: Date) => {
+  const start = startDate.getTime() / 1000;
+  const end = endDate.getTime() / 1000;
+  return records.filter((record) => record.startTimestamp >= start && record.startTimestamp <= end);
+};
+
+/**
+ * @param period - 필터 기간
+ * @param referenceDate - 기준 날짜 (트렌드 비교 기간)
+ */
+export const usePersonalRecordsViewModel = (
+  period: Period = Period.MONTH,
+  referenceDate: Date = new Date()
+) => {
+  const { data: records, isLoading, refetch } = useGetAllRunningRecords();
+  const bestEffortsByRecordId = usePersonalRecordStore((state) => state.bestEffortsByRecordId);
+
+  // 구간 기록 캐시가 없는 기록만 세그먼트 조회 (순차 처리, 실패하면 다음 진입 시 재시도)
+  useEffect(() => {
+    if (!records) return;
+
+    const { bestEffortsByRecordId: cached, setBestEfforts } = usePersonalRecordStore.getState();
+    const missing = records.filter((record) => !cached[record.id]);
+    if (missing.length === 0) return;
+
+    let cancelled = false;
+    const shortestEffortMeters = BEST_EFFORT_DISTANCES[0]?.meters ?? 0;
+
+    const backfill = async () => {
+      for (const record of missing) {
+        if (cancelled) return;
+
+        if (record.distance < shortestEffortMeters) {
+          setBestEfforts(record.id, createEmptyBestEfforts());
+          continue;
+        }
+
+        try {
+          const items = await runningService.getRunningRecordItems(record.id);
+          if (cancelled) return;
+          setBestEfforts(record.id, calculateBestEfforts(items));
+        } catch (error) {
+          console.warn('[PersonalRecordsViewModel] 세그먼트 조회 실패:', record.id, error);
+          return;
+        }
+      }
+    };
+
+    void backfill();
+    return () => {
+      cancelled = true;
+    };
+  }, [records]);
+
+  const personalBests = useMemo(() => {
+    if (!records) return null;
+    return buildPersonalBests(records, bestEffortsByRecordId);
+  }, [records, bestEffortsByRecordId]);
+
+  // PR 판정 기준값 갱신
+  useEffect(() => {
+    if (!records || !personalBests) return;
+    usePersonalRecordStore.getState().syncPersonalBests(
+      personalBests,
+      records.map((record) => record.id)
+    );
+  }, [records, personalBests]);
+
+  // 직전 기간에 기록이 없으면 비교하지 않음
+  const trends: StatisticsTrends | null = useMemo(() => {
+    if (!records) return null;
+
+    const current = calculateDateRange(period, referenceDate);
+    const previous = calculateDateRange(
+      period,
+      calculateNextReferenceDate(referenceDate, period, PeriodDirection.PREVIOUS)
+    );
+    const previousRecords = filterRecordsInRange(records, previous.startDateTime, previous.endDateTime);
+    if (previousRecords.length === 0) return null;
+
+    return calculateTrends(
+      filterRecordsInRange(records, current.startDateTime, current.endDateTime),
+      previousRecords
+    );
+  }, [records, period, referenceDate]);
+
+  const handleRefresh = useCallback(async () => {
+    await refetch();
+  }, [refetch]);
+
+  return {
+    personalBests,
+    trends,
+    hasRecords: (records?.length ?? 0) > 0,
+    isLoading,
+    handleRefresh,
+  };
+};
@@ -0,0 +1,76 @@
+/**
+ * Run Streak ViewModel
+ *
+ * 책임:
+ * - 전체 러닝 기록으로 일/주 연속 기록(현재/최고) 계산
+ * - 기록별 날짜는 러닝을 시작한 timezone 기준 (서버 기록에 없으면 기기 timezone)
+ * - 월별 러닝 달력 (월 이동)
+ */
+
+import { useCallback, useMemo, useState } from 'react';
+import { getDeviceTimezone, getZonedDateParts } from '~/shared/utils/dateUtils';
+import { buildRunCalendarMonth, calculateRunStreaks, summarizeRunDays } from '../models';
+import { useGetAllRunningRecords } from '../services';
+import { useRunStreakStore } from '../stores/runStreakStore';
+
+interface CalendarMonth {
+  year: number;
+  month: number; // 1~12
+}
+
+const shiftMonth = ({ year, month }: CalendarMonth, offset: number): CalendarMonth => {
+  const index = year * 12 + (month - 1) + offset;
+  return { year: Math.floor(index / 12), month: (index % 12) + 1 };
+};
+
+export const useRunStreakViewModel = () => {
+  const { data: records, isLoading } = useGetAllRunningRecords();
+  const restDaysAllowed = useRunStreakStore((state) => state.restDaysAllowed);
+  const weeklyGoalRunDays = useRunStreakStore((state) => state.weeklyGoalRunDays);
+  const setRestDaysAllowed = useRunStreakStore((state) => state.setRestDaysAllowed);
+  const setWeeklyGoalRunDays = useRunStreakStore((state) => state.setWeeklyGoalRunDays);
+
+  const deviceTimezone = getDeviceTimezone();
+  const today = getZonedDateParts(Date.now() / 1000, deviceTimezone);
+  const currentMonth: CalendarMonth = { year: today.year, month: today.month };
+  const [calendarMonth, setCalendarMonth] = useState<CalendarMonth>(currentMonth);
+
+  const runDays = useMemo(
+    () => summarizeRunDays(records ?? [], deviceTimezone),
+    [records, deviceTimezone]
+  );
+
+  const streaks = useMemo(
+    () => calculateRunStreaks(runDays, today.dateKey, { restDaysAllowed, weeklyGoalRunDays }),
+    [runDays, today.dateKey, restDaysAllowed, weeklyGoalRunDays]
+  );
+
+  const calendar = useMemo(
+    () => buildRunCalendarMonth(runDays, calendarMonth.year, calendarMonth.month),
+    [runDays, calendarMonth]
+  );
+
+  const goToPreviousMonth = useCallback(() => {
+    setCalendarMonth((prev) => shiftMonth(prev, -1));
+  }, []);
+
+  const goToNextMonth = useCallback(() => {
+    setCalendarMonth((prev) => shiftMonth(prev, 1));
+  }, []);
+
+  return {
+    streaks,
+    calendar,
+    restDaysAllowed,
+    weeklyGoalRunDays,
+    setRestDaysAllowed,
+    setWeeklyGoalRunDays,
+    goToPreviousMonth,
+    goToNextMonth,
+    // 미래 달로는 이동하지 않음
+    canGoToNextMonth:
+      calendarMonth.year * 12 + calendarMonth.month < currentMonth.year * 12 + currentMonth.month,
+    hasRecords: (records?.length ?? 0) > 0,
+    isLoading,
+  };
+};
@@ -0,0 +1,88 @@
+/**
+ * Weekly Heart Rate Zones ViewModel
+ *
+ * 책임:
+ * - 선택한 기간과 겹치는 주별 심박 구간 시간 계산
+ * - 심박수 분포가 없는 기록은 세그먼트를 받아 계산 후 캐시
+ */
+
+import { useEffect, useMemo } from 'react';
+import { useHeartRateZones } from '../../running/hooks/useHeartRateZones';
+import { buildHeartRateHistogram } from '../../running/models';
+import { runningService } from '../../running/services/runningService';
+import { Period, calculateWeeklyTimeInZones, getWeekStartsInRange } from '../models';
+import { useGetAllRunningRecords } from '../services';
+import { useHeartRateHistogramStore } from '../stores/heartRateHistogramStore';
+import { calculateDateRange } from './StatisticViewModel';
+
+/**
+ * @param period - 필터 기간
+ * @param referenceDate - 기준 날짜
+ */
+export const useWeeklyHeartRateZonesViewModel = (
+  period: Period = Period.MONTH,
+  referenceDate: Date = new Date()
+) => {
+  const { data: records } = useGetAllRunningRecords();
+  const histogramsByRecordId = useHeartRateHistogramStore((state) => state.histogramsByRecordId);
+  const { zones } = useHeartRateZones();
+
+  const weekStarts = useMemo(() => {
+    const { startDateTime, endDateTime } = calculateDateRange(period, referenceDate);
+    return getWeekStartsInRange(startDateTime, endDateTime);
+  }, [period, referenceDate]);
+
+  // 표시할 주의 기록 중 분포 캐시가 없는 기록만 세그먼트 조회
+  // (순차 처리, 실패하면 다음 진입 시 재시도)
+  useEffect(() => {
+    if (!records || weekStarts.length === 0) return;
+
+    const start = weekStarts[0]!.getTime() / 1000;
+    const end = start + weekStarts.length * 7 * 24 * 60 * 60;
+    const { histogramsByRecordId: cached, setHistogram } = useHeartRateHistogramStore.getState();
+    const missing = records.filter(
+      (record) =>
+        record.startTimestamp >= start && record.startTimestamp < end && !cached[record.id]
+    );
+    if (missing.length === 0) return;
+
+    let cancelled = false;
+
+    const backfill = async () => {
+      for (const record of missing) {
+        if (cancelled) return;
+
+        // 평균 심박수가 없는 기록은 세그먼트에도 심박수가 없다
+        if (!record.heartRate) {
+          setHistogram(record.id, {});
+          continue;
+        }
+
+        try {
+          const items = await runningService.getRunningRecordItems(record.id);
+          if (cancelled) return;
+          setHistogram(record.id, buildHeartRateHistogram(items));
+        } catch (error) {
+          console.warn('[WeeklyHeartRateZonesViewModel] 세그먼트 조회 실패:', record.id, error);
+          return;
+        }
+      }
+    };
+
+    void backfill();
+    return () => {
+      cancelled = true;
+    };
+  }, [records, weekStarts]);
+
+  const weeks = useMemo(() => {
+    if (!records) return [];
+    return calculateWeeklyTimeInZones(records, histogramsByRecordId, zones, weekStarts);
+  }, [records, histogramsByRecordId, zones, weekStarts]);
+
+  return {
+    weeks,
+    zones,
+    hasHeartRateData: weeks.some((week) => week.timeInZones.measuredSec > 0),
+  };
+};
@@ -4,7 +4,10 @@
  *
  * 주요 기능:
  * - 주/월/년 단위 필터 선택
- * - 통계 요약 (러닝 횟수, 총 거리, 페이스)
+ * - 통계 요약 (러닝 횟수, 총 거리, 페이스) + 직전 기간 대비 트렌드
+ * - 개인 기록 / 구간 최고 기록
+ * - 연속 기록 (일/주) + 월별 러닝 달력
+ * - 주간 심박 구간 시간
  * - 기간별 차트 (바 차트)
  * - 무한 스크롤 러닝 기록 리스트
  * - Empty State (데이터 없을 때)
@@ -15,11 +18,20 @@ import { ActivityIndicator, RefreshControl, ScrollView, StyleSheet, Text, View }
 import { useFocusEffect } from 'expo-router';
 import { Period, PeriodDirection, calculateNextReferenceDate } from '../models';
 import { SafeAreaView, useSafeAreaInsets } from 'react-native-safe-area-context';
-import { useStatisticsViewModel } from '../viewmodels';
+import {
+  usePersonalRecordsViewModel,
+  useRunStreakViewModel,
+  useStatisticsViewModel,
+  useWeeklyHeartRateZonesViewModel,
+} from '../viewmodels';
 import { DateFilterTabs } from './components/DateFilterTabs';
 import { SwipeablePeriodChart } from './components/SwipeablePeriodChart';
 import { RunningRecordList } from './components/RunningRecordList';
 import { StatisticsSummaryCard } from './components/StatisticsSummaryCard';
+import { PersonalRecordsSection } from './components/PersonalRecordsSection';
+import { WeeklyHeartRateZonesCard } from './components/WeeklyHeartRateZonesCard';
+import { RunStreakCard } from './components/RunStreakCard';
+import { RunCalendarHeatmap } from './components/RunCalendarHeatmap';
 import { StatisticsErrorBoundary } from './components/StatisticsErrorBoundary';
 import { PRIMARY, GREY } from '~/shared/styles';
 import { getMainTabBarScrollContentPaddingBottom } from '~/shared/utils/safeAreaPolicy';
@@ -52,6 +64,17 @@ export const StatisticsView = () => {
     nextIsEmpty,
   } = useStatisticsViewModel(selectedPeriod, referenceDate);
 
+  const {
+    personalBests,
+    trends,
+    hasRecords,
+    handleRefresh: refreshPersonalRecords,
+  } = usePersonalRecordsViewModel(selectedPeriod, referenceDate);
+
+  const heartRateZones = useWeeklyHeartRateZonesViewModel(selectedPeriod, referenceDate);
+
+  const runStreak = useRunStreakViewModel();
+
   // 사용자 주도 Pull-to-Refresh 상태 (로컬 관리)
   // isRefetching은 날짜 변경 등 모든 백그라운드 페칭에서 true가 되어
   // RefreshControl 애니메이션이 의도치 않게 발생하므로 분리
@@ -63,9 +86,9 @@ export const StatisticsView = () => {
     } catch (error) {
       console.warn('⚠️ [STATISTICS_VIEW] Health 기록 동기화 실패', error);
     } finally {
-      await handleRefresh();
+      await Promise.all([handleRefresh(), refreshPersonalRecords()]);
     }
-  }, [handleRefresh]);
+  }, [handleRefresh, refreshPersonalRecords]);
 
   // 수동 새로고침 핸들러
   const onManualRefresh = useCallback(async () => {
@@ -161,10 +184,38 @@ export const StatisticsView = () => {
               runCount={displaySummary.runCount}
               totalDistance={displaySummary.totalDistance}
               averagePace={displaySummary.averagePace || 0}
+              trends={trends}
             />
           )
         )}
 
+        {/* 개인 기록 (전체 기간) */}
+        {hasRecords && personalBests ? <PersonalRecordsSection personalBests={personalBests} /> : null}
+
+        {/* 연속 기록 + 러닝 달력 (전체 기간) */}
+        {runStreak.hasRecords ? (
+          <>
+            <RunStreakCard
+              streaks={runStreak.streaks}
+              restDaysAllowed={runStreak.restDaysAllowed}
+              weeklyGoalRunDays={runStreak.weeklyGoalRunDays}
+              onRestDaysChange={runStreak.setRestDaysAllowed}
+              onWeeklyGoalChange={runStreak.setWeeklyGoalRunDays}
+            />
+            <RunCalendarHeatmap
+              calendar={runStreak.calendar}
+              canGoToNextMonth={runStreak.canGoToNextMonth}
+              onPreviousMonth={runStreak.goToPreviousMonth}
+              onNextMonth={runStreak.goToNextMonth}
+            />
+          </>
+        ) : null}
+
+        {/* 주간 심박 구간 (심박수가 측정된 기록이 있을 때만) */}
+        {heartRateZones.hasHeartRateData ? (
+          <WeeklyHeartRateZonesCard weeks={heartRateZones.weeks} zones={heartRateZones.zones} />
+        ) : null}
+
         {/* Empty State 또는 러닝 기록 리스트 */}
         <RunningRecordList
           startDate={currentPeriodRange.startDate}
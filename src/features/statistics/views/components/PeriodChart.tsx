@@ -12,6 +12,7 @@ import { StyleSheet, View, Dimensions } from 'react-native';
 import Svg, { Line, Path, Text as SvgText } from 'react-native-svg';
 import type { ChartDataPoint } from '../../models';
 import { Period, formatPeriodLabel, getLastDayOfPeriod } from '../../models';
+import { useDistanceUnit } from '~/shared/hooks';
 import { PRIMARY, GREY } from '~/shared/styles';
 
 interface PeriodChartProps {
@@ -91,19 +92,21 @@ const PeriodChartComponent: React.FC<PeriodChartProps> = ({
     };
   }, [period, referenceDate]);
 
-  // 차트 데이터 정규화 (거리를 km로 변환)
+  const { convertDistance } = useDistanceUnit();
+
+  // 차트 데이터 정규화 (거리를 사용자 거리 단위로 변환)
   const normalizedData = useMemo(() => {
     return data.map((point) => ({
       ...point,
-      distanceKm: point.distance / 1000,
+      distanceValue: convertDistance(point.distance),
     }));
-  }, [data]);
+  }, [data, convertDistance]);
 
   // 최대값 계산 (Y축 스케일링용)
-  // 데이터 최댓값 + 3km (예: 최대 15km면 Y축은 18km까지)
+  // 데이터 최댓값 + 3 (예: 최대 15km면 Y축은 18km까지)
   const maxValue = useMemo(() => {
     if (isEmpty || normalizedData.length === 0) return 3.0;
-    const dataMax = Math.max(...normalizedData.map((d) => d.distanceKm));
+    const dataMax = Math.max(...normalizedData.map((d) => d.distanceValue));
     return dataMax + 3;
   }, [normalizedData, isEmpty]);
 
@@ -243,7 +246,7 @@ const PeriodChartComponent: React.FC<PeriodChartProps> = ({
         {/* 바 차트 */}
         {!isEmpty &&
           normalizedData.map((point) => {
-            const barHeight = getBarHeight(point.distanceKm);
+            const barHeight = getBarHeight(point.distanceValue);
             const barX = getBarXPosition(point);
             const barY = CHART_PADDING.top + chartInnerHeight - barHeight;
 
@@ -0,0 +1,194 @@
+/**
+ * Personal Records Section Component
+ *
+ * 개인 기록 카드(최장 거리/시간, 최고 페이스, 최다 칼로리)와
+ * 구간 최고 기록(1km / 5km / 10km / 하프 마라톤) 목록
+ * 각 항목을 누르면 해당 러닝 기록 상세로 이동
+ */
+
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { router } from 'expo-router';
+import { useDistanceUnit } from '~/shared/hooks';
+import { formatKoreanDate } from '~/shared/utils/dateUtils';
+import { GREY } from '~/shared/styles';
+import {
+  BEST_EFFORT_DISTANCES,
+  RECORD_METRIC_LABELS,
+  formatPersonalBestValue,
+  type PersonalBestEntry,
+  type PersonalBestKind,
+  type PersonalBests,
+  type RecordMetricKind,
+} from '../../models';
+
+interface PersonalRecordsSectionProps {
+  personalBests: PersonalBests;
+}
+
+const RECORD_METRICS: RecordMetricKind[] = ['longestDistance', 'longestDuration', 'fastestPace', 'mostCalories'];
+
+const openRecordDetail = (recordId: number) => {
+  router.push({
+    pathname: '/running-record-detail' as const,
+    params: { id: String(recordId) },
+  } as any);
+};
+
+const formatEntryDate = (entry: PersonalBestEntry) =>
+  formatKoreanDate(new Date(entry.startTimestamp * 1000));
+
+export const PersonalRecordsSection: React.FC<PersonalRecordsSectionProps> = ({ personalBests }) => {
+  const { unit } = useDistanceUnit();
+
+  return (
+    <View style={styles.container} testID="personal-records-section">
+      <Text style={styles.title}>나의 기록</Text>
+
+      {/* 개인 기록 카드 (2 x 2) */}
+      <View style={styles.grid}>
+        {RECORD_METRICS.map((kind) => (
+          <RecordCard key={kind} kind={kind} label={RECORD_METRIC_LABELS[kind]} entry={personalBests[kind]} />
+        ))}
+      </View>
+
+      {/* 구간 최고 기록 */}
+      <View style={styles.effortList}>
+        {BEST_EFFORT_DISTANCES.map(({ key, label }) => {
+          const entry = personalBests.bestEfforts[key];
+          return (
+            <TouchableOpacity
+              key={key}
+              testID={`best-effort-${key}`}
+              style={styles.effortRow}
+              activeOpacity={0.8}
+              disabled={!entry}
+              onPress={() => entry && openRecordDetail(entry.recordId)}
+              accessibilityRole="button"
+            >
+              <Text style={styles.effortLabel}>{label}</Text>
+              <View style={styles.effortValueColumn}>
+                <Text style={entry ? styles.effortValue : styles.emptyValue}>
+                  {entry ? formatPersonalBestValue(key, entry.value, unit) : '--'}
+                </Text>
+                {entry ? <Text style={styles.effortDate}>{formatEntryDate(entry)}</Text> : null}
+              </View>
+            </TouchableOpacity>
+          );
+        })}
+      </View>
+    </View>
+  );
+};
+
+// RecordCard Component
+interface RecordCardProps {
+  kind: PersonalBestKind;
+  label: string;
+  entry: PersonalBestEntry | null;
+}
+
+const RecordCard: React.FC<RecordCardProps> = ({ kind, label, entry }) => {
+  const { unit } = useDistanceUnit();
+
+  return (
+    <TouchableOpacity
+      testID={`personal-record-${kind}`}
+      style={styles.card}
+      activeOpacity={0.8}
+      disabled={!entry}
+      onPress={() => entry && openRecordDetail(entry.recordId)}
+      accessibilityRole="button"
+    >
+      <Text style={styles.cardLabel}>{label}</Text>
+      <Text style={entry ? styles.cardValue : styles.emptyValue}>
+        {entry ? formatPersonalBestValue(kind, entry.value, unit) : '--'}
+      </Text>
+      {entry ? <Text style={styles.cardDate}>{formatEntryDate(entry)}</Text> : null}
+    </TouchableOpacity>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    marginHorizontal: 20,
+    marginBottom: 16,
+    gap: 10,
+  },
+  title: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: GREY[900],
+    lineHeight: 24,
+  },
+  grid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 10,
+  },
+  card: {
+    flexBasis: '47%',
+    flexGrow: 1,
+    padding: 14,
+    gap: 4,
+    backgroundColor: GREY.WHITE,
+    borderRadius: 6,
+    shadowColor: '#000000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.05,
+    shadowRadius: 2,
+    elevation: 2,
+  },
+  cardLabel: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: GREY[300],
+  },
+  cardValue: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: GREY[900],
+  },
+  cardDate: {
+    fontSize: 11,
+    fontWeight: '500',
+    color: GREY[500],
+  },
+  emptyValue: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: GREY[300],
+  },
+  effortList: {
+    backgroundColor: GREY.WHITE,
+    borderRadius: 8,
+    paddingHorizontal: 14,
+  },
+  effortRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingVertical: 12,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+    borderBottomColor: GREY[100],
+  },
+  effortLabel: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: GREY[900],
+  },
+  effortValueColumn: {
+    alignItems: 'flex-end',
+    gap: 2,
+  },
+  effortValue: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: GREY[900],
+  },
+  effortDate: {
+    fontSize: 11,
+    fontWeight: '500',
+    color: GREY[500],
+  },
+});
@@ -0,0 +1,151 @@
+/**
+ * Run Calendar Heatmap Component
+ *
+ * 월별 러닝 달력 (월요일 시작)
+ * 러닝한 날은 그날 달린 거리에 따라 색 단계 표시
+ */
+
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { GREY, PRIMARY } from '~/shared/styles';
+import type { RunCalendarDay, RunCalendarMonth } from '../../models';
+
+interface RunCalendarHeatmapProps {
+  calendar: RunCalendarMonth;
+  canGoToNextMonth: boolean;
+  onPreviousMonth: () => void;
+  onNextMonth: () => void;
+}
+
+const WEEKDAY_LABELS = ['월', '화', '수', '목', '금', '토', '일'];
+
+const LEVEL_COLORS: Record<RunCalendarDay['level'], string> = {
+  0: GREY[100],
+  1: PRIMARY[100],
+  2: PRIMARY[300],
+  3: PRIMARY[600],
+};
+
+export const RunCalendarHeatmap: React.FC<RunCalendarHeatmapProps> = ({
+  calendar,
+  canGoToNextMonth,
+  onPreviousMonth,
+  onNextMonth,
+}) => {
+  const runDayCount = calendar.days.filter((day) => day.runCount > 0).length;
+
+  return (
+    <View style={styles.container} testID="run-calendar-heatmap">
+      <Text style={styles.title}>러닝 달력</Text>
+
+      <View style={styles.card}>
+        {/* 월 이동 */}
+        <View style={styles.header}>
+          <TouchableOpacity onPress={onPreviousMonth} testID="run-calendar-previous">
+            <Text style={styles.navText}>{'<'}</Text>
+          </TouchableOpacity>
+          <Text style={styles.monthLabel}>
+            {calendar.year}년 {calendar.month}월 · {runDayCount}일
+          </Text>
+          <TouchableOpacity
+            onPress={onNextMonth}
+            disabled={!canGoToNextMonth}
+            testID="run-calendar-next"
+          >
+            <Text style={[styles.navText, !canGoToNextMonth && styles.navTextDisabled]}>{'>'}</Text>
+          </TouchableOpacity>
+        </View>
+
+        <View style={styles.grid}>
+          {WEEKDAY_LABELS.map((label) => (
+            <View key={label} style={styles.cell}>
+              <Text style={styles.weekdayText}>{label}</Text>
+            </View>
+          ))}
+          {Array.from({ length: calendar.leadingBlankDays }, (_, index) => (
+            <View key={`blank-${index}`} style={styles.cell} />
+          ))}
+          {calendar.days.map((day) => (
+            <View key={day.dateKey} style={styles.cell} testID={`run-calendar-day-${day.dateKey}`}>
+              <View style={[styles.dayBox, { backgroundColor: LEVEL_COLORS[day.level] }]}>
+                <Text style={[styles.dayText, day.level === 3 && styles.dayTextStrong]}>{day.day}</Text>
+              </View>
+            </View>
+          ))}
+        </View>
+      </View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    marginHorizontal: 20,
+    marginBottom: 16,
+    gap: 10,
+  },
+  title: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: GREY[900],
+    lineHeight: 24,
+  },
+  card: {
+    backgroundColor: GREY.WHITE,
+    borderRadius: 8,
+    paddingHorizontal: 14,
+    paddingVertical: 12,
+    gap: 10,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  navText: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: GREY[900],
+    paddingHorizontal: 8,
+  },
+  navTextDisabled: {
+    color: GREY[300],
+  },
+  monthLabel: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: GREY[900],
+  },
+  grid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+  },
+  cell: {
+    width: `${100 / 7}%`,
+    aspectRatio: 1,
+    padding: 2,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  weekdayText: {
+    fontSize: 11,
+    fontWeight: '500',
+    color: GREY[500],
+  },
+  dayBox: {
+    width: '100%',
+    height: '100%',
+    borderRadius: 4,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  dayText: {
+    fontSize: 11,
+    fontWeight: '500',
+    color: GREY[700],
+  },
+  dayTextStrong: {
+    color: GREY.WHITE,
+    fontWeight: '700',
+  },
+});
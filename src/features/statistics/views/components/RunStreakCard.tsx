@@ -0,0 +1,188 @@
+/**
+ * Run Streak Card Component
+ *
+ * 일/주 연속 기록(현재/최고)과 연속 기록 설정(휴식 허용 일수, 주간 목표) 표시
+ */
+
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { GREY, PRIMARY } from '~/shared/styles';
+import { MAX_REST_DAYS_ALLOWED, type RunStreaks } from '../../models';
+
+interface RunStreakCardProps {
+  streaks: RunStreaks;
+  restDaysAllowed: number;
+  weeklyGoalRunDays: number;
+  onRestDaysChange: (days: number) => void;
+  onWeeklyGoalChange: (days: number) => void;
+}
+
+const REST_DAY_OPTIONS = Array.from({ length: MAX_REST_DAYS_ALLOWED + 1 }, (_, index) => index);
+const WEEKLY_GOAL_OPTIONS = [2, 3, 4, 5];
+
+interface OptionChipsProps {
+  label: string;
+  options: number[];
+  selected: number;
+  formatOption: (value: number) => string;
+  onSelect: (value: number) => void;
+  testIDPrefix: string;
+}
+
+const OptionChips: React.FC<OptionChipsProps> = ({
+  label,
+  options,
+  selected,
+  formatOption,
+  onSelect,
+  testIDPrefix,
+}) => (
+  <View style={styles.optionRow}>
+    <Text style={styles.optionLabel}>{label}</Text>
+    <View style={styles.chips}>
+      {options.map((value) => (
+        <TouchableOpacity
+          key={value}
+          style={[styles.chip, value === selected && styles.chipSelected]}
+          onPress={() => onSelect(value)}
+          testID={`${testIDPrefix}-${value}`}
+        >
+          <Text style={[styles.chipText, value === selected && styles.chipTextSelected]}>
+            {formatOption(value)}
+          </Text>
+        </TouchableOpacity>
+      ))}
+    </View>
+  </View>
+);
+
+export const RunStreakCard: React.FC<RunStreakCardProps> = ({
+  streaks,
+  restDaysAllowed,
+  weeklyGoalRunDays,
+  onRestDaysChange,
+  onWeeklyGoalChange,
+}) => (
+  <View style={styles.container} testID="run-streak-card">
+    <Text style={styles.title}>연속 기록</Text>
+
+    <View style={styles.card}>
+      <View style={styles.streakRow}>
+        <View style={styles.streakItem}>
+          <Text style={styles.streakLabel}>연속 러닝</Text>
+          <Text style={styles.streakValue} testID="run-streak-daily-current">
+            {streaks.daily.current}일
+          </Text>
+          <Text style={styles.streakBest}>최고 {streaks.daily.best}일</Text>
+        </View>
+        <View style={styles.divider} />
+        <View style={styles.streakItem}>
+          <Text style={styles.streakLabel}>주간 목표 달성</Text>
+          <Text style={styles.streakValue} testID="run-streak-weekly-current">
+            {streaks.weekly.current}주
+          </Text>
+          <Text style={styles.streakBest}>최고 {streaks.weekly.best}주</Text>
+        </View>
+      </View>
+
+      <OptionChips
+        label="휴식 허용"
+        options={REST_DAY_OPTIONS}
+        selected={restDaysAllowed}
+        formatOption={(days) => `${days}일`}
+        onSelect={onRestDaysChange}
+        testIDPrefix="run-streak-rest-days"
+      />
+      <OptionChips
+        label="주간 목표"
+        options={WEEKLY_GOAL_OPTIONS}
+        selected={weeklyGoalRunDays}
+        formatOption={(days) => `주 ${days}회`}
+        onSelect={onWeeklyGoalChange}
+        testIDPrefix="run-streak-weekly-goal"
+      />
+    </View>
+  </View>
+);
+
+const styles = StyleSheet.create({
+  container: {
+    marginHorizontal: 20,
+    marginBottom: 16,
+    gap: 10,
+  },
+  title: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: GREY[900],
+    lineHeight: 24,
+  },
+  card: {
+    backgroundColor: GREY.WHITE,
+    borderRadius: 8,
+    paddingHorizontal: 14,
+    paddingVertical: 12,
+    gap: 12,
+  },
+  streakRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  streakItem: {
+    flex: 1,
+    alignItems: 'center',
+    gap: 2,
+  },
+  divider: {
+    width: 1,
+    height: 40,
+    backgroundColor: GREY[100],
+  },
+  streakLabel: {
+    fontSize: 12,
+    fontWeight: '500',
+    color: GREY[500],
+  },
+  streakValue: {
+    fontSize: 22,
+    fontWeight: '700',
+    color: GREY[900],
+  },
+  streakBest: {
+    fontSize: 12,
+    fontWeight: '500',
+    color: GREY[700],
+  },
+  optionRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  optionLabel: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: GREY[700],
+  },
+  chips: {
+    flexDirection: 'row',
+    gap: 6,
+  },
+  chip: {
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 12,
+    backgroundColor: GREY[100],
+  },
+  chipSelected: {
+    backgroundColor: PRIMARY[600],
+  },
+  chipText: {
+    fontSize: 12,
+    fontWeight: '500',
+    color: GREY[700],
+  },
+  chipTextSelected: {
+    color: GREY.WHITE,
+    fontWeight: '700',
+  },
+});
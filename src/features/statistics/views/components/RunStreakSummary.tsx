@@ -0,0 +1,70 @@
+/**
+ * Run Streak Summary Component
+ *
+ * 프로필 화면용 연속 기록 요약 (연속 러닝 일수, 주간 목표 연속 주 수)
+ */
+
+import { Ionicons } from '@expo/vector-icons';
+import React from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import { GREY, PRIMARY } from '~/shared/styles';
+import type { RunStreaks } from '../../models';
+
+interface RunStreakSummaryProps {
+  streaks: RunStreaks;
+}
+
+export const RunStreakSummary: React.FC<RunStreakSummaryProps> = ({ streaks }) => (
+  <View style={styles.container} testID="run-streak-summary">
+    <View style={styles.item}>
+      <Ionicons name="flame" size={20} color={streaks.daily.current > 0 ? PRIMARY[900] : GREY[300]} />
+      <View>
+        <Text style={styles.value}>{streaks.daily.current}일 연속</Text>
+        <Text style={styles.best}>최고 {streaks.daily.best}일</Text>
+      </View>
+    </View>
+    <View style={styles.divider} />
+    <View style={styles.item}>
+      <Ionicons name="calendar" size={20} color={streaks.weekly.current > 0 ? PRIMARY[900] : GREY[300]} />
+      <View>
+        <Text style={styles.value}>{streaks.weekly.current}주 연속 목표 달성</Text>
+        <Text style={styles.best}>최고 {streaks.weekly.best}주</Text>
+      </View>
+    </View>
+  </View>
+);
+
+const styles = StyleSheet.create({
+  container: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginHorizontal: 20,
+    marginBottom: 14,
+    paddingHorizontal: 12,
+    paddingVertical: 12,
+    borderRadius: 8,
+    backgroundColor: GREY.WHITE,
+  },
+  item: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  divider: {
+    width: 1,
+    height: 32,
+    marginHorizontal: 8,
+    backgroundColor: GREY[100],
+  },
+  value: {
+    fontSize: 14,
+    fontWeight: '700',
+    color: GREY[900],
+  },
+  best: {
+    fontSize: 12,
+    fontWeight: '500',
+    color: GREY[500],
+  },
+});
@@ -9,7 +9,7 @@ import { router } from 'expo-router';
 import type { RunningRecord } from '../../../running/models';
 import { formatDuration, calculateAveragePace } from '../../../running/models';
 import { formatRecordDate } from '~/shared/utils/dateUtils';
-import { formatPaceForUI } from '~/shared/utils/formatters';
+import { useDistanceUnit } from '~/shared/hooks';
 import { GREY } from '~/shared/styles';
 
 interface RunningRecordCardProps {
@@ -17,10 +17,11 @@ interface RunningRecordCardProps {
 }
 
 const RunningRecordCardComponent: React.FC<RunningRecordCardProps> = ({ record }) => {
+  const { paceLabel, formatDistance, formatPace } = useDistanceUnit();
   const dateString = formatRecordDate(record.startTimestamp);
-  const distance = `${(record.distance / 1000).toFixed(2)} km`;
+  const distance = formatDistance(record.distance);
   const pace = calculateAveragePace(record);
-  const paceFormatted = `${formatPaceForUI(pace)}"/km`;
+  const paceFormatted = `${formatPace(pace)}"${paceLabel}`;
   const duration = formatDuration(record.durationSec);
 
   return (
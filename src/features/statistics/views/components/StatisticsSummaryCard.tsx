@@ -4,29 +4,61 @@
  *
  * 3개의 독립적인 카드로 통계 정보 표시:
  * - 러닝 (횟수)
- * - 총 거리 (km)
+ * - 총 거리 (km / mi)
  * - 페이스 (시:분:초)
+ *
+ * trends가 있으면 직전 기간 대비 증감을 화살표로 표시
  */
 
 import React from 'react';
 import { View, Text, StyleSheet } from 'react-native';
-import { GREY } from '~/shared/styles';
-import { formatPaceForUI } from '~/shared/utils/formatters';
+import { GREY, PRIMARY, RED } from '~/shared/styles';
+import { useDistanceUnit } from '~/shared/hooks';
 
 interface StatisticsSummaryCardProps {
   runCount: number;
   totalDistance: number; // 미터 단위
   averagePace: number; // 초/미터 또는 분/km
+  /** 직전 기간 대비 증감률 (%), 비교할 기록이 없으면 null */
+  trends?: {
+    runCountTrend: number;
+    distanceTrend: number;
+    paceTrend: number;
+  } | null;
 }
 
+// 이 값(%) 미만의 변화는 보합으로 표시
+const FLAT_TREND_THRESHOLD_PERCENT = 1;
+
+/**
+ * 증감 화살표 (페이스는 줄어드는 것이 좋아진 것)
+ */
+const TrendIndicator: React.FC<{ value: number; lowerIsBetter?: boolean; testID: string }> = ({
+  value,
+  lowerIsBetter = false,
+  testID,
+}) => {
+  const rounded = Math.round(Math.abs(value));
+  if (rounded < FLAT_TREND_THRESHOLD_PERCENT) {
+    return <Text testID={testID} style={[styles.trendText, styles.trendFlat]}>- 0%</Text>;
+  }
+
+  const isUp = value > 0;
+  const isImproved = lowerIsBetter ? !isUp : isUp;
+  return (
+    <Text testID={testID} style={[styles.trendText, isImproved ? styles.trendImproved : styles.trendWorse]}>
+      {`${isUp ? '▲' : '▼'} ${rounded}%`}
+    </Text>
+  );
+};
+
 export const StatisticsSummaryCard: React.FC<StatisticsSummaryCardProps> = ({
   runCount,
   totalDistance,
   averagePace,
+  trends = null,
 }) => {
-  // 거리를 km로 변환
-  const distanceInKm = (totalDistance / 1000).toFixed(2);
-
+  const { distanceLabel, paceLabel, formatDistance, formatPace } = useDistanceUnit();
 
   return (
     <View style={styles.container}>
@@ -34,21 +66,24 @@ export const StatisticsSummaryCard: React.FC<StatisticsSummaryCardProps> = ({
       <View style={styles.card}>
         <Text style={styles.cardLabel}>러닝</Text>
         <Text style={styles.cardValue}>{runCount}</Text>
+        {trends ? <TrendIndicator testID="trend-run-count" value={trends.runCountTrend} /> : null}
       </View>
 
       {/* 총 거리 카드 */}
       <View style={styles.card}>
         <View style={styles.labelRow}>
           <Text style={styles.cardLabel}>총 거리</Text>
-          <Text style={styles.cardLabelUnit}>(km)</Text>
+          <Text style={styles.cardLabelUnit}>({distanceLabel})</Text>
         </View>
-        <Text style={styles.cardValue}>{distanceInKm} km</Text>
+        <Text style={styles.cardValue}>{formatDistance(totalDistance)}</Text>
+        {trends ? <TrendIndicator testID="trend-distance" value={trends.distanceTrend} /> : null}
       </View>
 
       {/* 페이스 카드 */}
       <View style={styles.card}>
         <Text style={styles.cardLabel}>페이스</Text>
-        <Text style={styles.cardValue}>{`${formatPaceForUI(averagePace)}"/km`}</Text>
+        <Text style={styles.cardValue}>{`${formatPace(averagePace)}"${paceLabel}`}</Text>
+        {trends ? <TrendIndicator testID="trend-pace" value={trends.paceTrend} lowerIsBetter /> : null}
       </View>
     </View>
   );
@@ -64,7 +99,7 @@ const styles = StyleSheet.create({
   },
   card: {
     flex: 1,
-    height: 70,
+    minHeight: 70,
     padding: 16,
     backgroundColor: GREY.WHITE,
     borderRadius: 6,
@@ -96,4 +131,18 @@ const styles = StyleSheet.create({
     fontWeight: '600',
     color: GREY[900],
   },
+  trendText: {
+    marginTop: 4,
+    fontSize: 11,
+    fontWeight: '600',
+  },
+  trendImproved: {
+    color: PRIMARY[900],
+  },
+  trendWorse: {
+    color: RED[400],
+  },
+  trendFlat: {
+    color: GREY[500],
+  },
 });
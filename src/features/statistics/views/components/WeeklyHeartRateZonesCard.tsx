@@ -0,0 +1,151 @@
+/**
+ * Weekly Heart Rate Zones Card Component
+ *
+ * 주별 심박 구간 시간을 구간 색상 누적 막대로 표시
+ * 막대 길이는 표시 중인 주 가운데 가장 오래 측정된 주 기준
+ */
+
+import React from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import { GREY } from '~/shared/styles';
+import { HEART_RATE_ZONE_COLORS, type HeartRateZone } from '../../../running/models';
+import type { WeeklyTimeInZones } from '../../models';
+
+interface WeeklyHeartRateZonesCardProps {
+  weeks: WeeklyTimeInZones[];
+  zones: HeartRateZone[];
+}
+
+const formatWeekLabel = (weekStart: Date) => `${weekStart.getMonth() + 1}/${weekStart.getDate()}~`;
+
+const formatZoneTime = (seconds: number): string => {
+  const totalMinutes = Math.round(seconds / 60);
+  const hours = Math.floor(totalMinutes / 60);
+  const minutes = totalMinutes % 60;
+
+  return hours > 0 ? `${hours}시간 ${minutes}분` : `${minutes}분`;
+};
+
+export const WeeklyHeartRateZonesCard: React.FC<WeeklyHeartRateZonesCardProps> = ({
+  weeks,
+  zones,
+}) => {
+  const longestWeekSec = Math.max(...weeks.map((week) => week.timeInZones.measuredSec), 0);
+
+  return (
+    <View style={styles.container} testID="weekly-heart-rate-zones-card">
+      <Text style={styles.title}>주간 심박 구간</Text>
+
+      <View style={styles.card}>
+        {/* 범례 */}
+        <View style={styles.legend}>
+          {zones.map((zone) => (
+            <View key={zone.zone} style={styles.legendItem}>
+              <View
+                style={[styles.legendDot, { backgroundColor: HEART_RATE_ZONE_COLORS[zone.zone] }]}
+              />
+              <Text style={styles.legendText}>Z{zone.zone}</Text>
+            </View>
+          ))}
+        </View>
+
+        {weeks.map(({ weekStart, timeInZones }) => (
+          <View
+            key={weekStart.getTime()}
+            style={styles.weekRow}
+            testID={`weekly-heart-rate-zones-${weekStart.getMonth() + 1}-${weekStart.getDate()}`}
+          >
+            <Text style={styles.weekLabel}>{formatWeekLabel(weekStart)}</Text>
+            <View style={styles.barTrack}>
+              {longestWeekSec > 0
+                ? zones.map((zone) => {
+                    const seconds = timeInZones.secondsByZone[zone.zone];
+                    if (seconds <= 0) return null;
+                    return (
+                      <View
+                        key={zone.zone}
+                        style={{
+                          width: `${(seconds / longestWeekSec) * 100}%`,
+                          backgroundColor: HEART_RATE_ZONE_COLORS[zone.zone],
+                        }}
+                      />
+                    );
+                  })
+                : null}
+            </View>
+            <Text style={styles.weekTotal}>
+              {timeInZones.measuredSec > 0 ? formatZoneTime(timeInZones.measuredSec) : '-'}
+            </Text>
+          </View>
+        ))}
+      </View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    marginHorizontal: 20,
+    marginBottom: 16,
+    gap: 10,
+  },
+  title: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: GREY[900],
+    lineHeight: 24,
+  },
+  card: {
+    backgroundColor: GREY.WHITE,
+    borderRadius: 8,
+    paddingHorizontal: 14,
+    paddingVertical: 12,
+    gap: 10,
+  },
+  legend: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: 10,
+  },
+  legendItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+  },
+  legendDot: {
+    width: 8,
+    height: 8,
+    borderRadius: 4,
+  },
+  legendText: {
+    fontSize: 11,
+    fontWeight: '500',
+    color: GREY[500],
+  },
+  weekRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+  },
+  weekLabel: {
+    width: 44,
+    fontSize: 12,
+    fontWeight: '500',
+    color: GREY[700],
+  },
+  barTrack: {
+    flex: 1,
+    height: 10,
+    flexDirection: 'row',
+    borderRadius: 5,
+    backgroundColor: GREY[100],
+    overflow: 'hidden',
+  },
+  weekTotal: {
+    width: 72,
+    textAlign: 'right',
+    fontSize: 12,
+    fontWeight: '600',
+    color: GREY[900],
+  },
+});
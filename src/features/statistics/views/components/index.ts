@@ -4,6 +4,11 @@
 
 export { DateFilterTabs } from './DateFilterTabs';
 export { StatisticsSummaryCard } from './StatisticsSummaryCard';
+export { PersonalRecordsSection } from './PersonalRecordsSection';
+export { WeeklyHeartRateZonesCard } from './WeeklyHeartRateZonesCard';
+export { RunStreakCard } from './RunStreakCard';
+export { RunStreakSummary } from './RunStreakSummary';
+export { RunCalendarHeatmap } from './RunCalendarHeatmap';
 export { EmptyState } from './EmptyState';
 export { RunningRecordList } from './RunningRecordList';
 export { RunningRecordCard } from './RunningRecordCard';
@@ -12,16 +12,43 @@
  * - Ready 상태는 unityStore가 Single Source of Truth
  * - UnityBridge는 상태를 저장하지 않고 Store를 통해 읽기/쓰기
  * - 콜백 Set은 UnityBridge에서 관리 (Store에 콜백 저장하지 않음)
+ *
+ * Protocol:
+ * - Unity로 가는 메시지는 sendCommand()로 스키마(protocol/UnityCommands)에 맞춰 인코딩
+ * - onUnityEvent 이벤트는 parseUnityEvent()로 검증 후 Store/구독자에 전달
  */
 
-import { NativeModules, NativeEventEmitter, Platform, type EmitterSubscription } from 'react-native';
+import { Platform } from 'react-native';
 import { useUnityStore } from '../../../stores/unity/unityStore';
+import {
+  LEGACY_UNITY_PROTOCOL_VERSION,
+  UNITY_COMMANDS,
+  encodeUnityCommand,
+  isUnityCommandSupported,
+  parseUnityEvent,
+  type UnityCommandArgs,
+  type UnityCommandName,
+  type UnityInboundEvent,
+} from '../protocol';
+import { unitySessionController } from '../services/UnitySessionController';
+import {
+  NativeUnityBridge,
+  createUnityEventEmitter,
+  type UnityEventEmitter,
+  type UnityEventSubscription,
+} from './nativeUnityBridge';
 
 if (__DEV__) {
   console.log('[UnityBridge] Module file loading...');
 }
 
-const { RNUnityBridge: NativeUnityBridge } = NativeModules;
+// 로그에 남길 파라미터 최대 길이 (SetBackgroundFromBase64 등 수 MB 파라미터가 그대로 출력되지 않도록)
+const MAX_LOGGED_PARAMETER_LENGTH = 200;
+
+const formatParameterForLog = (parameter: string): string =>
+  parameter.length > MAX_LOGGED_PARAMETER_LENGTH
+    ? `${parameter.slice(0, MAX_LOGGED_PARAMETER_LENGTH)}… (${parameter.length} chars)`
+    : parameter;
 
 /**
  * Unity Ready 이벤트 타입
@@ -34,41 +61,38 @@ export interface UnityReadyEvent {
     type?: string;
     timestamp?: string;
     target?: number;
+    protocolVersion?: number; // Unity 빌드의 메시지 프로토콜 버전 (핸드셰이크)
   };
 }
 
 export interface UnityBridgeInterface {
   sendUnityMessage(objectName: string, methodName: string, parameter: string): Promise<void>;
+  sendCommand<N extends UnityCommandName>(name: N, ...args: UnityCommandArgs<N>): Promise<boolean>;
   sendUnityJSON(objectName: string, methodName: string, data: any[]): Promise<void>;
   changeAvatarAndWait(objectName: string, methodName: string, data: string): Promise<boolean>;
   isGameObjectReady(): boolean;
   syncReadyState(): Promise<boolean>;
   subscribeToGameObjectReady(callback: () => void): () => void;
   subscribeToAvatarReady(callback: () => void): () => void;
+  subscribeToUnityEvent(callback: (event: UnityInboundEvent) => void): () => void;
   validateUnityState(): Promise<boolean>;
   forceResetUnity(): Promise<void>;
   captureCharacter(): Promise<string>;
-  // 배경 제어 (공유 에디터용)
-  setBackground(backgroundId: string): Promise<void>;
-  setBackgroundColor(colorHex: string): Promise<void>;
-  setBackgroundFromPhoto(base64Image: string): Promise<void>;
-  // 캐릭터 위치/스케일/표시 제어 (공유 에디터용)
-  setCharacterPosition(x: number, y: number): Promise<void>;
-  setCharacterScale(scale: number): Promise<void>;
-  setCharacterRotation(rotation: number): Promise<void>;
-  setCharacterVisible(visible: boolean): Promise<void>;
 }
 
 class UnityBridgeImpl implements UnityBridgeInterface {
-  private eventEmitter: NativeEventEmitter | null = null;
+  private eventEmitter: UnityEventEmitter | null = null;
   // ★ _isCharactorReady 제거됨 - unityStore.isGameObjectReady가 Single Source of Truth
   private readyCallbacks: Set<() => void> = new Set();
   // ★ Avatar Ready 콜백 관리
   private avatarReadyCallbacks: Set<() => void> = new Set();
+  // ★ 프로토콜 이벤트 구독자
+  private unityEventCallbacks: Set<(event: UnityInboundEvent) => void> = new Set();
   private isInitialized: boolean = false;
   // ★ 이벤트 리스너 subscription 저장 (필요 시 제거 가능)
-  private onCharactorReadySubscription: EmitterSubscription | null = null;
-  private onAvatarReadySubscription: EmitterSubscription | null = null;
+  private onCharactorReadySubscription: UnityEventSubscription | null = null;
+  private onAvatarReadySubscription: UnityEventSubscription | null = null;
+  private onUnityEventSubscription: UnityEventSubscription | null = null;
 
   constructor() {
     if (__DEV__) {
@@ -76,13 +100,18 @@ class UnityBridgeImpl implements UnityBridgeInterface {
       console.log('[UnityBridge] RNUnityBridge available:', !!NativeUnityBridge);
     }
 
-    if (NativeUnityBridge) {
-      this.eventEmitter = new NativeEventEmitter(NativeUnityBridge);
+    this.eventEmitter = createUnityEventEmitter();
 
+    if (this.eventEmitter) {
       // Push: 이벤트 리스너 등록
       // ★ subscription 저장 (필요 시 제거 가능)
       this.onCharactorReadySubscription = this.eventEmitter.addListener('onCharactorReady', (event) => {
         console.log('[UnityBridge] 🎉 onCharactorReady event received!', event);
+        // 앱 시작 직후에는 View의 Ready 이벤트보다 먼저 도착하므로 여기서도 버전 기록
+        const reportedVersion = (event as { protocolVersion?: unknown } | null)?.protocolVersion;
+        if (reportedVersion !== undefined) {
+          unitySessionController.recordProtocolVersion(reportedVersion);
+        }
         this.setReady(true);
       });
 
@@ -92,6 +121,11 @@ class UnityBridgeImpl implements UnityBridgeInterface {
         this.setAvatarReady(true);
       });
 
+      // ★ 프로토콜 이벤트 리스너 (캐릭터 상태/애니메이션 완료/Unity 상태/에러)
+      this.onUnityEventSubscription = this.eventEmitter.addListener('onUnityEvent', (event) => {
+        this.handleUnityEvent(event);
+      });
+
       // Pull: 초기화 시 Native 상태와 동기화
       this.syncReadyState().then((ready) => {
         if (__DEV__) {
@@ -157,6 +191,42 @@ class UnityBridgeImpl implements UnityBridgeInterface {
     }
   }
 
+  /**
+   * 프로토콜 이벤트 검증 후 Store 반영 및 구독자 알림
+   * 스키마에 맞지 않는 이벤트는 버림
+   */
+  private handleUnityEvent(raw: unknown): void {
+    const result = parseUnityEvent(raw);
+    if (!result.ok) {
+      console.warn('[UnityBridge] ⚠️ Invalid Unity event dropped:', result.reason);
+      return;
+    }
+
+    const { event } = result;
+    const store = useUnityStore.getState();
+    switch (event.type) {
+      case 'CHARACTER_STATE_CHANGED':
+        store.updateCharacterState(event.data);
+        break;
+      case 'UNITY_STATUS':
+        store.updateUnityStatus(event.data);
+        break;
+      case 'UNITY_ERROR':
+        unitySessionController.handleUnityError(event.data.message);
+        break;
+      case 'ANIMATION_COMPLETE':
+        break;
+    }
+
+    this.unityEventCallbacks.forEach(callback => {
+      try {
+        callback(event);
+      } catch (error) {
+        console.error('[UnityBridge] Unity event callback error:', error);
+      }
+    });
+  }
+
   /**
    * 현재 Ready 상태 반환 (동기)
    * ★ Store에서 읽기 (Single Source of Truth)
@@ -274,24 +344,59 @@ class UnityBridgeImpl implements UnityBridgeInterface {
     };
   }
 
+  /**
+   * 프로토콜 이벤트 구독 (검증을 통과한 이벤트만 전달)
+   */
+  subscribeToUnityEvent(callback: (event: UnityInboundEvent) => void): () => void {
+    this.unityEventCallbacks.add(callback);
+    return () => {
+      this.unityEventCallbacks.delete(callback);
+    };
+  }
+
   async sendUnityMessage(objectName: string, methodName: string, parameter: string): Promise<void> {
     if (!NativeUnityBridge) {
       throw new Error('RNUnityBridge native module not available');
     }
 
     if (!useUnityStore.getState().isGameObjectReady) {
-      console.warn(`[UnityBridge] ⚠️ GameObject not ready: ${objectName}.${methodName}(${parameter})`);
+      console.warn(
+        `[UnityBridge] ⚠️ GameObject not ready: ${objectName}.${methodName}(${formatParameterForLog(parameter)})`
+      );
     }
 
     try {
       await NativeUnityBridge.sendUnityMessage(objectName, methodName, parameter);
-      console.log(`[UnityBridge] Message sent: ${objectName}.${methodName}(${parameter})`);
+      console.log(
+        `[UnityBridge] Message sent: ${objectName}.${methodName}(${formatParameterForLog(parameter)})`
+      );
     } catch (error) {
       console.error('[UnityBridge] Failed to send Unity message:', error);
       throw error;
     }
   }
 
+  /**
+   * ★ 스키마 기반 커맨드 전송
+   * 협상된 프로토콜 버전에서 지원하지 않는 커맨드는 보내지 않음 (구버전 Unity 빌드 보호)
+   * @returns 전송 여부
+   */
+  async sendCommand<N extends UnityCommandName>(name: N, ...args: UnityCommandArgs<N>): Promise<boolean> {
+    const protocolVersion =
+      useUnityStore.getState().unityProtocol?.negotiatedVersion ?? LEGACY_UNITY_PROTOCOL_VERSION;
+
+    if (!isUnityCommandSupported(name, protocolVersion)) {
+      console.log(
+        `[UnityBridge] ${name} skipped: requires protocol v${UNITY_COMMANDS[name].sinceVersion}, Unity is v${protocolVersion}`
+      );
+      return false;
+    }
+
+    const { objectName, methodName, parameter } = encodeUnityCommand(name, ...args);
+    await this.sendUnityMessage(objectName, methodName, parameter);
+    return true;
+  }
+
   async sendUnityJSON(objectName: string, methodName: string, data: any[]): Promise<void> {
     if (!NativeUnityBridge) {
       throw new Error('RNUnityBridge native module not available');
@@ -378,63 +483,6 @@ class UnityBridgeImpl implements UnityBridgeInterface {
     }
   }
 
-  /**
-   * ★ Unity 배경 이미지 변경 (공유 에디터용)
-   * @param backgroundId 배경 ID
-   */
-  async setBackground(backgroundId: string): Promise<void> {
-    if (!NativeUnityBridge?.setBackground) {
-      console.log('[UnityBridge] setBackground: Native method not available');
-      return;
-    }
-
-    try {
-      console.log(`[UnityBridge] setBackground: ${backgroundId}`);
-      await NativeUnityBridge.setBackground(backgroundId);
-    } catch (error) {
-      console.error('[UnityBridge] setBackground error:', error);
-      throw error;
-    }
-  }
-
-  /**
-   * ★ Unity 배경 색상 변경 (단색)
-   * @param colorHex 색상 Hex 값 (예: "#45DA31")
-   */
-  async setBackgroundColor(colorHex: string): Promise<void> {
-    if (!NativeUnityBridge?.setBackgroundColor) {
-      console.log('[UnityBridge] setBackgroundColor: Native method not available');
-      return;
-    }
-
-    try {
-      console.log(`[UnityBridge] setBackgroundColor: ${colorHex}`);
-      await NativeUnityBridge.setBackgroundColor(colorHex);
-    } catch (error) {
-      console.error('[UnityBridge] setBackgroundColor error:', error);
-      throw error;
-    }
-  }
-
-  /**
-   * ★ Unity 배경을 사용자 사진으로 변경
-   * @param base64Image Base64 인코딩된 이미지 문자열
-   */
-  async setBackgroundFromPhoto(base64Image: string): Promise<void> {
-    if (!NativeUnityBridge?.setBackgroundFromPhoto) {
-      console.log('[UnityBridge] setBackgroundFromPhoto: Native method not available');
-      return;
-    }
-
-    try {
-      console.log(`[UnityBridge] setBackgroundFromPhoto: Sending image (length: ${base64Image.length})`);
-      await NativeUnityBridge.setBackgroundFromPhoto(base64Image);
-    } catch (error) {
-      console.error('[UnityBridge] setBackgroundFromPhoto error:', error);
-      throw error;
-    }
-  }
-
   /**
    * ★ Unity 캐릭터 스크린샷 캡처 (공유 기능용)
    * 현재 착용 중인 아이템이 반영된 캐릭터를 PNG로 캡처
@@ -460,86 +508,6 @@ class UnityBridgeImpl implements UnityBridgeInterface {
       throw error;
     }
   }
-
-  /**
-   * ★ Unity 캐릭터 위치 설정 (정규화 좌표)
-   * @param x 0~1 범위 (0=좌측, 1=우측)
-   * @param y 0~1 범위 (0=상단, 1=하단)
-   */
-  async setCharacterPosition(x: number, y: number): Promise<void> {
-    if (!NativeUnityBridge?.setCharacterPosition) {
-      console.log('[UnityBridge] setCharacterPosition: Native method not available');
-      return;
-    }
-
-    try {
-      console.log(`[UnityBridge] setCharacterPosition: (${x}, ${y})`);
-      await NativeUnityBridge.setCharacterPosition(x, y);
-    } catch (error) {
-      console.error('[UnityBridge] setCharacterPosition error:', error);
-      throw error;
-    }
-  }
-
-  /**
-   * ★ Unity 캐릭터 스케일 설정
-   * @param scale 0.5~2.5 범위
-   */
-  async setCharacterScale(scale: number): Promise<void> {
-    if (!NativeUnityBridge?.setCharacterScale) {
-      console.log('[UnityBridge] setCharacterScale: Native method not available');
-      return;
-    }
-
-    try {
-      // 클라이언트에서도 범위 체크
-      const clampedScale = Math.max(0.5, Math.min(2.5, scale));
-      console.log(`[UnityBridge] setCharacterScale: ${clampedScale}`);
-      await NativeUnityBridge.setCharacterScale(clampedScale);
-    } catch (error) {
-      console.error('[UnityBridge] setCharacterScale error:', error);
-      throw error;
-    }
-  }
-
-  /**
-   * ★ Unity 캐릭터 회전 설정
-   * @param rotation 회전 각도(degrees)
-   */
-  async setCharacterRotation(rotation: number): Promise<void> {
-    if (!NativeUnityBridge?.setCharacterRotation) {
-      console.log('[UnityBridge] setCharacterRotation: Native method not available');
-      return;
-    }
-
-    try {
-      console.log(`[UnityBridge] setCharacterRotation: ${rotation}`);
-      await NativeUnityBridge.setCharacterRotation(rotation);
-    } catch (error) {
-      console.error('[UnityBridge] setCharacterRotation error:', error);
-      throw error;
-    }
-  }
-
-  /**
-   * ★ Unity 캐릭터 표시/숨김 설정 (공유 에디터용)
-   * @param visible true=표시, false=숨김
-   */
-  async setCharacterVisible(visible: boolean): Promise<void> {
-    if (!NativeUnityBridge?.setCharacterVisible) {
-      console.log('[UnityBridge] setCharacterVisible: Native method not available');
-      return;
-    }
-
-    try {
-      console.log(`[UnityBridge] setCharacterVisible: ${visible}`);
-      await NativeUnityBridge.setCharacterVisible(visible);
-    } catch (error) {
-      console.error('[UnityBridge] setCharacterVisible error:', error);
-      throw error;
-    }
-  }
-
 }
 
 export const UnityBridge = new UnityBridgeImpl();
@@ -63,6 +63,7 @@ class RNUnityBridge: RCTEventEmitter {
             "onUnityError",
             "onCharactorReady",
             "onAvatarReady",    // ★ 아바타(SetSprites) 적용 완료 이벤트
+            "onUnityEvent",     // ★ 프로토콜 이벤트 (JS에서 스키마 검증)
             "UnityEngineReady"  // ✅ v8: Metal context 준비 완료 이벤트
         ]
     }
@@ -104,6 +105,14 @@ class RNUnityBridge: RCTEventEmitter {
             object: nil
         )
 
+        // ★ Unity 프로토콜 이벤트 알림 구독 (캐릭터 상태/애니메이션 완료/상태/에러)
+        NotificationCenter.default.addObserver(
+            self,
+            selector: #selector(handleUnityProtocolEvent),
+            name: NSNotification.Name("UnityProtocolEvent"),
+            object: nil
+        )
+
         print("[RNUnityBridge] ✅ Initialized")
     }
 
@@ -148,7 +157,10 @@ class RNUnityBridge: RCTEventEmitter {
     }
 
     @objc
-    private func handleCharactorReady() {
+    private func handleCharactorReady(_ notification: Notification) {
+        // ★ Unity 빌드가 보고한 프로토콜 버전 (구버전 빌드는 없음)
+        let protocolVersion = notification.userInfo?["protocolVersion"] as? Int
+
         // ✅ 메인 스레드 보장 - EXC_BAD_ACCESS 크래시 방지
         DispatchQueue.main.async { [weak self] in
             guard let self = self else { return }
@@ -156,10 +168,13 @@ class RNUnityBridge: RCTEventEmitter {
             print("[RNUnityBridge] 🎉 Charactor Ready!")
             self._isCharactorReady = true
 
-            let eventBody: [String: Any] = [
+            var eventBody: [String: Any] = [
                 "ready": true,
                 "timestamp": ISO8601DateFormatter().string(from: Date())
             ]
+            if let protocolVersion = protocolVersion {
+                eventBody["protocolVersion"] = protocolVersion
+            }
 
             if self._hasListeners {
                 print("[RNUnityBridge] 📤 Sending event immediately (main thread)")
@@ -207,6 +222,24 @@ class RNUnityBridge: RCTEventEmitter {
         }
     }
 
+    // MARK: - Protocol Event Handler
+
+    /// ★ Unity 프로토콜 이벤트 전달
+    /// userInfo를 그대로 넘기고 구조 검증은 JS(parseUnityEvent)에서 수행
+    @objc
+    private func handleUnityProtocolEvent(_ notification: Notification) {
+        DispatchQueue.main.async { [weak self] in
+            guard let self = self, let body = notification.userInfo else { return }
+
+            guard self._hasListeners else {
+                print("[RNUnityBridge] ⚠️ No listeners for onUnityEvent")
+                return
+            }
+
+            self.sendEvent(withName: "onUnityEvent", body: body)
+        }
+    }
+
     // MARK: - Avatar Timeout Helper Methods
 
     private func cancelAvatarTimeout() {
@@ -311,10 +344,18 @@ class RNUnityBridge: RCTEventEmitter {
 
     // MARK: - React Native에서 호출할 수 있는 메서드들
 
+    /// 로그에 남길 파라미터 최대 길이 (Base64 이미지 등 수 MB 파라미터가 그대로 출력되지 않도록)
+    private static let maxLoggedParameterLength = 200
+
+    private static func formatParameterForLog(_ parameter: String) -> String {
+        guard parameter.count > maxLoggedParameterLength else { return parameter }
+        return "\(parameter.prefix(maxLoggedParameterLength))… (\(parameter.count) chars)"
+    }
+
     /// Unity에 일반 메시지 전송 (순수 브리지)
     @objc
     func sendUnityMessage(_ objectName: String, methodName: String, parameter: String, resolver resolve: @escaping RCTPromiseResolveBlock, rejecter reject: @escaping RCTPromiseRejectBlock) -> Void {
-        print("[RNUnityBridge] sendUnityMessage: \(objectName).\(methodName)(\(parameter))")
+        print("[RNUnityBridge] sendUnityMessage: \(objectName).\(methodName)(\(Self.formatParameterForLog(parameter)))")
 
         DispatchQueue.main.async {
             Unity.shared.sendMessage(objectName, methodName: methodName, parameter: parameter)
@@ -448,125 +489,6 @@ class RNUnityBridge: RCTEventEmitter {
         }
     }
 
-    // MARK: - Background Control (공유 에디터용)
-
-    /// ★ Unity 배경 이미지 변경
-    /// BackgroundImage.SetBackground() 호출
-    @objc
-    func setBackground(_ backgroundId: String,
-                       resolver resolve: @escaping RCTPromiseResolveBlock,
-                       rejecter reject: @escaping RCTPromiseRejectBlock) {
-        print("[RNUnityBridge] setBackground: \(backgroundId)")
-
-        DispatchQueue.main.async {
-            Unity.shared.sendMessage("Background", methodName: "SetBackground", parameter: backgroundId)
-            resolve(nil)
-        }
-    }
-
-    /// ★ Unity 배경 색상 변경 (단색)
-    /// BackgroundImage.SetBackgroundColor() 호출
-    @objc
-    func setBackgroundColor(_ colorHex: String,
-                            resolver resolve: @escaping RCTPromiseResolveBlock,
-                            rejecter reject: @escaping RCTPromiseRejectBlock) {
-        print("[RNUnityBridge] setBackgroundColor: \(colorHex)")
-
-        DispatchQueue.main.async {
-            Unity.shared.sendMessage("Background", methodName: "SetBackgroundColor", parameter: colorHex)
-            resolve(nil)
-        }
-    }
-
-    /// ★ Unity 배경을 사용자 사진으로 변경
-    /// BackgroundImage.SetBackgroundFromBase64() 호출
-    /// @param base64Image Base64 인코딩된 이미지 문자열
-    @objc
-    func setBackgroundFromPhoto(_ base64Image: String,
-                                resolver resolve: @escaping RCTPromiseResolveBlock,
-                                rejecter reject: @escaping RCTPromiseRejectBlock) {
-        print("[RNUnityBridge] setBackgroundFromPhoto (length: \(base64Image.count))")
-
-        DispatchQueue.main.async {
-            Unity.shared.sendMessage("Background", methodName: "SetBackgroundFromBase64", parameter: base64Image)
-            resolve(nil)
-        }
-    }
-
-    // MARK: - Character Control (공유 에디터용)
-
-    /// ★ Unity 캐릭터 위치 설정 (정규화 좌표)
-    /// @param x 0~1 범위 (0=좌측, 1=우측)
-    /// @param y 0~1 범위 (0=상단, 1=하단)
-    @objc
-    func setCharacterPosition(_ x: NSNumber, y: NSNumber,
-                             resolver resolve: @escaping RCTPromiseResolveBlock,
-                             rejecter reject: @escaping RCTPromiseRejectBlock) {
-        print("[RNUnityBridge] setCharacterPosition: (\(x), \(y))")
-
-        DispatchQueue.main.async {
-            let positionData: [String: Any] = ["x": x.floatValue, "y": y.floatValue]
-            do {
-                let jsonData = try JSONSerialization.data(withJSONObject: positionData, options: [])
-                if let jsonString = String(data: jsonData, encoding: .utf8) {
-                    Unity.shared.sendMessage("Charactor",
-                                            methodName: "SetCharacterPosition",
-                                            parameter: jsonString)
-                    resolve(nil)
-                }
-            } catch {
-                reject("JSON_ENCODING_ERROR", "Failed to encode position", error)
-            }
-        }
-    }
-
-    /// ★ Unity 캐릭터 스케일 설정
-    /// @param scale 0.5~2.5 범위
-    @objc
-    func setCharacterScale(_ scale: NSNumber,
-                           resolver resolve: @escaping RCTPromiseResolveBlock,
-                           rejecter reject: @escaping RCTPromiseRejectBlock) {
-        print("[RNUnityBridge] setCharacterScale: \(scale)")
-
-        DispatchQueue.main.async {
-            Unity.shared.sendMessage("Charactor",
-                                    methodName: "SetCharacterScale",
-                                    parameter: "\(scale.floatValue)")
-            resolve(nil)
-        }
-    }
-
-    /// ★ Unity 캐릭터 회전 설정
-    /// @param rotation 회전 각도(degrees)
-    @objc
-    func setCharacterRotation(_ rotation: NSNumber,
-                              resolver resolve: @escaping RCTPromiseResolveBlock,
-                              rejecter reject: @escaping RCTPromiseRejectBlock) {
-        print("[RNUnityBridge] setCharacterRotation: \(rotation)")
-
-        DispatchQueue.main.async {
-            Unity.shared.sendMessage("Charactor",
-                                    methodName: "SetCharacterRotation",
-                                    parameter: "\(rotation.floatValue)")
-            resolve(nil)
-        }
-    }
-
-    /// ★ Unity 캐릭터 표시/숨김 설정 (공유 에디터용)
-    @objc
-    func setCharacterVisible(_ visible: Bool,
-                             resolver resolve: @escaping RCTPromiseResolveBlock,
-                             rejecter reject: @escaping RCTPromiseRejectBlock) {
-        print("[RNUnityBridge] setCharacterVisible: \(visible)")
-
-        DispatchQueue.main.async {
-            Unity.shared.sendMessage("Charactor",
-                                    methodName: "SetCharacterVisible",
-                                    parameter: visible ? "true" : "false")
-            resolve(nil)
-        }
-    }
-
     // MARK: - Character Capture (공유 기능용)
 
     /// ★ Unity 캐릭터 스크린샷 캡처
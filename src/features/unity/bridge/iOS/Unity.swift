@@ -42,6 +42,9 @@ class Unity: ObservableObject  {
     private var messageQueue: [(objectName: String, methodName: String, parameter: String)] = []
     private var isGameObjectReady = false
 
+    /// Unity 빌드가 CharactorReady 알림으로 알려준 메시지 프로토콜 버전 (없으면 v1 빌드)
+    private(set) var protocolVersion: Int?
+
     /// 메시지 큐 최대 크기 (메모리 보호)
     private let maxQueueSize = 50
 
@@ -505,7 +508,9 @@ class Unity: ObservableObject  {
     }
 
     @objc
-    private func handleGameObjectReady() {
+    private func handleGameObjectReady(_ notification: Notification) {
+        protocolVersion = notification.userInfo?["protocolVersion"] as? Int
+
         queueLock.lock()
         let count = messageQueue.count
         isGameObjectReady = true
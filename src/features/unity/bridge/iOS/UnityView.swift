@@ -197,6 +197,11 @@ class RNUnityContainerView: UIView {
             payload["type"] = type
         }
 
+        // ★ 프로토콜 버전 핸드셰이크 (JS에서 지원 커맨드 협상)
+        if let protocolVersion = Unity.shared.protocolVersion {
+            payload["protocolVersion"] = protocolVersion
+        }
+
         onUnityReady?(payload)
     }
 
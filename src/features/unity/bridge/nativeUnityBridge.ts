@@ -0,0 +1,21 @@
+/**
+ * RNUnityBridge Native Module 접근점
+ * UnityBridge는 Native Module과 이벤트를 이 파일을 통해서만 사용
+ * 테스트에서는 이 모듈을 가짜 Unity 호스트로 교체 (~/test-utils/unity/mockUnityHost)
+ */
+
+import { NativeEventEmitter, NativeModules } from 'react-native';
+import type { RNUnityBridgeModule } from '../types/UnityTypes';
+
+export interface UnityEventSubscription {
+  remove(): void;
+}
+
+export interface UnityEventEmitter {
+  addListener(eventName: string, listener: (event: unknown) => void): UnityEventSubscription;
+}
+
+export const NativeUnityBridge: RNUnityBridgeModule | null = NativeModules.RNUnityBridge ?? null;
+
+export const createUnityEventEmitter = (): UnityEventEmitter | null =>
+  NativeUnityBridge ? new NativeEventEmitter(NativeUnityBridge) : null;
@@ -197,6 +197,9 @@ export const useUnityBootstrap = (
       ...(readyEvent.message ? { message: readyEvent.message } : {}),
       ...(readyEvent.type ? { type: readyEvent.type } : {}),
       ...(typeof readyEvent.target === 'number' ? { target: readyEvent.target } : {}),
+      ...(typeof readyEvent.protocolVersion === 'number'
+        ? { protocolVersion: readyEvent.protocolVersion }
+        : {}),
     };
 
     handleUnityReady({
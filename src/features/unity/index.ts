@@ -34,11 +34,24 @@ export type {
 // Unity Types and DTOs
 export type {
   UnityAnimationType,
-  UnityEvent,
-  UnityEventType,
+  UnityReaction,
   UnityStatus,
 } from './types/UnityTypes';
 
+// Unity 메시지 프로토콜 (커맨드/이벤트 스키마, 버전 핸드셰이크)
+export {
+  UNITY_PROTOCOL_VERSION,
+  encodeUnityCommand,
+  parseUnityEvent,
+} from './protocol';
+export type {
+  UnityCommandName,
+  UnityCommandPayloads,
+  UnityInboundEvent,
+  UnityInboundEventType,
+  UnityProtocolHandshake,
+} from './protocol';
+
 // Unity Bridge (현재는 주석 처리)
 export type { UnityBridgeInterface } from './bridge/UnityBridge';
 
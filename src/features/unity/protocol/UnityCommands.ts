@@ -0,0 +1,123 @@
+/**
+ * Unity Commands (RN → Unity)
+ *
+ * Unity GameObject로 보내는 메시지 스키마
+ * - 커맨드마다 대상 GameObject, payload 타입, 문자열 인코딩 방식, 도입된 프로토콜 버전 정의
+ * - UnityBridge.sendCommand()가 협상된 버전보다 새 커맨드는 보내지 않음 (구버전 Unity 빌드 보호)
+ */
+
+import type { CharacterMotion, UnityAvatarDtoList, UnityReaction } from '../types/UnityTypes';
+import { LEGACY_UNITY_PROTOCOL_VERSION } from './UnityProtocolVersion';
+
+export const CHARACTER_OBJECT_NAME = 'Charactor';
+export const BACKGROUND_OBJECT_NAME = 'Background';
+
+/**
+ * 커맨드별 payload 타입 (void = 파라미터 없음)
+ */
+export interface UnityCommandPayloads {
+  // 캐릭터 이동/모션
+  SetSpeed: number;
+  SetTrigger: CharacterMotion;
+  SetPoseForSlider: CharacterMotion;
+  SetAnimationNormalizedTime: number;
+  // 아바타
+  SetSprites: UnityAvatarDtoList;
+  // 공유 에디터
+  SetBackground: string;
+  SetBackgroundColor: string;
+  SetBackgroundFromBase64: string;
+  SetCharacterPosition: { x: number; y: number };
+  SetCharacterScale: number;
+  SetCharacterRotation: number;
+  SetCharacterVisible: boolean;
+  // 고스트 페이서
+  SpawnGhost: number;
+  SetGhostPosition: { offset: number; speed: number };
+  DespawnGhost: void;
+  // 캐릭터 반응
+  PlayReaction: UnityReaction;
+}
+
+export type UnityCommandName = keyof UnityCommandPayloads;
+
+/**
+ * payload가 없는 커맨드는 인자 없이 호출
+ */
+export type UnityCommandArgs<N extends UnityCommandName> = UnityCommandPayloads[N] extends void
+  ? []
+  : [payload: UnityCommandPayloads[N]];
+
+interface UnityCommandSchema<P> {
+  objectName: string;
+  sinceVersion: number;
+  encode: (payload: P) => string;
+}
+
+const toNumberString = (value: number): string => value.toString();
+const toRawString = (value: string): string => value;
+
+export const UNITY_COMMANDS: {
+  [N in UnityCommandName]: UnityCommandSchema<UnityCommandPayloads[N]>;
+} = {
+  SetSpeed: { objectName: CHARACTER_OBJECT_NAME, sinceVersion: 1, encode: toNumberString },
+  SetTrigger: { objectName: CHARACTER_OBJECT_NAME, sinceVersion: 1, encode: toRawString },
+  SetPoseForSlider: { objectName: CHARACTER_OBJECT_NAME, sinceVersion: 1, encode: toRawString },
+  SetAnimationNormalizedTime: { objectName: CHARACTER_OBJECT_NAME, sinceVersion: 1, encode: toNumberString },
+  SetSprites: { objectName: CHARACTER_OBJECT_NAME, sinceVersion: 1, encode: (list) => JSON.stringify(list) },
+  SetBackground: { objectName: BACKGROUND_OBJECT_NAME, sinceVersion: 1, encode: toRawString },
+  SetBackgroundColor: { objectName: BACKGROUND_OBJECT_NAME, sinceVersion: 1, encode: toRawString },
+  SetBackgroundFromBase64: { objectName: BACKGROUND_OBJECT_NAME, sinceVersion: 1, encode: toRawString },
+  SetCharacterPosition: {
+    objectName: CHARACTER_OBJECT_NAME,
+    sinceVersion: 1,
+    encode: ({ x, y }) => JSON.stringify({ x, y }),
+  },
+  SetCharacterScale: { objectName: CHARACTER_OBJECT_NAME, sinceVersion: 1, encode: toNumberString },
+  SetCharacterRotation: { objectName: CHARACTER_OBJECT_NAME, sinceVersion: 1, encode: toNumberString },
+  SetCharacterVisible: {
+    objectName: CHARACTER_OBJECT_NAME,
+    sinceVersion: 1,
+    encode: (visible) => (visible ? 'true' : 'false'),
+  },
+  SpawnGhost: { objectName: CHARACTER_OBJECT_NAME, sinceVersion: 2, encode: toNumberString },
+  SetGhostPosition: {
+    objectName: CHARACTER_OBJECT_NAME,
+    sinceVersion: 2,
+    encode: ({ offset, speed }) => JSON.stringify({ offset, speed }),
+  },
+  DespawnGhost: { objectName: CHARACTER_OBJECT_NAME, sinceVersion: 2, encode: () => '' },
+  PlayReaction: { objectName: CHARACTER_OBJECT_NAME, sinceVersion: 3, encode: toRawString },
+};
+
+/**
+ * UnitySendMessage로 전달되는 형태
+ */
+export interface UnityMessage {
+  objectName: string;
+  methodName: UnityCommandName;
+  parameter: string;
+}
+
+export const encodeUnityCommand = <N extends UnityCommandName>(
+  name: N,
+  ...args: UnityCommandArgs<N>
+): UnityMessage => {
+  const schema = UNITY_COMMANDS[name] as UnityCommandSchema<unknown>;
+  return {
+    objectName: schema.objectName,
+    methodName: name,
+    parameter: schema.encode(args[0]),
+  };
+};
+
+/**
+ * 협상된 프로토콜 버전에서 보낼 수 있는 커맨드인지
+ */
+export const isUnityCommandSupported = (
+  name: UnityCommandName,
+  protocolVersion: number = LEGACY_UNITY_PROTOCOL_VERSION
+): boolean => protocolVersion >= UNITY_COMMANDS[name].sinceVersion;
+
+export const isUnityCommandName = (value: string): value is UnityCommandName =>
+  Object.prototype.hasOwnProperty.call(UNITY_COMMANDS, value);
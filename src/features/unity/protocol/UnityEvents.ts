@@ -0,0 +1,134 @@
+/**
+ * Unity Events (Unity → RN)
+ *
+ * Native onUnityEvent 채널로 들어오는 이벤트 스키마와 런타임 검증
+ * - Unity 빌드/네이티브 레이어를 신뢰하지 않고 구조를 검사한 뒤에만 Store/구독자에 전달
+ * - 알 수 없는 type, 잘못된 data는 이유와 함께 거부
+ */
+
+import type {
+  CharacterMotion,
+  CharacterState,
+  UnityAnimationType,
+  UnityError,
+  UnityStatus,
+} from '../types/UnityTypes';
+
+interface UnityEventPayloads {
+  CHARACTER_STATE_CHANGED: CharacterState;
+  ANIMATION_COMPLETE: string; // 완료된 애니메이션/트리거 이름
+  UNITY_STATUS: UnityStatus;
+  UNITY_ERROR: UnityError;
+}
+
+export type UnityInboundEventType = keyof UnityEventPayloads;
+
+export type UnityInboundEvent = {
+  [T in UnityInboundEventType]: {
+    type: T;
+    data: UnityEventPayloads[T];
+    timestamp: string;
+  };
+}[UnityInboundEventType];
+
+export type UnityEventParseResult =
+  | { ok: true; event: UnityInboundEvent }
+  | { ok: false; reason: string };
+
+export const CHARACTER_MOTIONS: readonly CharacterMotion[] = ['IDLE', 'MOVE', 'ATTACK', 'DAMAGED', 'DEATH'];
+
+const UNITY_ANIMATION_TYPES: readonly UnityAnimationType[] = [
+  'IDLE',
+  'WALK',
+  'RUN',
+  'SPRINT',
+  'JUMP',
+  'CELEBRATE',
+  'STRETCH',
+  'DRINK',
+  'WIPE_SWEAT',
+  'TIRED',
+  'VICTORY',
+  'CUSTOM',
+];
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isFiniteNumber = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value);
+
+const isCharacterState = (data: unknown): data is CharacterState =>
+  isRecord(data)
+  && CHARACTER_MOTIONS.includes(data.motion as CharacterMotion)
+  && isFiniteNumber(data.speed)
+  && typeof data.isMoving === 'boolean'
+  && typeof data.timestamp === 'string';
+
+const isUnityStatus = (data: unknown): data is UnityStatus =>
+  isRecord(data)
+  && typeof data.isInitialized === 'boolean'
+  && typeof data.isVisible === 'boolean'
+  && typeof data.isLoading === 'boolean'
+  && typeof data.currentScene === 'string'
+  && (data.currentAnimation === null
+    || UNITY_ANIMATION_TYPES.includes(data.currentAnimation as UnityAnimationType))
+  && isRecord(data.performance)
+  && isFiniteNumber(data.performance.fps)
+  && isFiniteNumber(data.performance.memoryUsage)
+  && isFiniteNumber(data.performance.renderTime)
+  && typeof data.characterManagerExists === 'boolean'
+  && isFiniteNumber(data.currentSpeed)
+  && typeof data.timestamp === 'string';
+
+const isUnityError = (data: unknown): data is UnityError =>
+  isRecord(data)
+  && typeof data.type === 'string'
+  && typeof data.message === 'string'
+  && (data.error === undefined || typeof data.error === 'string')
+  && (data.data === undefined || isRecord(data.data));
+
+const UNITY_EVENT_VALIDATORS: {
+  [T in UnityInboundEventType]: (data: unknown) => data is UnityEventPayloads[T];
+} = {
+  CHARACTER_STATE_CHANGED: isCharacterState,
+  ANIMATION_COMPLETE: (data): data is string => typeof data === 'string' && data.length > 0,
+  UNITY_STATUS: isUnityStatus,
+  UNITY_ERROR: isUnityError,
+};
+
+const isUnityInboundEventType = (value: unknown): value is UnityInboundEventType =>
+  typeof value === 'string' && Object.prototype.hasOwnProperty.call(UNITY_EVENT_VALIDATORS, value);
+
+/**
+ * Native 이벤트 body 검증
+ * data는 객체 그대로 오거나 Unity가 JSON 문자열로 직렬화해 보낼 수 있음
+ */
+export const parseUnityEvent = (raw: unknown): UnityEventParseResult => {
+  if (!isRecord(raw)) {
+    return { ok: false, reason: 'event body is not an object' };
+  }
+
+  const { type, timestamp } = raw;
+  if (!isUnityInboundEventType(type)) {
+    return { ok: false, reason: `unknown event type: ${String(type)}` };
+  }
+  if (typeof timestamp !== 'string') {
+    return { ok: false, reason: `${type}: missing timestamp` };
+  }
+
+  let data = raw.data;
+  if (typeof data === 'string' && type !== 'ANIMATION_COMPLETE') {
+    try {
+      data = JSON.parse(data);
+    } catch {
+      return { ok: false, reason: `${type}: data is not valid JSON` };
+    }
+  }
+
+  if (!UNITY_EVENT_VALIDATORS[type](data)) {
+    return { ok: false, reason: `${type}: invalid data` };
+  }
+
+  return { ok: true, event: { type, data, timestamp } as UnityInboundEvent };
+};
@@ -0,0 +1,34 @@
+/**
+ * Unity Protocol Version
+ *
+ * RN ↔ Unity 메시지 프로토콜 버전과 핸드셰이크
+ * - v1: 버전을 보고하지 않는 기존 Unity 빌드 (캐릭터/아바타/공유 에디터 커맨드)
+ * - v2: 고스트 페이서 커맨드 + 프로토콜 이벤트(onUnityEvent)
+ * - v3: 캐릭터 반응 커맨드 (PlayReaction)
+ *
+ * Unity는 Ready 시점에 자신의 버전을 알리고, 앱은 양쪽이 모두 아는 가장 높은 버전을 사용한다.
+ */
+
+export const UNITY_PROTOCOL_VERSION = 3;
+export const LEGACY_UNITY_PROTOCOL_VERSION = 1;
+
+export interface UnityProtocolHandshake {
+  unityVersion: number; // Unity 빌드가 보고한 버전 (미보고 시 v1)
+  negotiatedVersion: number; // 실제 사용할 버전
+}
+
+/**
+ * Ready 이벤트의 protocolVersion으로 버전 협상
+ * 잘못된 값(문자열, 0 이하, 소수)은 버전 미보고로 간주
+ */
+export const negotiateUnityProtocol = (reportedVersion: unknown): UnityProtocolHandshake => {
+  const unityVersion =
+    typeof reportedVersion === 'number' && Number.isInteger(reportedVersion) && reportedVersion >= 1
+      ? reportedVersion
+      : LEGACY_UNITY_PROTOCOL_VERSION;
+
+  return {
+    unityVersion,
+    negotiatedVersion: Math.min(unityVersion, UNITY_PROTOCOL_VERSION),
+  };
+};
@@ -0,0 +1,95 @@
+import {
+  UNITY_PROTOCOL_VERSION,
+  encodeUnityCommand,
+  isUnityCommandSupported,
+  negotiateUnityProtocol,
+  parseUnityEvent,
+} from '~/features/unity/protocol';
+
+const TIMESTAMP = '2026-10-19T07:00:00.000Z';
+
+describe('Unity protocol', () => {
+  it('encodes commands into the messages Unity expects', () => {
+    expect(encodeUnityCommand('SetSpeed', 4.5)).toEqual({
+      objectName: 'Charactor',
+      methodName: 'SetSpeed',
+      parameter: '4.5',
+    });
+    expect(encodeUnityCommand('SetCharacterPosition', { x: 0.5, y: 0.25 }).parameter).toBe(
+      '{"x":0.5,"y":0.25}'
+    );
+    expect(encodeUnityCommand('SetCharacterVisible', false).parameter).toBe('false');
+    expect(encodeUnityCommand('SetBackground', 'bg_park')).toEqual({
+      objectName: 'Background',
+      methodName: 'SetBackground',
+      parameter: 'bg_park',
+    });
+    expect(encodeUnityCommand('DespawnGhost').parameter).toBe('');
+  });
+
+  it('gates newer commands by the negotiated version', () => {
+    expect(isUnityCommandSupported('SetSpeed', 1)).toBe(true);
+    expect(isUnityCommandSupported('SpawnGhost', 1)).toBe(false);
+    expect(isUnityCommandSupported('SpawnGhost', 2)).toBe(true);
+    expect(isUnityCommandSupported('SetGhostPosition')).toBe(false);
+    expect(isUnityCommandSupported('PlayReaction', 2)).toBe(false);
+    expect(isUnityCommandSupported('PlayReaction', 3)).toBe(true);
+  });
+
+  it('negotiates the highest version both sides know and treats missing versions as legacy', () => {
+    expect(negotiateUnityProtocol(2)).toEqual({ unityVersion: 2, negotiatedVersion: 2 });
+    expect(negotiateUnityProtocol(UNITY_PROTOCOL_VERSION + 3)).toEqual({
+      unityVersion: UNITY_PROTOCOL_VERSION + 3,
+      negotiatedVersion: UNITY_PROTOCOL_VERSION,
+    });
+    expect(negotiateUnityProtocol(undefined)).toEqual({ unityVersion: 1, negotiatedVersion: 1 });
+    expect(negotiateUnityProtocol('2')).toEqual({ unityVersion: 1, negotiatedVersion: 1 });
+    expect(negotiateUnityProtocol(1.5)).toEqual({ unityVersion: 1, negotiatedVersion: 1 });
+  });
+
+  it('accepts well-formed events, including JSON string data', () => {
+    const state = { motion: 'MOVE', speed: 5, isMoving: true, timestamp: TIMESTAMP };
+
+    expect(parseUnityEvent({ type: 'CHARACTER_STATE_CHANGED', data: state, timestamp: TIMESTAMP })).toEqual({
+      ok: true,
+      event: { type: 'CHARACTER_STATE_CHANGED', data: state, timestamp: TIMESTAMP },
+    });
+    expect(
+      parseUnityEvent({ type: 'CHARACTER_STATE_CHANGED', data: JSON.stringify(state), timestamp: TIMESTAMP })
+    ).toMatchObject({ ok: true, event: { data: state } });
+    expect(parseUnityEvent({ type: 'ANIMATION_COMPLETE', data: 'ATTACK', timestamp: TIMESTAMP })).toMatchObject({
+      ok: true,
+      event: { type: 'ANIMATION_COMPLETE', data: 'ATTACK' },
+    });
+    expect(
+      parseUnityEvent({
+        type: 'UNITY_ERROR',
+        data: { type: 'SPRITE_LOAD', message: 'Missing sprite' },
+        timestamp: TIMESTAMP,
+      })
+    ).toMatchObject({ ok: true });
+  });
+
+  it('rejects unknown types and malformed data with a reason', () => {
+    expect(parseUnityEvent(null)).toEqual({ ok: false, reason: 'event body is not an object' });
+    expect(parseUnityEvent({ type: 'RUNNING_MILESTONE', data: {}, timestamp: TIMESTAMP })).toEqual({
+      ok: false,
+      reason: 'unknown event type: RUNNING_MILESTONE',
+    });
+    expect(parseUnityEvent({ type: 'ANIMATION_COMPLETE', data: 'IDLE' })).toEqual({
+      ok: false,
+      reason: 'ANIMATION_COMPLETE: missing timestamp',
+    });
+    expect(
+      parseUnityEvent({
+        type: 'CHARACTER_STATE_CHANGED',
+        data: { motion: 'FLY', speed: 5, isMoving: true, timestamp: TIMESTAMP },
+        timestamp: TIMESTAMP,
+      })
+    ).toEqual({ ok: false, reason: 'CHARACTER_STATE_CHANGED: invalid data' });
+    expect(parseUnityEvent({ type: 'UNITY_STATUS', data: '{not json', timestamp: TIMESTAMP })).toEqual({
+      ok: false,
+      reason: 'UNITY_STATUS: data is not valid JSON',
+    });
+  });
+});
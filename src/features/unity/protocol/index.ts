@@ -0,0 +1,3 @@
+export * from './UnityCommands';
+export * from './UnityEvents';
+export * from './UnityProtocolVersion';
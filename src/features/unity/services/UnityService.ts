@@ -7,7 +7,8 @@
  */
 
 import { UnityBridge } from '../bridge/UnityBridge';
-import { type CharacterMotion, type UnityAvatarDtoList } from '../types/UnityTypes';
+import { CHARACTER_MOTIONS, encodeUnityCommand, type UnityInboundEvent } from '../protocol';
+import { type CharacterMotion, type UnityAvatarDtoList, type UnityReaction } from '../types/UnityTypes';
 import { unitySessionController } from './UnitySessionController';
 import type { Item } from '~/features/avatar';
 import { getUnityPartName } from '~/features/avatar/models/avatarConstants';
@@ -39,13 +40,21 @@ interface RecoverConnectionOptions {
 export class UnityService {
   private static instance: UnityService;
 
-  private static readonly UNITY_OBJECT_NAME = 'Charactor';
-  private static readonly UNITY_SPEED_METHOD = 'SetSpeed';
-  private static readonly UNITY_MOTION_METHOD = 'SetTrigger';
-  private static readonly CHANGE_AVATAR = 'SetSprites';
   private static readonly MIN_SPEED = 3.0;
   private static readonly MAX_SPEED = 7.0;
-  private static readonly VALID_MOTIONS: CharacterMotion[] = ['IDLE', 'MOVE', 'ATTACK', 'DAMAGED', 'DEATH'];
+  private static readonly MIN_CHARACTER_SCALE = 0.5;
+  private static readonly MAX_CHARACTER_SCALE = 2.5;
+  private static readonly GHOST_OPACITY = 0.5;
+  // 화면에 보이는 트랙 길이를 넘는 차이는 화면 끝에 붙여 표시
+  private static readonly MAX_GHOST_OFFSET_METERS = 30;
+  private static readonly VALID_MOTIONS = CHARACTER_MOTIONS;
+  // PlayReaction을 모르는 Unity 빌드에서 대신 재생할 Animator 트리거
+  private static readonly REACTION_FALLBACK_MOTIONS: Record<UnityReaction, CharacterMotion> = {
+    CELEBRATE: 'ATTACK',
+    VICTORY: 'ATTACK',
+    TIRED: 'DAMAGED',
+    DRINK: 'IDLE',
+  };
   private static readonly DEFAULT_READY_POLL_INTERVAL_MS = 100;
   private static readonly DEFAULT_CONNECTION_RETRY_COUNT = 2;
   private static readonly DEFAULT_CONNECTION_RETRY_DELAY_MS = 150;
@@ -102,6 +111,14 @@ export class UnityService {
     return UnityBridge.subscribeToAvatarReady(callback);
   }
 
+  /**
+   * ★ Unity 프로토콜 이벤트 구독
+   * 캐릭터 상태 변경, 애니메이션 완료 등 스키마 검증을 통과한 이벤트만 전달
+   */
+  onUnityEvent(callback: (event: UnityInboundEvent) => void): () => void {
+    return UnityBridge.subscribeToUnityEvent(callback);
+  }
+
   /**
    * Ready 상태 리셋
    */
@@ -302,12 +319,7 @@ export class UnityService {
     try {
       const clampedSpeed = Math.max(UnityService.MIN_SPEED, Math.min(speed, UnityService.MAX_SPEED));
 
-      const speedString = clampedSpeed.toString();
-      await UnityBridge.sendUnityMessage(
-        UnityService.UNITY_OBJECT_NAME,
-        UnityService.UNITY_SPEED_METHOD,
-        speedString
-      );
+      await UnityBridge.sendCommand('SetSpeed', clampedSpeed);
 
       this.log(`Character speed set to ${clampedSpeed}`);
     } catch (error) {
@@ -324,11 +336,7 @@ export class UnityService {
     }
 
     try {
-      await UnityBridge.sendUnityMessage(
-        UnityService.UNITY_OBJECT_NAME,
-        UnityService.UNITY_SPEED_METHOD,
-        '0'
-      );
+      await UnityBridge.sendCommand('SetSpeed', 0);
 
       this.log('Character stopped');
     } catch (error) {
@@ -349,11 +357,7 @@ export class UnityService {
         throw new Error(`Invalid motion: ${motion}. Valid motions: ${UnityService.VALID_MOTIONS.join(', ')}`);
       }
 
-      await UnityBridge.sendUnityMessage(
-        UnityService.UNITY_OBJECT_NAME,
-        UnityService.UNITY_MOTION_METHOD,
-        motion
-      );
+      await UnityBridge.sendCommand('SetTrigger', motion);
 
       this.log(`Character motion set to ${motion}`);
     } catch (error) {
@@ -380,11 +384,7 @@ export class UnityService {
         throw new Error(`Invalid motion: ${poseName}. Valid motions: ${UnityService.VALID_MOTIONS.join(', ')}`);
       }
 
-      await UnityBridge.sendUnityMessage(
-        UnityService.UNITY_OBJECT_NAME,
-        'SetPoseForSlider',
-        poseName
-      );
+      await UnityBridge.sendCommand('SetPoseForSlider', poseName);
 
       this.log(`Pose set for slider: ${poseName}`);
     } catch (error) {
@@ -403,11 +403,7 @@ export class UnityService {
     const clampedTime = Math.max(0, Math.min(1, normalizedTime));
 
     try {
-      await UnityBridge.sendUnityMessage(
-        UnityService.UNITY_OBJECT_NAME,
-        'SetAnimationNormalizedTime',
-        clampedTime.toString()
-      );
+      await UnityBridge.sendCommand('SetAnimationNormalizedTime', clampedTime);
     } catch (error) {
       this.logError('Failed to set animation normalized time', error);
       throw error;
@@ -481,16 +477,12 @@ export class UnityService {
     try {
       const validatedItems = this.validateAvatarItems(items);
       const unityData = this.convertToUnityAvatarDtoList(validatedItems, hairColor);
-      const jsonString = JSON.stringify(unityData);
+      const { objectName, methodName, parameter } = encodeUnityCommand('SetSprites', unityData);
 
-      this.log('Unity Avatar Data:', jsonString);
+      this.log('Unity Avatar Data:', parameter);
 
       // ★ Native Promise Hold: SetSprites 완료까지 대기
-      const success = await UnityBridge.changeAvatarAndWait(
-        UnityService.UNITY_OBJECT_NAME,
-        UnityService.CHANGE_AVATAR,
-        jsonString
-      );
+      const success = await UnityBridge.changeAvatarAndWait(objectName, methodName, parameter);
 
       if (!success) {
         this.log('⚠️ Avatar change timeout or failed (5s)');
@@ -551,7 +543,7 @@ export class UnityService {
     this.log(`Setting background: ${backgroundId}`);
 
     try {
-      await UnityBridge.setBackground(backgroundId);
+      await UnityBridge.sendCommand('SetBackground', backgroundId);
       this.log(`Background set to ${backgroundId}`);
     } catch (error) {
       this.logError('Failed to set background', error);
@@ -567,7 +559,7 @@ export class UnityService {
     this.log(`Setting background color: ${colorHex}`);
 
     try {
-      await UnityBridge.setBackgroundColor(colorHex);
+      await UnityBridge.sendCommand('SetBackgroundColor', colorHex);
       this.log(`Background color set to ${colorHex}`);
     } catch (error) {
       this.logError('Failed to set background color', error);
@@ -583,7 +575,7 @@ export class UnityService {
     this.log(`Setting background from photo (length: ${base64Image.length})`);
 
     try {
-      await UnityBridge.setBackgroundFromPhoto(base64Image);
+      await UnityBridge.sendCommand('SetBackgroundFromBase64', base64Image);
       this.log('Background photo set successfully');
     } catch (error) {
       this.logError('Failed to set background from photo', error);
@@ -604,7 +596,7 @@ export class UnityService {
     this.log(`Setting character position: (${x}, ${y})`);
 
     try {
-      await UnityBridge.setCharacterPosition(x, y);
+      await UnityBridge.sendCommand('SetCharacterPosition', { x, y });
       this.log(`Character position set to (${x}, ${y})`);
     } catch (error) {
       this.logError('Failed to set character position', error);
@@ -620,8 +612,12 @@ export class UnityService {
     this.log(`Setting character scale: ${scale}`);
 
     try {
-      await UnityBridge.setCharacterScale(scale);
-      this.log(`Character scale set to ${scale}`);
+      const clampedScale = Math.max(
+        UnityService.MIN_CHARACTER_SCALE,
+        Math.min(scale, UnityService.MAX_CHARACTER_SCALE)
+      );
+      await UnityBridge.sendCommand('SetCharacterScale', clampedScale);
+      this.log(`Character scale set to ${clampedScale}`);
     } catch (error) {
       this.logError('Failed to set character scale', error);
       throw error;
@@ -636,7 +632,7 @@ export class UnityService {
     this.log(`Setting character rotation: ${rotation}`);
 
     try {
-      await UnityBridge.setCharacterRotation(rotation);
+      await UnityBridge.sendCommand('SetCharacterRotation', rotation);
       this.log(`Character rotation set to ${rotation}`);
     } catch (error) {
       this.logError('Failed to set character rotation', error);
@@ -652,7 +648,7 @@ export class UnityService {
     this.log(`Setting character visible: ${visible}`);
 
     try {
-      await UnityBridge.setCharacterVisible(visible);
+      await UnityBridge.sendCommand('SetCharacterVisible', visible);
       this.log(`Character visibility set to ${visible}`);
     } catch (error) {
       this.logError('Failed to set character visibility', error);
@@ -660,6 +656,91 @@ export class UnityService {
     }
   }
 
+  // ==========================================
+  // 고스트 페이서 (러닝 중 두 번째 캐릭터)
+  // ==========================================
+
+  /**
+   * ★ 고스트 캐릭터 생성
+   * 러너 캐릭터의 외형을 반투명하게 복제해 같은 트랙에 세운다.
+   * 프로토콜 v2 미만 Unity 빌드에서는 전송하지 않는다.
+   */
+  async spawnGhost(): Promise<void> {
+    this.log('Spawning ghost');
+
+    try {
+      const sent = await UnityBridge.sendCommand('SpawnGhost', UnityService.GHOST_OPACITY);
+      this.log(sent ? 'Ghost spawned' : '⚠️ Ghost not supported by this Unity build');
+    } catch (error) {
+      this.logError('Failed to spawn ghost', error);
+      throw error;
+    }
+  }
+
+  /**
+   * ★ 고스트 캐릭터 위치/속도 갱신
+   * @param offsetMeters 러너 기준 고스트 위치 (양수=앞, 음수=뒤)
+   * @param speed 고스트 속도 (km/h, 0이면 멈춰 선다)
+   */
+  async setGhostPosition(offsetMeters: number, speed: number): Promise<void> {
+    try {
+      const clampedOffset = Math.max(
+        -UnityService.MAX_GHOST_OFFSET_METERS,
+        Math.min(offsetMeters, UnityService.MAX_GHOST_OFFSET_METERS)
+      );
+      // 러너 캐릭터와 같은 애니메이션 속도 범위 사용
+      const clampedSpeed =
+        speed > 0 ? Math.max(UnityService.MIN_SPEED, Math.min(speed, UnityService.MAX_SPEED)) : 0;
+
+      await UnityBridge.sendCommand('SetGhostPosition', { offset: clampedOffset, speed: clampedSpeed });
+    } catch (error) {
+      this.logError('Failed to set ghost position', error);
+      throw error;
+    }
+  }
+
+  /**
+   * ★ 고스트 캐릭터 제거
+   */
+  async despawnGhost(): Promise<void> {
+    this.log('Despawning ghost');
+
+    try {
+      await UnityBridge.sendCommand('DespawnGhost');
+      this.log('Ghost despawned');
+    } catch (error) {
+      this.logError('Failed to despawn ghost', error);
+      throw error;
+    }
+  }
+
+  // ==========================================
+  // 캐릭터 반응 (러닝 마일스톤/업적)
+  // ==========================================
+
+  /**
+   * ★ 캐릭터 반응 1회 재생
+   * 프로토콜 v3 미만 Unity 빌드에서는 가장 가까운 SetTrigger 모션으로 대신 재생한다.
+   */
+  async playReaction(reaction: UnityReaction): Promise<void> {
+    this.log(`Playing reaction: ${reaction}`);
+
+    try {
+      const sent = await UnityBridge.sendCommand('PlayReaction', reaction);
+      if (sent) {
+        this.log(`Reaction ${reaction} played`);
+        return;
+      }
+
+      const fallbackMotion = UnityService.REACTION_FALLBACK_MOTIONS[reaction];
+      await UnityBridge.sendCommand('SetTrigger', fallbackMotion);
+      this.log(`Reaction ${reaction} played as ${fallbackMotion} (legacy Unity build)`);
+    } catch (error) {
+      this.logError('Failed to play reaction', error);
+      throw error;
+    }
+  }
+
   // ==========================================
   // 캐릭터 캡처 기능 (공유 기능용)
   // ==========================================
@@ -686,6 +767,33 @@ export class UnityService {
     }
   }
 
+  /**
+   * ★ 여러 코디를 차례로 입혀 각각 캡처 (코디 비교용)
+   * Unity 캐릭터는 하나뿐이므로 순서대로 적용/캡처하고, 끝나면 restore 코디로 되돌린다.
+   * @returns 코디 순서대로 Base64 PNG 이미지
+   */
+  async captureOutfits(
+    outfits: readonly { items: readonly Item[]; hairColor: string }[],
+    restore?: { items: readonly Item[]; hairColor: string }
+  ): Promise<string[]> {
+    const images: string[] = [];
+
+    try {
+      for (const outfit of outfits) {
+        const result = await this.syncAvatar([...outfit.items], outfit.hairColor);
+        if (result === 'failed') {
+          throw new Error('Failed to apply outfit for capture');
+        }
+        images.push(await this.captureAvatar());
+      }
+      return images;
+    } finally {
+      if (restore) {
+        await this.syncAvatar([...restore.items], restore.hairColor);
+      }
+    }
+  }
+
   private wait(ms: number): Promise<void> {
     return new Promise((resolve) => {
       setTimeout(resolve, ms);
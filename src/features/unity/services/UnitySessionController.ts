@@ -1,5 +1,6 @@
 import type { AppStateStatus } from 'react-native';
 import type { Item } from '~/features/avatar';
+import { negotiateUnityProtocol } from '~/features/unity/protocol/UnityProtocolVersion';
 import {
   useUnityStore,
   type UnityReadyEventSnapshot,
@@ -105,6 +106,11 @@ class UnitySessionController {
     store.publishUnityReadyEvent(event);
     store.bumpDebugCounter('readyEventCount');
 
+    // 재연결 Ready에는 버전이 빠질 수 있으므로 보고된 경우에만 핸드셰이크 갱신
+    if (event.protocolVersion !== undefined) {
+      this.recordProtocolVersion(event.protocolVersion);
+    }
+
     if (event.ready === false) {
       store.setSessionStatus('recovering', 'unity_ready:false', store.activeViewport?.owner ?? null);
       return;
@@ -126,6 +132,22 @@ class UnitySessionController {
     store.setSessionStatus('ready_hidden', 'unity_ready:hidden', null);
   }
 
+  /**
+   * Unity가 보고한 프로토콜 버전으로 사용할 버전 협상
+   */
+  recordProtocolVersion(reportedVersion: unknown): void {
+    const handshake = negotiateUnityProtocol(reportedVersion);
+    const current = useUnityStore.getState().unityProtocol;
+    if (
+      current?.unityVersion === handshake.unityVersion
+      && current.negotiatedVersion === handshake.negotiatedVersion
+    ) {
+      return;
+    }
+
+    useUnityStore.getState().setUnityProtocol(handshake);
+  }
+
   handleUnityError(message?: string): void {
     const store = useUnityStore.getState();
     store.setSessionStatus(
@@ -0,0 +1,184 @@
+import type { Item } from '~/features/avatar';
+import type { UnityInboundEvent } from '~/features/unity/protocol';
+import { unityService } from '~/features/unity/services/UnityService';
+import { useUnityStore } from '~/stores/unity/unityStore';
+import { mockUnityHost } from '~/test-utils/unity/mockUnityHost';
+
+jest.mock('~/features/unity/bridge/nativeUnityBridge', () =>
+  require('~/test-utils/unity/mockUnityHost').mockNativeUnityBridge
+);
+
+const TIMESTAMP = '2026-10-19T07:00:00.000Z';
+
+function createItem(id: number, itemTypeId: number): Item {
+  return {
+    id,
+    itemType: { id: itemTypeId, name: itemTypeId === 1 ? '머리' : '의상' },
+    name: `Item_${id}.png`,
+    unityFilePath: 'Sprites/',
+    filePath: `/assets/items/Item_${id}.png`,
+    point: 100,
+    createdAt: '2026-10-01T00:00:00.000Z',
+  };
+}
+
+const HAIR = createItem(1, 1);
+const SHIRT = createItem(2, 2);
+
+describe('UnityService with mock Unity host', () => {
+  beforeEach(() => {
+    mockUnityHost.reset();
+    useUnityStore.getState().resetUnityState();
+  });
+
+  it('boots with a protocol handshake and sends encoded character commands', async () => {
+    mockUnityHost.boot({ protocolVersion: 2 });
+
+    expect(useUnityStore.getState().isGameObjectReady).toBe(true);
+    expect(useUnityStore.getState().unityProtocol).toEqual({ unityVersion: 2, negotiatedVersion: 2 });
+
+    await unityService.setCharacterSpeed(12);
+    await unityService.setCharacterMotion('ATTACK');
+    await unityService.stopCharacter();
+
+    expect(mockUnityHost.messages()).toEqual([
+      { objectName: 'Charactor', methodName: 'SetSpeed', parameter: '7' },
+      { objectName: 'Charactor', methodName: 'SetTrigger', parameter: 'ATTACK' },
+      { objectName: 'Charactor', methodName: 'SetSpeed', parameter: '0' },
+    ]);
+  });
+
+  it('skips ghost commands on legacy Unity builds that report no protocol version', async () => {
+    mockUnityHost.boot();
+
+    await unityService.spawnGhost();
+    await unityService.setGhostPosition(12, 5);
+
+    expect(mockUnityHost.messages()).toEqual([]);
+
+    mockUnityHost.boot({ protocolVersion: 2 });
+    await unityService.spawnGhost();
+    await unityService.setGhostPosition(45, 0);
+    await unityService.despawnGhost();
+
+    expect(mockUnityHost.messages()).toEqual([
+      { objectName: 'Charactor', methodName: 'SpawnGhost', parameter: '0.5' },
+      { objectName: 'Charactor', methodName: 'SetGhostPosition', parameter: '{"offset":30,"speed":0}' },
+      { objectName: 'Charactor', methodName: 'DespawnGhost', parameter: '' },
+    ]);
+  });
+
+  it('plays reactions natively on v3 builds and as the closest trigger on older builds', async () => {
+    mockUnityHost.boot({ protocolVersion: 3 });
+    await unityService.playReaction('VICTORY');
+
+    mockUnityHost.boot({ protocolVersion: 2 });
+    await unityService.playReaction('VICTORY');
+    await unityService.playReaction('DRINK');
+
+    expect(mockUnityHost.messages()).toEqual([
+      { objectName: 'Charactor', methodName: 'PlayReaction', parameter: 'VICTORY' },
+      { objectName: 'Charactor', methodName: 'SetTrigger', parameter: 'ATTACK' },
+      { objectName: 'Charactor', methodName: 'SetTrigger', parameter: 'IDLE' },
+    ]);
+  });
+
+  it('applies avatars through SetSprites and waits for the host to report avatar ready', async () => {
+    mockUnityHost.boot({ protocolVersion: 2 });
+
+    await expect(unityService.syncAvatar([HAIR, SHIRT], '#112233')).resolves.toBe('applied');
+
+    const [message] = mockUnityHost.messages('SetSprites');
+    expect(JSON.parse(message!.parameter)).toEqual({
+      list: [
+        { name: 'Item_1.png', part: 'Hair', itemPath: 'Sprites/Item_1.png', hairColor: '#112233' },
+        { name: 'Item_2.png', part: 'Cloth', itemPath: 'Sprites/Item_2.png' },
+      ],
+    });
+    expect(useUnityStore.getState().isAvatarReady).toBe(true);
+    expect(useUnityStore.getState().lastAppliedAvatarHash).not.toBeNull();
+
+    mockUnityHost.setAvatarResult(false);
+    await expect(unityService.syncAvatar([SHIRT], '#112233')).resolves.toBe('failed');
+    expect(useUnityStore.getState().isAvatarReady).toBe(true);
+  });
+
+  it('captures each outfit in turn and restores the worn outfit', async () => {
+    mockUnityHost.boot({ protocolVersion: 2 });
+    mockUnityHost.queueCaptureImage('outfit-a');
+    mockUnityHost.queueCaptureImage('outfit-b');
+
+    const images = await unityService.captureOutfits(
+      [
+        { items: [HAIR], hairColor: '#000000' },
+        { items: [SHIRT], hairColor: '#000000' },
+      ],
+      { items: [HAIR, SHIRT], hairColor: '#112233' }
+    );
+
+    expect(images).toEqual(['outfit-a', 'outfit-b']);
+    expect(mockUnityHost.messages().map((message) => message.methodName)).toEqual([
+      'SetSprites',
+      'CaptureCharacter',
+      'SetSprites',
+      'CaptureCharacter',
+      'SetSprites',
+    ]);
+  });
+
+  it('sends a photo background in full but logs only a truncated parameter', async () => {
+    const logSpy = jest.spyOn(console, 'log').mockImplementation(() => {});
+    const base64Image = 'A'.repeat(64 * 1024);
+    mockUnityHost.boot({ protocolVersion: 2 });
+
+    await unityService.setBackgroundFromPhoto(base64Image);
+
+    expect(mockUnityHost.messages()).toEqual([
+      { objectName: 'Background', methodName: 'SetBackgroundFromBase64', parameter: base64Image },
+    ]);
+    const sentLog = logSpy.mock.calls
+      .map(([message]) => String(message))
+      .find((message) => message.startsWith('[UnityBridge] Message sent: Background.SetBackgroundFromBase64'));
+    expect(sentLog).toContain(`(${base64Image.length} chars)`);
+    expect(sentLog!.length).toBeLessThan(400);
+    logSpy.mockRestore();
+  });
+
+  it('validates Unity events before updating the store and notifying subscribers', async () => {
+    const warnSpy = jest.spyOn(console, 'warn').mockImplementation(() => {});
+    const received: UnityInboundEvent[] = [];
+    const unsubscribe = unityService.onUnityEvent((event) => received.push(event));
+    mockUnityHost.boot({ protocolVersion: 2 });
+    mockUnityHost.respondTo('SetTrigger', {
+      name: 'onUnityEvent',
+      body: { type: 'ANIMATION_COMPLETE', data: 'ATTACK', timestamp: TIMESTAMP },
+    });
+
+    await unityService.setCharacterMotion('ATTACK');
+    mockUnityHost.emitUnityEvent({
+      type: 'CHARACTER_STATE_CHANGED',
+      data: { motion: 'MOVE', speed: 5, isMoving: true, timestamp: TIMESTAMP },
+      timestamp: TIMESTAMP,
+    });
+    mockUnityHost.emitUnityEvent({ type: 'CHARACTER_STATE_CHANGED', data: { motion: 'FLY' }, timestamp: TIMESTAMP });
+    mockUnityHost.emitUnityEvent({
+      type: 'UNITY_ERROR',
+      data: { type: 'SPRITE_LOAD', message: 'missing sprite' },
+      timestamp: TIMESTAMP,
+    });
+    unsubscribe();
+
+    expect(received.map((event) => event.type)).toEqual([
+      'ANIMATION_COMPLETE',
+      'CHARACTER_STATE_CHANGED',
+      'UNITY_ERROR',
+    ]);
+    expect(useUnityStore.getState().characterState).toMatchObject({ motion: 'MOVE', speed: 5 });
+    expect(useUnityStore.getState().sessionStatus).toBe('recovering');
+    expect(warnSpy).toHaveBeenCalledWith(
+      '[UnityBridge] ⚠️ Invalid Unity event dropped:',
+      'CHARACTER_STATE_CHANGED: invalid data'
+    );
+    warnSpy.mockRestore();
+  });
+});
@@ -90,4 +90,15 @@ describe('UnitySessionController', () => {
 
     expect(useUnityStore.getState().sessionStatus).toBe('ready_hidden');
   });
+
+  it('records the protocol handshake from ready events and keeps it on reattach without a version', () => {
+    unitySessionController.handleUnityReadyEvent({ message: 'Unity loaded', protocolVersion: 2 });
+
+    expect(useUnityStore.getState().unityProtocol).toEqual({ unityVersion: 2, negotiatedVersion: 2 });
+    expect(useUnityStore.getState().lastUnityReadyEvent?.protocolVersion).toBe(2);
+
+    unitySessionController.handleUnityReadyEvent({ message: 'Unity reattached successfully', type: 'reattach' });
+
+    expect(useUnityStore.getState().unityProtocol).toEqual({ unityVersion: 2, negotiatedVersion: 2 });
+  });
 });
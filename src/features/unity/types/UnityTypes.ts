@@ -28,23 +28,10 @@ export type UnityAnimationType =
   | 'CUSTOM';        // 커스텀
 
 /**
- * Unity Event Type (확장)
- * Unity 이벤트 타입 정의
+ * Unity Reaction
+ * 러닝 중 순간에 맞춰 한 번 재생하는 캐릭터 반응 (PlayReaction, 프로토콜 v3)
  */
-export type UnityEventType =
-  | 'CHARACTER_LOADED'       // 캐릭터 로드 완료
-  | 'ANIMATION_STARTED'      // 애니메이션 시작
-  | 'ANIMATION_FINISHED'     // 애니메이션 완료
-  | 'SCENE_CHANGED'         // 씬 변경
-  | 'ERROR'                 // 오류 발생
-  | 'USER_INTERACTION'      // 사용자 상호작용
-  | 'RUNNING_MILESTONE'     // 러닝 마일스톤
-  | 'ACHIEVEMENT_UNLOCKED'  // 업적 달성
-  | 'CHARACTER_STATE_CHANGED' // 캐릭터 상태 변경
-  | 'AVATAR_CHANGED'        // 아바타 변경
-  | 'ANIMATION_COMPLETE'    // 애니메이션 완료
-  | 'UNITY_ERROR'           // Unity 오류
-  | 'UNITY_STATUS';         // Unity 상태
+export type UnityReaction = Extract<UnityAnimationType, 'CELEBRATE' | 'VICTORY' | 'TIRED' | 'DRINK'>;
 
 /**
  * Unity Status (통합)
@@ -125,36 +112,6 @@ export interface CharacterState {
   timestamp: string;
 }
 
-// ==========================================
-// Unity 이벤트 타입들 (확장)
-// ==========================================
-
-export interface UnityEvent<T = any> {
-  type: string;
-  data: T;
-  timestamp: string;
-}
-
-export interface CharacterStateChangedEvent extends UnityEvent<CharacterState> {
-  type: 'CHARACTER_STATE_CHANGED';
-  data: CharacterState;
-}
-
-export interface AnimationCompleteEvent extends UnityEvent<string> {
-  type: 'ANIMATION_COMPLETE';
-  data: string; // animation type
-}
-
-export interface UnityErrorEvent extends UnityEvent<UnityError> {
-  type: 'UNITY_ERROR';
-  data: UnityError;
-}
-
-export interface UnityStatusEvent extends UnityEvent<UnityStatus> {
-  type: 'UNITY_STATUS';
-  data: UnityStatus;
-}
-
 // ==========================================
 // Unity 상태 및 에러 타입들 (통합)
 // ==========================================
@@ -171,13 +128,23 @@ export interface UnityError {
 // ==========================================
 
 export interface RNUnityBridgeModule {
-  // Unity 메시지 전송 (순수 브리지)
+  // Unity 메시지 전송 (순수 브리지, 메시지 스키마는 protocol/UnityCommands)
   sendUnityMessage(objectName: string, methodName: string, parameter: string): Promise<void>;
   sendUnityJSON(objectName: string, methodName: string, data: unknown[]): Promise<void>;
 
+  // Native Promise Hold (SetSprites 적용 완료까지 대기)
+  changeAvatarAndWait(objectName: string, methodName: string, data: string): Promise<boolean>;
+
+  // 상태 조회/복구 (플랫폼에 따라 없을 수 있음)
+  isCharactorReady?(): Promise<boolean>;
+  resetCharactorReady?(): Promise<void>;
+  validateUnityState?(): Promise<boolean>;
+  forceResetUnity?(): Promise<void>;
+
+  // 캐릭터 캡처 (공유 기능용)
+  captureCharacter?(): Promise<string>;
+
   // 이벤트 리스너 등록/해제
   addListener(eventName: string): void;
   removeListeners(count: number): void;
 }
-
-
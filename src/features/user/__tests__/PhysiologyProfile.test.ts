@@ -0,0 +1,66 @@
+import {
+  EMPTY_PHYSIOLOGY_PROFILE,
+  isCalorieInputChanged,
+  resolvePhysiology,
+  validatePhysiologyProfile,
+} from '~/features/user/models/PhysiologyProfile';
+import { useUserStore } from '~/stores/user/userStore';
+
+const NOW = new Date('2026-06-01T00:00:00.000Z');
+
+describe('PhysiologyProfile', () => {
+  beforeEach(() => {
+    useUserStore.getState().logout();
+  });
+
+  it('fills missing fields with defaults and estimates max heart rate from age', () => {
+    expect(resolvePhysiology(EMPTY_PHYSIOLOGY_PROFILE, NOW)).toEqual({
+      weightKg: 70,
+      age: 30,
+      sex: 'male',
+      restingHeartRate: null,
+      maxHeartRate: 187,
+      isMaxHeartRateEstimated: true,
+    });
+
+    expect(
+      resolvePhysiology({ ...EMPTY_PHYSIOLOGY_PROFILE, birthYear: 1976, maxHeartRate: 181 }, NOW)
+    ).toMatchObject({ age: 50, maxHeartRate: 181, isMaxHeartRateEstimated: false });
+  });
+
+  it('rejects implausible values', () => {
+    expect(validatePhysiologyProfile(EMPTY_PHYSIOLOGY_PROFILE, NOW)).toBeNull();
+    expect(validatePhysiologyProfile({ ...EMPTY_PHYSIOLOGY_PROFILE, weightKg: 7 }, NOW)).not.toBeNull();
+    expect(validatePhysiologyProfile({ ...EMPTY_PHYSIOLOGY_PROFILE, birthYear: 2024 }, NOW)).not.toBeNull();
+    expect(
+      validatePhysiologyProfile(
+        { ...EMPTY_PHYSIOLOGY_PROFILE, restingHeartRate: 80, maxHeartRate: 80 },
+        NOW
+      )
+    ).not.toBeNull();
+  });
+
+  it('only treats weight, birth year and sex as calorie inputs', () => {
+    expect(
+      isCalorieInputChanged(EMPTY_PHYSIOLOGY_PROFILE, { ...EMPTY_PHYSIOLOGY_PROFILE, maxHeartRate: 190 })
+    ).toBe(false);
+    expect(
+      isCalorieInputChanged(EMPTY_PHYSIOLOGY_PROFILE, { ...EMPTY_PHYSIOLOGY_PROFILE, weightKg: 62 })
+    ).toBe(true);
+  });
+
+  it('persists partial updates in the user store and clears them on logout', () => {
+    useUserStore.getState().updatePhysiologyProfile({ weightKg: 62, sex: 'female' });
+    useUserStore.getState().updatePhysiologyProfile({ restingHeartRate: 52 });
+
+    expect(useUserStore.getState().physiologyProfile).toEqual({
+      ...EMPTY_PHYSIOLOGY_PROFILE,
+      weightKg: 62,
+      sex: 'female',
+      restingHeartRate: 52,
+    });
+
+    useUserStore.getState().logout();
+    expect(useUserStore.getState().physiologyProfile).toEqual(EMPTY_PHYSIOLOGY_PROFILE);
+  });
+});
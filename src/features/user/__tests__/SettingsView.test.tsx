@@ -4,9 +4,11 @@ import { fireEvent, screen, waitFor } from '@testing-library/react-native';
 import { SettingsView } from '~/features/user/views/SettingsView';
 import { renderWithProviders } from '~/test-utils/renderWithProviders';
 import { routerMock } from '~/test-utils/mocks/native';
+import { DistanceUnit, useUserStore } from '~/stores/user/userStore';
 
 const mockLogout = jest.fn();
 const mockWithdraw = jest.fn();
+const mockPickAndImport = jest.fn();
 
 jest.mock('~/features/auth/hooks/useAuth', () => ({
   useAuth: () => ({
@@ -20,6 +22,12 @@ jest.mock('~/features/user/services/userService', () => ({
   },
 }));
 
+jest.mock('~/features/healthImport/services/workoutFileImportService', () => ({
+  workoutFileImportService: {
+    pickAndImport: (...args: unknown[]) => mockPickAndImport(...args),
+  },
+}));
+
 describe('SettingsView', () => {
   let alertSpy: jest.SpyInstance;
 
@@ -56,6 +64,36 @@ describe('SettingsView', () => {
     expect(routerMock.push).toHaveBeenCalledWith('/user/permission-settings');
   });
 
+  it('switches the distance unit between km and mi', () => {
+    renderWithProviders(<SettingsView />);
+
+    fireEvent.press(screen.getByTestId('settings-distance-unit-mile'));
+    expect(useUserStore.getState().userPreferences.distanceUnit).toBe(DistanceUnit.MILE);
+
+    fireEvent.press(screen.getByTestId('settings-distance-unit-km'));
+    expect(useUserStore.getState().userPreferences.distanceUnit).toBe(DistanceUnit.KILOMETER);
+  });
+
+  it('imports workout files and shows the import summary', async () => {
+    mockPickAndImport.mockResolvedValue({
+      importedCount: 2,
+      duplicateCount: 1,
+      awardedPoint: 0,
+      failedFileNames: ['broken.fit'],
+    });
+    renderWithProviders(<SettingsView />);
+
+    fireEvent.press(screen.getByTestId('settings-workout-file-import-menu'));
+
+    await waitFor(() => {
+      expect(Alert.alert).toHaveBeenCalledWith(
+        '러닝 기록 가져오기',
+        '2개의 러닝을 가져왔어요.\n이미 가져온 러닝 1개는 건너뛰었어요.\n읽을 수 없는 파일: broken.fit',
+        [{ text: '확인', style: 'default' }]
+      );
+    });
+  });
+
   it('closes logout modal when cancel is pressed', async () => {
     renderWithProviders(<SettingsView />);
 
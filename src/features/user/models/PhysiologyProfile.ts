@@ -0,0 +1,139 @@
+/**
+ * Physiology Profile Model
+ * 칼로리(Keytel/MET)와 심박 구간 계산에 쓰는 신체 정보
+ *
+ * 정책: 입력하지 않은 항목은 null로 저장하고, 계산 시 기본값/추정값으로 대체
+ */
+
+export type BiologicalSex = 'male' | 'female';
+
+export interface PhysiologyProfile {
+  weightKg: number | null;
+  birthYear: number | null;
+  sex: BiologicalSex | null;
+  restingHeartRate: number | null; // bpm
+  maxHeartRate: number | null; // bpm, null이면 나이로 추정
+}
+
+/**
+ * 계산용 신체 정보 (빈 항목을 기본값/추정값으로 채운 값)
+ */
+export interface ResolvedPhysiology {
+  weightKg: number;
+  age: number;
+  sex: BiologicalSex;
+  restingHeartRate: number | null;
+  maxHeartRate: number;
+  isMaxHeartRateEstimated: boolean;
+}
+
+export const EMPTY_PHYSIOLOGY_PROFILE: PhysiologyProfile = {
+  weightKg: null,
+  birthYear: null,
+  sex: null,
+  restingHeartRate: null,
+  maxHeartRate: null,
+};
+
+// 프로필이 비어 있을 때 기본값 (기존 계산식의 가정과 동일)
+export const DEFAULT_WEIGHT_KG = 70;
+export const DEFAULT_AGE = 30;
+export const DEFAULT_SEX: BiologicalSex = 'male';
+
+/**
+ * 입력 허용 범위
+ */
+export const PHYSIOLOGY_LIMITS = {
+  weightKg: { min: 25, max: 250 },
+  age: { min: 10, max: 100 },
+  restingHeartRate: { min: 30, max: 120 },
+  maxHeartRate: { min: 120, max: 230 },
+} as const;
+
+/**
+ * 나이로 최대 심박수 추정 (Tanaka 공식: 208 - 0.7 × 나이)
+ */
+export const estimateMaxHeartRate = (age: number): number => Math.round(208 - 0.7 * age);
+
+/**
+ * 출생 연도로 나이 계산 (해당 연도 기준 만 나이 근사)
+ */
+export const calculateAge = (birthYear: number, now: Date = new Date()): number =>
+  now.getFullYear() - birthYear;
+
+/**
+ * 계산용 신체 정보 생성
+ */
+export const resolvePhysiology = (
+  profile: PhysiologyProfile,
+  now: Date = new Date()
+): ResolvedPhysiology => {
+  const age = profile.birthYear !== null ? calculateAge(profile.birthYear, now) : DEFAULT_AGE;
+
+  return {
+    weightKg: profile.weightKg ?? DEFAULT_WEIGHT_KG,
+    age,
+    sex: profile.sex ?? DEFAULT_SEX,
+    restingHeartRate: profile.restingHeartRate,
+    maxHeartRate: profile.maxHeartRate ?? estimateMaxHeartRate(age),
+    isMaxHeartRateEstimated: profile.maxHeartRate === null,
+  };
+};
+
+/**
+ * 입력값 검증
+ * @returns 오류 메시지 (문제 없으면 null)
+ */
+export const validatePhysiologyProfile = (
+  profile: PhysiologyProfile,
+  now: Date = new Date()
+): string | null => {
+  const { weightKg, birthYear, restingHeartRate, maxHeartRate } = profile;
+
+  if (
+    weightKg !== null &&
+    (weightKg < PHYSIOLOGY_LIMITS.weightKg.min || weightKg > PHYSIOLOGY_LIMITS.weightKg.max)
+  ) {
+    return `체중은 ${PHYSIOLOGY_LIMITS.weightKg.min}~${PHYSIOLOGY_LIMITS.weightKg.max}kg 사이로 입력해주세요.`;
+  }
+
+  if (birthYear !== null) {
+    const age = calculateAge(birthYear, now);
+    if (age < PHYSIOLOGY_LIMITS.age.min || age > PHYSIOLOGY_LIMITS.age.max) {
+      return '출생 연도를 다시 확인해주세요.';
+    }
+  }
+
+  if (
+    restingHeartRate !== null &&
+    (restingHeartRate < PHYSIOLOGY_LIMITS.restingHeartRate.min ||
+      restingHeartRate > PHYSIOLOGY_LIMITS.restingHeartRate.max)
+  ) {
+    return `안정 시 심박수는 ${PHYSIOLOGY_LIMITS.restingHeartRate.min}~${PHYSIOLOGY_LIMITS.restingHeartRate.max}bpm 사이로 입력해주세요.`;
+  }
+
+  if (
+    maxHeartRate !== null &&
+    (maxHeartRate < PHYSIOLOGY_LIMITS.maxHeartRate.min ||
+      maxHeartRate > PHYSIOLOGY_LIMITS.maxHeartRate.max)
+  ) {
+    return `최대 심박수는 ${PHYSIOLOGY_LIMITS.maxHeartRate.min}~${PHYSIOLOGY_LIMITS.maxHeartRate.max}bpm 사이로 입력해주세요.`;
+  }
+
+  if (restingHeartRate !== null && maxHeartRate !== null && restingHeartRate >= maxHeartRate) {
+    return '안정 시 심박수는 최대 심박수보다 낮아야 합니다.';
+  }
+
+  return null;
+};
+
+/**
+ * 칼로리 계산에 영향을 주는 항목이 바뀌었는지 여부
+ */
+export const isCalorieInputChanged = (
+  previous: PhysiologyProfile,
+  next: PhysiologyProfile
+): boolean =>
+  previous.weightKg !== next.weightKg ||
+  previous.birthYear !== next.birthYear ||
+  previous.sex !== next.sex;
@@ -4,4 +4,5 @@
 export * from './User';
 export * from './UserAccount';
 export * from './UserDataDto';
-export * from './MenuDisplayable';
\ No newline at end of file
+export * from './MenuDisplayable';
+export * from './PhysiologyProfile';
@@ -4,11 +4,15 @@ import React, { useState } from 'react';
 import { Modal, ScrollView, StyleSheet, TouchableOpacity, View } from 'react-native';
 import { SafeAreaView } from "react-native-safe-area-context";
 import { useAuth } from '~/features/auth/hooks/useAuth';
+import { BadgeWall } from '~/features/badges/views/components/badge-wall';
 import { PointHistoryView } from '~/features/point/views';
+import { useShoeLifecycleStore } from '~/features/shoes/stores/shoeLifecycleStore';
 import { ShoesListView } from '~/features/shoes/views';
+import { useRunStreakViewModel } from '~/features/statistics/viewmodels';
+import { RunStreakSummary } from '~/features/statistics/views/components/RunStreakSummary';
 import { Text } from '~/shared/components/typography';
 import { Icon } from '~/shared/components/ui';
-import { GREY } from '~/shared/styles';
+import { GREY, RED } from '~/shared/styles';
 import type { User } from '../models';
 
 /**
@@ -22,6 +26,7 @@ export const MyInfoView: React.FC = () => {
   const router = useRouter();
   const [showPointModal, setShowPointModal] = useState(false);
   const [showShoesModal, setShowShoesModal] = useState(false);
+  const { streaks } = useRunStreakViewModel();
 
   console.log('👤 [MyInfoView] 내정보 화면 렌더링');
 
@@ -34,12 +39,18 @@ export const MyInfoView: React.FC = () => {
           totalPoint={totalPoint}
           onPointPress={() => setShowPointModal(true)}
         />
+
+        {/* 연속 기록 요약 */}
+        <RunStreakSummary streaks={streaks} />
         
         {/* 메인 메뉴 카드 */}
         <MainMenuCard
           onShoesPress={() => setShowShoesModal(true)}
           onAvatarPress={() => router.push('/user/avatar')}
         />
+
+        {/* 배지 벽 */}
+        <BadgeWall />
         
         {/* 메뉴 설정 카드 */}
         <MenuSettingsCard />
@@ -117,6 +128,9 @@ interface MainMenuCardProps {
 }
 
 const MainMenuCard: React.FC<MainMenuCardProps> = ({ onShoesPress, onAvatarPress }) => {
+  // 확인하지 않은 신발 마일리지 알림
+  const hasShoeAlert = useShoeLifecycleStore((state) => state.unseenAlerts.length > 0);
+
   return (
     <View style={[styles.mainMenuCard, styles.rowCentered]}>
       <TouchableOpacity
@@ -125,6 +139,7 @@ const MainMenuCard: React.FC<MainMenuCardProps> = ({ onShoesPress, onAvatarPress
       >
         <Icon name="pixel_shoes" size={24} />
         <Text style={styles.menuItemLabel}>내 신발</Text>
+        {hasShoeAlert && <View style={styles.menuItemBadge} testID="my-info-shoe-alert-badge" />}
       </TouchableOpacity>
 
       <TouchableOpacity
@@ -249,6 +264,12 @@ const styles = StyleSheet.create({
     color: GREY[800],
     textAlign: 'left',
   },
+  menuItemBadge: {
+    width: 6,
+    height: 6,
+    borderRadius: 3,
+    backgroundColor: RED[400],
+  },
   menuSettingsSection: {
     // width: '100%',
     padding: 16,
@@ -2,7 +2,7 @@ import { Ionicons } from '@expo/vector-icons';
 import { Image } from 'expo-image';
 import type { ImagePickerAsset } from 'expo-image-picker';
 import { useRouter } from 'expo-router';
-import React, { useState, useCallback } from 'react';
+import React, { useState, useCallback, useMemo } from 'react';
 import {
   ActivityIndicator,
   Alert,
@@ -16,14 +16,40 @@ import {
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { useAuth } from '~/features/auth/hooks/useAuth';
+import { calculateHeartRateZones } from '~/features/running/models/HeartRateZone';
+import { useRecalculatePastCalories } from '~/features/running/services/runningQueries';
+import { useHeartRateZoneStore } from '~/features/running/stores/heartRateZoneStore';
 import { Text } from '~/shared/components/typography';
 import { useMediaPicker } from '~/shared/hooks';
 import { GREY, PRIMARY } from '~/shared/styles';
+import { useUserStore } from '~/stores/user/userStore';
+import {
+  isCalorieInputChanged,
+  resolvePhysiology,
+  validatePhysiologyProfile,
+  type BiologicalSex,
+  type PhysiologyProfile,
+} from '../models/PhysiologyProfile';
 import { userService } from '../services/userService';
 
+const SEX_OPTIONS: { value: BiologicalSex; label: string }[] = [
+  { value: 'male', label: '남성' },
+  { value: 'female', label: '여성' },
+];
+
+const toInputText = (value: number | null) => (value !== null ? String(value) : '');
+
+/**
+ * 숫자 입력 파싱 (비어 있으면 null, 숫자가 아니면 NaN)
+ */
+const parseNumberInput = (text: string): number | null => {
+  const trimmed = text.trim();
+  return trimmed.length === 0 ? null : Number(trimmed);
+};
+
 /**
  * 프로필 편집 화면
- * 닉네임과 프로필 이미지 수정
+ * 닉네임과 프로필 이미지 수정, 신체 정보(칼로리/심박 구간 계산용) 입력
  */
 export const ProfileEditView: React.FC = () => {
   const router = useRouter();
@@ -33,6 +59,42 @@ export const ProfileEditView: React.FC = () => {
   const [selectedImage, setSelectedImage] = useState<ImagePickerAsset | null>(null);
   const [isLoading, setIsLoading] = useState(false);
 
+  // 신체 정보 (기기에만 저장)
+  const physiologyProfile = useUserStore((state) => state.physiologyProfile);
+  const heartRateZoneSettings = useHeartRateZoneStore((state) => state.settings);
+  const updatePhysiologyProfile = useUserStore((state) => state.updatePhysiologyProfile);
+  const { mutate: recalculatePastCalories } = useRecalculatePastCalories();
+  const [weightText, setWeightText] = useState(toInputText(physiologyProfile.weightKg));
+  const [birthYearText, setBirthYearText] = useState(toInputText(physiologyProfile.birthYear));
+  const [sex, setSex] = useState<BiologicalSex | null>(physiologyProfile.sex);
+  const [restingHeartRateText, setRestingHeartRateText] = useState(
+    toInputText(physiologyProfile.restingHeartRate)
+  );
+  const [maxHeartRateText, setMaxHeartRateText] = useState(
+    toInputText(physiologyProfile.maxHeartRate)
+  );
+
+  const editedPhysiology: PhysiologyProfile = useMemo(
+    () => ({
+      weightKg: parseNumberInput(weightText),
+      birthYear: parseNumberInput(birthYearText),
+      sex,
+      restingHeartRate: parseNumberInput(restingHeartRateText),
+      maxHeartRate: parseNumberInput(maxHeartRateText),
+    }),
+    [weightText, birthYearText, sex, restingHeartRateText, maxHeartRateText]
+  );
+  const physiologyChanged = (Object.keys(editedPhysiology) as (keyof PhysiologyProfile)[]).some(
+    (key) => editedPhysiology[key] !== physiologyProfile[key]
+  );
+
+  // 입력 중인 값 기준 심박 구간 미리보기 (입력이 올바를 때만)
+  const heartRateZones = useMemo(() => {
+    const hasInvalidNumber = Object.values(editedPhysiology).some((value) => Number.isNaN(value));
+    if (hasInvalidNumber || validatePhysiologyProfile(editedPhysiology) !== null) return null;
+    return calculateHeartRateZones(resolvePhysiology(editedPhysiology), heartRateZoneSettings);
+  }, [editedPhysiology, heartRateZoneSettings]);
+
   const currentProfileImage = currentUser?.profileImageURL;
 
   // 이미지 source 결정
@@ -81,7 +143,7 @@ export const ProfileEditView: React.FC = () => {
     const nicknameChanged = nickname.trim() !== currentUser?.nickname;
     const imageChanged = selectedImage !== null;
 
-    if (!nicknameChanged && !imageChanged) {
+    if (!nicknameChanged && !imageChanged && !physiologyChanged) {
       router.back();
       return;
     }
@@ -92,6 +154,34 @@ export const ProfileEditView: React.FC = () => {
       return;
     }
 
+    // 신체 정보 유효성 검사
+    if (physiologyChanged) {
+      const hasInvalidNumber = Object.values(editedPhysiology).some((value) =>
+        Number.isNaN(value)
+      );
+      const physiologyError = hasInvalidNumber
+        ? '신체 정보는 숫자로 입력해주세요.'
+        : validatePhysiologyProfile(editedPhysiology);
+      if (physiologyError) {
+        Alert.alert('알림', physiologyError);
+        return;
+      }
+
+      updatePhysiologyProfile(editedPhysiology);
+
+      // 체중/나이/성별이 바뀌면 지난 기록의 칼로리를 백그라운드에서 재계산
+      if (isCalorieInputChanged(physiologyProfile, editedPhysiology)) {
+        recalculatePastCalories(resolvePhysiology(editedPhysiology), {
+          onError: (error) => console.error('지난 기록 칼로리 재계산 실패:', error),
+        });
+      }
+
+      if (!nicknameChanged && !imageChanged) {
+        router.back();
+        return;
+      }
+    }
+
     setIsLoading(true);
     try {
       const updateParams: Parameters<typeof userService.updateProfile>[0] = {};
@@ -134,7 +224,7 @@ export const ProfileEditView: React.FC = () => {
     const nicknameChanged = nickname.trim() !== currentUser?.nickname;
     const imageChanged = selectedImage !== null;
 
-    if (nicknameChanged || imageChanged) {
+    if (nicknameChanged || imageChanged || physiologyChanged) {
       Alert.alert('변경 사항 취소', '수정된 내용이 저장되지 않습니다. 나가시겠습니까?', [
         { text: '계속 편집', style: 'cancel' },
         { text: '나가기', style: 'destructive', onPress: () => router.back() },
@@ -197,6 +287,116 @@ export const ProfileEditView: React.FC = () => {
             />
             <Text style={styles.charCount}>{nickname.length}/20</Text>
           </View>
+
+          {/* 신체 정보 */}
+          <View style={styles.inputSection}>
+            <Text style={styles.sectionTitle}>신체 정보</Text>
+            <Text style={styles.helperText}>
+              칼로리와 심박 구간 계산에 사용되며 이 기기에만 저장됩니다.
+            </Text>
+          </View>
+
+          <View style={styles.inputRow}>
+            <View style={styles.inputRowItem}>
+              <Text style={styles.inputLabel}>체중 (kg)</Text>
+              <TextInput
+                testID="profile-weight-input"
+                style={styles.textInput}
+                value={weightText}
+                onChangeText={setWeightText}
+                placeholder="70"
+                placeholderTextColor={GREY[400]}
+                keyboardType="decimal-pad"
+                editable={!isLoading}
+              />
+            </View>
+            <View style={styles.inputRowItem}>
+              <Text style={styles.inputLabel}>출생 연도</Text>
+              <TextInput
+                testID="profile-birth-year-input"
+                style={styles.textInput}
+                value={birthYearText}
+                onChangeText={setBirthYearText}
+                placeholder="1995"
+                placeholderTextColor={GREY[400]}
+                keyboardType="number-pad"
+                maxLength={4}
+                editable={!isLoading}
+              />
+            </View>
+          </View>
+
+          <View style={styles.inputSection}>
+            <Text style={styles.inputLabel}>성별</Text>
+            <View style={styles.chipRow}>
+              {SEX_OPTIONS.map((option) => {
+                const selected = sex === option.value;
+                return (
+                  <TouchableOpacity
+                    key={option.value}
+                    testID={`profile-sex-${option.value}`}
+                    style={[styles.chip, selected && styles.chipSelected]}
+                    onPress={() => setSex(selected ? null : option.value)}
+                    accessibilityState={{ selected }}
+                    disabled={isLoading}
+                  >
+                    <Text style={[styles.chipText, selected && styles.chipTextSelected]}>
+                      {option.label}
+                    </Text>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+          </View>
+
+          <View style={styles.inputRow}>
+            <View style={styles.inputRowItem}>
+              <Text style={styles.inputLabel}>안정 시 심박수</Text>
+              <TextInput
+                testID="profile-resting-heart-rate-input"
+                style={styles.textInput}
+                value={restingHeartRateText}
+                onChangeText={setRestingHeartRateText}
+                placeholder="bpm"
+                placeholderTextColor={GREY[400]}
+                keyboardType="number-pad"
+                maxLength={3}
+                editable={!isLoading}
+              />
+            </View>
+            <View style={styles.inputRowItem}>
+              <Text style={styles.inputLabel}>최대 심박수</Text>
+              <TextInput
+                testID="profile-max-heart-rate-input"
+                style={styles.textInput}
+                value={maxHeartRateText}
+                onChangeText={setMaxHeartRateText}
+                placeholder={
+                  heartRateZones ? `${resolvePhysiology(editedPhysiology).maxHeartRate} (추정)` : 'bpm'
+                }
+                placeholderTextColor={GREY[400]}
+                keyboardType="number-pad"
+                maxLength={3}
+                editable={!isLoading}
+              />
+            </View>
+          </View>
+
+          {heartRateZones ? (
+            <View style={styles.inputSection} testID="profile-heart-rate-zones">
+              <Text style={styles.inputLabel}>심박 구간</Text>
+              {heartRateZones.map((zone) => (
+                <View key={zone.zone} style={styles.zoneRow}>
+                  <Text style={styles.zoneLabel}>
+                    Z{zone.zone} {zone.label}
+                  </Text>
+                  <Text style={styles.zoneRange}>
+                    {zone.minBpm}–{zone.maxBpm} bpm
+                  </Text>
+                </View>
+              ))}
+            </View>
+          ) : null}
         </ScrollView>
       </KeyboardAvoidingView>
     </SafeAreaView>
@@ -297,4 +497,67 @@ const styles = StyleSheet.create({
     textAlign: 'right',
     marginTop: 4,
   },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    fontFamily: 'Pretendard',
+    color: GREY[900],
+    marginBottom: 4,
+  },
+  helperText: {
+    fontSize: 12,
+    fontFamily: 'Pretendard',
+    color: GREY[500],
+  },
+  inputRow: {
+    width: '100%',
+    flexDirection: 'row',
+    gap: 12,
+    marginBottom: 24,
+  },
+  inputRowItem: {
+    flex: 1,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  chip: {
+    height: 40,
+    paddingHorizontal: 20,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: GREY[200],
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  chipSelected: {
+    borderColor: PRIMARY[500],
+    backgroundColor: PRIMARY[50],
+  },
+  chipText: {
+    fontSize: 14,
+    fontWeight: '500',
+    fontFamily: 'Pretendard',
+    color: GREY[600],
+  },
+  chipTextSelected: {
+    color: PRIMARY[900],
+    fontWeight: '600',
+  },
+  zoneRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    paddingVertical: 4,
+  },
+  zoneLabel: {
+    fontSize: 14,
+    fontFamily: 'Pretendard',
+    color: GREY[700],
+  },
+  zoneRange: {
+    fontSize: 14,
+    fontFamily: 'Pretendard',
+    color: GREY[900],
+  },
 });
@@ -1,24 +1,34 @@
 import { Ionicons } from '@expo/vector-icons';
 import { useRouter } from 'expo-router';
 import React, { useState } from 'react';
-import { Alert, Modal, StyleSheet, TouchableOpacity, View } from 'react-native';
+import { ActivityIndicator, Alert, Modal, StyleSheet, TouchableOpacity, View } from 'react-native';
 import { TopScreenSafeAreaView } from '~/shared/components';
 import { useAuth } from '~/features/auth/hooks/useAuth';
+import { useWorkoutFileImport } from '~/features/healthImport/hooks/useWorkoutFileImport';
 import { Text } from '~/shared/components/typography';
-import { GREY, RED } from '~/shared/styles';
+import { GREY, PRIMARY, RED } from '~/shared/styles';
+import { DistanceUnit, useUserStore } from '~/stores/user/userStore';
 import { userService } from '../services/userService';
 
+const DISTANCE_UNIT_OPTIONS = [
+  { unit: DistanceUnit.KILOMETER, label: 'km' },
+  { unit: DistanceUnit.MILE, label: 'mi' },
+] as const;
+
 /**
  * 설정 화면
- * 고객센터, 권한 설정, 로그아웃, 회원 탈퇴
+ * 고객센터, 권한 설정, 거리 단위, 음성 코칭, 러닝 기록 가져오기, 로그아웃, 회원 탈퇴
  */
 export const SettingsView: React.FC = () => {
   const router = useRouter();
   const { logout } = useAuth();
+  const { isImporting, importFromFiles } = useWorkoutFileImport();
   const [showLogoutAlert, setShowLogoutAlert] = useState(false);
   const [showWithdrawAlert, setShowWithdrawAlert] = useState(false);
   const [isLoggingOut, setIsLoggingOut] = useState(false);
   const [isWithdrawing, setIsWithdrawing] = useState(false);
+  const distanceUnit = useUserStore((state) => state.userPreferences.distanceUnit);
+  const updateUserPreferences = useUserStore((state) => state.updateUserPreferences);
 
   /**
    * 고객센터 이동 핸들러
@@ -31,6 +41,24 @@ export const SettingsView: React.FC = () => {
     router.push('/user/permission-settings');
   };
 
+  const handleDistanceUnitChange = (unit: DistanceUnit) => {
+    if (unit !== distanceUnit) {
+      updateUserPreferences({ distanceUnit: unit });
+    }
+  };
+
+  const handleVoiceCoaching = () => {
+    router.push('/user/voice-coaching');
+  };
+
+  const handleHeartRateSensor = () => {
+    router.push('/user/heart-rate-sensor');
+  };
+
+  const handleHeartRateZones = () => {
+    router.push('/user/heart-rate-zones');
+  };
+
   /**
    * 로그아웃 핸들러
    */
@@ -128,6 +156,74 @@ export const SettingsView: React.FC = () => {
             <Ionicons name="chevron-forward" size={20} color={GREY[300]} />
           </TouchableOpacity>
 
+          <View style={[styles.menuItem, styles.menuItemBorder]}>
+            <Text style={styles.menuItemText}>거리 단위</Text>
+            <View style={styles.unitChipRow}>
+              {DISTANCE_UNIT_OPTIONS.map(({ unit, label }) => {
+                const isSelected = unit === distanceUnit;
+                return (
+                  <TouchableOpacity
+                    key={unit}
+                    style={[styles.unitChip, isSelected && styles.unitChipSelected]}
+                    onPress={() => handleDistanceUnitChange(unit)}
+                    activeOpacity={0.7}
+                    accessibilityState={{ selected: isSelected }}
+                    testID={`settings-distance-unit-${unit}`}
+                  >
+                    <Text style={[styles.unitChipText, isSelected && styles.unitChipTextSelected]}>
+                      {label}
+                    </Text>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+          </View>
+
+          <TouchableOpacity
+            style={[styles.menuItem, styles.menuItemBorder]}
+            onPress={handleVoiceCoaching}
+            activeOpacity={0.7}
+            testID="settings-voice-coaching-menu"
+          >
+            <Text style={styles.menuItemText}>음성 코칭</Text>
+            <Ionicons name="chevron-forward" size={20} color={GREY[300]} />
+          </TouchableOpacity>
+
+          <TouchableOpacity
+            style={[styles.menuItem, styles.menuItemBorder]}
+            onPress={handleHeartRateSensor}
+            activeOpacity={0.7}
+            testID="settings-heart-rate-sensor-menu"
+          >
+            <Text style={styles.menuItemText}>심박계 연결</Text>
+            <Ionicons name="chevron-forward" size={20} color={GREY[300]} />
+          </TouchableOpacity>
+
+          <TouchableOpacity
+            style={[styles.menuItem, styles.menuItemBorder]}
+            onPress={handleHeartRateZones}
+            activeOpacity={0.7}
+            testID="settings-heart-rate-zones-menu"
+          >
+            <Text style={styles.menuItemText}>심박 구간</Text>
+            <Ionicons name="chevron-forward" size={20} color={GREY[300]} />
+          </TouchableOpacity>
+
+          <TouchableOpacity
+            style={[styles.menuItem, styles.menuItemBorder]}
+            onPress={() => void importFromFiles()}
+            disabled={isImporting}
+            activeOpacity={0.7}
+            testID="settings-workout-file-import-menu"
+          >
+            <Text style={styles.menuItemText}>러닝 기록 가져오기 (GPX/TCX/FIT)</Text>
+            {isImporting ? (
+              <ActivityIndicator size="small" color={GREY[300]} />
+            ) : (
+              <Ionicons name="chevron-forward" size={20} color={GREY[300]} />
+            )}
+          </TouchableOpacity>
+
           <TouchableOpacity
             style={[styles.menuItem, styles.menuItemBorder]}
             onPress={() => setShowLogoutAlert(true)}
@@ -272,6 +368,32 @@ const styles = StyleSheet.create({
     fontFamily: 'Pretendard',
     color: GREY[900],
   },
+  unitChipRow: {
+    flexDirection: 'row',
+    gap: 6,
+  },
+  unitChip: {
+    paddingHorizontal: 12,
+    paddingVertical: 4,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: GREY[200],
+    backgroundColor: GREY.WHITE,
+  },
+  unitChipSelected: {
+    borderColor: PRIMARY[600],
+    backgroundColor: PRIMARY[50],
+  },
+  unitChipText: {
+    fontSize: 13,
+    fontWeight: '500',
+    fontFamily: 'Pretendard',
+    color: GREY[700],
+  },
+  unitChipTextSelected: {
+    color: PRIMARY[900],
+    fontWeight: '600',
+  },
   dangerText: {
     color: RED[400],
   },
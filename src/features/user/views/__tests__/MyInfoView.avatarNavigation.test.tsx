@@ -22,6 +22,16 @@ jest.mock('~/features/shoes/views', () => ({
   ShoesListView: () => null,
 }));
 
+jest.mock('~/features/statistics/viewmodels', () => ({
+  useRunStreakViewModel: () => ({
+    streaks: { daily: { current: 0, best: 0 }, weekly: { current: 0, best: 0 } },
+  }),
+}));
+
+jest.mock('~/features/badges/views/components/badge-wall', () => ({
+  BadgeWall: () => null,
+}));
+
 jest.mock('~/shared/components/ui', () => ({
   Icon: () => null,
 }));
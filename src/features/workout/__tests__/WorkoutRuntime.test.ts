@@ -0,0 +1,210 @@
+import {
+  calculateWorkoutIntervalResults,
+  expandWorkoutPlan,
+  formatWorkoutPaceInput,
+  formatWorkoutStepAnnouncement,
+  parseWorkoutDuration,
+  parseWorkoutPaceInput,
+  validateWorkoutPlan,
+  type WorkoutPlan,
+} from '~/features/workout/models';
+import {
+  advanceWorkoutRuntime,
+  createWorkoutRuntime,
+  finishWorkoutRuntime,
+  getWorkoutProgress,
+  isWorkoutComplete,
+} from '~/features/workout/services/WorkoutRuntime';
+import { useWorkoutStore } from '~/features/workout/stores/workoutStore';
+import { DistanceUnit } from '~/stores/user/userStore';
+
+const createPlan = (overrides?: Partial<WorkoutPlan>): WorkoutPlan => ({
+  id: 'plan-1',
+  name: '400m 인터벌',
+  warmup: { target: { type: 'time', seconds: 60 }, targetPaceSecondsPerKm: null },
+  repeats: 3,
+  work: { target: { type: 'distance', meters: 400 }, targetPaceSecondsPerKm: 240 },
+  recovery: { target: { type: 'time', seconds: 90 }, targetPaceSecondsPerKm: null },
+  cooldown: { target: { type: 'distance', meters: 500 }, targetPaceSecondsPerKm: null },
+  createdAt: 0,
+  updatedAt: 0,
+  ...overrides,
+});
+
+describe('WorkoutPlan', () => {
+  it('expands warm-up, repeats with recoveries in between and cool-down', () => {
+    const steps = expandWorkoutPlan(createPlan());
+
+    expect(steps.map((step) => [step.kind, step.repeatIndex])).toEqual([
+      ['warmup', null],
+      ['work', 1],
+      ['recovery', 1],
+      ['work', 2],
+      ['recovery', 2],
+      ['work', 3],
+      ['cooldown', null],
+    ]);
+    expect(steps.map((step) => step.index)).toEqual([0, 1, 2, 3, 4, 5, 6]);
+    expect(formatWorkoutStepAnnouncement(steps[3]!, DistanceUnit.KILOMETER)).toBe(
+      '인터벌 2/3 시작. 400m, 목표 페이스 4:00/km'
+    );
+    expect(formatWorkoutStepAnnouncement(steps[3]!, DistanceUnit.MILE)).toBe(
+      '인터벌 2/3 시작. 0.25mi, 목표 페이스 6:26/mi'
+    );
+  });
+
+  it('reads and writes target pace inputs in the user distance unit', () => {
+    expect(formatWorkoutPaceInput(240, DistanceUnit.MILE)).toBe('6:26');
+    expect(parseWorkoutPaceInput('8:00', DistanceUnit.MILE)).toBeCloseTo(298.26, 2);
+    expect(parseWorkoutPaceInput('4:00', DistanceUnit.KILOMETER)).toBe(240);
+    expect(parseWorkoutPaceInput('4분', DistanceUnit.KILOMETER)).toBeNull();
+  });
+
+  it('rejects empty names, repeat counts out of range and malformed targets', () => {
+    const plan = createPlan();
+    const validation = validateWorkoutPlan({
+      ...plan,
+      name: '  ',
+      repeats: 0,
+      work: { target: { type: 'distance', meters: NaN }, targetPaceSecondsPerKm: NaN },
+    });
+
+    expect(validation.isValid).toBe(false);
+    expect(validation.errors).toEqual([
+      '워크아웃 이름을 입력해주세요.',
+      '반복 횟수는 1~50회로 입력해주세요.',
+      '인터벌 거리를 입력해주세요.',
+      '인터벌 목표 페이스가 올바르지 않습니다.',
+    ]);
+    expect(validateWorkoutPlan(plan)).toEqual({ isValid: true, errors: [] });
+  });
+
+  it('parses m:ss durations', () => {
+    expect(parseWorkoutDuration('4:05')).toBe(245);
+    expect(parseWorkoutDuration(' 10:00 ')).toBe(600);
+    expect(parseWorkoutDuration('4:5')).toBeNull();
+    expect(parseWorkoutDuration('abc')).toBeNull();
+  });
+});
+
+describe('WorkoutRuntime', () => {
+  it('advances time and distance steps at the interpolated boundary', () => {
+    let state = createWorkoutRuntime(createPlan(), { distance: 0, elapsedSec: 0 });
+
+    let result = advanceWorkoutRuntime(state, { distance: 150, elapsedSec: 50 });
+    expect(result.changes).toEqual([]);
+    state = result.state;
+
+    // 60초 워밍업 경계는 50~70초 사이에서 보간
+    result = advanceWorkoutRuntime(state, { distance: 210, elapsedSec: 70 });
+    expect(result.changes).toHaveLength(1);
+    expect(result.changes[0]!.finished).toMatchObject({
+      kind: 'warmup',
+      startDistance: 0,
+      endDistance: 180,
+      endElapsedSec: 60,
+      completed: true,
+    });
+    expect(result.changes[0]!.next).toMatchObject({ kind: 'work', repeatIndex: 1 });
+    state = result.state;
+
+    const progress = getWorkoutProgress(state, { distance: 280, elapsedSec: 80 }, 200);
+    expect(progress).toMatchObject({
+      stepDistance: 100,
+      stepElapsedSec: 20,
+      ratio: 0.25,
+      remaining: 300,
+      paceStatus: 'fast',
+    });
+  });
+
+  it('passes several steps at once when samples arrive after a long gap', () => {
+    const state = createWorkoutRuntime(createPlan(), { distance: 0, elapsedSec: 0 });
+
+    // 워밍업(60초) → 인터벌 1(400m) → 회복 1(90초)을 한 번에 통과
+    const { state: next, changes } = advanceWorkoutRuntime(state, {
+      distance: 1000,
+      elapsedSec: 300,
+    });
+
+    expect(changes.map(({ finished }) => finished.kind)).toEqual(['warmup', 'work', 'recovery']);
+    expect(changes[1]!.finished).toMatchObject({ startDistance: 200, endDistance: 600 });
+    expect(next.currentIndex).toBe(3);
+    expect(getWorkoutProgress(next, { distance: 1000, elapsedSec: 300 })?.step).toMatchObject({
+      kind: 'work',
+      repeatIndex: 2,
+    });
+  });
+
+  it('completes the plan and keeps the remaining run out of the boundaries', () => {
+    let state = createWorkoutRuntime(
+      createPlan({ warmup: null, recovery: null, cooldown: null, repeats: 2 }),
+      { distance: 0, elapsedSec: 0 }
+    );
+
+    const result = advanceWorkoutRuntime(state, { distance: 900, elapsedSec: 240 });
+    state = result.state;
+
+    expect(result.changes.map(({ next }) => next?.kind ?? null)).toEqual(['work', null]);
+    expect(isWorkoutComplete(state)).toBe(true);
+    expect(getWorkoutProgress(state, { distance: 900, elapsedSec: 240 })).toBeNull();
+
+    const record = finishWorkoutRuntime(state, { distance: 1200, elapsedSec: 320 }, 7);
+    expect(record.steps).toHaveLength(2);
+    expect(record.steps.every((step) => step.completed)).toBe(true);
+  });
+
+  it('closes the running step as incomplete when the run ends early', () => {
+    const state = createWorkoutRuntime(createPlan(), { distance: 0, elapsedSec: 0 });
+    const record = finishWorkoutRuntime(state, { distance: 400, elapsedSec: 100 }, 42);
+
+    expect(record).toMatchObject({ recordId: 42, planId: 'plan-1', planName: '400m 인터벌' });
+    expect(record.steps.map(({ kind, completed }) => [kind, completed])).toEqual([
+      ['warmup', true],
+      ['work', false],
+    ]);
+
+    const [warmup, work] = calculateWorkoutIntervalResults(record);
+    expect(warmup).toMatchObject({ distance: 240, durationSec: 60, paceSecondsPerKm: 250 });
+    expect(work).toMatchObject({
+      distance: 160,
+      durationSec: 40,
+      paceSecondsPerKm: 250,
+      paceDeltaSeconds: 10,
+      completed: false,
+    });
+  });
+});
+
+describe('workoutStore', () => {
+  beforeEach(() => {
+    useWorkoutStore.getState().reset();
+  });
+
+  it('clears the selection when the selected plan is deleted', () => {
+    const store = useWorkoutStore.getState();
+    store.savePlan(createPlan());
+    store.selectPlan('plan-1');
+    store.savePlan(createPlan({ name: '수정된 인터벌' }));
+
+    expect(useWorkoutStore.getState().plans).toEqual([createPlan({ name: '수정된 인터벌' })]);
+
+    useWorkoutStore.getState().deletePlan('plan-1');
+    expect(useWorkoutStore.getState().selectedPlanId).toBeNull();
+  });
+
+  it('moves a provisional run record to the synced server id', () => {
+    const record = finishWorkoutRuntime(
+      createWorkoutRuntime(createPlan(), { distance: 0, elapsedSec: 0 }),
+      { distance: 300, elapsedSec: 80 },
+      -1700000000000
+    );
+    useWorkoutStore.getState().saveRunRecord(record);
+
+    useWorkoutStore.getState().remapRunRecordId(-1700000000000, 55);
+
+    const { runRecords } = useWorkoutStore.getState();
+    expect(runRecords[-1700000000000]).toBeUndefined();
+    expect(runRecords[55]).toEqual({ ...record, recordId: 55 });
+  });
+});
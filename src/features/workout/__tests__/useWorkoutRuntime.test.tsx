@@ -0,0 +1,106 @@
+import { act, renderHook } from '@testing-library/react-native';
+import {
+  useWorkoutRuntime,
+  type UseWorkoutRuntimeProps,
+} from '~/features/workout/hooks/useWorkoutRuntime';
+import type { WorkoutPlan } from '~/features/workout/models';
+import { useWorkoutStore } from '~/features/workout/stores/workoutStore';
+import { RunningState } from '~/stores/app/appStore';
+import { resetAllStores } from '~/test-utils/resetState';
+
+const mockAnnounce = jest.fn();
+
+jest.mock('~/features/workout/services/workoutAnnouncer', () => ({
+  workoutAnnouncer: {
+    announce: (message: string) => mockAnnounce(message),
+  },
+}));
+
+const plan: WorkoutPlan = {
+  id: 'plan-1',
+  name: '200m × 2',
+  warmup: null,
+  repeats: 2,
+  work: { target: { type: 'distance', meters: 200 }, targetPaceSecondsPerKm: 240 },
+  recovery: { target: { type: 'time', seconds: 60 }, targetPaceSecondsPerKm: null },
+  cooldown: null,
+  createdAt: 0,
+  updatedAt: 0,
+};
+
+const createProps = (overrides?: Partial<UseWorkoutRuntimeProps>): UseWorkoutRuntimeProps => ({
+  runningState: RunningState.Running,
+  recordId: 101,
+  distance: 0,
+  elapsedTime: 0,
+  instantPaceSeconds: 0,
+  ...overrides,
+});
+
+describe('useWorkoutRuntime', () => {
+  beforeEach(() => {
+    resetAllStores();
+  });
+
+  it('stays idle for free runs', () => {
+    const { result } = renderHook(() => useWorkoutRuntime(createProps()));
+
+    expect(result.current).toEqual({
+      workoutPlanName: null,
+      workoutProgress: null,
+      workoutAnnouncement: null,
+    });
+    expect(mockAnnounce).not.toHaveBeenCalled();
+  });
+
+  it('announces step changes and stores the boundaries when the run finishes', () => {
+    useWorkoutStore.getState().savePlan(plan);
+    useWorkoutStore.getState().selectPlan(plan.id);
+
+    const { result, rerender } = renderHook(
+      (props: UseWorkoutRuntimeProps) => useWorkoutRuntime(props),
+      { initialProps: createProps() }
+    );
+
+    expect(result.current.workoutPlanName).toBe('200m × 2');
+    expect(mockAnnounce).toHaveBeenLastCalledWith('인터벌 1/2 시작. 200m, 목표 페이스 4:00/km');
+
+    act(() => {
+      rerender(createProps({ distance: 240, elapsedTime: 60, instantPaceSeconds: 230 }));
+    });
+
+    expect(mockAnnounce).toHaveBeenLastCalledWith('회복 1/2 시작. 1:00 동안');
+    expect(result.current.workoutAnnouncement).toBe('회복 1/2 시작. 1:00 동안');
+    expect(result.current.workoutProgress).toMatchObject({
+      step: { kind: 'recovery' },
+      remaining: 50,
+    });
+
+    act(() => {
+      rerender(createProps({ runningState: RunningState.Finished, distance: 300, elapsedTime: 80 }));
+    });
+
+    expect(result.current.workoutProgress).toBeNull();
+    const record = useWorkoutStore.getState().runRecords[101];
+    expect(record?.steps.map(({ kind, completed }) => [kind, completed])).toEqual([
+      ['work', true],
+      ['recovery', false],
+    ]);
+  });
+
+  it('does not store runs that are too short to be saved', () => {
+    useWorkoutStore.getState().savePlan(plan);
+    useWorkoutStore.getState().selectPlan(plan.id);
+
+    const { rerender } = renderHook(
+      (props: UseWorkoutRuntimeProps) => useWorkoutRuntime(props),
+      { initialProps: createProps() }
+    );
+
+    act(() => {
+      rerender(createProps({ runningState: RunningState.Finished, distance: 5, elapsedTime: 3 }));
+    });
+
+    expect(useWorkoutStore.getState().runRecords).toEqual({});
+  });
+});
@@ -0,0 +1,134 @@
+/**
+ * useWorkoutRuntime Hook
+ *
+ * 러닝 상태와 누적 거리/시간을 받아 선택된 워크아웃 계획을 실행
+ *
+ * 책임:
+ * - Running 진입 시 선택된 계획으로 런타임 생성
+ * - 1초 tick마다 단계 진행 판정 및 전환 안내
+ * - 단계마다 음성 코칭의 목표 페이스를 단계 목표로 교체
+ * - Finished 전환 시 단계 경계를 러닝 기록 ID와 함께 저장
+ */
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { voiceCoachingService } from '~/features/coaching/services/VoiceCoachingService';
+import { RunningState } from '~/stores/app/appStore';
+import { useUserStore } from '~/stores/user/userStore';
+import {
+  WORKOUT_COMPLETE_ANNOUNCEMENT,
+  formatWorkoutStepAnnouncement,
+} from '../models';
+import {
+  advanceWorkoutRuntime,
+  createWorkoutRuntime,
+  finishWorkoutRuntime,
+  getWorkoutProgress,
+  type WorkoutProgress,
+  type WorkoutRuntimeState,
+} from '../services/WorkoutRuntime';
+import { workoutAnnouncer } from '../services/workoutAnnouncer';
+import { selectSelectedWorkoutPlan, useWorkoutStore } from '../stores/workoutStore';
+
+// 서버에 저장되지 않는 짧은 러닝(useRunningLifecycle 기준)은 실행 기록도 남기지 않는다.
+const MIN_RECORDED_DISTANCE_METERS = 10;
+
+// 안내 문구는 사용자 거리 단위로 (1초 tick에서 읽으므로 구독하지 않음)
+const getDistanceUnit = () => useUserStore.getState().userPreferences.distanceUnit;
+
+export interface UseWorkoutRuntimeProps {
+  runningState: RunningState;
+  recordId: number | null;
+  distance: number;
+  elapsedTime: number;
+  /** 순간 페이스 (초/km, 측정 전이면 0) */
+  instantPaceSeconds: number;
+}
+
+export interface UseWorkoutRuntimeReturn {
+  workoutPlanName: string | null;
+  workoutProgress: WorkoutProgress | null;
+  /** 마지막 단계 전환 안내 문구 */
+  workoutAnnouncement: string | null;
+}
+
+export const useWorkoutRuntime = ({
+  runningState,
+  recordId,
+  distance,
+  elapsedTime,
+  instantPaceSeconds,
+}: UseWorkoutRuntimeProps): UseWorkoutRuntimeReturn => {
+  const runtimeRef = useRef<WorkoutRuntimeState | null>(null);
+  const [workoutPlanName, setWorkoutPlanName] = useState<string | null>(null);
+  const [workoutProgress, setWorkoutProgress] = useState<WorkoutProgress | null>(null);
+  const [workoutAnnouncement, setWorkoutAnnouncement] = useState<string | null>(null);
+
+  const liveInputsRef = useRef({ distance, instantPaceSeconds });
+
+  useEffect(() => {
+    liveInputsRef.current = { distance, instantPaceSeconds };
+  }, [distance, instantPaceSeconds]);
+
+  const announce = useCallback((message: string) => {
+    setWorkoutAnnouncement(message);
+    void workoutAnnouncer.announce(message);
+  }, []);
+
+  // 1초 tick(elapsedTime)과 상태 전환에만 반응, 거리/페이스는 최신 값을 ref로 읽음
+  useEffect(() => {
+    const { distance: currentDistance, instantPaceSeconds: currentPaceSeconds } =
+      liveInputsRef.current;
+    const sample = { distance: currentDistance, elapsedSec: elapsedTime };
+
+    if (runningState === RunningState.Running) {
+      if (!runtimeRef.current) {
+        const plan = selectSelectedWorkoutPlan(useWorkoutStore.getState());
+        if (!plan || recordId === null) return;
+
+        runtimeRef.current = createWorkoutRuntime(plan, sample);
+        setWorkoutPlanName(plan.name);
+        const firstStep = runtimeRef.current.steps[0];
+        if (firstStep) {
+          announce(formatWorkoutStepAnnouncement(firstStep, getDistanceUnit()));
+          void voiceCoachingService.setTargetPace(firstStep.targetPaceSecondsPerKm);
+        }
+      }
+
+      const { state, changes } = advanceWorkoutRuntime(runtimeRef.current, sample);
+      runtimeRef.current = state;
+
+      const lastChange = changes[changes.length - 1];
+      if (lastChange?.next) {
+        announce(formatWorkoutStepAnnouncement(lastChange.next, getDistanceUnit()));
+        void voiceCoachingService.setTargetPace(lastChange.next.targetPaceSecondsPerKm);
+      } else if (lastChange) {
+        announce(WORKOUT_COMPLETE_ANNOUNCEMENT);
+        void voiceCoachingService.resetTargetPace();
+      }
+
+      setWorkoutProgress(getWorkoutProgress(state, sample, currentPaceSeconds));
+      return;
+    }
+
+    if (runningState === RunningState.Finished && runtimeRef.current) {
+      if (recordId !== null && currentDistance >= MIN_RECORDED_DISTANCE_METERS) {
+        // 서버에 워크아웃 결과를 받는 API가 없어 이 기기에만 저장 (재로그인/다른 기기에서는 보이지 않음)
+        useWorkoutStore
+          .getState()
+          .saveRunRecord(finishWorkoutRuntime(runtimeRef.current, sample, recordId));
+      }
+      runtimeRef.current = null;
+      setWorkoutProgress(null);
+      return;
+    }
+
+    if (runningState === RunningState.Stopped) {
+      runtimeRef.current = null;
+      setWorkoutPlanName(null);
+      setWorkoutProgress(null);
+      setWorkoutAnnouncement(null);
+    }
+  }, [runningState, elapsedTime, recordId, announce]);
+
+  return { workoutPlanName, workoutProgress, workoutAnnouncement };
+};
@@ -0,0 +1,219 @@
+/**
+ * 인터벌 / 구조화 워크아웃 계획
+ * 워밍업 → N × (인터벌 → 회복) → 쿨다운
+ */
+
+import {
+  convertDistance,
+  convertPace,
+  convertPaceToPerKm,
+  getDistanceUnitLabel,
+  getPaceUnitLabel,
+  METERS_PER_KILOMETER,
+} from '~/shared/utils/unitFormatters';
+import { DistanceUnit } from '~/stores/user/userStore';
+
+export type WorkoutStepKind = 'warmup' | 'work' | 'recovery' | 'cooldown';
+
+/**
+ * 단계 종료 조건 (거리 m 또는 시간 초)
+ */
+export type WorkoutStepTarget =
+  | { type: 'distance'; meters: number }
+  | { type: 'time'; seconds: number };
+
+export interface WorkoutStepTemplate {
+  target: WorkoutStepTarget;
+  /** 목표 페이스 (초/km), 없으면 null */
+  targetPaceSecondsPerKm: number | null;
+}
+
+export interface WorkoutPlan {
+  id: string;
+  name: string;
+  warmup: WorkoutStepTemplate | null;
+  repeats: number;
+  work: WorkoutStepTemplate;
+  recovery: WorkoutStepTemplate | null;
+  cooldown: WorkoutStepTemplate | null;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export type WorkoutPlanInput = Omit<WorkoutPlan, 'id' | 'createdAt' | 'updatedAt'>;
+
+/**
+ * 실행 순서대로 펼친 단계
+ */
+export interface WorkoutStep extends WorkoutStepTemplate {
+  index: number;
+  kind: WorkoutStepKind;
+  /** 인터벌/회복 단계의 회차 (1부터), 워밍업/쿨다운은 null */
+  repeatIndex: number | null;
+  repeatCount: number;
+}
+
+export const MAX_WORKOUT_REPEATS = 50;
+
+const STEP_KIND_LABELS: Record<WorkoutStepKind, string> = {
+  warmup: '워밍업',
+  work: '인터벌',
+  recovery: '회복',
+  cooldown: '쿨다운',
+};
+
+/**
+ * 계획을 실행 순서의 단계 목록으로 펼침
+ * 마지막 인터벌 뒤의 회복은 쿨다운과 겹치므로 생략
+ */
+export const expandWorkoutPlan = (plan: WorkoutPlan): WorkoutStep[] => {
+  const templates: { kind: WorkoutStepKind; template: WorkoutStepTemplate; repeatIndex: number | null }[] = [];
+
+  if (plan.warmup) {
+    templates.push({ kind: 'warmup', template: plan.warmup, repeatIndex: null });
+  }
+
+  for (let repeat = 1; repeat <= plan.repeats; repeat++) {
+    templates.push({ kind: 'work', template: plan.work, repeatIndex: repeat });
+    if (plan.recovery && repeat < plan.repeats) {
+      templates.push({ kind: 'recovery', template: plan.recovery, repeatIndex: repeat });
+    }
+  }
+
+  if (plan.cooldown) {
+    templates.push({ kind: 'cooldown', template: plan.cooldown, repeatIndex: null });
+  }
+
+  return templates.map(({ kind, template, repeatIndex }, index) => ({
+    index,
+    kind,
+    repeatIndex,
+    repeatCount: plan.repeats,
+    target: { ...template.target },
+    targetPaceSecondsPerKm: template.targetPaceSecondsPerKm,
+  }));
+};
+
+const isPositiveFinite = (value: number): boolean => Number.isFinite(value) && value > 0;
+
+const validateStepTemplate = (label: string, template: WorkoutStepTemplate, errors: string[]) => {
+  const value = template.target.type === 'distance' ? template.target.meters : template.target.seconds;
+  if (!isPositiveFinite(value)) {
+    errors.push(`${label} ${template.target.type === 'distance' ? '거리' : '시간'}를 입력해주세요.`);
+  }
+
+  if (template.targetPaceSecondsPerKm !== null && !isPositiveFinite(template.targetPaceSecondsPerKm)) {
+    errors.push(`${label} 목표 페이스가 올바르지 않습니다.`);
+  }
+};
+
+/**
+ * 워크아웃 계획 유효성 검사
+ */
+export const validateWorkoutPlan = (plan: WorkoutPlanInput): {
+  isValid: boolean;
+  errors: string[];
+} => {
+  const errors: string[] = [];
+
+  if (plan.name.trim().length === 0) {
+    errors.push('워크아웃 이름을 입력해주세요.');
+  }
+
+  if (!Number.isInteger(plan.repeats) || plan.repeats < 1 || plan.repeats > MAX_WORKOUT_REPEATS) {
+    errors.push(`반복 횟수는 1~${MAX_WORKOUT_REPEATS}회로 입력해주세요.`);
+  }
+
+  if (plan.warmup) validateStepTemplate(STEP_KIND_LABELS.warmup, plan.warmup, errors);
+  validateStepTemplate(STEP_KIND_LABELS.work, plan.work, errors);
+  if (plan.recovery) validateStepTemplate(STEP_KIND_LABELS.recovery, plan.recovery, errors);
+  if (plan.cooldown) validateStepTemplate(STEP_KIND_LABELS.cooldown, plan.cooldown, errors);
+
+  return {
+    isValid: errors.length === 0,
+    errors,
+  };
+};
+
+/**
+ * 새 워크아웃 계획 생성
+ */
+export const createWorkoutPlan = (input: WorkoutPlanInput, nowMs: number = Date.now()): WorkoutPlan => ({
+  ...input,
+  id: `workout-${nowMs}-${Math.random().toString(36).slice(2, 8)}`,
+  name: input.name.trim(),
+  createdAt: nowMs,
+  updatedAt: nowMs,
+});
+
+/**
+ * 워크아웃 포맷팅 헬퍼 함수들
+ */
+
+/** 단계 이름 (예: "인터벌 2/5") */
+export const formatWorkoutStepLabel = (step: Pick<WorkoutStep, 'kind' | 'repeatIndex' | 'repeatCount'>): string => {
+  const label = STEP_KIND_LABELS[step.kind];
+  return step.repeatIndex !== null ? `${label} ${step.repeatIndex}/${step.repeatCount}` : label;
+};
+
+/** 초 → "m:ss" */
+export const formatWorkoutDuration = (seconds: number): string => {
+  const rounded = Math.max(0, Math.round(seconds));
+  return `${Math.floor(rounded / 60)}:${String(rounded % 60).padStart(2, '0')}`;
+};
+
+/** m → "400m" / "1.5km" / "0.25mi" (마일은 1마일 미만도 마일로 표시) */
+export const formatWorkoutDistance = (meters: number, unit: DistanceUnit): string =>
+  unit === DistanceUnit.KILOMETER && meters < METERS_PER_KILOMETER
+    ? `${Math.round(meters)}m`
+    : `${Number(convertDistance(meters, unit).toFixed(2))}${getDistanceUnitLabel(unit)}`;
+
+/** 종료 조건 (예: "400m", "2:00") */
+export const formatWorkoutTarget = (target: WorkoutStepTarget, unit: DistanceUnit): string =>
+  target.type === 'distance'
+    ? formatWorkoutDistance(target.meters, unit)
+    : formatWorkoutDuration(target.seconds);
+
+/** 초/km → "4:30/km" / "7:15/mi" */
+export const formatWorkoutPace = (secondsPerKm: number, unit: DistanceUnit): string =>
+  `${formatWorkoutDuration(convertPace(secondsPerKm, unit))}${getPaceUnitLabel(unit)}`;
+
+/**
+ * "m:ss" 입력을 초로 변환 (형식이 틀리면 null)
+ */
+export const parseWorkoutDuration = (text: string): number | null => {
+  const match = /^(\d{1,3}):([0-5]\d)$/.exec(text.trim());
+  if (!match) return null;
+  return Number(match[1]) * 60 + Number(match[2]);
+};
+
+/**
+ * 초/km → 표시 단위 기준 "m:ss" (페이스 입력 필드용)
+ */
+export const formatWorkoutPaceInput = (secondsPerKm: number, unit: DistanceUnit): string =>
+  formatWorkoutDuration(convertPace(secondsPerKm, unit));
+
+/**
+ * 표시 단위 기준 "m:ss" 페이스 입력을 초/km로 변환 (형식이 틀리면 null)
+ */
+export const parseWorkoutPaceInput = (text: string, unit: DistanceUnit): number | null => {
+  const secondsPerUnit = parseWorkoutDuration(text);
+  return secondsPerUnit === null ? null : convertPaceToPerKm(secondsPerUnit, unit);
+};
+
+/**
+ * 단계 시작 안내 문구 (예: "인터벌 2/5 시작. 400m, 목표 페이스 4:00/km")
+ */
+export const formatWorkoutStepAnnouncement = (step: WorkoutStep, unit: DistanceUnit): string => {
+  const target =
+    step.target.type === 'distance'
+      ? formatWorkoutDistance(step.target.meters, unit)
+      : `${formatWorkoutDuration(step.target.seconds)} 동안`;
+  const pace =
+    step.targetPaceSecondsPerKm !== null
+      ? `, 목표 페이스 ${formatWorkoutPace(step.targetPaceSecondsPerKm, unit)}`
+      : '';
+  return `${formatWorkoutStepLabel(step)} 시작. ${target}${pace}`;
+};
+
+export const WORKOUT_COMPLETE_ANNOUNCEMENT = '워크아웃 완료. 수고하셨어요!';
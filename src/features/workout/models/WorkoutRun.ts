@@ -0,0 +1,78 @@
+import type { WorkoutStepKind, WorkoutStepTarget } from './WorkoutPlan';
+
+/**
+ * 러닝 중 실제로 실행된 단계 경계
+ * - 누적 거리(m)/경과 시간(초) 기준으로 단계 시작/종료 지점을 기록
+ * - completed: 목표(거리/시간)를 채우고 다음 단계로 넘어갔는지 (러닝 종료로 끊긴 단계는 false)
+ */
+export interface WorkoutStepBoundary {
+  stepIndex: number;
+  kind: WorkoutStepKind;
+  repeatIndex: number | null;
+  repeatCount: number;
+  target: WorkoutStepTarget;
+  targetPaceSecondsPerKm: number | null;
+  startDistance: number;
+  endDistance: number;
+  startElapsedSec: number;
+  endElapsedSec: number;
+  completed: boolean;
+}
+
+/**
+ * 완료된 러닝에 연결된 워크아웃 실행 기록
+ */
+export interface WorkoutRunRecord {
+  recordId: number;
+  planId: string;
+  planName: string;
+  steps: WorkoutStepBoundary[];
+}
+
+/**
+ * 상세 화면의 인터벌별 결과
+ */
+export interface WorkoutIntervalResult {
+  stepIndex: number;
+  kind: WorkoutStepKind;
+  repeatIndex: number | null;
+  repeatCount: number;
+  distance: number; // 미터
+  durationSec: number; // 초
+  /** 실제 페이스 (초/km), 거리가 없으면 null */
+  paceSecondsPerKm: number | null;
+  targetPaceSecondsPerKm: number | null;
+  /** 목표 대비 차이 (초/km, 양수면 목표보다 느림) */
+  paceDeltaSeconds: number | null;
+  completed: boolean;
+}
+
+// 이보다 짧은 단계는 페이스 노이즈가 커서 표시하지 않는다.
+const MIN_PACE_DISTANCE_METERS = 10;
+
+/**
+ * 단계 경계 → 인터벌별 결과
+ */
+export const calculateWorkoutIntervalResults = (record: WorkoutRunRecord): WorkoutIntervalResult[] =>
+  record.steps.map((step) => {
+    const distance = Math.max(0, step.endDistance - step.startDistance);
+    const durationSec = Math.max(0, step.endElapsedSec - step.startElapsedSec);
+    const paceSecondsPerKm =
+      distance >= MIN_PACE_DISTANCE_METERS && durationSec > 0 ? durationSec / (distance / 1000) : null;
+
+    return {
+      stepIndex: step.stepIndex,
+      kind: step.kind,
+      repeatIndex: step.repeatIndex,
+      repeatCount: step.repeatCount,
+      distance,
+      durationSec,
+      paceSecondsPerKm,
+      targetPaceSecondsPerKm: step.targetPaceSecondsPerKm,
+      paceDeltaSeconds:
+        paceSecondsPerKm !== null && step.targetPaceSecondsPerKm !== null
+          ? paceSecondsPerKm - step.targetPaceSecondsPerKm
+          : null,
+      completed: step.completed,
+    };
+  });
@@ -0,0 +1,5 @@
+/**
+ * Workout Models 통합 Export
+ */
+export * from './WorkoutPlan';
+export * from './WorkoutRun';
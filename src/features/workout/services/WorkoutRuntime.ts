@@ -0,0 +1,225 @@
+import {
+  expandWorkoutPlan,
+  type WorkoutPlan,
+  type WorkoutStep,
+  type WorkoutStepBoundary,
+  type WorkoutRunRecord,
+} from '../models';
+
+/**
+ * 워크아웃 런타임 (순수 함수)
+ * - useRunningStats의 누적 거리/경과 시간 샘플을 받아 현재 단계의 목표 달성 여부를 판정
+ * - 단계 경계는 직전 샘플과 현재 샘플 사이를 선형 보간해 목표 지점에 정확히 맞춤
+ *   (백그라운드 복귀 등으로 샘플 간격이 길어지면 한 번에 여러 단계를 넘길 수 있음)
+ */
+
+export interface WorkoutRuntimeSample {
+  distance: number; // 누적 거리 (미터)
+  elapsedSec: number; // 누적 경과 시간 (초)
+}
+
+export interface WorkoutRuntimeState {
+  planId: string;
+  planName: string;
+  steps: WorkoutStep[];
+  /** 진행 중인 단계 인덱스 (모든 단계를 마치면 steps.length) */
+  currentIndex: number;
+  stepStart: WorkoutRuntimeSample;
+  lastSample: WorkoutRuntimeSample;
+  boundaries: WorkoutStepBoundary[];
+}
+
+export interface WorkoutStepChange {
+  finished: WorkoutStepBoundary;
+  /** 새로 시작한 단계, 워크아웃이 끝났으면 null */
+  next: WorkoutStep | null;
+}
+
+export type WorkoutPaceStatus = 'fast' | 'onTarget' | 'slow';
+
+export interface WorkoutProgress {
+  step: WorkoutStep;
+  stepCount: number;
+  nextStep: WorkoutStep | null;
+  stepDistance: number;
+  stepElapsedSec: number;
+  /** 목표 대비 진행률 (0~1) */
+  ratio: number;
+  /** 남은 거리(m) 또는 시간(초), 목표 타입을 따름 */
+  remaining: number;
+  /** 목표 페이스가 있고 순간 페이스가 측정된 경우에만 값이 있음 */
+  paceStatus: WorkoutPaceStatus | null;
+}
+
+// 목표 페이스 ± 이 범위(초/km)는 목표 달성으로 본다.
+const PACE_TOLERANCE_SECONDS = 10;
+
+export const createWorkoutRuntime = (
+  plan: WorkoutPlan,
+  sample: WorkoutRuntimeSample
+): WorkoutRuntimeState => ({
+  planId: plan.id,
+  planName: plan.name,
+  steps: expandWorkoutPlan(plan),
+  currentIndex: 0,
+  stepStart: sample,
+  lastSample: sample,
+  boundaries: [],
+});
+
+export const isWorkoutComplete = (state: WorkoutRuntimeState): boolean =>
+  state.currentIndex >= state.steps.length;
+
+/**
+ * 현재 단계의 목표 지점을 lastSample~sample 사이에서 찾음 (아직 도달 전이면 null)
+ */
+const findStepEnd = (
+  step: WorkoutStep,
+  stepStart: WorkoutRuntimeSample,
+  lastSample: WorkoutRuntimeSample,
+  sample: WorkoutRuntimeSample
+): WorkoutRuntimeSample | null => {
+  if (step.target.type === 'distance') {
+    const targetDistance = stepStart.distance + step.target.meters;
+    if (sample.distance < targetDistance) return null;
+
+    const span = sample.distance - lastSample.distance;
+    const ratio = span > 0 ? Math.min(1, Math.max(0, (targetDistance - lastSample.distance) / span)) : 1;
+    return {
+      distance: targetDistance,
+      elapsedSec: lastSample.elapsedSec + (sample.elapsedSec - lastSample.elapsedSec) * ratio,
+    };
+  }
+
+  const targetElapsedSec = stepStart.elapsedSec + step.target.seconds;
+  if (sample.elapsedSec < targetElapsedSec) return null;
+
+  const span = sample.elapsedSec - lastSample.elapsedSec;
+  const ratio = span > 0 ? Math.min(1, Math.max(0, (targetElapsedSec - lastSample.elapsedSec) / span)) : 1;
+  return {
+    distance: lastSample.distance + (sample.distance - lastSample.distance) * ratio,
+    elapsedSec: targetElapsedSec,
+  };
+};
+
+const toBoundary = (
+  step: WorkoutStep,
+  start: WorkoutRuntimeSample,
+  end: WorkoutRuntimeSample,
+  completed: boolean
+): WorkoutStepBoundary => ({
+  stepIndex: step.index,
+  kind: step.kind,
+  repeatIndex: step.repeatIndex,
+  repeatCount: step.repeatCount,
+  target: step.target,
+  targetPaceSecondsPerKm: step.targetPaceSecondsPerKm,
+  startDistance: start.distance,
+  endDistance: end.distance,
+  startElapsedSec: start.elapsedSec,
+  endElapsedSec: end.elapsedSec,
+  completed,
+});
+
+/**
+ * 새 샘플로 런타임 진행
+ * 목표를 채운 단계마다 change를 하나씩 돌려줌
+ */
+export const advanceWorkoutRuntime = (
+  state: WorkoutRuntimeState,
+  sample: WorkoutRuntimeSample
+): { state: WorkoutRuntimeState; changes: WorkoutStepChange[] } => {
+  if (isWorkoutComplete(state)) {
+    return { state: { ...state, lastSample: sample }, changes: [] };
+  }
+
+  const changes: WorkoutStepChange[] = [];
+  const boundaries = [...state.boundaries];
+  let { currentIndex, stepStart, lastSample } = state;
+
+  for (let step = state.steps[currentIndex]; step; step = state.steps[currentIndex]) {
+    const end = findStepEnd(step, stepStart, lastSample, sample);
+    if (!end) break;
+
+    const finished = toBoundary(step, stepStart, end, true);
+    boundaries.push(finished);
+    currentIndex += 1;
+    stepStart = end;
+    lastSample = end;
+    changes.push({ finished, next: state.steps[currentIndex] ?? null });
+  }
+
+  return {
+    state: { ...state, currentIndex, stepStart, lastSample: sample, boundaries },
+    changes,
+  };
+};
+
+/**
+ * 러닝 종료 시 진행 중이던 단계를 미완료로 닫고 실행 기록 생성
+ */
+export const finishWorkoutRuntime = (
+  state: WorkoutRuntimeState,
+  sample: WorkoutRuntimeSample,
+  recordId: number
+): WorkoutRunRecord => {
+  const { state: advanced } = advanceWorkoutRuntime(state, sample);
+  const current = advanced.steps[advanced.currentIndex];
+  const hasProgress =
+    sample.distance > advanced.stepStart.distance || sample.elapsedSec > advanced.stepStart.elapsedSec;
+
+  return {
+    recordId,
+    planId: advanced.planId,
+    planName: advanced.planName,
+    steps:
+      current && hasProgress
+        ? [...advanced.boundaries, toBoundary(current, advanced.stepStart, sample, false)]
+        : advanced.boundaries,
+  };
+};
+
+/**
+ * 순간 페이스(초/km)를 목표 페이스와 비교
+ */
+const evaluatePaceStatus = (
+  targetPaceSecondsPerKm: number | null,
+  instantPaceSeconds: number | undefined
+): WorkoutPaceStatus | null => {
+  if (targetPaceSecondsPerKm === null || !instantPaceSeconds || instantPaceSeconds <= 0) {
+    return null;
+  }
+  if (instantPaceSeconds < targetPaceSecondsPerKm - PACE_TOLERANCE_SECONDS) return 'fast';
+  if (instantPaceSeconds > targetPaceSecondsPerKm + PACE_TOLERANCE_SECONDS) return 'slow';
+  return 'onTarget';
+};
+
+/**
+ * 현재 단계 진행 상황 (워크아웃이 끝났으면 null)
+ */
+export const getWorkoutProgress = (
+  state: WorkoutRuntimeState,
+  sample: WorkoutRuntimeSample,
+  instantPaceSeconds?: number
+): WorkoutProgress | null => {
+  const step = state.steps[state.currentIndex];
+  if (!step) return null;
+
+  const stepDistance = Math.max(0, sample.distance - state.stepStart.distance);
+  const stepElapsedSec = Math.max(0, sample.elapsedSec - state.stepStart.elapsedSec);
+  const [done, goal] =
+    step.target.type === 'distance'
+      ? [stepDistance, step.target.meters]
+      : [stepElapsedSec, step.target.seconds];
+
+  return {
+    step,
+    stepCount: state.steps.length,
+    nextStep: state.steps[state.currentIndex + 1] ?? null,
+    stepDistance,
+    stepElapsedSec,
+    ratio: goal > 0 ? Math.min(1, done / goal) : 1,
+    remaining: Math.max(0, goal - done),
+    paceStatus: evaluatePaceStatus(step.targetPaceSecondsPerKm, instantPaceSeconds),
+  };
+};
@@ -0,0 +1,22 @@
+import * as Haptics from 'expo-haptics';
+import { AccessibilityInfo } from 'react-native';
+import { voiceCoachingService } from '~/features/coaching/services/VoiceCoachingService';
+
+/**
+ * 워크아웃 단계 전환 안내
+ * - 진동으로 화면을 보지 않아도 전환을 알 수 있게 하고
+ * - 스크린 리더가 켜져 있으면 안내 문구를 읽어 줌
+ * - 음성 코칭이 켜져 있으면 TTS로도 읽어 줌
+ */
+export const workoutAnnouncer = {
+  async announce(message: string): Promise<void> {
+    try {
+      await Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+    } catch (error) {
+      console.warn('[WorkoutAnnouncer] Haptics 실패:', error);
+    }
+
+    AccessibilityInfo.announceForAccessibility(message);
+    await voiceCoachingService.speak(message);
+  },
+};
@@ -0,0 +1,96 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { create } from 'zustand';
+import { createJSONStorage, persist } from 'zustand/middleware';
+import { offlineSyncService } from '~/features/running/services/OfflineSyncService';
+import type { WorkoutPlan, WorkoutRunRecord } from '../models';
+
+/**
+ * Workout Store (Zustand)
+ * - 워크아웃 계획과 러닝별 실행 기록을 기기에 저장
+ * - runRecords는 러닝 기록 ID를 key로 사용 (오프라인 기록의 임시 ID는 동기화 후 remap)
+ * - runRecords는 서버로 보내지 않으므로 재로그인하거나 다른 기기에서는 인터벌 기록이 보이지 않음
+ */
+interface WorkoutState {
+  plans: WorkoutPlan[];
+  /** 다음 러닝에 사용할 계획 ID, null이면 자유 달리기 */
+  selectedPlanId: string | null;
+  runRecords: Record<number, WorkoutRunRecord>;
+
+  // Actions
+  savePlan: (plan: WorkoutPlan) => void;
+  deletePlan: (planId: string) => void;
+  selectPlan: (planId: string | null) => void;
+  saveRunRecord: (record: WorkoutRunRecord) => void;
+  remapRunRecordId: (fromRecordId: number, toRecordId: number) => void;
+  reset: () => void;
+}
+
+const initialState = {
+  plans: [] as WorkoutPlan[],
+  selectedPlanId: null as string | null,
+  runRecords: {} as Record<number, WorkoutRunRecord>,
+};
+
+export const useWorkoutStore = create<WorkoutState>()(
+  persist(
+    (set) => ({
+      ...initialState,
+
+      savePlan: (plan) =>
+        set((state) => {
+          const exists = state.plans.some(({ id }) => id === plan.id);
+          return {
+            plans: exists
+              ? state.plans.map((existing) => (existing.id === plan.id ? plan : existing))
+              : [...state.plans, plan],
+          };
+        }),
+
+      deletePlan: (planId) =>
+        set((state) => ({
+          plans: state.plans.filter(({ id }) => id !== planId),
+          selectedPlanId: state.selectedPlanId === planId ? null : state.selectedPlanId,
+        })),
+
+      selectPlan: (planId) => set({ selectedPlanId: planId }),
+
+      saveRunRecord: (record) =>
+        set((state) => ({
+          runRecords: { ...state.runRecords, [record.recordId]: record },
+        })),
+
+      remapRunRecordId: (fromRecordId, toRecordId) =>
+        set((state) => {
+          const record = state.runRecords[fromRecordId];
+          if (!record) return state;
+
+          const { [fromRecordId]: _removed, ...rest } = state.runRecords;
+          return {
+            runRecords: { ...rest, [toRecordId]: { ...record, recordId: toRecordId } },
+          };
+        }),
+
+      reset: () => set(initialState),
+    }),
+    {
+      name: 'workout-storage', // AsyncStorage key
+      storage: createJSONStorage(() => AsyncStorage),
+      partialize: (state) => ({
+        plans: state.plans,
+        selectedPlanId: state.selectedPlanId,
+        runRecords: state.runRecords,
+      }),
+    }
+  )
+);
+
+// 오프라인으로 시작한 러닝이 서버 기록으로 생성되면 실행 기록도 서버 ID로 이동
+offlineSyncService.onProvisionalRecordReconciled((fromId, toId) => {
+  useWorkoutStore.getState().remapRunRecordId(fromId, toId);
+});
+
+/**
+ * 선택된 워크아웃 계획 (없거나 삭제되었으면 null)
+ */
+export const selectSelectedWorkoutPlan = (state: WorkoutState): WorkoutPlan | null =>
+  state.plans.find(({ id }) => id === state.selectedPlanId) ?? null;
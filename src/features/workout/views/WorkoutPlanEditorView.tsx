@@ -0,0 +1,436 @@
+import { Ionicons } from '@expo/vector-icons';
+import { router } from 'expo-router';
+import React, { useState } from 'react';
+import {
+  KeyboardAvoidingView,
+  Platform,
+  ScrollView,
+  StyleSheet,
+  Switch,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+import { TopScreenSafeAreaView } from '~/shared/components';
+import { Text } from '~/shared/components/typography';
+import { useDistanceUnit } from '~/shared/hooks';
+import { GREY, PRIMARY, RED } from '~/shared/styles';
+import type { DistanceUnit } from '~/stores/user/userStore';
+import {
+  createWorkoutPlan,
+  formatWorkoutDuration,
+  formatWorkoutPaceInput,
+  parseWorkoutDuration,
+  parseWorkoutPaceInput,
+  validateWorkoutPlan,
+  type WorkoutPlan,
+  type WorkoutPlanInput,
+  type WorkoutStepTemplate,
+} from '../models';
+import { useWorkoutStore } from '../stores/workoutStore';
+
+/**
+ * 단계 입력 폼 상태
+ * - 거리는 m 정수, 시간과 목표 페이스는 "m:ss" 문자열로 입력 (목표 페이스는 사용자 거리 단위 기준)
+ */
+interface StepFormState {
+  enabled: boolean;
+  type: 'distance' | 'time';
+  value: string;
+  pace: string;
+}
+
+const toStepForm = (
+  template: WorkoutStepTemplate | null,
+  fallback: StepFormState,
+  unit: DistanceUnit
+): StepFormState => {
+  if (!template) {
+    return { ...fallback, enabled: false };
+  }
+
+  return {
+    enabled: true,
+    type: template.target.type,
+    value:
+      template.target.type === 'distance'
+        ? String(template.target.meters)
+        : formatWorkoutDuration(template.target.seconds),
+    pace:
+      template.targetPaceSecondsPerKm !== null
+        ? formatWorkoutPaceInput(template.targetPaceSecondsPerKm, unit)
+        : '',
+  };
+};
+
+const toStepTemplate = (form: StepFormState, unit: DistanceUnit): WorkoutStepTemplate => {
+  // 형식이 틀린 입력은 NaN으로 넘겨 validateWorkoutPlan에서 안내
+  const value =
+    form.type === 'distance' ? Number(form.value) : parseWorkoutDuration(form.value) ?? NaN;
+  const pace = form.pace.trim().length > 0 ? parseWorkoutPaceInput(form.pace, unit) ?? NaN : null;
+
+  return {
+    target: form.type === 'distance' ? { type: 'distance', meters: value } : { type: 'time', seconds: value },
+    targetPaceSecondsPerKm: pace,
+  };
+};
+
+const DEFAULT_FORMS = {
+  warmup: { enabled: true, type: 'time', value: '10:00', pace: '' },
+  work: { enabled: true, type: 'distance', value: '400', pace: '4:00' },
+  recovery: { enabled: true, type: 'time', value: '1:30', pace: '' },
+  cooldown: { enabled: true, type: 'time', value: '10:00', pace: '' },
+} satisfies Record<string, StepFormState>;
+
+interface WorkoutPlanEditorViewProps {
+  /** 수정할 계획 ID, 없으면 새 계획 */
+  planId?: string;
+}
+
+/**
+ * 워크아웃 계획 편집 화면
+ * 워밍업 → N × (인터벌 → 회복) → 쿨다운
+ */
+export const WorkoutPlanEditorView: React.FC<WorkoutPlanEditorViewProps> = ({ planId }) => {
+  const existingPlan = useWorkoutStore(
+    (state) => state.plans.find(({ id }) => id === planId) ?? null
+  );
+  const savePlan = useWorkoutStore((state) => state.savePlan);
+  const { unit } = useDistanceUnit();
+
+  const [name, setName] = useState(existingPlan?.name ?? '');
+  const [repeats, setRepeats] = useState(String(existingPlan?.repeats ?? 5));
+  const [warmup, setWarmup] = useState(() =>
+    toStepForm(existingPlan?.warmup ?? null, DEFAULT_FORMS.warmup, unit)
+  );
+  const [work, setWork] = useState(() => toStepForm(existingPlan?.work ?? null, DEFAULT_FORMS.work, unit));
+  const [recovery, setRecovery] = useState(() =>
+    toStepForm(existingPlan?.recovery ?? null, DEFAULT_FORMS.recovery, unit)
+  );
+  const [cooldown, setCooldown] = useState(() =>
+    toStepForm(existingPlan?.cooldown ?? null, DEFAULT_FORMS.cooldown, unit)
+  );
+  const [errors, setErrors] = useState<string[]>([]);
+
+  const handleSubmit = () => {
+    const input: WorkoutPlanInput = {
+      name,
+      repeats: Number(repeats),
+      warmup: warmup.enabled ? toStepTemplate(warmup, unit) : null,
+      work: toStepTemplate(work, unit),
+      recovery: recovery.enabled ? toStepTemplate(recovery, unit) : null,
+      cooldown: cooldown.enabled ? toStepTemplate(cooldown, unit) : null,
+    };
+
+    const validation = validateWorkoutPlan(input);
+    if (!validation.isValid) {
+      setErrors(validation.errors);
+      return;
+    }
+
+    const plan: WorkoutPlan = existingPlan
+      ? { ...existingPlan, ...input, name: input.name.trim(), updatedAt: Date.now() }
+      : createWorkoutPlan(input);
+    savePlan(plan);
+    console.log('✅ [WorkoutPlanEditorView] 워크아웃 저장:', plan.name);
+    router.back();
+  };
+
+  return (
+    <TopScreenSafeAreaView style={styles.container}>
+      <KeyboardAvoidingView
+        behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+        style={styles.keyboardAvoid}
+      >
+        {/* 헤더 */}
+        <View style={styles.header}>
+          <TouchableOpacity onPress={() => router.back()} style={styles.backButton}>
+            <Ionicons name="chevron-back" size={24} color={GREY[900]} />
+          </TouchableOpacity>
+          <Text style={styles.headerTitle}>{existingPlan ? '워크아웃 수정' : '워크아웃 만들기'}</Text>
+          <View style={styles.headerRight} />
+        </View>
+
+        <ScrollView contentContainerStyle={styles.content} keyboardShouldPersistTaps="handled">
+          <View style={styles.inputContainer}>
+            <Text style={styles.inputLabel}>이름</Text>
+            <TextInput
+              testID="workout-name-input"
+              style={styles.input}
+              placeholder="예: 400m 인터벌"
+              placeholderTextColor={GREY[300]}
+              value={name}
+              onChangeText={setName}
+            />
+          </View>
+
+          <StepSection stepKey="warmup" title="워밍업" form={warmup} onChange={setWarmup} optional />
+
+          <View style={styles.inputContainer}>
+            <Text style={styles.inputLabel}>반복 횟수</Text>
+            <TextInput
+              testID="workout-repeats-input"
+              style={styles.input}
+              value={repeats}
+              onChangeText={setRepeats}
+              keyboardType="numeric"
+            />
+          </View>
+
+          <StepSection stepKey="work" title="인터벌" form={work} onChange={setWork} />
+          <StepSection stepKey="recovery" title="회복" form={recovery} onChange={setRecovery} optional />
+          <StepSection stepKey="cooldown" title="쿨다운" form={cooldown} onChange={setCooldown} optional />
+
+          {/* Error Messages */}
+          {errors.length > 0 && (
+            <View style={styles.errorContainer}>
+              {errors.map((error, index) => (
+                <Text key={index} style={styles.errorText}>{error}</Text>
+              ))}
+            </View>
+          )}
+
+          <TouchableOpacity
+            testID="workout-save-button"
+            style={styles.submitButton}
+            onPress={handleSubmit}
+            activeOpacity={0.7}
+          >
+            <Text style={styles.submitButtonText}>워크아웃 저장하기</Text>
+          </TouchableOpacity>
+        </ScrollView>
+      </KeyboardAvoidingView>
+    </TopScreenSafeAreaView>
+  );
+};
+
+// StepSection Component
+interface StepSectionProps {
+  stepKey: keyof typeof DEFAULT_FORMS;
+  title: string;
+  form: StepFormState;
+  onChange: (form: StepFormState) => void;
+  optional?: boolean;
+}
+
+const StepSection: React.FC<StepSectionProps> = ({ stepKey, title, form, onChange, optional = false }) => {
+  const { paceLabel } = useDistanceUnit();
+
+  const handleTypeChange = (type: StepFormState['type']) => {
+    if (type === form.type) return;
+    onChange({ ...form, type, value: type === 'distance' ? '400' : '1:00' });
+  };
+
+  return (
+    <View style={styles.section}>
+      <View style={styles.sectionHeader}>
+        <Text style={styles.sectionTitle}>{title}</Text>
+        {optional ? (
+          <Switch
+            testID={`workout-${stepKey}-switch`}
+            value={form.enabled}
+            onValueChange={(enabled) => onChange({ ...form, enabled })}
+            trackColor={{ false: GREY[200], true: PRIMARY[600] }}
+          />
+        ) : null}
+      </View>
+
+      {form.enabled ? (
+        <>
+          <View style={styles.segmentRow}>
+            {(['distance', 'time'] as const).map((type) => (
+              <TouchableOpacity
+                key={type}
+                style={[styles.segment, form.type === type && styles.segmentSelected]}
+                onPress={() => handleTypeChange(type)}
+              >
+                <Text style={[styles.segmentText, form.type === type && styles.segmentTextSelected]}>
+                  {type === 'distance' ? '거리' : '시간'}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+          <View style={styles.fieldRow}>
+            <View style={styles.field}>
+              <Text style={styles.inputLabel}>{form.type === 'distance' ? '거리 (m)' : '시간 (분:초)'}</Text>
+              <TextInput
+                testID={`workout-${stepKey}-value-input`}
+                style={styles.input}
+                value={form.value}
+                onChangeText={(value) => onChange({ ...form, value })}
+                keyboardType={form.type === 'distance' ? 'numeric' : 'numbers-and-punctuation'}
+              />
+            </View>
+            <View style={styles.field}>
+              <Text style={styles.inputLabel}>목표 페이스 (분:초{paceLabel})</Text>
+              <TextInput
+                testID={`workout-${stepKey}-pace-input`}
+                style={styles.input}
+                placeholder="자유"
+                placeholderTextColor={GREY[300]}
+                value={form.pace}
+                onChangeText={(pace) => onChange({ ...form, pace })}
+                keyboardType="numbers-and-punctuation"
+              />
+            </View>
+          </View>
+        </>
+      ) : null}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: GREY[50],
+  },
+  keyboardAvoid: {
+    flex: 1,
+  },
+
+  // ===== 헤더 =====
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingVertical: 16,
+    height: 56,
+    backgroundColor: GREY[50],
+  },
+  backButton: {
+    width: 24,
+    height: 24,
+    justifyContent: 'center',
+    alignItems: 'flex-start',
+  },
+  headerTitle: {
+    fontSize: 16,
+    fontWeight: '500',
+    color: GREY[900],
+    fontFamily: 'Pretendard',
+    lineHeight: 24,
+  },
+  headerRight: {
+    width: 24,
+    height: 24,
+  },
+
+  // ===== 메인 컨텐츠 =====
+  content: {
+    paddingHorizontal: 20,
+    paddingTop: 12,
+    paddingBottom: 40,
+  },
+
+  // ===== 단계 섹션 =====
+  section: {
+    marginBottom: 12,
+    padding: 14,
+    borderRadius: 8,
+    backgroundColor: GREY.WHITE,
+    gap: 10,
+  },
+  sectionHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  sectionTitle: {
+    fontSize: 14,
+    fontWeight: '700',
+    color: GREY[900],
+    fontFamily: 'Pretendard',
+    lineHeight: 20,
+  },
+  segmentRow: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  segment: {
+    flex: 1,
+    height: 32,
+    borderRadius: 6,
+    borderWidth: 1,
+    borderColor: GREY[200],
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  segmentSelected: {
+    borderColor: PRIMARY[600],
+    backgroundColor: PRIMARY[50],
+  },
+  segmentText: {
+    fontSize: 13,
+    fontWeight: '500',
+    color: GREY[600],
+  },
+  segmentTextSelected: {
+    color: PRIMARY[900],
+    fontWeight: '700',
+  },
+  fieldRow: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  field: {
+    flex: 1,
+  },
+
+  // ===== 입력 필드 =====
+  inputContainer: {
+    marginBottom: 12,
+  },
+  inputLabel: {
+    fontSize: 12,
+    fontWeight: '500',
+    color: GREY[900],
+    fontFamily: 'Pretendard',
+    lineHeight: 16,
+    marginBottom: 4,
+  },
+  input: {
+    height: 48,
+    backgroundColor: GREY.WHITE,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: GREY[200],
+    paddingHorizontal: 16,
+    fontSize: 14,
+    fontWeight: '400',
+    color: GREY[900],
+    fontFamily: 'Pretendard',
+    lineHeight: 20,
+  },
+
+  // ===== 에러 =====
+  errorContainer: {
+    gap: 4,
+    marginTop: 4,
+  },
+  errorText: {
+    fontSize: 12,
+    fontWeight: '400',
+    color: RED[400],
+    fontFamily: 'Pretendard',
+    lineHeight: 16,
+  },
+
+  // ===== 저장 버튼 =====
+  submitButton: {
+    height: 56,
+    backgroundColor: PRIMARY[600],
+    borderRadius: 8,
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginTop: 12,
+  },
+  submitButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: GREY.WHITE,
+    fontFamily: 'Pretendard',
+    lineHeight: 24,
+  },
+});
@@ -0,0 +1,232 @@
+import { Ionicons } from '@expo/vector-icons';
+import { router } from 'expo-router';
+import React from 'react';
+import { Alert, ScrollView, StyleSheet, TouchableOpacity, View } from 'react-native';
+import { TopScreenSafeAreaView } from '~/shared/components';
+import { Text } from '~/shared/components/typography';
+import { useDistanceUnit } from '~/shared/hooks';
+import { GREY, PRIMARY, RED } from '~/shared/styles';
+import type { DistanceUnit } from '~/stores/user/userStore';
+import {
+  formatWorkoutPace,
+  formatWorkoutTarget,
+  type WorkoutPlan,
+  type WorkoutStepTemplate,
+} from '../models';
+import { useWorkoutStore } from '../stores/workoutStore';
+
+const formatTemplate = (template: WorkoutStepTemplate, unit: DistanceUnit): string =>
+  template.targetPaceSecondsPerKm !== null
+    ? `${formatWorkoutTarget(template.target, unit)} @ ${formatWorkoutPace(template.targetPaceSecondsPerKm, unit)}`
+    : formatWorkoutTarget(template.target, unit);
+
+/**
+ * 계획 요약 (예: "워밍업 10:00 · 5 × 400m @ 4:00/km · 회복 1:30 · 쿨다운 10:00")
+ */
+const formatPlanSummary = (plan: WorkoutPlan, unit: DistanceUnit): string =>
+  [
+    plan.warmup ? `워밍업 ${formatTemplate(plan.warmup, unit)}` : null,
+    `${plan.repeats} × ${formatTemplate(plan.work, unit)}`,
+    plan.recovery ? `회복 ${formatTemplate(plan.recovery, unit)}` : null,
+    plan.cooldown ? `쿨다운 ${formatTemplate(plan.cooldown, unit)}` : null,
+  ]
+    .filter((part): part is string => part !== null)
+    .join(' · ');
+
+/**
+ * 워크아웃 계획 목록 화면
+ * 다음 러닝에 사용할 계획 선택 (또는 자유 달리기) / 수정 / 삭제
+ */
+export const WorkoutPlanListView: React.FC = () => {
+  const plans = useWorkoutStore((state) => state.plans);
+  const selectedPlanId = useWorkoutStore((state) => state.selectedPlanId);
+  const selectPlan = useWorkoutStore((state) => state.selectPlan);
+  const deletePlan = useWorkoutStore((state) => state.deletePlan);
+  const { unit } = useDistanceUnit();
+
+  const handleSelect = (planId: string | null) => {
+    selectPlan(planId);
+    router.back();
+  };
+
+  const handleDelete = (plan: WorkoutPlan) => {
+    Alert.alert('워크아웃 삭제', `'${plan.name}'을(를) 삭제할까요?`, [
+      { text: '취소', style: 'cancel' },
+      { text: '삭제', style: 'destructive', onPress: () => deletePlan(plan.id) },
+    ]);
+  };
+
+  return (
+    <TopScreenSafeAreaView style={styles.container}>
+      {/* 헤더 */}
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => router.back()} style={styles.headerButton}>
+          <Ionicons name="chevron-back" size={24} color={GREY[900]} />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>워크아웃</Text>
+        <TouchableOpacity
+          testID="workout-add-button"
+          onPress={() => router.push('/workout/editor')}
+          style={styles.headerButton}
+        >
+          <Ionicons name="add" size={24} color={GREY[900]} />
+        </TouchableOpacity>
+      </View>
+
+      <ScrollView contentContainerStyle={styles.content}>
+        <PlanRow
+          testID="workout-plan-free"
+          title="자유 달리기"
+          summary="워크아웃 없이 달려요"
+          isSelected={selectedPlanId === null}
+          onPress={() => handleSelect(null)}
+        />
+
+        {plans.map((plan) => (
+          <PlanRow
+            key={plan.id}
+            testID={`workout-plan-${plan.id}`}
+            title={plan.name}
+            summary={formatPlanSummary(plan, unit)}
+            isSelected={plan.id === selectedPlanId}
+            onPress={() => handleSelect(plan.id)}
+            onEdit={() => router.push({ pathname: '/workout/editor', params: { id: plan.id } })}
+            onDelete={() => handleDelete(plan)}
+          />
+        ))}
+
+        {plans.length === 0 ? (
+          <Text style={styles.emptyText}>+ 버튼으로 인터벌 워크아웃을 만들어 보세요.</Text>
+        ) : null}
+      </ScrollView>
+    </TopScreenSafeAreaView>
+  );
+};
+
+// PlanRow Component
+interface PlanRowProps {
+  testID: string;
+  title: string;
+  summary: string;
+  isSelected: boolean;
+  onPress: () => void;
+  onEdit?: () => void;
+  onDelete?: () => void;
+}
+
+const PlanRow: React.FC<PlanRowProps> = ({
+  testID,
+  title,
+  summary,
+  isSelected,
+  onPress,
+  onEdit,
+  onDelete,
+}) => {
+  return (
+    <TouchableOpacity
+      testID={testID}
+      style={[styles.row, isSelected && styles.rowSelected]}
+      onPress={onPress}
+      activeOpacity={0.7}
+    >
+      <Ionicons
+        name={isSelected ? 'radio-button-on' : 'radio-button-off'}
+        size={20}
+        color={isSelected ? PRIMARY[900] : GREY[400]}
+      />
+      <View style={styles.rowText}>
+        <Text style={styles.rowTitle}>{title}</Text>
+        <Text style={styles.rowSummary}>{summary}</Text>
+      </View>
+      {onEdit ? (
+        <TouchableOpacity testID={`${testID}-edit`} onPress={onEdit} style={styles.rowAction}>
+          <Ionicons name="create-outline" size={20} color={GREY[700]} />
+        </TouchableOpacity>
+      ) : null}
+      {onDelete ? (
+        <TouchableOpacity testID={`${testID}-delete`} onPress={onDelete} style={styles.rowAction}>
+          <Ionicons name="trash-outline" size={20} color={RED.DEFAULT} />
+        </TouchableOpacity>
+      ) : null}
+    </TouchableOpacity>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: GREY[50],
+  },
+
+  // ===== 헤더 =====
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingVertical: 16,
+    height: 56,
+    backgroundColor: GREY[50],
+  },
+  headerButton: {
+    width: 24,
+    height: 24,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  headerTitle: {
+    fontSize: 16,
+    fontWeight: '500',
+    color: GREY[900],
+    fontFamily: 'Pretendard',
+    lineHeight: 24,
+  },
+
+  // ===== 목록 =====
+  content: {
+    paddingHorizontal: 16,
+    paddingTop: 12,
+    paddingBottom: 40,
+    gap: 8,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    padding: 14,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: GREY[100],
+    backgroundColor: GREY.WHITE,
+  },
+  rowSelected: {
+    borderColor: PRIMARY[600],
+    backgroundColor: PRIMARY[50],
+  },
+  rowText: {
+    flex: 1,
+    gap: 2,
+  },
+  rowTitle: {
+    fontSize: 15,
+    fontWeight: '700',
+    color: GREY[900],
+    lineHeight: 20,
+  },
+  rowSummary: {
+    fontSize: 12,
+    fontWeight: '400',
+    color: GREY[600],
+    lineHeight: 16,
+  },
+  rowAction: {
+    padding: 4,
+  },
+  emptyText: {
+    marginTop: 24,
+    fontSize: 13,
+    color: GREY[500],
+    textAlign: 'center',
+  },
+});
@@ -0,0 +1,173 @@
+import React from 'react';
+import { StyleSheet, View } from 'react-native';
+import { Text } from '~/shared/components/typography';
+import { useDistanceUnit } from '~/shared/hooks';
+import { BLUE, GREY, PRIMARY, RED } from '~/shared/styles';
+import {
+  calculateWorkoutIntervalResults,
+  formatWorkoutDistance,
+  formatWorkoutDuration,
+  formatWorkoutPace,
+  formatWorkoutStepLabel,
+  type WorkoutIntervalResult,
+  type WorkoutRunRecord,
+} from '../../models';
+
+interface WorkoutIntervalTableProps {
+  record: WorkoutRunRecord;
+}
+
+// 목표 페이스 ± 이 범위(초/km)는 목표 달성으로 표시
+const PACE_DELTA_TOLERANCE_SECONDS = 10;
+
+/**
+ * 인터벌별 결과 표
+ * 단계 / 거리 / 시간 / 페이스 / 목표 대비
+ * 인터벌 단계는 행 배경으로 강조, 러닝 종료로 끊긴 단계는 흐리게 표시
+ * 인터벌 기록은 기기에만 저장되므로 표 아래에 안내 문구를 표시
+ */
+export const WorkoutIntervalTable: React.FC<WorkoutIntervalTableProps> = ({ record }) => {
+  const { unit, convertPace } = useDistanceUnit();
+  const results = calculateWorkoutIntervalResults(record);
+  if (results.length === 0) {
+    return null;
+  }
+
+  return (
+    <View testID="workout-interval-table" style={styles.container}>
+      <Text style={styles.title}>인터벌 기록</Text>
+      <Text style={styles.subtitle}>{record.planName}</Text>
+      <View style={[styles.row, styles.headerRow]}>
+        <Text style={[styles.headerCell, styles.labelCell]}>단계</Text>
+        <Text style={styles.headerCell}>거리</Text>
+        <Text style={styles.headerCell}>시간</Text>
+        <Text style={[styles.headerCell, styles.paceCell]}>페이스</Text>
+        <Text style={styles.headerCell}>목표 대비</Text>
+      </View>
+      {results.map((result) => (
+        <View
+          key={`interval-${result.stepIndex}`}
+          testID={`interval-row-${result.stepIndex}`}
+          style={[
+            styles.row,
+            result.kind === 'work' && styles.workRow,
+            !result.completed && styles.incompleteRow,
+          ]}
+        >
+          <Text style={[styles.cell, styles.labelCell]}>{formatWorkoutStepLabel(result)}</Text>
+          <Text style={styles.cell}>{formatWorkoutDistance(result.distance, unit)}</Text>
+          <Text style={styles.cell}>{formatWorkoutDuration(result.durationSec)}</Text>
+          <Text style={[styles.cell, styles.paceCell]}>
+            {result.paceSecondsPerKm !== null ? formatWorkoutPace(result.paceSecondsPerKm, unit) : '--'}
+          </Text>
+          <Text style={[styles.cell, paceDeltaStyle(result)]}>{formatPaceDelta(result, convertPace)}</Text>
+        </View>
+      ))}
+      <Text testID="workout-interval-device-only-notice" style={styles.notice}>
+        인터벌 기록은 이 기기에만 저장되어 다시 로그인하거나 다른 기기에서는 볼 수 없어요.
+      </Text>
+    </View>
+  );
+};
+
+/**
+ * 목표 대비 차이 (표시 단위 기준 초, 예: "+5초")
+ */
+const formatPaceDelta = (
+  { paceDeltaSeconds }: WorkoutIntervalResult,
+  convertPace: (secondsPerKm: number) => number
+): string => {
+  if (paceDeltaSeconds === null) {
+    return '--';
+  }
+
+  const rounded = Math.round(convertPace(paceDeltaSeconds));
+  return `${rounded > 0 ? '+' : rounded < 0 ? '-' : '±'}${Math.abs(rounded)}초`;
+};
+
+const paceDeltaStyle = ({ paceDeltaSeconds }: WorkoutIntervalResult) => {
+  if (paceDeltaSeconds === null || Math.abs(paceDeltaSeconds) <= PACE_DELTA_TOLERANCE_SECONDS) {
+    return styles.onTargetText;
+  }
+
+  return paceDeltaSeconds > 0 ? styles.slowText : styles.fastText;
+};
+
+const styles = StyleSheet.create({
+  container: {
+    marginHorizontal: 16,
+    marginTop: 20,
+    borderRadius: 8,
+    backgroundColor: GREY.WHITE,
+    paddingHorizontal: 14,
+    paddingVertical: 16,
+  },
+  title: {
+    fontSize: 16,
+    lineHeight: 22,
+    fontWeight: '700',
+    color: '#102318',
+  },
+  subtitle: {
+    marginBottom: 10,
+    fontSize: 12,
+    lineHeight: 16,
+    fontWeight: '500',
+    color: '#657067',
+  },
+  row: {
+    height: 36,
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderRadius: 6,
+    paddingHorizontal: 6,
+  },
+  headerRow: {
+    height: 28,
+  },
+  workRow: {
+    backgroundColor: PRIMARY[50],
+  },
+  incompleteRow: {
+    opacity: 0.5,
+  },
+  headerCell: {
+    flex: 1,
+    fontSize: 12,
+    lineHeight: 16,
+    fontWeight: '500',
+    color: '#657067',
+    textAlign: 'center',
+  },
+  cell: {
+    flex: 1,
+    fontSize: 13,
+    lineHeight: 18,
+    fontWeight: '600',
+    color: GREY[900],
+    textAlign: 'center',
+  },
+  labelCell: {
+    flex: 1.3,
+    textAlign: 'left',
+  },
+  paceCell: {
+    flex: 1.3,
+  },
+  onTargetText: {
+    color: PRIMARY[900],
+  },
+  slowText: {
+    color: RED.DEFAULT,
+  },
+  fastText: {
+    color: BLUE.DEFAULT,
+  },
+  notice: {
+    marginTop: 10,
+    fontSize: 11,
+    lineHeight: 15,
+    fontWeight: '500',
+    color: '#657067',
+  },
+});
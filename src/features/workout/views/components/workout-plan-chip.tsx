@@ -0,0 +1,59 @@
+import { Ionicons } from '@expo/vector-icons';
+import { router } from 'expo-router';
+import React from 'react';
+import { StyleSheet, TouchableOpacity } from 'react-native';
+import { Text } from '~/shared/components/typography';
+import { GREY, PRIMARY } from '~/shared/styles';
+import { selectSelectedWorkoutPlan, useWorkoutStore } from '../../stores/workoutStore';
+
+/**
+ * 러닝 시작 전 워크아웃 선택 칩
+ * 선택된 계획 이름(없으면 자유 달리기)을 보여주고 누르면 워크아웃 목록으로 이동
+ */
+export const WorkoutPlanChip: React.FC = () => {
+  const selectedPlan = useWorkoutStore(selectSelectedWorkoutPlan);
+
+  return (
+    <TouchableOpacity
+      testID="workout-plan-chip"
+      style={[styles.container, selectedPlan && styles.selectedContainer]}
+      onPress={() => router.push('/workout')}
+      activeOpacity={0.7}
+    >
+      <Ionicons name="stopwatch-outline" size={16} color={selectedPlan ? PRIMARY[900] : GREY[700]} />
+      <Text style={[styles.label, selectedPlan && styles.selectedLabel]} numberOfLines={1}>
+        {selectedPlan ? selectedPlan.name : '자유 달리기'}
+      </Text>
+      <Ionicons name="chevron-forward" size={14} color={GREY[500]} />
+    </TouchableOpacity>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    maxWidth: 335,
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 20,
+    borderWidth: 1,
+    borderColor: GREY[200],
+    backgroundColor: GREY.WHITE,
+  },
+  selectedContainer: {
+    borderColor: PRIMARY[600],
+    backgroundColor: PRIMARY[50],
+  },
+  label: {
+    flexShrink: 1,
+    fontSize: 13,
+    lineHeight: 18,
+    fontWeight: '600',
+    color: GREY[700],
+  },
+  selectedLabel: {
+    color: PRIMARY[900],
+  },
+});
@@ -0,0 +1,152 @@
+import React from 'react';
+import { StyleSheet, View } from 'react-native';
+import { Text } from '~/shared/components/typography';
+import { useDistanceUnit } from '~/shared/hooks';
+import { BLUE, GREY, PRIMARY, RED } from '~/shared/styles';
+import {
+  formatWorkoutDistance,
+  formatWorkoutDuration,
+  formatWorkoutPace,
+  formatWorkoutStepLabel,
+  formatWorkoutTarget,
+} from '../../models';
+import type { WorkoutPaceStatus, WorkoutProgress } from '../../services/WorkoutRuntime';
+
+interface WorkoutStepProgressCardProps {
+  planName: string;
+  progress: WorkoutProgress;
+}
+
+const PACE_STATUS_LABELS: Record<WorkoutPaceStatus, string> = {
+  fast: '목표보다 빠름',
+  onTarget: '목표 페이스',
+  slow: '목표보다 느림',
+};
+
+const PACE_STATUS_COLORS: Record<WorkoutPaceStatus, string> = {
+  fast: BLUE.DEFAULT,
+  onTarget: PRIMARY[900],
+  slow: RED.DEFAULT,
+};
+
+/**
+ * 러닝 중 워크아웃 현재 단계 카드
+ * 단계 이름 / 남은 거리·시간 / 진행 바 / 목표 페이스 대비 상태 / 다음 단계
+ */
+export const WorkoutStepProgressCard: React.FC<WorkoutStepProgressCardProps> = ({
+  planName,
+  progress,
+}) => {
+  const { unit } = useDistanceUnit();
+  const { step, nextStep, ratio, remaining, paceStatus } = progress;
+  const remainingText =
+    step.target.type === 'distance'
+      ? formatWorkoutDistance(remaining, unit)
+      : formatWorkoutDuration(remaining);
+
+  return (
+    <View testID="workout-step-progress" style={styles.container}>
+      <View style={styles.headerRow}>
+        <Text style={styles.planName} numberOfLines={1}>
+          {planName}
+        </Text>
+        <Text style={styles.stepCount}>
+          {step.index + 1}/{progress.stepCount}
+        </Text>
+      </View>
+
+      <View style={styles.headerRow}>
+        <Text testID="workout-step-label" style={styles.stepLabel}>
+          {formatWorkoutStepLabel(step)}
+        </Text>
+        <Text testID="workout-step-remaining" style={styles.remaining}>
+          {remainingText} 남음
+        </Text>
+      </View>
+
+      <View style={styles.progressTrack}>
+        <View style={[styles.progressFill, { width: `${Math.round(ratio * 100)}%` }]} />
+      </View>
+
+      <View style={styles.headerRow}>
+        {step.targetPaceSecondsPerKm !== null ? (
+          <Text style={styles.caption}>
+            목표 {formatWorkoutPace(step.targetPaceSecondsPerKm, unit)}
+            {paceStatus ? (
+              <Text style={{ color: PACE_STATUS_COLORS[paceStatus] }}>
+                {` · ${PACE_STATUS_LABELS[paceStatus]}`}
+              </Text>
+            ) : null}
+          </Text>
+        ) : (
+          <Text style={styles.caption}>페이스 자유</Text>
+        )}
+        {nextStep ? (
+          <Text style={styles.caption}>
+            다음 {formatWorkoutStepLabel(nextStep)} {formatWorkoutTarget(nextStep.target, unit)}
+          </Text>
+        ) : (
+          <Text style={styles.caption}>마지막 단계</Text>
+        )}
+      </View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    borderRadius: 8,
+    backgroundColor: GREY.WHITE,
+    paddingHorizontal: 14,
+    paddingVertical: 12,
+    gap: 8,
+  },
+  headerRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    gap: 8,
+  },
+  planName: {
+    flex: 1,
+    fontSize: 12,
+    lineHeight: 16,
+    fontWeight: '500',
+    color: GREY[500],
+  },
+  stepCount: {
+    fontSize: 12,
+    lineHeight: 16,
+    fontWeight: '500',
+    color: GREY[500],
+  },
+  stepLabel: {
+    fontSize: 18,
+    lineHeight: 24,
+    fontWeight: '700',
+    color: GREY[900],
+  },
+  remaining: {
+    fontSize: 18,
+    lineHeight: 24,
+    fontWeight: '700',
+    color: PRIMARY[900],
+  },
+  progressTrack: {
+    height: 6,
+    borderRadius: 3,
+    backgroundColor: GREY[100],
+    overflow: 'hidden',
+  },
+  progressFill: {
+    height: '100%',
+    borderRadius: 3,
+    backgroundColor: PRIMARY[500],
+  },
+  caption: {
+    fontSize: 12,
+    lineHeight: 16,
+    fontWeight: '500',
+    color: GREY[700],
+  },
+});
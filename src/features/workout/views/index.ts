@@ -0,0 +1,2 @@
+export { WorkoutPlanListView } from './WorkoutPlanListView';
+export { WorkoutPlanEditorView } from './WorkoutPlanEditorView';
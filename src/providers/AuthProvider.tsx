@@ -23,20 +23,21 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
   const isLoggedIn = useAuthStore((state) => state.isLoggedIn);
   const accessToken = useAuthStore((state) => state.accessToken);
   const { verifyAndRefreshToken, refreshUserData } = useAuth();
-  const { syncOfflineData } = useOfflineSync();
+  const { startAutoSync, stopAutoSync } = useOfflineSync();
   const [isNavigationReady, setIsNavigationReady] = useState(false);
 
   // OTA 자동 업데이트 완료 여부 확인
   const isAutoUpdateCompleted = useUpdateStore((state) => state.isAutoUpdateCompleted);
 
   /**
-   * 앱 시작 시 저장된 인증 상태 복원 및 오프라인 데이터 동기화
+   * 앱 시작 시 저장된 인증 상태 복원
    *
    * 단순화된 로직:
    * 1. Zustand persist가 자동으로 AsyncStorage 복원
    * 2. SecureStorage 토큰 동기화
    * 3. 토큰 검증 (useAuth hook 사용)
-   * 4. 오프라인 러닝 데이터 자동 동기화
+   *
+   * 오프라인 러닝 데이터 자동 동기화는 아래 isLoggedIn effect에서 시작/중지
    *
    * NOTE: 리그 결과 확인은 RunningView/LeagueView에서 처리
    */
@@ -51,17 +52,16 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
       // 2. 토큰 검증 및 자동 갱신 (useAuth hook)
       const isTokenValid = await verifyAndRefreshToken();
 
-      // 3. 로그인 상태이고 토큰이 유효하면 오프라인 데이터 동기화
+      // 3. 로그인 상태이고 토큰이 유효하면 사용자 정보 갱신
       if (isTokenValid && useAuthStore.getState().isLoggedIn) {
         await refreshUserData();
-        await syncOfflineData();
       }
 
       console.log('✅ [AuthProvider] 인증 상태 복원 완료');
     } catch (error) {
       console.error('⚠️ [AuthProvider] 인증 상태 초기화 실패:', error);
     }
-  }, [verifyAndRefreshToken, refreshUserData, syncOfflineData]);
+  }, [verifyAndRefreshToken, refreshUserData]);
 
   useEffect(() => {
     const init = async () => {
@@ -74,6 +74,21 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     init();
   }, [initializeAuthState]);
 
+  // 로그인 시 오프라인 자동 동기화 시작 (이후 네트워크 복구 시 자동 재동기화), 로그아웃 시 중지
+  // 앱 시작 시에는 토큰 검증(초기화)이 끝난 뒤에 시작
+  useEffect(() => {
+    if (!isLoggedIn) {
+      stopAutoSync();
+      return;
+    }
+    if (!isNavigationReady) {
+      return;
+    }
+    startAutoSync().catch((error) => {
+      console.error('⚠️ [AuthProvider] 오프라인 자동 동기화 시작 실패:', error);
+    });
+  }, [isLoggedIn, isNavigationReady, startAutoSync, stopAutoSync]);
+
 
   /**
    * 인증 상태에 따른 네비게이션 제어
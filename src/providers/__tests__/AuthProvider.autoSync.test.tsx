@@ -0,0 +1,76 @@
+import React from 'react';
+import { act, render, waitFor } from '@testing-library/react-native';
+import { View } from 'react-native';
+import { useAuthStore } from '~/features/auth/stores/authStore';
+import { AuthProvider } from '~/providers/AuthProvider';
+import { resetAllStores } from '~/test-utils/resetState';
+
+const mockStartAutoSync = jest.fn();
+const mockStopAutoSync = jest.fn();
+const mockVerifyAndRefreshToken = jest.fn();
+const mockRefreshUserData = jest.fn();
+
+jest.mock('expo-router', () => ({
+  router: { replace: jest.fn() },
+}));
+
+jest.mock('~/features/auth/hooks/useAuth', () => ({
+  useAuth: () => ({
+    verifyAndRefreshToken: mockVerifyAndRefreshToken,
+    refreshUserData: mockRefreshUserData,
+  }),
+}));
+
+jest.mock('~/features/running/hooks/useOfflineSync', () => ({
+  useOfflineSync: () => ({
+    startAutoSync: mockStartAutoSync,
+    stopAutoSync: mockStopAutoSync,
+  }),
+}));
+
+describe('AuthProvider offline auto sync', () => {
+  beforeEach(() => {
+    resetAllStores();
+    jest.clearAllMocks();
+    mockStartAutoSync.mockResolvedValue(null);
+    mockVerifyAndRefreshToken.mockResolvedValue(false);
+    mockRefreshUserData.mockResolvedValue(undefined);
+    jest.spyOn(useAuthStore.getState(), 'initializeTokens').mockResolvedValue(undefined);
+  });
+
+  const renderProvider = () =>
+    render(
+      <AuthProvider>
+        <View />
+      </AuthProvider>
+    );
+
+  it('로그아웃 상태로 시작한 뒤 로그인하면 자동 동기화를 시작한다', async () => {
+    renderProvider();
+
+    await waitFor(() => expect(mockStopAutoSync).toHaveBeenCalled());
+    expect(mockStartAutoSync).not.toHaveBeenCalled();
+
+    await act(async () => {
+      useAuthStore.setState({ isLoggedIn: true });
+    });
+
+    await waitFor(() => expect(mockStartAutoSync).toHaveBeenCalledTimes(1));
+  });
+
+  it('로그아웃하면 자동 동기화를 중지한다', async () => {
+    useAuthStore.setState({ isLoggedIn: true });
+    mockVerifyAndRefreshToken.mockResolvedValue(true);
+
+    renderProvider();
+
+    await waitFor(() => expect(mockStartAutoSync).toHaveBeenCalledTimes(1));
+    mockStopAutoSync.mockClear();
+
+    await act(async () => {
+      useAuthStore.setState({ isLoggedIn: false });
+    });
+
+    expect(mockStopAutoSync).toHaveBeenCalledTimes(1);
+  });
+});
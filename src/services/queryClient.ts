@@ -99,6 +99,8 @@ export const queryKeys = {
     }) => ['point', 'history', 'infinite', filters] as const,
     statistics: () => ['point', 'statistics'] as const,
     recentHistory: (startDate: Date) => ['point', 'history', 'recent', startDate] as const,
+    rangeHistory: (startCreatedTimestamp: number, endCreatedTimestamp: number) =>
+      ['point', 'history', 'range', startCreatedTimestamp, endCreatedTimestamp] as const,
   },
 
   // Shoe 관련 Query Keys
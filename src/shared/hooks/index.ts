@@ -6,6 +6,7 @@
 export { usePermissionRequest } from './usePermissionRequest';
 export { useMediaPicker } from './useMediaPicker';
 export { useBottomActionOffset } from './useBottomActionOffset';
+export { useDistanceUnit } from './useDistanceUnit';
 
 // 타입 re-export (편의성)
 export type {
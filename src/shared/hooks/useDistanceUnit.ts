@@ -0,0 +1,39 @@
+import { useMemo } from 'react';
+import {
+  convertDistance,
+  convertDistanceToMeters,
+  convertPace,
+  formatDistance,
+  formatPace,
+  formatSpeed,
+  getDistanceUnitLabel,
+  getMetersPerUnit,
+  getPaceUnitLabel,
+} from '~/shared/utils/unitFormatters';
+import { useUserStore } from '~/stores/user/userStore';
+
+/**
+ * 사용자 거리 단위(km / mile) 설정을 적용한 표시용 변환/포맷 함수
+ * 화면의 거리/페이스/속도 표시는 모두 이 훅을 거친다.
+ */
+export const useDistanceUnit = () => {
+  const unit = useUserStore((state) => state.userPreferences.distanceUnit);
+
+  return useMemo(
+    () => ({
+      unit,
+      metersPerUnit: getMetersPerUnit(unit),
+      distanceLabel: getDistanceUnitLabel(unit),
+      paceLabel: getPaceUnitLabel(unit),
+      convertDistance: (meters: number) => convertDistance(meters, unit),
+      convertDistanceToMeters: (value: number) => convertDistanceToMeters(value, unit),
+      convertPace: (paceMinPerKm: number) => convertPace(paceMinPerKm, unit),
+      formatDistance: (meters: number, options?: Parameters<typeof formatDistance>[2]) =>
+        formatDistance(meters, unit, options),
+      formatPace: (paceMinPerKm: number, options?: Parameters<typeof formatPace>[2]) =>
+        formatPace(paceMinPerKm, unit, options),
+      formatSpeed: (kmPerHour: number) => formatSpeed(kmPerHour, unit),
+    }),
+    [unit]
+  );
+};
@@ -16,6 +16,21 @@ import { useUserStore } from '~/stores/user/userStore';
 import { useUnityStore } from '~/stores/unity/unityStore';
 import { useTermsStore } from '~/features/terms/stores/termsStore';
 import { useLeagueCheckStore } from '~/stores/league/leagueCheckStore';
+import { useOfflineSyncStore } from '~/features/running/stores/offlineSyncStore';
+import { useWorkoutStore } from '~/features/workout/stores/workoutStore';
+import { useVoiceCoachingStore } from '~/features/coaching/stores/voiceCoachingStore';
+import { usePersonalRecordStore } from '~/features/statistics/stores/personalRecordStore';
+import { useAutoPauseStore } from '~/features/running/stores/autoPauseStore';
+import { useHeartRateSensorStore } from '~/features/running/stores/heartRateSensorStore';
+import { useHeartRateZoneStore } from '~/features/running/stores/heartRateZoneStore';
+import { useHeartRateHistogramStore } from '~/features/statistics/stores/heartRateHistogramStore';
+import { useShoeLifecycleStore } from '~/features/shoes/stores/shoeLifecycleStore';
+import { useShoeRotationStore } from '~/features/shoes/stores/shoeRotationStore';
+import { useAvatarWardrobeStore } from '~/features/avatar/stores/avatarWardrobeStore';
+import { useGhostPacerStore } from '~/features/ghost/stores/ghostPacerStore';
+import { useRunHighlightStore } from '~/features/reactions/stores/runHighlightStore';
+import { useBadgeStore } from '~/features/badges/stores/badgeStore';
+import { useRunStreakStore } from '~/features/statistics/stores/runStreakStore';
 import { clearUserContext } from '~/config/sentry';
 
 /**
@@ -39,6 +54,24 @@ const resetAllStores = (): void => {
   useTermsStore.getState().reset();
   useLeagueCheckStore.getState().reset();
 
+  // 기능별 사용자 데이터 스토어
+  // AsyncStorage를 비워도 메모리 상태는 남아 다음 계정에 보이고 다음 set()에서 다시 저장되므로 함께 초기화
+  useOfflineSyncStore.getState().reset();
+  useWorkoutStore.getState().reset();
+  useVoiceCoachingStore.getState().reset();
+  usePersonalRecordStore.getState().reset();
+  useAutoPauseStore.getState().reset();
+  useHeartRateSensorStore.getState().reset();
+  useHeartRateZoneStore.getState().reset();
+  useHeartRateHistogramStore.getState().reset();
+  useShoeLifecycleStore.getState().reset();
+  useShoeRotationStore.getState().reset();
+  useAvatarWardrobeStore.getState().reset();
+  useGhostPacerStore.getState().reset();
+  useRunHighlightStore.getState().reset();
+  useBadgeStore.getState().reset();
+  useRunStreakStore.getState().reset();
+
   console.log('✅ [AppReset] Zustand 스토어 초기화 완료');
 };
 
@@ -75,7 +108,7 @@ const clearSecureStore = async (): Promise<void> => {
  *
  * 초기화 대상:
  * - React Query 캐시
- * - Zustand 스토어 (app, auth, user, unity, terms)
+ * - Zustand 스토어 (app, auth, user, unity, terms, 기능별 사용자 데이터)
  * - AsyncStorage (Zustand persist 데이터)
  * - SecureStore (JWT 토큰)
  * - Sentry 사용자 컨텍스트
@@ -0,0 +1,46 @@
+import { DistanceUnit } from '~/stores/user/userStore';
+import {
+  convertDistance,
+  convertDistanceToMeters,
+  convertPace,
+  formatDistance,
+  formatPace,
+  formatSpeed,
+  getPaceUnitLabel,
+} from '~/shared/utils/unitFormatters';
+
+describe('unitFormatters', () => {
+  it('converts meters to kilometers and miles', () => {
+    expect(convertDistance(5000, DistanceUnit.KILOMETER)).toBe(5);
+    expect(convertDistance(1609.344, DistanceUnit.MILE)).toBe(1);
+  });
+
+  it('converts display distance back to meters', () => {
+    expect(convertDistanceToMeters(3, DistanceUnit.KILOMETER)).toBe(3000);
+    expect(convertDistanceToMeters(2, DistanceUnit.MILE)).toBeCloseTo(3218.688);
+  });
+
+  it('formats distance with the unit label', () => {
+    expect(formatDistance(5000, DistanceUnit.KILOMETER)).toBe('5.00 km');
+    expect(formatDistance(5000, DistanceUnit.MILE)).toBe('3.11 mi');
+    expect(formatDistance(1500, DistanceUnit.KILOMETER, { fractionDigits: 1, withUnit: false })).toBe('1.5');
+    expect(formatDistance(-10, DistanceUnit.KILOMETER)).toBe('0.00 km');
+  });
+
+  it('converts pace per kilometer to pace per mile', () => {
+    expect(convertPace(5, DistanceUnit.KILOMETER)).toBe(5);
+    expect(convertPace(5, DistanceUnit.MILE)).toBeCloseTo(8.04672);
+  });
+
+  it('formats pace in the selected unit', () => {
+    expect(formatPace(5.5, DistanceUnit.KILOMETER)).toBe('5:30');
+    expect(formatPace(5, DistanceUnit.MILE)).toBe('8:02');
+    expect(formatPace(5, DistanceUnit.MILE, { withUnit: true })).toBe('8:02 /mi');
+    expect(getPaceUnitLabel(DistanceUnit.KILOMETER)).toBe('/km');
+  });
+
+  it('formats speed in km/h or mph', () => {
+    expect(formatSpeed(10, DistanceUnit.KILOMETER)).toBe('10.0 km/h');
+    expect(formatSpeed(10, DistanceUnit.MILE)).toBe('6.2 mph');
+  });
+});
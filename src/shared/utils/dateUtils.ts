@@ -80,3 +80,61 @@ export const formatKoreanYearMonth = (date: Date): string => {
   const month = date.getMonth() + 1;
   return `${year}년 ${month}월`;
 };
+
+/**
+ * 기기 timezone (IANA 이름, 예: "Asia/Seoul")
+ */
+export const getDeviceTimezone = (): string =>
+  Intl.DateTimeFormat().resolvedOptions().timeZone || 'Asia/Seoul';
+
+/**
+ * 특정 timezone 기준 날짜/시각
+ */
+export interface ZonedDateParts {
+  year: number;
+  month: number; // 1~12
+  day: number;
+  hour: number; // 0~23
+  /** 'YYYY-MM-DD' (같은 날의 러닝을 묶는 key) */
+  dateKey: string;
+}
+
+const zonedFormatters = new Map<string, Intl.DateTimeFormat>();
+
+const getZonedFormatter = (timeZone: string): Intl.DateTimeFormat => {
+  let formatter = zonedFormatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      hourCycle: 'h23',
+    });
+    zonedFormatters.set(timeZone, formatter);
+  }
+  return formatter;
+};
+
+/**
+ * Unix timestamp를 timezone 기준 날짜로 변환 (기기 timezone과 무관하게 같은 결과)
+ * @param timestamp - Unix timestamp (초 단위)
+ * @param timeZone - IANA timezone 이름
+ */
+export const getZonedDateParts = (timestamp: number, timeZone: string): ZonedDateParts => {
+  const parts = getZonedFormatter(timeZone).formatToParts(new Date(timestamp * 1000));
+  const valueOf = (type: Intl.DateTimeFormatPartTypes): number =>
+    Number(parts.find((part) => part.type === type)?.value ?? 0);
+
+  const year = valueOf('year');
+  const month = valueOf('month');
+  const day = valueOf('day');
+  return {
+    year,
+    month,
+    day,
+    hour: valueOf('hour') % 24,
+    dateKey: `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`,
+  };
+};
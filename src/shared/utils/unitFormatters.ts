@@ -0,0 +1,99 @@
+/**
+ * Unit Formatters
+ * 거리/페이스/속도 표시를 사용자 거리 단위(km, mile)에 맞춰 변환
+ *
+ * 정책: 내부 데이터와 서버 통신은 항상 미터, 분/km, km/h 기준이며
+ * 화면에 표시하는 순간에만 이 모듈로 변환한다.
+ */
+
+import { DistanceUnit } from '~/stores/user/userStore';
+import { formatPaceForUI } from './formatters';
+
+export const METERS_PER_KILOMETER = 1000;
+export const METERS_PER_MILE = 1609.344;
+
+interface DistanceFormatOptions {
+  /** 소수점 자릿수 (기본 2) */
+  fractionDigits?: number;
+  /** 단위 표시 여부 (기본 true) */
+  withUnit?: boolean;
+}
+
+/**
+ * 단위 1개의 길이 (미터)
+ */
+export const getMetersPerUnit = (unit: DistanceUnit): number =>
+  unit === DistanceUnit.MILE ? METERS_PER_MILE : METERS_PER_KILOMETER;
+
+/**
+ * 거리 단위 라벨 (km / mi)
+ */
+export const getDistanceUnitLabel = (unit: DistanceUnit): string =>
+  unit === DistanceUnit.MILE ? 'mi' : 'km';
+
+/**
+ * 페이스 단위 라벨 (/km / /mi)
+ */
+export const getPaceUnitLabel = (unit: DistanceUnit): string => `/${getDistanceUnitLabel(unit)}`;
+
+/**
+ * 속도 단위 라벨 (km/h / mph)
+ */
+export const getSpeedUnitLabel = (unit: DistanceUnit): string =>
+  unit === DistanceUnit.MILE ? 'mph' : 'km/h';
+
+/**
+ * 미터 → 표시 단위 거리
+ */
+export const convertDistance = (meters: number, unit: DistanceUnit): number =>
+  meters / getMetersPerUnit(unit);
+
+/**
+ * 표시 단위 거리 → 미터 (입력값 저장용)
+ */
+export const convertDistanceToMeters = (value: number, unit: DistanceUnit): number =>
+  value * getMetersPerUnit(unit);
+
+/**
+ * 거리 포맷팅 (예: "5.00 km", "3.11 mi")
+ */
+export const formatDistance = (
+  meters: number,
+  unit: DistanceUnit,
+  { fractionDigits = 2, withUnit = true }: DistanceFormatOptions = {}
+): string => {
+  const value = convertDistance(Math.max(0, meters), unit).toFixed(fractionDigits);
+  return withUnit ? `${value} ${getDistanceUnitLabel(unit)}` : value;
+};
+
+/**
+ * 페이스 변환: 분/km → 분/표시 단위
+ */
+export const convertPace = (paceMinPerKm: number, unit: DistanceUnit): number =>
+  paceMinPerKm * (getMetersPerUnit(unit) / METERS_PER_KILOMETER);
+
+/**
+ * 페이스 변환: 분/표시 단위 → 분/km (입력값 저장용)
+ */
+export const convertPaceToPerKm = (pacePerUnit: number, unit: DistanceUnit): number =>
+  pacePerUnit / (getMetersPerUnit(unit) / METERS_PER_KILOMETER);
+
+/**
+ * 페이스 포맷팅 (M:SS, 단위 포함 시 "M:SS /mi")
+ * @param paceMinPerKm - 분/km 단위 페이스
+ */
+export const formatPace = (
+  paceMinPerKm: number,
+  unit: DistanceUnit,
+  { withUnit = false }: { withUnit?: boolean } = {}
+): string => {
+  const value = formatPaceForUI(convertPace(paceMinPerKm, unit));
+  return withUnit ? `${value} ${getPaceUnitLabel(unit)}` : value;
+};
+
+/**
+ * 속도 포맷팅 (예: "10.0 km/h", "6.2 mph")
+ * @param kmPerHour - km/h 단위 속도
+ */
+export const formatSpeed = (kmPerHour: number, unit: DistanceUnit, fractionDigits = 1): string =>
+  `${(kmPerHour / (getMetersPerUnit(unit) / METERS_PER_KILOMETER)).toFixed(fractionDigits)} ${getSpeedUnitLabel(unit)}`;
@@ -14,6 +14,7 @@ import type {
   UnityError,
   UnityStatus,
 } from '../../features/unity/types/UnityTypes';
+import type { UnityProtocolHandshake } from '../../features/unity/protocol/UnityProtocolVersion';
 
 export interface UnityViewportFrame {
   x: number;
@@ -49,6 +50,7 @@ export interface UnityReadyEventSnapshot {
   type?: string;
   timestamp: string;
   target?: number;
+  protocolVersion?: number;
 }
 
 export interface UnitySessionTransition {
@@ -122,6 +124,8 @@ interface UnityState {
   sessionStatus: UnitySessionStatus;
   reattachToken: number;
   lastUnityReadyEvent: UnityReadyEventSnapshot | null;
+  // ★ 메시지 프로토콜 핸드셰이크 결과 (null = 아직 Unity가 버전을 알리지 않음, v1로 간주)
+  unityProtocol: UnityProtocolHandshake | null;
   sessionTransitions: UnitySessionTransition[];
   currentAvatarPayloadHash: string | null;
   lastAppliedAvatarHash: string | null;
@@ -152,6 +156,7 @@ interface UnityState {
   ) => void;
   bumpReattachToken: () => void;
   publishUnityReadyEvent: (event: Omit<UnityReadyEventSnapshot, 'version' | 'timestamp'>) => void;
+  setUnityProtocol: (handshake: UnityProtocolHandshake) => void;
   setCurrentAvatarPayloadHash: (hash: string | null) => void;
   markAvatarPayloadApplied: (hash: string | null) => void;
   invalidateAvatarPayloadApplication: () => void;
@@ -183,6 +188,7 @@ const initialState = {
   sessionStatus: 'cold' as UnitySessionStatus,
   reattachToken: 0,
   lastUnityReadyEvent: null,
+  unityProtocol: null as UnityProtocolHandshake | null,
   sessionTransitions: [] as UnitySessionTransition[],
   currentAvatarPayloadHash: null,
   lastAppliedAvatarHash: null,
@@ -372,6 +378,12 @@ export const useUnityStore = create<UnityState>((set) => ({
       lastInteraction: new Date().toISOString(),
     })),
 
+  setUnityProtocol: (unityProtocol) =>
+    set({
+      unityProtocol,
+      lastInteraction: new Date().toISOString(),
+    }),
+
   setCurrentAvatarPayloadHash: (currentAvatarPayloadHash) =>
     set({
       currentAvatarPayloadHash,
@@ -13,6 +13,10 @@ import { create } from 'zustand';
 import { createJSONStorage, persist } from 'zustand/middleware';
 import type { Item, EquippedItemsMap } from '~/features/avatar';
 import { ItemStatus, getItemTypeById } from '~/features/avatar/models';
+import {
+  EMPTY_PHYSIOLOGY_PROFILE,
+  type PhysiologyProfile,
+} from '~/features/user/models/PhysiologyProfile';
 import { type User } from '~/features/user/models/User';
 import { type UserAccount } from '~/features/user/models/UserAccount';
 import { userDataDtoToUser, type UserDataDto } from '~/features/user/models/UserDataDto';
@@ -76,6 +80,9 @@ interface UserState {
   // User Preferences
   userPreferences: UserPreferences;
 
+  // 신체 정보 (칼로리/심박 구간 계산용, 기기에만 저장)
+  physiologyProfile: PhysiologyProfile;
+
   // App State
   appLaunchCount: number;
   lastAppVersion: string | null;
@@ -107,6 +114,7 @@ interface UserState {
   updateEquippedItem: (itemTypeId: number, item: Item) => void; // 개별 아이템 업데이트
   setUserPreferences: (preferences: UserPreferences) => void;
   updateUserPreferences: (preferences: Partial<UserPreferences>) => void;
+  updatePhysiologyProfile: (profile: Partial<PhysiologyProfile>) => void;
   incrementAppLaunchCount: () => void;
   setLastAppVersion: (version: string) => void;
   setBackgroundEnterTime: (time: Date | null) => void;
@@ -137,6 +145,7 @@ export const useUserStore = create<UserState>()(
       equippedItems: {} as EquippedItemsMap,
       hairColor: '', // 백엔드 동기화 전에는 빈 값 유지
       userPreferences: defaultPreferences,
+      physiologyProfile: EMPTY_PHYSIOLOGY_PROFILE,
       appLaunchCount: 0,
       lastAppVersion: null,
       backgroundEnterTime: null,
@@ -197,6 +206,7 @@ export const useUserStore = create<UserState>()(
           equippedItems: {} as EquippedItemsMap,
           hairColor: '',
           userPreferences: defaultPreferences,
+          physiologyProfile: EMPTY_PHYSIOLOGY_PROFILE,
           appLaunchCount: 0,
           lastAppVersion: null,
           backgroundEnterTime: null,
@@ -389,6 +399,17 @@ export const useUserStore = create<UserState>()(
           },
         })),
 
+      /**
+       * 신체 정보 업데이트 (부분)
+       */
+      updatePhysiologyProfile: (profile) =>
+        set((state) => ({
+          physiologyProfile: {
+            ...state.physiologyProfile,
+            ...profile,
+          },
+        })),
+
       /**
        * 앱 실행 횟수 증가
        * 기존: incrementAppLaunchCount reducer
@@ -460,6 +481,7 @@ export const useUserStore = create<UserState>()(
           avatarId: 0,
           equippedItems: {} as EquippedItemsMap,
           userPreferences: defaultPreferences,
+          physiologyProfile: EMPTY_PHYSIOLOGY_PROFILE,
           appLaunchCount: 0,
           lastAppVersion: null,
           backgroundEnterTime: null,
@@ -521,6 +543,7 @@ export const useUserStore = create<UserState>()(
         equippedItems: state.equippedItems,
         hairColor: state.hairColor,
         userPreferences: state.userPreferences,
+        physiologyProfile: state.physiologyProfile,
         appLaunchCount: state.appLaunchCount,
         lastAppVersion: state.lastAppVersion,
         // ❌ accessToken, refreshToken 제거됨 (Keychain에만 저장)
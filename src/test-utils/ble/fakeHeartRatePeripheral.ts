@@ -0,0 +1,252 @@
+/**
+ * react-native-ble-plx 가짜 네이티브 호스트 (심박계 주변기기)
+ * - addPeripheral()로 광고 중인 심박계를 등록하면 startDeviceScan 구독자에게 전달
+ * - emitHeartRate()로 연결된 기기의 Heart Rate Measurement(0x2A37) 알림을 실제 바이트 형식으로 전달
+ * - dropConnection()으로 러닝 중 연결 끊김, failConnections()로 재연결 실패를 재현
+ *
+ * 사용 (src/test-utils/mocks/native.ts에서 전역 등록):
+ *   jest.mock('react-native-ble-plx', () => require('~/test-utils/ble/fakeHeartRatePeripheral').mockBlePlx);
+ */
+
+type ErrorListener<T> = (error: Error | null, value: T | null) => void;
+
+interface FakePeripheral {
+  id: string;
+  name: string | null;
+  serviceUUIDs: string[];
+}
+
+interface Monitor {
+  deviceId: string;
+  serviceUUID: string;
+  characteristicUUID: string;
+  listener: ErrorListener<{ uuid: string; value: string | null }>;
+}
+
+const HEART_RATE_SERVICE_UUID = '0000180d-0000-1000-8000-00805f9b34fb';
+
+const State = {
+  Unknown: 'Unknown',
+  Resetting: 'Resetting',
+  Unsupported: 'Unsupported',
+  Unauthorized: 'Unauthorized',
+  PoweredOff: 'PoweredOff',
+  PoweredOn: 'PoweredOn',
+} as const;
+
+type FakeState = (typeof State)[keyof typeof State];
+
+const toBase64 = (bytes: number[]): string => btoa(String.fromCharCode(...bytes));
+
+const normalizeUuid = (uuid: string) => uuid.toLowerCase();
+
+class FakeBleHost {
+  state: FakeState = State.PoweredOn;
+  peripherals = new Map<string, FakePeripheral>();
+  connectedIds = new Set<string>();
+  connectAttempts: string[] = [];
+  private failingConnections = 0;
+  private scanListener: ErrorListener<FakePeripheral> | null = null;
+  private scanServiceUUIDs: string[] | null = null;
+  private monitors = new Set<Monitor>();
+  private disconnectListeners = new Map<string, Set<ErrorListener<{ id: string }>>>();
+
+  reset() {
+    this.state = State.PoweredOn;
+    this.peripherals.clear();
+    this.connectedIds.clear();
+    this.connectAttempts = [];
+    this.failingConnections = 0;
+    this.scanListener = null;
+    this.scanServiceUUIDs = null;
+    this.monitors.clear();
+    this.disconnectListeners.clear();
+  }
+
+  /**
+   * 광고 중인 주변기기 등록 (스캔 중이면 즉시 전달)
+   */
+  addPeripheral(peripheral: { id: string; name?: string | null; serviceUUIDs?: string[] }) {
+    const registered: FakePeripheral = {
+      id: peripheral.id,
+      name: peripheral.name ?? null,
+      serviceUUIDs: peripheral.serviceUUIDs ?? [HEART_RATE_SERVICE_UUID],
+    };
+    this.peripherals.set(registered.id, registered);
+    this.advertise(registered);
+  }
+
+  /**
+   * 다음 n번의 연결 시도를 실패시킴
+   */
+  failConnections(count: number) {
+    this.failingConnections = count;
+  }
+
+  get isScanning() {
+    return this.scanListener !== null;
+  }
+
+  isConnected(deviceId: string) {
+    return this.connectedIds.has(deviceId);
+  }
+
+  /**
+   * 심박수 측정값 알림 전달
+   * @param options.uint16 true면 16비트 형식으로 인코딩
+   * @param options.contactDetected false면 센서 접촉 미감지 플래그 설정
+   */
+  emitHeartRate(deviceId: string, bpm: number, options: { uint16?: boolean; contactDetected?: boolean } = {}) {
+    let flags = options.uint16 ? 0x01 : 0x00;
+    if (options.contactDetected !== undefined) {
+      flags |= 0x04; // 센서 접촉 감지 지원
+      if (options.contactDetected) flags |= 0x02;
+    }
+
+    const bytes = options.uint16 ? [flags, bpm & 0xff, (bpm >> 8) & 0xff] : [flags, bpm];
+    this.monitors.forEach((monitor) => {
+      if (monitor.deviceId !== deviceId) return;
+      monitor.listener(null, { uuid: monitor.characteristicUUID, value: toBase64(bytes) });
+    });
+  }
+
+  /**
+   * 연결 끊김 (기기 전원 꺼짐/범위 이탈)
+   */
+  dropConnection(deviceId: string) {
+    if (!this.connectedIds.delete(deviceId)) return;
+    this.removeMonitors(deviceId);
+    this.disconnectListeners.get(deviceId)?.forEach((listener) => listener(null, { id: deviceId }));
+  }
+
+  // ---- BleManager 구현에서 호출 ----
+
+  startScan(serviceUUIDs: string[] | null, listener: ErrorListener<FakePeripheral>) {
+    this.scanListener = listener;
+    this.scanServiceUUIDs = serviceUUIDs?.map(normalizeUuid) ?? null;
+    this.peripherals.forEach((peripheral) => this.advertise(peripheral));
+  }
+
+  stopScan() {
+    this.scanListener = null;
+    this.scanServiceUUIDs = null;
+  }
+
+  connect(deviceId: string) {
+    this.connectAttempts.push(deviceId);
+    const peripheral = this.peripherals.get(deviceId);
+
+    if (this.failingConnections > 0) {
+      this.failingConnections -= 1;
+      throw new Error(`Connection to ${deviceId} failed`);
+    }
+    if (!peripheral || this.state !== State.PoweredOn) {
+      throw new Error(`Device ${deviceId} is not reachable`);
+    }
+
+    this.connectedIds.add(deviceId);
+    return peripheral;
+  }
+
+  cancelConnection(deviceId: string) {
+    this.connectedIds.delete(deviceId);
+    this.removeMonitors(deviceId);
+  }
+
+  addMonitor(monitor: Monitor) {
+    if (!this.connectedIds.has(monitor.deviceId)) {
+      monitor.listener(new Error(`Device ${monitor.deviceId} is not connected`), null);
+      return () => undefined;
+    }
+
+    this.monitors.add(monitor);
+    return () => {
+      this.monitors.delete(monitor);
+    };
+  }
+
+  addDisconnectListener(deviceId: string, listener: ErrorListener<{ id: string }>) {
+    const listeners = this.disconnectListeners.get(deviceId) ?? new Set();
+    listeners.add(listener);
+    this.disconnectListeners.set(deviceId, listeners);
+    return () => {
+      listeners.delete(listener);
+    };
+  }
+
+  private advertise(peripheral: FakePeripheral) {
+    if (!this.scanListener) return;
+    const serviceUUIDs = this.scanServiceUUIDs;
+    if (serviceUUIDs && !peripheral.serviceUUIDs.some((uuid) => serviceUUIDs.includes(normalizeUuid(uuid)))) {
+      return;
+    }
+    this.scanListener(null, peripheral);
+  }
+
+  private removeMonitors(deviceId: string) {
+    this.monitors.forEach((monitor) => {
+      if (monitor.deviceId === deviceId) this.monitors.delete(monitor);
+    });
+  }
+}
+
+export const fakeBleHost = new FakeBleHost();
+
+class FakeBleManager {
+  async state() {
+    return fakeBleHost.state;
+  }
+
+  async startDeviceScan(
+    serviceUUIDs: string[] | null,
+    _options: unknown,
+    listener: ErrorListener<FakePeripheral>
+  ) {
+    fakeBleHost.startScan(serviceUUIDs, listener);
+  }
+
+  async stopDeviceScan() {
+    fakeBleHost.stopScan();
+  }
+
+  async connectToDevice(deviceId: string) {
+    return fakeBleHost.connect(deviceId);
+  }
+
+  async discoverAllServicesAndCharacteristicsForDevice(deviceId: string) {
+    return fakeBleHost.peripherals.get(deviceId);
+  }
+
+  async isDeviceConnected(deviceId: string) {
+    return fakeBleHost.isConnected(deviceId);
+  }
+
+  async cancelDeviceConnection(deviceId: string) {
+    fakeBleHost.cancelConnection(deviceId);
+    return fakeBleHost.peripherals.get(deviceId);
+  }
+
+  monitorCharacteristicForDevice(
+    deviceId: string,
+    serviceUUID: string,
+    characteristicUUID: string,
+    listener: Monitor['listener']
+  ) {
+    return {
+      remove: fakeBleHost.addMonitor({ deviceId, serviceUUID, characteristicUUID, listener }),
+    };
+  }
+
+  onDeviceDisconnected(deviceId: string, listener: ErrorListener<{ id: string }>) {
+    return { remove: fakeBleHost.addDisconnectListener(deviceId, listener) };
+  }
+
+  async destroy() {
+    fakeBleHost.stopScan();
+  }
+}
+
+export const mockBlePlx = {
+  BleManager: FakeBleManager,
+  State,
+};
@@ -0,0 +1,129 @@
+/**
+ * expo-location / expo-task-manager 가짜 네이티브 호스트
+ * - watchPositionAsync 구독자(foreground)와 백그라운드 위치 task를 기록해 두고
+ *   deliver()로 실제 OS처럼 켜져 있는 쪽에 위치를 전달
+ * - 구독마다 timeInterval/distanceInterval 옵션을 적용해 그보다 촘촘한 위치는 건너뜀
+ *
+ * 사용:
+ *   jest.mock('expo-location', () => require('~/test-utils/gpsReplay/nativeLocationHost').mockExpoLocation);
+ *   jest.mock('expo-task-manager', () => require('~/test-utils/gpsReplay/nativeLocationHost').mockExpoTaskManager);
+ */
+
+import type { LocationObject } from 'expo-location';
+import { calculateHaversineDistance } from '~/shared/utils/DistanceUtils';
+
+type LocationCallback = (location: LocationObject) => void;
+type TaskExecutor = (body: { data?: unknown; error?: unknown }) => Promise<void> | void;
+
+interface UpdateOptions {
+  timeInterval?: number;
+  distanceInterval?: number;
+}
+
+interface UpdateSubscription {
+  options: UpdateOptions;
+  lastDelivered: LocationObject | null;
+}
+
+const GRANTED_PERMISSION = {
+  status: 'granted',
+  granted: true,
+  canAskAgain: true,
+  expires: 'never',
+} as const;
+
+const watchers = new Map<LocationCallback, UpdateSubscription>();
+const taskExecutors = new Map<string, TaskExecutor>();
+const startedTasks = new Map<string, UpdateSubscription>();
+
+/**
+ * 구독 옵션의 최소 시간/거리 간격을 넘긴 위치만 전달 대상으로 판정하고 기록
+ */
+const shouldDeliver = (subscription: UpdateSubscription, location: LocationObject): boolean => {
+  const previous = subscription.lastDelivered;
+  if (previous) {
+    const elapsedMs = location.timestamp - previous.timestamp;
+    const movedMeters = calculateHaversineDistance(
+      previous.coords.latitude,
+      previous.coords.longitude,
+      location.coords.latitude,
+      location.coords.longitude
+    );
+    if (
+      elapsedMs < (subscription.options.timeInterval ?? 0) ||
+      movedMeters < (subscription.options.distanceInterval ?? 0)
+    ) {
+      return false;
+    }
+  }
+
+  subscription.lastDelivered = location;
+  return true;
+};
+
+export const mockExpoLocation = {
+  __esModule: true,
+  Accuracy: {
+    Lowest: 1,
+    Low: 2,
+    Balanced: 3,
+    High: 4,
+    Highest: 5,
+    BestForNavigation: 6,
+  },
+  getForegroundPermissionsAsync: async () => GRANTED_PERMISSION,
+  getBackgroundPermissionsAsync: async () => GRANTED_PERMISSION,
+  requestForegroundPermissionsAsync: async () => GRANTED_PERMISSION,
+  requestBackgroundPermissionsAsync: async () => GRANTED_PERMISSION,
+  watchPositionAsync: async (options: UpdateOptions, callback: LocationCallback) => {
+    watchers.set(callback, { options, lastDelivered: null });
+    return {
+      remove: () => {
+        watchers.delete(callback);
+      },
+    };
+  },
+  startLocationUpdatesAsync: async (taskName: string, options: UpdateOptions = {}) => {
+    startedTasks.set(taskName, { options, lastDelivered: null });
+  },
+  stopLocationUpdatesAsync: async (taskName: string) => {
+    startedTasks.delete(taskName);
+  },
+  hasStartedLocationUpdatesAsync: async (taskName: string) => startedTasks.has(taskName),
+};
+
+export const mockExpoTaskManager = {
+  __esModule: true,
+  defineTask: (taskName: string, executor: TaskExecutor) => {
+    taskExecutors.set(taskName, executor);
+  },
+  isTaskRegisteredAsync: async (taskName: string) =>
+    taskExecutors.has(taskName) && startedTasks.has(taskName),
+};
+
+export const nativeLocationHost = {
+  /**
+   * 켜져 있는 foreground 구독자와 백그라운드 task에 위치 하나 전달
+   */
+  async deliver(location: LocationObject): Promise<void> {
+    [...watchers].forEach(([callback, subscription]) => {
+      if (shouldDeliver(subscription, location)) {
+        callback(location);
+      }
+    });
+
+    for (const [taskName, subscription] of [...startedTasks]) {
+      if (shouldDeliver(subscription, location)) {
+        await taskExecutors.get(taskName)?.({ data: { locations: [location] } });
+      }
+    }
+  },
+
+  /**
+   * 구독/시작 상태 초기화 (defineTask는 모듈 로드 시 한 번만 호출되므로 유지)
+   */
+  reset(): void {
+    watchers.clear();
+    startedTasks.clear();
+  },
+};
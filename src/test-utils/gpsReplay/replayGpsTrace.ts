@@ -0,0 +1,278 @@
+/**
+ * GPS trace 재생 하니스
+ * - RunningViewModel과 같은 조합(useRunningStats + useRunningSegments + useGpsTracking)을 렌더링하고
+ *   nativeLocationHost로 trace를 한 포인트씩 흘려 보냄
+ *   (RunningTrackingCoordinator → LocationService/BackgroundTask → GpsFilter → PaceFusion → 세그먼트)
+ * - Date.now()는 trace 시각을 따르는 가상 시계로 대체, 포인트마다 1초 tick처럼 updateStats 호출
+ * - handoffs로 특정 포인트 직전에 AppState를 바꿔 foreground/background 전환 경로를 재생
+ * - autoPause를 주면 useAutoPause처럼 1초마다 AutoPauseDetector로 판정해 동작 감지 일시정지/재개
+ *   (포인트가 없는 구간에도 tick이 돌아 GPS 신호가 끊긴 상황을 재현)
+ *
+ * expo-location/expo-task-manager는 테스트 파일에서 nativeLocationHost mock으로 교체해야 함
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { act, renderHook } from '@testing-library/react-native';
+import { AppState, type AppStateStatus } from 'react-native';
+import {
+  AUTO_PAUSE_CONFIGS,
+  createInitialAutoPauseState,
+  evaluateAutoPause,
+  type AutoPauseDecision,
+  type AutoPauseMode,
+} from '~/features/running/services/AutoPauseDetector';
+import type { TrackingSource } from '~/features/running/services/RunningTrackingCoordinator';
+import * as gpsKalmanSmoother from '~/features/running/services/gps/GpsKalmanSmoother';
+import type { GpsRejectReason } from '~/features/running/services/gps/GpsFilter';
+import { useGpsTracking } from '~/features/running/viewmodels/hooks/useGpsTracking';
+import { useRunningSegments } from '~/features/running/viewmodels/hooks/useRunningSegments';
+import { useRunningStats } from '~/features/running/viewmodels/hooks/useRunningStats';
+import { RunningState, useAppStore } from '~/stores/app/appStore';
+import { nativeLocationHost } from './nativeLocationHost';
+import { toLocationObject, type GpsTrace } from './traces';
+
+export interface GpsReplayHandoff {
+  /** 이 인덱스의 포인트를 전달하기 직전에 AppState 변경 */
+  atIndex: number;
+  appState: AppStateStatus;
+}
+
+export interface GpsReplayOptions {
+  recordId?: number;
+  handoffs?: GpsReplayHandoff[];
+  /** 동작 감지 자동 일시정지 모드 (생략하면 끔) */
+  autoPause?: Exclude<AutoPauseMode, 'off'>;
+  /** 시각별 실측 케이던스 (steps/min), 생략하면 pedometer로 측정할 수 없는 기기 */
+  cadenceAt?: (timestampMs: number) => number | undefined;
+}
+
+export interface GpsReplayPaceSample {
+  timestampMs: number;
+  /** 순간 페이스 (초/km, 정지 중이면 0) */
+  secondsPerKm: number;
+}
+
+export interface GpsReplayReport {
+  traceName: string;
+  distanceMeters: number;
+  pathPointCount: number;
+  paceSeries: GpsReplayPaceSample[];
+  segmentCount: number;
+  segmentDistanceMeters: number;
+  /** 거리에 반영되지 않은 샘플의 판정 사유별 개수 */
+  rejectReasons: Partial<Record<GpsRejectReason, number>>;
+  /** 포인트를 받은 시점의 tracking source별 개수 */
+  pointsBySource: Partial<Record<TrackingSource, number>>;
+  /** 동작 감지 자동 일시정지/재개 결정 (autoPause를 준 경우) */
+  autoPauseDecisions: AutoPauseDecision[];
+}
+
+const DEFAULT_RECORD_ID = 1;
+const AUTO_PAUSE_TICK_MS = 1000;
+
+const useReplayPipeline = () => {
+  const { stats, statsRef, updateStats } = useRunningStats();
+  const {
+    segmentStartTimeRef,
+    segmentItemsRef,
+    createSegment,
+    finalizeCurrentSegment,
+    initializeSegmentTracking,
+    setSegmentDistance,
+    setSegmentLocations,
+  } = useRunningSegments({ statsRef });
+  const gpsTracking = useGpsTracking({
+    segmentStartTimeRef,
+    statsRef,
+    onSegmentCreate: createSegment,
+    onDistanceUpdate: (distanceDelta, newLocations) => {
+      setSegmentDistance((prev) => prev + distanceDelta);
+      setSegmentLocations((prev) => [...prev, ...newLocations]);
+    },
+  });
+
+  return {
+    ...gpsTracking,
+    stats,
+    updateStats,
+    segmentItemsRef,
+    finalizeCurrentSegment,
+    initializeSegmentTracking,
+  };
+};
+
+/**
+ * 대기 중인 Promise 체인(AsyncStorage, coordinator 전환)을 모두 소진
+ */
+const flushAsyncWork = async () => {
+  for (let round = 0; round < 3; round++) {
+    await new Promise<void>((resolve) => setImmediate(resolve));
+  }
+};
+
+const setCurrentAppState = (appState: AppStateStatus) => {
+  Object.defineProperty(AppState, 'currentState', {
+    configurable: true,
+    value: appState,
+  });
+};
+
+const increment = <K extends string>(histogram: Partial<Record<K, number>>, key: K) => {
+  histogram[key] = (histogram[key] ?? 0) + 1;
+};
+
+export const replayGpsTrace = async (
+  trace: GpsTrace,
+  { recordId = DEFAULT_RECORD_ID, handoffs = [], autoPause, cadenceAt }: GpsReplayOptions = {}
+): Promise<GpsReplayReport> => {
+  const startTimestampMs = trace.points[0]?.timestampMs ?? 0;
+  let nowMs = startTimestampMs;
+  const rejectReasons: GpsReplayReport['rejectReasons'] = {};
+  const pointsBySource: GpsReplayReport['pointsBySource'] = {};
+  const paceSeries: GpsReplayPaceSample[] = [];
+  const autoPauseDecisions: AutoPauseDecision[] = [];
+  let autoPauseState = createInitialAutoPauseState();
+  let appStateHandler: ((nextAppState: AppStateStatus) => void) | null = null;
+
+  nativeLocationHost.reset();
+  await AsyncStorage.clear();
+  setCurrentAppState('active');
+  useAppStore.getState().setRunningState(RunningState.Running);
+
+  const dateNowSpy = jest.spyOn(Date, 'now').mockImplementation(() => nowMs);
+  const filterSpy = jest.spyOn(gpsKalmanSmoother, 'reduceSmoothedGpsSample');
+  const appStateSpy = jest
+    .spyOn(AppState, 'addEventListener')
+    .mockImplementation((type, handler) => {
+      if (type === 'change') {
+        appStateHandler = handler;
+      }
+      return { remove: () => undefined };
+    });
+  const consoleLogSpy = jest.spyOn(console, 'log').mockImplementation(() => undefined);
+
+  const { result, unmount } = renderHook(() => useReplayPipeline());
+
+  try {
+    await act(async () => {
+      result.current.initializeSegmentTracking();
+      await result.current.startGpsTracking(recordId);
+    });
+
+    let lastAutoPauseTickMs = startTimestampMs;
+    /**
+     * useAutoPause의 1초 tick 한 번 (결정에 따라 useRunningLifecycle처럼 일시정지/재개)
+     */
+    const runAutoPauseTick = async (tickMs: number) => {
+      if (!autoPause) return;
+      lastAutoPauseTickMs = tickMs;
+
+      const paceSignal = result.current.latestPaceSignal;
+      const cadence = cadenceAt?.(tickMs);
+      const isAutoPaused = useAppStore.getState().runningState === RunningState.Paused;
+      const { decision, nextState } = evaluateAutoPause(
+        {
+          nowMs: tickMs,
+          isAutoPaused,
+          ...(paceSignal && { paceSignal }),
+          ...(cadence !== undefined && { cadence }),
+        },
+        autoPauseState,
+        AUTO_PAUSE_CONFIGS[autoPause]
+      );
+      autoPauseState = nextState;
+
+      if (!decision) return;
+
+      autoPauseDecisions.push(decision);
+      // useAutoPause처럼 상태가 바뀌면 판정 상태를 새로 시작
+      autoPauseState = createInitialAutoPauseState(decision.type === 'pause');
+      await act(async () => {
+        if (decision.type === 'resume') {
+          result.current.resumeGpsTracking();
+        }
+        useAppStore
+          .getState()
+          .setRunningState(decision.type === 'pause' ? RunningState.Paused : RunningState.Running);
+        await flushAsyncWork();
+      });
+    };
+
+    for (const [index, point] of trace.points.entries()) {
+      // 포인트 사이 공백(터널 등)에도 1초 tick은 계속 돎
+      while (autoPause && point.timestampMs - lastAutoPauseTickMs > AUTO_PAUSE_TICK_MS) {
+        nowMs = lastAutoPauseTickMs + AUTO_PAUSE_TICK_MS;
+        await runAutoPauseTick(nowMs);
+      }
+      nowMs = point.timestampMs;
+
+      for (const handoff of handoffs.filter(({ atIndex }) => atIndex === index)) {
+        setCurrentAppState(handoff.appState);
+        await act(async () => {
+          appStateHandler?.(handoff.appState);
+          await flushAsyncWork();
+        });
+      }
+
+      increment(pointsBySource, result.current.useBackgroundMode ? 'background' : 'foreground');
+
+      await act(async () => {
+        await nativeLocationHost.deliver(toLocationObject(point));
+        await flushAsyncWork();
+      });
+
+      act(() => {
+        result.current.updateStats(
+          result.current.distance,
+          Math.max(1, Math.round((nowMs - startTimestampMs) / 1000)),
+          undefined,
+          undefined,
+          result.current.latestPaceSignal ?? undefined
+        );
+      });
+      paceSeries.push({
+        timestampMs: nowMs,
+        secondsPerKm: result.current.stats.instantPace.totalSeconds,
+      });
+
+      await runAutoPauseTick(nowMs);
+    }
+
+    let stopped: { distance: number; locations: unknown[] } = { distance: 0, locations: [] };
+    await act(async () => {
+      stopped = await result.current.stopGpsTracking();
+    });
+    act(() => {
+      result.current.finalizeCurrentSegment();
+    });
+
+    filterSpy.mock.results.forEach(({ type, value }) => {
+      if (type !== 'return') return;
+      const { result: filterResult } = value as gpsKalmanSmoother.GpsSmoothingEvaluation;
+      if (!filterResult.acceptedForDistance) {
+        increment(rejectReasons, filterResult.reason);
+      }
+    });
+
+    const segmentItems = result.current.segmentItemsRef.current;
+
+    return {
+      traceName: trace.name,
+      distanceMeters: stopped.distance,
+      pathPointCount: stopped.locations.length,
+      paceSeries,
+      segmentCount: segmentItems.length,
+      segmentDistanceMeters: segmentItems.reduce((sum, item) => sum + item.distance, 0),
+      rejectReasons,
+      pointsBySource,
+      autoPauseDecisions,
+    };
+  } finally {
+    unmount();
+    nativeLocationHost.reset();
+    dateNowSpy.mockRestore();
+    filterSpy.mockRestore();
+    appStateSpy.mockRestore();
+    consoleLogSpy.mockRestore();
+  }
+};
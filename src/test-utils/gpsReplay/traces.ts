@@ -0,0 +1,293 @@
+/**
+ * GPS 재생(replay)용 trace
+ * - 더미 경로(dummyGpsData), 서버 기록(RunningRecordItem.gpsPoints), 합성 시나리오를 같은 형태로 변환
+ * - 합성 trace는 고정 seed 잡음을 써서 실행마다 같은 결과를 보장
+ */
+
+import type { LocationObject } from 'expo-location';
+import type { Location } from '~/features/running/models';
+import type { GpsSample } from '~/features/running/services/gps/GpsFilter';
+import type { RunningRecordItemResponse } from '~/features/running/services/runningService';
+import { calculateHaversineDistance } from '~/shared/utils/DistanceUtils';
+
+export interface GpsTracePoint extends GpsSample {
+  altitude?: number;
+}
+
+export interface GpsTrace {
+  name: string;
+  points: GpsTracePoint[];
+  /** 합성 trace의 실제 이동 거리 (m) */
+  expectedDistanceMeters?: number;
+}
+
+export interface SyntheticTraceOptions {
+  startTimestampMs?: number;
+  speedMps?: number;
+  noiseMeters?: number;
+  accuracyMeters?: number;
+  seed?: number;
+}
+
+const ORIGIN_LATITUDE = 37.5665;
+const ORIGIN_LONGITUDE = 126.978;
+const METERS_PER_DEGREE_LATITUDE = (Math.PI * 6371e3) / 180;
+const METERS_PER_DEGREE_LONGITUDE =
+  METERS_PER_DEGREE_LATITUDE * Math.cos((ORIGIN_LATITUDE * Math.PI) / 180);
+const DEFAULT_START_TIMESTAMP_MS = Date.UTC(2025, 0, 1);
+const SAMPLE_INTERVAL_MS = 1000;
+
+/**
+ * 결정적 의사난수 (-1 ~ 1)
+ */
+const createNoise = (seed: number) => {
+  let value = seed;
+  return () => {
+    value = (value * 1103515245 + 12345) % 2147483648;
+    return (value / 2147483648) * 2 - 1;
+  };
+};
+
+const toTracePoint = (
+  eastMeters: number,
+  northMeters: number,
+  timestampMs: number,
+  speedMps: number,
+  accuracyMeters: number
+): GpsTracePoint => ({
+  latitude: ORIGIN_LATITUDE + northMeters / METERS_PER_DEGREE_LATITUDE,
+  longitude: ORIGIN_LONGITUDE + eastMeters / METERS_PER_DEGREE_LONGITUDE,
+  timestampMs,
+  speedMps,
+  accuracyMeters,
+});
+
+/**
+ * 초 단위 실제 위치(동/북 m)와 속도로 1Hz trace 생성 (측정 위치에만 잡음 추가)
+ */
+const buildSyntheticTrace = (
+  name: string,
+  truth: { eastMeters: number; northMeters: number; speedMps: number }[],
+  {
+    startTimestampMs = DEFAULT_START_TIMESTAMP_MS,
+    noiseMeters = 2,
+    accuracyMeters = 8,
+    seed = 7,
+  }: SyntheticTraceOptions
+): GpsTrace => {
+  const noise = createNoise(seed);
+  let expectedDistanceMeters = 0;
+
+  const points = truth.map((position, second) => {
+    const previous = truth[second - 1];
+    if (previous) {
+      expectedDistanceMeters += Math.hypot(
+        position.eastMeters - previous.eastMeters,
+        position.northMeters - previous.northMeters
+      );
+    }
+
+    return toTracePoint(
+      position.eastMeters + noise() * noiseMeters,
+      position.northMeters + noise() * noiseMeters,
+      startTimestampMs + second * SAMPLE_INTERVAL_MS,
+      position.speedMps,
+      accuracyMeters
+    );
+  });
+
+  return { name, points, expectedDistanceMeters };
+};
+
+/**
+ * 동쪽 직선 주행
+ */
+export const createStraightTrace = (
+  seconds: number,
+  options: SyntheticTraceOptions = {}
+): GpsTrace => {
+  const speedMps = options.speedMps ?? 3;
+  return buildSyntheticTrace(
+    'straight',
+    Array.from({ length: seconds + 1 }, (_, second) => ({
+      eastMeters: second * speedMps,
+      northMeters: 0,
+      speedMps,
+    })),
+    options
+  );
+};
+
+/**
+ * 직선 주행 중 터널 구간에서 GPS가 끊기고, 출구 직후 몇 개는 정확도가 나쁜 trace
+ */
+export const createTunnelTrace = (
+  {
+    seconds = 180,
+    tunnelStartSecond = 60,
+    tunnelSeconds = 40,
+    degradedExitSamples = 3,
+    ...options
+  }: SyntheticTraceOptions & {
+    seconds?: number;
+    tunnelStartSecond?: number;
+    tunnelSeconds?: number;
+    degradedExitSamples?: number;
+  } = {}
+): GpsTrace => {
+  const straight = createStraightTrace(seconds, options);
+  const tunnelEndSecond = tunnelStartSecond + tunnelSeconds;
+  const startTimestampMs = straight.points[0]?.timestampMs ?? DEFAULT_START_TIMESTAMP_MS;
+
+  const points = straight.points.flatMap((point) => {
+    const second = (point.timestampMs - startTimestampMs) / SAMPLE_INTERVAL_MS;
+    if (second >= tunnelStartSecond && second < tunnelEndSecond) {
+      return [];
+    }
+    if (second >= tunnelEndSecond && second < tunnelEndSecond + degradedExitSamples) {
+      return [{ ...point, accuracyMeters: 60 }];
+    }
+    return [point];
+  });
+
+  return { ...straight, name: 'tunnel', points };
+};
+
+/**
+ * 반환점에서 되돌아오는 왕복 주행 (반환점 전후 2초 감속)
+ */
+export const createUTurnTrace = (
+  { legSeconds = 60, ...options }: SyntheticTraceOptions & { legSeconds?: number } = {}
+): GpsTrace => {
+  const speedMps = options.speedMps ?? 3;
+  const turnSpeedMps = speedMps / 3;
+  const truth: { eastMeters: number; northMeters: number; speedMps: number }[] = [];
+  let eastMeters = 0;
+
+  for (let second = 0; second <= legSeconds * 2; second++) {
+    const isTurning = Math.abs(second - legSeconds) <= 2;
+    const secondSpeedMps = isTurning ? turnSpeedMps : speedMps;
+    if (second > 0) {
+      eastMeters += second <= legSeconds ? secondSpeedMps : -secondSpeedMps;
+    }
+    truth.push({ eastMeters, northMeters: 0, speedMps: secondSpeedMps });
+  }
+
+  return buildSyntheticTrace('u-turn', truth, options);
+};
+
+/**
+ * 달리기/정지(신호 대기)를 반복하는 trace
+ */
+export const createStopAndGoTrace = (
+  {
+    cycles = 3,
+    runSeconds = 40,
+    stopSeconds = 30,
+    ...options
+  }: SyntheticTraceOptions & { cycles?: number; runSeconds?: number; stopSeconds?: number } = {}
+): GpsTrace => {
+  const speedMps = options.speedMps ?? 3;
+  const truth: { eastMeters: number; northMeters: number; speedMps: number }[] = [
+    { eastMeters: 0, northMeters: 0, speedMps: 0 },
+  ];
+  let eastMeters = 0;
+
+  for (let cycle = 0; cycle < cycles; cycle++) {
+    for (let second = 0; second < runSeconds; second++) {
+      eastMeters += speedMps;
+      truth.push({ eastMeters, northMeters: 0, speedMps });
+    }
+    for (let second = 0; second < stopSeconds; second++) {
+      truth.push({ eastMeters, northMeters: 0, speedMps: 0 });
+    }
+  }
+
+  return buildSyntheticTrace('stop-and-go', truth, options);
+};
+
+/**
+ * 앱 Location 배열 → trace (dummyGpsData의 generateDummyLocations 등)
+ */
+export const createTraceFromLocations = (name: string, locations: Location[]): GpsTrace => ({
+  name,
+  points: locations.map((location) => ({
+    latitude: location.latitude,
+    longitude: location.longitude,
+    timestampMs: location.timestamp.getTime(),
+    altitude: location.altitude,
+    ...(location.speed > 0 && { speedMps: location.speed }),
+    ...(location.accuracy !== undefined && { accuracyMeters: location.accuracy }),
+  })),
+});
+
+/**
+ * 서버에 저장된 세그먼트 gpsPoints → trace (orderIndex 순서로 이어 붙임)
+ */
+export const createTraceFromRecordItems = (
+  name: string,
+  items: RunningRecordItemResponse[]
+): GpsTrace => ({
+  name,
+  points: [...items]
+    .sort((left, right) => left.orderIndex - right.orderIndex)
+    .flatMap((item) => item.gpsPoints ?? [])
+    .map((point) => ({
+      latitude: point.latitude,
+      longitude: point.longitude,
+      timestampMs: point.timestampMs,
+      altitude: point.altitude,
+      ...(point.speed > 0 && { speedMps: point.speed }),
+      ...(point.accuracy !== undefined && { accuracyMeters: point.accuracy }),
+    })),
+});
+
+/**
+ * 포인트 간격이 넓은 trace를 선형 보간으로 intervalMs 간격으로 재샘플링
+ * 속도는 보간 구간의 거리/시간으로 다시 계산
+ */
+export const resampleTrace = (trace: GpsTrace, intervalMs = SAMPLE_INTERVAL_MS): GpsTrace => {
+  const points: GpsTracePoint[] = [];
+
+  trace.points.forEach((point, index) => {
+    const next = trace.points[index + 1];
+    if (!next || next.timestampMs <= point.timestampMs) {
+      if (!next) points.push(point);
+      return;
+    }
+
+    const durationMs = next.timestampMs - point.timestampMs;
+    const speedMps =
+      calculateHaversineDistance(point.latitude, point.longitude, next.latitude, next.longitude) /
+      (durationMs / 1000);
+
+    for (let offsetMs = 0; offsetMs < durationMs; offsetMs += intervalMs) {
+      const ratio = offsetMs / durationMs;
+      points.push({
+        ...point,
+        latitude: point.latitude + (next.latitude - point.latitude) * ratio,
+        longitude: point.longitude + (next.longitude - point.longitude) * ratio,
+        timestampMs: point.timestampMs + offsetMs,
+        speedMps,
+      });
+    }
+  });
+
+  return { ...trace, points };
+};
+
+/**
+ * trace 포인트 → expo-location 콜백 형식
+ */
+export const toLocationObject = (point: GpsTracePoint): LocationObject => ({
+  timestamp: point.timestampMs,
+  coords: {
+    latitude: point.latitude,
+    longitude: point.longitude,
+    altitude: point.altitude ?? null,
+    accuracy: point.accuracyMeters ?? null,
+    altitudeAccuracy: null,
+    heading: null,
+    speed: point.speedMps ?? null,
+  },
+});
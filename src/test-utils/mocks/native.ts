@@ -8,6 +8,14 @@ jest.mock('@react-native-async-storage/async-storage', () =>
   require('@react-native-async-storage/async-storage/jest/async-storage-mock')
 );
 
+jest.mock('@react-native-community/netinfo', () =>
+  require('@react-native-community/netinfo/jest/netinfo-mock')
+);
+
+jest.mock('react-native-ble-plx', () =>
+  require('~/test-utils/ble/fakeHeartRatePeripheral').mockBlePlx
+);
+
 jest.mock('expo-router', () => ({
   router: mockRouter,
   useRouter: () => mockRouter,
@@ -1,5 +1,20 @@
 import { useAuthStore } from '~/features/auth/stores/authStore';
+import { useAvatarWardrobeStore } from '~/features/avatar/stores/avatarWardrobeStore';
+import { useBadgeStore } from '~/features/badges/stores/badgeStore';
+import { useVoiceCoachingStore } from '~/features/coaching/stores/voiceCoachingStore';
+import { useGhostPacerStore } from '~/features/ghost/stores/ghostPacerStore';
+import { useRunHighlightStore } from '~/features/reactions/stores/runHighlightStore';
+import { useAutoPauseStore } from '~/features/running/stores/autoPauseStore';
+import { useHeartRateSensorStore } from '~/features/running/stores/heartRateSensorStore';
+import { useHeartRateZoneStore } from '~/features/running/stores/heartRateZoneStore';
+import { useOfflineSyncStore } from '~/features/running/stores/offlineSyncStore';
+import { useShoeLifecycleStore } from '~/features/shoes/stores/shoeLifecycleStore';
+import { useShoeRotationStore } from '~/features/shoes/stores/shoeRotationStore';
+import { useHeartRateHistogramStore } from '~/features/statistics/stores/heartRateHistogramStore';
+import { usePersonalRecordStore } from '~/features/statistics/stores/personalRecordStore';
+import { useRunStreakStore } from '~/features/statistics/stores/runStreakStore';
 import { useUpdateStore } from '~/features/updates/stores/updateStore';
+import { useWorkoutStore } from '~/features/workout/stores/workoutStore';
 import { useAppStore } from '~/stores/app/appStore';
 import { useLeagueCheckStore } from '~/stores/league/leagueCheckStore';
 import { useUnityStore } from '~/stores/unity/unityStore';
@@ -21,6 +36,21 @@ export const resetAllStores = () => {
   useLeagueCheckStore.getState().reset();
   useUnityStore.getState().resetUnityState();
   useUpdateStore.getState().reset();
+  useOfflineSyncStore.getState().reset();
+  useAutoPauseStore.getState().reset();
+  useHeartRateSensorStore.getState().reset();
+  useHeartRateZoneStore.getState().reset();
+  useWorkoutStore.getState().reset();
+  useVoiceCoachingStore.getState().reset();
+  usePersonalRecordStore.getState().reset();
+  useHeartRateHistogramStore.getState().reset();
+  useShoeLifecycleStore.getState().reset();
+  useShoeRotationStore.getState().reset();
+  useAvatarWardrobeStore.getState().reset();
+  useGhostPacerStore.getState().reset();
+  useRunHighlightStore.getState().reset();
+  useBadgeStore.getState().reset();
+  useRunStreakStore.getState().reset();
 };
 
 export const clearPersistedStorage = async () => {
@@ -0,0 +1,174 @@
+/**
+ * RNUnityBridge 가짜 Unity 호스트 (in-process)
+ * - UnityBridge가 보낸 메시지를 Unity가 받는 형태({ objectName, methodName, parameter })로 기록
+ * - respondTo()로 등록한 응답을 해당 메시지가 도착하면 순서대로 재생
+ * - boot()는 실제 Unity처럼 onCharactorReady(+protocolVersion)를 발송
+ * - SetSprites는 Native Promise Hold처럼 onAvatarReady 발송 후 resolve (setAvatarResult로 타임아웃 재현)
+ *
+ * 사용:
+ *   jest.mock('~/features/unity/bridge/nativeUnityBridge', () =>
+ *     require('~/test-utils/unity/mockUnityHost').mockNativeUnityBridge
+ *   );
+ */
+
+import type { UnityInboundEvent } from '~/features/unity/protocol';
+import type { RNUnityBridgeModule } from '~/features/unity/types/UnityTypes';
+
+type NativeEventName = 'onCharactorReady' | 'onAvatarReady' | 'onUnityEvent';
+type NativeEventListener = (event: unknown) => void;
+
+export interface UnityHostMessage {
+  objectName: string;
+  methodName: string;
+  parameter: string;
+}
+
+export interface UnityHostEvent {
+  name: NativeEventName;
+  body: unknown;
+}
+
+interface BootOptions {
+  protocolVersion?: number; // 생략하면 버전을 보고하지 않는 구버전 빌드
+}
+
+const DEFAULT_CAPTURE_IMAGE = 'bW9jay1jaGFyYWN0ZXI=';
+
+const listeners = new Map<string, Set<NativeEventListener>>();
+const responses = new Map<string, UnityHostEvent[][]>();
+let received: UnityHostMessage[] = [];
+let isReady = false;
+let avatarApplied = true;
+let captureImages: string[] = [];
+
+const emit = ({ name, body }: UnityHostEvent): void => {
+  [...(listeners.get(name) ?? [])].forEach((listener) => listener(body));
+};
+
+/**
+ * 메시지 기록 후 등록된 응답 재생 (한 번 등록한 응답은 한 번만 사용)
+ */
+const receive = (message: UnityHostMessage): void => {
+  received.push(message);
+  const queue = responses.get(message.methodName);
+  queue?.shift()?.forEach(emit);
+};
+
+const mockEmitter = {
+  addListener: (eventName: string, listener: NativeEventListener) => {
+    const set = listeners.get(eventName) ?? new Set<NativeEventListener>();
+    set.add(listener);
+    listeners.set(eventName, set);
+    return {
+      remove: () => {
+        set.delete(listener);
+      },
+    };
+  },
+};
+
+const mockModule: RNUnityBridgeModule = {
+  sendUnityMessage: async (objectName, methodName, parameter) => {
+    receive({ objectName, methodName, parameter });
+  },
+  sendUnityJSON: async (objectName, methodName, data) => {
+    receive({ objectName, methodName, parameter: JSON.stringify(data) });
+  },
+  changeAvatarAndWait: async (objectName, methodName, data) => {
+    receive({ objectName, methodName, parameter: data });
+    if (!avatarApplied) {
+      return false;
+    }
+    emit({ name: 'onAvatarReady', body: { ready: true, timestamp: new Date().toISOString() } });
+    return true;
+  },
+  isCharactorReady: async () => isReady,
+  resetCharactorReady: async () => {
+    if (isReady) {
+      emit({
+        name: 'onCharactorReady',
+        body: { ready: true, source: 'reset_recovery', timestamp: new Date().toISOString() },
+      });
+    }
+  },
+  validateUnityState: async () => true,
+  forceResetUnity: async () => {
+    isReady = false;
+  },
+  captureCharacter: async () => {
+    receive({ objectName: 'Charactor', methodName: 'CaptureCharacter', parameter: '' });
+    return captureImages.shift() ?? DEFAULT_CAPTURE_IMAGE;
+  },
+  addListener: () => {},
+  removeListeners: () => {},
+};
+
+export const mockNativeUnityBridge = {
+  __esModule: true,
+  NativeUnityBridge: mockModule,
+  createUnityEventEmitter: () => mockEmitter,
+};
+
+export const mockUnityHost = {
+  /**
+   * Unity 캐릭터 준비 완료 (UnityCharactorReady 알림)
+   */
+  boot(options: BootOptions = {}): void {
+    isReady = true;
+    emit({
+      name: 'onCharactorReady',
+      body: {
+        ready: true,
+        timestamp: new Date().toISOString(),
+        ...(options.protocolVersion !== undefined ? { protocolVersion: options.protocolVersion } : {}),
+      },
+    });
+  },
+
+  /**
+   * methodName 메시지가 도착하면 재생할 응답 등록 (호출할 때마다 한 번분씩 쌓임)
+   */
+  respondTo(methodName: string, ...events: UnityHostEvent[]): void {
+    const queue = responses.get(methodName) ?? [];
+    queue.push(events);
+    responses.set(methodName, queue);
+  },
+
+  /**
+   * Unity 프로토콜 이벤트 (검증 전 원본 body 그대로 전달 가능)
+   */
+  emitUnityEvent(body: UnityInboundEvent | Record<string, unknown>): void {
+    emit({ name: 'onUnityEvent', body });
+  },
+
+  emit,
+
+  /**
+   * SetSprites 적용 결과 (false면 onAvatarReady 없이 타임아웃처럼 false 반환)
+   */
+  setAvatarResult(applied: boolean): void {
+    avatarApplied = applied;
+  },
+
+  queueCaptureImage(base64Image: string): void {
+    captureImages.push(base64Image);
+  },
+
+  /**
+   * 받은 메시지 (methodName으로 필터)
+   */
+  messages(methodName?: string): UnityHostMessage[] {
+    return methodName ? received.filter((message) => message.methodName === methodName) : [...received];
+  },
+
+  /**
+   * 기록/응답/준비 상태 초기화 (UnityBridge는 모듈 로드 시 한 번만 구독하므로 리스너는 유지)
+   */
+  reset(): void {
+    responses.clear();
+    received = [];
+    isReady = false;
+    avatarApplied = true;
+    captureImages = [];
+  },
+};